@@ -4,12 +4,69 @@ import { ThemeProvider } from '@mui/material/styles';
 import { CssBaseline } from '@mui/material';
 import { theme } from './theme';
 import { ProtectedRoute } from './components/ProtectedRoute';
+import { ModuleProtectedRoute } from './components/ModuleProtectedRoute';
+import { FeatureProtectedRoute } from './components/FeatureProtectedRoute';
 import { AdminProtectedRoute } from './components/AdminProtectedRoute';
 import { Login } from './pages/Login';
 import { Dashboard } from './pages/Dashboard';
 import { Organizations } from './pages/admin/Organizations';
 import { Users } from './pages/admin/Users';
 import { ActivityLogs } from './pages/ActivityLogs';
+import { MetalRates } from './pages/MetalRates';
+import { ItemList } from './pages/Items/ItemList';
+import { ItemForm } from './pages/Items/ItemForm';
+import { ItemDetail } from './pages/Items/ItemDetail';
+import { TagTemplates } from './pages/Tags/TagTemplates';
+import { PrintTags } from './pages/Tags/PrintTags';
+import { SalesInvoiceList } from './pages/Sales/SalesInvoiceList';
+import { PointOfSale } from './pages/Sales/PointOfSale';
+import { SalesInvoiceView } from './pages/Sales/SalesInvoiceView';
+import { StockList } from './pages/Stock/StockList';
+import { StockDetail } from './pages/Stock/StockDetail';
+import { StockAuditList } from './pages/Stock/StockAuditList';
+import { StockAuditSession } from './pages/Stock/StockAuditSession';
+import { PurchaseList } from './pages/Purchase/PurchaseList';
+import { PurchaseForm } from './pages/Purchase/PurchaseForm';
+import { PurchaseOrderView } from './pages/Purchase/PurchaseOrderView';
+import { PurchaseBillView } from './pages/Purchase/PurchaseBillView';
+import { SupplierList } from './pages/Purchase/SupplierList';
+import { SupplierLedger } from './pages/Purchase/SupplierLedger';
+import { JobCardList } from './pages/Manufacturing/JobCardList';
+import { JobCardForm } from './pages/Manufacturing/JobCardForm';
+import { JobCardView } from './pages/Manufacturing/JobCardView';
+import { KarigarList } from './pages/Manufacturing/KarigarList';
+import { KarigarLedger } from './pages/Manufacturing/KarigarLedger';
+import { OldGoldVoucherList } from './pages/OldGold/OldGoldVoucherList';
+import { OldGoldVoucherForm } from './pages/OldGold/OldGoldVoucherForm';
+import { OldGoldVoucherView } from './pages/OldGold/OldGoldVoucherView';
+import { HallmarkBatchList } from './pages/Hallmark/HallmarkBatchList';
+import { HallmarkBatchForm } from './pages/Hallmark/HallmarkBatchForm';
+import { HallmarkBatchView } from './pages/Hallmark/HallmarkBatchView';
+import { CertificateList } from './pages/Certificates/CertificateList';
+import { ApprovalMemoList } from './pages/Approvals/ApprovalMemoList';
+import { ApprovalMemoForm } from './pages/Approvals/ApprovalMemoForm';
+import { ApprovalMemoView } from './pages/Approvals/ApprovalMemoView';
+import { RepairOrderList } from './pages/Repairs/RepairOrderList';
+import { RepairOrderForm } from './pages/Repairs/RepairOrderForm';
+import { RepairOrderView } from './pages/Repairs/RepairOrderView';
+import { CustomOrderList } from './pages/CustomOrders/CustomOrderList';
+import { CustomOrderForm } from './pages/CustomOrders/CustomOrderForm';
+import { CustomOrderView } from './pages/CustomOrders/CustomOrderView';
+import { SchemeEnrolmentList } from './pages/Schemes/SchemeEnrolmentList';
+import { SchemeEnrolmentView } from './pages/Schemes/SchemeEnrolmentView';
+import { SchemePlanList } from './pages/Schemes/SchemePlanList';
+import { CustomerList } from './pages/Customers/CustomerList';
+import { CustomerForm } from './pages/Customers/CustomerForm';
+import { CustomerView } from './pages/Customers/CustomerView';
+import { ReceivablesAgeing } from './pages/Sales/ReceivablesAgeing';
+import { GstReturns } from './pages/Sales/GstReturns';
+import { TcsTdsReport } from './pages/Sales/TcsTdsReport';
+import { CreditOverrideRequests } from './pages/Sales/CreditOverrideRequests';
+import { ChartOfAccounts } from './pages/Accounting/ChartOfAccounts';
+import { VoucherList } from './pages/Accounting/VoucherList';
+import { VoucherForm } from './pages/Accounting/VoucherForm';
+import { VoucherView } from './pages/Accounting/VoucherView';
+import { FinancialReports } from './pages/Accounting/FinancialReports';
 import { ConfigLayout } from './pages/OrganizationConfig/ConfigLayout';
 import { General } from './pages/OrganizationConfig/General';
 import { Tax } from './pages/OrganizationConfig/Tax';
@@ -67,6 +124,492 @@ function App() {
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/metal-rates"
+              element={
+                <ProtectedRoute>
+                  <MetalRates />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/items"
+              element={
+                <ProtectedRoute>
+                  <ItemList />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/items/new"
+              element={
+                <ProtectedRoute>
+                  <ItemForm />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/items/:id"
+              element={
+                <ProtectedRoute>
+                  <ItemDetail />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/items/:id/edit"
+              element={
+                <ProtectedRoute>
+                  <ItemForm />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/tags/templates"
+              element={
+                <ProtectedRoute>
+                  <TagTemplates />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/tags/print"
+              element={
+                <ProtectedRoute>
+                  <PrintTags />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/sales/invoices"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <SalesInvoiceList />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/sales/pos"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <PointOfSale />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/sales/invoices/:id"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <SalesInvoiceView />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/stock"
+              element={
+                <ModuleProtectedRoute module="stock">
+                  <StockList />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/stock/audits"
+              element={
+                <ModuleProtectedRoute module="stock">
+                  <StockAuditList />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/stock/audits/:id"
+              element={
+                <ModuleProtectedRoute module="stock">
+                  <StockAuditSession />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/stock/:itemId"
+              element={
+                <ModuleProtectedRoute module="stock">
+                  <StockDetail />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/purchase/orders"
+              element={
+                <ModuleProtectedRoute module="purchase">
+                  <PurchaseList kind="order" />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/purchase/orders/new"
+              element={
+                <ModuleProtectedRoute module="purchase">
+                  <PurchaseForm kind="order" />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/purchase/orders/:id"
+              element={
+                <ModuleProtectedRoute module="purchase">
+                  <PurchaseOrderView />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/purchase/bills"
+              element={
+                <ModuleProtectedRoute module="purchase">
+                  <PurchaseList kind="bill" />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/purchase/bills/new"
+              element={
+                <ModuleProtectedRoute module="purchase">
+                  <PurchaseForm kind="bill" />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/purchase/bills/:id"
+              element={
+                <ModuleProtectedRoute module="purchase">
+                  <PurchaseBillView />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/purchase/suppliers"
+              element={
+                <ModuleProtectedRoute module="purchase">
+                  <SupplierList />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/purchase/suppliers/:id"
+              element={
+                <ModuleProtectedRoute module="purchase">
+                  <SupplierLedger />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/manufacturing/job-cards"
+              element={
+                <ModuleProtectedRoute module="manufacturing">
+                  <JobCardList />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/manufacturing/job-cards/new"
+              element={
+                <ModuleProtectedRoute module="manufacturing">
+                  <JobCardForm />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/manufacturing/job-cards/:id"
+              element={
+                <ModuleProtectedRoute module="manufacturing">
+                  <JobCardView />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/manufacturing/karigars"
+              element={
+                <ModuleProtectedRoute module="manufacturing">
+                  <KarigarList />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/manufacturing/karigars/:id"
+              element={
+                <ModuleProtectedRoute module="manufacturing">
+                  <KarigarLedger />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/old-gold"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <OldGoldVoucherList />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/old-gold/new"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <OldGoldVoucherForm />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/old-gold/:id"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <OldGoldVoucherView />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/hallmark/batches"
+              element={
+                <ProtectedRoute>
+                  <HallmarkBatchList />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/hallmark/batches/new"
+              element={
+                <ProtectedRoute>
+                  <HallmarkBatchForm />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/hallmark/batches/:id"
+              element={
+                <ProtectedRoute>
+                  <HallmarkBatchView />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/certificates"
+              element={
+                <ProtectedRoute>
+                  <CertificateList />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/approvals"
+              element={
+                <ProtectedRoute>
+                  <ApprovalMemoList />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/approvals/new"
+              element={
+                <ProtectedRoute>
+                  <ApprovalMemoForm />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/approvals/:id"
+              element={
+                <ProtectedRoute>
+                  <ApprovalMemoView />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/repairs"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <RepairOrderList />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/repairs/new"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <RepairOrderForm />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/repairs/:id"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <RepairOrderView />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/custom-orders"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <CustomOrderList />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/custom-orders/new"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <CustomOrderForm />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/custom-orders/:id"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <CustomOrderView />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/schemes"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <SchemeEnrolmentList />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/schemes/plans"
+              element={
+                <AdminProtectedRoute>
+                  <ModuleProtectedRoute module="sales">
+                    <SchemePlanList />
+                  </ModuleProtectedRoute>
+                </AdminProtectedRoute>
+              }
+            />
+            <Route
+              path="/schemes/:id"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <SchemeEnrolmentView />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/customers"
+              element={
+                <FeatureProtectedRoute feature="crm">
+                  <CustomerList />
+                </FeatureProtectedRoute>
+              }
+            />
+            <Route
+              path="/customers/new"
+              element={
+                <FeatureProtectedRoute feature="crm">
+                  <CustomerForm />
+                </FeatureProtectedRoute>
+              }
+            />
+            <Route
+              path="/customers/:id"
+              element={
+                <FeatureProtectedRoute feature="crm">
+                  <CustomerView />
+                </FeatureProtectedRoute>
+              }
+            />
+            <Route
+              path="/customers/:id/edit"
+              element={
+                <FeatureProtectedRoute feature="crm">
+                  <CustomerForm />
+                </FeatureProtectedRoute>
+              }
+            />
+            <Route
+              path="/sales/receivables"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <ReceivablesAgeing />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/sales/gst-returns"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <GstReturns />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/sales/tcs-tds"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <TcsTdsReport />
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/sales/credit-overrides"
+              element={
+                <ModuleProtectedRoute module="sales">
+                  <AdminProtectedRoute>
+                    <CreditOverrideRequests />
+                  </AdminProtectedRoute>
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/accounting/ledgers"
+              element={
+                <ModuleProtectedRoute module="accounting">
+                  <FeatureProtectedRoute feature="finance">
+                    <ChartOfAccounts />
+                  </FeatureProtectedRoute>
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/accounting/vouchers"
+              element={
+                <ModuleProtectedRoute module="accounting">
+                  <FeatureProtectedRoute feature="finance">
+                    <VoucherList />
+                  </FeatureProtectedRoute>
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/accounting/vouchers/new"
+              element={
+                <ModuleProtectedRoute module="accounting">
+                  <FeatureProtectedRoute feature="finance">
+                    <VoucherForm />
+                  </FeatureProtectedRoute>
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/accounting/vouchers/:id"
+              element={
+                <ModuleProtectedRoute module="accounting">
+                  <FeatureProtectedRoute feature="finance">
+                    <VoucherView />
+                  </FeatureProtectedRoute>
+                </ModuleProtectedRoute>
+              }
+            />
+            <Route
+              path="/accounting/reports"
+              element={
+                <ModuleProtectedRoute module="accounting">
+                  <FeatureProtectedRoute feature="finance">
+                    <FinancialReports />
+                  </FeatureProtectedRoute>
+                </ModuleProtectedRoute>
+              }
+            />
             <Route
               path="/admin/config"
               element={
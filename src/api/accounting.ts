@@ -0,0 +1,295 @@
+import client from './client';
+
+/**
+ * Which side of the books a group belongs to. Income and expenses close to
+ * profit and loss; assets and liabilities carry forward to the balance sheet.
+ */
+export type AccountNature = 'assets' | 'liabilities' | 'income' | 'expenses';
+
+export const ACCOUNT_NATURES: { value: AccountNature; label: string }[] = [
+  { value: 'assets', label: 'Assets' },
+  { value: 'liabilities', label: 'Liabilities' },
+  { value: 'income', label: 'Income' },
+  { value: 'expenses', label: 'Expenses' },
+];
+
+/**
+ * Group in the chart of accounts. The backend seeds the primary groups
+ * (Capital Account, Current Assets, Sales Accounts and so on); organizations
+ * add sub-groups under them.
+ */
+export interface AccountGroup {
+  id: string;
+  name: string;
+  /** Null for a primary group */
+  parentId: string | null;
+  nature: AccountNature;
+  /** Trading groups (sales, purchases, direct income and expenses) that make up gross profit */
+  affectsGrossProfit: boolean;
+  /** Set on seeded groups the backend posts to, e.g. cash, bank, stock, sundry_debtors */
+  systemKey: string | null;
+}
+
+/**
+ * Ledger account. Each customer and supplier gets a ledger under Sundry
+ * Debtors or Sundry Creditors the first time one of their documents posts.
+ */
+export interface Ledger {
+  id: string;
+  name: string;
+  groupId: string;
+  groupName: string;
+  /** Balance brought forward; debit positive, credit negative */
+  openingBalance: number;
+  /** Balance today; debit positive, credit negative */
+  balance: number;
+  /** Set on ledgers the backend posts to, e.g. sales, output_cgst, tcs_payable */
+  systemKey: string | null;
+  customerId: string | null;
+  supplierId: string | null;
+  isActive: boolean;
+  createdAt: string;
+}
+
+/**
+ * A ledger's movement over a period, for the financial reports
+ */
+export interface LedgerBalance {
+  ledgerId: string;
+  /** Balance at the start of the period, opening balance included; debit positive */
+  opening: number;
+  debit: number;
+  credit: number;
+}
+
+export type VoucherType = 'journal' | 'payment' | 'receipt' | 'contra';
+
+/**
+ * Voucher types with the prefix their series falls back to when none is set
+ * in the Numbering config
+ */
+export const VOUCHER_TYPES: { value: VoucherType; label: string; fallbackPrefix: string }[] = [
+  { value: 'journal', label: 'Journal', fallbackPrefix: 'JV' },
+  { value: 'payment', label: 'Payment', fallbackPrefix: 'PV' },
+  { value: 'receipt', label: 'Receipt', fallbackPrefix: 'RV' },
+  { value: 'contra', label: 'Contra', fallbackPrefix: 'CV' },
+];
+
+/**
+ * What raised a voucher. Sales invoices post a journal for the sale (customer
+ * or cash against sales, output GST and TCS payable) and a receipt for the
+ * payments taken; approved purchase bills post a journal for purchases and
+ * input GST against the supplier and TDS payable; supplier payments post a
+ * payment voucher.
+ */
+export type VoucherSource = 'manual' | 'sales_invoice' | 'purchase_bill' | 'supplier_payment';
+
+export const VOUCHER_SOURCES: { value: VoucherSource; label: string }[] = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'sales_invoice', label: 'Sales Invoice' },
+  { value: 'purchase_bill', label: 'Purchase Bill' },
+  { value: 'supplier_payment', label: 'Supplier Payment' },
+];
+
+export type VoucherStatus = 'posted' | 'cancelled';
+
+export interface VoucherEntry {
+  id?: string;
+  ledgerId: string;
+  ledgerName?: string;
+  debit: number;
+  credit: number;
+}
+
+export interface Voucher {
+  id: string;
+  organizationId: string;
+  voucherNumber: string;
+  voucherType: VoucherType;
+  voucherDate: string;
+  narration: string | null;
+  entries: VoucherEntry[];
+  /** Sum of the debits, which equals the sum of the credits */
+  amount: number;
+  source: VoucherSource;
+  /** Invoice, bill or payment the voucher was posted from */
+  sourceId: string | null;
+  sourceNumber: string | null;
+  status: VoucherStatus;
+  cancellationReason: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CreateAccountGroupData {
+  name: string;
+  parentId: string;
+  affectsGrossProfit?: boolean;
+}
+
+export interface CreateLedgerData {
+  name: string;
+  groupId: string;
+  openingBalance: number;
+  isActive?: boolean;
+}
+
+export interface CreateVoucherData {
+  voucherType: VoucherType;
+  voucherDate: string;
+  narration: string | null;
+  entries: VoucherEntry[];
+}
+
+export interface LedgerFilters {
+  search?: string;
+  groupId?: string;
+}
+
+export interface VoucherFilters {
+  search?: string;
+  voucherType?: VoucherType;
+  source?: VoucherSource;
+  ledgerId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface VouchersResponse {
+  success: boolean;
+  data: Voucher[];
+  count: number;
+}
+
+/**
+ * Fetch the chart of accounts groups, primary groups first
+ * @returns Account groups
+ */
+export async function fetchAccountGroups(): Promise<AccountGroup[]> {
+  const response = await client.get<{ success: boolean; data: AccountGroup[] }>('/accounting/groups');
+  return response.data.data;
+}
+
+/**
+ * Create a sub-group. It takes its nature from the parent.
+ * @param data - Group name and parent
+ * @returns Created group
+ */
+export async function createAccountGroup(data: CreateAccountGroupData): Promise<AccountGroup> {
+  const response = await client.post<{ success: boolean; data: AccountGroup }>('/accounting/groups', data);
+  return response.data.data;
+}
+
+/**
+ * Update a sub-group. Seeded groups cannot be changed.
+ * @param id - Group ID
+ * @param data - Fields to update
+ * @returns Updated group
+ */
+export async function updateAccountGroup(id: string, data: Partial<CreateAccountGroupData>): Promise<AccountGroup> {
+  const response = await client.put<{ success: boolean; data: AccountGroup }>(`/accounting/groups/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Fetch ledgers with their current balances, by name
+ * @param params - Optional filters
+ * @returns Ledgers
+ */
+export async function fetchLedgers(params?: LedgerFilters): Promise<Ledger[]> {
+  const response = await client.get<{ success: boolean; data: Ledger[] }>('/accounting/ledgers', { params });
+  return response.data.data;
+}
+
+/**
+ * Create a ledger
+ * @param data - Name, group and opening balance
+ * @returns Created ledger
+ */
+export async function createLedger(data: CreateLedgerData): Promise<Ledger> {
+  const response = await client.post<{ success: boolean; data: Ledger }>('/accounting/ledgers', data);
+  return response.data.data;
+}
+
+/**
+ * Update a ledger. System ledgers keep their group.
+ * @param id - Ledger ID
+ * @param data - Fields to update
+ * @returns Updated ledger
+ */
+export async function updateLedger(id: string, data: Partial<CreateLedgerData>): Promise<Ledger> {
+  const response = await client.put<{ success: boolean; data: Ledger }>(`/accounting/ledgers/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Fetch every ledger's opening balance and debits and credits over a period.
+ * Cancelled vouchers are left out.
+ * @param params - Period start and end (ISO dates)
+ * @returns One balance per ledger
+ */
+export async function fetchLedgerBalances(params: { startDate: string; endDate: string }): Promise<LedgerBalance[]> {
+  const response = await client.get<{ success: boolean; data: LedgerBalance[] }>('/accounting/ledger-balances', {
+    params,
+  });
+  return response.data.data;
+}
+
+/**
+ * Fetch vouchers, newest first
+ * @param params - Optional filters
+ * @returns Vouchers and total count
+ */
+export async function fetchVouchers(params?: VoucherFilters): Promise<VouchersResponse> {
+  const response = await client.get<VouchersResponse>('/accounting/vouchers', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single voucher
+ * @param id - Voucher ID
+ * @returns Voucher with entries
+ */
+export async function fetchVoucher(id: string): Promise<Voucher> {
+  const response = await client.get<{ success: boolean; data: Voucher }>(`/accounting/vouchers/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Fetch the number the next voucher of a type will be issued with, built
+ * from that type's prefix and start number in the Numbering config
+ * @param voucherType - Voucher type
+ * @returns Next voucher number
+ */
+export async function fetchNextVoucherNumber(voucherType: VoucherType): Promise<string> {
+  const response = await client.get<{ success: boolean; data: { voucherNumber: string } }>(
+    '/accounting/vouchers/next-number',
+    { params: { voucherType } }
+  );
+  return response.data.data.voucherNumber;
+}
+
+/**
+ * Create a voucher. The backend assigns the number from the type's series
+ * and rejects entries that do not balance.
+ * @param data - Voucher data
+ * @returns Created voucher
+ */
+export async function createVoucher(data: CreateVoucherData): Promise<Voucher> {
+  const response = await client.post<{ success: boolean; data: Voucher }>('/accounting/vouchers', data);
+  return response.data.data;
+}
+
+/**
+ * Cancel a manual voucher. Its number stays used; vouchers posted from
+ * invoices and bills are corrected with a journal instead.
+ * @param id - Voucher ID
+ * @param reason - Why the voucher was cancelled
+ * @returns Cancelled voucher
+ */
+export async function cancelVoucher(id: string, reason: string): Promise<Voucher> {
+  const response = await client.post<{ success: boolean; data: Voucher }>(`/accounting/vouchers/${id}/cancel`, {
+    reason,
+  });
+  return response.data.data;
+}
@@ -0,0 +1,157 @@
+import client from './client';
+import type { Customer } from './customers';
+import type { Supplier } from './suppliers';
+
+/**
+ * Pieces go out on approval either to a retail customer or to another
+ * dealer, who is kept on file as a supplier.
+ */
+export type ApprovalPartyType = 'customer' | 'dealer';
+
+export const APPROVAL_PARTY_TYPES: { value: ApprovalPartyType; label: string }[] = [
+  { value: 'customer', label: 'Customer' },
+  { value: 'dealer', label: 'Dealer' },
+];
+
+/**
+ * A memo stays open while any piece is still out; it closes once every
+ * piece is returned or sold.
+ */
+export type ApprovalMemoStatus = 'open' | 'partially_returned' | 'closed';
+
+export const APPROVAL_MEMO_STATUSES: {
+  value: ApprovalMemoStatus;
+  label: string;
+  color: 'info' | 'warning' | 'default';
+}[] = [
+  { value: 'open', label: 'Open', color: 'info' },
+  { value: 'partially_returned', label: 'Partially Returned', color: 'warning' },
+  { value: 'closed', label: 'Closed', color: 'default' },
+];
+
+export type ApprovalLineStatus = 'issued' | 'returned' | 'sold';
+
+export const APPROVAL_LINE_STATUSES: {
+  value: ApprovalLineStatus;
+  label: string;
+  color: 'info' | 'success' | 'default';
+}[] = [
+  { value: 'issued', label: 'With Party', color: 'info' },
+  { value: 'returned', label: 'Returned', color: 'default' },
+  { value: 'sold', label: 'Sold', color: 'success' },
+];
+
+export interface ApprovalMemoLine {
+  id: string;
+  itemId: string;
+  tagNumber: string;
+  description: string;
+  purity: string | null;
+  grossWeight: number;
+  netWeight: number;
+  status: ApprovalLineStatus;
+  returnedDate: string | null;
+  /** Invoice the piece was sold on when the party kept it */
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+}
+
+export interface ApprovalMemo {
+  id: string;
+  organizationId: string;
+  memoNumber: string;
+  issueDate: string;
+  expectedReturnDate: string;
+  partyType: ApprovalPartyType;
+  customerId: string | null;
+  customer: Customer | null;
+  supplierId: string | null;
+  supplier: Supplier | null;
+  status: ApprovalMemoStatus;
+  lines: ApprovalMemoLine[];
+  totalGrossWeight: number;
+  /** Pieces still with the party */
+  outstandingCount: number;
+  /** Past the expected return date with pieces still out */
+  isOverdue: boolean;
+  notes: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CreateApprovalMemoData {
+  issueDate: string;
+  expectedReturnDate: string;
+  partyType: ApprovalPartyType;
+  customerId: string | null;
+  supplierId: string | null;
+  itemIds: string[];
+  notes: string | null;
+}
+
+export interface ReturnApprovalItemsData {
+  returnedDate: string;
+  lineIds: string[];
+  notes: string | null;
+}
+
+export interface ApprovalMemoFilters {
+  search?: string;
+  status?: string;
+  partyType?: string;
+  /** Only memos past their expected return date with pieces still out */
+  overdue?: boolean;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface ApprovalMemosResponse {
+  success: boolean;
+  data: ApprovalMemo[];
+  count: number;
+}
+
+/**
+ * Fetch approval memos, newest first
+ * @param params - Optional filters
+ * @returns Memos and total count
+ */
+export async function fetchApprovalMemos(params?: ApprovalMemoFilters): Promise<ApprovalMemosResponse> {
+  const response = await client.get<ApprovalMemosResponse>('/approval-memos', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single approval memo
+ * @param id - Memo ID
+ * @returns Memo with its lines
+ */
+export async function fetchApprovalMemo(id: string): Promise<ApprovalMemo> {
+  const response = await client.get<{ success: boolean; data: ApprovalMemo }>(`/approval-memos/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Issue pieces on approval. The backend assigns the memo number from the
+ * memo series of the Numbering config and moves each piece to On Approval.
+ * @param data - Memo data
+ * @returns Created memo
+ */
+export async function createApprovalMemo(data: CreateApprovalMemoData): Promise<ApprovalMemo> {
+  const response = await client.post<{ success: boolean; data: ApprovalMemo }>('/approval-memos', data);
+  return response.data.data;
+}
+
+/**
+ * Take pieces back from the party. Returned pieces move back to In Stock.
+ * @param id - Memo ID
+ * @param data - Return date and the lines coming back
+ * @returns Updated memo
+ */
+export async function returnApprovalItems(id: string, data: ReturnApprovalItemsData): Promise<ApprovalMemo> {
+  const response = await client.post<{ success: boolean; data: ApprovalMemo }>(
+    `/approval-memos/${id}/return`,
+    data
+  );
+  return response.data.data;
+}
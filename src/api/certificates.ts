@@ -0,0 +1,143 @@
+import client from './client';
+
+export const CERTIFICATE_LABS = [
+  { value: 'IGI', label: 'IGI' },
+  { value: 'GIA', label: 'GIA' },
+  { value: 'SGL', label: 'SGL' },
+  { value: 'HRD', label: 'HRD' },
+  { value: 'GSI', label: 'GSI' },
+  { value: 'other', label: 'Other' },
+];
+
+export const STONE_SHAPES = [
+  { value: 'round', label: 'Round' },
+  { value: 'princess', label: 'Princess' },
+  { value: 'oval', label: 'Oval' },
+  { value: 'cushion', label: 'Cushion' },
+  { value: 'emerald', label: 'Emerald' },
+  { value: 'pear', label: 'Pear' },
+  { value: 'marquise', label: 'Marquise' },
+  { value: 'heart', label: 'Heart' },
+  { value: 'radiant', label: 'Radiant' },
+  { value: 'asscher', label: 'Asscher' },
+];
+
+export const CUT_GRADES = [
+  { value: 'EX', label: 'Excellent' },
+  { value: 'VG', label: 'Very Good' },
+  { value: 'G', label: 'Good' },
+  { value: 'F', label: 'Fair' },
+  { value: 'P', label: 'Poor' },
+];
+
+/** Diamond colour grades; coloured gemstones record their colour as free text */
+export const DIAMOND_COLOURS = ['D', 'E', 'F', 'G', 'H', 'I', 'J', 'K', 'L', 'M'];
+
+export const CLARITY_GRADES = ['FL', 'IF', 'VVS1', 'VVS2', 'VS1', 'VS2', 'SI1', 'SI2', 'I1', 'I2', 'I3'];
+
+export interface Certificate {
+  id: string;
+  organizationId: string;
+  lab: string;
+  certificateNumber: string;
+  itemId: string;
+  tagNumber: string;
+  /** Stone line of the item the certificate covers; null for the piece as a whole */
+  stoneLineId: string | null;
+  stoneType: string;
+  caratWeight: number;
+  shape: string | null;
+  cut: string | null;
+  colour: string | null;
+  clarity: string | null;
+  /** Length x width x depth as printed on the certificate, e.g. 6.45 x 6.48 x 3.98 mm */
+  measurements: string | null;
+  attachmentUrl: string | null;
+  attachmentName: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Certificate details carried on items and invoice lines
+ */
+export type CertificateSummary = Pick<
+  Certificate,
+  'id' | 'lab' | 'certificateNumber' | 'stoneType' | 'caratWeight' | 'shape' | 'cut' | 'colour' | 'clarity'
+>;
+
+export type CertificateData = Omit<
+  Certificate,
+  'id' | 'organizationId' | 'tagNumber' | 'attachmentUrl' | 'attachmentName' | 'createdAt' | 'updatedAt'
+>;
+
+export interface CertificateFilters {
+  search?: string;
+  lab?: string;
+  shape?: string;
+  itemId?: string;
+}
+
+export interface CertificatesResponse {
+  success: boolean;
+  data: Certificate[];
+  count: number;
+}
+
+/**
+ * Fetch certificates, newest first
+ * @param params - Optional filters; search matches certificate and tag numbers
+ * @returns Certificates and total count
+ */
+export async function fetchCertificates(params?: CertificateFilters): Promise<CertificatesResponse> {
+  const response = await client.get<CertificatesResponse>('/certificates', { params });
+  return response.data;
+}
+
+/**
+ * Create a certificate record. The backend rejects a certificate number
+ * already recorded for the same lab.
+ * @param data - Certificate data
+ * @returns Created certificate
+ */
+export async function createCertificate(data: CertificateData): Promise<Certificate> {
+  const response = await client.post<{ success: boolean; data: Certificate }>('/certificates', data);
+  return response.data.data;
+}
+
+/**
+ * Update a certificate record
+ * @param id - Certificate ID
+ * @param data - Certificate data
+ * @returns Updated certificate
+ */
+export async function updateCertificate(id: string, data: CertificateData): Promise<Certificate> {
+  const response = await client.put<{ success: boolean; data: Certificate }>(`/certificates/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Attach a scan of the certificate, replacing any earlier one
+ * @param id - Certificate ID
+ * @param file - PDF or image of the certificate
+ * @returns Certificate with the attachment URL
+ */
+export async function uploadCertificateAttachment(id: string, file: File): Promise<Certificate> {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await client.post<{ success: boolean; data: Certificate }>(
+    `/certificates/${id}/attachment`,
+    formData,
+    { headers: { 'Content-Type': 'multipart/form-data' } }
+  );
+  return response.data.data;
+}
+
+/**
+ * Delete a certificate record
+ * @param id - Certificate ID
+ */
+export async function deleteCertificate(id: string): Promise<void> {
+  await client.delete(`/certificates/${id}`);
+}
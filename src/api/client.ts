@@ -37,6 +37,19 @@ client.interceptors.response.use(
   }
 );
 
+/**
+ * Extract a user-facing message from an API error
+ * @param error - Error thrown by the axios client
+ * @param fallback - Message used when the response carries no error text
+ * @returns Error message
+ */
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  if (axios.isAxiosError<{ error?: string; message?: string }>(error)) {
+    return error.response?.data?.error || error.response?.data?.message || fallback;
+  }
+  return fallback;
+}
+
 export default client;
 
 
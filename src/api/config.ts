@@ -1,4 +1,5 @@
 import client from './client';
+import type { EInvoiceAdapterId } from './eInvoice';
 
 /**
  * Generic response structure for config endpoints
@@ -16,10 +17,73 @@ export interface GeneralConfig {
   [key: string]: any;
 }
 
+/**
+ * One row of the GST rate table, keyed by HSN (goods) or SAC (services) code
+ */
+export interface TaxRate {
+  code: string;
+  description: string;
+  ratePercent: number;
+}
+
+/** What a TCS/TDS section's threshold is tested against */
+export type WithholdingBasis = 'cash_sale' | 'sale' | 'purchase';
+
+export const WITHHOLDING_BASES: { value: WithholdingBasis; label: string; description: string }[] = [
+  { value: 'cash_sale', label: 'Cash Sale', description: 'Cash received on one invoice' },
+  { value: 'sale', label: 'Sales', description: "Customer's sales in the financial year" },
+  { value: 'purchase', label: 'Purchases', description: "Supplier's bills in the financial year" },
+];
+
+/**
+ * A TCS (on sales) or TDS (on purchases) section of the Income Tax Act and
+ * when it applies. Cash sale sections tax the whole cash receipt once it is
+ * above the threshold; the others tax only the part of the financial year's
+ * total that goes past it.
+ */
+export interface WithholdingSection {
+  /** e.g. 206C(1H) or 194Q */
+  section: string;
+  description: string;
+  basis: WithholdingBasis;
+  threshold: number;
+  ratePercent: number;
+  /** Higher rate when the party has no PAN on file (sections 206AA and 206CC) */
+  ratePercentWithoutPan: number;
+}
+
+/**
+ * TCS collected on a sales invoice or TDS deducted on a purchase bill
+ */
+export interface WithholdingCharge {
+  section: string;
+  /** Amount the rate was applied to */
+  taxableAmount: number;
+  ratePercent: number;
+  amount: number;
+}
+
 /**
  * Tax Configuration
  */
 export interface TaxConfig {
+  taxEnabled?: boolean;
+  /** Organization GSTIN */
+  taxNumber?: string;
+  /** Two-digit GST state code the organization is registered in */
+  stateCode?: string;
+  rates?: TaxRate[];
+  /** Rate table code for metal, wastage and stone value */
+  goodsTaxCode?: string;
+  /** Rate table code for making charges; blank taxes making with the goods */
+  makingTaxCode?: string;
+  /** Register B2B invoices with the IRP */
+  eInvoiceEnabled?: boolean;
+  eInvoiceAdapter?: EInvoiceAdapterId;
+  /** TCS and TDS sections applied to invoices and purchase bills; the first that applies is charged */
+  withholdingSections?: WithholdingSection[];
+  /** Cash from one customer in a day must stay below this (section 269ST); 0 turns the check off */
+  cashReceiptLimit?: number;
   [key: string]: any;
 }
 
@@ -44,6 +108,18 @@ export interface FinanceConfig {
   [key: string]: any;
 }
 
+/**
+ * Payment modes an organization can accept
+ */
+export const PAYMENT_MODES = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'upi', label: 'UPI' },
+  { value: 'online', label: 'Online Payment' },
+];
+
 /**
  * Feature Configuration
  */
@@ -51,6 +127,11 @@ export interface FeatureConfig {
   [key: string]: any;
 }
 
+/**
+ * Feature toggles on the Features config page
+ */
+export type FeatureKey = 'sales' | 'purchases' | 'stock' | 'finance' | 'hr' | 'crm' | 'reports';
+
 /**
  * Get General Configuration
  * @returns General configuration data
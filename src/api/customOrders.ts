@@ -0,0 +1,205 @@
+import client from './client';
+import type { Customer } from './customers';
+import type { Metal } from './metalRates';
+
+export type CustomOrderStatus = 'booked' | 'design_approved' | 'in_production' | 'ready' | 'delivered' | 'cancelled';
+
+export const CUSTOM_ORDER_STATUSES: {
+  value: CustomOrderStatus;
+  label: string;
+  color: 'info' | 'primary' | 'warning' | 'success' | 'default';
+}[] = [
+  { value: 'booked', label: 'Booked', color: 'info' },
+  { value: 'design_approved', label: 'Design Approved', color: 'primary' },
+  { value: 'in_production', label: 'In Production', color: 'warning' },
+  { value: 'ready', label: 'Ready for Delivery', color: 'success' },
+  { value: 'delivered', label: 'Delivered', color: 'default' },
+  { value: 'cancelled', label: 'Cancelled', color: 'default' },
+];
+
+/** Production stages staff move an order through; delivery happens by billing it */
+export const CUSTOM_ORDER_PRODUCTION_STATUSES = CUSTOM_ORDER_STATUSES.filter((status) =>
+  ['booked', 'design_approved', 'in_production', 'ready'].includes(status.value)
+);
+
+export interface CustomOrderImage {
+  id: string;
+  url: string;
+  name: string;
+}
+
+export interface CustomOrderAdvance {
+  id: string;
+  receivedDate: string;
+  amount: number;
+  mode: string;
+  reference: string | null;
+  /** The advance was converted to metal at the day's rate to protect the customer from rate rises */
+  rateLocked: boolean;
+  /** Rate per gram of the order's purity the advance was converted at */
+  ratePerGram: number | null;
+  /** Metal weight in grams the advance bought */
+  lockedWeight: number | null;
+  receivedByName: string | null;
+}
+
+export interface CustomOrderStatusChange {
+  id: string;
+  status: CustomOrderStatus;
+  note: string | null;
+  changedAt: string;
+  changedByName: string | null;
+}
+
+export interface CustomOrder {
+  id: string;
+  organizationId: string;
+  orderNumber: string;
+  orderDate: string;
+  deliveryDate: string | null;
+  customerId: string;
+  customer: Customer;
+  /** Design brief: style, size, stones and anything the customer asked for */
+  designDescription: string;
+  designImages: CustomOrderImage[];
+  metal: Metal;
+  purity: string;
+  /** Approximate weight in grams the customer is expecting */
+  targetWeight: number;
+  estimatedAmount: number | null;
+  advances: CustomOrderAdvance[];
+  totalAdvance: number;
+  totalLockedWeight: number;
+  statusHistory: CustomOrderStatusChange[];
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  status: CustomOrderStatus;
+  notes: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CustomOrderAdvanceData {
+  receivedDate: string;
+  amount: number;
+  mode: string;
+  reference: string | null;
+  rateLocked: boolean;
+  ratePerGram: number | null;
+  lockedWeight: number | null;
+}
+
+export interface CreateCustomOrderData {
+  orderDate: string;
+  deliveryDate: string | null;
+  customerId: string;
+  designDescription: string;
+  metal: Metal;
+  purity: string;
+  targetWeight: number;
+  estimatedAmount: number | null;
+  notes: string | null;
+  /** Advance taken at booking, if any */
+  advance: CustomOrderAdvanceData | null;
+}
+
+export interface CustomOrderFilters {
+  search?: string;
+  customerId?: string;
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface CustomOrdersResponse {
+  success: boolean;
+  data: CustomOrder[];
+  count: number;
+}
+
+/**
+ * Fetch custom orders, newest first
+ * @param params - Optional filters
+ * @returns Orders and total count
+ */
+export async function fetchCustomOrders(params?: CustomOrderFilters): Promise<CustomOrdersResponse> {
+  const response = await client.get<CustomOrdersResponse>('/custom-orders', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single custom order
+ * @param id - Order ID
+ * @returns Order with design images, advances and status history
+ */
+export async function fetchCustomOrder(id: string): Promise<CustomOrder> {
+  const response = await client.get<{ success: boolean; data: CustomOrder }>(`/custom-orders/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Book a custom order. The backend assigns the order number.
+ * @param data - Booking details and the advance taken
+ * @returns Created order
+ */
+export async function createCustomOrder(data: CreateCustomOrderData): Promise<CustomOrder> {
+  const response = await client.post<{ success: boolean; data: CustomOrder }>('/custom-orders', data);
+  return response.data.data;
+}
+
+/**
+ * Attach design reference images
+ * @param id - Order ID
+ * @param files - Sketches, photos or screenshots the customer shared
+ * @returns Order with all its images
+ */
+export async function uploadCustomOrderImages(id: string, files: File[]): Promise<CustomOrder> {
+  const formData = new FormData();
+  files.forEach((file) => formData.append('images', file));
+  const response = await client.post<{ success: boolean; data: CustomOrder }>(
+    `/custom-orders/${id}/images`,
+    formData,
+    { headers: { 'Content-Type': 'multipart/form-data' } }
+  );
+  return response.data.data;
+}
+
+/**
+ * Record a further advance against an order
+ * @param id - Order ID
+ * @param data - Advance amount, payment and rate lock
+ * @returns Order with the new advance
+ */
+export async function addCustomOrderAdvance(id: string, data: CustomOrderAdvanceData): Promise<CustomOrder> {
+  const response = await client.post<{ success: boolean; data: CustomOrder }>(`/custom-orders/${id}/advances`, data);
+  return response.data.data;
+}
+
+/**
+ * Move an order to the next production stage
+ * @param id - Order ID
+ * @param status - New production status
+ * @param note - Optional note for the customer history
+ * @returns Updated order
+ */
+export async function updateCustomOrderStatus(
+  id: string,
+  status: CustomOrderStatus,
+  note: string | null
+): Promise<CustomOrder> {
+  const response = await client.post<{ success: boolean; data: CustomOrder }>(`/custom-orders/${id}/status`, {
+    status,
+    note,
+  });
+  return response.data.data;
+}
+
+/**
+ * Cancel an order that has not been delivered. Advances are refunded outside the system.
+ * @param id - Order ID
+ * @returns Cancelled order
+ */
+export async function cancelCustomOrder(id: string): Promise<CustomOrder> {
+  const response = await client.post<{ success: boolean; data: CustomOrder }>(`/custom-orders/${id}/cancel`);
+  return response.data.data;
+}
@@ -0,0 +1,171 @@
+import client from './client';
+
+export type KycDocumentType = 'pan' | 'aadhaar' | 'passport' | 'voter_id' | 'driving_licence';
+
+export const KYC_DOCUMENT_TYPES: { value: KycDocumentType; label: string }[] = [
+  { value: 'pan', label: 'PAN Card' },
+  { value: 'aadhaar', label: 'Aadhaar' },
+  { value: 'passport', label: 'Passport' },
+  { value: 'voter_id', label: 'Voter ID' },
+  { value: 'driving_licence', label: 'Driving Licence' },
+];
+
+export interface Customer {
+  id: string;
+  organizationId: string;
+  customerNumber: string;
+  name: string;
+  phone: string | null;
+  alternatePhone: string | null;
+  email: string | null;
+  address: string | null;
+  gstin: string | null;
+  /** Required on file for high-value sales */
+  panNumber: string | null;
+  dateOfBirth: string | null;
+  anniversaryDate: string | null;
+  ringSize: string | null;
+  /** Free-text notes on designs, metals and finishes the customer likes */
+  preferences: string | null;
+  /** Unpaid balance across the customer's sales invoices */
+  outstandingBalance: number;
+  /** Most the customer may owe across unpaid invoices; null when no limit is set */
+  creditLimit: number | null;
+  createdAt: string;
+}
+
+export interface KycDocument {
+  id: string;
+  type: KycDocumentType;
+  documentNumber: string;
+  attachmentUrl: string | null;
+  attachmentName: string | null;
+  uploadedByName: string | null;
+  createdAt: string;
+}
+
+/**
+ * Customer with the KYC documents and lifetime totals shown on the profile
+ */
+export interface CustomerProfile extends Customer {
+  kycDocuments: KycDocument[];
+  totalPurchases: number;
+  invoiceCount: number;
+  lastPurchaseDate: string | null;
+}
+
+export interface CreateCustomerData {
+  name: string;
+  phone?: string;
+  alternatePhone?: string;
+  email?: string;
+  address?: string;
+  gstin?: string;
+  panNumber?: string;
+  dateOfBirth?: string;
+  anniversaryDate?: string;
+  ringSize?: string;
+  preferences?: string;
+  creditLimit?: number | null;
+}
+
+export interface KycDocumentData {
+  type: KycDocumentType;
+  documentNumber: string;
+  file?: File | null;
+}
+
+export interface CustomerFilters {
+  search?: string;
+  /** Only customers with a birthday or anniversary in the next this many days */
+  occasionWithinDays?: number;
+  /** Only customers with an unpaid invoice balance */
+  hasOutstanding?: boolean;
+}
+
+export interface CustomersResponse {
+  success: boolean;
+  data: Customer[];
+  count: number;
+}
+
+/**
+ * Search customers by name, phone or customer number
+ * @param search - Search text
+ * @returns Matching customers
+ */
+export async function searchCustomers(search: string): Promise<Customer[]> {
+  const response = await client.get<CustomersResponse>('/customers', { params: { search } });
+  return response.data.data;
+}
+
+/**
+ * Fetch customers for the CRM list
+ * @param params - Optional filters
+ * @returns Customers and total count
+ */
+export async function fetchCustomers(params?: CustomerFilters): Promise<CustomersResponse> {
+  const response = await client.get<CustomersResponse>('/customers', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a customer's profile
+ * @param id - Customer ID
+ * @returns Customer with KYC documents and purchase totals
+ */
+export async function fetchCustomer(id: string): Promise<CustomerProfile> {
+  const response = await client.get<{ success: boolean; data: CustomerProfile }>(`/customers/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Create a customer. The customer number is generated from the Numbering config.
+ * @param data - Customer data
+ * @returns Created customer
+ */
+export async function createCustomer(data: CreateCustomerData): Promise<Customer> {
+  const response = await client.post<{ success: boolean; data: Customer }>('/customers', data);
+  return response.data.data;
+}
+
+/**
+ * Update a customer's contact details, dates and preferences
+ * @param id - Customer ID
+ * @param data - Customer data
+ * @returns Updated customer
+ */
+export async function updateCustomer(id: string, data: CreateCustomerData): Promise<Customer> {
+  const response = await client.put<{ success: boolean; data: Customer }>(`/customers/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Record a KYC document, with an optional scan of it
+ * @param id - Customer ID
+ * @param data - Document type, number and scan
+ * @returns Customer profile with the new document
+ */
+export async function addKycDocument(id: string, data: KycDocumentData): Promise<CustomerProfile> {
+  const formData = new FormData();
+  formData.append('type', data.type);
+  formData.append('documentNumber', data.documentNumber);
+  if (data.file) {
+    formData.append('attachment', data.file);
+  }
+  const response = await client.post<{ success: boolean; data: CustomerProfile }>(
+    `/customers/${id}/kyc-documents`,
+    formData,
+    { headers: { 'Content-Type': 'multipart/form-data' } }
+  );
+  return response.data.data;
+}
+
+/**
+ * Remove a KYC document
+ * @param id - Customer ID
+ * @param documentId - Document ID
+ */
+export async function deleteKycDocument(id: string, documentId: string): Promise<void> {
+  await client.delete(`/customers/${id}/kyc-documents/${documentId}`);
+}
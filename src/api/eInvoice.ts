@@ -0,0 +1,179 @@
+import client from './client';
+import type { SalesInvoice } from './sales';
+
+/**
+ * Party block of the e-invoice schema (seller or buyer)
+ */
+export interface EInvoiceParty {
+  Gstin: string;
+  LglNm: string;
+  Addr1: string;
+  Addr2?: string;
+  Loc: string;
+  Pin: number;
+  /** Two-digit state code */
+  Stcd: string;
+  Ph?: string;
+  Em?: string;
+}
+
+export interface EInvoiceItem {
+  SlNo: string;
+  PrdDesc: string;
+  /** Y for services such as making charges, N for goods */
+  IsServc: 'Y' | 'N';
+  HsnCd: string;
+  Qty: number;
+  Unit: string;
+  UnitPrice: number;
+  TotAmt: number;
+  Discount: number;
+  AssAmt: number;
+  GstRt: number;
+  IgstAmt: number;
+  CgstAmt: number;
+  SgstAmt: number;
+  TotItemVal: number;
+}
+
+/**
+ * E-invoice JSON in the GST e-invoice schema (version 1.1), as submitted to the IRP
+ */
+export interface EInvoicePayload {
+  Version: string;
+  TranDtls: { TaxSch: 'GST'; SupTyp: 'B2B'; RegRev: 'N'; IgstOnIntra: 'N' };
+  DocDtls: { Typ: 'INV'; No: string; Dt: string };
+  SellerDtls: EInvoiceParty;
+  BuyerDtls: EInvoiceParty & { Pos: string };
+  ItemList: EInvoiceItem[];
+  ValDtls: {
+    AssVal: number;
+    CgstVal: number;
+    SgstVal: number;
+    IgstVal: number;
+    /** Other charges, the TCS collected on the invoice */
+    OthChrg: number;
+    RndOffAmt: number;
+    TotInvVal: number;
+  };
+}
+
+/**
+ * What the IRP returns for a registered invoice
+ */
+export interface IrnDetails {
+  /** Invoice reference number, a 64-character hash */
+  irn: string;
+  ackNumber: string;
+  ackDate: string;
+  /** Signed QR code (JWT) to print on the invoice */
+  signedQrCode: string;
+}
+
+export type EInvoiceAdapterId = 'irp' | 'stub';
+
+/**
+ * Connection that registers an e-invoice and returns its IRN. The Tax config
+ * picks the adapter; in development builds a local stub can stand in for the
+ * IRP.
+ */
+export interface EInvoiceAdapter {
+  id: EInvoiceAdapterId;
+  label: string;
+  generateIrn: (payload: EInvoicePayload) => Promise<IrnDetails>;
+}
+
+/**
+ * Registers invoices with the IRP through the backend, which holds the GSP credentials
+ */
+export const irpAdapter: EInvoiceAdapter = {
+  id: 'irp',
+  label: 'IRP (through the server)',
+  generateIrn: async (payload) => {
+    const response = await client.post<{ success: boolean; data: IrnDetails }>('/e-invoice/irn', payload);
+    return response.data.data;
+  },
+};
+
+const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+/** Financial year an invoice date falls in, e.g. 2025-26 */
+const financialYear = (date: Date) => {
+  const start = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${start}-${String(start + 1).slice(2)}`;
+};
+
+/**
+ * Local stand-in for the IRP. Derives the IRN the way the IRP does (SHA-256 of
+ * seller GSTIN, financial year, document type and number) and returns an
+ * unsigned QR token, so the whole flow can be exercised without the portal.
+ * Offered in development builds only, since its IRNs are not registered; the
+ * e-invoice panel shows them as test output and never saves them.
+ */
+export const stubAdapter: EInvoiceAdapter = {
+  id: 'stub',
+  label: 'Local stub (testing only)',
+  generateIrn: async (payload) => {
+    const [day, month, year] = payload.DocDtls.Dt.split('/').map(Number);
+    const key = [
+      payload.SellerDtls.Gstin,
+      financialYear(new Date(year, month - 1, day)),
+      payload.DocDtls.Typ,
+      payload.DocDtls.No,
+    ].join('');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+    const irn = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    const ackDate = new Date().toISOString();
+    const qrData = {
+      SellerGstin: payload.SellerDtls.Gstin,
+      BuyerGstin: payload.BuyerDtls.Gstin,
+      DocNo: payload.DocDtls.No,
+      DocTyp: payload.DocDtls.Typ,
+      DocDt: payload.DocDtls.Dt,
+      TotInvVal: payload.ValDtls.TotInvVal,
+      ItemCnt: payload.ItemList.length,
+      MainHsnCode: payload.ItemList[0]?.HsnCd ?? '',
+      Irn: irn,
+      IrnDt: ackDate,
+    };
+    return {
+      irn,
+      ackNumber: Date.now().toString().padStart(15, '1'),
+      ackDate,
+      signedQrCode: [
+        toBase64Url(JSON.stringify({ alg: 'none', typ: 'JWT' })),
+        toBase64Url(JSON.stringify({ data: JSON.stringify(qrData), iss: 'STUB' })),
+        'stub',
+      ].join('.'),
+    };
+  },
+};
+
+export const EINVOICE_ADAPTERS: EInvoiceAdapter[] = import.meta.env.DEV ? [irpAdapter, stubAdapter] : [irpAdapter];
+
+/**
+ * Adapter chosen in the Tax config
+ * @param id - eInvoiceAdapter setting
+ * @returns The adapter, the IRP when unset or not offered in this build
+ */
+export function getEInvoiceAdapter(id: string | undefined): EInvoiceAdapter {
+  return EINVOICE_ADAPTERS.find((adapter) => adapter.id === id) ?? irpAdapter;
+}
+
+/**
+ * Store the IRN, acknowledgement and signed QR returned for an invoice
+ * @param invoiceId - Sales invoice ID
+ * @param details - IRP response
+ * @returns Updated invoice
+ */
+export async function saveEInvoice(invoiceId: string, details: IrnDetails): Promise<SalesInvoice> {
+  const response = await client.post<{ success: boolean; data: SalesInvoice }>(
+    `/sales/invoices/${invoiceId}/e-invoice`,
+    details
+  );
+  return response.data.data;
+}
@@ -0,0 +1,159 @@
+import client from './client';
+import type { Metal } from './metalRates';
+
+/**
+ * A batch stays sent until every piece is back from the assaying centre,
+ * hallmarked or rejected.
+ */
+export type HallmarkBatchStatus = 'sent' | 'partially_received' | 'received';
+
+export const HALLMARK_BATCH_STATUSES: {
+  value: HallmarkBatchStatus;
+  label: string;
+  color: 'info' | 'warning' | 'success';
+}[] = [
+  { value: 'sent', label: 'Sent', color: 'info' },
+  { value: 'partially_received', label: 'Partially Received', color: 'warning' },
+  { value: 'received', label: 'Received', color: 'success' },
+];
+
+export type HallmarkPieceStatus = 'sent' | 'received' | 'rejected';
+
+export const HALLMARK_PIECE_STATUSES: {
+  value: HallmarkPieceStatus;
+  label: string;
+  color: 'info' | 'success' | 'error';
+}[] = [
+  { value: 'sent', label: 'At Centre', color: 'info' },
+  { value: 'received', label: 'Hallmarked', color: 'success' },
+  { value: 'rejected', label: 'Rejected', color: 'error' },
+];
+
+export interface HallmarkBatchPiece {
+  id: string;
+  itemId: string;
+  tagNumber: string;
+  description: string;
+  metal: Metal;
+  purity: string | null;
+  grossWeight: number;
+  status: HallmarkPieceStatus;
+  /** HUID assigned by the centre, set once the piece is hallmarked */
+  huid: string | null;
+  rejectionReason: string | null;
+  receivedDate: string | null;
+}
+
+export interface HallmarkBatch {
+  id: string;
+  organizationId: string;
+  batchNumber: string;
+  /** Assaying and hallmarking centre the pieces were sent to */
+  centreName: string;
+  sentDate: string;
+  status: HallmarkBatchStatus;
+  pieces: HallmarkBatchPiece[];
+  totalGrossWeight: number;
+  notes: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CreateHallmarkBatchData {
+  centreName: string;
+  sentDate: string;
+  itemIds: string[];
+  notes: string | null;
+}
+
+export interface HallmarkPieceResult {
+  pieceId: string;
+  status: Exclude<HallmarkPieceStatus, 'sent'>;
+  huid: string | null;
+  rejectionReason: string | null;
+}
+
+export interface ReceiveHallmarkBatchData {
+  receivedDate: string;
+  results: HallmarkPieceResult[];
+}
+
+export interface HallmarkBatchFilters {
+  search?: string;
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface HallmarkBatchesResponse {
+  success: boolean;
+  data: HallmarkBatch[];
+  count: number;
+}
+
+export interface HuidAvailability {
+  available: boolean;
+  /** Tag number of the piece already carrying the HUID */
+  tagNumber: string | null;
+}
+
+/**
+ * Fetch hallmarking batches, newest first
+ * @param params - Optional filters
+ * @returns Batches and total count
+ */
+export async function fetchHallmarkBatches(params?: HallmarkBatchFilters): Promise<HallmarkBatchesResponse> {
+  const response = await client.get<HallmarkBatchesResponse>('/hallmark/batches', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single hallmarking batch
+ * @param id - Batch ID
+ * @returns Batch with its pieces
+ */
+export async function fetchHallmarkBatch(id: string): Promise<HallmarkBatch> {
+  const response = await client.get<{ success: boolean; data: HallmarkBatch }>(`/hallmark/batches/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Send pieces to an assaying centre. The backend assigns the batch number
+ * and writes the activity log entry.
+ * @param data - Centre, date and the items sent
+ * @returns Created batch
+ */
+export async function createHallmarkBatch(data: CreateHallmarkBatchData): Promise<HallmarkBatch> {
+  const response = await client.post<{ success: boolean; data: HallmarkBatch }>('/hallmark/batches', data);
+  return response.data.data;
+}
+
+/**
+ * Record pieces back from the centre. Hallmarked pieces have their HUID and
+ * centre written to the item; the backend rejects a HUID already in use
+ * within the organization.
+ * @param id - Batch ID
+ * @param data - Received date and the result for each returned piece
+ * @returns Updated batch
+ */
+export async function receiveHallmarkBatch(id: string, data: ReceiveHallmarkBatchData): Promise<HallmarkBatch> {
+  const response = await client.post<{ success: boolean; data: HallmarkBatch }>(
+    `/hallmark/batches/${id}/receive`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Check whether a HUID is free to assign within the organization
+ * @param huid - HUID to check
+ * @param excludeItemId - Item being edited, so its own HUID counts as free
+ * @returns Availability and the tag number of any piece already using it
+ */
+export async function checkHuidAvailability(huid: string, excludeItemId?: string): Promise<HuidAvailability> {
+  const response = await client.get<{ success: boolean; data: HuidAvailability }>(
+    `/hallmark/huid/${encodeURIComponent(huid)}/availability`,
+    { params: { excludeItemId } }
+  );
+  return response.data.data;
+}
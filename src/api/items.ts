@@ -0,0 +1,171 @@
+import client from './client';
+import type { CertificateSummary } from './certificates';
+import type { Metal } from './metalRates';
+
+export type MakingChargeType = 'per_gram' | 'flat' | 'percent';
+
+export const ITEM_CATEGORIES = [
+  { value: 'ring', label: 'Ring' },
+  { value: 'chain', label: 'Chain' },
+  { value: 'necklace', label: 'Necklace' },
+  { value: 'bangle', label: 'Bangle' },
+  { value: 'bracelet', label: 'Bracelet' },
+  { value: 'earring', label: 'Earring' },
+  { value: 'pendant', label: 'Pendant' },
+  { value: 'mangalsutra', label: 'Mangalsutra' },
+  { value: 'coin', label: 'Coin / Bar' },
+  { value: 'other', label: 'Other' },
+];
+
+export const STONE_TYPES = [
+  { value: 'diamond', label: 'Diamond' },
+  { value: 'ruby', label: 'Ruby' },
+  { value: 'emerald', label: 'Emerald' },
+  { value: 'sapphire', label: 'Sapphire' },
+  { value: 'pearl', label: 'Pearl' },
+  { value: 'cz', label: 'Cubic Zirconia' },
+  { value: 'other', label: 'Other' },
+];
+
+export const MAKING_CHARGE_TYPES: { value: MakingChargeType; label: string }[] = [
+  { value: 'per_gram', label: 'Per Gram' },
+  { value: 'flat', label: 'Flat' },
+  { value: 'percent', label: '% of Metal Value' },
+];
+
+/** One carat is 0.2 grams */
+export const CARAT_TO_GRAMS = 0.2;
+
+export interface StoneLine {
+  id?: string;
+  stoneType: string;
+  shape: string | null;
+  pieces: number;
+  weightCarat: number;
+  ratePerCarat: number;
+  amount: number;
+}
+
+export interface Item {
+  id: string;
+  organizationId: string;
+  tagNumber: string;
+  name: string;
+  category: string;
+  metal: Metal;
+  purity: string | null;
+  grossWeight: number;
+  netWeight: number;
+  wastagePercent: number;
+  makingChargeType: MakingChargeType;
+  makingCharge: number;
+  huid: string | null;
+  hallmarkCentre: string | null;
+  certificateLab: string | null;
+  certificateNumber: string | null;
+  stones: StoneLine[];
+  /** Certificate records linked to the item or its stone lines */
+  certificates?: CertificateSummary[];
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ItemInput = Omit<
+  Item,
+  'id' | 'organizationId' | 'tagNumber' | 'certificates' | 'createdAt' | 'updatedAt'
+> & {
+  tagNumber?: string;
+};
+
+export interface ItemFilters {
+  search?: string;
+  category?: string;
+  metal?: Metal;
+}
+
+export interface ItemsResponse {
+  success: boolean;
+  data: Item[];
+  count: number;
+}
+
+/**
+ * Total stone weight of an item in grams
+ * @param stones - Stone lines of the item
+ * @returns Stone weight in grams
+ */
+export function stoneWeightInGrams(stones: Pick<StoneLine, 'weightCarat'>[]): number {
+  return stones.reduce((total, stone) => total + stone.weightCarat * CARAT_TO_GRAMS, 0);
+}
+
+/**
+ * Fetch items in the item master
+ * @param params - Optional filters
+ * @returns Items and total count
+ */
+export async function fetchItems(params?: ItemFilters): Promise<ItemsResponse> {
+  const response = await client.get<ItemsResponse>('/items', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single item
+ * @param id - Item ID
+ * @returns Item with its stone lines
+ */
+export async function fetchItem(id: string): Promise<Item> {
+  const response = await client.get<{ success: boolean; data: Item }>(`/items/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Look up an item by its tag number or scanned barcode
+ * @param tagNumber - Tag number printed on the item's tag
+ * @returns Item with its stone lines
+ */
+export async function fetchItemByTag(tagNumber: string): Promise<Item> {
+  const response = await client.get<{ success: boolean; data: Item }>(
+    `/items/tag/${encodeURIComponent(tagNumber)}`
+  );
+  return response.data.data;
+}
+
+/**
+ * Look up an item by the HUID on its hallmark
+ * @param huid - 6-character hallmark unique ID
+ * @returns Item with its stone lines
+ */
+export async function fetchItemByHuid(huid: string): Promise<Item> {
+  const response = await client.get<{ success: boolean; data: Item }>(`/items/huid/${encodeURIComponent(huid)}`);
+  return response.data.data;
+}
+
+/**
+ * Create an item. The tag number is generated by the backend when omitted.
+ * @param data - Item data
+ * @returns Created item
+ */
+export async function createItem(data: ItemInput): Promise<Item> {
+  const response = await client.post<{ success: boolean; data: Item }>('/items', data);
+  return response.data.data;
+}
+
+/**
+ * Update an item
+ * @param id - Item ID
+ * @param data - Item data to update
+ * @returns Updated item
+ */
+export async function updateItem(id: string, data: Partial<ItemInput>): Promise<Item> {
+  const response = await client.put<{ success: boolean; data: Item }>(`/items/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Delete an item
+ * @param id - Item ID
+ */
+export async function deleteItem(id: string): Promise<void> {
+  await client.delete(`/items/${id}`);
+}
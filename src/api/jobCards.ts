@@ -0,0 +1,224 @@
+import client from './client';
+import type { Item } from './items';
+import type { Karigar } from './karigars';
+import type { Metal } from './metalRates';
+
+/**
+ * Job cards only take issues and receipts while in progress. Organizations
+ * with workflows.requireApprovalForManufacturing start new cards pending
+ * approval; the rest start in progress.
+ */
+export type JobCardStatus = 'pending_approval' | 'in_progress' | 'completed' | 'rejected';
+
+export const JOB_CARD_STATUSES: {
+  value: JobCardStatus;
+  label: string;
+  color: 'warning' | 'info' | 'success' | 'error';
+}[] = [
+  { value: 'pending_approval', label: 'Pending Approval', color: 'warning' },
+  { value: 'in_progress', label: 'In Progress', color: 'info' },
+  { value: 'completed', label: 'Completed', color: 'success' },
+  { value: 'rejected', label: 'Rejected', color: 'error' },
+];
+
+export interface JobCardMetalIssue {
+  id?: string;
+  issuedAt?: string;
+  metal: Metal;
+  purity: string | null;
+  weight: number;
+  touchPercent: number;
+  fineWeight: number;
+}
+
+export interface JobCardStoneIssue {
+  id?: string;
+  issuedAt?: string;
+  stoneType: string;
+  pieces: number;
+  weightCarat: number;
+}
+
+/**
+ * A finished piece handed back by the karigar. It becomes a new stock item.
+ */
+export interface JobCardPiece {
+  name: string;
+  category: string;
+  metal: Metal;
+  purity: string | null;
+  grossWeight: number;
+  netWeight: number;
+  touchPercent: number;
+  fineWeight: number;
+  /** Carats of issued stones set in the piece */
+  stoneWeightCarat: number;
+  itemId?: string;
+  tagNumber?: string;
+}
+
+export interface JobCardReceipt {
+  id: string;
+  receivedAt: string;
+  pieces: JobCardPiece[];
+  /** Filings and offcuts handed back with the pieces */
+  scrapWeight: number;
+  scrapTouchPercent: number;
+  scrapFineWeight: number;
+  /** Issued stones handed back unused */
+  returnedStoneCarat: number;
+  receivedByName: string | null;
+}
+
+export interface JobCard {
+  id: string;
+  organizationId: string;
+  jobNumber: string;
+  karigarId: string;
+  karigar: Karigar;
+  description: string;
+  dueDate: string | null;
+  /** Loss the karigar is allowed, as a percentage of fine metal issued */
+  allowedWastagePercent: number;
+  metalIssues: JobCardMetalIssue[];
+  stoneIssues: JobCardStoneIssue[];
+  receipts: JobCardReceipt[];
+  notes: string | null;
+  status: JobCardStatus;
+  approvedByName: string | null;
+  approvedAt: string | null;
+  rejectionReason: string | null;
+  completedAt: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CreateJobCardData {
+  karigarId: string;
+  description: string;
+  dueDate: string | null;
+  allowedWastagePercent: number;
+  notes: string | null;
+}
+
+export interface JobCardIssueData {
+  metalIssues: JobCardMetalIssue[];
+  stoneIssues: JobCardStoneIssue[];
+}
+
+export interface JobCardReceiptData {
+  pieces: JobCardPiece[];
+  scrapWeight: number;
+  scrapTouchPercent: number;
+  scrapFineWeight: number;
+  returnedStoneCarat: number;
+  locationId: string | null;
+  tray: string | null;
+}
+
+export interface JobCardFilters {
+  search?: string;
+  status?: string;
+  karigarId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface JobCardsResponse {
+  success: boolean;
+  data: JobCard[];
+  count: number;
+}
+
+/**
+ * Fetch job cards, newest first
+ * @param params - Optional filters
+ * @returns Job cards and total count
+ */
+export async function fetchJobCards(params?: JobCardFilters): Promise<JobCardsResponse> {
+  const response = await client.get<JobCardsResponse>('/job-cards', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single job card
+ * @param id - Job card ID
+ * @returns Job card with issues and receipts
+ */
+export async function fetchJobCard(id: string): Promise<JobCard> {
+  const response = await client.get<{ success: boolean; data: JobCard }>(`/job-cards/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Open a job card for a karigar. The backend assigns the job number.
+ * @param data - Job card data
+ * @returns Created job card
+ */
+export async function createJobCard(data: CreateJobCardData): Promise<JobCard> {
+  const response = await client.post<{ success: boolean; data: JobCard }>('/job-cards', data);
+  return response.data.data;
+}
+
+/**
+ * Approve a job card pending approval (org admins only)
+ * @param id - Job card ID
+ * @returns Job card, now in progress
+ */
+export async function approveJobCard(id: string): Promise<JobCard> {
+  const response = await client.post<{ success: boolean; data: JobCard }>(`/job-cards/${id}/approve`);
+  return response.data.data;
+}
+
+/**
+ * Reject a job card pending approval (org admins only)
+ * @param id - Job card ID
+ * @param reason - Why the job card was rejected
+ * @returns Rejected job card
+ */
+export async function rejectJobCard(id: string, reason: string): Promise<JobCard> {
+  const response = await client.post<{ success: boolean; data: JobCard }>(`/job-cards/${id}/reject`, { reason });
+  return response.data.data;
+}
+
+/**
+ * Issue metal and stones to the karigar. Fine metal issued is added to the
+ * karigar's balance.
+ * @param id - Job card ID
+ * @param data - Metal and stones issued
+ * @returns Updated job card
+ */
+export async function issueToJobCard(id: string, data: JobCardIssueData): Promise<JobCard> {
+  const response = await client.post<{ success: boolean; data: JobCard }>(`/job-cards/${id}/issues`, data);
+  return response.data.data;
+}
+
+/**
+ * Receive finished pieces and scrap from the karigar. Each piece is tagged
+ * into stock as a new item and its fine weight, with the scrap, comes off
+ * the karigar's balance.
+ * @param id - Job card ID
+ * @param data - Pieces, scrap and where the pieces go
+ * @returns Updated job card and the created items, ready for tag printing
+ */
+export async function receiveJobCardPieces(
+  id: string,
+  data: JobCardReceiptData
+): Promise<{ jobCard: JobCard; items: Item[] }> {
+  const response = await client.post<{ success: boolean; data: { jobCard: JobCard; items: Item[] } }>(
+    `/job-cards/${id}/receipts`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Close a job card. Loss up to the allowed wastage is written off the
+ * karigar's balance; anything beyond it stays owed.
+ * @param id - Job card ID
+ * @returns Completed job card
+ */
+export async function completeJobCard(id: string): Promise<JobCard> {
+  const response = await client.post<{ success: boolean; data: JobCard }>(`/job-cards/${id}/complete`);
+  return response.data.data;
+}
@@ -0,0 +1,108 @@
+import client from './client';
+
+export interface Karigar {
+  id: string;
+  organizationId: string;
+  karigarNumber: string;
+  name: string;
+  phone: string | null;
+  speciality: string | null;
+  /** Wastage allowed on this karigar's job cards unless a card sets its own */
+  wastagePercent: number;
+  /** Fine metal (grams) the karigar holds on the firm's account. Negative when the firm owes metal. */
+  fineBalance: number;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface KarigarData {
+  name: string;
+  phone?: string;
+  speciality?: string;
+  wastagePercent: number;
+  isActive?: boolean;
+}
+
+export type KarigarLedgerEntryType = 'issue' | 'receipt' | 'scrap' | 'wastage' | 'adjustment';
+
+export const KARIGAR_LEDGER_ENTRY_TYPES: { value: KarigarLedgerEntryType; label: string }[] = [
+  { value: 'issue', label: 'Metal Issued' },
+  { value: 'receipt', label: 'Pieces Received' },
+  { value: 'scrap', label: 'Scrap Returned' },
+  { value: 'wastage', label: 'Allowed Wastage' },
+  { value: 'adjustment', label: 'Adjustment' },
+];
+
+/**
+ * One movement on a karigar's fine-metal account. Issues add to the
+ * balance; receipts, scrap and allowed wastage take it off.
+ */
+export interface KarigarLedgerEntry {
+  id: string;
+  date: string;
+  type: KarigarLedgerEntryType;
+  jobCardId: string | null;
+  jobNumber: string | null;
+  description: string | null;
+  /** Signed fine weight in grams */
+  fineWeight: number;
+  /** Balance after this entry */
+  balance: number;
+}
+
+export interface KarigarsResponse {
+  success: boolean;
+  data: Karigar[];
+  count: number;
+}
+
+/**
+ * Fetch karigars with their current fine balance
+ * @param params - Optional search text
+ * @returns Karigars and total count
+ */
+export async function fetchKarigars(params?: { search?: string }): Promise<KarigarsResponse> {
+  const response = await client.get<KarigarsResponse>('/karigars', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single karigar
+ * @param id - Karigar ID
+ * @returns Karigar
+ */
+export async function fetchKarigar(id: string): Promise<Karigar> {
+  const response = await client.get<{ success: boolean; data: Karigar }>(`/karigars/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Create a karigar
+ * @param data - Karigar data
+ * @returns Created karigar
+ */
+export async function createKarigar(data: KarigarData): Promise<Karigar> {
+  const response = await client.post<{ success: boolean; data: Karigar }>('/karigars', data);
+  return response.data.data;
+}
+
+/**
+ * Update a karigar
+ * @param id - Karigar ID
+ * @param data - Fields to update
+ * @returns Updated karigar
+ */
+export async function updateKarigar(id: string, data: Partial<KarigarData>): Promise<Karigar> {
+  const response = await client.put<{ success: boolean; data: Karigar }>(`/karigars/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Fetch a karigar's fine-metal ledger, oldest first
+ * @param id - Karigar ID
+ * @returns Ledger entries with running balance
+ */
+export async function fetchKarigarLedger(id: string): Promise<KarigarLedgerEntry[]> {
+  const response = await client.get<{ success: boolean; data: KarigarLedgerEntry[] }>(`/karigars/${id}/ledger`);
+  return response.data.data;
+}
@@ -0,0 +1,104 @@
+import client from './client';
+
+export type Metal = 'gold' | 'silver' | 'platinum';
+
+export interface PurityOption {
+  value: string;
+  label: string;
+  /** Parts of pure metal per thousand, used to convert to fine weight */
+  fineness: number;
+}
+
+export const METALS: { value: Metal; label: string }[] = [
+  { value: 'gold', label: 'Gold' },
+  { value: 'silver', label: 'Silver' },
+  { value: 'platinum', label: 'Platinum' },
+];
+
+/**
+ * Purities a rate can be entered for, per metal
+ */
+export const METAL_PURITIES: Record<Metal, PurityOption[]> = {
+  gold: [
+    { value: '24K', label: '24K (999)', fineness: 999 },
+    { value: '22K', label: '22K (916)', fineness: 916 },
+    { value: '18K', label: '18K (750)', fineness: 750 },
+    { value: '14K', label: '14K (585)', fineness: 585 },
+  ],
+  silver: [
+    { value: '999', label: '999 Fine', fineness: 999 },
+    { value: '925', label: '925 Sterling', fineness: 925 },
+  ],
+  platinum: [{ value: '950', label: 'Pt 950', fineness: 950 }],
+};
+
+/**
+ * Look up the fineness of a purity
+ * @param metal - Metal
+ * @param purity - Purity value, e.g. 22K
+ * @returns Parts per thousand, or undefined for an unknown purity
+ */
+export function getPurityFineness(metal: Metal, purity: string | null): number | undefined {
+  return METAL_PURITIES[metal].find((option) => option.value === purity)?.fineness;
+}
+
+export interface MetalRate {
+  id: string;
+  organizationId: string;
+  metal: Metal;
+  purity: string;
+  ratePerGram: number;
+  effectiveFrom: string;
+  createdBy: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface MetalRateFilters {
+  metal?: Metal;
+  purity?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface CreateMetalRateData {
+  metal: Metal;
+  purity: string;
+  ratePerGram: number;
+  effectiveFrom: string;
+}
+
+export interface MetalRatesResponse {
+  success: boolean;
+  data: MetalRate[];
+  count: number;
+}
+
+/**
+ * Fetch the rate currently in effect for every metal and purity
+ * @returns Latest effective rate per metal/purity pair
+ */
+export async function fetchCurrentMetalRates(): Promise<MetalRate[]> {
+  const response = await client.get<MetalRatesResponse>('/metal-rates/current');
+  return response.data.data;
+}
+
+/**
+ * Fetch metal rate history, newest first
+ * @param params - Optional filters
+ * @returns Rate history
+ */
+export async function fetchMetalRateHistory(params?: MetalRateFilters): Promise<MetalRatesResponse> {
+  const response = await client.get<MetalRatesResponse>('/metal-rates', { params });
+  return response.data;
+}
+
+/**
+ * Record a new metal rate. The backend writes the matching activity log entry.
+ * @param data - Rate to record
+ * @returns Created rate
+ */
+export async function createMetalRate(data: CreateMetalRateData): Promise<MetalRate> {
+  const response = await client.post<{ success: boolean; data: MetalRate }>('/metal-rates', data);
+  return response.data.data;
+}
@@ -0,0 +1,157 @@
+import client from './client';
+import type { Customer } from './customers';
+import type { Metal } from './metalRates';
+
+export type PurityTestMethod = 'touchstone' | 'xrf' | 'fire_assay';
+
+export const PURITY_TEST_METHODS: { value: PurityTestMethod; label: string }[] = [
+  { value: 'touchstone', label: 'Touchstone' },
+  { value: 'xrf', label: 'XRF Machine' },
+  { value: 'fire_assay', label: 'Fire Assay' },
+];
+
+export interface OldGoldLine {
+  id?: string;
+  description: string;
+  grossWeight: number;
+  /** Weight of stones, lac and other non-metal parts deducted before valuing */
+  stoneWeight: number;
+  netWeight: number;
+  testMethod: PurityTestMethod;
+  /** Tested purity as a percentage, e.g. 91.6 for 22K */
+  testedPurityPercent: number;
+  /** Expected loss when the piece is melted down */
+  meltingLossPercent: number;
+  fineWeight: number;
+  amount: number;
+}
+
+export interface OldGoldTotals {
+  totalGrossWeight: number;
+  totalStoneWeight: number;
+  totalNetWeight: number;
+  totalFineWeight: number;
+  amount: number;
+}
+
+/**
+ * An open voucher can be applied as a credit on a sales invoice or paid out
+ * to the customer; either closes it.
+ */
+export type OldGoldVoucherStatus = 'open' | 'applied' | 'paid' | 'cancelled';
+
+export const OLD_GOLD_VOUCHER_STATUSES: {
+  value: OldGoldVoucherStatus;
+  label: string;
+  color: 'info' | 'success' | 'default';
+}[] = [
+  { value: 'open', label: 'Open', color: 'info' },
+  { value: 'applied', label: 'Applied to Invoice', color: 'success' },
+  { value: 'paid', label: 'Paid Out', color: 'success' },
+  { value: 'cancelled', label: 'Cancelled', color: 'default' },
+];
+
+export interface OldGoldVoucher extends OldGoldTotals {
+  id: string;
+  organizationId: string;
+  voucherNumber: string;
+  voucherDate: string;
+  customerId: string;
+  customer: Pick<Customer, 'id' | 'customerNumber' | 'name' | 'phone' | 'address'>;
+  metal: Metal;
+  /** Buyback rate per gram of fine metal */
+  ratePerGram: number;
+  /** Weight the metal was valued on, from the pricing config at the time */
+  weightBasis: 'gross' | 'net';
+  lines: OldGoldLine[];
+  notes: string | null;
+  status: OldGoldVoucherStatus;
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  paymentMode: string | null;
+  paymentReference: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CreateOldGoldVoucherData extends OldGoldTotals {
+  voucherDate: string;
+  customerId: string;
+  metal: Metal;
+  ratePerGram: number;
+  weightBasis: 'gross' | 'net';
+  lines: OldGoldLine[];
+  notes: string | null;
+}
+
+export interface OldGoldVoucherFilters {
+  search?: string;
+  status?: string;
+  customerId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface OldGoldVouchersResponse {
+  success: boolean;
+  data: OldGoldVoucher[];
+  count: number;
+}
+
+/**
+ * Fetch old gold purchase vouchers, newest first
+ * @param params - Optional filters
+ * @returns Vouchers and total count
+ */
+export async function fetchOldGoldVouchers(params?: OldGoldVoucherFilters): Promise<OldGoldVouchersResponse> {
+  const response = await client.get<OldGoldVouchersResponse>('/old-gold/vouchers', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single old gold voucher
+ * @param id - Voucher ID
+ * @returns Voucher with lines
+ */
+export async function fetchOldGoldVoucher(id: string): Promise<OldGoldVoucher> {
+  const response = await client.get<{ success: boolean; data: OldGoldVoucher }>(`/old-gold/vouchers/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Create an old gold purchase voucher. The backend assigns the voucher
+ * number and writes the activity log entry.
+ * @param data - Voucher data
+ * @returns Created voucher, open for use
+ */
+export async function createOldGoldVoucher(data: CreateOldGoldVoucherData): Promise<OldGoldVoucher> {
+  const response = await client.post<{ success: boolean; data: OldGoldVoucher }>('/old-gold/vouchers', data);
+  return response.data.data;
+}
+
+/**
+ * Pay an open voucher out to the customer instead of exchanging it
+ * @param id - Voucher ID
+ * @param payment - Payment mode and reference
+ * @returns Paid voucher
+ */
+export async function payOutOldGoldVoucher(
+  id: string,
+  payment: { mode: string; reference: string | null }
+): Promise<OldGoldVoucher> {
+  const response = await client.post<{ success: boolean; data: OldGoldVoucher }>(
+    `/old-gold/vouchers/${id}/pay`,
+    payment
+  );
+  return response.data.data;
+}
+
+/**
+ * Cancel an open voucher
+ * @param id - Voucher ID
+ * @returns Cancelled voucher
+ */
+export async function cancelOldGoldVoucher(id: string): Promise<OldGoldVoucher> {
+  const response = await client.post<{ success: boolean; data: OldGoldVoucher }>(`/old-gold/vouchers/${id}/cancel`);
+  return response.data.data;
+}
@@ -0,0 +1,282 @@
+import client from './client';
+import type { WithholdingCharge } from './config';
+import type { Item, StoneLine } from './items';
+import type { Metal } from './metalRates';
+import type { Supplier } from './suppliers';
+
+export type PurchaseLabourType = 'per_gram' | 'per_piece' | 'flat';
+
+export const PURCHASE_LABOUR_TYPES: { value: PurchaseLabourType; label: string }[] = [
+  { value: 'per_gram', label: 'Per Gram' },
+  { value: 'per_piece', label: 'Per Piece' },
+  { value: 'flat', label: 'Flat' },
+];
+
+export interface PurchaseLine {
+  id?: string;
+  description: string;
+  category: string;
+  metal: Metal;
+  purity: string | null;
+  pieces: number;
+  grossWeight: number;
+  netWeight: number;
+  /** Percentage of pure metal the supplier is charging for, usually the purity plus wastage */
+  touchPercent: number;
+  fineWeight: number;
+  /** Rate per gram of fine metal, 0 when the metal is settled in fine weight instead of money */
+  ratePerGram: number;
+  labourType: PurchaseLabourType;
+  labourRate: number;
+  labourAmount: number;
+  stones: StoneLine[];
+  stoneAmount: number;
+  metalAmount: number;
+  total: number;
+}
+
+export interface PurchaseTotals {
+  totalGrossWeight: number;
+  totalNetWeight: number;
+  totalFineWeight: number;
+  metalAmount: number;
+  labourAmount: number;
+  stoneAmount: number;
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+}
+
+export type PurchaseOrderStatus = 'open' | 'billed' | 'cancelled';
+
+export const PURCHASE_ORDER_STATUSES: {
+  value: PurchaseOrderStatus;
+  label: string;
+  color: 'info' | 'success' | 'default';
+}[] = [
+  { value: 'open', label: 'Open', color: 'info' },
+  { value: 'billed', label: 'Billed', color: 'success' },
+  { value: 'cancelled', label: 'Cancelled', color: 'default' },
+];
+
+export interface PurchaseOrder extends PurchaseTotals {
+  id: string;
+  organizationId: string;
+  orderNumber: string;
+  orderDate: string;
+  expectedDate: string | null;
+  supplierId: string;
+  supplier: Supplier;
+  lines: PurchaseLine[];
+  notes: string | null;
+  status: PurchaseOrderStatus;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+/**
+ * Bills only reach stock once approved. Organizations without
+ * workflows.requireApprovalForPurchase have their bills approved on save.
+ */
+export type PurchaseBillStatus = 'pending_approval' | 'approved' | 'rejected' | 'stocked';
+
+export const PURCHASE_BILL_STATUSES: {
+  value: PurchaseBillStatus;
+  label: string;
+  color: 'warning' | 'info' | 'error' | 'success';
+}[] = [
+  { value: 'pending_approval', label: 'Pending Approval', color: 'warning' },
+  { value: 'approved', label: 'Approved', color: 'info' },
+  { value: 'rejected', label: 'Rejected', color: 'error' },
+  { value: 'stocked', label: 'Received', color: 'success' },
+];
+
+export interface PurchaseBill extends PurchaseTotals {
+  id: string;
+  organizationId: string;
+  billNumber: string;
+  /** Number printed on the supplier's own bill */
+  supplierBillNumber: string | null;
+  billDate: string;
+  supplierId: string;
+  supplier: Supplier;
+  purchaseOrderId: string | null;
+  orderNumber: string | null;
+  lines: PurchaseLine[];
+  /** TDS held back from the supplier; the supplier's account is credited with the total less this */
+  tds: WithholdingCharge | null;
+  notes: string | null;
+  status: PurchaseBillStatus;
+  approvedByName: string | null;
+  approvedAt: string | null;
+  rejectionReason: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CreatePurchaseOrderData {
+  orderDate: string;
+  expectedDate: string | null;
+  supplierId: string;
+  lines: PurchaseLine[];
+  notes: string | null;
+}
+
+export interface CreatePurchaseBillData {
+  billDate: string;
+  supplierBillNumber: string | null;
+  supplierId: string;
+  purchaseOrderId: string | null;
+  lines: PurchaseLine[];
+  tds: WithholdingCharge | null;
+  notes: string | null;
+}
+
+/**
+ * One piece to tag out of a bill line
+ */
+export interface ReceivedPiece {
+  lineId: string;
+  name: string;
+  category: string;
+  grossWeight: number;
+  netWeight: number;
+}
+
+export interface ReceiveStockData {
+  locationId: string | null;
+  tray: string | null;
+  pieces: ReceivedPiece[];
+}
+
+export interface PurchaseFilters {
+  search?: string;
+  supplierId?: string;
+  status?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface PurchaseOrdersResponse {
+  success: boolean;
+  data: PurchaseOrder[];
+  count: number;
+}
+
+export interface PurchaseBillsResponse {
+  success: boolean;
+  data: PurchaseBill[];
+  count: number;
+}
+
+/**
+ * Fetch purchase orders, newest first
+ * @param params - Optional filters
+ * @returns Purchase orders and total count
+ */
+export async function fetchPurchaseOrders(params?: PurchaseFilters): Promise<PurchaseOrdersResponse> {
+  const response = await client.get<PurchaseOrdersResponse>('/purchase/orders', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single purchase order
+ * @param id - Purchase order ID
+ * @returns Purchase order with lines
+ */
+export async function fetchPurchaseOrder(id: string): Promise<PurchaseOrder> {
+  const response = await client.get<{ success: boolean; data: PurchaseOrder }>(`/purchase/orders/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Create a purchase order. The backend assigns the order number.
+ * @param data - Purchase order data
+ * @returns Created purchase order
+ */
+export async function createPurchaseOrder(data: CreatePurchaseOrderData): Promise<PurchaseOrder> {
+  const response = await client.post<{ success: boolean; data: PurchaseOrder }>('/purchase/orders', data);
+  return response.data.data;
+}
+
+/**
+ * Cancel an open purchase order
+ * @param id - Purchase order ID
+ * @returns Cancelled purchase order
+ */
+export async function cancelPurchaseOrder(id: string): Promise<PurchaseOrder> {
+  const response = await client.post<{ success: boolean; data: PurchaseOrder }>(`/purchase/orders/${id}/cancel`);
+  return response.data.data;
+}
+
+/**
+ * Fetch purchase bills, newest first
+ * @param params - Optional filters
+ * @returns Purchase bills and total count
+ */
+export async function fetchPurchaseBills(params?: PurchaseFilters): Promise<PurchaseBillsResponse> {
+  const response = await client.get<PurchaseBillsResponse>('/purchase/bills', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single purchase bill
+ * @param id - Purchase bill ID
+ * @returns Purchase bill with lines
+ */
+export async function fetchPurchaseBill(id: string): Promise<PurchaseBill> {
+  const response = await client.get<{ success: boolean; data: PurchaseBill }>(`/purchase/bills/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Create a purchase bill. It starts pending approval when the organization
+ * requires purchase approval, otherwise it is approved straight away. A bill
+ * raised against an order marks the order billed. Approved bills post to the
+ * supplier's money and fine-metal ledgers, and with accounting enabled to a
+ * purchase journal voucher.
+ * @param data - Purchase bill data
+ * @returns Created purchase bill
+ */
+export async function createPurchaseBill(data: CreatePurchaseBillData): Promise<PurchaseBill> {
+  const response = await client.post<{ success: boolean; data: PurchaseBill }>('/purchase/bills', data);
+  return response.data.data;
+}
+
+/**
+ * Approve a bill pending approval (org admins only). The bill posts to the
+ * supplier's ledgers, and to the accounts when accounting is enabled, on
+ * approval.
+ * @param id - Purchase bill ID
+ * @returns Approved purchase bill
+ */
+export async function approvePurchaseBill(id: string): Promise<PurchaseBill> {
+  const response = await client.post<{ success: boolean; data: PurchaseBill }>(`/purchase/bills/${id}/approve`);
+  return response.data.data;
+}
+
+/**
+ * Reject a bill pending approval (org admins only)
+ * @param id - Purchase bill ID
+ * @param reason - Why the bill was rejected
+ * @returns Rejected purchase bill
+ */
+export async function rejectPurchaseBill(id: string, reason: string): Promise<PurchaseBill> {
+  const response = await client.post<{ success: boolean; data: PurchaseBill }>(`/purchase/bills/${id}/reject`, {
+    reason,
+  });
+  return response.data.data;
+}
+
+/**
+ * Turn the goods on an approved bill into tagged stock. The backend creates
+ * one item per piece with a new tag number, records the stock movements and
+ * marks the bill stocked.
+ * @param id - Purchase bill ID
+ * @param data - Pieces to tag and where they go
+ * @returns Created items, ready for tag printing
+ */
+export async function receivePurchaseBillStock(id: string, data: ReceiveStockData): Promise<Item[]> {
+  const response = await client.post<{ success: boolean; data: Item[] }>(`/purchase/bills/${id}/receive`, data);
+  return response.data.data;
+}
@@ -0,0 +1,204 @@
+import client from './client';
+import type { Customer } from './customers';
+import type { Metal } from './metalRates';
+
+export type RepairServiceType = 'repair' | 'resizing' | 'polishing' | 'rhodium' | 'stone_setting' | 'other';
+
+export const REPAIR_SERVICE_TYPES: { value: RepairServiceType; label: string }[] = [
+  { value: 'repair', label: 'Repair' },
+  { value: 'resizing', label: 'Resizing' },
+  { value: 'polishing', label: 'Polishing' },
+  { value: 'rhodium', label: 'Rhodium Plating' },
+  { value: 'stone_setting', label: 'Stone Setting' },
+  { value: 'other', label: 'Other' },
+];
+
+export type RepairOrderStatus = 'received' | 'with_karigar' | 'ready' | 'delivered' | 'cancelled';
+
+export const REPAIR_ORDER_STATUSES: {
+  value: RepairOrderStatus;
+  label: string;
+  color: 'info' | 'warning' | 'success' | 'default';
+}[] = [
+  { value: 'received', label: 'Received', color: 'info' },
+  { value: 'with_karigar', label: 'With Karigar', color: 'warning' },
+  { value: 'ready', label: 'Ready for Delivery', color: 'success' },
+  { value: 'delivered', label: 'Delivered', color: 'default' },
+  { value: 'cancelled', label: 'Cancelled', color: 'default' },
+];
+
+export interface RepairPhoto {
+  id: string;
+  url: string;
+  name: string;
+}
+
+export interface RepairOrder {
+  id: string;
+  organizationId: string;
+  orderNumber: string;
+  intakeDate: string;
+  promisedDate: string | null;
+  customerId: string;
+  customer: Pick<Customer, 'id' | 'customerNumber' | 'name' | 'phone' | 'address'>;
+  serviceType: RepairServiceType;
+  /** The piece as handed over, including any damage noted at the counter */
+  description: string;
+  metal: Metal;
+  purity: string | null;
+  pieces: number;
+  /** Weight in grams when the piece was taken in */
+  weightIn: number;
+  photos: RepairPhoto[];
+  estimatedCharges: number;
+  karigarId: string | null;
+  karigarName: string | null;
+  assignedDate: string | null;
+  /** Weight in grams when the karigar returned the piece */
+  weightOut: number | null;
+  finalCharges: number | null;
+  completedDate: string | null;
+  completionNotes: string | null;
+  deliveredDate: string | null;
+  paymentMode: string | null;
+  paymentReference: string | null;
+  status: RepairOrderStatus;
+  notes: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CreateRepairOrderData {
+  intakeDate: string;
+  promisedDate: string | null;
+  customerId: string;
+  serviceType: RepairServiceType;
+  description: string;
+  metal: Metal;
+  purity: string | null;
+  pieces: number;
+  weightIn: number;
+  estimatedCharges: number;
+  notes: string | null;
+}
+
+export interface CompleteRepairOrderData {
+  completedDate: string;
+  weightOut: number;
+  finalCharges: number;
+  completionNotes: string | null;
+}
+
+export interface DeliverRepairOrderData {
+  deliveredDate: string;
+  paymentMode: string | null;
+  paymentReference: string | null;
+}
+
+export interface RepairOrderFilters {
+  search?: string;
+  customerId?: string;
+  status?: string;
+  serviceType?: string;
+  karigarId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface RepairOrdersResponse {
+  success: boolean;
+  data: RepairOrder[];
+  count: number;
+}
+
+/**
+ * Fetch repair orders, newest first
+ * @param params - Optional filters
+ * @returns Orders and total count
+ */
+export async function fetchRepairOrders(params?: RepairOrderFilters): Promise<RepairOrdersResponse> {
+  const response = await client.get<RepairOrdersResponse>('/repairs', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single repair order
+ * @param id - Order ID
+ * @returns Repair order with photos
+ */
+export async function fetchRepairOrder(id: string): Promise<RepairOrder> {
+  const response = await client.get<{ success: boolean; data: RepairOrder }>(`/repairs/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Take in a customer's piece for repair. The backend assigns the order number.
+ * @param data - Intake details
+ * @returns Created order
+ */
+export async function createRepairOrder(data: CreateRepairOrderData): Promise<RepairOrder> {
+  const response = await client.post<{ success: boolean; data: RepairOrder }>('/repairs', data);
+  return response.data.data;
+}
+
+/**
+ * Attach intake photos of the piece
+ * @param id - Order ID
+ * @param files - Photos taken at the counter
+ * @returns Order with all its photos
+ */
+export async function uploadRepairPhotos(id: string, files: File[]): Promise<RepairOrder> {
+  const formData = new FormData();
+  files.forEach((file) => formData.append('photos', file));
+  const response = await client.post<{ success: boolean; data: RepairOrder }>(
+    `/repairs/${id}/photos`,
+    formData,
+    { headers: { 'Content-Type': 'multipart/form-data' } }
+  );
+  return response.data.data;
+}
+
+/**
+ * Hand the piece to a karigar
+ * @param id - Order ID
+ * @param karigarId - Karigar doing the work
+ * @returns Order, now with the karigar
+ */
+export async function assignRepairOrder(id: string, karigarId: string): Promise<RepairOrder> {
+  const response = await client.post<{ success: boolean; data: RepairOrder }>(`/repairs/${id}/assign`, {
+    karigarId,
+  });
+  return response.data.data;
+}
+
+/**
+ * Record the piece back from the karigar with its weight and final charges
+ * @param id - Order ID
+ * @param data - Weight out and charges
+ * @returns Order, ready for delivery
+ */
+export async function completeRepairOrder(id: string, data: CompleteRepairOrderData): Promise<RepairOrder> {
+  const response = await client.post<{ success: boolean; data: RepairOrder }>(`/repairs/${id}/complete`, data);
+  return response.data.data;
+}
+
+/**
+ * Hand the piece back to the customer and collect the charges
+ * @param id - Order ID
+ * @param data - Delivery date and payment
+ * @returns Delivered order
+ */
+export async function deliverRepairOrder(id: string, data: DeliverRepairOrderData): Promise<RepairOrder> {
+  const response = await client.post<{ success: boolean; data: RepairOrder }>(`/repairs/${id}/deliver`, data);
+  return response.data.data;
+}
+
+/**
+ * Cancel an order that has not been delivered
+ * @param id - Order ID
+ * @returns Cancelled order
+ */
+export async function cancelRepairOrder(id: string): Promise<RepairOrder> {
+  const response = await client.post<{ success: boolean; data: RepairOrder }>(`/repairs/${id}/cancel`);
+  return response.data.data;
+}
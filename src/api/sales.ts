@@ -0,0 +1,385 @@
+import client from './client';
+import type { CertificateSummary } from './certificates';
+import type { WithholdingCharge } from './config';
+import type { Customer } from './customers';
+import type { IrnDetails } from './eInvoice';
+import type { MakingChargeType } from './items';
+import type { Metal } from './metalRates';
+
+/**
+ * Tax charged on a line at one rate. A line carries one per rate table code,
+ * e.g. goods at 3% and making charges at 5%.
+ */
+export interface GstTaxLine {
+  /** HSN or SAC code, null when tax was charged without a rate table */
+  code: string | null;
+  ratePercent: number;
+  taxableValue: number;
+  taxAmount: number;
+}
+
+export interface SalesInvoiceLine {
+  id?: string;
+  itemId: string;
+  tagNumber: string;
+  /** HUID of the hallmarked piece, printed on the invoice */
+  huid?: string | null;
+  /** Certificates of the piece's stones, printed under the line */
+  certificates?: CertificateSummary[];
+  description: string;
+  metal: Metal;
+  purity: string | null;
+  grossWeight: number;
+  netWeight: number;
+  ratePerGram: number;
+  wastagePercent: number;
+  makingChargeType: MakingChargeType;
+  makingCharge: number;
+  metalValue: number;
+  wastageValue: number;
+  makingValue: number;
+  stoneValue: number;
+  taxableValue: number;
+  taxAmount: number;
+  /** Tax by HSN/SAC code; absent on invoices saved before the GST rate table */
+  taxLines?: GstTaxLine[];
+  total: number;
+}
+
+export interface OldGoldExchange {
+  id?: string;
+  /** Old gold voucher applied as this credit; the backend closes the voucher when the invoice is saved */
+  voucherId?: string | null;
+  description: string;
+  grossWeight: number;
+  purity: string;
+  ratePerGram: number;
+  amount: number;
+}
+
+export interface InvoicePayment {
+  id?: string;
+  mode: string;
+  amount: number;
+  reference: string | null;
+}
+
+export type SalesInvoiceStatus = 'paid' | 'partial' | 'unpaid';
+
+export const SALES_INVOICE_STATUSES: {
+  value: SalesInvoiceStatus;
+  label: string;
+  color: 'success' | 'warning' | 'error';
+}[] = [
+  { value: 'paid', label: 'Paid', color: 'success' },
+  { value: 'partial', label: 'Partially Paid', color: 'warning' },
+  { value: 'unpaid', label: 'Unpaid', color: 'error' },
+];
+
+export interface SalesInvoice {
+  id: string;
+  organizationId: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  customerId: string | null;
+  customer: Pick<
+    Customer,
+    'id' | 'customerNumber' | 'name' | 'phone' | 'address' | 'gstin' | 'panNumber' | 'creditLimit'
+  > | null;
+  lines: SalesInvoiceLine[];
+  oldGold: OldGoldExchange[];
+  payments: InvoicePayment[];
+  subtotal: number;
+  taxAmount: number;
+  /** GST state code of the place of supply; null on invoices saved before it was recorded */
+  placeOfSupply: string | null;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  oldGoldAmount: number;
+  /** Custom order advance adjusted against this invoice */
+  advanceAmount: number;
+  customOrderNumber: string | null;
+  /** Savings scheme balance redeemed against this invoice */
+  schemeAmount: number;
+  schemeEnrolmentNumber: string | null;
+  total: number;
+  /** TCS collected on top of the invoice; included in the balance due */
+  tcs: WithholdingCharge | null;
+  amountPaid: number;
+  balanceDue: number;
+  /** Date the balance is due, set when the invoice is billed on credit */
+  dueDate: string | null;
+  /** IRN registration, once the invoice has been e-invoiced */
+  eInvoice: IrnDetails | null;
+  status: SalesInvoiceStatus;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CreateSalesInvoiceData {
+  invoiceDate: string;
+  customerId: string | null;
+  lines: SalesInvoiceLine[];
+  oldGold: OldGoldExchange[];
+  payments: InvoicePayment[];
+  /** GST state code of the place of supply; decides CGST + SGST or IGST */
+  placeOfSupply: string | null;
+  /** Approval memo the pieces were out on; the backend marks those memo lines sold */
+  approvalMemoId?: string | null;
+  /** Custom order being delivered; the backend closes the order and records the advance adjustment */
+  customOrderId?: string | null;
+  advanceAmount?: number;
+  /** Advance left over once this invoice is settled; the backend keeps it as an advance for the customer */
+  remainingAdvance?: number;
+  /** Matured scheme being redeemed; the backend marks the enrolment redeemed */
+  schemeEnrolmentId?: string | null;
+  schemeAmount?: number;
+  /** Scheme value left over once this invoice is settled; the backend keeps it on the enrolment */
+  remainingSchemeAmount?: number;
+  tcs?: WithholdingCharge | null;
+  dueDate?: string | null;
+  /** Approval to bill past the customer's credit limit */
+  creditOverrideId?: string | null;
+}
+
+export interface SalesInvoiceFilters {
+  search?: string;
+  customerId?: string;
+  /** Only invoices with a balance still due */
+  outstanding?: boolean;
+  status?: SalesInvoiceStatus;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface SalesInvoicesResponse {
+  success: boolean;
+  data: SalesInvoice[];
+  count: number;
+}
+
+/**
+ * Fetch sales invoices, newest first
+ * @param params - Optional filters
+ * @returns Invoices and total count
+ */
+export async function fetchSalesInvoices(params?: SalesInvoiceFilters): Promise<SalesInvoicesResponse> {
+  const response = await client.get<SalesInvoicesResponse>('/sales/invoices', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single sales invoice
+ * @param id - Invoice ID
+ * @returns Invoice with lines, old gold and payments
+ */
+export async function fetchSalesInvoice(id: string): Promise<SalesInvoice> {
+  const response = await client.get<{ success: boolean; data: SalesInvoice }>(`/sales/invoices/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Fetch the number the next invoice will be issued with, built from the
+ * invoicePrefix and startFrom settings of the Numbering config
+ * @returns Next invoice number
+ */
+export async function fetchNextInvoiceNumber(): Promise<string> {
+  const response = await client.get<{ success: boolean; data: { invoiceNumber: string } }>(
+    '/sales/invoices/next-number'
+  );
+  return response.data.data.invoiceNumber;
+}
+
+/**
+ * Create a sales invoice. The backend assigns the invoice number, marks the
+ * items as sold and writes the activity log entry. With accounting enabled it
+ * also posts the sale and the payments taken as vouchers.
+ * @param data - Invoice data
+ * @returns Created invoice
+ */
+export async function createSalesInvoice(data: CreateSalesInvoiceData): Promise<SalesInvoice> {
+  const response = await client.post<{ success: boolean; data: SalesInvoice }>('/sales/invoices', data);
+  return response.data.data;
+}
+
+/**
+ * Returns and cancellations are recorded as credit notes against the
+ * original invoice, which is how they are reported in GSTR-1
+ */
+export type SalesCreditNoteReason = 'return' | 'cancellation';
+
+export const SALES_CREDIT_NOTE_REASONS: { value: SalesCreditNoteReason; label: string }[] = [
+  { value: 'return', label: 'Sales Return' },
+  { value: 'cancellation', label: 'Invoice Cancelled' },
+];
+
+export interface SalesCreditNote {
+  id: string;
+  creditNoteNumber: string;
+  creditNoteDate: string;
+  reason: SalesCreditNoteReason;
+  remarks: string | null;
+  invoiceId: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  /** Value of the original invoice; decides whether a note to an unregistered buyer goes in CDNUR */
+  invoiceTotal: number;
+  customer: SalesInvoice['customer'];
+  /** Place of supply of the original invoice */
+  placeOfSupply: string | null;
+  /** Invoice lines credited, at the values they were billed at */
+  lines: SalesInvoiceLine[];
+  subtotal: number;
+  taxAmount: number;
+  cgstAmount: number;
+  sgstAmount: number;
+  igstAmount: number;
+  total: number;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface CreateSalesCreditNoteData {
+  creditNoteDate: string;
+  reason: SalesCreditNoteReason;
+  /** Pieces being credited, by item; every piece on the invoice for a cancellation */
+  itemIds: string[];
+  remarks: string | null;
+}
+
+export interface SalesCreditNoteFilters {
+  invoiceId?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+/**
+ * Fetch credit notes, newest first
+ * @param params - Optional invoice and date filters
+ * @returns Credit notes with the lines they credit
+ */
+export async function fetchSalesCreditNotes(params?: SalesCreditNoteFilters): Promise<SalesCreditNote[]> {
+  const response = await client.get<{ success: boolean; data: SalesCreditNote[] }>('/sales/credit-notes', {
+    params,
+  });
+  return response.data.data;
+}
+
+/**
+ * Take pieces back or cancel an invoice. The backend numbers the credit note,
+ * returns the pieces to stock, takes the note off the invoice balance and
+ * posts the reversal.
+ * @param invoiceId - Invoice being credited
+ * @param data - Date, reason and pieces credited
+ * @returns Created credit note
+ */
+export async function createSalesCreditNote(
+  invoiceId: string,
+  data: CreateSalesCreditNoteData
+): Promise<SalesCreditNote> {
+  const response = await client.post<{ success: boolean; data: SalesCreditNote }>(
+    `/sales/invoices/${invoiceId}/credit-notes`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Billing past a customer's credit limit needs an ORG_ADMIN's approval. The
+ * counter raises a request and the admin approves or rejects it from their
+ * own session; only an approved request can be passed with the invoice.
+ */
+export type CreditOverrideStatus = 'pending' | 'approved' | 'rejected';
+
+export const CREDIT_OVERRIDE_STATUSES: {
+  value: CreditOverrideStatus;
+  label: string;
+  color: 'warning' | 'success' | 'error';
+}[] = [
+  { value: 'pending', label: 'Pending', color: 'warning' },
+  { value: 'approved', label: 'Approved', color: 'success' },
+  { value: 'rejected', label: 'Rejected', color: 'error' },
+];
+
+export interface CreditOverrideRequest {
+  customerId: string;
+  /** Amount the customer will owe once this sale is billed */
+  exposure: number;
+  creditLimit: number;
+  reason: string;
+}
+
+export interface CreditOverride {
+  id: string;
+  customerId: string;
+  customerName: string;
+  exposure: number;
+  creditLimit: number;
+  reason: string;
+  status: CreditOverrideStatus;
+  requestedByName: string;
+  approvedByName: string | null;
+  approvedAt: string | null;
+  rejectionReason: string | null;
+  createdAt: string;
+}
+
+/**
+ * Ask an admin to approve billing a customer past their credit limit
+ * @param data - Customer, amounts and reason
+ * @returns Pending override request
+ */
+export async function requestCreditOverride(data: CreditOverrideRequest): Promise<CreditOverride> {
+  const response = await client.post<{ success: boolean; data: CreditOverride }>('/sales/credit-overrides', data);
+  return response.data.data;
+}
+
+/**
+ * Fetch credit override requests, newest first
+ * @param params - Optional status filter
+ * @returns Override requests
+ */
+export async function fetchCreditOverrides(params?: { status?: CreditOverrideStatus }): Promise<CreditOverride[]> {
+  const response = await client.get<{ success: boolean; data: CreditOverride[] }>('/sales/credit-overrides', {
+    params,
+  });
+  return response.data.data;
+}
+
+/**
+ * Fetch a single credit override request, to see whether it has been decided
+ * @param id - Override ID
+ * @returns Override request
+ */
+export async function fetchCreditOverride(id: string): Promise<CreditOverride> {
+  const response = await client.get<{ success: boolean; data: CreditOverride }>(`/sales/credit-overrides/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Approve a pending credit override (org admins only). The backend records
+ * the approval against the signed-in admin in the activity log.
+ * @param id - Override ID
+ * @returns Approved override
+ */
+export async function approveCreditOverride(id: string): Promise<CreditOverride> {
+  const response = await client.post<{ success: boolean; data: CreditOverride }>(
+    `/sales/credit-overrides/${id}/approve`
+  );
+  return response.data.data;
+}
+
+/**
+ * Reject a pending credit override (org admins only)
+ * @param id - Override ID
+ * @param reason - Why the override was refused
+ * @returns Rejected override
+ */
+export async function rejectCreditOverride(id: string, reason: string): Promise<CreditOverride> {
+  const response = await client.post<{ success: boolean; data: CreditOverride }>(
+    `/sales/credit-overrides/${id}/reject`,
+    { reason }
+  );
+  return response.data.data;
+}
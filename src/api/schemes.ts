@@ -0,0 +1,214 @@
+import client from './client';
+import type { Customer } from './customers';
+
+export type SchemeMode = 'amount' | 'grams';
+
+export const SCHEME_MODES: { value: SchemeMode; label: string }[] = [
+  { value: 'amount', label: 'Amount Accumulation' },
+  { value: 'grams', label: 'Gold Accumulation (grams)' },
+];
+
+export type SchemeEnrolmentStatus = 'active' | 'matured' | 'redeemed' | 'closed';
+
+export const SCHEME_ENROLMENT_STATUSES: {
+  value: SchemeEnrolmentStatus;
+  label: string;
+  color: 'info' | 'success' | 'default';
+}[] = [
+  { value: 'active', label: 'Active', color: 'info' },
+  { value: 'matured', label: 'Matured', color: 'success' },
+  { value: 'redeemed', label: 'Redeemed', color: 'default' },
+  { value: 'closed', label: 'Closed', color: 'default' },
+];
+
+export interface SchemePlan {
+  id: string;
+  organizationId: string;
+  name: string;
+  /** Amount the customer pays each month */
+  instalmentAmount: number;
+  /** Number of monthly instalments the customer pays */
+  tenureMonths: number;
+  /** Instalments the firm adds on maturity, e.g. 1 for the 12th month free */
+  bonusInstalments: number;
+  mode: SchemeMode;
+  /** Gold purity instalments are converted at in grams mode */
+  purity: string | null;
+  description: string | null;
+  isActive: boolean;
+  activeEnrolments: number;
+  createdAt: string;
+}
+
+export interface SchemePlanData {
+  name: string;
+  instalmentAmount: number;
+  tenureMonths: number;
+  bonusInstalments: number;
+  mode: SchemeMode;
+  purity: string | null;
+  description: string | null;
+  isActive?: boolean;
+}
+
+export interface SchemeInstalment {
+  id: string;
+  instalmentNumber: number;
+  paidDate: string;
+  amount: number;
+  mode: string;
+  reference: string | null;
+  /** Gold rate per gram the instalment was converted at, in grams mode */
+  ratePerGram: number | null;
+  grams: number | null;
+  receivedByName: string | null;
+}
+
+export interface SchemeEnrolment {
+  id: string;
+  organizationId: string;
+  enrolmentNumber: string;
+  planId: string;
+  plan: SchemePlan;
+  customerId: string;
+  customer: Customer;
+  startDate: string;
+  maturityDate: string;
+  instalments: SchemeInstalment[];
+  paidCount: number;
+  totalPaid: number;
+  /** Gold accumulated in grams mode */
+  totalGrams: number;
+  status: SchemeEnrolmentStatus;
+  /** Value taken off the invoice the scheme was redeemed on */
+  redeemedAmount: number | null;
+  invoiceId: string | null;
+  invoiceNumber: string | null;
+  notes: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface EnrolSchemeData {
+  planId: string;
+  customerId: string;
+  startDate: string;
+  notes: string | null;
+}
+
+export interface CollectInstalmentData {
+  paidDate: string;
+  amount: number;
+  mode: string;
+  reference: string | null;
+  ratePerGram: number | null;
+  grams: number | null;
+}
+
+export interface SchemeEnrolmentFilters {
+  search?: string;
+  customerId?: string;
+  status?: string;
+  planId?: string;
+}
+
+export interface SchemeEnrolmentsResponse {
+  success: boolean;
+  data: SchemeEnrolment[];
+  count: number;
+}
+
+export interface SchemeSummary {
+  activeEnrolments: number;
+  /** Enrolments with every instalment paid, waiting to be redeemed */
+  maturedEnrolments: number;
+  /** Active enrolments behind on their instalments */
+  overdueEnrolments: number;
+  collectedToday: number;
+  collectedThisMonth: number;
+  instalmentsThisMonth: number;
+}
+
+/**
+ * Fetch scheme plans
+ * @param params - Optional filter to active plans
+ * @returns Plans
+ */
+export async function fetchSchemePlans(params?: { isActive?: boolean }): Promise<SchemePlan[]> {
+  const response = await client.get<{ success: boolean; data: SchemePlan[] }>('/schemes/plans', { params });
+  return response.data.data;
+}
+
+/**
+ * Create a scheme plan
+ * @param data - Plan terms
+ * @returns Created plan
+ */
+export async function createSchemePlan(data: SchemePlanData): Promise<SchemePlan> {
+  const response = await client.post<{ success: boolean; data: SchemePlan }>('/schemes/plans', data);
+  return response.data.data;
+}
+
+/**
+ * Update a scheme plan. Changed terms apply to new enrolments only.
+ * @param id - Plan ID
+ * @param data - Plan terms
+ * @returns Updated plan
+ */
+export async function updateSchemePlan(id: string, data: SchemePlanData): Promise<SchemePlan> {
+  const response = await client.put<{ success: boolean; data: SchemePlan }>(`/schemes/plans/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Fetch scheme enrolments, newest first
+ * @param params - Optional filters
+ * @returns Enrolments and total count
+ */
+export async function fetchSchemeEnrolments(params?: SchemeEnrolmentFilters): Promise<SchemeEnrolmentsResponse> {
+  const response = await client.get<SchemeEnrolmentsResponse>('/schemes/enrolments', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single enrolment
+ * @param id - Enrolment ID
+ * @returns Enrolment with its plan and instalments
+ */
+export async function fetchSchemeEnrolment(id: string): Promise<SchemeEnrolment> {
+  const response = await client.get<{ success: boolean; data: SchemeEnrolment }>(`/schemes/enrolments/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Enrol a customer on a plan. The backend assigns the enrolment number and maturity date.
+ * @param data - Plan, customer and start date
+ * @returns Created enrolment
+ */
+export async function enrolSchemeCustomer(data: EnrolSchemeData): Promise<SchemeEnrolment> {
+  const response = await client.post<{ success: boolean; data: SchemeEnrolment }>('/schemes/enrolments', data);
+  return response.data.data;
+}
+
+/**
+ * Collect the next instalment
+ * @param id - Enrolment ID
+ * @param data - Payment and, in grams mode, the gold it bought
+ * @returns Enrolment with the new instalment
+ */
+export async function collectSchemeInstalment(id: string, data: CollectInstalmentData): Promise<SchemeEnrolment> {
+  const response = await client.post<{ success: boolean; data: SchemeEnrolment }>(
+    `/schemes/enrolments/${id}/instalments`,
+    data
+  );
+  return response.data.data;
+}
+
+/**
+ * Fetch scheme collection totals for the dashboard
+ * @returns Enrolment counts and collections
+ */
+export async function fetchSchemeSummary(): Promise<SchemeSummary> {
+  const response = await client.get<{ success: boolean; data: SchemeSummary }>('/schemes/summary');
+  return response.data.data;
+}
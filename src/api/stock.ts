@@ -0,0 +1,178 @@
+import client from './client';
+import type { Metal } from './metalRates';
+
+export type StockStatus = 'in_stock' | 'on_approval' | 'sold' | 'in_repair' | 'melted';
+
+export const STOCK_STATUSES: {
+  value: StockStatus;
+  label: string;
+  color: 'success' | 'info' | 'default' | 'warning' | 'error';
+}[] = [
+  { value: 'in_stock', label: 'In Stock', color: 'success' },
+  { value: 'on_approval', label: 'On Approval', color: 'info' },
+  { value: 'sold', label: 'Sold', color: 'default' },
+  { value: 'in_repair', label: 'In Repair', color: 'warning' },
+  { value: 'melted', label: 'Melted', color: 'error' },
+];
+
+export interface StockLocation {
+  id: string;
+  organizationId: string;
+  branch: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface CreateStockLocationData {
+  branch: string;
+  name: string;
+}
+
+/**
+ * One tagged piece and where it is now
+ */
+export interface StockEntry {
+  itemId: string;
+  tagNumber: string;
+  name: string;
+  category: string;
+  metal: Metal;
+  purity: string | null;
+  grossWeight: number;
+  netWeight: number;
+  status: StockStatus;
+  locationId: string | null;
+  locationName: string | null;
+  branch: string | null;
+  tray: string | null;
+  updatedAt: string;
+}
+
+export interface StockMovement {
+  id: string;
+  itemId: string;
+  tagNumber: string;
+  fromStatus: StockStatus | null;
+  toStatus: StockStatus;
+  fromLocationName: string | null;
+  toLocationName: string | null;
+  fromTray: string | null;
+  toTray: string | null;
+  /** Document that caused the movement, e.g. an invoice number */
+  reference: string | null;
+  notes: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+export interface StockMoveData {
+  status: StockStatus;
+  locationId: string | null;
+  tray: string | null;
+  notes?: string;
+}
+
+export interface StockFilters {
+  search?: string;
+  status?: StockStatus;
+  locationId?: string;
+  branch?: string;
+  metal?: Metal;
+}
+
+/**
+ * Value of the pieces held on a date: in stock, on approval or in repair
+ */
+export interface StockValuation {
+  asOf: string;
+  pieces: number;
+  /** Cost of the pieces held, the closing stock of the books */
+  value: number;
+}
+
+export interface StockResponse {
+  success: boolean;
+  data: StockEntry[];
+  count: number;
+}
+
+/**
+ * Fetch stock entries, one per tagged piece
+ * @param params - Optional filters
+ * @returns Stock entries and total count
+ */
+export async function fetchStock(params?: StockFilters): Promise<StockResponse> {
+  const response = await client.get<StockResponse>('/stock', { params });
+  return response.data;
+}
+
+/**
+ * Fetch the stock entry of a single piece
+ * @param itemId - Item ID
+ * @returns Stock entry
+ */
+export async function fetchStockEntry(itemId: string): Promise<StockEntry> {
+  const response = await client.get<{ success: boolean; data: StockEntry }>(`/stock/${itemId}`);
+  return response.data.data;
+}
+
+/**
+ * Fetch the stock valuation at the end of a day
+ * @param asOf - Date to value stock on (yyyy-mm-dd)
+ * @returns Pieces held and their value
+ */
+export async function fetchStockValuation(asOf: string): Promise<StockValuation> {
+  const response = await client.get<{ success: boolean; data: StockValuation }>('/stock/valuation', {
+    params: { asOf },
+  });
+  return response.data.data;
+}
+
+/**
+ * Fetch the movement history of a piece, newest first
+ * @param itemId - Item ID
+ * @returns Stock movements
+ */
+export async function fetchStockMovements(itemId: string): Promise<StockMovement[]> {
+  const response = await client.get<{ success: boolean; data: StockMovement[] }>(`/stock/${itemId}/movements`);
+  return response.data.data;
+}
+
+/**
+ * Move a piece to a new status and/or location. The backend records the
+ * movement and writes a stock activity log entry.
+ * @param itemId - Item ID
+ * @param data - New status, location and tray
+ * @returns Updated stock entry
+ */
+export async function moveStock(itemId: string, data: StockMoveData): Promise<StockEntry> {
+  const response = await client.post<{ success: boolean; data: StockEntry }>(`/stock/${itemId}/movements`, data);
+  return response.data.data;
+}
+
+/**
+ * Fetch the organization's stock locations
+ * @returns Stock locations
+ */
+export async function fetchStockLocations(): Promise<StockLocation[]> {
+  const response = await client.get<{ success: boolean; data: StockLocation[] }>('/stock/locations');
+  return response.data.data;
+}
+
+/**
+ * Create a stock location
+ * @param data - Branch and location name
+ * @returns Created location
+ */
+export async function createStockLocation(data: CreateStockLocationData): Promise<StockLocation> {
+  const response = await client.post<{ success: boolean; data: StockLocation }>('/stock/locations', data);
+  return response.data.data;
+}
+
+/**
+ * Delete a stock location that no pieces are kept in
+ * @param id - Location ID
+ */
+export async function deleteStockLocation(id: string): Promise<void> {
+  await client.delete(`/stock/locations/${id}`);
+}
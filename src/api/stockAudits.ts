@@ -0,0 +1,135 @@
+import client from './client';
+
+export type StockAuditStatus = 'open' | 'closed';
+
+export interface StockAudit {
+  id: string;
+  organizationId: string;
+  locationId: string;
+  locationName: string;
+  branch: string;
+  status: StockAuditStatus;
+  /** Pieces expected at the location when the session was opened */
+  expectedCount: number;
+  scannedCount: number;
+  notes: string | null;
+  startedByName: string | null;
+  closedByName: string | null;
+  createdAt: string;
+  closedAt: string | null;
+}
+
+/**
+ * A piece the backend expected to find, snapshotted from stock when the
+ * session was opened so later movements don't change what is being counted
+ */
+export interface StockAuditExpectedTag {
+  itemId: string;
+  tagNumber: string;
+  name: string;
+  tray: string | null;
+  grossWeight: number;
+}
+
+export interface StockAuditScan {
+  id: string;
+  tagNumber: string;
+  /** Null when the tag is not in the item master */
+  itemId: string | null;
+  name: string | null;
+  /** Recorded gross weight of the item, when known */
+  grossWeight: number | null;
+  /** Weight put on the scale during the count, if the auditor entered one */
+  weighedGrossWeight: number | null;
+  scannedByName: string | null;
+  createdAt: string;
+}
+
+export interface StockAuditDetail extends StockAudit {
+  expected: StockAuditExpectedTag[];
+  scans: StockAuditScan[];
+}
+
+export interface CreateStockAuditData {
+  locationId: string;
+  notes?: string;
+}
+
+export interface StockAuditScanData {
+  tagNumber: string;
+  weighedGrossWeight?: number;
+}
+
+export interface StockAuditFilters {
+  status?: StockAuditStatus;
+  locationId?: string;
+}
+
+export interface StockAuditsResponse {
+  success: boolean;
+  data: StockAudit[];
+  count: number;
+}
+
+/**
+ * Fetch stock audit sessions, newest first
+ * @param params - Optional filters
+ * @returns Audit sessions and total count
+ */
+export async function fetchStockAudits(params?: StockAuditFilters): Promise<StockAuditsResponse> {
+  const response = await client.get<StockAuditsResponse>('/stock-audits', { params });
+  return response.data;
+}
+
+/**
+ * Fetch an audit session with its expected tags and scans
+ * @param id - Audit ID
+ * @returns Audit session detail
+ */
+export async function fetchStockAudit(id: string): Promise<StockAuditDetail> {
+  const response = await client.get<{ success: boolean; data: StockAuditDetail }>(`/stock-audits/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Open an audit session for a location. The backend snapshots the pieces
+ * currently in stock there as the expected list and logs the session to
+ * the activity feed.
+ * @param data - Location to count
+ * @returns Created audit session
+ */
+export async function createStockAudit(data: CreateStockAuditData): Promise<StockAudit> {
+  const response = await client.post<{ success: boolean; data: StockAudit }>('/stock-audits', data);
+  return response.data.data;
+}
+
+/**
+ * Record a scanned tag. Scanning the same tag twice returns the existing scan.
+ * @param id - Audit ID
+ * @param data - Scanned tag number and optional weighed weight
+ * @returns Recorded scan
+ */
+export async function addStockAuditScan(id: string, data: StockAuditScanData): Promise<StockAuditScan> {
+  const response = await client.post<{ success: boolean; data: StockAuditScan }>(`/stock-audits/${id}/scans`, data);
+  return response.data.data;
+}
+
+/**
+ * Remove a scan recorded by mistake
+ * @param id - Audit ID
+ * @param scanId - Scan ID
+ */
+export async function deleteStockAuditScan(id: string, scanId: string): Promise<void> {
+  await client.delete(`/stock-audits/${id}/scans/${scanId}`);
+}
+
+/**
+ * Close an audit session. No more scans are accepted afterwards and the
+ * closing is logged to the activity feed.
+ * @param id - Audit ID
+ * @returns Closed audit session
+ */
+export async function closeStockAudit(id: string): Promise<StockAudit> {
+  const response = await client.post<{ success: boolean; data: StockAudit }>(`/stock-audits/${id}/close`);
+  return response.data.data;
+}
@@ -0,0 +1,180 @@
+import client from './client';
+import type { Metal } from './metalRates';
+
+export interface Supplier {
+  id: string;
+  organizationId: string;
+  supplierNumber: string;
+  name: string;
+  contactPerson: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  gstin: string | null;
+  panNumber: string | null;
+  /** Money owed to the supplier. Negative when the supplier owes us. */
+  balance: number;
+  /** Fine metal (grams) owed to the supplier, per metal. Negative when the supplier holds our metal. */
+  fineBalances: Record<Metal, number>;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface CreateSupplierData {
+  name: string;
+  contactPerson?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  gstin?: string;
+  panNumber?: string;
+  isActive?: boolean;
+}
+
+/** A supplier is settled in money and, for bullion and wholesale trade, in fine metal */
+export type SupplierAccount = 'money' | Metal;
+
+export type SupplierLedgerEntryType = 'purchase' | 'payment' | 'metal_return' | 'adjustment';
+
+export const SUPPLIER_LEDGER_ENTRY_TYPES: { value: SupplierLedgerEntryType; label: string }[] = [
+  { value: 'purchase', label: 'Purchase Bill' },
+  { value: 'payment', label: 'Payment' },
+  { value: 'metal_return', label: 'Metal Returned' },
+  { value: 'adjustment', label: 'Adjustment' },
+];
+
+/**
+ * One movement on a supplier account. Approved purchase bills add to what we
+ * owe: their total to the money account and the fine weight of lines settled
+ * in metal to that metal's account. Payments and metal returns take it off.
+ */
+export interface SupplierLedgerEntry {
+  id: string;
+  date: string;
+  type: SupplierLedgerEntryType;
+  purchaseBillId: string | null;
+  billNumber: string | null;
+  reference: string | null;
+  description: string | null;
+  /** Signed amount, or fine weight in grams on a metal account */
+  amount: number;
+  /** Balance after this entry */
+  balance: number;
+}
+
+export interface SupplierPaymentData {
+  date: string;
+  amount: number;
+  mode: string;
+  /** Cheque, UTR or UPI reference */
+  reference?: string;
+  notes?: string;
+}
+
+export interface SupplierMetalReturnData {
+  date: string;
+  metal: Metal;
+  grossWeight: number;
+  touchPercent: number;
+  fineWeight: number;
+  notes?: string;
+}
+
+export interface SupplierFilters {
+  search?: string;
+  /** Only suppliers we owe money or metal to */
+  hasBalance?: boolean;
+}
+
+export interface SuppliersResponse {
+  success: boolean;
+  data: Supplier[];
+  count: number;
+}
+
+/**
+ * Search suppliers by name, phone or supplier number
+ * @param search - Search text
+ * @returns Matching suppliers
+ */
+export async function searchSuppliers(search: string): Promise<Supplier[]> {
+  const response = await client.get<SuppliersResponse>('/suppliers', { params: { search } });
+  return response.data.data;
+}
+
+/**
+ * Fetch suppliers with their money and metal balances
+ * @param params - Optional filters
+ * @returns Suppliers and total count
+ */
+export async function fetchSuppliers(params?: SupplierFilters): Promise<SuppliersResponse> {
+  const response = await client.get<SuppliersResponse>('/suppliers', { params });
+  return response.data;
+}
+
+/**
+ * Fetch a single supplier
+ * @param id - Supplier ID
+ * @returns Supplier with current balances
+ */
+export async function fetchSupplier(id: string): Promise<Supplier> {
+  const response = await client.get<{ success: boolean; data: Supplier }>(`/suppliers/${id}`);
+  return response.data.data;
+}
+
+/**
+ * Create a supplier
+ * @param data - Supplier data
+ * @returns Created supplier
+ */
+export async function createSupplier(data: CreateSupplierData): Promise<Supplier> {
+  const response = await client.post<{ success: boolean; data: Supplier }>('/suppliers', data);
+  return response.data.data;
+}
+
+/**
+ * Update a supplier's contact and GST details
+ * @param id - Supplier ID
+ * @param data - Fields to update
+ * @returns Updated supplier
+ */
+export async function updateSupplier(id: string, data: Partial<CreateSupplierData>): Promise<Supplier> {
+  const response = await client.put<{ success: boolean; data: Supplier }>(`/suppliers/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Fetch one of a supplier's ledgers, oldest first
+ * @param id - Supplier ID
+ * @param account - Money account or a fine-metal account
+ * @returns Ledger entries with running balance
+ */
+export async function fetchSupplierLedger(id: string, account: SupplierAccount): Promise<SupplierLedgerEntry[]> {
+  const response = await client.get<{ success: boolean; data: SupplierLedgerEntry[] }>(`/suppliers/${id}/ledger`, {
+    params: { account },
+  });
+  return response.data.data;
+}
+
+/**
+ * Record a payment made to a supplier against the money account. With
+ * accounting enabled it also posts a payment voucher.
+ * @param id - Supplier ID
+ * @param data - Payment details
+ * @returns Supplier with updated balances
+ */
+export async function recordSupplierPayment(id: string, data: SupplierPaymentData): Promise<Supplier> {
+  const response = await client.post<{ success: boolean; data: Supplier }>(`/suppliers/${id}/payments`, data);
+  return response.data.data;
+}
+
+/**
+ * Record fine metal handed back to a supplier against their metal account
+ * @param id - Supplier ID
+ * @param data - Metal, weights and touch
+ * @returns Supplier with updated balances
+ */
+export async function recordSupplierMetalReturn(id: string, data: SupplierMetalReturnData): Promise<Supplier> {
+  const response = await client.post<{ success: boolean; data: Supplier }>(`/suppliers/${id}/metal-returns`, data);
+  return response.data.data;
+}
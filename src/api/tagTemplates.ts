@@ -0,0 +1,59 @@
+import client from './client';
+
+export type TagCodeType = 'code128' | 'qr';
+
+export type TagField = 'tagNumber' | 'name' | 'grossWeight' | 'netWeight' | 'purity' | 'stoneWeight' | 'huid';
+
+export interface TagTemplate {
+  id: string;
+  name: string;
+  /** Label stock the template prints on, see TAG_STOCKS */
+  stock: string;
+  codeType: TagCodeType;
+  /** Item fields printed as text, in order */
+  fields: TagField[];
+  /** Text size in points */
+  fontSize: number;
+  /** Built-in templates ship with the app and cannot be edited */
+  builtIn?: boolean;
+}
+
+export type TagTemplateInput = Omit<TagTemplate, 'id' | 'builtIn'>;
+
+/**
+ * Fetch the organization's custom tag templates
+ * @returns Custom tag templates
+ */
+export async function fetchTagTemplates(): Promise<TagTemplate[]> {
+  const response = await client.get<{ success: boolean; data: TagTemplate[] }>('/tag-templates');
+  return response.data.data;
+}
+
+/**
+ * Create a custom tag template
+ * @param data - Template data
+ * @returns Created template
+ */
+export async function createTagTemplate(data: TagTemplateInput): Promise<TagTemplate> {
+  const response = await client.post<{ success: boolean; data: TagTemplate }>('/tag-templates', data);
+  return response.data.data;
+}
+
+/**
+ * Update a custom tag template
+ * @param id - Template ID
+ * @param data - Template data
+ * @returns Updated template
+ */
+export async function updateTagTemplate(id: string, data: TagTemplateInput): Promise<TagTemplate> {
+  const response = await client.put<{ success: boolean; data: TagTemplate }>(`/tag-templates/${id}`, data);
+  return response.data.data;
+}
+
+/**
+ * Delete a custom tag template
+ * @param id - Template ID
+ */
+export async function deleteTagTemplate(id: string): Promise<void> {
+  await client.delete(`/tag-templates/${id}`);
+}
@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import { PersonAdd } from '@mui/icons-material';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { createCustomer, searchCustomers, type Customer } from '../../api/customers';
+
+interface CustomerSelectProps {
+  value: Customer | null;
+  onChange: (customer: Customer | null) => void;
+  label?: string;
+  placeholder?: string;
+  error?: string;
+}
+
+/**
+ * Customer search with a quick-add dialog for customers not yet on file
+ */
+export function CustomerSelect({
+  value,
+  onChange,
+  label = 'Search by name, phone or customer no.',
+  placeholder,
+  error,
+}: CustomerSelectProps) {
+  const [search, setSearch] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [newCustomer, setNewCustomer] = useState({ name: '', phone: '' });
+
+  const { data: options = [], isFetching } = useQuery({
+    queryKey: ['customers', 'search', search],
+    queryFn: () => searchCustomers(search),
+    enabled: search.trim().length >= 2,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createCustomer,
+    onSuccess: (created) => {
+      onChange(created);
+      setDialogOpen(false);
+      setNewCustomer({ name: '', phone: '' });
+    },
+  });
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Autocomplete
+          fullWidth
+          size="small"
+          options={options}
+          loading={isFetching}
+          value={value}
+          onChange={(_event, customer) => onChange(customer)}
+          onInputChange={(_event, input) => setSearch(input)}
+          filterOptions={(list) => list}
+          isOptionEqualToValue={(option, selected) => option.id === selected.id}
+          getOptionLabel={(option) =>
+            `${option.name}${option.phone ? ` · ${option.phone}` : ''} (${option.customerNumber})`
+          }
+          renderInput={(params) => (
+            <TextField {...params} label={label} placeholder={placeholder} error={!!error} helperText={error} />
+          )}
+        />
+        <Button
+          variant="outlined"
+          startIcon={<PersonAdd />}
+          onClick={() => setDialogOpen(true)}
+          sx={{ borderColor: '#5e3b63', color: '#5e3b63', whiteSpace: 'nowrap', alignSelf: 'flex-start' }}
+        >
+          New
+        </Button>
+      </Box>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>New Customer</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Name"
+            margin="dense"
+            value={newCustomer.name}
+            onChange={(e) => setNewCustomer({ ...newCustomer, name: e.target.value })}
+          />
+          <TextField
+            fullWidth
+            label="Phone"
+            margin="dense"
+            value={newCustomer.phone}
+            onChange={(e) => setNewCustomer({ ...newCustomer, phone: e.target.value })}
+          />
+          {createMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(createMutation.error, 'Failed to create customer')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button onClick={() => setDialogOpen(false)} sx={{ color: '#5e3b63' }}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            disabled={!newCustomer.name.trim() || createMutation.isPending}
+            onClick={() =>
+              createMutation.mutate({
+                name: newCustomer.name.trim(),
+                phone: newCustomer.phone.trim() || undefined,
+              })
+            }
+            sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
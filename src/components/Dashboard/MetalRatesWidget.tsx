@@ -0,0 +1,82 @@
+import { Box, Button, CircularProgress, Paper, Typography } from '@mui/material';
+import { useNavigate } from 'react-router-dom';
+import { METALS, METAL_PURITIES } from '../../api/metalRates';
+import { useMetalRates } from '../../hooks/useMetalRates';
+import { formatAmount } from '../../utils/format';
+
+/**
+ * Dashboard card showing today's metal rates for every purity that has one
+ */
+export function MetalRatesWidget() {
+  const navigate = useNavigate();
+  const { rates, getRate, loading, error } = useMetalRates();
+
+  return (
+    <Paper
+      sx={{
+        p: { xs: 2, sm: 3 },
+        backgroundColor: '#ffffff',
+        boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)',
+        height: '100%',
+      }}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 2,
+          borderBottom: '2px solid #5e3b63',
+          pb: 1,
+        }}
+      >
+        <Typography variant="h6" sx={{ color: '#000000', fontWeight: 600 }}>
+          Today's Metal Rates
+        </Typography>
+        <Button size="small" onClick={() => navigate('/metal-rates')} sx={{ color: '#5e3b63' }}>
+          View all
+        </Button>
+      </Box>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+          <CircularProgress size={24} sx={{ color: '#5e3b63' }} />
+        </Box>
+      ) : error ? (
+        <Typography sx={{ color: '#d32f2f' }}>Failed to load metal rates.</Typography>
+      ) : rates.length === 0 ? (
+        <Typography sx={{ color: '#000000' }}>No rates entered yet.</Typography>
+      ) : (
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: { xs: '1fr', sm: 'repeat(3, 1fr)' },
+            gap: 2,
+          }}
+        >
+          {METALS.map((metal) => (
+            <Box key={metal.value}>
+              <Typography sx={{ color: '#5e3b63', fontWeight: 600, mb: 1 }}>{metal.label}</Typography>
+              {METAL_PURITIES[metal.value].map((purity) => {
+                const rate = getRate(metal.value, purity.value);
+                return (
+                  <Box
+                    key={purity.value}
+                    sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}
+                  >
+                    <Typography variant="body2" sx={{ color: '#000000' }}>
+                      {purity.value}
+                    </Typography>
+                    <Typography variant="body2" sx={{ color: '#000000', fontWeight: 600 }}>
+                      {rate ? formatAmount(rate.ratePerGram) : '-'}
+                    </Typography>
+                  </Box>
+                );
+              })}
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Paper>
+  );
+}
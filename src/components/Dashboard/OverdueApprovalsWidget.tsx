@@ -0,0 +1,86 @@
+import { Box, Button, CircularProgress, Paper, Typography } from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { fetchApprovalMemos } from '../../api/approvals';
+import { getApprovalPartyName, getDaysOverdue } from '../../utils/approvals';
+
+/** Overdue memos listed on the card; the rest are behind View all */
+const MAX_ROWS = 5;
+
+/**
+ * Dashboard card listing approval memos past their return date
+ */
+export function OverdueApprovalsWidget() {
+  const navigate = useNavigate();
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['approvals', 'memos', { overdue: true }],
+    queryFn: () => fetchApprovalMemos({ overdue: true }),
+  });
+
+  const memos = data?.data ?? [];
+
+  return (
+    <Paper
+      sx={{
+        p: { xs: 2, sm: 3 },
+        backgroundColor: '#ffffff',
+        boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)',
+        height: '100%',
+      }}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 2,
+          borderBottom: '2px solid #5e3b63',
+          pb: 1,
+        }}
+      >
+        <Typography variant="h6" sx={{ color: '#000000', fontWeight: 600 }}>
+          Overdue Approvals{memos.length > 0 ? ` (${memos.length})` : ''}
+        </Typography>
+        <Button size="small" onClick={() => navigate('/approvals?overdue=1')} sx={{ color: '#5e3b63' }}>
+          View all
+        </Button>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+          <CircularProgress size={24} sx={{ color: '#5e3b63' }} />
+        </Box>
+      ) : error ? (
+        <Typography sx={{ color: '#d32f2f' }}>Failed to load approval memos.</Typography>
+      ) : memos.length === 0 ? (
+        <Typography sx={{ color: '#000000' }}>No pieces are overdue from approval.</Typography>
+      ) : (
+        memos.slice(0, MAX_ROWS).map((memo) => (
+          <Box
+            key={memo.id}
+            onClick={() => navigate(`/approvals/${memo.id}`)}
+            sx={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              gap: 2,
+              py: 0.75,
+              cursor: 'pointer',
+              '&:hover': { backgroundColor: 'rgba(94, 59, 99, 0.08)' },
+            }}
+          >
+            <Typography variant="body2" sx={{ color: '#000000' }}>
+              <Box component="span" sx={{ fontFamily: 'monospace', mr: 1 }}>
+                {memo.memoNumber}
+              </Box>
+              {getApprovalPartyName(memo)} · {memo.outstandingCount}{' '}
+              {memo.outstandingCount === 1 ? 'piece' : 'pieces'}
+            </Typography>
+            <Typography variant="body2" sx={{ color: '#d32f2f', fontWeight: 600, whiteSpace: 'nowrap' }}>
+              {getDaysOverdue(memo.expectedReturnDate)}d overdue
+            </Typography>
+          </Box>
+        ))
+      )}
+    </Paper>
+  );
+}
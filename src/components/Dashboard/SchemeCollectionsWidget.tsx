@@ -0,0 +1,92 @@
+import { Box, Button, CircularProgress, Grid, Paper, Typography } from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { fetchSchemeSummary } from '../../api/schemes';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { formatAmount } from '../../utils/format';
+
+/**
+ * Dashboard card with savings scheme collections and enrolments needing attention
+ */
+export function SchemeCollectionsWidget() {
+  const navigate = useNavigate();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const { data: summary, isLoading, error } = useQuery({
+    queryKey: ['schemes', 'summary'],
+    queryFn: fetchSchemeSummary,
+  });
+
+  const stats = summary
+    ? [
+        { label: 'Collected Today', value: formatAmount(summary.collectedToday, decimals) },
+        {
+          label: 'Collected This Month',
+          value: formatAmount(summary.collectedThisMonth, decimals),
+          detail: `${summary.instalmentsThisMonth} instalment${summary.instalmentsThisMonth === 1 ? '' : 's'}`,
+        },
+        { label: 'Active Members', value: summary.activeEnrolments.toString() },
+        { label: 'Awaiting Redemption', value: summary.maturedEnrolments.toString() },
+        {
+          label: 'Behind on Instalments',
+          value: summary.overdueEnrolments.toString(),
+          alert: summary.overdueEnrolments > 0,
+        },
+      ]
+    : [];
+
+  return (
+    <Paper
+      sx={{
+        p: { xs: 2, sm: 3 },
+        backgroundColor: '#ffffff',
+        boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)',
+        height: '100%',
+      }}
+    >
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          mb: 2,
+          borderBottom: '2px solid #5e3b63',
+          pb: 1,
+        }}
+      >
+        <Typography variant="h6" sx={{ color: '#000000', fontWeight: 600 }}>
+          Savings Schemes
+        </Typography>
+        <Button size="small" onClick={() => navigate('/schemes')} sx={{ color: '#5e3b63' }}>
+          View all
+        </Button>
+      </Box>
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+          <CircularProgress size={24} sx={{ color: '#5e3b63' }} />
+        </Box>
+      ) : error ? (
+        <Typography sx={{ color: '#d32f2f' }}>Failed to load scheme collections.</Typography>
+      ) : (
+        <Grid container spacing={2}>
+          {stats.map((stat) => (
+            <Grid key={stat.label} size={{ xs: 6, sm: 4, md: 'grow' }}>
+              <Typography variant="body2" sx={{ color: '#666666' }}>
+                {stat.label}
+              </Typography>
+              <Typography variant="h6" sx={{ color: stat.alert ? '#d32f2f' : '#000000', fontWeight: 600 }}>
+                {stat.value}
+              </Typography>
+              {stat.detail && (
+                <Typography variant="caption" sx={{ color: '#666666' }}>
+                  {stat.detail}
+                </Typography>
+              )}
+            </Grid>
+          ))}
+        </Grid>
+      )}
+    </Paper>
+  );
+}
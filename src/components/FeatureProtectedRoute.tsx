@@ -0,0 +1,40 @@
+import { Box, CircularProgress } from '@mui/material';
+import { Navigate } from 'react-router-dom';
+import { useFeatureConfig } from '../hooks/useFeatureConfig';
+import type { FeatureKey } from '../api/config';
+import { ProtectedRoute } from './ProtectedRoute';
+
+interface FeatureProtectedRouteProps {
+  feature: FeatureKey;
+  children: React.ReactNode;
+}
+
+/**
+ * Protected route that only renders when the organization has the feature switched on
+ * Users of organizations without the feature are redirected to /dashboard
+ */
+export function FeatureProtectedRoute({ feature, children }: FeatureProtectedRouteProps) {
+  const { features, isFeatureEnabled, loading } = useFeatureConfig();
+
+  if (loading) {
+    return (
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          minHeight: '100vh',
+          backgroundColor: '#ffffff',
+        }}
+      >
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (features && !isFeatureEnabled(feature)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <ProtectedRoute>{children}</ProtectedRoute>;
+}
@@ -0,0 +1,363 @@
+import { Box, Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material';
+import { describeCertificate } from '../../utils/certificates';
+import { amountInWords, formatAmount } from '../../utils/format';
+import {
+  formatGstState,
+  isInterStateSupply,
+  resolveHomeState,
+  resolvePlaceOfSupply,
+  summarizeGst,
+} from '../../utils/gst';
+import { TagCode } from '../Tags/TagCode';
+import { calculateDueDate } from '../../utils/receivables';
+import { paymentModeLabel, type InvoiceTemplateProps } from './templates';
+
+const cellSx = { color: '#000000', fontSize: '0.8rem', py: 0.75, px: 1 };
+const headSx = { ...cellSx, fontWeight: 600, borderBottom: '2px solid #000000' };
+
+/**
+ * Full-page GST tax invoice
+ */
+export function A4GstInvoice({
+  invoice,
+  invoiceConfig,
+  generalConfig,
+  taxConfig,
+  decimals = 2,
+}: InvoiceTemplateProps) {
+  const organizationName = generalConfig?.organizationName || '';
+  // Invoices saved before due dates were stored fall back to the configured due days
+  const dueDate =
+    invoice.balanceDue > 0
+      ? invoice.dueDate ?? calculateDueDate(invoice.invoiceDate, invoiceConfig?.defaultDueDays)
+      : null;
+  const homeState = resolveHomeState(taxConfig, taxConfig?.taxNumber);
+  // Invoices saved before the place of supply was recorded fall back to the buyer's state
+  const placeOfSupply = invoice.placeOfSupply ?? resolvePlaceOfSupply(homeState, invoice.customer?.gstin);
+  const interState = isInterStateSupply(homeState, placeOfSupply);
+  const gst = summarizeGst(invoice.lines, interState, decimals);
+  const totalRow = (label: string, value: number, bold = false) => (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', py: 0.25 }}>
+      <Typography sx={{ fontSize: '0.85rem', fontWeight: bold ? 700 : 400 }}>{label}</Typography>
+      <Typography sx={{ fontSize: '0.85rem', fontWeight: bold ? 700 : 400 }}>
+        {formatAmount(value, decimals)}
+      </Typography>
+    </Box>
+  );
+
+  return (
+    <Box sx={{ color: '#000000', backgroundColor: '#ffffff', p: 3 }}>
+      {/* Header */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          {invoiceConfig?.showLogo &&
+            (generalConfig?.logoUrl ? (
+              <Box component="img" src={generalConfig.logoUrl} alt={organizationName} sx={{ height: 56 }} />
+            ) : (
+              <Box
+                sx={{
+                  width: 56,
+                  height: 56,
+                  borderRadius: '50%',
+                  border: '2px solid #5e3b63',
+                  color: '#5e3b63',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  fontWeight: 700,
+                  fontSize: '1.5rem',
+                }}
+              >
+                {organizationName.charAt(0)}
+              </Box>
+            ))}
+          <Box>
+            <Typography sx={{ fontWeight: 700, fontSize: '1.25rem' }}>{organizationName}</Typography>
+            {generalConfig?.address && (
+              <Typography sx={{ fontSize: '0.8rem', whiteSpace: 'pre-line' }}>{generalConfig.address}</Typography>
+            )}
+            {generalConfig?.phone && <Typography sx={{ fontSize: '0.8rem' }}>Phone: {generalConfig.phone}</Typography>}
+            {taxConfig?.taxNumber && (
+              <Typography sx={{ fontSize: '0.8rem', fontWeight: 600 }}>GSTIN: {taxConfig.taxNumber}</Typography>
+            )}
+          </Box>
+        </Box>
+        <Box sx={{ textAlign: 'right' }}>
+          <Typography sx={{ fontWeight: 700, fontSize: '1.1rem', textTransform: 'uppercase' }}>
+            {invoiceConfig?.invoiceTitle || 'Tax Invoice'}
+          </Typography>
+          <Typography sx={{ fontSize: '0.85rem' }}>No: {invoice.invoiceNumber}</Typography>
+          <Typography sx={{ fontSize: '0.85rem' }}>
+            Date: {new Date(invoice.invoiceDate).toLocaleDateString()}
+          </Typography>
+          {placeOfSupply && (
+            <Typography sx={{ fontSize: '0.85rem' }}>
+              Place of Supply: {formatGstState(placeOfSupply)}
+            </Typography>
+          )}
+          {dueDate && (
+            <Typography sx={{ fontSize: '0.85rem' }}>Due: {new Date(dueDate).toLocaleDateString()}</Typography>
+          )}
+        </Box>
+      </Box>
+
+      {/* E-invoice */}
+      {invoice.eInvoice && (
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Box sx={{ minWidth: 0 }}>
+            <Typography sx={{ fontSize: '0.75rem', wordBreak: 'break-all' }}>IRN: {invoice.eInvoice.irn}</Typography>
+            <Typography sx={{ fontSize: '0.75rem' }}>
+              Ack No: {invoice.eInvoice.ackNumber} · Ack Date:{' '}
+              {new Date(invoice.eInvoice.ackDate).toLocaleDateString()}
+            </Typography>
+          </Box>
+          <TagCode value={invoice.eInvoice.signedQrCode} type="qr" widthMm={32} heightMm={32} />
+        </Box>
+      )}
+
+      {/* Customer */}
+      <Box sx={{ borderTop: '1px solid #000000', borderBottom: '1px solid #000000', py: 1, mb: 2 }}>
+        <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>Bill To</Typography>
+        {invoice.customer ? (
+          <>
+            <Typography sx={{ fontSize: '0.85rem' }}>
+              {invoice.customer.name} ({invoice.customer.customerNumber})
+            </Typography>
+            {invoice.customer.phone && <Typography sx={{ fontSize: '0.8rem' }}>{invoice.customer.phone}</Typography>}
+            {invoice.customer.address && (
+              <Typography sx={{ fontSize: '0.8rem' }}>{invoice.customer.address}</Typography>
+            )}
+            {invoice.customer.gstin && (
+              <Typography sx={{ fontSize: '0.8rem' }}>GSTIN: {invoice.customer.gstin}</Typography>
+            )}
+          </>
+        ) : (
+          <Typography sx={{ fontSize: '0.85rem' }}>Walk-in Customer</Typography>
+        )}
+      </Box>
+
+      {/* Lines */}
+      <Table size="small" sx={{ mb: 2 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell sx={headSx}>#</TableCell>
+            <TableCell sx={headSx}>Item</TableCell>
+            <TableCell sx={headSx}>HSN/SAC</TableCell>
+            <TableCell sx={headSx}>Purity</TableCell>
+            <TableCell sx={headSx} align="right">
+              Gross Wt
+            </TableCell>
+            <TableCell sx={headSx} align="right">
+              Net Wt
+            </TableCell>
+            <TableCell sx={headSx} align="right">
+              Rate
+            </TableCell>
+            <TableCell sx={headSx} align="right">
+              Making
+            </TableCell>
+            <TableCell sx={headSx} align="right">
+              Stone
+            </TableCell>
+            <TableCell sx={headSx} align="right">
+              Taxable
+            </TableCell>
+            <TableCell sx={headSx} align="right">
+              Tax
+            </TableCell>
+            <TableCell sx={headSx} align="right">
+              Amount
+            </TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {invoice.lines.map((line, index) => (
+            <TableRow key={line.id ?? line.itemId}>
+              <TableCell sx={cellSx}>{index + 1}</TableCell>
+              <TableCell sx={cellSx}>
+                {line.description}
+                <Typography component="div" sx={{ fontSize: '0.7rem', fontFamily: 'monospace' }}>
+                  {line.tagNumber}
+                  {line.huid ? ` · HUID ${line.huid}` : ''}
+                </Typography>
+                {line.certificates?.map((certificate) => (
+                  <Typography key={certificate.id} component="div" sx={{ fontSize: '0.7rem' }}>
+                    {describeCertificate(certificate)}
+                  </Typography>
+                ))}
+              </TableCell>
+              <TableCell sx={cellSx}>
+                {line.taxLines
+                  ?.map((taxLine) => taxLine.code)
+                  .filter(Boolean)
+                  .join(', ') || '-'}
+              </TableCell>
+              <TableCell sx={cellSx}>{line.purity || '-'}</TableCell>
+              <TableCell sx={cellSx} align="right">
+                {line.grossWeight.toFixed(3)}
+              </TableCell>
+              <TableCell sx={cellSx} align="right">
+                {line.netWeight.toFixed(3)}
+              </TableCell>
+              <TableCell sx={cellSx} align="right">
+                {formatAmount(line.ratePerGram, decimals)}
+              </TableCell>
+              <TableCell sx={cellSx} align="right">
+                {formatAmount(line.makingValue + line.wastageValue, decimals)}
+              </TableCell>
+              <TableCell sx={cellSx} align="right">
+                {formatAmount(line.stoneValue, decimals)}
+              </TableCell>
+              <TableCell sx={cellSx} align="right">
+                {formatAmount(line.taxableValue, decimals)}
+              </TableCell>
+              <TableCell sx={cellSx} align="right">
+                {formatAmount(line.taxAmount, decimals)}
+              </TableCell>
+              <TableCell sx={cellSx} align="right">
+                {formatAmount(line.total, decimals)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {/* HSN summary */}
+      {gst.rows.length > 0 && (
+        <Table size="small" sx={{ mb: 2 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell sx={headSx}>HSN/SAC</TableCell>
+              <TableCell sx={headSx} align="right">
+                Rate
+              </TableCell>
+              <TableCell sx={headSx} align="right">
+                Taxable
+              </TableCell>
+              {interState ? (
+                <TableCell sx={headSx} align="right">
+                  IGST
+                </TableCell>
+              ) : (
+                <>
+                  <TableCell sx={headSx} align="right">
+                    CGST
+                  </TableCell>
+                  <TableCell sx={headSx} align="right">
+                    SGST
+                  </TableCell>
+                </>
+              )}
+              <TableCell sx={headSx} align="right">
+                Total Tax
+              </TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {gst.rows.map((row) => (
+              <TableRow key={`${row.code ?? ''}@${row.ratePercent}`}>
+                <TableCell sx={cellSx}>{row.code || '-'}</TableCell>
+                <TableCell sx={cellSx} align="right">
+                  {row.ratePercent}%
+                </TableCell>
+                <TableCell sx={cellSx} align="right">
+                  {formatAmount(row.taxableValue, decimals)}
+                </TableCell>
+                {interState ? (
+                  <TableCell sx={cellSx} align="right">
+                    {formatAmount(row.igst, decimals)}
+                  </TableCell>
+                ) : (
+                  <>
+                    <TableCell sx={cellSx} align="right">
+                      {formatAmount(row.cgst, decimals)}
+                    </TableCell>
+                    <TableCell sx={cellSx} align="right">
+                      {formatAmount(row.sgst, decimals)}
+                    </TableCell>
+                  </>
+                )}
+                <TableCell sx={cellSx} align="right">
+                  {formatAmount(row.taxAmount, decimals)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Totals */}
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 4, mb: 2 }}>
+        <Box sx={{ flex: 1 }}>
+          {invoice.oldGold.length > 0 && (
+            <Box sx={{ mb: 1 }}>
+              <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>Old Gold Exchange</Typography>
+              {invoice.oldGold.map((entry, index) => (
+                <Typography key={entry.id ?? index} sx={{ fontSize: '0.8rem' }}>
+                  {entry.description} — {entry.grossWeight.toFixed(3)} g {entry.purity} @{' '}
+                  {formatAmount(entry.ratePerGram, decimals)} = {formatAmount(entry.amount, decimals)}
+                </Typography>
+              ))}
+            </Box>
+          )}
+          {invoice.payments.length > 0 && (
+            <Box>
+              <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>Payments</Typography>
+              {invoice.payments.map((payment, index) => (
+                <Typography key={payment.id ?? index} sx={{ fontSize: '0.8rem' }}>
+                  {paymentModeLabel(payment.mode)}
+                  {payment.reference ? ` (${payment.reference})` : ''}: {formatAmount(payment.amount, decimals)}
+                </Typography>
+              ))}
+            </Box>
+          )}
+        </Box>
+        <Box sx={{ width: 280 }}>
+          {totalRow('Taxable Value', invoice.subtotal)}
+          {interState ? (
+            totalRow('IGST', invoice.igstAmount)
+          ) : (
+            <>
+              {totalRow('CGST', invoice.cgstAmount)}
+              {totalRow('SGST', invoice.sgstAmount)}
+            </>
+          )}
+          {totalRow('Invoice Total', invoice.total, true)}
+          {invoice.oldGoldAmount > 0 && totalRow('Less: Old Gold', -invoice.oldGoldAmount)}
+          {invoice.advanceAmount > 0 &&
+            totalRow(`Less: Advance ${invoice.customOrderNumber ?? ''}`, -invoice.advanceAmount)}
+          {invoice.schemeAmount > 0 &&
+            totalRow(`Less: Scheme ${invoice.schemeEnrolmentNumber ?? ''}`, -invoice.schemeAmount)}
+          {invoice.tcs &&
+            totalRow(`Add: TCS u/s ${invoice.tcs.section} @ ${invoice.tcs.ratePercent}%`, invoice.tcs.amount)}
+          {totalRow('Amount Paid', invoice.amountPaid)}
+          {totalRow('Balance Due', invoice.balanceDue, true)}
+        </Box>
+      </Box>
+      <Typography sx={{ fontSize: '0.8rem', fontStyle: 'italic', mb: 2 }}>
+        {amountInWords(invoice.total)}
+      </Typography>
+
+      {/* Footer */}
+      {invoiceConfig?.terms && (
+        <Box sx={{ borderTop: '1px solid #000000', pt: 1, mb: 1 }}>
+          <Typography sx={{ fontSize: '0.8rem', fontWeight: 600 }}>Terms & Conditions</Typography>
+          <Typography sx={{ fontSize: '0.75rem', whiteSpace: 'pre-line' }}>{invoiceConfig.terms}</Typography>
+        </Box>
+      )}
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 4 }}>
+        <Box sx={{ textAlign: 'center' }}>
+          <Typography sx={{ fontSize: '0.8rem', mb: 4 }}>For {organizationName}</Typography>
+          <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5 }}>
+            Authorised Signatory
+          </Typography>
+        </Box>
+      </Box>
+      {invoiceConfig?.footerNote && (
+        <Typography sx={{ fontSize: '0.8rem', textAlign: 'center', mt: 2, whiteSpace: 'pre-line' }}>
+          {invoiceConfig.footerNote}
+        </Typography>
+      )}
+    </Box>
+  );
+}
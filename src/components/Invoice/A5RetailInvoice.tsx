@@ -0,0 +1,139 @@
+import { Box, Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material';
+import { describeCertificate } from '../../utils/certificates';
+import { formatAmount } from '../../utils/format';
+import { paymentModeLabel, type InvoiceTemplateProps } from './templates';
+
+const cellSx = { color: '#000000', fontSize: '0.72rem', py: 0.5, px: 0.75 };
+const headSx = { ...cellSx, fontWeight: 600, borderBottom: '1px solid #000000' };
+
+/**
+ * Half-page counter invoice with one line per item
+ */
+export function A5RetailInvoice({ invoice, invoiceConfig, generalConfig, decimals = 2 }: InvoiceTemplateProps) {
+  const organizationName = generalConfig?.organizationName || '';
+  const customerLabel = invoice.customer
+    ? [invoice.customer.name, invoice.customer.phone].filter(Boolean).join(' · ')
+    : 'Walk-in Customer';
+  const totalRow = (label: string, value: number, bold = false) => (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+      <Typography sx={{ fontSize: '0.75rem', fontWeight: bold ? 700 : 400 }}>{label}</Typography>
+      <Typography sx={{ fontSize: '0.75rem', fontWeight: bold ? 700 : 400 }}>
+        {formatAmount(value, decimals)}
+      </Typography>
+    </Box>
+  );
+
+  return (
+    <Box sx={{ color: '#000000', backgroundColor: '#ffffff', p: 2 }}>
+      {/* Header */}
+      <Box sx={{ textAlign: 'center', mb: 1 }}>
+        {invoiceConfig?.showLogo && generalConfig?.logoUrl && (
+          <Box component="img" src={generalConfig.logoUrl} alt={organizationName} sx={{ height: 40, mb: 0.5 }} />
+        )}
+        <Typography sx={{ fontWeight: 700, fontSize: '1rem' }}>{organizationName}</Typography>
+        {generalConfig?.address && <Typography sx={{ fontSize: '0.7rem' }}>{generalConfig.address}</Typography>}
+        {generalConfig?.phone && <Typography sx={{ fontSize: '0.7rem' }}>Phone: {generalConfig.phone}</Typography>}
+        <Typography sx={{ fontWeight: 700, fontSize: '0.85rem', textTransform: 'uppercase', mt: 0.5 }}>
+          {invoiceConfig?.invoiceTitle || 'Invoice'}
+        </Typography>
+      </Box>
+
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          borderTop: '1px solid #000000',
+          borderBottom: '1px solid #000000',
+          py: 0.5,
+          mb: 1,
+        }}
+      >
+        <Typography sx={{ fontSize: '0.75rem' }}>{customerLabel}</Typography>
+        <Typography sx={{ fontSize: '0.75rem', textAlign: 'right' }}>
+          {invoice.invoiceNumber} · {new Date(invoice.invoiceDate).toLocaleDateString()}
+        </Typography>
+      </Box>
+
+      {/* Lines */}
+      <Table size="small" sx={{ mb: 1 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell sx={headSx}>Item</TableCell>
+            <TableCell sx={headSx} align="right">
+              Net Wt
+            </TableCell>
+            <TableCell sx={headSx} align="right">
+              Rate
+            </TableCell>
+            <TableCell sx={headSx} align="right">
+              Amount
+            </TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {invoice.lines.map((line) => (
+            <TableRow key={line.id ?? line.itemId}>
+              <TableCell sx={cellSx}>
+                {line.description}
+                {line.purity ? ` ${line.purity}` : ''}
+                {line.huid && (
+                  <Typography component="div" sx={{ fontSize: '0.7rem', fontFamily: 'monospace' }}>
+                    HUID {line.huid}
+                  </Typography>
+                )}
+                {line.certificates?.map((certificate) => (
+                  <Typography key={certificate.id} component="div" sx={{ fontSize: '0.7rem' }}>
+                    {describeCertificate(certificate)}
+                  </Typography>
+                ))}
+              </TableCell>
+              <TableCell sx={cellSx} align="right">
+                {line.netWeight.toFixed(3)}
+              </TableCell>
+              <TableCell sx={cellSx} align="right">
+                {formatAmount(line.ratePerGram, decimals)}
+              </TableCell>
+              <TableCell sx={cellSx} align="right">
+                {formatAmount(line.total, decimals)}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {/* Totals */}
+      <Box sx={{ ml: 'auto', width: '60%', mb: 1 }}>
+        {invoice.igstAmount > 0 ? (
+          totalRow('IGST', invoice.igstAmount)
+        ) : (
+          <>
+            {totalRow('CGST', invoice.cgstAmount)}
+            {totalRow('SGST', invoice.sgstAmount)}
+          </>
+        )}
+        {totalRow('Total', invoice.total, true)}
+        {invoice.oldGoldAmount > 0 && totalRow('Less: Old Gold', -invoice.oldGoldAmount)}
+        {invoice.advanceAmount > 0 &&
+          totalRow(`Less: Advance ${invoice.customOrderNumber ?? ''}`, -invoice.advanceAmount)}
+        {invoice.schemeAmount > 0 &&
+          totalRow(`Less: Scheme ${invoice.schemeEnrolmentNumber ?? ''}`, -invoice.schemeAmount)}
+        {invoice.tcs && totalRow(`Add: TCS @ ${invoice.tcs.ratePercent}%`, invoice.tcs.amount)}
+        {invoice.payments.map((payment, index) => (
+          <Box key={payment.id ?? index}>{totalRow(paymentModeLabel(payment.mode), payment.amount)}</Box>
+        ))}
+        {invoice.balanceDue !== 0 && totalRow('Balance Due', invoice.balanceDue, true)}
+      </Box>
+
+      {invoiceConfig?.terms && (
+        <Typography sx={{ fontSize: '0.65rem', whiteSpace: 'pre-line', borderTop: '1px solid #000000', pt: 0.5 }}>
+          {invoiceConfig.terms}
+        </Typography>
+      )}
+      {invoiceConfig?.footerNote && (
+        <Typography sx={{ fontSize: '0.7rem', textAlign: 'center', mt: 1, whiteSpace: 'pre-line' }}>
+          {invoiceConfig.footerNote}
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,31 @@
+import { Box } from '@mui/material';
+import { A4GstInvoice } from './A4GstInvoice';
+import { A5RetailInvoice } from './A5RetailInvoice';
+import { ThermalReceipt } from './ThermalReceipt';
+import type { InvoiceTemplate, InvoiceTemplateId, InvoiceTemplateProps } from './templates';
+
+const layouts: Record<InvoiceTemplateId, (props: InvoiceTemplateProps) => React.ReactElement> = {
+  'a4-gst': A4GstInvoice,
+  'a5-retail': A5RetailInvoice,
+  'thermal-80mm': ThermalReceipt,
+};
+
+interface InvoicePrintProps extends InvoiceTemplateProps {
+  template: InvoiceTemplate;
+}
+
+/**
+ * Render an invoice with the given template at its page width, and set the
+ * printed page size to match. Wrap it in an element with the print-area class
+ * so only it is printed; the browser's print dialog also saves it as PDF.
+ */
+export function InvoicePrint({ template, ...props }: InvoicePrintProps) {
+  const Layout = layouts[template.id];
+
+  return (
+    <Box sx={{ width: template.width, maxWidth: '100%', mx: 'auto' }}>
+      <style>{`@media print { @page { size: ${template.pageSize}; margin: ${template.pageMargin}; } }`}</style>
+      <Layout {...props} />
+    </Box>
+  );
+}
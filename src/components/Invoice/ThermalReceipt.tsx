@@ -0,0 +1,105 @@
+import { Box, Typography } from '@mui/material';
+import { describeCertificate } from '../../utils/certificates';
+import { formatAmount } from '../../utils/format';
+import { paymentModeLabel, type InvoiceTemplateProps } from './templates';
+
+const textSx = { fontFamily: 'monospace', fontSize: '0.72rem', lineHeight: 1.4 };
+
+function ReceiptRow({ label, value, bold = false }: { label: string; value: string; bold?: boolean }) {
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+      <Typography sx={{ ...textSx, fontWeight: bold ? 700 : 400 }}>{label}</Typography>
+      <Typography sx={{ ...textSx, fontWeight: bold ? 700 : 400, whiteSpace: 'nowrap' }}>{value}</Typography>
+    </Box>
+  );
+}
+
+function Rule() {
+  return <Box sx={{ borderTop: '1px dashed #000000', my: 0.75 }} />;
+}
+
+/**
+ * Narrow receipt for 80mm thermal printers
+ */
+export function ThermalReceipt({
+  invoice,
+  invoiceConfig,
+  generalConfig,
+  taxConfig,
+  decimals = 2,
+}: InvoiceTemplateProps) {
+  return (
+    <Box sx={{ color: '#000000', backgroundColor: '#ffffff', p: 1 }}>
+      <Box sx={{ textAlign: 'center' }}>
+        <Typography sx={{ ...textSx, fontWeight: 700, fontSize: '0.9rem' }}>
+          {generalConfig?.organizationName}
+        </Typography>
+        {generalConfig?.address && <Typography sx={textSx}>{generalConfig.address}</Typography>}
+        {generalConfig?.phone && <Typography sx={textSx}>Ph: {generalConfig.phone}</Typography>}
+        {taxConfig?.taxNumber && <Typography sx={textSx}>GSTIN: {taxConfig.taxNumber}</Typography>}
+        <Typography sx={{ ...textSx, fontWeight: 700, textTransform: 'uppercase', mt: 0.5 }}>
+          {invoiceConfig?.invoiceTitle || 'Invoice'}
+        </Typography>
+      </Box>
+      <Rule />
+      <ReceiptRow label={invoice.invoiceNumber} value={new Date(invoice.invoiceDate).toLocaleDateString()} />
+      <Typography sx={textSx}>{invoice.customer?.name || 'Walk-in Customer'}</Typography>
+      <Rule />
+
+      {invoice.lines.map((line) => (
+        <Box key={line.id ?? line.itemId} sx={{ mb: 0.5 }}>
+          <Typography sx={textSx}>
+            {line.description}
+            {line.purity ? ` ${line.purity}` : ''}
+          </Typography>
+          {line.huid && <Typography sx={textSx}>{`  HUID ${line.huid}`}</Typography>}
+          {line.certificates?.map((certificate) => (
+            <Typography key={certificate.id} sx={textSx}>{`  ${describeCertificate(certificate)}`}</Typography>
+          ))}
+          <ReceiptRow
+            label={`  ${line.netWeight.toFixed(3)}g x ${formatAmount(line.ratePerGram, decimals)}`}
+            value={formatAmount(line.total, decimals)}
+          />
+        </Box>
+      ))}
+      <Rule />
+
+      {invoice.igstAmount > 0 ? (
+        <ReceiptRow label="IGST" value={formatAmount(invoice.igstAmount, decimals)} />
+      ) : (
+        <>
+          <ReceiptRow label="CGST" value={formatAmount(invoice.cgstAmount, decimals)} />
+          <ReceiptRow label="SGST" value={formatAmount(invoice.sgstAmount, decimals)} />
+        </>
+      )}
+      <ReceiptRow label="TOTAL" value={formatAmount(invoice.total, decimals)} bold />
+      {invoice.oldGoldAmount > 0 && (
+        <ReceiptRow label="Old Gold" value={formatAmount(-invoice.oldGoldAmount, decimals)} />
+      )}
+      {invoice.advanceAmount > 0 && (
+        <ReceiptRow label="Advance" value={formatAmount(-invoice.advanceAmount, decimals)} />
+      )}
+      {invoice.schemeAmount > 0 && (
+        <ReceiptRow label="Scheme" value={formatAmount(-invoice.schemeAmount, decimals)} />
+      )}
+      {invoice.tcs && <ReceiptRow label="TCS" value={formatAmount(invoice.tcs.amount, decimals)} />}
+      {invoice.payments.map((payment, index) => (
+        <ReceiptRow
+          key={payment.id ?? index}
+          label={paymentModeLabel(payment.mode)}
+          value={formatAmount(payment.amount, decimals)}
+        />
+      ))}
+      {invoice.balanceDue !== 0 && (
+        <ReceiptRow label="Balance" value={formatAmount(invoice.balanceDue, decimals)} bold />
+      )}
+      <Rule />
+
+      {invoiceConfig?.footerNote && (
+        <Typography sx={{ ...textSx, textAlign: 'center', whiteSpace: 'pre-line' }}>
+          {invoiceConfig.footerNote}
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,227 @@
+import { PAYMENT_MODES, type GeneralConfig, type InvoiceConfig, type TaxConfig } from '../../api/config';
+import type { SalesInvoice } from '../../api/sales';
+
+export type InvoiceTemplateId = 'a4-gst' | 'a5-retail' | 'thermal-80mm';
+
+export interface InvoiceTemplate {
+  id: InvoiceTemplateId;
+  label: string;
+  description: string;
+  /** CSS @page size used when printing */
+  pageSize: string;
+  /** CSS @page margin used when printing */
+  pageMargin: string;
+  /** On-screen width of the rendered page */
+  width: string;
+}
+
+/**
+ * Built-in invoice layouts
+ */
+export const INVOICE_TEMPLATES: InvoiceTemplate[] = [
+  {
+    id: 'a4-gst',
+    label: 'A4 GST Tax Invoice',
+    description: 'Full tax invoice with GSTINs, tax summary and amount in words',
+    pageSize: 'A4',
+    pageMargin: '10mm',
+    width: '210mm',
+  },
+  {
+    id: 'a5-retail',
+    label: 'A5 Retail Invoice',
+    description: 'Compact counter invoice for walk-in customers',
+    pageSize: 'A5',
+    pageMargin: '8mm',
+    width: '148mm',
+  },
+  {
+    id: 'thermal-80mm',
+    label: 'Thermal Receipt (80mm)',
+    description: 'Narrow receipt for 80mm thermal printers',
+    pageSize: '80mm auto',
+    pageMargin: '0',
+    width: '80mm',
+  },
+];
+
+export const DEFAULT_INVOICE_TEMPLATE: InvoiceTemplateId = 'a4-gst';
+
+export type InvoiceDocumentType = 'retailInvoice' | 'taxInvoice';
+
+/**
+ * Document types an admin can pick a default template for
+ */
+export const INVOICE_DOCUMENT_TYPES: { value: InvoiceDocumentType; label: string }[] = [
+  { value: 'retailInvoice', label: 'Retail Invoice (B2C)' },
+  { value: 'taxInvoice', label: 'Tax Invoice (B2B)' },
+];
+
+/**
+ * Props shared by every invoice layout
+ */
+export interface InvoiceTemplateProps {
+  invoice: SalesInvoice;
+  invoiceConfig?: InvoiceConfig;
+  generalConfig?: GeneralConfig;
+  taxConfig?: TaxConfig;
+  /** Decimal places from the Finance config; amounts print to 2 places when not given */
+  decimals?: number;
+}
+
+/**
+ * Templates the organization may use. OrgConfig.documents.invoiceTemplates
+ * narrows the built-in list; an empty list allows all of them.
+ * @param enabledTemplates - Template IDs from OrgConfig.documents.invoiceTemplates
+ * @returns Available templates
+ */
+export function getAvailableTemplates(enabledTemplates: string[] = []): InvoiceTemplate[] {
+  const available = INVOICE_TEMPLATES.filter((template) => enabledTemplates.includes(template.id));
+  return available.length > 0 ? available : INVOICE_TEMPLATES;
+}
+
+/**
+ * Business invoices (customer has a GSTIN) are tax invoices, everything else is retail
+ * @param invoice - Invoice being printed
+ * @returns Document type of the invoice
+ */
+export function getInvoiceDocumentType(invoice: Pick<SalesInvoice, 'customer'>): InvoiceDocumentType {
+  return invoice.customer?.gstin ? 'taxInvoice' : 'retailInvoice';
+}
+
+/**
+ * Pick the template for a document type: the configured default when it is
+ * still available, otherwise the first available template
+ * @param invoiceConfig - Invoice config holding defaultTemplates
+ * @param documentType - Document type being printed
+ * @param available - Templates available to the organization
+ * @returns Template to render with
+ */
+export function resolveInvoiceTemplate(
+  invoiceConfig: InvoiceConfig | undefined,
+  documentType: InvoiceDocumentType,
+  available: InvoiceTemplate[] = INVOICE_TEMPLATES
+): InvoiceTemplate {
+  const configured = invoiceConfig?.defaultTemplates?.[documentType];
+  return (
+    available.find((template) => template.id === configured) ??
+    available.find((template) => template.id === DEFAULT_INVOICE_TEMPLATE) ??
+    available[0]
+  );
+}
+
+/**
+ * Invoice used by the template preview in the Invoice config page
+ */
+export const SAMPLE_INVOICE: SalesInvoice = {
+  id: 'sample',
+  organizationId: 'sample',
+  invoiceNumber: 'INV-10001',
+  invoiceDate: new Date().toISOString(),
+  customerId: 'sample',
+  customer: {
+    id: 'sample',
+    customerNumber: 'C-1001',
+    name: 'Priya Sharma',
+    phone: '98765 43210',
+    address: '12 MG Road, Bengaluru',
+    gstin: null,
+    panNumber: null,
+    creditLimit: null,
+  },
+  lines: [
+    {
+      itemId: 'sample-1',
+      tagNumber: 'GR-22-0001',
+      huid: 'AB12CD',
+      certificates: [
+        {
+          id: 'sample-certificate',
+          lab: 'IGI',
+          certificateNumber: '512345678',
+          stoneType: 'diamond',
+          caratWeight: 0.3,
+          shape: 'round',
+          cut: 'EX',
+          colour: 'G',
+          clarity: 'VS1',
+        },
+      ],
+      description: 'Gold Ring',
+      metal: 'gold',
+      purity: '22K',
+      grossWeight: 5.25,
+      netWeight: 5.1,
+      ratePerGram: 6500,
+      wastagePercent: 2,
+      makingChargeType: 'per_gram',
+      makingCharge: 400,
+      metalValue: 33150,
+      wastageValue: 663,
+      makingValue: 2040,
+      stoneValue: 1500,
+      taxableValue: 37353,
+      taxAmount: 1161.39,
+      taxLines: [
+        { code: '7113', ratePercent: 3, taxableValue: 35313, taxAmount: 1059.39 },
+        { code: '9988', ratePercent: 5, taxableValue: 2040, taxAmount: 102 },
+      ],
+      total: 38514.39,
+    },
+    {
+      itemId: 'sample-2',
+      tagNumber: 'SC-92-0042',
+      description: 'Silver Chain',
+      metal: 'silver',
+      purity: '925',
+      grossWeight: 20,
+      netWeight: 20,
+      ratePerGram: 85,
+      wastagePercent: 0,
+      makingChargeType: 'flat',
+      makingCharge: 300,
+      metalValue: 1700,
+      wastageValue: 0,
+      makingValue: 300,
+      stoneValue: 0,
+      taxableValue: 2000,
+      taxAmount: 66,
+      taxLines: [
+        { code: '7113', ratePercent: 3, taxableValue: 1700, taxAmount: 51 },
+        { code: '9988', ratePercent: 5, taxableValue: 300, taxAmount: 15 },
+      ],
+      total: 2066,
+    },
+  ],
+  oldGold: [{ description: 'Old bangle', grossWeight: 3, purity: '22K', ratePerGram: 6200, amount: 18600 }],
+  payments: [{ mode: 'upi', amount: 21980.39, reference: 'UPI-20251019' }],
+  subtotal: 39353,
+  taxAmount: 1227.39,
+  placeOfSupply: '29',
+  cgstAmount: 613.7,
+  sgstAmount: 613.69,
+  igstAmount: 0,
+  oldGoldAmount: 18600,
+  advanceAmount: 0,
+  customOrderNumber: null,
+  schemeAmount: 0,
+  schemeEnrolmentNumber: null,
+  total: 40580.39,
+  tcs: null,
+  amountPaid: 21980.39,
+  balanceDue: 0,
+  dueDate: null,
+  eInvoice: null,
+  status: 'paid',
+  createdByName: null,
+  createdAt: new Date().toISOString(),
+};
+
+/**
+ * Label for a stored payment mode value
+ * @param mode - Payment mode value
+ * @returns Display label
+ */
+export function paymentModeLabel(mode: string): string {
+  return PAYMENT_MODES.find((option) => option.value === mode)?.label ?? mode;
+}
@@ -28,10 +28,35 @@ import {
   History,
   Menu,
   Settings,
+  ShowChart,
+  Diamond,
+  PointOfSale,
+  Inventory,
+  ShoppingCart,
+  Handyman,
+  Recycling,
+  Verified,
+  WorkspacePremium,
+  Handshake,
+  Build,
+  DesignServices,
+  Savings,
+  Contacts,
+  AccountBalanceWallet,
+  RequestQuote,
+  Percent,
+  AccountTree,
+  ReceiptLong,
+  Assessment,
+  AdminPanelSettings,
 } from '@mui/icons-material';
 import { ReactNode } from 'react';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
+import { useOrgConfig } from '../../hooks/useOrgConfig';
+import { useFeatureConfig } from '../../hooks/useFeatureConfig';
+import type { OrgConfig } from '../../api/orgConfig';
+import { HuidSearch } from './HuidSearch';
 
 interface DashboardLayoutProps {
   children: ReactNode;
@@ -41,6 +66,8 @@ const drawerWidth = 240;
 
 export function DashboardLayout({ children }: DashboardLayoutProps) {
   const { logout, user } = useAuth();
+  const { config } = useOrgConfig();
+  const { isFeatureEnabled } = useFeatureConfig();
   const navigate = useNavigate();
   const location = useLocation();
   const theme = useTheme();
@@ -50,6 +77,9 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
 
   const isSuperAdmin = user?.role === 'SUPER_ADMIN';
   const isAdmin = user?.role === 'admin' || user?.role === 'ORG_ADMIN';
+  const isModuleEnabled = (module: keyof OrgConfig['modules']) => !!config?.modules[module]?.enabled;
+  const showHallmark = !!config?.itemFields.showHallmark;
+  const showCertificates = !!config?.itemFields.showCertificate;
 
   const menuItems = [
     {
@@ -57,6 +87,155 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
       icon: <DashboardIcon sx={{ color: '#ffffff' }} />,
       path: '/dashboard',
     },
+    {
+      text: 'Items',
+      icon: <Diamond sx={{ color: '#ffffff' }} />,
+      path: '/items',
+    },
+    ...(isFeatureEnabled('crm')
+      ? [
+          {
+            text: 'Customers',
+            icon: <Contacts sx={{ color: '#ffffff' }} />,
+            path: '/customers',
+          },
+        ]
+      : []),
+    ...(showHallmark
+      ? [
+          {
+            text: 'Hallmarking',
+            icon: <Verified sx={{ color: '#ffffff' }} />,
+            path: '/hallmark/batches',
+          },
+        ]
+      : []),
+    ...(showCertificates
+      ? [
+          {
+            text: 'Certificates',
+            icon: <WorkspacePremium sx={{ color: '#ffffff' }} />,
+            path: '/certificates',
+          },
+        ]
+      : []),
+    ...(isModuleEnabled('stock')
+      ? [
+          {
+            text: 'Stock',
+            icon: <Inventory sx={{ color: '#ffffff' }} />,
+            path: '/stock',
+          },
+        ]
+      : []),
+    ...(isModuleEnabled('purchase')
+      ? [
+          {
+            text: 'Purchase',
+            icon: <ShoppingCart sx={{ color: '#ffffff' }} />,
+            path: '/purchase/bills',
+          },
+        ]
+      : []),
+    ...(isModuleEnabled('manufacturing')
+      ? [
+          {
+            text: 'Manufacturing',
+            icon: <Handyman sx={{ color: '#ffffff' }} />,
+            path: '/manufacturing/job-cards',
+          },
+        ]
+      : []),
+    ...(isModuleEnabled('sales')
+      ? [
+          {
+            text: 'Sales',
+            icon: <PointOfSale sx={{ color: '#ffffff' }} />,
+            path: '/sales/invoices',
+          },
+          {
+            text: 'Receivables',
+            icon: <AccountBalanceWallet sx={{ color: '#ffffff' }} />,
+            path: '/sales/receivables',
+          },
+          {
+            text: 'GST Returns',
+            icon: <RequestQuote sx={{ color: '#ffffff' }} />,
+            path: '/sales/gst-returns',
+          },
+          {
+            text: 'TCS / TDS',
+            icon: <Percent sx={{ color: '#ffffff' }} />,
+            path: '/sales/tcs-tds',
+          },
+        ]
+      : []),
+    ...(isModuleEnabled('sales') && isAdmin
+      ? [
+          {
+            text: 'Credit Overrides',
+            icon: <AdminPanelSettings sx={{ color: '#ffffff' }} />,
+            path: '/sales/credit-overrides',
+          },
+        ]
+      : []),
+    ...(isModuleEnabled('accounting') && isFeatureEnabled('finance')
+      ? [
+          {
+            text: 'Chart of Accounts',
+            icon: <AccountTree sx={{ color: '#ffffff' }} />,
+            path: '/accounting/ledgers',
+          },
+          {
+            text: 'Vouchers',
+            icon: <ReceiptLong sx={{ color: '#ffffff' }} />,
+            path: '/accounting/vouchers',
+          },
+          {
+            text: 'Financial Reports',
+            icon: <Assessment sx={{ color: '#ffffff' }} />,
+            path: '/accounting/reports',
+          },
+        ]
+      : []),
+    ...(isModuleEnabled('sales')
+      ? [
+          {
+            text: 'Old Gold',
+            icon: <Recycling sx={{ color: '#ffffff' }} />,
+            path: '/old-gold',
+          },
+        ]
+      : []),
+    {
+      text: 'Approvals',
+      icon: <Handshake sx={{ color: '#ffffff' }} />,
+      path: '/approvals',
+    },
+    ...(isModuleEnabled('sales')
+      ? [
+          {
+            text: 'Repairs',
+            icon: <Build sx={{ color: '#ffffff' }} />,
+            path: '/repairs',
+          },
+          {
+            text: 'Custom Orders',
+            icon: <DesignServices sx={{ color: '#ffffff' }} />,
+            path: '/custom-orders',
+          },
+          {
+            text: 'Schemes',
+            icon: <Savings sx={{ color: '#ffffff' }} />,
+            path: '/schemes',
+          },
+        ]
+      : []),
+    {
+      text: 'Metal Rates',
+      icon: <ShowChart sx={{ color: '#ffffff' }} />,
+      path: '/metal-rates',
+    },
     {
       text: 'Activity Logs',
       icon: <History sx={{ color: '#ffffff' }} />,
@@ -202,6 +381,7 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
           >
             Jewellery ERP
           </Typography>
+          {showHallmark && <HuidSearch />}
           <Button
             startIcon={<Logout sx={{ color: '#ffffff', fontSize: { xs: 18, sm: 24 } }} />}
             onClick={handleLogoutClick}
@@ -0,0 +1,69 @@
+import { useState, type FormEvent } from 'react';
+import { Box, InputBase, Tooltip } from '@mui/material';
+import { Search } from '@mui/icons-material';
+import { useMutation } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { getApiErrorMessage } from '../../api/client';
+import { fetchItemByHuid } from '../../api/items';
+import { isValidHuid, normalizeHuid } from '../../utils/hallmark';
+
+/**
+ * App bar search that opens the item carrying a HUID
+ */
+export function HuidSearch() {
+  const navigate = useNavigate();
+  const [value, setValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const lookupMutation = useMutation({
+    mutationFn: fetchItemByHuid,
+    onSuccess: (item) => {
+      setValue('');
+      setError(null);
+      navigate(`/items/${item.id}`);
+    },
+    onError: (err) => setError(getApiErrorMessage(err, 'No item with this HUID')),
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const huid = normalizeHuid(value);
+    if (!isValidHuid(huid)) {
+      setError('HUID must be 6 letters or digits');
+      return;
+    }
+    lookupMutation.mutate(huid);
+  };
+
+  return (
+    <Tooltip title={error ?? ''} open={!!error} arrow>
+      <Box
+        component="form"
+        onSubmit={handleSubmit}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          backgroundColor: 'rgba(255, 255, 255, 0.15)',
+          border: error ? '1px solid #ffcdd2' : '1px solid transparent',
+          borderRadius: 1,
+          px: 1,
+          mr: { xs: 1, sm: 2 },
+          '&:hover': { backgroundColor: 'rgba(255, 255, 255, 0.25)' },
+        }}
+      >
+        <Search sx={{ color: '#ffffff', fontSize: 20, mr: 0.5 }} />
+        <InputBase
+          placeholder="Search HUID"
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value.toUpperCase());
+            setError(null);
+          }}
+          onBlur={() => setError(null)}
+          inputProps={{ maxLength: 6, 'aria-label': 'search by HUID' }}
+          sx={{ color: '#ffffff', width: { xs: 90, sm: 130 }, fontFamily: 'monospace', fontSize: '0.9rem' }}
+        />
+      </Box>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,40 @@
+import { Box, CircularProgress } from '@mui/material';
+import { Navigate } from 'react-router-dom';
+import { useOrgConfig } from '../hooks/useOrgConfig';
+import type { OrgConfig } from '../api/orgConfig';
+import { ProtectedRoute } from './ProtectedRoute';
+
+interface ModuleProtectedRouteProps {
+  module: keyof OrgConfig['modules'];
+  children: React.ReactNode;
+}
+
+/**
+ * Protected route that only renders when the organization has the module enabled
+ * Users of organizations without the module are redirected to /dashboard
+ */
+export function ModuleProtectedRoute({ module, children }: ModuleProtectedRouteProps) {
+  const { config, loading } = useOrgConfig();
+
+  if (loading) {
+    return (
+      <Box
+        sx={{
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          minHeight: '100vh',
+          backgroundColor: '#ffffff',
+        }}
+      >
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (config && !config.modules[module]?.enabled) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return <ProtectedRoute>{children}</ProtectedRoute>;
+}
@@ -0,0 +1,93 @@
+import { useMemo } from 'react';
+import {
+  Box,
+  CircularProgress,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { usePricingOptions } from '../hooks/usePricingOptions';
+import { calculatePrice, type PriceInput, type PricingOptions } from '../utils/pricing';
+import { formatAmount } from '../utils/format';
+
+interface PriceBreakupProps {
+  input: PriceInput;
+  title?: string;
+  /** Options to use instead of the organization config, e.g. for previews */
+  options?: PricingOptions;
+}
+
+/**
+ * Line-by-line price breakup of a jewellery item, priced with the
+ * organization's pricing rules, tax mode and decimal precision.
+ */
+export function PriceBreakup({ input, title = 'Price Breakup', options }: PriceBreakupProps) {
+  const { options: orgOptions, loading } = usePricingOptions();
+  const pricingOptions = options ?? orgOptions;
+
+  const breakup = useMemo(
+    () => (pricingOptions ? calculatePrice(input, pricingOptions) : undefined),
+    [input, pricingOptions]
+  );
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{
+        p: 2,
+        border: '1px solid #e0e0e0',
+        borderRadius: 2,
+      }}
+    >
+      <Typography
+        variant="subtitle1"
+        sx={{ color: '#0d0421', fontWeight: 600, mb: 1, borderBottom: '2px solid #5e3b63', pb: 0.5 }}
+      >
+        {title}
+      </Typography>
+      {!breakup ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+          {loading ? (
+            <CircularProgress size={24} sx={{ color: '#5e3b63' }} />
+          ) : (
+            <Typography variant="body2">Pricing configuration unavailable.</Typography>
+          )}
+        </Box>
+      ) : (
+        <Table size="small">
+          <TableBody>
+            {breakup.lines.map((line) => {
+              const emphasised = line.key === 'total' || line.key === 'taxable';
+              return (
+                <TableRow key={line.key} sx={line.key === 'total' ? { backgroundColor: '#f5f0f6' } : undefined}>
+                  <TableCell sx={{ color: '#000000', fontWeight: emphasised ? 600 : 400, borderBottom: 'none' }}>
+                    {line.label}
+                    {line.detail && (
+                      <Typography component="span" variant="caption" sx={{ color: '#666666', ml: 1 }}>
+                        {line.detail}
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{
+                      color: line.key === 'total' ? '#5e3b63' : '#000000',
+                      fontWeight: emphasised ? 600 : 400,
+                      borderBottom: 'none',
+                      whiteSpace: 'nowrap',
+                    }}
+                  >
+                    {formatAmount(line.amount, pricingOptions?.decimalPrecision)}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+}
@@ -0,0 +1,119 @@
+import { Box, Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material';
+import type { WithholdingCharge } from '../../api/config';
+import type { PurchaseLine, PurchaseTotals } from '../../api/purchases';
+import { formatAmount, formatWeight } from '../../utils/format';
+
+const headCellSx = { fontWeight: 600, whiteSpace: 'nowrap' };
+
+interface PurchaseLinesTableProps {
+  lines: PurchaseLine[];
+  totals: PurchaseTotals;
+  /** TDS held back on a bill, shown with what is left to pay the supplier */
+  tds?: WithholdingCharge | null;
+}
+
+function TotalRow({ label, value, bold }: { label: string; value: string; bold?: boolean }) {
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 4 }}>
+      <Typography sx={{ color: '#000000', fontWeight: bold ? 700 : 400 }}>{label}</Typography>
+      <Typography sx={{ color: '#000000', fontWeight: bold ? 700 : 400 }}>{value}</Typography>
+    </Box>
+  );
+}
+
+/**
+ * Read-only lines and totals of a purchase order or bill
+ */
+export function PurchaseLinesTable({ lines, totals, tds }: PurchaseLinesTableProps) {
+  return (
+    <>
+      <Box sx={{ overflowX: 'auto' }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={headCellSx}>Description</TableCell>
+              <TableCell sx={headCellSx}>Metal</TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Pcs
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Gross
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Net
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Touch
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Fine
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Metal
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Labour
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Stones
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Total
+              </TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {lines.map((line, index) => (
+              <TableRow key={line.id ?? index}>
+                <TableCell>{line.description}</TableCell>
+                <TableCell sx={{ textTransform: 'capitalize', whiteSpace: 'nowrap' }}>
+                  {line.metal}
+                  {line.purity ? ` ${line.purity}` : ''}
+                </TableCell>
+                <TableCell align="right">{line.pieces}</TableCell>
+                <TableCell align="right">{formatWeight(line.grossWeight)}</TableCell>
+                <TableCell align="right">{formatWeight(line.netWeight)}</TableCell>
+                <TableCell align="right">{line.touchPercent}%</TableCell>
+                <TableCell align="right">{formatWeight(line.fineWeight)}</TableCell>
+                <TableCell align="right">{formatAmount(line.metalAmount)}</TableCell>
+                <TableCell align="right">{formatAmount(line.labourAmount)}</TableCell>
+                <TableCell align="right">{formatAmount(line.stoneAmount)}</TableCell>
+                <TableCell align="right">{formatAmount(line.total)}</TableCell>
+              </TableRow>
+            ))}
+            <TableRow>
+              <TableCell colSpan={3} sx={{ fontWeight: 600 }}>
+                Total
+              </TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>
+                {formatWeight(totals.totalGrossWeight)}
+              </TableCell>
+              <TableCell align="right" sx={{ fontWeight: 600 }}>
+                {formatWeight(totals.totalNetWeight)}
+              </TableCell>
+              <TableCell />
+              <TableCell align="right" sx={{ fontWeight: 600 }}>
+                {formatWeight(totals.totalFineWeight)}
+              </TableCell>
+              <TableCell colSpan={4} />
+            </TableRow>
+          </TableBody>
+        </Table>
+      </Box>
+      <Box sx={{ ml: 'auto', mt: 2, maxWidth: 360 }}>
+        <TotalRow label="Metal" value={formatAmount(totals.metalAmount)} />
+        <TotalRow label="Labour" value={formatAmount(totals.labourAmount)} />
+        <TotalRow label="Stones" value={formatAmount(totals.stoneAmount)} />
+        <TotalRow label="Subtotal" value={formatAmount(totals.subtotal)} />
+        <TotalRow label="Tax" value={formatAmount(totals.taxAmount)} />
+        <TotalRow label="Total" value={formatAmount(totals.total)} bold />
+        {tds && (
+          <>
+            <TotalRow label={`Less: TDS ${tds.section} @ ${tds.ratePercent}%`} value={formatAmount(-tds.amount)} />
+            <TotalRow label="Payable to Supplier" value={formatAmount(totals.total - tds.amount)} bold />
+          </>
+        )}
+      </Box>
+    </>
+  );
+}
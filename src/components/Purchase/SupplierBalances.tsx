@@ -0,0 +1,66 @@
+import { Box, Typography } from '@mui/material';
+import { METALS, type Metal } from '../../api/metalRates';
+import type { Supplier } from '../../api/suppliers';
+import { formatAmount, formatWeight } from '../../utils/format';
+
+interface SupplierBalancesProps {
+  supplier: Supplier;
+  decimals: number;
+  /** What the bill being entered will add, to show the balance after it */
+  postings?: { amount: number; fineWeights: Partial<Record<Metal, number>> };
+}
+
+/**
+ * A supplier's money and fine-metal balances. Gold and silver are always
+ * shown; other metals only once there is something on the account.
+ */
+export function SupplierBalances({ supplier, decimals, postings }: SupplierBalancesProps) {
+  const metals = METALS.filter(
+    (metal) =>
+      metal.value === 'gold' ||
+      metal.value === 'silver' ||
+      supplier.fineBalances[metal.value] !== 0 ||
+      !!postings?.fineWeights[metal.value]
+  );
+
+  const balanceColor = (value: number) => (value > 0 ? '#d32f2f' : value < 0 ? '#2e7d32' : '#000000');
+
+  const balanceRow = (
+    label: string,
+    current: number,
+    added: number | undefined,
+    format: (value: number) => string
+  ) => (
+    <Box key={label} sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, py: 0.25 }}>
+      <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600 }}>
+        {label}
+      </Typography>
+      <Typography variant="body2" sx={{ color: balanceColor(current), fontWeight: 600 }}>
+        {format(current)}
+        {!!added && (
+          <Typography component="span" variant="body2" sx={{ color: '#666666', fontWeight: 400 }}>
+            {' '}
+            → {format(current + added)} after this bill
+          </Typography>
+        )}
+      </Typography>
+    </Box>
+  );
+
+  return (
+    <Box sx={{ border: '1px solid #e0e0e0', borderRadius: 1, px: 1.5, py: 1 }}>
+      <Typography variant="caption" sx={{ color: '#666666' }}>
+        Owed to supplier (negative when they owe us)
+      </Typography>
+      {balanceRow('Money', supplier.balance, postings?.amount, (value) => formatAmount(value, decimals))}
+      {metals.map((metal) =>
+        balanceRow(
+          `Fine ${metal.label}`,
+          supplier.fineBalances[metal.value],
+          postings?.fineWeights[metal.value],
+          formatWeight
+        )
+      )}
+    </Box>
+  );
+}
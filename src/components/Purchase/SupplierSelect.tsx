@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+} from '@mui/material';
+import { PersonAdd } from '@mui/icons-material';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { createSupplier, searchSuppliers, type Supplier } from '../../api/suppliers';
+
+interface SupplierSelectProps {
+  value: Supplier | null;
+  onChange: (supplier: Supplier | null) => void;
+  error?: string;
+}
+
+/**
+ * Supplier search with a quick-add dialog for suppliers not yet on file
+ */
+export function SupplierSelect({ value, onChange, error }: SupplierSelectProps) {
+  const [search, setSearch] = useState('');
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [newSupplier, setNewSupplier] = useState({ name: '', phone: '', gstin: '' });
+
+  const { data: options = [], isFetching } = useQuery({
+    queryKey: ['suppliers', 'search', search],
+    queryFn: () => searchSuppliers(search),
+    enabled: search.trim().length >= 2,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createSupplier,
+    onSuccess: (created) => {
+      onChange(created);
+      setDialogOpen(false);
+      setNewSupplier({ name: '', phone: '', gstin: '' });
+    },
+  });
+
+  return (
+    <>
+      <Box sx={{ display: 'flex', gap: 1 }}>
+        <Autocomplete
+          fullWidth
+          size="small"
+          options={options}
+          loading={isFetching}
+          value={value}
+          onChange={(_event, supplier) => onChange(supplier)}
+          onInputChange={(_event, input) => setSearch(input)}
+          filterOptions={(list) => list}
+          isOptionEqualToValue={(option, selected) => option.id === selected.id}
+          getOptionLabel={(option) =>
+            `${option.name}${option.phone ? ` · ${option.phone}` : ''} (${option.supplierNumber})`
+          }
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label="Supplier"
+              placeholder="Search by name, phone or supplier no."
+              error={!!error}
+              helperText={error}
+            />
+          )}
+        />
+        <Button
+          variant="outlined"
+          startIcon={<PersonAdd />}
+          onClick={() => setDialogOpen(true)}
+          sx={{ borderColor: '#5e3b63', color: '#5e3b63', whiteSpace: 'nowrap', alignSelf: 'flex-start' }}
+        >
+          New
+        </Button>
+      </Box>
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>New Supplier</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Name"
+            margin="dense"
+            value={newSupplier.name}
+            onChange={(e) => setNewSupplier({ ...newSupplier, name: e.target.value })}
+          />
+          <TextField
+            fullWidth
+            label="Phone"
+            margin="dense"
+            value={newSupplier.phone}
+            onChange={(e) => setNewSupplier({ ...newSupplier, phone: e.target.value })}
+          />
+          <TextField
+            fullWidth
+            label="GSTIN"
+            margin="dense"
+            value={newSupplier.gstin}
+            onChange={(e) => setNewSupplier({ ...newSupplier, gstin: e.target.value.toUpperCase() })}
+          />
+          {createMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(createMutation.error, 'Failed to create supplier')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button onClick={() => setDialogOpen(false)} sx={{ color: '#5e3b63' }}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            disabled={!newSupplier.name.trim() || createMutation.isPending}
+            onClick={() =>
+              createMutation.mutate({
+                name: newSupplier.name.trim(),
+                phone: newSupplier.phone.trim() || undefined,
+                gstin: newSupplier.gstin.trim() || undefined,
+              })
+            }
+            sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Save
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useRef, useState } from 'react';
+import { Alert, Box, Button, Dialog, DialogActions, DialogContent, DialogTitle, Typography } from '@mui/material';
+
+/** The parts of the browser Shape Detection API the scanner uses */
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 300;
+/** A tag held in front of the camera is only reported once in this window */
+const REPEAT_DELAY_MS = 2000;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+interface CameraScannerProps {
+  open: boolean;
+  onClose: () => void;
+  onDetected: (code: string) => void;
+}
+
+/**
+ * Scans tag barcodes and QR codes with the device camera. Stays open for
+ * continuous scanning; each code read is passed to onDetected, the same as
+ * a keyboard-wedge scanner submitting the tag field.
+ */
+export function CameraScanner({ open, onClose, onDetected }: CameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  const [error, setError] = useState<string | null>(null);
+  const [lastCode, setLastCode] = useState<string | null>(null);
+  const Detector = getBarcodeDetector();
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+
+  useEffect(() => {
+    if (!open || !Detector) return;
+
+    const detector = new Detector({ formats: ['code_128', 'qr_code'] });
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+    let previous = { code: '', at: 0 };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = mediaStream;
+        video.play();
+
+        timer = window.setInterval(async () => {
+          if (video.readyState < video.HAVE_CURRENT_DATA) return;
+          const codes = await detector.detect(video).catch(() => []);
+          const code = codes[0]?.rawValue.trim();
+          if (!code) return;
+
+          const now = Date.now();
+          if (code === previous.code && now - previous.at < REPEAT_DELAY_MS) return;
+          previous = { code, at: now };
+          setLastCode(code);
+          onDetectedRef.current(code);
+        }, SCAN_INTERVAL_MS);
+      })
+      .catch((err: unknown) => {
+        setError(err instanceof Error ? err.message : 'Could not open the camera');
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      setError(null);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open, Detector]);
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Camera Scan</DialogTitle>
+      <DialogContent>
+        {!Detector ? (
+          <Alert severity="warning">
+            This browser cannot read barcodes from the camera. Use a handheld scanner or type the tag number.
+          </Alert>
+        ) : error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : (
+          <>
+            <Box
+              component="video"
+              ref={videoRef}
+              muted
+              playsInline
+              sx={{ width: '100%', borderRadius: 1, backgroundColor: '#000000' }}
+            />
+            <Typography variant="body2" sx={{ color: '#666666', mt: 1 }}>
+              {lastCode ? `Last read: ${lastCode}` : 'Point the camera at a tag.'}
+            </Typography>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Done
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+import JsBarcode from 'jsbarcode';
+import { create as createQrCode } from 'qrcode';
+import type { TagCodeType } from '../../api/tagTemplates';
+
+interface TagCodeProps {
+  value: string;
+  type: TagCodeType;
+  /** Area available to the code in mm; a QR code takes the largest square that fits */
+  widthMm: number;
+  heightMm: number;
+}
+
+/**
+ * Bars of a Code 128 barcode as a string of 1s and 0s, one character per module
+ */
+function encodeCode128(value: string): string {
+  const target: { encodings?: { data: string }[] } = {};
+  JsBarcode(target, value, { format: 'CODE128' });
+  return (target.encodings ?? []).map((encoding) => encoding.data).join('');
+}
+
+/**
+ * Code 128 barcode or QR code drawn as SVG so it stays sharp at any print size
+ */
+export function TagCode({ value, type, widthMm, heightMm }: TagCodeProps) {
+  if (type === 'qr') {
+    const { modules } = createQrCode(value, { errorCorrectionLevel: 'M' });
+    const cells: string[] = [];
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) cells.push(`M${col} ${row}h1v1h-1z`);
+      }
+    }
+    const sizeMm = Math.min(widthMm, heightMm);
+    return (
+      <svg
+        viewBox={`0 0 ${modules.size} ${modules.size}`}
+        width={`${sizeMm}mm`}
+        height={`${sizeMm}mm`}
+        shapeRendering="crispEdges"
+      >
+        <path d={cells.join('')} fill="#000000" />
+      </svg>
+    );
+  }
+
+  const bars = encodeCode128(value);
+  return (
+    <svg
+      viewBox={`0 0 ${bars.length} 1`}
+      width={`${widthMm}mm`}
+      height={`${heightMm}mm`}
+      preserveAspectRatio="none"
+      shapeRendering="crispEdges"
+    >
+      {bars.split('').map((bar, index) =>
+        bar === '1' ? <rect key={index} x={index} y={0} width={1} height={1} fill="#000000" /> : null
+      )}
+    </svg>
+  );
+}
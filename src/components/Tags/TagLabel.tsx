@@ -0,0 +1,99 @@
+import { Box, Typography } from '@mui/material';
+import type { Item } from '../../api/items';
+import type { TagTemplate } from '../../api/tagTemplates';
+import { TagCode } from './TagCode';
+import { formatTagField, getTagStock } from './tagTemplates';
+
+interface TagLabelProps {
+  item: Item;
+  template: TagTemplate;
+}
+
+/** Padding inside the label, in mm */
+const PADDING_MM = 1;
+/** Share of a barbell tag's width taken by each printable flap */
+const BARBELL_FLAP_RATIO = 0.32;
+
+/**
+ * One jewellery tag drawn at its physical size in mm. The code always
+ * encodes the tag number so counters can scan it back to the item.
+ */
+export function TagLabel({ item, template }: TagLabelProps) {
+  const stock = getTagStock(template.stock);
+  const lines = template.fields
+    .map((field) => ({ field, text: formatTagField(item, field) }))
+    .filter((line): line is { field: typeof line.field; text: string } => !!line.text);
+
+  const text = (
+    <Box sx={{ overflow: 'hidden', minWidth: 0 }}>
+      {lines.map((line) => (
+        <Typography
+          key={line.field}
+          sx={{
+            fontSize: `${template.fontSize}pt`,
+            lineHeight: 1.15,
+            fontWeight: line.field === 'tagNumber' ? 700 : 400,
+            color: '#000000',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {line.text}
+        </Typography>
+      ))}
+    </Box>
+  );
+
+  const innerHeight = stock.heightMm - PADDING_MM * 2;
+  let content;
+  if (stock.barbell) {
+    const flapMm = stock.widthMm * BARBELL_FLAP_RATIO;
+    content = (
+      <>
+        <Box sx={{ width: `${flapMm}mm`, display: 'flex', alignItems: 'center' }}>{text}</Box>
+        <Box sx={{ flex: 1 }} />
+        <Box sx={{ width: `${flapMm}mm`, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+          <TagCode value={item.tagNumber} type={template.codeType} widthMm={flapMm} heightMm={innerHeight} />
+        </Box>
+      </>
+    );
+  } else if (template.codeType === 'qr') {
+    content = (
+      <>
+        <TagCode value={item.tagNumber} type="qr" widthMm={innerHeight} heightMm={innerHeight} />
+        <Box sx={{ pl: '1.5mm', display: 'flex', alignItems: 'center', minWidth: 0 }}>{text}</Box>
+      </>
+    );
+  } else {
+    const barcodeHeight = innerHeight * 0.35;
+    content = (
+      <Box sx={{ display: 'flex', flexDirection: 'column', justifyContent: 'space-between', width: '100%' }}>
+        {text}
+        <TagCode
+          value={item.tagNumber}
+          type="code128"
+          widthMm={stock.widthMm - PADDING_MM * 2}
+          heightMm={barcodeHeight}
+        />
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      className="tag-label"
+      sx={{
+        width: `${stock.widthMm}mm`,
+        height: `${stock.heightMm}mm`,
+        p: `${PADDING_MM}mm`,
+        boxSizing: 'border-box',
+        display: 'flex',
+        overflow: 'hidden',
+        backgroundColor: '#ffffff',
+        outline: '1px dashed #bdbdbd',
+        '@media print': { outline: 'none' },
+      }}
+    >
+      {content}
+    </Box>
+  );
+}
@@ -0,0 +1,146 @@
+import type { Item } from '../../api/items';
+import type { TagCodeType, TagField, TagTemplate } from '../../api/tagTemplates';
+import { formatWeight } from '../../utils/format';
+
+export interface TagStock {
+  id: string;
+  label: string;
+  widthMm: number;
+  heightMm: number;
+  /**
+   * Barbell (rat-tail) tags fold around the piece: text goes on the left
+   * flap, the code on the right flap and the tail between them stays blank
+   */
+  barbell: boolean;
+}
+
+/**
+ * Common jewellery tag stock sizes
+ */
+export const TAG_STOCKS: TagStock[] = [
+  { id: 'barbell-95x12', label: 'Barbell tag 95 × 12 mm', widthMm: 95, heightMm: 12, barbell: true },
+  { id: 'barbell-100x15', label: 'Barbell tag 100 × 15 mm', widthMm: 100, heightMm: 15, barbell: true },
+  { id: 'label-50x25', label: 'Label 50 × 25 mm', widthMm: 50, heightMm: 25, barbell: false },
+  { id: 'label-38x25', label: 'Label 38 × 25 mm', widthMm: 38, heightMm: 25, barbell: false },
+];
+
+export const TAG_CODE_TYPES: { value: TagCodeType; label: string }[] = [
+  { value: 'code128', label: 'Code 128 barcode' },
+  { value: 'qr', label: 'QR code' },
+];
+
+export const TAG_FIELDS: { value: TagField; label: string }[] = [
+  { value: 'tagNumber', label: 'Tag Number' },
+  { value: 'name', label: 'Item Name' },
+  { value: 'grossWeight', label: 'Gross Weight' },
+  { value: 'netWeight', label: 'Net Weight' },
+  { value: 'purity', label: 'Purity' },
+  { value: 'stoneWeight', label: 'Stone Weight' },
+  { value: 'huid', label: 'HUID' },
+];
+
+/**
+ * Templates that ship with the app
+ */
+export const BUILT_IN_TAG_TEMPLATES: TagTemplate[] = [
+  {
+    id: 'barbell-code128',
+    name: 'Barbell – Barcode',
+    stock: 'barbell-95x12',
+    codeType: 'code128',
+    fields: ['tagNumber', 'grossWeight', 'netWeight', 'purity'],
+    fontSize: 5,
+    builtIn: true,
+  },
+  {
+    id: 'barbell-qr',
+    name: 'Barbell – QR',
+    stock: 'barbell-100x15',
+    codeType: 'qr',
+    fields: ['tagNumber', 'grossWeight', 'netWeight', 'purity', 'stoneWeight', 'huid'],
+    fontSize: 5,
+    builtIn: true,
+  },
+  {
+    id: 'label-50x25-code128',
+    name: 'Label 50×25 – Barcode',
+    stock: 'label-50x25',
+    codeType: 'code128',
+    fields: ['tagNumber', 'name', 'grossWeight', 'netWeight', 'purity', 'stoneWeight', 'huid'],
+    fontSize: 6,
+    builtIn: true,
+  },
+];
+
+/**
+ * Look up the stock a template prints on, falling back to the first stock
+ * @param stockId - Stock ID from the template
+ * @returns Tag stock
+ */
+export function getTagStock(stockId: string): TagStock {
+  return TAG_STOCKS.find((stock) => stock.id === stockId) ?? TAG_STOCKS[0];
+}
+
+/**
+ * Built-in templates the organization may use. OrgConfig.documents.barcodeTemplates
+ * narrows the list; an empty list allows all of them.
+ * @param enabledTemplates - Template IDs from OrgConfig.documents.barcodeTemplates
+ * @returns Available built-in templates
+ */
+export function getAvailableBuiltInTagTemplates(enabledTemplates: string[] = []): TagTemplate[] {
+  const available = BUILT_IN_TAG_TEMPLATES.filter((template) => enabledTemplates.includes(template.id));
+  return available.length > 0 ? available : BUILT_IN_TAG_TEMPLATES;
+}
+
+/**
+ * Text printed for one tag field, or null when the item has no value for it
+ * @param item - Item being tagged
+ * @param field - Field to print
+ * @returns Field text with a short label
+ */
+export function formatTagField(item: Item, field: TagField): string | null {
+  switch (field) {
+    case 'tagNumber':
+      return item.tagNumber;
+    case 'name':
+      return item.name;
+    case 'grossWeight':
+      return `G ${formatWeight(item.grossWeight)}`;
+    case 'netWeight':
+      return `N ${formatWeight(item.netWeight)}`;
+    case 'purity':
+      return item.purity;
+    case 'stoneWeight': {
+      const carats = item.stones.reduce((total, stone) => total + stone.weightCarat, 0);
+      return carats > 0 ? `St ${carats.toFixed(2)} ct` : null;
+    }
+    case 'huid':
+      return item.huid ? `HUID ${item.huid}` : null;
+  }
+}
+
+/**
+ * Item used by the template editor preview
+ */
+export const SAMPLE_TAG_ITEM: Item = {
+  id: 'sample',
+  organizationId: 'sample',
+  tagNumber: 'GR-22-0001',
+  name: 'Gold Ring',
+  category: 'ring',
+  metal: 'gold',
+  purity: '22K',
+  grossWeight: 5.25,
+  netWeight: 5.1,
+  wastagePercent: 2,
+  makingChargeType: 'per_gram',
+  makingCharge: 400,
+  huid: 'AB12CD',
+  hallmarkCentre: null,
+  certificateLab: null,
+  certificateNumber: null,
+  stones: [{ stoneType: 'diamond', shape: 'round', pieces: 5, weightCarat: 0.25, ratePerCarat: 6000, amount: 1500 }],
+  description: null,
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString(),
+};
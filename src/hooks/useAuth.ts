@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { authApi } from '../api/auth';
@@ -13,14 +14,16 @@ export const useAuth = () => {
     queryFn: authApi.getMe,
     enabled: !!localStorage.getItem('token'),
     retry: false,
-    onError: () => {
-      // If API call fails, token is invalid - clear it
-      localStorage.removeItem('token');
-      localStorage.removeItem('user');
-      navigate('/login');
-    },
   });
 
+  useEffect(() => {
+    if (!error) return;
+    // If API call fails, token is invalid - clear it
+    localStorage.removeItem('token');
+    localStorage.removeItem('user');
+    navigate('/login');
+  }, [error, navigate]);
+
   // Login mutation
   const loginMutation = useMutation({
     mutationFn: (credentials: LoginCredentials) => authApi.login(credentials),
@@ -53,3 +56,10 @@ export const useAuth = () => {
   };
 };
 
+/**
+ * Whether the signed-in user may manage organization data (admin or ORG_ADMIN role)
+ */
+export const useIsOrgAdmin = () => {
+  const { user } = useAuth();
+  return user?.role === 'admin' || user?.role === 'ORG_ADMIN';
+};
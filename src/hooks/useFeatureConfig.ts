@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getFeatureConfig, type FeatureConfig, type FeatureKey } from '../api/config';
+
+/**
+ * React hook for the organization's feature toggles
+ *
+ * Shares the query key with the Features config page so a saved toggle
+ * shows or hides the feature straight away.
+ *
+ * @returns Object with the feature config, an isFeatureEnabled helper, loading and error states
+ */
+export function useFeatureConfig() {
+  const { data: features, isLoading, error } = useQuery<FeatureConfig>({
+    queryKey: ['config', 'feature'],
+    queryFn: getFeatureConfig,
+    enabled: !!localStorage.getItem('token'), // Only fetch if authenticated
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const isFeatureEnabled = useCallback((feature: FeatureKey) => !!features?.[feature], [features]);
+
+  return {
+    features,
+    isFeatureEnabled,
+    loading: isLoading,
+    error: error as Error | null,
+  };
+}
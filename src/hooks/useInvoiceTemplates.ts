@@ -0,0 +1,56 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  getGeneralConfig,
+  getInvoiceConfig,
+  getTaxConfig,
+  type GeneralConfig,
+  type InvoiceConfig,
+  type TaxConfig,
+} from '../api/config';
+import {
+  getAvailableTemplates,
+  resolveInvoiceTemplate,
+  type InvoiceDocumentType,
+} from '../components/Invoice/templates';
+import { useOrgConfig } from './useOrgConfig';
+
+/**
+ * React hook loading everything an invoice template needs to render
+ *
+ * Fetches the Invoice, General and Tax config under the config pages' query
+ * keys and narrows the built-in templates to those enabled in
+ * OrgConfig.documents.invoiceTemplates.
+ *
+ * @returns Configs, available templates, a resolver for the default template per document type and loading state
+ */
+export function useInvoiceTemplates() {
+  const { config, loading: configLoading } = useOrgConfig();
+
+  const invoiceQuery = useQuery<InvoiceConfig>({
+    queryKey: ['config', 'invoice'],
+    queryFn: getInvoiceConfig,
+  });
+
+  const generalQuery = useQuery<GeneralConfig>({
+    queryKey: ['config', 'general'],
+    queryFn: getGeneralConfig,
+  });
+
+  const taxQuery = useQuery<TaxConfig>({
+    queryKey: ['config', 'tax'],
+    queryFn: getTaxConfig,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const available = getAvailableTemplates(config?.documents.invoiceTemplates);
+
+  return {
+    invoiceConfig: invoiceQuery.data,
+    generalConfig: generalQuery.data,
+    taxConfig: taxQuery.data,
+    available,
+    getDefaultTemplate: (documentType: InvoiceDocumentType) =>
+      resolveInvoiceTemplate(invoiceQuery.data, documentType, available),
+    loading: configLoading || invoiceQuery.isLoading || generalQuery.isLoading || taxQuery.isLoading,
+  };
+}
@@ -0,0 +1,39 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchCurrentMetalRates } from '../api/metalRates';
+import type { Metal, MetalRate } from '../api/metalRates';
+import { useOrgConfig } from './useOrgConfig';
+
+/**
+ * React hook exposing the metal rates currently in effect
+ *
+ * Shares one cached query across every pricing screen. Rates are entered
+ * per gram and follow the organization's pricing tax mode, which is
+ * returned alongside so callers know whether a rate already includes tax.
+ *
+ * @returns Object with rates, a rate lookup, tax mode, loading and error states
+ */
+export function useMetalRates() {
+  const { config } = useOrgConfig();
+  const { data: rates, isLoading, error } = useQuery<MetalRate[]>({
+    queryKey: ['metalRates', 'current'],
+    queryFn: fetchCurrentMetalRates,
+    enabled: !!localStorage.getItem('token'), // Only fetch if authenticated
+    staleTime: 60 * 1000, // Rates can change during the day
+    refetchOnWindowFocus: false,
+  });
+
+  const getRate = useCallback(
+    (metal: Metal, purity: string): MetalRate | undefined =>
+      rates?.find((rate) => rate.metal === metal && rate.purity === purity),
+    [rates]
+  );
+
+  return {
+    rates: rates ?? [],
+    getRate,
+    taxMode: config?.pricing.taxMode ?? 'exclude',
+    loading: isLoading,
+    error: error as Error | null,
+  };
+}
@@ -19,7 +19,7 @@ export function useOrgConfig() {
     queryFn: fetchOrgConfig,
     enabled: !!localStorage.getItem('token'), // Only fetch if authenticated
     staleTime: 5 * 60 * 1000, // 5 minutes (matches backend cache TTL)
-    cacheTime: 10 * 60 * 1000, // Keep in cache for 10 minutes
+    gcTime: 10 * 60 * 1000, // Keep in cache for 10 minutes
     refetchOnWindowFocus: false, // Don't refetch on tab focus
     refetchOnReconnect: false, // Don't refetch on reconnect
     retry: 2, // Retry failed requests twice
@@ -0,0 +1,50 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getFinanceConfig, getTaxConfig, type FinanceConfig, type TaxConfig } from '../api/config';
+import { resolveGstRates } from '../utils/gst';
+import { DEFAULT_DECIMAL_PRECISION, type PricingOptions } from '../utils/pricing';
+import { useOrgConfig } from './useOrgConfig';
+
+/**
+ * React hook assembling the pricing engine options from organization config
+ *
+ * Combines the OrgConfig pricing block, the Tax config GST rates and the Finance
+ * config decimal precision. Reuses the same query keys as the config pages so
+ * a saved change is picked up everywhere.
+ *
+ * @returns Object with pricing options (undefined until loaded), loading and error states
+ */
+export function usePricingOptions() {
+  const { config, loading: configLoading, error: configError } = useOrgConfig();
+
+  const taxQuery = useQuery<TaxConfig>({
+    queryKey: ['config', 'tax'],
+    queryFn: getTaxConfig,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const financeQuery = useQuery<FinanceConfig>({
+    queryKey: ['config', 'finance'],
+    queryFn: getFinanceConfig,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const options = useMemo<PricingOptions | undefined>(() => {
+    if (!config) return undefined;
+    const finance = financeQuery.data;
+    return {
+      pricing: config.pricing,
+      ...resolveGstRates(taxQuery.data),
+      decimalPrecision:
+        finance?.decimalPrecision !== undefined && finance?.decimalPrecision !== null
+          ? Number(finance.decimalPrecision)
+          : DEFAULT_DECIMAL_PRECISION,
+    };
+  }, [config, taxQuery.data, financeQuery.data]);
+
+  return {
+    options,
+    loading: configLoading || taxQuery.isLoading || financeQuery.isLoading,
+    error: (configError || taxQuery.error || financeQuery.error) as Error | null,
+  };
+}
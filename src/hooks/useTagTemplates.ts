@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchTagTemplates, type TagTemplate } from '../api/tagTemplates';
+import { getAvailableBuiltInTagTemplates } from '../components/Tags/tagTemplates';
+import { useOrgConfig } from './useOrgConfig';
+
+/**
+ * React hook listing the tag templates an organization can print with
+ *
+ * Built-in templates enabled in OrgConfig.documents.barcodeTemplates come
+ * first, followed by the organization's custom templates.
+ *
+ * @returns Object with templates, custom templates only, loading and error states
+ */
+export function useTagTemplates() {
+  const { config, loading: configLoading } = useOrgConfig();
+
+  const { data: customTemplates = [], isLoading, error } = useQuery<TagTemplate[]>({
+    queryKey: ['tagTemplates'],
+    queryFn: fetchTagTemplates,
+  });
+
+  return {
+    templates: [...getAvailableBuiltInTagTemplates(config?.documents.barcodeTemplates), ...customTemplates],
+    customTemplates,
+    loading: configLoading || isLoading,
+    error: error as Error | null,
+  };
+}
@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  createAccountGroup,
+  updateAccountGroup,
+  type AccountGroup,
+  type CreateAccountGroupData,
+} from '../../api/accounting';
+import { formatGroupPath, getGroupAncestry } from '../../utils/accounting';
+
+interface AccountGroupDialogProps {
+  /** Sub-group to edit, or null to add a new one */
+  group: AccountGroup | null;
+  groups: AccountGroup[];
+  onClose: () => void;
+}
+
+export function AccountGroupDialog({ group, groups, onClose }: AccountGroupDialogProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    name: group?.name ?? '',
+    parentId: group?.parentId ?? '',
+    affectsGrossProfit: group?.affectsGrossProfit ?? false,
+  });
+
+  // A group cannot move under itself or one of its own sub-groups
+  const parents = groups.filter(
+    (candidate) => !group || !getGroupAncestry(candidate.id, groups).some((ancestor) => ancestor.id === group.id)
+  );
+  const parent = groups.find((candidate) => candidate.id === form.parentId);
+  const isNominal = parent?.nature === 'income' || parent?.nature === 'expenses';
+
+  const saveMutation = useMutation({
+    mutationFn: (data: CreateAccountGroupData) =>
+      group ? updateAccountGroup(group.id, data) : createAccountGroup(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounting'] });
+      onClose();
+    },
+  });
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>{group ? 'Edit Group' : 'New Group'}</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          fullWidth
+          label="Name"
+          margin="dense"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <TextField
+          select
+          fullWidth
+          label="Under"
+          margin="dense"
+          value={form.parentId}
+          onChange={(e) => {
+            const selected = groups.find((candidate) => candidate.id === e.target.value);
+            setForm({ ...form, parentId: e.target.value, affectsGrossProfit: !!selected?.affectsGrossProfit });
+          }}
+          helperText={parent && `Nature: ${parent.nature}`}
+        >
+          {parents.map((candidate) => (
+            <MenuItem key={candidate.id} value={candidate.id}>
+              {formatGroupPath(candidate, groups)}
+            </MenuItem>
+          ))}
+        </TextField>
+        {isNominal && (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={form.affectsGrossProfit}
+                onChange={(e) => setForm({ ...form, affectsGrossProfit: e.target.checked })}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': { color: '#5e3b63' },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#5e3b63' },
+                }}
+              />
+            }
+            label="Affects gross profit (shown in the trading account)"
+          />
+        )}
+        {saveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(saveMutation.error, 'Failed to save group')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!form.name.trim() || !form.parentId || saveMutation.isPending}
+          onClick={() =>
+            saveMutation.mutate({
+              name: form.name.trim(),
+              parentId: form.parentId,
+              affectsGrossProfit: isNominal && form.affectsGrossProfit,
+            })
+          }
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Alert,
+  Chip,
+  IconButton,
+  MenuItem,
+  Tabs,
+  Tab,
+  Tooltip,
+} from '@mui/material';
+import { Add, Edit, ReceiptLong, Search } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import {
+  ACCOUNT_NATURES,
+  fetchAccountGroups,
+  fetchLedgers,
+  type AccountGroup,
+  type Ledger,
+  type LedgerFilters,
+} from '../../api/accounting';
+import { formatBalance, formatGroupPath } from '../../utils/accounting';
+import { AccountGroupDialog } from './AccountGroupDialog';
+import { LedgerDialog } from './LedgerDialog';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+type AccountsTab = 'ledgers' | 'groups';
+
+/**
+ * Chart of accounts: ledgers with their opening and current balances, and
+ * the groups they roll up into on the financial statements
+ */
+export function ChartOfAccounts() {
+  const navigate = useNavigate();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [tab, setTab] = useState<AccountsTab>('ledgers');
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<LedgerFilters>({});
+  const [dialogLedger, setDialogLedger] = useState<Ledger | null | undefined>(undefined);
+  const [dialogGroup, setDialogGroup] = useState<AccountGroup | null | undefined>(undefined);
+
+  const groupsQuery = useQuery({
+    queryKey: ['accounting', 'groups'],
+    queryFn: fetchAccountGroups,
+  });
+  const groups = groupsQuery.data ?? [];
+  const sortedGroups = groups
+    .map((group) => ({ group, path: formatGroupPath(group, groups) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const ledgersQuery = useQuery({
+    queryKey: ['accounting', 'ledgers', filters],
+    queryFn: () => fetchLedgers(filters),
+  });
+  const ledgers = ledgersQuery.data ?? [];
+
+  const isLoading = groupsQuery.isLoading || ledgersQuery.isLoading;
+  const error = groupsQuery.error || ledgersQuery.error;
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            mb: 2,
+            gap: 2,
+          }}
+        >
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Chart of Accounts
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+            <Button
+              variant="outlined"
+              startIcon={<Add />}
+              onClick={() => setDialogGroup(null)}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              New Group
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={() => setDialogLedger(null)}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              New Ledger
+            </Button>
+          </Box>
+        </Box>
+
+        {tab === 'ledgers' && (
+          <Paper
+            elevation={0}
+            sx={{
+              p: 2.5,
+              mb: 2,
+              border: '1px solid rgba(94, 59, 99, 0.2)',
+              borderRadius: 2,
+              display: 'flex',
+              flexWrap: 'wrap',
+              gap: 2,
+            }}
+          >
+            <TextField
+              size="small"
+              label="Search"
+              placeholder="Ledger name..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') setFilters((prev) => ({ ...prev, search: search.trim() || undefined }));
+              }}
+              slotProps={{
+                input: {
+                  startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                },
+              }}
+              sx={{ minWidth: { xs: '100%', sm: 320 } }}
+            />
+            <TextField
+              select
+              size="small"
+              label="Group"
+              value={filters.groupId ?? ''}
+              onChange={(e) => setFilters((prev) => ({ ...prev, groupId: e.target.value || undefined }))}
+              sx={{ minWidth: { xs: '100%', sm: 280 } }}
+            >
+              <MenuItem value="">All Groups</MenuItem>
+              {sortedGroups.map(({ group, path }) => (
+                <MenuItem key={group.id} value={group.id}>
+                  {path}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Paper>
+        )}
+
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Tabs
+            value={tab}
+            onChange={(_event, value: AccountsTab) => setTab(value)}
+            sx={{
+              borderBottom: '1px solid #e0e0e0',
+              '& .MuiTab-root.Mui-selected': { color: '#5e3b63' },
+              '& .MuiTabs-indicator': { backgroundColor: '#5e3b63' },
+            }}
+          >
+            <Tab value="ledgers" label="Ledgers" />
+            <Tab value="groups" label="Groups" />
+          </Tabs>
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading the chart of accounts. Please try again.'}
+              </Alert>
+            </Box>
+          ) : tab === 'groups' ? (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table size="small" sx={{ minWidth: 650 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Group</TableCell>
+                    <TableCell sx={headCellSx}>Nature</TableCell>
+                    <TableCell sx={headCellSx}>Gross Profit</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Actions
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {sortedGroups.map(({ group, path }) => (
+                    <TableRow key={group.id} hover>
+                      <TableCell sx={{ ...bodyCellSx, fontWeight: group.parentId ? 400 : 600 }}>{path}</TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        {ACCOUNT_NATURES.find((nature) => nature.value === group.nature)?.label}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>{group.affectsGrossProfit ? 'Yes' : '-'}</TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {group.parentId && !group.systemKey ? (
+                          <IconButton size="small" onClick={() => setDialogGroup(group)} sx={{ color: '#5e3b63' }}>
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        ) : (
+                          <Chip label="System" size="small" variant="outlined" />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          ) : ledgers.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No ledgers found.</Typography>
+            </Box>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table sx={{ minWidth: 650 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Ledger</TableCell>
+                    <TableCell sx={headCellSx}>Group</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Opening Balance
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Balance
+                    </TableCell>
+                    <TableCell sx={headCellSx}>Status</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Actions
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {ledgers.map((ledger) => (
+                    <TableRow key={ledger.id} hover>
+                      <TableCell sx={bodyCellSx}>{ledger.name}</TableCell>
+                      <TableCell sx={bodyCellSx}>{ledger.groupName}</TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {formatBalance(ledger.openingBalance, decimals)}
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                        {formatBalance(ledger.balance, decimals)}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        <Chip
+                          label={ledger.isActive ? 'Active' : 'Inactive'}
+                          color={ledger.isActive ? 'success' : 'default'}
+                          size="small"
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, whiteSpace: 'nowrap' }} align="right">
+                        <Tooltip title="Vouchers">
+                          <IconButton
+                            size="small"
+                            onClick={() => navigate(`/accounting/vouchers?ledgerId=${ledger.id}`)}
+                            sx={{ color: '#5e3b63' }}
+                          >
+                            <ReceiptLong fontSize="small" />
+                          </IconButton>
+                        </Tooltip>
+                        <IconButton size="small" onClick={() => setDialogLedger(ledger)} sx={{ color: '#5e3b63' }}>
+                          <Edit fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+
+      {dialogLedger !== undefined && (
+        <LedgerDialog ledger={dialogLedger} groups={groups} onClose={() => setDialogLedger(undefined)} />
+      )}
+      {dialogGroup !== undefined && (
+        <AccountGroupDialog group={dialogGroup} groups={groups} onClose={() => setDialogGroup(undefined)} />
+      )}
+    </DashboardLayout>
+  );
+}
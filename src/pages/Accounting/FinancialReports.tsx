@@ -0,0 +1,481 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+  Tabs,
+  Tab,
+} from '@mui/material';
+import { Download } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { useOrgConfig } from '../../hooks/useOrgConfig';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { fetchAccountGroups, fetchLedgerBalances, fetchLedgers } from '../../api/accounting';
+import { fetchStockValuation } from '../../api/stock';
+import {
+  buildBalanceSheet,
+  buildProfitAndLoss,
+  buildTrialBalance,
+  formatBalance,
+  trialBalanceToCsv,
+  type StatementGroup,
+} from '../../utils/accounting';
+import { financialYearStart } from '../../utils/withholding';
+import { downloadFile } from '../../utils/export';
+import { formatAmount } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+type ReportTab = 'trial' | 'pl' | 'bs';
+
+interface StatementRow {
+  label: string;
+  amount: number;
+  ledgers?: StatementGroup['ledgers'];
+}
+
+const groupRows = (groups: StatementGroup[]): StatementRow[] =>
+  groups.map((group) => ({ label: group.name, amount: group.amount, ledgers: group.ledgers }));
+
+/**
+ * One side of a T-shaped statement: groups with their ledgers beneath
+ */
+function StatementColumn({
+  title,
+  rows,
+  total,
+  decimals,
+}: {
+  title: string;
+  rows: StatementRow[];
+  total: number;
+  decimals: number;
+}) {
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow sx={{ backgroundColor: '#0d0421' }}>
+          <TableCell sx={headCellSx}>{title}</TableCell>
+          <TableCell sx={headCellSx} align="right">
+            Amount
+          </TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {rows.map((row) => [
+          <TableRow key={row.label}>
+            <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }}>{row.label}</TableCell>
+            <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+              {formatAmount(row.amount, decimals)}
+            </TableCell>
+          </TableRow>,
+          ...(row.ledgers ?? []).map((ledger) => (
+            <TableRow key={`${row.label}-${ledger.ledgerId}`}>
+              <TableCell sx={{ ...bodyCellSx, pl: 4, color: '#666666' }}>{ledger.name}</TableCell>
+              <TableCell sx={{ ...bodyCellSx, color: '#666666' }} align="right">
+                {formatAmount(ledger.amount, decimals)}
+              </TableCell>
+            </TableRow>
+          )),
+        ])}
+        <TableRow sx={{ backgroundColor: 'rgba(94, 59, 99, 0.08)' }}>
+          <TableCell sx={{ ...bodyCellSx, fontWeight: 700 }}>Total</TableCell>
+          <TableCell sx={{ ...bodyCellSx, fontWeight: 700 }} align="right">
+            {formatAmount(total, decimals)}
+          </TableCell>
+        </TableRow>
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Trial balance, trading and profit and loss account and balance sheet for a
+ * period, built from the ledger balances. Closing stock is valued outside the
+ * books: it defaults to the stock module's valuation at the end of the period
+ * and can be overridden here.
+ */
+export function FinancialReports() {
+  const { config } = useOrgConfig();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [tab, setTab] = useState<ReportTab>('trial');
+  const [range, setRange] = useState({
+    startDate: financialYearStart(),
+    endDate: new Date().toISOString().slice(0, 10),
+  });
+  const [closingStockInput, setClosingStockInput] = useState('');
+  const stockEnabled = config?.modules.stock.enabled ?? false;
+
+  const groupsQuery = useQuery({
+    queryKey: ['accounting', 'groups'],
+    queryFn: fetchAccountGroups,
+  });
+  const ledgersQuery = useQuery({
+    queryKey: ['accounting', 'ledgers', {}],
+    queryFn: () => fetchLedgers(),
+  });
+  const balancesQuery = useQuery({
+    queryKey: ['accounting', 'balances', range],
+    queryFn: () => fetchLedgerBalances(range),
+    enabled: !!range.startDate && !!range.endDate,
+  });
+  const valuationQuery = useQuery({
+    queryKey: ['stock', 'valuation', range.endDate],
+    queryFn: () => fetchStockValuation(range.endDate),
+    enabled: stockEnabled && !!range.endDate,
+  });
+
+  const groups = groupsQuery.data ?? [];
+  const ledgers = ledgersQuery.data ?? [];
+  const balances = balancesQuery.data ?? [];
+  const isLoading = groupsQuery.isLoading || ledgersQuery.isLoading || balancesQuery.isLoading;
+  const error = groupsQuery.error || ledgersQuery.error || balancesQuery.error;
+
+  const valuation = valuationQuery.data;
+  const closingStock = closingStockInput.trim() ? parseFloat(closingStockInput) || 0 : (valuation?.value ?? 0);
+
+  const trialBalance = buildTrialBalance(ledgers, groups, balances, decimals);
+  const profitAndLoss = buildProfitAndLoss(ledgers, groups, balances, closingStock, decimals);
+  const balanceSheet = buildBalanceSheet(ledgers, groups, balances, closingStock, decimals);
+
+  const { grossProfit, netProfit, stockMovement } = profitAndLoss;
+  const sum = (rows: StatementRow[]) => rows.reduce((total, row) => total + row.amount, 0);
+
+  const tradingDebit: StatementRow[] = [
+    { label: 'Opening Stock', amount: profitAndLoss.openingStock },
+    ...(stockMovement > 0 ? [{ label: 'Stock Added by Vouchers', amount: stockMovement }] : []),
+    ...groupRows(profitAndLoss.tradingExpenses),
+    ...(grossProfit > 0 ? [{ label: 'Gross Profit c/o', amount: grossProfit }] : []),
+  ];
+  const tradingCredit: StatementRow[] = [
+    ...groupRows(profitAndLoss.tradingIncome),
+    ...(stockMovement < 0 ? [{ label: 'Stock Taken Out by Vouchers', amount: -stockMovement }] : []),
+    { label: 'Closing Stock', amount: profitAndLoss.closingStock },
+    ...(grossProfit < 0 ? [{ label: 'Gross Loss c/o', amount: -grossProfit }] : []),
+  ];
+  const profitDebit: StatementRow[] = [
+    ...(grossProfit < 0 ? [{ label: 'Gross Loss b/f', amount: -grossProfit }] : []),
+    ...groupRows(profitAndLoss.indirectExpenses),
+    ...(netProfit > 0 ? [{ label: 'Net Profit', amount: netProfit }] : []),
+  ];
+  const profitCredit: StatementRow[] = [
+    ...(grossProfit > 0 ? [{ label: 'Gross Profit b/f', amount: grossProfit }] : []),
+    ...groupRows(profitAndLoss.indirectIncome),
+    ...(netProfit < 0 ? [{ label: 'Net Loss', amount: -netProfit }] : []),
+  ];
+
+  const { openingDifference } = balanceSheet;
+  const liabilityRows: StatementRow[] = [
+    ...groupRows(balanceSheet.liabilities),
+    {
+      label: 'Profit & Loss A/c',
+      amount: balanceSheet.previousProfit + balanceSheet.netProfit,
+      ledgers: [
+        { ledgerId: 'previous', name: 'Opening Balance', amount: balanceSheet.previousProfit },
+        { ledgerId: 'current', name: 'Current Period', amount: balanceSheet.netProfit },
+      ],
+    },
+    ...(openingDifference > 0 ? [{ label: 'Difference in Opening Balances', amount: openingDifference }] : []),
+  ];
+  const assetRows: StatementRow[] = [
+    ...groupRows(balanceSheet.assets),
+    { label: 'Closing Stock', amount: balanceSheet.closingStock },
+    ...(openingDifference < 0 ? [{ label: 'Difference in Opening Balances', amount: -openingDifference }] : []),
+  ];
+
+  const handleExport = () => {
+    downloadFile(
+      trialBalanceToCsv(trialBalance),
+      `trial-balance-${range.startDate}-to-${range.endDate}.csv`,
+      'text/csv'
+    );
+  };
+
+  const summaryCards: { label: string; value: string }[] = [
+    { label: 'Gross Profit', value: formatAmount(grossProfit, decimals) },
+    { label: 'Net Profit', value: formatAmount(netProfit, decimals) },
+    { label: 'Total Assets', value: formatAmount(balanceSheet.totals.assets, decimals) },
+    { label: 'Total Liabilities', value: formatAmount(balanceSheet.totals.liabilities, decimals) },
+  ];
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            mb: 2,
+            gap: 2,
+          }}
+        >
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Financial Reports
+          </Typography>
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            disabled={isLoading || trialBalance.rows.length === 0}
+            onClick={handleExport}
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Export Trial Balance
+          </Button>
+        </Box>
+
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+            <TextField
+              size="small"
+              type="date"
+              label="From"
+              value={range.startDate}
+              onChange={(e) => setRange({ ...range, startDate: e.target.value })}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              size="small"
+              type="date"
+              label="To"
+              value={range.endDate}
+              onChange={(e) => setRange({ ...range, endDate: e.target.value })}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Closing Stock Value"
+              value={closingStockInput}
+              onChange={(e) => setClosingStockInput(e.target.value)}
+              placeholder={valuation ? String(valuation.value) : undefined}
+              helperText={
+                valuation
+                  ? `Stock valuation of ${valuation.pieces} pieces; enter a value to override`
+                  : 'Stock on hand at the end of the period'
+              }
+              slotProps={{ htmlInput: { min: 0, step: 'any' }, inputLabel: { shrink: !!valuation || undefined } }}
+              sx={{ minWidth: 220 }}
+            />
+          </Box>
+        </Paper>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          {summaryCards.map((card) => (
+            <Grid key={card.label} size={{ xs: 6, md: 3 }}>
+              <Paper sx={{ p: 2, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+                <Typography sx={{ color: '#666666', fontSize: '0.8rem' }}>{card.label}</Typography>
+                <Typography variant="h6" sx={{ color: '#000000', fontWeight: 600 }}>
+                  {card.value}
+                </Typography>
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Tabs
+            value={tab}
+            onChange={(_event, value: ReportTab) => setTab(value)}
+            variant="scrollable"
+            allowScrollButtonsMobile
+            sx={{
+              borderBottom: '1px solid #e0e0e0',
+              '& .MuiTab-root.Mui-selected': { color: '#5e3b63' },
+              '& .MuiTabs-indicator': { backgroundColor: '#5e3b63' },
+            }}
+          >
+            <Tab value="trial" label="Trial Balance" />
+            <Tab value="pl" label="Profit & Loss" />
+            <Tab value="bs" label="Balance Sheet" />
+          </Tabs>
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading ledger balances. Please try again.'}
+              </Alert>
+            </Box>
+          ) : tab === 'pl' ? (
+            <Box sx={{ p: 2 }}>
+              <Typography sx={{ color: '#0d0421', fontWeight: 600, mb: 1 }}>Trading Account</Typography>
+              <Grid container spacing={2} sx={{ mb: 3 }}>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <StatementColumn
+                    title="Particulars (Dr)"
+                    rows={tradingDebit}
+                    total={sum(tradingDebit)}
+                    decimals={decimals}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <StatementColumn
+                    title="Particulars (Cr)"
+                    rows={tradingCredit}
+                    total={sum(tradingCredit)}
+                    decimals={decimals}
+                  />
+                </Grid>
+              </Grid>
+              <Typography sx={{ color: '#0d0421', fontWeight: 600, mb: 1 }}>Profit & Loss Account</Typography>
+              <Grid container spacing={2}>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <StatementColumn
+                    title="Particulars (Dr)"
+                    rows={profitDebit}
+                    total={sum(profitDebit)}
+                    decimals={decimals}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <StatementColumn
+                    title="Particulars (Cr)"
+                    rows={profitCredit}
+                    total={sum(profitCredit)}
+                    decimals={decimals}
+                  />
+                </Grid>
+              </Grid>
+            </Box>
+          ) : tab === 'bs' ? (
+            <Box sx={{ p: 2 }}>
+              {openingDifference !== 0 && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  Opening balances differ by {formatBalance(openingDifference, decimals)}. Check the ledgers' opening
+                  balances in the chart of accounts.
+                </Alert>
+              )}
+              <Grid container spacing={2}>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <StatementColumn
+                    title="Liabilities"
+                    rows={liabilityRows}
+                    total={balanceSheet.totals.liabilities}
+                    decimals={decimals}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <StatementColumn
+                    title="Assets"
+                    rows={assetRows}
+                    total={balanceSheet.totals.assets}
+                    decimals={decimals}
+                  />
+                </Grid>
+              </Grid>
+            </Box>
+          ) : trialBalance.rows.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#666666' }}>No ledger balances for the period.</Typography>
+            </Box>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table size="small" sx={{ minWidth: 900 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Ledger</TableCell>
+                    <TableCell sx={headCellSx}>Group</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Opening
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Debit
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Credit
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Closing Dr
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Closing Cr
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {trialBalance.rows.map((row) => (
+                    <TableRow key={row.ledgerId}>
+                      <TableCell sx={bodyCellSx}>{row.ledgerName}</TableCell>
+                      <TableCell sx={bodyCellSx}>{row.groupName}</TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {formatBalance(row.opening, decimals)}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {formatAmount(row.debit, decimals)}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {formatAmount(row.credit, decimals)}
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                        {row.closing > 0 ? formatAmount(row.closing, decimals) : ''}
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                        {row.closing < 0 ? formatAmount(-row.closing, decimals) : ''}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow sx={{ backgroundColor: 'rgba(94, 59, 99, 0.08)' }}>
+                    <TableCell sx={{ ...bodyCellSx, fontWeight: 700 }} colSpan={3}>
+                      Total
+                    </TableCell>
+                    <TableCell sx={{ ...bodyCellSx, fontWeight: 700 }} align="right">
+                      {formatAmount(trialBalance.totals.debit, decimals)}
+                    </TableCell>
+                    <TableCell sx={{ ...bodyCellSx, fontWeight: 700 }} align="right">
+                      {formatAmount(trialBalance.totals.credit, decimals)}
+                    </TableCell>
+                    <TableCell sx={{ ...bodyCellSx, fontWeight: 700 }} align="right">
+                      {formatAmount(trialBalance.totals.closingDebit, decimals)}
+                    </TableCell>
+                    <TableCell sx={{ ...bodyCellSx, fontWeight: 700 }} align="right">
+                      {formatAmount(trialBalance.totals.closingCredit, decimals)}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  createLedger,
+  updateLedger,
+  type AccountGroup,
+  type CreateLedgerData,
+  type Ledger,
+} from '../../api/accounting';
+import { formatGroupPath } from '../../utils/accounting';
+
+interface LedgerDialogProps {
+  /** Ledger to edit, or null to add a new one */
+  ledger: Ledger | null;
+  groups: AccountGroup[];
+  onClose: () => void;
+}
+
+export function LedgerDialog({ ledger, groups, onClose }: LedgerDialogProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    name: ledger?.name ?? '',
+    groupId: ledger?.groupId ?? '',
+    openingAmount: ledger ? String(Math.abs(ledger.openingBalance)) : '',
+    openingSide: (ledger && ledger.openingBalance < 0 ? 'Cr' : 'Dr') as 'Dr' | 'Cr',
+    isActive: ledger?.isActive ?? true,
+  });
+  // Ledgers the backend posts to, and those of customers and suppliers, stay where they are
+  const isLinked = !!ledger && (!!ledger.systemKey || !!ledger.customerId || !!ledger.supplierId);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: CreateLedgerData) => (ledger ? updateLedger(ledger.id, data) : createLedger(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounting'] });
+      onClose();
+    },
+  });
+
+  const openingAmount = parseFloat(form.openingAmount) || 0;
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>{ledger ? 'Edit Ledger' : 'New Ledger'}</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          fullWidth
+          label="Name"
+          margin="dense"
+          value={form.name}
+          disabled={isLinked}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <TextField
+          select
+          fullWidth
+          label="Group"
+          margin="dense"
+          value={form.groupId}
+          disabled={isLinked}
+          onChange={(e) => setForm({ ...form, groupId: e.target.value })}
+        >
+          {groups.map((group) => (
+            <MenuItem key={group.id} value={group.id}>
+              {formatGroupPath(group, groups)}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            fullWidth
+            type="number"
+            label="Opening Balance"
+            margin="dense"
+            value={form.openingAmount}
+            onChange={(e) => setForm({ ...form, openingAmount: e.target.value })}
+            slotProps={{ htmlInput: { min: 0, step: 'any' } }}
+          />
+          <TextField
+            select
+            label="Dr / Cr"
+            margin="dense"
+            value={form.openingSide}
+            onChange={(e) => setForm({ ...form, openingSide: e.target.value as 'Dr' | 'Cr' })}
+            sx={{ minWidth: 100 }}
+          >
+            <MenuItem value="Dr">Dr</MenuItem>
+            <MenuItem value="Cr">Cr</MenuItem>
+          </TextField>
+        </Box>
+        {ledger && (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': { color: '#5e3b63' },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#5e3b63' },
+                }}
+              />
+            }
+            label="Active"
+          />
+        )}
+        {saveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(saveMutation.error, 'Failed to save ledger')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!form.name.trim() || !form.groupId || openingAmount < 0 || saveMutation.isPending}
+          onClick={() =>
+            saveMutation.mutate({
+              name: form.name.trim(),
+              groupId: form.groupId,
+              openingBalance: form.openingSide === 'Cr' ? -openingAmount : openingAmount,
+              isActive: form.isActive,
+            })
+          }
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,346 @@
+import { useState } from 'react';
+import {
+  Autocomplete,
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  IconButton,
+  MenuItem,
+  Snackbar,
+  Alert,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  VOUCHER_TYPES,
+  createVoucher,
+  fetchAccountGroups,
+  fetchLedgers,
+  fetchNextVoucherNumber,
+  type VoucherEntry,
+  type VoucherType,
+} from '../../api/accounting';
+import { sumVoucherEntries, validateVoucher } from '../../utils/accounting';
+import { formatAmount } from '../../utils/format';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface EntryRow {
+  key: number;
+  ledgerId: string;
+  debit: string;
+  credit: string;
+}
+
+let nextRowKey = 0;
+const emptyRow = (): EntryRow => ({ key: nextRowKey++, ledgerId: '', debit: '', credit: '' });
+
+/**
+ * Record a journal, payment, receipt or contra voucher. The number comes
+ * from the type's series in the Numbering config when the voucher is saved.
+ */
+export function VoucherForm() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [voucherType, setVoucherType] = useState<VoucherType>('journal');
+  const [voucherDate, setVoucherDate] = useState(today());
+  const [narration, setNarration] = useState('');
+  const [rows, setRows] = useState<EntryRow[]>(() => [emptyRow(), emptyRow()]);
+  const [submitted, setSubmitted] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const groupsQuery = useQuery({
+    queryKey: ['accounting', 'groups'],
+    queryFn: fetchAccountGroups,
+  });
+  const ledgersQuery = useQuery({
+    queryKey: ['accounting', 'ledgers', {}],
+    queryFn: () => fetchLedgers(),
+  });
+  const groups = groupsQuery.data ?? [];
+  const ledgers = ledgersQuery.data ?? [];
+  const activeLedgers = ledgers.filter((ledger) => ledger.isActive);
+
+  const { data: nextNumber } = useQuery({
+    queryKey: ['accounting', 'vouchers', 'next-number', voucherType],
+    queryFn: () => fetchNextVoucherNumber(voucherType),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: createVoucher,
+    onSuccess: (voucher) => {
+      queryClient.invalidateQueries({ queryKey: ['accounting'] });
+      navigate(`/accounting/vouchers/${voucher.id}`);
+    },
+    onError: (error) => setSnackbarMessage(getApiErrorMessage(error, 'Failed to save voucher')),
+  });
+
+  const entries: VoucherEntry[] = rows.map((row) => ({
+    ledgerId: row.ledgerId,
+    debit: parseFloat(row.debit) || 0,
+    credit: parseFloat(row.credit) || 0,
+  }));
+  const totals = sumVoucherEntries(entries, decimals);
+  const issues = validateVoucher(voucherType, entries, ledgers, groups, decimals);
+
+  const updateRow = (key: number, changes: Partial<EntryRow>) =>
+    setRows((prev) => prev.map((row) => (row.key === key ? { ...row, ...changes } : row)));
+
+  const handleSave = () => {
+    setSubmitted(true);
+    if (!voucherDate || issues.length > 0) {
+      return;
+    }
+    saveMutation.mutate({
+      voucherType,
+      voucherDate,
+      narration: narration.trim() || null,
+      entries,
+    });
+  };
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 3,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          New Voucher
+        </Typography>
+
+        <Card elevation={0} sx={{ border: '1px solid #e0e0e0', borderRadius: 2 }}>
+          <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+            <Grid container spacing={3}>
+              <Grid size={{ xs: 12, sm: 4 }}>
+                <TextField
+                  select
+                  label="Voucher Type"
+                  fullWidth
+                  size="small"
+                  value={voucherType}
+                  onChange={(e) => setVoucherType(e.target.value as VoucherType)}
+                >
+                  {VOUCHER_TYPES.map((type) => (
+                    <MenuItem key={type.value} value={type.value}>
+                      {type.label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Grid>
+              <Grid size={{ xs: 6, sm: 4 }}>
+                <TextField
+                  label="Voucher No."
+                  fullWidth
+                  size="small"
+                  value={nextNumber ?? ''}
+                  disabled
+                  helperText="Assigned when saved"
+                  slotProps={{ inputLabel: { shrink: true } }}
+                />
+              </Grid>
+              <Grid size={{ xs: 6, sm: 4 }}>
+                <TextField
+                  type="date"
+                  label="Date"
+                  fullWidth
+                  size="small"
+                  value={voucherDate}
+                  onChange={(e) => setVoucherDate(e.target.value)}
+                  error={submitted && !voucherDate}
+                  helperText={submitted && !voucherDate ? 'Date is required' : undefined}
+                  slotProps={{ inputLabel: { shrink: true } }}
+                />
+              </Grid>
+
+              <Grid size={12}>
+                <Box sx={{ overflowX: 'auto' }}>
+                  <Table size="small" sx={{ minWidth: 640 }}>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell sx={{ fontWeight: 600 }}>Ledger</TableCell>
+                        <TableCell sx={{ fontWeight: 600, width: 160 }} align="right">
+                          Debit
+                        </TableCell>
+                        <TableCell sx={{ fontWeight: 600, width: 160 }} align="right">
+                          Credit
+                        </TableCell>
+                        <TableCell sx={{ width: 48 }} />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {rows.map((row) => (
+                        <TableRow key={row.key}>
+                          <TableCell>
+                            <Autocomplete
+                              size="small"
+                              options={activeLedgers}
+                              groupBy={(ledger) => ledger.groupName}
+                              value={ledgers.find((ledger) => ledger.id === row.ledgerId) ?? null}
+                              onChange={(_event, ledger) => updateRow(row.key, { ledgerId: ledger?.id ?? '' })}
+                              isOptionEqualToValue={(option, selected) => option.id === selected.id}
+                              getOptionLabel={(ledger) => ledger.name}
+                              renderInput={(params) => (
+                                <TextField
+                                  {...params}
+                                  placeholder="Select ledger"
+                                  error={submitted && !row.ledgerId}
+                                />
+                              )}
+                            />
+                          </TableCell>
+                          <TableCell align="right">
+                            <TextField
+                              size="small"
+                              type="number"
+                              value={row.debit}
+                              onChange={(e) => updateRow(row.key, { debit: e.target.value, credit: '' })}
+                              slotProps={{ htmlInput: { min: 0, step: 'any', style: { textAlign: 'right' } } }}
+                            />
+                          </TableCell>
+                          <TableCell align="right">
+                            <TextField
+                              size="small"
+                              type="number"
+                              value={row.credit}
+                              onChange={(e) => updateRow(row.key, { credit: e.target.value, debit: '' })}
+                              slotProps={{ htmlInput: { min: 0, step: 'any', style: { textAlign: 'right' } } }}
+                            />
+                          </TableCell>
+                          <TableCell align="right">
+                            <IconButton
+                              size="small"
+                              aria-label="remove line"
+                              disabled={rows.length <= 2}
+                              onClick={() => setRows((prev) => prev.filter((entry) => entry.key !== row.key))}
+                              sx={{ color: '#d32f2f' }}
+                            >
+                              <Delete fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow>
+                        <TableCell>
+                          <Button
+                            size="small"
+                            startIcon={<Add />}
+                            onClick={() => setRows((prev) => [...prev, emptyRow()])}
+                            sx={{ color: '#5e3b63' }}
+                          >
+                            Add Line
+                          </Button>
+                        </TableCell>
+                        <TableCell align="right" sx={{ fontWeight: 600 }}>
+                          {formatAmount(totals.debit, decimals)}
+                        </TableCell>
+                        <TableCell align="right" sx={{ fontWeight: 600 }}>
+                          {formatAmount(totals.credit, decimals)}
+                        </TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </Box>
+                {submitted && issues.length > 0 && (
+                  <Alert severity="warning" sx={{ mt: 2 }}>
+                    Fix these before saving:
+                    <Box component="ul" sx={{ m: 0, pl: 2.5 }}>
+                      {issues.map((issue) => (
+                        <li key={issue}>{issue}</li>
+                      ))}
+                    </Box>
+                  </Alert>
+                )}
+              </Grid>
+
+              <Grid size={12}>
+                <TextField
+                  label="Narration"
+                  fullWidth
+                  multiline
+                  rows={2}
+                  value={narration}
+                  onChange={(e) => setNarration(e.target.value)}
+                />
+              </Grid>
+
+              {/* Action Buttons */}
+              <Grid size={12}>
+                <Divider sx={{ my: 2 }} />
+                <Box
+                  sx={{
+                    display: 'flex',
+                    flexDirection: { xs: 'column', sm: 'row' },
+                    justifyContent: 'flex-end',
+                    gap: 2,
+                  }}
+                >
+                  <Button
+                    type="button"
+                    variant="outlined"
+                    onClick={() => navigate('/accounting/vouchers')}
+                    fullWidth={isMobile}
+                    sx={{ borderColor: '#5e3b63', color: '#5e3b63', px: 3, fontWeight: 600 }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="contained"
+                    disabled={saveMutation.isPending}
+                    onClick={handleSave}
+                    fullWidth={isMobile}
+                    sx={{
+                      backgroundColor: '#5e3b63',
+                      px: 3,
+                      fontWeight: 600,
+                      '&:hover': { backgroundColor: '#4a2d4f' },
+                    }}
+                  >
+                    Save Voucher
+                  </Button>
+                </Box>
+              </Grid>
+            </Grid>
+          </CardContent>
+        </Card>
+      </Box>
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,363 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TablePagination,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+  Chip,
+  MenuItem,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Add, Search, FilterList, Clear } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import {
+  VOUCHER_SOURCES,
+  VOUCHER_TYPES,
+  fetchLedgers,
+  fetchVouchers,
+  type Voucher,
+  type VoucherFilters,
+} from '../../api/accounting';
+import { formatAmount } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+/** Debited and credited ledger names, the way a day book shows them */
+const particulars = (voucher: Voucher) => {
+  const names = (side: 'debit' | 'credit') =>
+    voucher.entries
+      .filter((entry) => entry[side] > 0)
+      .map((entry) => entry.ledgerName)
+      .join(', ');
+  return { debit: names('debit'), credit: names('credit') };
+};
+
+/**
+ * Day book of journal, payment, receipt and contra vouchers, manual and
+ * posted from sales and purchases. Opened with ?ledgerId= it shows one
+ * ledger's vouchers.
+ */
+export function VoucherList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+
+  const initialFilters: VoucherFilters = { ledgerId: searchParams.get('ledgerId') || undefined };
+  const [filters, setFilters] = useState<VoucherFilters>(initialFilters);
+  const [appliedFilters, setAppliedFilters] = useState<VoucherFilters>(initialFilters);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const ledgersQuery = useQuery({
+    queryKey: ['accounting', 'ledgers', {}],
+    queryFn: () => fetchLedgers(),
+  });
+  const ledgers = ledgersQuery.data ?? [];
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['accounting', 'vouchers', appliedFilters],
+    queryFn: () => fetchVouchers(appliedFilters),
+  });
+  const vouchers = data?.data ?? [];
+
+  const handleChangeFilter = (key: keyof VoucherFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const paginatedVouchers = vouchers.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Vouchers
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => navigate('/accounting/vouchers/new')}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            New Voucher
+          </Button>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder="Voucher number or narration..."
+                value={filters.search || ''}
+                onChange={(e) => handleChangeFilter('search', e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+              <TextField
+                select
+                size="small"
+                label="Ledger"
+                fullWidth
+                value={filters.ledgerId || ''}
+                onChange={(e) => handleChangeFilter('ledgerId', e.target.value)}
+              >
+                <MenuItem value="">All Ledgers</MenuItem>
+                {ledgers.map((ledger) => (
+                  <MenuItem key={ledger.id} value={ledger.id}>
+                    {ledger.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+              <TextField
+                select
+                size="small"
+                label="Type"
+                fullWidth
+                value={filters.voucherType || ''}
+                onChange={(e) => handleChangeFilter('voucherType', e.target.value)}
+              >
+                <MenuItem value="">All Types</MenuItem>
+                {VOUCHER_TYPES.map((type) => (
+                  <MenuItem key={type.value} value={type.value}>
+                    {type.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+              <TextField
+                select
+                size="small"
+                label="Source"
+                fullWidth
+                value={filters.source || ''}
+                onChange={(e) => handleChangeFilter('source', e.target.value)}
+              >
+                <MenuItem value="">All Sources</MenuItem>
+                {VOUCHER_SOURCES.map((source) => (
+                  <MenuItem key={source.value} value={source.value}>
+                    {source.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="Start Date"
+                value={filters.startDate || ''}
+                onChange={(e) => handleChangeFilter('startDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="End Date"
+                value={filters.endDate || ''}
+                onChange={(e) => handleChangeFilter('endDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading vouchers. Please try again.'}
+              </Alert>
+            </Box>
+          ) : vouchers.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No vouchers found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 800 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Voucher No.</TableCell>
+                      <TableCell sx={headCellSx}>Date</TableCell>
+                      <TableCell sx={headCellSx}>Type</TableCell>
+                      <TableCell sx={headCellSx}>Particulars</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>Source</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Amount
+                      </TableCell>
+                      <TableCell sx={headCellSx}>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedVouchers.map((voucher) => {
+                      const names = particulars(voucher);
+                      return (
+                        <TableRow
+                          key={voucher.id}
+                          hover
+                          onClick={() => navigate(`/accounting/vouchers/${voucher.id}`)}
+                          sx={{ cursor: 'pointer' }}
+                        >
+                          <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{voucher.voucherNumber}</TableCell>
+                          <TableCell sx={bodyCellSx}>{new Date(voucher.voucherDate).toLocaleDateString()}</TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            {VOUCHER_TYPES.find((type) => type.value === voucher.voucherType)?.label}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            <div>Dr {names.debit}</div>
+                            <div>Cr {names.credit}</div>
+                            {voucher.narration && (
+                              <Typography variant="caption" sx={{ color: '#666666' }}>
+                                {voucher.narration}
+                              </Typography>
+                            )}
+                          </TableCell>
+                          <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                            {VOUCHER_SOURCES.find((source) => source.value === voucher.source)?.label}
+                            {voucher.sourceNumber && (
+                              <Typography variant="caption" component="div" sx={{ fontFamily: 'monospace' }}>
+                                {voucher.sourceNumber}
+                              </Typography>
+                            )}
+                          </TableCell>
+                          <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                            {formatAmount(voucher.amount, decimals)}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            <Chip
+                              label={voucher.status === 'cancelled' ? 'Cancelled' : 'Posted'}
+                              color={voucher.status === 'cancelled' ? 'error' : 'success'}
+                              size="small"
+                              variant="outlined"
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={vouchers.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState, type ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, Block } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import { VOUCHER_SOURCES, VOUCHER_TYPES, cancelVoucher, fetchVoucher, type Voucher } from '../../api/accounting';
+import { getVoucherSourcePath, sumVoucherEntries } from '../../utils/accounting';
+import { formatAmount } from '../../utils/format';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+function DetailField({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+      <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+        {label}
+      </Typography>
+      <Typography variant="body1" sx={{ color: '#000000' }}>
+        {value || '-'}
+      </Typography>
+    </Grid>
+  );
+}
+
+/**
+ * A voucher with its entries. Manual vouchers can be cancelled; vouchers
+ * posted from invoices and bills link back to their document.
+ */
+export function VoucherView() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [cancelReason, setCancelReason] = useState('');
+
+  const { data: voucher, isLoading, error } = useQuery<Voucher>({
+    queryKey: ['accounting', 'vouchers', id],
+    queryFn: () => fetchVoucher(id as string),
+    enabled: !!id,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelVoucher(id as string, cancelReason.trim()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['accounting'] });
+      setCancelDialogOpen(false);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !voucher) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Voucher not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const type = VOUCHER_TYPES.find((option) => option.value === voucher.voucherType);
+  const source = VOUCHER_SOURCES.find((option) => option.value === voucher.source);
+  const sourcePath = getVoucherSourcePath(voucher);
+  const totals = sumVoucherEntries(voucher.entries, decimals);
+  const isCancelled = voucher.status === 'cancelled';
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 3,
+          }}
+        >
+          <Box>
+            <Button
+              startIcon={<ArrowBack />}
+              onClick={() => navigate('/accounting/vouchers')}
+              sx={{ color: '#5e3b63', mb: 1 }}
+            >
+              Vouchers
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {voucher.voucherNumber}
+              </Typography>
+              <Chip
+                label={isCancelled ? 'Cancelled' : 'Posted'}
+                color={isCancelled ? 'error' : 'success'}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+          </Box>
+          {voucher.source === 'manual' && !isCancelled && (
+            <Button
+              variant="outlined"
+              startIcon={<Block />}
+              onClick={() => setCancelDialogOpen(true)}
+              sx={{ borderColor: '#d32f2f', color: '#d32f2f', fontWeight: 600 }}
+            >
+              Cancel Voucher
+            </Button>
+          )}
+        </Box>
+
+        {isCancelled && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            Cancelled{voucher.cancellationReason ? `: ${voucher.cancellationReason}` : ''}. It is left out of the
+            ledgers and reports.
+          </Alert>
+        )}
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            {type?.label ?? voucher.voucherType} Voucher
+          </Typography>
+          <Grid container spacing={2}>
+            <DetailField label="Date" value={new Date(voucher.voucherDate).toLocaleDateString()} />
+            <DetailField
+              label="Source"
+              value={
+                sourcePath ? (
+                  <Link component={RouterLink} to={sourcePath} sx={{ color: '#5e3b63', fontFamily: 'monospace' }}>
+                    {voucher.sourceNumber}
+                  </Link>
+                ) : (
+                  [source?.label, voucher.sourceNumber].filter(Boolean).join(' ')
+                )
+              }
+            />
+            <DetailField label="Amount" value={formatAmount(voucher.amount, decimals)} />
+            <DetailField label="Created By" value={voucher.createdByName} />
+            {voucher.narration && (
+              <Grid size={12}>
+                <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+                  Narration
+                </Typography>
+                <Typography variant="body1" sx={{ color: '#000000' }}>
+                  {voucher.narration}
+                </Typography>
+              </Grid>
+            )}
+          </Grid>
+        </Paper>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Entries
+          </Typography>
+          <Box sx={{ overflowX: 'auto' }}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 600 }}>Ledger</TableCell>
+                  <TableCell sx={{ fontWeight: 600 }} align="right">
+                    Debit
+                  </TableCell>
+                  <TableCell sx={{ fontWeight: 600 }} align="right">
+                    Credit
+                  </TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {voucher.entries.map((entry, index) => (
+                  <TableRow
+                    key={entry.id ?? index}
+                    hover
+                    onClick={() => navigate(`/accounting/vouchers?ledgerId=${entry.ledgerId}`)}
+                    sx={{ cursor: 'pointer' }}
+                  >
+                    <TableCell sx={{ pl: entry.credit > 0 ? 4 : 2 }}>
+                      {entry.credit > 0 ? 'To ' : ''}
+                      {entry.ledgerName}
+                    </TableCell>
+                    <TableCell align="right">{entry.debit > 0 ? formatAmount(entry.debit, decimals) : ''}</TableCell>
+                    <TableCell align="right">
+                      {entry.credit > 0 ? formatAmount(entry.credit, decimals) : ''}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell sx={{ fontWeight: 600 }}>Total</TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 600 }}>
+                    {formatAmount(totals.debit, decimals)}
+                  </TableCell>
+                  <TableCell align="right" sx={{ fontWeight: 600 }}>
+                    {formatAmount(totals.credit, decimals)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </Box>
+        </Paper>
+      </Box>
+
+      {/* Cancel Confirmation Dialog */}
+      <Dialog
+        open={cancelDialogOpen}
+        onClose={() => setCancelDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Cancel Voucher</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000' }}>
+            Cancel {voucher.voucherNumber}? Its number stays used and its entries are reversed out of the ledgers.
+          </DialogContentText>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Reason"
+            margin="dense"
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+          />
+          {cancelMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(cancelMutation.error, 'Failed to cancel voucher')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setCancelDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Keep Voucher
+          </Button>
+          <Button
+            onClick={() => cancelMutation.mutate()}
+            variant="contained"
+            disabled={!cancelReason.trim() || cancelMutation.isPending}
+            sx={{ backgroundColor: '#d32f2f', fontWeight: 600, '&:hover': { backgroundColor: '#b71c1c' } }}
+          >
+            Cancel Voucher
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -34,7 +34,26 @@ import { DashboardLayout } from '../components/Layout/DashboardLayout';
 import { useQuery } from '@tanstack/react-query';
 import { fetchActivityLogs, type ActivityLogFilters, type ActivityLog } from '../api/activityLogs';
 
-const MODULES = ['auth', 'user', 'organization'];
+const MODULES = [
+  'auth',
+  'user',
+  'organization',
+  'metalRate',
+  'sales',
+  'stock',
+  'stockAudit',
+  'purchase',
+  'manufacturing',
+  'oldGold',
+  'hallmark',
+  'certificate',
+  'approval',
+  'repair',
+  'customOrder',
+  'scheme',
+  'customer',
+  'supplier',
+];
 const ACTIONS = [
   'LOGIN_SUCCESS',
   'LOGIN_FAILED',
@@ -44,6 +63,7 @@ const ACTIONS = [
   'ACTIVATE',
   'DEACTIVATE',
   'PASSWORD_RESET',
+  'CREDIT_LIMIT_OVERRIDE',
 ];
 
 export function ActivityLogs() {
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { useMetalRates } from '../../hooks/useMetalRates';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import { fetchItem } from '../../api/items';
+import { returnApprovalItems, type ApprovalMemo } from '../../api/approvals';
+import { buildInvoiceLine } from '../../utils/invoice';
+import { formatWeight } from '../../utils/format';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface ApprovalLinesDialogProps {
+  memo: ApprovalMemo;
+  /** Take the pieces back into stock, or bill them on a new sale */
+  mode: 'return' | 'sell';
+  onClose: () => void;
+}
+
+/**
+ * Pick the pieces still with the party that are coming back or being kept.
+ * Kept pieces are priced at today's rate and opened on the point of sale with
+ * the memo attached, so the memo lines are marked sold when the invoice is saved.
+ */
+export function ApprovalLinesDialog({ memo, mode, onClose }: ApprovalLinesDialogProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { getRate } = useMetalRates();
+  const { options: pricingOptions } = usePricingOptions();
+  const outstanding = memo.lines.filter((line) => line.status === 'issued');
+  const [selected, setSelected] = useState<string[]>(() => outstanding.map((line) => line.id));
+  const [returnedDate, setReturnedDate] = useState(today());
+  const [notes, setNotes] = useState('');
+  const [rateError, setRateError] = useState<string | null>(null);
+
+  const returnMutation = useMutation({
+    mutationFn: () =>
+      returnApprovalItems(memo.id, { returnedDate, lineIds: selected, notes: notes.trim() || null }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approvals'] });
+      queryClient.invalidateQueries({ queryKey: ['stock'] });
+      onClose();
+    },
+  });
+
+  const sellMutation = useMutation({
+    mutationFn: () =>
+      Promise.all(
+        outstanding.filter((line) => selected.includes(line.id)).map((line) => fetchItem(line.itemId))
+      ),
+    onSuccess: (items) => {
+      const unpriced = items.filter((item) => !item.purity || !getRate(item.metal, item.purity));
+      if (!pricingOptions || unpriced.length > 0) {
+        setRateError(
+          pricingOptions
+            ? `No rate entered today for ${unpriced.map((item) => item.tagNumber).join(', ')}`
+            : 'Pricing configuration is not loaded yet'
+        );
+        return;
+      }
+      const lines = items.map((item) =>
+        buildInvoiceLine(item, getRate(item.metal, item.purity as string)?.ratePerGram ?? 0, pricingOptions)
+      );
+      navigate('/sales/pos', {
+        state: {
+          approvalMemo: { id: memo.id, memoNumber: memo.memoNumber },
+          customer: memo.customer,
+          lines,
+        },
+      });
+    },
+  });
+
+  const mutation = mode === 'return' ? returnMutation : sellMutation;
+
+  const toggle = (lineId: string) => {
+    setSelected((prev) => (prev.includes(lineId) ? prev.filter((id) => id !== lineId) : [...prev, lineId]));
+  };
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>
+        {mode === 'return' ? 'Return Pieces' : 'Convert to Sale'} · {memo.memoNumber}
+      </DialogTitle>
+      <DialogContent>
+        <DialogContentText sx={{ color: '#000000', mb: 1 }}>
+          {mode === 'return'
+            ? 'Select the pieces handed back. They move back to In Stock.'
+            : 'Select the pieces the party is keeping. They open on a new sale for billing.'}
+        </DialogContentText>
+        {mode === 'return' && (
+          <TextField
+            type="date"
+            size="small"
+            margin="dense"
+            label="Returned On"
+            value={returnedDate}
+            onChange={(e) => setReturnedDate(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+            sx={{ width: 200 }}
+          />
+        )}
+        <Table size="small" sx={{ mt: 1 }}>
+          <TableHead>
+            <TableRow>
+              <TableCell padding="checkbox">
+                <Checkbox
+                  size="small"
+                  checked={selected.length === outstanding.length}
+                  indeterminate={selected.length > 0 && selected.length < outstanding.length}
+                  onChange={(e) => setSelected(e.target.checked ? outstanding.map((line) => line.id) : [])}
+                  sx={{ '&.Mui-checked, &.MuiCheckbox-indeterminate': { color: '#5e3b63' } }}
+                />
+              </TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Tag</TableCell>
+              <TableCell sx={{ fontWeight: 600 }}>Item</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">
+                Gross Wt
+              </TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {outstanding.map((line) => (
+              <TableRow key={line.id} hover onClick={() => toggle(line.id)} sx={{ cursor: 'pointer' }}>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    size="small"
+                    checked={selected.includes(line.id)}
+                    sx={{ '&.Mui-checked': { color: '#5e3b63' } }}
+                  />
+                </TableCell>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{line.tagNumber}</TableCell>
+                <TableCell>
+                  {line.description}
+                  {line.purity ? ` (${line.purity})` : ''}
+                </TableCell>
+                <TableCell align="right">{formatWeight(line.grossWeight)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {mode === 'return' && (
+          <TextField
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            sx={{ mt: 2 }}
+          />
+        )}
+        {rateError && (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            {rateError}
+          </Alert>
+        )}
+        {mutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(
+              mutation.error,
+              mode === 'return' ? 'Failed to record the return' : 'Failed to load pieces for billing'
+            )}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={selected.length === 0 || (mode === 'return' && !returnedDate) || mutation.isPending}
+          onClick={() => mutation.mutate()}
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          {mode === 'return' ? 'Record Return' : 'Open Sale'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,364 @@
+import { useState, type FormEvent } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  IconButton,
+  MenuItem,
+  Snackbar,
+  Alert,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Delete, QrCodeScanner } from '@mui/icons-material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { CustomerSelect } from '../../components/Customer/CustomerSelect';
+import { SupplierSelect } from '../../components/Purchase/SupplierSelect';
+import { getApiErrorMessage } from '../../api/client';
+import { fetchItemByTag, type Item } from '../../api/items';
+import { STOCK_STATUSES, fetchStockEntry } from '../../api/stock';
+import type { Customer } from '../../api/customers';
+import type { Supplier } from '../../api/suppliers';
+import { APPROVAL_PARTY_TYPES, createApprovalMemo, type ApprovalPartyType } from '../../api/approvals';
+import { formatWeight } from '../../utils/format';
+
+const sectionTitleSx = {
+  color: '#0d0421',
+  fontWeight: 600,
+  mb: 1,
+  fontSize: { xs: '1rem', sm: '1.1rem' },
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const daysFromToday = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Issue pieces on approval to a customer or dealer. Pieces are added by
+ * scanning their tags and must be in stock.
+ */
+export function ApprovalMemoForm() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [partyType, setPartyType] = useState<ApprovalPartyType>('customer');
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [supplier, setSupplier] = useState<Supplier | null>(null);
+  const [issueDate, setIssueDate] = useState(today());
+  const [expectedReturnDate, setExpectedReturnDate] = useState(daysFromToday(7));
+  const [notes, setNotes] = useState('');
+  const [items, setItems] = useState<Item[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const lookupMutation = useMutation({
+    mutationFn: async (tag: string) => {
+      const item = await fetchItemByTag(tag);
+      const stock = await fetchStockEntry(item.id);
+      return { item, stock };
+    },
+    onSuccess: ({ item, stock }) => {
+      if (items.some((added) => added.id === item.id)) {
+        setScanError(`${item.tagNumber} is already on this memo`);
+      } else if (stock.status !== 'in_stock') {
+        const status = STOCK_STATUSES.find((option) => option.value === stock.status);
+        setScanError(`${item.tagNumber} is not in stock (${status?.label ?? stock.status})`);
+      } else {
+        setItems((prev) => [...prev, item]);
+        setScanError(null);
+      }
+      setTagInput('');
+    },
+    onError: (error) => setScanError(getApiErrorMessage(error, 'Item not found')),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: createApprovalMemo,
+    onSuccess: (memo) => {
+      queryClient.invalidateQueries({ queryKey: ['approvals'] });
+      queryClient.invalidateQueries({ queryKey: ['stock'] });
+      navigate(`/approvals/${memo.id}`);
+    },
+    onError: (error) => setSnackbarMessage(getApiErrorMessage(error, 'Failed to issue memo')),
+  });
+
+  const handleScan = (event: FormEvent) => {
+    event.preventDefault();
+    const tag = tagInput.trim();
+    if (tag) {
+      lookupMutation.mutate(tag);
+    }
+  };
+
+  const party = partyType === 'customer' ? customer : supplier;
+  const returnBeforeIssue = !!issueDate && !!expectedReturnDate && expectedReturnDate < issueDate;
+
+  const handleSave = () => {
+    setSubmitted(true);
+    if (!party || !issueDate || !expectedReturnDate || returnBeforeIssue || items.length === 0) {
+      return;
+    }
+    saveMutation.mutate({
+      issueDate,
+      expectedReturnDate,
+      partyType,
+      customerId: partyType === 'customer' ? (customer?.id ?? null) : null,
+      supplierId: partyType === 'dealer' ? (supplier?.id ?? null) : null,
+      itemIds: items.map((item) => item.id),
+      notes: notes.trim() || null,
+    });
+  };
+
+  const totalGrossWeight = items.reduce((total, item) => total + item.grossWeight, 0);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 3,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          Issue on Approval
+        </Typography>
+
+        <Card elevation={0} sx={{ border: '1px solid #e0e0e0', borderRadius: 2 }}>
+          <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+            <Grid container spacing={3}>
+              <Grid size={{ xs: 12, sm: 4, md: 2 }}>
+                <TextField
+                  select
+                  label="Issue To"
+                  fullWidth
+                  size="small"
+                  value={partyType}
+                  onChange={(e) => setPartyType(e.target.value as ApprovalPartyType)}
+                >
+                  {APPROVAL_PARTY_TYPES.map((type) => (
+                    <MenuItem key={type.value} value={type.value}>
+                      {type.label}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              </Grid>
+              <Grid size={{ xs: 12, sm: 8, md: 6 }}>
+                {partyType === 'customer' ? (
+                  <CustomerSelect
+                    value={customer}
+                    onChange={setCustomer}
+                    error={submitted && !customer ? 'Customer is required' : undefined}
+                  />
+                ) : (
+                  <SupplierSelect
+                    value={supplier}
+                    onChange={setSupplier}
+                    error={submitted && !supplier ? 'Dealer is required' : undefined}
+                  />
+                )}
+              </Grid>
+              <Grid size={{ xs: 6, md: 2 }}>
+                <TextField
+                  type="date"
+                  label="Issue Date"
+                  fullWidth
+                  size="small"
+                  value={issueDate}
+                  onChange={(e) => setIssueDate(e.target.value)}
+                  error={submitted && !issueDate}
+                  helperText={submitted && !issueDate ? 'Date is required' : undefined}
+                  slotProps={{ inputLabel: { shrink: true } }}
+                />
+              </Grid>
+              <Grid size={{ xs: 6, md: 2 }}>
+                <TextField
+                  type="date"
+                  label="Return By"
+                  fullWidth
+                  size="small"
+                  value={expectedReturnDate}
+                  onChange={(e) => setExpectedReturnDate(e.target.value)}
+                  error={(submitted && !expectedReturnDate) || returnBeforeIssue}
+                  helperText={
+                    returnBeforeIssue
+                      ? 'Before the issue date'
+                      : submitted && !expectedReturnDate
+                        ? 'Date is required'
+                        : undefined
+                  }
+                  slotProps={{ inputLabel: { shrink: true } }}
+                />
+              </Grid>
+
+              <Grid size={12}>
+                <Divider sx={{ my: 1 }} />
+                <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                  Pieces
+                </Typography>
+                <Box component="form" onSubmit={handleScan} sx={{ display: 'flex', gap: 1, mb: 1 }}>
+                  <TextField
+                    autoFocus
+                    fullWidth
+                    size="small"
+                    label="Scan barcode or enter tag number"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    slotProps={{
+                      input: { startAdornment: <QrCodeScanner sx={{ color: '#5e3b63', mr: 1 }} /> },
+                    }}
+                  />
+                  <Button
+                    type="submit"
+                    variant="contained"
+                    disabled={lookupMutation.isPending}
+                    sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+                  >
+                    Add
+                  </Button>
+                </Box>
+                {scanError && (
+                  <Alert severity="warning" onClose={() => setScanError(null)} sx={{ mb: 1 }}>
+                    {scanError}
+                  </Alert>
+                )}
+                {items.length === 0 ? (
+                  <Typography
+                    sx={{ color: submitted ? '#d32f2f' : '#666666', py: 2, textAlign: 'center' }}
+                  >
+                    {submitted ? 'Add at least one piece' : 'No pieces added yet.'}
+                  </Typography>
+                ) : (
+                  <Box sx={{ overflowX: 'auto' }}>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell sx={{ fontWeight: 600 }}>Tag</TableCell>
+                          <TableCell sx={{ fontWeight: 600 }}>Item</TableCell>
+                          <TableCell sx={{ fontWeight: 600 }}>Purity</TableCell>
+                          <TableCell sx={{ fontWeight: 600 }} align="right">
+                            Gross Wt
+                          </TableCell>
+                          <TableCell />
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {items.map((item) => (
+                          <TableRow key={item.id}>
+                            <TableCell sx={{ fontFamily: 'monospace' }}>{item.tagNumber}</TableCell>
+                            <TableCell>{item.name}</TableCell>
+                            <TableCell>{item.purity || '-'}</TableCell>
+                            <TableCell align="right">{formatWeight(item.grossWeight)}</TableCell>
+                            <TableCell align="right">
+                              <IconButton
+                                size="small"
+                                aria-label="remove piece"
+                                onClick={() => setItems((prev) => prev.filter((added) => added.id !== item.id))}
+                                sx={{ color: '#d32f2f' }}
+                              >
+                                <Delete fontSize="small" />
+                              </IconButton>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow>
+                          <TableCell colSpan={3} sx={{ fontWeight: 600 }}>
+                            {items.length} {items.length === 1 ? 'piece' : 'pieces'}
+                          </TableCell>
+                          <TableCell align="right" sx={{ fontWeight: 600 }}>
+                            {formatWeight(totalGrossWeight)}
+                          </TableCell>
+                          <TableCell />
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </Box>
+                )}
+              </Grid>
+
+              <Grid size={12}>
+                <TextField
+                  label="Notes"
+                  fullWidth
+                  multiline
+                  rows={2}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </Grid>
+
+              {/* Action Buttons */}
+              <Grid size={12}>
+                <Divider sx={{ my: 2 }} />
+                <Box
+                  sx={{
+                    display: 'flex',
+                    flexDirection: { xs: 'column', sm: 'row' },
+                    justifyContent: 'flex-end',
+                    gap: 2,
+                  }}
+                >
+                  <Button
+                    type="button"
+                    variant="outlined"
+                    onClick={() => navigate('/approvals')}
+                    fullWidth={isMobile}
+                    sx={{ borderColor: '#5e3b63', color: '#5e3b63', px: 3, fontWeight: 600 }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="contained"
+                    disabled={saveMutation.isPending}
+                    onClick={handleSave}
+                    fullWidth={isMobile}
+                    sx={{
+                      backgroundColor: '#5e3b63',
+                      px: 3,
+                      fontWeight: 600,
+                      '&:hover': { backgroundColor: '#4a2d4f' },
+                    }}
+                  >
+                    Issue Memo
+                  </Button>
+                </Box>
+              </Grid>
+            </Grid>
+          </CardContent>
+        </Card>
+      </Box>
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
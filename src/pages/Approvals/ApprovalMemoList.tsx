@@ -0,0 +1,312 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  Chip,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Add, Search, FilterList, Clear } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import {
+  APPROVAL_MEMO_STATUSES,
+  APPROVAL_PARTY_TYPES,
+  fetchApprovalMemos,
+  type ApprovalMemoFilters,
+} from '../../api/approvals';
+import { getApprovalPartyName, getDaysOverdue } from '../../utils/approvals';
+import { formatWeight } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+export function ApprovalMemoList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // The dashboard links here with ?overdue=1
+  const initialFilters: ApprovalMemoFilters = searchParams.get('overdue') ? { overdue: true } : {};
+
+  const [filters, setFilters] = useState<ApprovalMemoFilters>(initialFilters);
+  const [appliedFilters, setAppliedFilters] = useState<ApprovalMemoFilters>(initialFilters);
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['approvals', 'memos', appliedFilters],
+    queryFn: () => fetchApprovalMemos(appliedFilters),
+  });
+
+  const memos = data?.data ?? [];
+
+  const handleChangeFilter = (key: Exclude<keyof ApprovalMemoFilters, 'overdue'>, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const paginatedMemos = memos.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Approval Memos
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => navigate('/approvals/new')}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Issue on Approval
+          </Button>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder="Memo number, party or tag..."
+                value={filters.search || ''}
+                onChange={(e) => handleChangeFilter('search', e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Status"
+                fullWidth
+                value={filters.status || ''}
+                onChange={(e) => handleChangeFilter('status', e.target.value)}
+              >
+                <MenuItem value="">All Statuses</MenuItem>
+                {APPROVAL_MEMO_STATUSES.map((status) => (
+                  <MenuItem key={status.value} value={status.value}>
+                    {status.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Party"
+                fullWidth
+                value={filters.partyType || ''}
+                onChange={(e) => handleChangeFilter('partyType', e.target.value)}
+              >
+                <MenuItem value="">Customers and Dealers</MenuItem>
+                {APPROVAL_PARTY_TYPES.map((type) => (
+                  <MenuItem key={type.value} value={type.value}>
+                    {type.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Return Due"
+                fullWidth
+                value={filters.overdue ? 'overdue' : ''}
+                onChange={(e) =>
+                  setFilters((prev) => ({ ...prev, overdue: e.target.value === 'overdue' || undefined }))
+                }
+              >
+                <MenuItem value="">Any</MenuItem>
+                <MenuItem value="overdue">Overdue only</MenuItem>
+              </TextField>
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading approval memos. Please try again.'}
+              </Alert>
+            </Box>
+          ) : memos.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No approval memos found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Memo No.</TableCell>
+                      <TableCell sx={headCellSx}>Issued</TableCell>
+                      <TableCell sx={headCellSx}>Party</TableCell>
+                      <TableCell sx={headCellSx}>Return By</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Pieces Out
+                      </TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }} align="right">
+                        Gross Wt
+                      </TableCell>
+                      <TableCell sx={headCellSx}>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedMemos.map((memo) => {
+                      const status = APPROVAL_MEMO_STATUSES.find((option) => option.value === memo.status);
+                      const partyType = APPROVAL_PARTY_TYPES.find((option) => option.value === memo.partyType);
+                      return (
+                        <TableRow
+                          key={memo.id}
+                          hover
+                          onClick={() => navigate(`/approvals/${memo.id}`)}
+                          sx={{ cursor: 'pointer' }}
+                        >
+                          <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{memo.memoNumber}</TableCell>
+                          <TableCell sx={bodyCellSx}>{new Date(memo.issueDate).toLocaleDateString()}</TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            {getApprovalPartyName(memo)}
+                            <Typography component="span" sx={{ color: '#666666', fontSize: 'inherit', ml: 0.5 }}>
+                              ({partyType?.label ?? memo.partyType})
+                            </Typography>
+                          </TableCell>
+                          <TableCell sx={{ ...bodyCellSx, color: memo.isOverdue ? '#d32f2f' : '#000000' }}>
+                            {new Date(memo.expectedReturnDate).toLocaleDateString()}
+                            {memo.isOverdue && ` · ${getDaysOverdue(memo.expectedReturnDate)}d overdue`}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx} align="right">
+                            {memo.outstandingCount} / {memo.lines.length}
+                          </TableCell>
+                          <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }} align="right">
+                            {formatWeight(memo.totalGrossWeight)}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            <Chip
+                              label={status?.label ?? memo.status}
+                              color={status?.color ?? 'default'}
+                              size="small"
+                              variant="outlined"
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={memos.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
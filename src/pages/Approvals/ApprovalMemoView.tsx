@@ -0,0 +1,282 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  Link,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { ArrowBack, AssignmentReturn, Print, ShoppingBag } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { getGeneralConfig, type GeneralConfig } from '../../api/config';
+import {
+  APPROVAL_LINE_STATUSES,
+  APPROVAL_MEMO_STATUSES,
+  fetchApprovalMemo,
+  type ApprovalMemo,
+} from '../../api/approvals';
+import { getDaysOverdue } from '../../utils/approvals';
+import { formatWeight } from '../../utils/format';
+import { ApprovalLinesDialog } from './ApprovalLinesDialog';
+
+const cellSx = { color: '#000000', fontSize: '0.8rem', py: 0.75, px: 1 };
+const headSx = { ...cellSx, fontWeight: 600, borderBottom: '2px solid #000000' };
+
+export function ApprovalMemoView() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const [dialogMode, setDialogMode] = useState<'return' | 'sell' | null>(null);
+
+  const { data: memo, isLoading, error } = useQuery<ApprovalMemo>({
+    queryKey: ['approvals', 'memos', id],
+    queryFn: () => fetchApprovalMemo(id as string),
+    enabled: !!id,
+  });
+
+  const { data: generalConfig } = useQuery<GeneralConfig>({
+    queryKey: ['config', 'general'],
+    queryFn: getGeneralConfig,
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !memo) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Approval memo not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const status = APPROVAL_MEMO_STATUSES.find((option) => option.value === memo.status);
+  const party = memo.customer
+    ? { label: 'Customer', number: memo.customer.customerNumber, ...memo.customer }
+    : memo.supplier
+      ? { label: 'Dealer', number: memo.supplier.supplierNumber, ...memo.supplier }
+      : null;
+  const soldInvoices = memo.lines.filter(
+    (line, index, lines) =>
+      line.invoiceId && lines.findIndex((other) => other.invoiceId === line.invoiceId) === index
+  );
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1000, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 2,
+          }}
+        >
+          <Box>
+            <Button startIcon={<ArrowBack />} onClick={() => navigate('/approvals')} sx={{ color: '#5e3b63', mb: 1 }}>
+              Approval Memos
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {memo.memoNumber}
+              </Typography>
+              <Chip
+                label={status?.label ?? memo.status}
+                color={status?.color ?? 'default'}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+            {memo.outstandingCount > 0 && (
+              <>
+                <Button
+                  variant="outlined"
+                  startIcon={<AssignmentReturn />}
+                  onClick={() => setDialogMode('return')}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Return Pieces
+                </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<ShoppingBag />}
+                  onClick={() => setDialogMode('sell')}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Convert to Sale
+                </Button>
+              </>
+            )}
+            <Button
+              variant="contained"
+              startIcon={<Print />}
+              onClick={() => window.print()}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              Print / PDF
+            </Button>
+          </Box>
+        </Box>
+
+        {memo.isOverdue && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            {memo.outstandingCount} {memo.outstandingCount === 1 ? 'piece was' : 'pieces were'} due back on{' '}
+            {new Date(memo.expectedReturnDate).toLocaleDateString()} and{' '}
+            {memo.outstandingCount === 1 ? 'is' : 'are'} {getDaysOverdue(memo.expectedReturnDate)} days overdue.
+          </Alert>
+        )}
+        {soldInvoices.length > 0 && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Sold on invoice{soldInvoices.length > 1 ? 's' : ''}{' '}
+            {soldInvoices.map((line, index) => (
+              <span key={line.invoiceId}>
+                {index > 0 && ', '}
+                <Link component={RouterLink} to={`/sales/invoices/${line.invoiceId}`} sx={{ fontWeight: 600 }}>
+                  {line.invoiceNumber}
+                </Link>
+              </span>
+            ))}
+            .
+          </Alert>
+        )}
+
+        <Paper className="print-area" sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)', overflowX: 'auto' }}>
+          <Box sx={{ color: '#000000', backgroundColor: '#ffffff', p: 3 }}>
+            {/* Header */}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
+              <Box>
+                <Typography sx={{ fontWeight: 700, fontSize: '1.25rem' }}>
+                  {generalConfig?.organizationName || ''}
+                </Typography>
+                {generalConfig?.address && (
+                  <Typography sx={{ fontSize: '0.8rem', whiteSpace: 'pre-line' }}>{generalConfig.address}</Typography>
+                )}
+                {generalConfig?.phone && (
+                  <Typography sx={{ fontSize: '0.8rem' }}>Phone: {generalConfig.phone}</Typography>
+                )}
+              </Box>
+              <Box sx={{ textAlign: 'right' }}>
+                <Typography sx={{ fontWeight: 700, fontSize: '1.1rem', letterSpacing: 1 }}>APPROVAL MEMO</Typography>
+                <Typography sx={{ fontSize: '0.85rem' }}>No: {memo.memoNumber}</Typography>
+                <Typography sx={{ fontSize: '0.85rem' }}>
+                  Date: {new Date(memo.issueDate).toLocaleDateString()}
+                </Typography>
+                <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>
+                  Return By: {new Date(memo.expectedReturnDate).toLocaleDateString()}
+                </Typography>
+              </Box>
+            </Box>
+
+            {/* Party */}
+            {party && (
+              <Box sx={{ border: '1px solid #000000', p: 1.5, mb: 2 }}>
+                <Typography sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Issued To ({party.label})</Typography>
+                <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>
+                  {party.name} ({party.number})
+                </Typography>
+                {party.phone && <Typography sx={{ fontSize: '0.8rem' }}>Phone: {party.phone}</Typography>}
+                {party.address && (
+                  <Typography sx={{ fontSize: '0.8rem', whiteSpace: 'pre-line' }}>{party.address}</Typography>
+                )}
+                {party.gstin && <Typography sx={{ fontSize: '0.8rem' }}>GSTIN: {party.gstin}</Typography>}
+              </Box>
+            )}
+
+            {/* Pieces */}
+            <Table size="small" sx={{ mb: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={headSx}>#</TableCell>
+                  <TableCell sx={headSx}>Tag</TableCell>
+                  <TableCell sx={headSx}>Description</TableCell>
+                  <TableCell sx={headSx}>Purity</TableCell>
+                  <TableCell sx={headSx} align="right">
+                    Gross Wt
+                  </TableCell>
+                  <TableCell sx={headSx} align="right">
+                    Net Wt
+                  </TableCell>
+                  <TableCell sx={headSx}>Status</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {memo.lines.map((line, index) => {
+                  const lineStatus = APPROVAL_LINE_STATUSES.find((option) => option.value === line.status);
+                  return (
+                    <TableRow key={line.id}>
+                      <TableCell sx={cellSx}>{index + 1}</TableCell>
+                      <TableCell sx={{ ...cellSx, fontFamily: 'monospace' }}>{line.tagNumber}</TableCell>
+                      <TableCell sx={cellSx}>{line.description}</TableCell>
+                      <TableCell sx={cellSx}>{line.purity || '-'}</TableCell>
+                      <TableCell sx={cellSx} align="right">
+                        {formatWeight(line.grossWeight)}
+                      </TableCell>
+                      <TableCell sx={cellSx} align="right">
+                        {formatWeight(line.netWeight)}
+                      </TableCell>
+                      <TableCell sx={cellSx}>
+                        {lineStatus?.label ?? line.status}
+                        {line.returnedDate ? ` ${new Date(line.returnedDate).toLocaleDateString()}` : ''}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                <TableRow>
+                  <TableCell sx={{ ...cellSx, fontWeight: 600 }} colSpan={4}>
+                    {memo.lines.length} {memo.lines.length === 1 ? 'piece' : 'pieces'}
+                  </TableCell>
+                  <TableCell sx={{ ...cellSx, fontWeight: 600 }} align="right">
+                    {formatWeight(memo.totalGrossWeight)}
+                  </TableCell>
+                  <TableCell sx={cellSx} colSpan={2} />
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            <Typography sx={{ fontSize: '0.75rem', mb: 4 }}>
+              Received the above pieces on approval in good condition. They remain the property of{' '}
+              {generalConfig?.organizationName || 'the issuer'} until billed and will be returned or paid for by the
+              return date.
+            </Typography>
+            {memo.notes && <Typography sx={{ fontSize: '0.8rem', mb: 2 }}>Notes: {memo.notes}</Typography>}
+
+            {/* Signatures */}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 6 }}>
+              <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5, px: 2 }}>
+                Receiver's Signature
+              </Typography>
+              <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5, px: 2 }}>
+                Authorised Signatory
+              </Typography>
+            </Box>
+          </Box>
+        </Paper>
+      </Box>
+
+      {dialogMode && <ApprovalLinesDialog memo={memo} mode={dialogMode} onClose={() => setDialogMode(null)} />}
+    </DashboardLayout>
+  );
+}
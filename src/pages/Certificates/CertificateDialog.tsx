@@ -0,0 +1,358 @@
+import { useState, type FormEvent } from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { AttachFile } from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { STONE_TYPES, fetchItem, fetchItemByTag, type Item } from '../../api/items';
+import {
+  CERTIFICATE_LABS,
+  CLARITY_GRADES,
+  CUT_GRADES,
+  DIAMOND_COLOURS,
+  STONE_SHAPES,
+  createCertificate,
+  updateCertificate,
+  uploadCertificateAttachment,
+  type Certificate,
+  type CertificateData,
+} from '../../api/certificates';
+
+interface CertificateDialogProps {
+  /** Certificate to edit, or null to add a new one */
+  certificate: Certificate | null;
+  /** Item the new certificate belongs to; when omitted the item is looked up by tag */
+  item?: Item;
+  onClose: () => void;
+}
+
+/**
+ * Create or edit a diamond or gemstone certificate and attach its scan
+ */
+export function CertificateDialog({ certificate, item, onClose }: CertificateDialogProps) {
+  const queryClient = useQueryClient();
+  const [pickedItem, setPickedItem] = useState<Item | null>(item ?? null);
+  const [tagInput, setTagInput] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [form, setForm] = useState({
+    lab: certificate?.lab ?? 'IGI',
+    certificateNumber: certificate?.certificateNumber ?? '',
+    stoneLineId: certificate?.stoneLineId ?? '',
+    stoneType: certificate?.stoneType ?? 'diamond',
+    caratWeight: certificate ? certificate.caratWeight.toString() : '',
+    shape: certificate?.shape ?? 'round',
+    cut: certificate?.cut ?? '',
+    colour: certificate?.colour ?? '',
+    clarity: certificate?.clarity ?? '',
+    measurements: certificate?.measurements ?? '',
+    notes: certificate?.notes ?? '',
+  });
+
+  // Editing from the certificate list: load the item for its stone lines
+  const { data: certificateItem } = useQuery<Item>({
+    queryKey: ['items', certificate?.itemId],
+    queryFn: () => fetchItem(certificate?.itemId as string),
+    enabled: !!certificate && !item,
+  });
+  const linkedItem = pickedItem ?? certificateItem ?? null;
+
+  const lookupMutation = useMutation({
+    mutationFn: fetchItemByTag,
+    onSuccess: (found) => {
+      setPickedItem(found);
+      setForm((prev) => ({ ...prev, stoneLineId: '' }));
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CertificateData) => {
+      const saved = certificate ? await updateCertificate(certificate.id, data) : await createCertificate(data);
+      return file ? uploadCertificateAttachment(saved.id, file) : saved;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['certificates'] });
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+      onClose();
+    },
+  });
+
+  const handleLookup = (event: FormEvent) => {
+    event.preventDefault();
+    if (tagInput.trim()) {
+      lookupMutation.mutate(tagInput.trim());
+    }
+  };
+
+  const handleStoneLineChange = (stoneLineId: string) => {
+    const stone = linkedItem?.stones.find((line) => line.id === stoneLineId);
+    setForm({
+      ...form,
+      stoneLineId,
+      stoneType: stone?.stoneType ?? form.stoneType,
+      shape: stone?.shape ?? form.shape,
+      caratWeight: stone && stone.pieces === 1 ? stone.weightCarat.toString() : form.caratWeight,
+    });
+  };
+
+  const carat = parseFloat(form.caratWeight);
+  const invalid = !linkedItem || !form.lab || !form.certificateNumber.trim() || !(carat > 0);
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>
+        {certificate ? `Edit Certificate ${certificate.certificateNumber}` : 'New Certificate'}
+      </DialogTitle>
+      <DialogContent>
+        {!item && !certificate && (
+          <Box component="form" onSubmit={handleLookup} sx={{ display: 'flex', gap: 1, mt: 1, mb: 1 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Item tag number"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              error={!!lookupMutation.error}
+              helperText={
+                lookupMutation.error ? getApiErrorMessage(lookupMutation.error, 'Item not found') : undefined
+              }
+            />
+            <Button type="submit" variant="outlined" sx={{ borderColor: '#5e3b63', color: '#5e3b63' }}>
+              Find
+            </Button>
+          </Box>
+        )}
+        {linkedItem && (
+          <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, my: 1 }}>
+            {linkedItem.tagNumber} · {linkedItem.name}
+          </Typography>
+        )}
+
+        <Grid container spacing={2} sx={{ mt: 0.5 }}>
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Lab"
+              value={form.lab}
+              onChange={(e) => setForm({ ...form, lab: e.target.value })}
+            >
+              {CERTIFICATE_LABS.map((lab) => (
+                <MenuItem key={lab.value} value={lab.value}>
+                  {lab.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid size={{ xs: 12, sm: 8 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Certificate Number"
+              value={form.certificateNumber}
+              onChange={(e) => setForm({ ...form, certificateNumber: e.target.value.toUpperCase() })}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 6 }}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Covers"
+              value={form.stoneLineId}
+              onChange={(e) => handleStoneLineChange(e.target.value)}
+              disabled={!linkedItem}
+            >
+              <MenuItem value="">Whole piece</MenuItem>
+              {linkedItem?.stones
+                .filter((stone) => !!stone.id)
+                .map((stone, index) => (
+                  <MenuItem key={stone.id} value={stone.id}>
+                    {`Stone ${index + 1}: `}
+                    {STONE_TYPES.find((type) => type.value === stone.stoneType)?.label ?? stone.stoneType}
+                    {` · ${stone.pieces} pc · ${stone.weightCarat} ct`}
+                  </MenuItem>
+                ))}
+            </TextField>
+          </Grid>
+          <Grid size={{ xs: 6, sm: 3 }}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Stone"
+              value={form.stoneType}
+              onChange={(e) => setForm({ ...form, stoneType: e.target.value })}
+            >
+              {STONE_TYPES.map((type) => (
+                <MenuItem key={type.value} value={type.value}>
+                  {type.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid size={{ xs: 6, sm: 3 }}>
+            <TextField
+              fullWidth
+              size="small"
+              type="number"
+              label="Carat"
+              value={form.caratWeight}
+              onChange={(e) => setForm({ ...form, caratWeight: e.target.value })}
+              slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, sm: 3 }}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Shape"
+              value={form.shape}
+              onChange={(e) => setForm({ ...form, shape: e.target.value })}
+            >
+              {STONE_SHAPES.map((shape) => (
+                <MenuItem key={shape.value} value={shape.value}>
+                  {shape.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid size={{ xs: 6, sm: 3 }}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Cut"
+              value={form.cut}
+              onChange={(e) => setForm({ ...form, cut: e.target.value })}
+            >
+              <MenuItem value="">Not graded</MenuItem>
+              {CUT_GRADES.map((grade) => (
+                <MenuItem key={grade.value} value={grade.value}>
+                  {grade.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid size={{ xs: 6, sm: 3 }}>
+            <Autocomplete
+              freeSolo
+              size="small"
+              options={form.stoneType === 'diamond' ? DIAMOND_COLOURS : []}
+              value={form.colour}
+              onInputChange={(_event, value) => setForm((prev) => ({ ...prev, colour: value }))}
+              renderInput={(params) => <TextField {...params} label="Colour" />}
+            />
+          </Grid>
+          <Grid size={{ xs: 6, sm: 3 }}>
+            <TextField
+              select
+              fullWidth
+              size="small"
+              label="Clarity"
+              value={form.clarity}
+              onChange={(e) => setForm({ ...form, clarity: e.target.value })}
+            >
+              <MenuItem value="">Not graded</MenuItem>
+              {CLARITY_GRADES.map((grade) => (
+                <MenuItem key={grade} value={grade}>
+                  {grade}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Grid>
+          <Grid size={{ xs: 12, sm: 6 }}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Measurements"
+              placeholder="e.g. 6.45 x 6.48 x 3.98 mm"
+              value={form.measurements}
+              onChange={(e) => setForm({ ...form, measurements: e.target.value })}
+            />
+          </Grid>
+          <Grid size={12}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Notes"
+              multiline
+              rows={2}
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+          </Grid>
+          <Grid size={12}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap' }}>
+              <Button
+                component="label"
+                variant="outlined"
+                startIcon={<AttachFile />}
+                sx={{ borderColor: '#5e3b63', color: '#5e3b63' }}
+              >
+                {certificate?.attachmentUrl ? 'Replace Scan' : 'Attach Scan'}
+                <input
+                  hidden
+                  type="file"
+                  accept="application/pdf,image/*"
+                  onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                />
+              </Button>
+              <Typography variant="body2" sx={{ color: '#666666' }}>
+                {file?.name ?? certificate?.attachmentName ?? 'PDF or image of the certificate'}
+              </Typography>
+            </Box>
+          </Grid>
+        </Grid>
+
+        {saveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(saveMutation.error, 'Failed to save certificate')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={invalid || saveMutation.isPending}
+          onClick={() =>
+            linkedItem &&
+            saveMutation.mutate({
+              lab: form.lab,
+              certificateNumber: form.certificateNumber.trim(),
+              itemId: linkedItem.id,
+              stoneLineId: form.stoneLineId || null,
+              stoneType: form.stoneType,
+              caratWeight: carat,
+              shape: form.shape || null,
+              cut: form.cut || null,
+              colour: form.colour.trim() || null,
+              clarity: form.clarity || null,
+              measurements: form.measurements.trim() || null,
+              notes: form.notes.trim() || null,
+            })
+          }
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
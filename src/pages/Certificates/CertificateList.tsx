@@ -0,0 +1,331 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  IconButton,
+  Link,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Add, Search, FilterList, Clear, Edit, Description } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { STONE_TYPES } from '../../api/items';
+import {
+  CERTIFICATE_LABS,
+  CUT_GRADES,
+  STONE_SHAPES,
+  fetchCertificates,
+  type Certificate,
+  type CertificateFilters,
+} from '../../api/certificates';
+import { CertificateDialog } from './CertificateDialog';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+/**
+ * Diamond and gemstone certificates across all items
+ */
+export function CertificateList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+
+  const [filters, setFilters] = useState<CertificateFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<CertificateFilters>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [dialogCertificate, setDialogCertificate] = useState<Certificate | null | undefined>(undefined);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['certificates', 'list', appliedFilters],
+    queryFn: () => fetchCertificates(appliedFilters),
+  });
+
+  const certificates = data?.data ?? [];
+
+  const handleChangeFilter = (key: keyof CertificateFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const paginatedCertificates = certificates.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Certificates
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => setDialogCertificate(null)}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            New Certificate
+          </Button>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder="Certificate or tag number..."
+                value={filters.search || ''}
+                onChange={(e) => handleChangeFilter('search', e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Lab"
+                fullWidth
+                value={filters.lab || ''}
+                onChange={(e) => handleChangeFilter('lab', e.target.value)}
+              >
+                <MenuItem value="">All Labs</MenuItem>
+                {CERTIFICATE_LABS.map((lab) => (
+                  <MenuItem key={lab.value} value={lab.value}>
+                    {lab.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Shape"
+                fullWidth
+                value={filters.shape || ''}
+                onChange={(e) => handleChangeFilter('shape', e.target.value)}
+              >
+                <MenuItem value="">All Shapes</MenuItem>
+                {STONE_SHAPES.map((shape) => (
+                  <MenuItem key={shape.value} value={shape.value}>
+                    {shape.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading certificates. Please try again.'}
+              </Alert>
+            </Box>
+          ) : certificates.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No certificates found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Certificate</TableCell>
+                      <TableCell sx={headCellSx}>Tag</TableCell>
+                      <TableCell sx={headCellSx}>Stone</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Carat
+                      </TableCell>
+                      <TableCell sx={headCellSx}>Shape</TableCell>
+                      <TableCell sx={headCellSx}>Colour / Clarity</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>Cut</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        Measurements
+                      </TableCell>
+                      <TableCell sx={headCellSx} />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedCertificates.map((certificate) => (
+                      <TableRow key={certificate.id} hover>
+                        <TableCell sx={bodyCellSx}>
+                          <Box component="span" sx={{ fontWeight: 600 }}>
+                            {certificate.lab}
+                          </Box>{' '}
+                          <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                            {certificate.certificateNumber}
+                          </Box>
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+                          <Link
+                            component="button"
+                            onClick={() => navigate(`/items/${certificate.itemId}`)}
+                            sx={{ color: '#5e3b63', fontFamily: 'monospace' }}
+                          >
+                            {certificate.tagNumber}
+                          </Link>
+                        </TableCell>
+                        <TableCell sx={bodyCellSx}>
+                          {STONE_TYPES.find((type) => type.value === certificate.stoneType)?.label ??
+                            certificate.stoneType}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {certificate.caratWeight.toFixed(3)}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx}>
+                          {STONE_SHAPES.find((shape) => shape.value === certificate.shape)?.label ??
+                            (certificate.shape || '-')}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx}>
+                          {[certificate.colour, certificate.clarity].filter(Boolean).join(' / ') || '-'}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                          {CUT_GRADES.find((grade) => grade.value === certificate.cut)?.label ?? '-'}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                          {certificate.measurements || '-'}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, whiteSpace: 'nowrap' }} align="right">
+                          {certificate.attachmentUrl && (
+                            <IconButton
+                              size="small"
+                              aria-label="open certificate scan"
+                              href={certificate.attachmentUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              sx={{ color: '#5e3b63' }}
+                            >
+                              <Description fontSize="small" />
+                            </IconButton>
+                          )}
+                          <IconButton
+                            size="small"
+                            aria-label="edit certificate"
+                            onClick={() => setDialogCertificate(certificate)}
+                            sx={{ color: '#5e3b63' }}
+                          >
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={certificates.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+
+      {dialogCertificate !== undefined && (
+        <CertificateDialog certificate={dialogCertificate} onClose={() => setDialogCertificate(undefined)} />
+      )}
+    </DashboardLayout>
+  );
+}
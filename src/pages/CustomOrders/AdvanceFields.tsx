@@ -0,0 +1,106 @@
+import { FormControlLabel, Grid, MenuItem, Switch, TextField, Typography } from '@mui/material';
+import { useMetalRates } from '../../hooks/useMetalRates';
+import { PAYMENT_MODES } from '../../api/config';
+import type { Metal } from '../../api/metalRates';
+import { convertAdvanceToWeight, type AdvanceInput } from '../../utils/customOrders';
+import { formatAmount, formatWeight } from '../../utils/format';
+
+interface AdvanceFieldsProps {
+  value: AdvanceInput;
+  onChange: (value: AdvanceInput) => void;
+  metal: Metal;
+  purity: string;
+  decimals: number;
+}
+
+/**
+ * Amount, payment mode and optional rate lock for a custom order advance.
+ * With the lock on, the advance is shown as the metal weight it buys at the
+ * day's rate for the order's purity.
+ */
+export function AdvanceFields({ value, onChange, metal, purity, decimals }: AdvanceFieldsProps) {
+  const { getRate } = useMetalRates();
+  const todayRate = getRate(metal, purity)?.ratePerGram;
+  const amount = parseFloat(value.amount) || 0;
+  const ratePerGram = parseFloat(value.ratePerGram) || todayRate || 0;
+  const lockedWeight = convertAdvanceToWeight(amount, ratePerGram);
+
+  return (
+    <Grid container spacing={2}>
+      <Grid size={{ xs: 12, sm: 4 }}>
+        <TextField
+          type="number"
+          fullWidth
+          size="small"
+          label="Advance Amount"
+          value={value.amount}
+          onChange={(e) => onChange({ ...value, amount: e.target.value })}
+          slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+        />
+      </Grid>
+      <Grid size={{ xs: 6, sm: 4 }}>
+        <TextField
+          select
+          fullWidth
+          size="small"
+          label="Mode"
+          value={value.mode}
+          onChange={(e) => onChange({ ...value, mode: e.target.value })}
+        >
+          {PAYMENT_MODES.map((mode) => (
+            <MenuItem key={mode.value} value={mode.value}>
+              {mode.label}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Grid>
+      <Grid size={{ xs: 6, sm: 4 }}>
+        {value.mode !== 'cash' && (
+          <TextField
+            fullWidth
+            size="small"
+            label="Reference"
+            value={value.reference}
+            onChange={(e) => onChange({ ...value, reference: e.target.value })}
+          />
+        )}
+      </Grid>
+      <Grid size={{ xs: 12, sm: 4 }}>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={value.rateLocked}
+              onChange={(e) => onChange({ ...value, rateLocked: e.target.checked })}
+              sx={{ '& .Mui-checked': { color: '#5e3b63' } }}
+            />
+          }
+          label="Lock today's rate"
+        />
+      </Grid>
+      {value.rateLocked && (
+        <>
+          <Grid size={{ xs: 12, sm: 4 }}>
+            <TextField
+              type="number"
+              fullWidth
+              size="small"
+              label={`Rate / g (${purity})`}
+              placeholder={todayRate?.toString()}
+              value={value.ratePerGram}
+              onChange={(e) => onChange({ ...value, ratePerGram: e.target.value })}
+              helperText={todayRate ? undefined : `No ${metal} ${purity} rate entered today`}
+              slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 4 }} sx={{ display: 'flex', alignItems: 'center' }}>
+            {lockedWeight > 0 && (
+              <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600 }}>
+                Books {formatWeight(lockedWeight)} of {purity} at {formatAmount(ratePerGram, decimals)}/g
+              </Typography>
+            )}
+          </Grid>
+        </>
+      )}
+    </Grid>
+  );
+}
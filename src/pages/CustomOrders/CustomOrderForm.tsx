@@ -0,0 +1,461 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  IconButton,
+  Snackbar,
+  Alert,
+  Divider,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { AddPhotoAlternate, Close } from '@mui/icons-material';
+import { useForm, useWatch, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { CustomerSelect } from '../../components/Customer/CustomerSelect';
+import { useMetalRates } from '../../hooks/useMetalRates';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import type { Customer } from '../../api/customers';
+import { METALS, METAL_PURITIES } from '../../api/metalRates';
+import { createCustomOrder, uploadCustomOrderImages } from '../../api/customOrders';
+import { emptyAdvance, toAdvanceData, type AdvanceInput } from '../../utils/customOrders';
+import { AdvanceFields } from './AdvanceFields';
+
+const customOrderSchema = z.object({
+  customerId: z.string().min(1, 'Customer is required'),
+  orderDate: z.string().min(1, 'Date is required'),
+  deliveryDate: z.string(),
+  designDescription: z.string().min(1, 'Describe the design'),
+  metal: z.enum(['gold', 'silver', 'platinum']),
+  purity: z.string().min(1, 'Purity is required'),
+  targetWeight: z
+    .string()
+    .min(1, 'Target weight is required')
+    .refine((val) => parseFloat(val) > 0, { message: 'Weight must be greater than 0' }),
+  estimatedAmount: z.string().refine((val) => !val || parseFloat(val) >= 0, {
+    message: 'Amount must be a positive number',
+  }),
+  notes: z.string(),
+});
+
+type CustomOrderFormData = z.infer<typeof customOrderSchema>;
+
+interface ImagePreview {
+  file: File;
+  url: string;
+}
+
+const sectionTitleSx = {
+  color: '#0d0421',
+  fontWeight: 600,
+  mb: 1,
+  fontSize: { xs: '1rem', sm: '1.1rem' },
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Book a made-to-order piece: the design brief with reference images, the
+ * target weight and purity, and the advance taken at booking.
+ */
+export function CustomOrderForm() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { getRate } = useMetalRates();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [images, setImages] = useState<ImagePreview[]>([]);
+  const [advance, setAdvance] = useState<AdvanceInput>(emptyAdvance);
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+  } = useForm<CustomOrderFormData>({
+    resolver: zodResolver(customOrderSchema),
+    defaultValues: {
+      customerId: '',
+      orderDate: today(),
+      deliveryDate: '',
+      designDescription: '',
+      metal: 'gold',
+      purity: '22K',
+      targetWeight: '',
+      estimatedAmount: '',
+      notes: '',
+    },
+  });
+
+  const metal = useWatch({ control, name: 'metal' });
+  const purity = useWatch({ control, name: 'purity' });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CustomOrderFormData) => {
+      const order = await createCustomOrder({
+        orderDate: data.orderDate,
+        deliveryDate: data.deliveryDate || null,
+        customerId: data.customerId,
+        designDescription: data.designDescription,
+        metal: data.metal,
+        purity: data.purity,
+        targetWeight: parseFloat(data.targetWeight),
+        estimatedAmount: data.estimatedAmount ? parseFloat(data.estimatedAmount) : null,
+        notes: data.notes || null,
+        advance: toAdvanceData(advance, data.orderDate, getRate(data.metal, data.purity)?.ratePerGram),
+      });
+      return images.length > 0 ? uploadCustomOrderImages(order.id, images.map((image) => image.file)) : order;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ['customOrders'] });
+      navigate(`/custom-orders/${order.id}`);
+    },
+    onError: (error) => setSnackbarMessage(getApiErrorMessage(error, 'Failed to save custom order')),
+  });
+
+  const handleAddImages = (files: FileList | null) => {
+    if (!files) return;
+    const added = Array.from(files).map((file) => ({ file, url: URL.createObjectURL(file) }));
+    setImages((prev) => [...prev, ...added]);
+  };
+
+  const handleRemoveImage = (index: number) => {
+    URL.revokeObjectURL(images[index].url);
+    setImages((prev) => prev.filter((_image, i) => i !== index));
+  };
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 3,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          New Custom Order
+        </Typography>
+
+        <Card elevation={0} sx={{ border: '1px solid #e0e0e0', borderRadius: 2 }}>
+          <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+            <form onSubmit={handleSubmit((data) => saveMutation.mutate(data))}>
+              <Grid container spacing={3}>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <CustomerSelect
+                    value={customer}
+                    label="Customer"
+                    placeholder="Search by name, phone or customer no."
+                    onChange={(selected) => {
+                      setCustomer(selected);
+                      setValue('customerId', selected?.id ?? '', { shouldValidate: true });
+                    }}
+                    error={errors.customerId?.message}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="orderDate"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="date"
+                        label="Booked On"
+                        fullWidth
+                        size="small"
+                        error={!!errors.orderDate}
+                        helperText={errors.orderDate?.message}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="deliveryDate"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="date"
+                        label="Delivery Date"
+                        fullWidth
+                        size="small"
+                        slotProps={{ inputLabel: { shrink: true } }}
+                      />
+                    )}
+                  />
+                </Grid>
+
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    Design
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 6, sm: 3 }}>
+                  <Controller
+                    name="metal"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        select
+                        label="Metal"
+                        fullWidth
+                        size="small"
+                        onChange={(e) => {
+                          field.onChange(e);
+                          setValue('purity', '');
+                        }}
+                      >
+                        {METALS.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 6, sm: 3 }}>
+                  <Controller
+                    name="purity"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        select
+                        label="Purity"
+                        fullWidth
+                        size="small"
+                        error={!!errors.purity}
+                        helperText={errors.purity?.message}
+                      >
+                        {METAL_PURITIES[metal].map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 6, sm: 3 }}>
+                  <Controller
+                    name="targetWeight"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="number"
+                        label="Target Weight (g)"
+                        fullWidth
+                        size="small"
+                        error={!!errors.targetWeight}
+                        helperText={errors.targetWeight?.message}
+                        slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 6, sm: 3 }}>
+                  <Controller
+                    name="estimatedAmount"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="number"
+                        label="Estimated Amount"
+                        fullWidth
+                        size="small"
+                        error={!!errors.estimatedAmount}
+                        helperText={errors.estimatedAmount?.message}
+                        slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={12}>
+                  <Controller
+                    name="designDescription"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        label="Design Brief"
+                        placeholder="e.g. Bridal choker, temple design with rubies, 16 inch with adjustable dori"
+                        fullWidth
+                        multiline
+                        rows={3}
+                        error={!!errors.designDescription}
+                        helperText={errors.designDescription?.message}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={12}>
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <Typography variant="body2" sx={{ color: '#0d0421', fontWeight: 600 }}>
+                      Reference Images
+                    </Typography>
+                    <Button
+                      component="label"
+                      startIcon={<AddPhotoAlternate />}
+                      sx={{ color: '#5e3b63', fontWeight: 600 }}
+                    >
+                      Add Images
+                      <input
+                        hidden
+                        multiple
+                        type="file"
+                        accept="image/*"
+                        onChange={(e) => {
+                          handleAddImages(e.target.files);
+                          e.target.value = '';
+                        }}
+                      />
+                    </Button>
+                  </Box>
+                  {images.length === 0 ? (
+                    <Typography variant="body2" sx={{ color: '#666666' }}>
+                      Add sketches, catalogue pictures or screenshots the customer shared.
+                    </Typography>
+                  ) : (
+                    <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+                      {images.map((image, index) => (
+                        <Box key={image.url} sx={{ position: 'relative' }}>
+                          <Box
+                            component="img"
+                            src={image.url}
+                            alt={image.file.name}
+                            sx={{
+                              width: 120,
+                              height: 120,
+                              objectFit: 'cover',
+                              borderRadius: 1,
+                              border: '1px solid #e0e0e0',
+                            }}
+                          />
+                          <IconButton
+                            size="small"
+                            aria-label="remove image"
+                            onClick={() => handleRemoveImage(index)}
+                            sx={{
+                              position: 'absolute',
+                              top: 4,
+                              right: 4,
+                              backgroundColor: 'rgba(255, 255, 255, 0.85)',
+                              '&:hover': { backgroundColor: '#ffffff' },
+                            }}
+                          >
+                            <Close fontSize="small" />
+                          </IconButton>
+                        </Box>
+                      ))}
+                    </Box>
+                  )}
+                </Grid>
+
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    Advance
+                  </Typography>
+                  {purity ? (
+                    <AdvanceFields
+                      value={advance}
+                      onChange={setAdvance}
+                      metal={metal}
+                      purity={purity}
+                      decimals={decimals}
+                    />
+                  ) : (
+                    <Typography variant="body2" sx={{ color: '#666666' }}>
+                      Select the purity to take an advance.
+                    </Typography>
+                  )}
+                </Grid>
+
+                <Grid size={12}>
+                  <Controller
+                    name="notes"
+                    control={control}
+                    render={({ field }) => <TextField {...field} label="Notes" fullWidth multiline rows={2} />}
+                  />
+                </Grid>
+
+                {/* Action Buttons */}
+                <Grid size={12}>
+                  <Divider sx={{ my: 2 }} />
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      flexDirection: { xs: 'column', sm: 'row' },
+                      justifyContent: 'flex-end',
+                      gap: 2,
+                    }}
+                  >
+                    <Button
+                      type="button"
+                      variant="outlined"
+                      onClick={() => navigate('/custom-orders')}
+                      fullWidth={isMobile}
+                      sx={{ borderColor: '#5e3b63', color: '#5e3b63', px: 3, fontWeight: 600 }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant="contained"
+                      disabled={saveMutation.isPending}
+                      fullWidth={isMobile}
+                      sx={{
+                        backgroundColor: '#5e3b63',
+                        px: 3,
+                        fontWeight: 600,
+                        '&:hover': { backgroundColor: '#4a2d4f' },
+                      }}
+                    >
+                      Book Order
+                    </Button>
+                  </Box>
+                </Grid>
+              </Grid>
+            </form>
+          </CardContent>
+        </Card>
+      </Box>
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
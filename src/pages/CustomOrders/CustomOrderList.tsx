@@ -0,0 +1,308 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  Chip,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Add, Search, FilterList, Clear } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { CUSTOM_ORDER_STATUSES, fetchCustomOrders, type CustomOrderFilters } from '../../api/customOrders';
+import { formatAmount, formatWeight } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+export function CustomOrderList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const today = new Date().toISOString().slice(0, 10);
+
+  const [filters, setFilters] = useState<CustomOrderFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<CustomOrderFilters>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['customOrders', 'list', appliedFilters],
+    queryFn: () => fetchCustomOrders(appliedFilters),
+  });
+
+  const orders = data?.data ?? [];
+
+  const handleChangeFilter = (key: keyof CustomOrderFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const paginatedOrders = orders.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Custom Orders
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => navigate('/custom-orders/new')}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            New Order
+          </Button>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder="Order number or customer..."
+                value={filters.search || ''}
+                onChange={(e) => handleChangeFilter('search', e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Status"
+                fullWidth
+                value={filters.status || ''}
+                onChange={(e) => handleChangeFilter('status', e.target.value)}
+              >
+                <MenuItem value="">All Statuses</MenuItem>
+                {CUSTOM_ORDER_STATUSES.map((status) => (
+                  <MenuItem key={status.value} value={status.value}>
+                    {status.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="Start Date"
+                value={filters.startDate || ''}
+                onChange={(e) => handleChangeFilter('startDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="End Date"
+                value={filters.endDate || ''}
+                onChange={(e) => handleChangeFilter('endDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading custom orders. Please try again.'}
+              </Alert>
+            </Box>
+          ) : orders.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No custom orders found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Order No.</TableCell>
+                      <TableCell sx={headCellSx}>Booked</TableCell>
+                      <TableCell sx={headCellSx}>Customer</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>Design</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Target Wt
+                      </TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Advance
+                      </TableCell>
+                      <TableCell sx={headCellSx}>Delivery</TableCell>
+                      <TableCell sx={headCellSx}>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedOrders.map((order) => {
+                      const status = CUSTOM_ORDER_STATUSES.find((option) => option.value === order.status);
+                      const isLate =
+                        !!order.deliveryDate &&
+                        order.deliveryDate.slice(0, 10) < today &&
+                        order.status !== 'delivered' &&
+                        order.status !== 'cancelled';
+                      return (
+                        <TableRow
+                          key={order.id}
+                          hover
+                          onClick={() => navigate(`/custom-orders/${order.id}`)}
+                          sx={{ cursor: 'pointer' }}
+                        >
+                          <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{order.orderNumber}</TableCell>
+                          <TableCell sx={bodyCellSx}>{new Date(order.orderDate).toLocaleDateString()}</TableCell>
+                          <TableCell sx={bodyCellSx}>{order.customer.name}</TableCell>
+                          <TableCell
+                            sx={{
+                              ...bodyCellSx,
+                              display: { xs: 'none', md: 'table-cell' },
+                              maxWidth: 280,
+                              overflow: 'hidden',
+                              textOverflow: 'ellipsis',
+                              whiteSpace: 'nowrap',
+                            }}
+                          >
+                            {order.designDescription}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx} align="right">
+                            {formatWeight(order.targetWeight)} {order.purity}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx} align="right">
+                            {formatAmount(order.totalAdvance, decimals)}
+                          </TableCell>
+                          <TableCell sx={{ ...bodyCellSx, ...(isLate && { color: '#d32f2f', fontWeight: 600 }) }}>
+                            {order.deliveryDate ? new Date(order.deliveryDate).toLocaleDateString() : '-'}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            <Chip
+                              label={status?.label ?? order.status}
+                              color={status?.color ?? 'default'}
+                              size="small"
+                              variant="outlined"
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={orders.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
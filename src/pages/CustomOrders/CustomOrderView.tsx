@@ -0,0 +1,598 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  Grid,
+  MenuItem,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, Block, Payments, Update, PointOfSale, Print } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { paymentModeLabel } from '../../components/Invoice/templates';
+import { useMetalRates } from '../../hooks/useMetalRates';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import { getGeneralConfig, type GeneralConfig } from '../../api/config';
+import {
+  CUSTOM_ORDER_PRODUCTION_STATUSES,
+  CUSTOM_ORDER_STATUSES,
+  addCustomOrderAdvance,
+  cancelCustomOrder,
+  fetchCustomOrder,
+  updateCustomOrderStatus,
+  type CustomOrder,
+  type CustomOrderStatus,
+} from '../../api/customOrders';
+import { calculateAdvanceCredit, emptyAdvance, toAdvanceData, type AdvanceInput } from '../../utils/customOrders';
+import { formatAmount, formatWeight } from '../../utils/format';
+import { AdvanceFields } from './AdvanceFields';
+
+const cellSx = { color: '#000000', fontSize: '0.85rem', py: 0.75, px: 1 };
+const headSx = { ...cellSx, fontWeight: 700, borderBottom: '1px solid #000000' };
+const labelCellSx = { ...cellSx, fontWeight: 600, width: 180 };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function CustomOrderView() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const { getRate } = useMetalRates();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [advanceDialogOpen, setAdvanceDialogOpen] = useState(false);
+  const [advance, setAdvance] = useState<AdvanceInput>(emptyAdvance);
+  const [statusDialogOpen, setStatusDialogOpen] = useState(false);
+  const [nextStatus, setNextStatus] = useState<CustomOrderStatus>('booked');
+  const [statusNote, setStatusNote] = useState('');
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+
+  const { data: order, isLoading, error } = useQuery<CustomOrder>({
+    queryKey: ['customOrders', id],
+    queryFn: () => fetchCustomOrder(id as string),
+    enabled: !!id,
+  });
+
+  const { data: generalConfig } = useQuery<GeneralConfig>({
+    queryKey: ['config', 'general'],
+    queryFn: getGeneralConfig,
+  });
+
+  const todayRate = order ? getRate(order.metal, order.purity)?.ratePerGram : undefined;
+
+  const advanceMutation = useMutation({
+    mutationFn: () => {
+      const data = toAdvanceData(advance, today(), todayRate);
+      if (!data) {
+        return Promise.reject(new Error('Enter the advance amount'));
+      }
+      return addCustomOrderAdvance(id as string, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customOrders'] });
+      setAdvanceDialogOpen(false);
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: () => updateCustomOrderStatus(id as string, nextStatus, statusNote.trim() || null),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customOrders'] });
+      setStatusDialogOpen(false);
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelCustomOrder(id as string),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customOrders'] });
+      setCancelDialogOpen(false);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Custom order not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const status = CUSTOM_ORDER_STATUSES.find((option) => option.value === order.status);
+  const isOpen = order.status !== 'delivered' && order.status !== 'cancelled';
+  const credit = calculateAdvanceCredit(order.advances, todayRate, decimals);
+
+  const handleDeliver = () => {
+    navigate('/sales/pos', {
+      state: {
+        customOrder: {
+          id: order.id,
+          orderNumber: order.orderNumber,
+          metal: order.metal,
+          purity: order.purity,
+          advances: order.advances,
+        },
+        customer: order.customer,
+      },
+    });
+  };
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1000, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 2,
+          }}
+        >
+          <Box>
+            <Button
+              startIcon={<ArrowBack />}
+              onClick={() => navigate('/custom-orders')}
+              sx={{ color: '#5e3b63', mb: 1 }}
+            >
+              Custom Orders
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {order.orderNumber}
+              </Typography>
+              <Chip
+                label={status?.label ?? order.status}
+                color={status?.color ?? 'default'}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+            {isOpen && (
+              <>
+                <Button
+                  variant="outlined"
+                  startIcon={<Block />}
+                  onClick={() => setCancelDialogOpen(true)}
+                  sx={{ borderColor: '#d32f2f', color: '#d32f2f', fontWeight: 600 }}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<Payments />}
+                  onClick={() => {
+                    setAdvance(emptyAdvance);
+                    setAdvanceDialogOpen(true);
+                  }}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Add Advance
+                </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<Update />}
+                  onClick={() => {
+                    setNextStatus(order.status);
+                    setStatusNote('');
+                    setStatusDialogOpen(true);
+                  }}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Update Status
+                </Button>
+              </>
+            )}
+            {order.status === 'ready' && (
+              <Button
+                variant="outlined"
+                startIcon={<PointOfSale />}
+                onClick={handleDeliver}
+                sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+              >
+                Deliver & Bill
+              </Button>
+            )}
+            <Button
+              variant="contained"
+              startIcon={<Print />}
+              onClick={() => window.print()}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              Print
+            </Button>
+          </Box>
+        </Box>
+
+        {order.invoiceId && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Delivered on invoice{' '}
+            <RouterLink to={`/sales/invoices/${order.invoiceId}`} style={{ color: '#5e3b63', fontWeight: 600 }}>
+              {order.invoiceNumber}
+            </RouterLink>
+            .
+          </Alert>
+        )}
+
+        <Paper className="print-area" sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)', overflowX: 'auto', mb: 3 }}>
+          <Box sx={{ color: '#000000', backgroundColor: '#ffffff', p: 3 }}>
+            {/* Header */}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
+              <Box>
+                <Typography sx={{ fontWeight: 700, fontSize: '1.25rem' }}>
+                  {generalConfig?.organizationName || ''}
+                </Typography>
+                {generalConfig?.address && (
+                  <Typography sx={{ fontSize: '0.8rem', whiteSpace: 'pre-line' }}>{generalConfig.address}</Typography>
+                )}
+                {generalConfig?.phone && (
+                  <Typography sx={{ fontSize: '0.8rem' }}>Phone: {generalConfig.phone}</Typography>
+                )}
+              </Box>
+              <Box sx={{ textAlign: 'right' }}>
+                <Typography sx={{ fontWeight: 700, fontSize: '1.1rem', letterSpacing: 1 }}>ORDER BOOKING</Typography>
+                <Typography sx={{ fontSize: '0.85rem' }}>No: {order.orderNumber}</Typography>
+                <Typography sx={{ fontSize: '0.85rem' }}>
+                  Booked: {new Date(order.orderDate).toLocaleDateString()}
+                </Typography>
+                {order.deliveryDate && (
+                  <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>
+                    Delivery: {new Date(order.deliveryDate).toLocaleDateString()}
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+
+            {/* Customer */}
+            <Box sx={{ border: '1px solid #000000', p: 1.5, mb: 2 }}>
+              <Typography sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Customer</Typography>
+              <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>
+                {order.customer.name} ({order.customer.customerNumber})
+              </Typography>
+              {order.customer.phone && (
+                <Typography sx={{ fontSize: '0.8rem' }}>Phone: {order.customer.phone}</Typography>
+              )}
+            </Box>
+
+            {/* Design */}
+            <Table size="small" sx={{ mb: 2 }}>
+              <TableBody>
+                <TableRow>
+                  <TableCell sx={labelCellSx}>Design</TableCell>
+                  <TableCell sx={{ ...cellSx, whiteSpace: 'pre-line' }}>{order.designDescription}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell sx={labelCellSx}>Metal</TableCell>
+                  <TableCell sx={{ ...cellSx, textTransform: 'capitalize' }}>
+                    {order.metal} {order.purity}
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell sx={labelCellSx}>Target Weight</TableCell>
+                  <TableCell sx={cellSx}>approx. {formatWeight(order.targetWeight)}</TableCell>
+                </TableRow>
+                {order.estimatedAmount !== null && (
+                  <TableRow>
+                    <TableCell sx={labelCellSx}>Estimated Amount</TableCell>
+                    <TableCell sx={cellSx}>{formatAmount(order.estimatedAmount, decimals)}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            {/* Advances */}
+            <Typography sx={{ fontWeight: 700, fontSize: '0.9rem', mb: 0.5 }}>Advances Received</Typography>
+            {order.advances.length === 0 ? (
+              <Typography sx={{ fontSize: '0.85rem', mb: 2 }}>No advance received.</Typography>
+            ) : (
+              <Table size="small" sx={{ mb: 2 }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={headSx}>Date</TableCell>
+                    <TableCell sx={headSx}>Mode</TableCell>
+                    <TableCell sx={headSx} align="right">
+                      Amount
+                    </TableCell>
+                    <TableCell sx={headSx} align="right">
+                      Rate Locked
+                    </TableCell>
+                    <TableCell sx={headSx} align="right">
+                      Metal Booked
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {order.advances.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell sx={cellSx}>{new Date(entry.receivedDate).toLocaleDateString()}</TableCell>
+                      <TableCell sx={cellSx}>
+                        {paymentModeLabel(entry.mode)}
+                        {entry.reference ? ` (${entry.reference})` : ''}
+                      </TableCell>
+                      <TableCell sx={cellSx} align="right">
+                        {formatAmount(entry.amount, decimals)}
+                      </TableCell>
+                      <TableCell sx={cellSx} align="right">
+                        {entry.rateLocked && entry.ratePerGram ? `${formatAmount(entry.ratePerGram, decimals)}/g` : '-'}
+                      </TableCell>
+                      <TableCell sx={cellSx} align="right">
+                        {entry.lockedWeight ? formatWeight(entry.lockedWeight) : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell sx={{ ...cellSx, fontWeight: 700 }} colSpan={2}>
+                      Total
+                    </TableCell>
+                    <TableCell sx={{ ...cellSx, fontWeight: 700 }} align="right">
+                      {formatAmount(order.totalAdvance, decimals)}
+                    </TableCell>
+                    <TableCell sx={cellSx} />
+                    <TableCell sx={{ ...cellSx, fontWeight: 700 }} align="right">
+                      {order.totalLockedWeight > 0 ? formatWeight(order.totalLockedWeight) : '-'}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+
+            <Typography sx={{ fontSize: '0.75rem', mb: 4 }}>
+              Advances are adjusted on the final invoice. Metal booked at a locked rate is valued at that day's rate or
+              the locked rate, whichever is higher. Final weight and amount may vary with the finished piece.
+            </Typography>
+            {order.notes && <Typography sx={{ fontSize: '0.8rem', mb: 2 }}>Notes: {order.notes}</Typography>}
+
+            {/* Signatures */}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 6 }}>
+              <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5, px: 2 }}>
+                Customer Signature
+              </Typography>
+              <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5, px: 2 }}>
+                Authorised Signatory
+              </Typography>
+            </Box>
+          </Box>
+        </Paper>
+
+        <Grid container spacing={3}>
+          <Grid size={{ xs: 12, md: 7 }}>
+            <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)', height: '100%' }}>
+              <Typography
+                variant="h6"
+                sx={{ color: '#000000', fontWeight: 600, mb: 2, borderBottom: '2px solid #5e3b63', pb: 1 }}
+              >
+                Design References
+              </Typography>
+              {order.designImages.length === 0 ? (
+                <Typography sx={{ color: '#000000' }}>No reference images.</Typography>
+              ) : (
+                <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+                  {order.designImages.map((image) => (
+                    <Box key={image.id} component="a" href={image.url} target="_blank" rel="noopener noreferrer">
+                      <Box
+                        component="img"
+                        src={image.url}
+                        alt={image.name}
+                        sx={{
+                          width: 140,
+                          height: 140,
+                          objectFit: 'cover',
+                          borderRadius: 1,
+                          border: '1px solid #e0e0e0',
+                        }}
+                      />
+                    </Box>
+                  ))}
+                </Box>
+              )}
+              {isOpen && order.advances.length > 0 && (
+                <Typography variant="body2" sx={{ color: '#666666', mt: 2 }}>
+                  At today's rate the advances are worth {formatAmount(credit.value, decimals)} against the final
+                  invoice.
+                </Typography>
+              )}
+            </Paper>
+          </Grid>
+          <Grid size={{ xs: 12, md: 5 }}>
+            <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)', height: '100%' }}>
+              <Typography
+                variant="h6"
+                sx={{ color: '#000000', fontWeight: 600, mb: 2, borderBottom: '2px solid #5e3b63', pb: 1 }}
+              >
+                Status History
+              </Typography>
+              {order.statusHistory.map((change) => {
+                const changeStatus = CUSTOM_ORDER_STATUSES.find((option) => option.value === change.status);
+                return (
+                  <Box key={change.id} sx={{ borderLeft: '2px solid #5e3b63', pl: 1.5, pb: 1.5 }}>
+                    <Typography variant="body2" sx={{ color: '#000000', fontWeight: 600 }}>
+                      {changeStatus?.label ?? change.status}
+                    </Typography>
+                    <Typography variant="caption" sx={{ color: '#666666' }}>
+                      {new Date(change.changedAt).toLocaleString()}
+                      {change.changedByName ? ` · ${change.changedByName}` : ''}
+                    </Typography>
+                    {change.note && (
+                      <Typography variant="body2" sx={{ color: '#000000' }}>
+                        {change.note}
+                      </Typography>
+                    )}
+                  </Box>
+                );
+              })}
+            </Paper>
+          </Grid>
+        </Grid>
+      </Box>
+
+      {/* Advance Dialog */}
+      <Dialog open={advanceDialogOpen} onClose={() => setAdvanceDialogOpen(false)} fullWidth maxWidth="sm">
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Add Advance</DialogTitle>
+        <DialogContent>
+          <Box sx={{ mt: 1 }}>
+            <AdvanceFields
+              value={advance}
+              onChange={setAdvance}
+              metal={order.metal}
+              purity={order.purity}
+              decimals={decimals}
+            />
+          </Box>
+          {advanceMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(advanceMutation.error, 'Failed to record advance')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setAdvanceDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => advanceMutation.mutate()}
+            variant="contained"
+            disabled={!(parseFloat(advance.amount) > 0) || advanceMutation.isPending}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Save Advance
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Status Dialog */}
+      <Dialog
+        open={statusDialogOpen}
+        onClose={() => setStatusDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Update Status</DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Status"
+            value={nextStatus}
+            onChange={(e) => setNextStatus(e.target.value as CustomOrderStatus)}
+          >
+            {CUSTOM_ORDER_PRODUCTION_STATUSES.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Note"
+            placeholder="e.g. CAD approved by customer on call"
+            multiline
+            rows={2}
+            value={statusNote}
+            onChange={(e) => setStatusNote(e.target.value)}
+          />
+          {statusMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(statusMutation.error, 'Failed to update status')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setStatusDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => statusMutation.mutate()}
+            variant="contained"
+            disabled={nextStatus === order.status || statusMutation.isPending}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Update
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Cancel Confirmation Dialog */}
+      <Dialog
+        open={cancelDialogOpen}
+        onClose={() => setCancelDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Cancel Custom Order</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000' }}>
+            Cancel {order.orderNumber}?
+            {order.totalAdvance > 0
+              ? ` Advances of ${formatAmount(order.totalAdvance, decimals)} must be refunded to the customer.`
+              : ''}
+          </DialogContentText>
+          {cancelMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(cancelMutation.error, 'Failed to cancel custom order')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setCancelDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Keep Order
+          </Button>
+          <Button
+            onClick={() => cancelMutation.mutate()}
+            variant="contained"
+            disabled={cancelMutation.isPending}
+            sx={{ backgroundColor: '#d32f2f', fontWeight: 600, '&:hover': { backgroundColor: '#b71c1c' } }}
+          >
+            Cancel Order
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
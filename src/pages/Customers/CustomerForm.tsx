@@ -0,0 +1,336 @@
+import { useEffect, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  CircularProgress,
+  Snackbar,
+  Alert,
+  Divider,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { getApiErrorMessage } from '../../api/client';
+import { getFinanceConfig, type FinanceConfig } from '../../api/config';
+import { createCustomer, fetchCustomer, updateCustomer, type CustomerProfile } from '../../api/customers';
+import { PAN_REQUIRED_ABOVE, isValidPan, normalizePan } from '../../utils/customers';
+import { formatAmount } from '../../utils/format';
+
+const customerSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  phone: z.string(),
+  alternatePhone: z.string(),
+  email: z.union([z.literal(''), z.string().email('Invalid email address')]),
+  address: z.string(),
+  gstin: z.string(),
+  panNumber: z.string().refine((val) => !val || isValidPan(normalizePan(val)), {
+    message: 'PAN must look like ABCDE1234F',
+  }),
+  dateOfBirth: z.string(),
+  anniversaryDate: z.string(),
+  ringSize: z.string(),
+  preferences: z.string(),
+  creditLimit: z.string().refine((val) => !val || parseFloat(val) >= 0, {
+    message: 'Credit limit cannot be negative',
+  }),
+});
+
+type CustomerFormData = z.infer<typeof customerSchema>;
+
+const defaultValues: CustomerFormData = {
+  name: '',
+  phone: '',
+  alternatePhone: '',
+  email: '',
+  address: '',
+  gstin: '',
+  panNumber: '',
+  dateOfBirth: '',
+  anniversaryDate: '',
+  ringSize: '',
+  preferences: '',
+  creditLimit: '',
+};
+
+const sectionTitleSx = {
+  color: '#0d0421',
+  fontWeight: 600,
+  mb: 1,
+  fontSize: { xs: '1rem', sm: '1.1rem' },
+};
+
+const toFormData = (customer: CustomerProfile): CustomerFormData => ({
+  name: customer.name,
+  phone: customer.phone ?? '',
+  alternatePhone: customer.alternatePhone ?? '',
+  email: customer.email ?? '',
+  address: customer.address ?? '',
+  gstin: customer.gstin ?? '',
+  panNumber: customer.panNumber ?? '',
+  dateOfBirth: customer.dateOfBirth?.slice(0, 10) ?? '',
+  anniversaryDate: customer.anniversaryDate?.slice(0, 10) ?? '',
+  ringSize: customer.ringSize ?? '',
+  preferences: customer.preferences ?? '',
+  creditLimit: customer.creditLimit?.toString() ?? '',
+});
+
+/**
+ * Add or edit a customer's contact details, occasions and preferences
+ */
+export function CustomerForm() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const isEdit = !!id;
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const { data: customer, isLoading: customerLoading, error } = useQuery<CustomerProfile>({
+    queryKey: ['customers', id],
+    queryFn: () => fetchCustomer(id as string),
+    enabled: isEdit,
+  });
+
+  const { data: financeConfig } = useQuery<FinanceConfig>({
+    queryKey: ['config', 'finance'],
+    queryFn: getFinanceConfig,
+  });
+  const creditLimitEnabled = !!financeConfig?.enableCreditLimit;
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<CustomerFormData>({
+    resolver: zodResolver(customerSchema),
+    defaultValues,
+  });
+
+  useEffect(() => {
+    if (customer) {
+      reset(toFormData(customer));
+    }
+  }, [customer, reset]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: CustomerFormData) => {
+      const payload = {
+        name: data.name.trim(),
+        phone: data.phone.trim() || undefined,
+        alternatePhone: data.alternatePhone.trim() || undefined,
+        email: data.email.trim() || undefined,
+        address: data.address.trim() || undefined,
+        gstin: data.gstin.trim().toUpperCase() || undefined,
+        panNumber: normalizePan(data.panNumber) || undefined,
+        dateOfBirth: data.dateOfBirth || undefined,
+        anniversaryDate: data.anniversaryDate || undefined,
+        ringSize: data.ringSize.trim() || undefined,
+        preferences: data.preferences.trim() || undefined,
+        // Left untouched while credit limits are switched off in the Finance config
+        creditLimit: creditLimitEnabled ? (data.creditLimit ? parseFloat(data.creditLimit) : null) : undefined,
+      };
+      return isEdit ? updateCustomer(id as string, payload) : createCustomer(payload);
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      navigate(`/customers/${saved.id}`);
+    },
+    onError: (error) => setSnackbarMessage(getApiErrorMessage(error, 'Failed to save customer')),
+  });
+
+  if (isEdit && customerLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  const panLimit = formatAmount(PAN_REQUIRED_ABOVE, 0);
+
+  const textField = (name: keyof CustomerFormData, label: string, props: Record<string, unknown> = {}) => (
+    <Controller
+      name={name}
+      control={control}
+      render={({ field }) => (
+        <TextField
+          {...field}
+          label={label}
+          fullWidth
+          size="small"
+          error={!!errors[name]}
+          helperText={errors[name]?.message}
+          {...props}
+        />
+      )}
+    />
+  );
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 3,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          {isEdit ? `Edit Customer ${customer?.customerNumber ?? ''}` : 'New Customer'}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error instanceof Error ? error.message : 'Failed to load customer. Please try again.'}
+          </Alert>
+        )}
+
+        <Card elevation={0} sx={{ border: '1px solid #e0e0e0', borderRadius: 2 }}>
+          <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+            <form onSubmit={handleSubmit((data) => saveMutation.mutate(data))}>
+              <Grid container spacing={3}>
+                <Grid size={12}>
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    Contact
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 12, md: 6 }}>{textField('name', 'Name', { autoFocus: !isEdit })}</Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>{textField('phone', 'Phone')}</Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>{textField('alternatePhone', 'Alternate Phone')}</Grid>
+                <Grid size={{ xs: 12, md: 6 }}>{textField('email', 'Email', { type: 'email' })}</Grid>
+                <Grid size={{ xs: 12, md: 6 }}>{textField('gstin', 'GSTIN')}</Grid>
+                <Grid size={12}>{textField('address', 'Address', { multiline: true, rows: 2 })}</Grid>
+
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    KYC
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+                  {textField('panNumber', 'PAN', {
+                    placeholder: 'ABCDE1234F',
+                    helperText: errors.panNumber?.message ?? `Needed for sales above ${panLimit}`,
+                  })}
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 8 }}>
+                  <Typography variant="body2" sx={{ color: '#666666', mt: 1 }}>
+                    Scans of PAN, Aadhaar and other ID documents are added from the customer's profile.
+                  </Typography>
+                </Grid>
+
+                {creditLimitEnabled && (
+                  <>
+                    <Grid size={12}>
+                      <Divider sx={{ my: 1 }} />
+                      <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                        Credit
+                      </Typography>
+                    </Grid>
+                    <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+                      {textField('creditLimit', 'Credit Limit', {
+                        type: 'number',
+                        slotProps: { htmlInput: { min: 0, step: 'any' } },
+                        helperText: errors.creditLimit?.message ?? 'Leave blank for no limit',
+                      })}
+                    </Grid>
+                  </>
+                )}
+
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    Occasions & Preferences
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  {textField('dateOfBirth', 'Birthday', { type: 'date', slotProps: { inputLabel: { shrink: true } } })}
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  {textField('anniversaryDate', 'Anniversary', {
+                    type: 'date',
+                    slotProps: { inputLabel: { shrink: true } },
+                  })}
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+                  {textField('ringSize', 'Ring Size', { placeholder: 'e.g. 14' })}
+                </Grid>
+                <Grid size={{ xs: 12, md: 4 }}>
+                  {textField('preferences', 'Preferences', {
+                    placeholder: 'e.g. 22K temple work, no rose gold',
+                    multiline: true,
+                    maxRows: 3,
+                  })}
+                </Grid>
+
+                {/* Action Buttons */}
+                <Grid size={12}>
+                  <Divider sx={{ my: 2 }} />
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      flexDirection: { xs: 'column', sm: 'row' },
+                      justifyContent: 'flex-end',
+                      gap: 2,
+                    }}
+                  >
+                    <Button
+                      type="button"
+                      variant="outlined"
+                      onClick={() => navigate(isEdit ? `/customers/${id}` : '/customers')}
+                      fullWidth={isMobile}
+                      sx={{ borderColor: '#5e3b63', color: '#5e3b63', px: 3, fontWeight: 600 }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant="contained"
+                      disabled={saveMutation.isPending}
+                      fullWidth={isMobile}
+                      sx={{
+                        backgroundColor: '#5e3b63',
+                        px: 3,
+                        fontWeight: 600,
+                        '&:hover': { backgroundColor: '#4a2d4f' },
+                      }}
+                    >
+                      Save Customer
+                    </Button>
+                  </Box>
+                </Grid>
+              </Grid>
+            </form>
+          </CardContent>
+        </Card>
+      </Box>
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
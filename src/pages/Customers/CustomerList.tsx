@@ -0,0 +1,297 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  Chip,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Add, Search, FilterList, Clear } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { fetchCustomers, type CustomerFilters } from '../../api/customers';
+import { formatOccasion, getUpcomingOccasions } from '../../utils/customers';
+import { formatAmount } from '../../utils/format';
+
+const OCCASION_WINDOWS = [
+  { value: 7, label: 'Next 7 days' },
+  { value: 30, label: 'Next 30 days' },
+];
+
+/** Occasions this close get a chip in the list */
+const OCCASION_CHIP_DAYS = 30;
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+export function CustomerList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+
+  const [filters, setFilters] = useState<CustomerFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<CustomerFilters>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['customers', 'list', appliedFilters],
+    queryFn: () => fetchCustomers(appliedFilters),
+  });
+
+  const customers = data?.data ?? [];
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const paginatedCustomers = customers.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Customers
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => navigate('/customers/new')}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            New Customer
+          </Button>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder="Name, phone, customer no. or PAN..."
+                value={filters.search || ''}
+                onChange={(e) => setFilters((prev) => ({ ...prev, search: e.target.value || undefined }))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Birthday / Anniversary"
+                fullWidth
+                value={filters.occasionWithinDays ?? ''}
+                onChange={(e) =>
+                  setFilters((prev) => ({
+                    ...prev,
+                    occasionWithinDays: e.target.value ? Number(e.target.value) : undefined,
+                  }))
+                }
+              >
+                <MenuItem value="">Any time</MenuItem>
+                {OCCASION_WINDOWS.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Balance"
+                fullWidth
+                value={filters.hasOutstanding ? 'outstanding' : ''}
+                onChange={(e) =>
+                  setFilters((prev) => ({ ...prev, hasOutstanding: e.target.value === 'outstanding' || undefined }))
+                }
+              >
+                <MenuItem value="">All Customers</MenuItem>
+                <MenuItem value="outstanding">With balance due</MenuItem>
+              </TextField>
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading customers. Please try again.'}
+              </Alert>
+            </Box>
+          ) : customers.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No customers found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Customer No.</TableCell>
+                      <TableCell sx={headCellSx}>Name</TableCell>
+                      <TableCell sx={headCellSx}>Phone</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>PAN</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>Occasion</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Outstanding
+                      </TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedCustomers.map((customer) => {
+                      const [occasion] = getUpcomingOccasions(customer, OCCASION_CHIP_DAYS);
+                      return (
+                        <TableRow
+                          key={customer.id}
+                          hover
+                          onClick={() => navigate(`/customers/${customer.id}`)}
+                          sx={{ cursor: 'pointer' }}
+                        >
+                          <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+                            {customer.customerNumber}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>{customer.name}</TableCell>
+                          <TableCell sx={bodyCellSx}>{customer.phone || '-'}</TableCell>
+                          <TableCell
+                            sx={{ ...bodyCellSx, fontFamily: 'monospace', display: { xs: 'none', md: 'table-cell' } }}
+                          >
+                            {customer.panNumber || '-'}
+                          </TableCell>
+                          <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                            {occasion ? (
+                              <Chip
+                                label={formatOccasion(occasion)}
+                                size="small"
+                                color="secondary"
+                                variant="outlined"
+                              />
+                            ) : (
+                              '-'
+                            )}
+                          </TableCell>
+                          <TableCell
+                            sx={{
+                              ...bodyCellSx,
+                              ...(customer.outstandingBalance > 0 && { color: '#d32f2f', fontWeight: 600 }),
+                            }}
+                            align="right"
+                          >
+                            {formatAmount(customer.outstandingBalance, decimals)}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={customers.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
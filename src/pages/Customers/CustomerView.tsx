@@ -0,0 +1,556 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  Grid,
+  IconButton,
+  Tab,
+  Tabs,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { Add, ArrowBack, Cake, Delete, Description, Edit, Favorite } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  KYC_DOCUMENT_TYPES,
+  deleteKycDocument,
+  fetchCustomer,
+  type CustomerProfile,
+} from '../../api/customers';
+import { SALES_INVOICE_STATUSES, fetchSalesInvoices } from '../../api/sales';
+import { REPAIR_ORDER_STATUSES, fetchRepairOrders } from '../../api/repairs';
+import { SCHEME_ENROLMENT_STATUSES, fetchSchemeEnrolments } from '../../api/schemes';
+import { CUSTOM_ORDER_STATUSES, fetchCustomOrders } from '../../api/customOrders';
+import { PAN_REQUIRED_ABOVE, formatOccasion, getUpcomingOccasions } from '../../utils/customers';
+import { formatAmount, formatWeight } from '../../utils/format';
+import { KycDocumentDialog } from './KycDocumentDialog';
+
+type HistoryTab = 'invoices' | 'repairs' | 'schemes' | 'customOrders';
+
+/** Occasions this close are highlighted on the profile */
+const OCCASION_WINDOW_DAYS = 30;
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+const labelSx = { color: '#666666', fontSize: '0.8rem' };
+const valueSx = { color: '#000000', fontWeight: 500 };
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+/**
+ * Customer profile: contact details, KYC, occasions and everything the
+ * customer has bought, repaired, saved or ordered
+ */
+export function CustomerView() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [tab, setTab] = useState<HistoryTab>('invoices');
+  const [kycDialogOpen, setKycDialogOpen] = useState(false);
+
+  const { data: customer, isLoading, error } = useQuery<CustomerProfile>({
+    queryKey: ['customers', id],
+    queryFn: () => fetchCustomer(id as string),
+    enabled: !!id,
+  });
+
+  const invoicesQuery = useQuery({
+    queryKey: ['sales', 'invoices', { customerId: id }],
+    queryFn: () => fetchSalesInvoices({ customerId: id }),
+    enabled: !!id && tab === 'invoices',
+  });
+
+  const repairsQuery = useQuery({
+    queryKey: ['repairs', 'list', { customerId: id }],
+    queryFn: () => fetchRepairOrders({ customerId: id }),
+    enabled: !!id && tab === 'repairs',
+  });
+
+  const schemesQuery = useQuery({
+    queryKey: ['schemes', 'enrolments', { customerId: id }],
+    queryFn: () => fetchSchemeEnrolments({ customerId: id }),
+    enabled: !!id && tab === 'schemes',
+  });
+
+  const customOrdersQuery = useQuery({
+    queryKey: ['customOrders', 'list', { customerId: id }],
+    queryFn: () => fetchCustomOrders({ customerId: id }),
+    enabled: !!id && tab === 'customOrders',
+  });
+
+  const deleteDocumentMutation = useMutation({
+    mutationFn: (documentId: string) => deleteKycDocument(id as string, documentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !customer) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Customer not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const occasions = getUpcomingOccasions(customer, OCCASION_WINDOW_DAYS);
+  const activeQuery = {
+    invoices: invoicesQuery,
+    repairs: repairsQuery,
+    schemes: schemesQuery,
+    customOrders: customOrdersQuery,
+  }[tab];
+
+  const stats = [
+    {
+      label: 'Outstanding',
+      value: formatAmount(customer.outstandingBalance, decimals),
+      alert: customer.outstandingBalance > 0,
+    },
+    { label: 'Total Purchases', value: formatAmount(customer.totalPurchases, decimals) },
+    { label: 'Invoices', value: customer.invoiceCount.toString() },
+    { label: 'Last Purchase', value: formatDate(customer.lastPurchaseDate) },
+  ];
+
+  const details = [
+    { label: 'Phone', value: customer.phone },
+    { label: 'Alternate Phone', value: customer.alternatePhone },
+    { label: 'Email', value: customer.email },
+    { label: 'GSTIN', value: customer.gstin },
+    { label: 'PAN', value: customer.panNumber },
+    {
+      label: 'Credit Limit',
+      value: customer.creditLimit !== null ? formatAmount(customer.creditLimit, decimals) : null,
+    },
+    { label: 'Ring Size', value: customer.ringSize },
+    { label: 'Birthday', value: customer.dateOfBirth ? formatDate(customer.dateOfBirth) : null },
+    { label: 'Anniversary', value: customer.anniversaryDate ? formatDate(customer.anniversaryDate) : null },
+  ];
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 2,
+          }}
+        >
+          <Box>
+            <Button startIcon={<ArrowBack />} onClick={() => navigate('/customers')} sx={{ color: '#5e3b63', mb: 1 }}>
+              Customers
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, flexWrap: 'wrap' }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {customer.name}
+              </Typography>
+              <Chip label={customer.customerNumber} size="small" variant="outlined" sx={{ fontFamily: 'monospace' }} />
+              {occasions.map((occasion) => (
+                <Chip
+                  key={occasion.type}
+                  icon={occasion.type === 'birthday' ? <Cake /> : <Favorite />}
+                  label={formatOccasion(occasion)}
+                  size="small"
+                  color="secondary"
+                  variant="outlined"
+                />
+              ))}
+            </Box>
+          </Box>
+          <Button
+            variant="contained"
+            startIcon={<Edit />}
+            onClick={() => navigate(`/customers/${customer.id}/edit`)}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Edit
+          </Button>
+        </Box>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          {stats.map((stat) => (
+            <Grid key={stat.label} size={{ xs: 6, md: 3 }}>
+              <Paper sx={{ p: 2, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+                <Typography sx={labelSx}>{stat.label}</Typography>
+                <Typography variant="h6" sx={{ color: stat.alert ? '#d32f2f' : '#000000', fontWeight: 600 }}>
+                  {stat.value}
+                </Typography>
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          <Grid size={{ xs: 12, md: 7 }}>
+            <Paper sx={{ p: 2, height: '100%', boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+              <Typography variant="h6" sx={{ color: '#0d0421', fontWeight: 600, mb: 1.5 }}>
+                Profile
+              </Typography>
+              <Grid container spacing={1.5}>
+                {details.map((detail) => (
+                  <Grid key={detail.label} size={{ xs: 6, sm: 4 }}>
+                    <Typography sx={labelSx}>{detail.label}</Typography>
+                    <Typography sx={valueSx}>{detail.value || '-'}</Typography>
+                  </Grid>
+                ))}
+                <Grid size={12}>
+                  <Typography sx={labelSx}>Address</Typography>
+                  <Typography sx={{ ...valueSx, whiteSpace: 'pre-line' }}>{customer.address || '-'}</Typography>
+                </Grid>
+                <Grid size={12}>
+                  <Typography sx={labelSx}>Preferences</Typography>
+                  <Typography sx={{ ...valueSx, whiteSpace: 'pre-line' }}>{customer.preferences || '-'}</Typography>
+                </Grid>
+              </Grid>
+            </Paper>
+          </Grid>
+          <Grid size={{ xs: 12, md: 5 }}>
+            <Paper sx={{ p: 2, height: '100%', boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                <Typography variant="h6" sx={{ color: '#0d0421', fontWeight: 600 }}>
+                  KYC Documents
+                </Typography>
+                <Button
+                  size="small"
+                  startIcon={<Add />}
+                  onClick={() => setKycDialogOpen(true)}
+                  sx={{ color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Add
+                </Button>
+              </Box>
+              {!customer.panNumber && (
+                <Alert severity="warning" sx={{ mb: 1 }}>
+                  No PAN on file. It is required for sales above {formatAmount(PAN_REQUIRED_ABOVE, 0)}.
+                </Alert>
+              )}
+              {customer.kycDocuments.length === 0 ? (
+                <Typography variant="body2" sx={{ color: '#666666' }}>
+                  No documents recorded.
+                </Typography>
+              ) : (
+                customer.kycDocuments.map((document) => (
+                  <Box
+                    key={document.id}
+                    sx={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      py: 0.75,
+                      borderBottom: '1px solid #e0e0e0',
+                    }}
+                  >
+                    <Box>
+                      <Typography variant="body2" sx={{ color: '#000000', fontWeight: 600 }}>
+                        {KYC_DOCUMENT_TYPES.find((option) => option.value === document.type)?.label ?? document.type}
+                      </Typography>
+                      <Typography variant="body2" sx={{ color: '#000000', fontFamily: 'monospace' }}>
+                        {document.documentNumber}
+                      </Typography>
+                    </Box>
+                    <Box sx={{ whiteSpace: 'nowrap' }}>
+                      {document.attachmentUrl && (
+                        <IconButton
+                          size="small"
+                          aria-label="open document scan"
+                          href={document.attachmentUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          sx={{ color: '#5e3b63' }}
+                        >
+                          <Description fontSize="small" />
+                        </IconButton>
+                      )}
+                      <IconButton
+                        size="small"
+                        aria-label="remove document"
+                        disabled={deleteDocumentMutation.isPending}
+                        onClick={() => deleteDocumentMutation.mutate(document.id)}
+                        sx={{ color: '#d32f2f' }}
+                      >
+                        <Delete fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  </Box>
+                ))
+              )}
+              {deleteDocumentMutation.error && (
+                <Alert severity="error" sx={{ mt: 1 }}>
+                  {getApiErrorMessage(deleteDocumentMutation.error, 'Failed to remove document')}
+                </Alert>
+              )}
+            </Paper>
+          </Grid>
+        </Grid>
+
+        {/* History */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Tabs
+            value={tab}
+            onChange={(_event, value: HistoryTab) => setTab(value)}
+            variant="scrollable"
+            allowScrollButtonsMobile
+            sx={{
+              borderBottom: '1px solid #e0e0e0',
+              '& .MuiTab-root.Mui-selected': { color: '#5e3b63' },
+              '& .MuiTabs-indicator': { backgroundColor: '#5e3b63' },
+            }}
+          >
+            <Tab value="invoices" label="Purchases" />
+            <Tab value="repairs" label="Repairs" />
+            <Tab value="schemes" label="Schemes" />
+            <Tab value="customOrders" label="Custom Orders" />
+          </Tabs>
+
+          {activeQuery.isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : activeQuery.error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">{getApiErrorMessage(activeQuery.error, 'Error loading history.')}</Alert>
+            </Box>
+          ) : (activeQuery.data?.data.length ?? 0) === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>Nothing on record yet.</Typography>
+            </Box>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table sx={{ minWidth: 600 }}>
+                {tab === 'invoices' && (
+                  <>
+                    <TableHead>
+                      <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                        <TableCell sx={headCellSx}>Invoice No.</TableCell>
+                        <TableCell sx={headCellSx}>Date</TableCell>
+                        <TableCell sx={headCellSx} align="right">
+                          Total
+                        </TableCell>
+                        <TableCell sx={headCellSx} align="right">
+                          Balance
+                        </TableCell>
+                        <TableCell sx={headCellSx}>Status</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {invoicesQuery.data?.data.map((invoice) => {
+                        const status = SALES_INVOICE_STATUSES.find((option) => option.value === invoice.status);
+                        return (
+                          <TableRow
+                            key={invoice.id}
+                            hover
+                            onClick={() => navigate(`/sales/invoices/${invoice.id}`)}
+                            sx={{ cursor: 'pointer' }}
+                          >
+                            <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+                              {invoice.invoiceNumber}
+                            </TableCell>
+                            <TableCell sx={bodyCellSx}>{formatDate(invoice.invoiceDate)}</TableCell>
+                            <TableCell sx={bodyCellSx} align="right">
+                              {formatAmount(invoice.total, decimals)}
+                            </TableCell>
+                            <TableCell sx={bodyCellSx} align="right">
+                              {formatAmount(invoice.balanceDue, decimals)}
+                            </TableCell>
+                            <TableCell sx={bodyCellSx}>
+                              <Chip
+                                label={status?.label ?? invoice.status}
+                                color={status?.color ?? 'default'}
+                                size="small"
+                                variant="outlined"
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </>
+                )}
+
+                {tab === 'repairs' && (
+                  <>
+                    <TableHead>
+                      <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                        <TableCell sx={headCellSx}>Order No.</TableCell>
+                        <TableCell sx={headCellSx}>Received</TableCell>
+                        <TableCell sx={headCellSx}>Piece</TableCell>
+                        <TableCell sx={headCellSx} align="right">
+                          Wt In
+                        </TableCell>
+                        <TableCell sx={headCellSx}>Status</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {repairsQuery.data?.data.map((order) => {
+                        const status = REPAIR_ORDER_STATUSES.find((option) => option.value === order.status);
+                        return (
+                          <TableRow
+                            key={order.id}
+                            hover
+                            onClick={() => navigate(`/repairs/${order.id}`)}
+                            sx={{ cursor: 'pointer' }}
+                          >
+                            <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{order.orderNumber}</TableCell>
+                            <TableCell sx={bodyCellSx}>{formatDate(order.intakeDate)}</TableCell>
+                            <TableCell sx={bodyCellSx}>{order.description}</TableCell>
+                            <TableCell sx={bodyCellSx} align="right">
+                              {formatWeight(order.weightIn)}
+                            </TableCell>
+                            <TableCell sx={bodyCellSx}>
+                              <Chip
+                                label={status?.label ?? order.status}
+                                color={status?.color ?? 'default'}
+                                size="small"
+                                variant="outlined"
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </>
+                )}
+
+                {tab === 'schemes' && (
+                  <>
+                    <TableHead>
+                      <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                        <TableCell sx={headCellSx}>Enrolment No.</TableCell>
+                        <TableCell sx={headCellSx}>Plan</TableCell>
+                        <TableCell sx={headCellSx}>Paid</TableCell>
+                        <TableCell sx={headCellSx} align="right">
+                          Collected
+                        </TableCell>
+                        <TableCell sx={headCellSx}>Status</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {schemesQuery.data?.data.map((enrolment) => {
+                        const status = SCHEME_ENROLMENT_STATUSES.find((option) => option.value === enrolment.status);
+                        return (
+                          <TableRow
+                            key={enrolment.id}
+                            hover
+                            onClick={() => navigate(`/schemes/${enrolment.id}`)}
+                            sx={{ cursor: 'pointer' }}
+                          >
+                            <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+                              {enrolment.enrolmentNumber}
+                            </TableCell>
+                            <TableCell sx={bodyCellSx}>{enrolment.plan.name}</TableCell>
+                            <TableCell sx={bodyCellSx}>
+                              {enrolment.paidCount}/{enrolment.plan.tenureMonths}
+                            </TableCell>
+                            <TableCell sx={bodyCellSx} align="right">
+                              {formatAmount(enrolment.totalPaid, decimals)}
+                            </TableCell>
+                            <TableCell sx={bodyCellSx}>
+                              <Chip
+                                label={status?.label ?? enrolment.status}
+                                color={status?.color ?? 'default'}
+                                size="small"
+                                variant="outlined"
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </>
+                )}
+
+                {tab === 'customOrders' && (
+                  <>
+                    <TableHead>
+                      <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                        <TableCell sx={headCellSx}>Order No.</TableCell>
+                        <TableCell sx={headCellSx}>Booked</TableCell>
+                        <TableCell sx={headCellSx}>Design</TableCell>
+                        <TableCell sx={headCellSx} align="right">
+                          Advance
+                        </TableCell>
+                        <TableCell sx={headCellSx}>Status</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {customOrdersQuery.data?.data.map((order) => {
+                        const status = CUSTOM_ORDER_STATUSES.find((option) => option.value === order.status);
+                        return (
+                          <TableRow
+                            key={order.id}
+                            hover
+                            onClick={() => navigate(`/custom-orders/${order.id}`)}
+                            sx={{ cursor: 'pointer' }}
+                          >
+                            <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{order.orderNumber}</TableCell>
+                            <TableCell sx={bodyCellSx}>{formatDate(order.orderDate)}</TableCell>
+                            <TableCell sx={bodyCellSx}>{order.designDescription}</TableCell>
+                            <TableCell sx={bodyCellSx} align="right">
+                              {formatAmount(order.totalAdvance, decimals)}
+                            </TableCell>
+                            <TableCell sx={bodyCellSx}>
+                              <Chip
+                                label={status?.label ?? order.status}
+                                color={status?.color ?? 'default'}
+                                size="small"
+                                variant="outlined"
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </>
+                )}
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+
+      {kycDialogOpen && <KycDocumentDialog customerId={customer.id} onClose={() => setKycDialogOpen(false)} />}
+    </DashboardLayout>
+  );
+}
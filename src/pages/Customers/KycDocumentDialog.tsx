@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { KYC_DOCUMENT_TYPES, addKycDocument, type KycDocumentType } from '../../api/customers';
+import { isValidPan, normalizePan } from '../../utils/customers';
+
+interface KycDocumentDialogProps {
+  customerId: string;
+  onClose: () => void;
+}
+
+/**
+ * Record an ID document the customer has shown, with an optional scan
+ */
+export function KycDocumentDialog({ customerId, onClose }: KycDocumentDialogProps) {
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<KycDocumentType>('pan');
+  const [documentNumber, setDocumentNumber] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+
+  const normalizedNumber = type === 'pan' ? normalizePan(documentNumber) : documentNumber.trim();
+  const panInvalid = type === 'pan' && !!normalizedNumber && !isValidPan(normalizedNumber);
+
+  const saveMutation = useMutation({
+    mutationFn: () => addKycDocument(customerId, { type, documentNumber: normalizedNumber, file }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      onClose();
+    },
+  });
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Add KYC Document</DialogTitle>
+      <DialogContent>
+        <TextField
+          select
+          fullWidth
+          label="Document"
+          margin="dense"
+          value={type}
+          onChange={(e) => setType(e.target.value as KycDocumentType)}
+        >
+          {KYC_DOCUMENT_TYPES.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          fullWidth
+          label="Document Number"
+          margin="dense"
+          value={documentNumber}
+          onChange={(e) => setDocumentNumber(e.target.value)}
+          error={panInvalid}
+          helperText={panInvalid ? 'PAN must look like ABCDE1234F' : undefined}
+        />
+        <Button component="label" startIcon={<UploadFile />} sx={{ color: '#5e3b63', fontWeight: 600, mt: 1 }}>
+          {file ? 'Change Scan' : 'Attach Scan'}
+          <input
+            hidden
+            type="file"
+            accept="image/*,application/pdf"
+            onChange={(e) => {
+              setFile(e.target.files?.[0] ?? null);
+              e.target.value = '';
+            }}
+          />
+        </Button>
+        {file && (
+          <Typography variant="body2" sx={{ color: '#666666' }}>
+            {file.name}
+          </Typography>
+        )}
+        {type === 'pan' && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            Saving a PAN card also puts the number on the customer's record.
+          </Alert>
+        )}
+        {saveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(saveMutation.error, 'Failed to save document')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!normalizedNumber || panInvalid || saveMutation.isPending}
+          onClick={() => saveMutation.mutate()}
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -3,6 +3,9 @@ import { useNavigate } from 'react-router-dom';
 import { Box, Typography, Paper, Grid, CircularProgress } from '@mui/material';
 import { DashboardLayout } from '../components/Layout/DashboardLayout';
 import { useAuth } from '../hooks/useAuth';
+import { MetalRatesWidget } from '../components/Dashboard/MetalRatesWidget';
+import { OverdueApprovalsWidget } from '../components/Dashboard/OverdueApprovalsWidget';
+import { SchemeCollectionsWidget } from '../components/Dashboard/SchemeCollectionsWidget';
 
 export function Dashboard() {
   const navigate = useNavigate();
@@ -208,6 +211,18 @@ export function Dashboard() {
               </Box>
             </Paper>
           </Grid>
+
+          <Grid size={12}>
+            <MetalRatesWidget />
+          </Grid>
+
+          <Grid size={12}>
+            <OverdueApprovalsWidget />
+          </Grid>
+
+          <Grid size={12}>
+            <SchemeCollectionsWidget />
+          </Grid>
         </Grid>
       </Box>
     </DashboardLayout>
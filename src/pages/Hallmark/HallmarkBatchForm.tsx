@@ -0,0 +1,298 @@
+import { useState, type FormEvent } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  IconButton,
+  Snackbar,
+  Alert,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Delete, QrCodeScanner } from '@mui/icons-material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { getApiErrorMessage } from '../../api/client';
+import { fetchItemByTag, type Item } from '../../api/items';
+import { createHallmarkBatch } from '../../api/hallmark';
+import { formatWeight } from '../../utils/format';
+
+const sectionTitleSx = {
+  color: '#0d0421',
+  fontWeight: 600,
+  mb: 1,
+  fontSize: { xs: '1rem', sm: '1.1rem' },
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Send a batch of pieces to an assaying centre for hallmarking. Pieces are
+ * added by scanning their tags.
+ */
+export function HallmarkBatchForm() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [centreName, setCentreName] = useState('');
+  const [sentDate, setSentDate] = useState(today());
+  const [notes, setNotes] = useState('');
+  const [items, setItems] = useState<Item[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const lookupMutation = useMutation({
+    mutationFn: fetchItemByTag,
+    onSuccess: (item) => {
+      if (items.some((added) => added.id === item.id)) {
+        setScanError(`${item.tagNumber} is already in this batch`);
+      } else if (item.huid) {
+        setScanError(`${item.tagNumber} is already hallmarked (HUID ${item.huid})`);
+      } else {
+        setItems((prev) => [...prev, item]);
+        setScanError(null);
+      }
+      setTagInput('');
+    },
+    onError: (error) => setScanError(getApiErrorMessage(error, 'Item not found')),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: createHallmarkBatch,
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ['hallmark'] });
+      navigate(`/hallmark/batches/${batch.id}`);
+    },
+    onError: (error) => setSnackbarMessage(getApiErrorMessage(error, 'Failed to send batch')),
+  });
+
+  const handleScan = (event: FormEvent) => {
+    event.preventDefault();
+    const tag = tagInput.trim();
+    if (tag) {
+      lookupMutation.mutate(tag);
+    }
+  };
+
+  const handleSave = () => {
+    setSubmitted(true);
+    if (!centreName.trim() || !sentDate || items.length === 0) {
+      return;
+    }
+    saveMutation.mutate({
+      centreName: centreName.trim(),
+      sentDate,
+      itemIds: items.map((item) => item.id),
+      notes: notes.trim() || null,
+    });
+  };
+
+  const totalGrossWeight = items.reduce((total, item) => total + item.grossWeight, 0);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 3,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          Send for Hallmarking
+        </Typography>
+
+        <Card elevation={0} sx={{ border: '1px solid #e0e0e0', borderRadius: 2 }}>
+          <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+            <Grid container spacing={3}>
+              <Grid size={{ xs: 12, md: 8 }}>
+                <TextField
+                  label="Assaying Centre"
+                  fullWidth
+                  size="small"
+                  value={centreName}
+                  onChange={(e) => setCentreName(e.target.value)}
+                  error={submitted && !centreName.trim()}
+                  helperText={submitted && !centreName.trim() ? 'Centre is required' : undefined}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, md: 4 }}>
+                <TextField
+                  type="date"
+                  label="Sent Date"
+                  fullWidth
+                  size="small"
+                  value={sentDate}
+                  onChange={(e) => setSentDate(e.target.value)}
+                  error={submitted && !sentDate}
+                  helperText={submitted && !sentDate ? 'Date is required' : undefined}
+                  slotProps={{ inputLabel: { shrink: true } }}
+                />
+              </Grid>
+
+              <Grid size={12}>
+                <Divider sx={{ my: 1 }} />
+                <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                  Pieces
+                </Typography>
+                <Box component="form" onSubmit={handleScan} sx={{ display: 'flex', gap: 1, mb: 1 }}>
+                  <TextField
+                    autoFocus
+                    fullWidth
+                    size="small"
+                    label="Scan barcode or enter tag number"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    slotProps={{
+                      input: { startAdornment: <QrCodeScanner sx={{ color: '#5e3b63', mr: 1 }} /> },
+                    }}
+                  />
+                  <Button
+                    type="submit"
+                    variant="contained"
+                    disabled={lookupMutation.isPending}
+                    sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+                  >
+                    Add
+                  </Button>
+                </Box>
+                {scanError && (
+                  <Alert severity="warning" onClose={() => setScanError(null)} sx={{ mb: 1 }}>
+                    {scanError}
+                  </Alert>
+                )}
+                {items.length === 0 ? (
+                  <Typography
+                    sx={{ color: submitted ? '#d32f2f' : '#666666', py: 2, textAlign: 'center' }}
+                  >
+                    {submitted ? 'Add at least one piece' : 'No pieces added yet.'}
+                  </Typography>
+                ) : (
+                  <Box sx={{ overflowX: 'auto' }}>
+                    <Table size="small">
+                      <TableHead>
+                        <TableRow>
+                          <TableCell sx={{ fontWeight: 600 }}>Tag</TableCell>
+                          <TableCell sx={{ fontWeight: 600 }}>Item</TableCell>
+                          <TableCell sx={{ fontWeight: 600 }}>Purity</TableCell>
+                          <TableCell sx={{ fontWeight: 600 }} align="right">
+                            Gross Wt
+                          </TableCell>
+                          <TableCell />
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {items.map((item) => (
+                          <TableRow key={item.id}>
+                            <TableCell sx={{ fontFamily: 'monospace' }}>{item.tagNumber}</TableCell>
+                            <TableCell>{item.name}</TableCell>
+                            <TableCell>{item.purity || '-'}</TableCell>
+                            <TableCell align="right">{formatWeight(item.grossWeight)}</TableCell>
+                            <TableCell align="right">
+                              <IconButton
+                                size="small"
+                                aria-label="remove piece"
+                                onClick={() => setItems((prev) => prev.filter((added) => added.id !== item.id))}
+                                sx={{ color: '#d32f2f' }}
+                              >
+                                <Delete fontSize="small" />
+                              </IconButton>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow>
+                          <TableCell colSpan={3} sx={{ fontWeight: 600 }}>
+                            {items.length} {items.length === 1 ? 'piece' : 'pieces'}
+                          </TableCell>
+                          <TableCell align="right" sx={{ fontWeight: 600 }}>
+                            {formatWeight(totalGrossWeight)}
+                          </TableCell>
+                          <TableCell />
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </Box>
+                )}
+              </Grid>
+
+              <Grid size={12}>
+                <TextField
+                  label="Notes"
+                  fullWidth
+                  multiline
+                  rows={2}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </Grid>
+
+              {/* Action Buttons */}
+              <Grid size={12}>
+                <Divider sx={{ my: 2 }} />
+                <Box
+                  sx={{
+                    display: 'flex',
+                    flexDirection: { xs: 'column', sm: 'row' },
+                    justifyContent: 'flex-end',
+                    gap: 2,
+                  }}
+                >
+                  <Button
+                    type="button"
+                    variant="outlined"
+                    onClick={() => navigate('/hallmark/batches')}
+                    fullWidth={isMobile}
+                    sx={{ borderColor: '#5e3b63', color: '#5e3b63', px: 3, fontWeight: 600 }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="contained"
+                    disabled={saveMutation.isPending}
+                    onClick={handleSave}
+                    fullWidth={isMobile}
+                    sx={{
+                      backgroundColor: '#5e3b63',
+                      px: 3,
+                      fontWeight: 600,
+                      '&:hover': { backgroundColor: '#4a2d4f' },
+                    }}
+                  >
+                    Send Batch
+                  </Button>
+                </Box>
+              </Grid>
+            </Grid>
+          </CardContent>
+        </Card>
+      </Box>
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,290 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  Chip,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Add, Search, FilterList, Clear } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { HALLMARK_BATCH_STATUSES, fetchHallmarkBatches, type HallmarkBatchFilters } from '../../api/hallmark';
+import { formatWeight } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+export function HallmarkBatchList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+
+  const [filters, setFilters] = useState<HallmarkBatchFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<HallmarkBatchFilters>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['hallmark', 'batches', appliedFilters],
+    queryFn: () => fetchHallmarkBatches(appliedFilters),
+  });
+
+  const batches = data?.data ?? [];
+
+  const handleChangeFilter = (key: keyof HallmarkBatchFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const paginatedBatches = batches.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Hallmarking Batches
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => navigate('/hallmark/batches/new')}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Send Batch
+          </Button>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder="Batch number, centre or HUID..."
+                value={filters.search || ''}
+                onChange={(e) => handleChangeFilter('search', e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Status"
+                fullWidth
+                value={filters.status || ''}
+                onChange={(e) => handleChangeFilter('status', e.target.value)}
+              >
+                <MenuItem value="">All Statuses</MenuItem>
+                {HALLMARK_BATCH_STATUSES.map((status) => (
+                  <MenuItem key={status.value} value={status.value}>
+                    {status.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="Start Date"
+                value={filters.startDate || ''}
+                onChange={(e) => handleChangeFilter('startDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="End Date"
+                value={filters.endDate || ''}
+                onChange={(e) => handleChangeFilter('endDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading hallmarking batches. Please try again.'}
+              </Alert>
+            </Box>
+          ) : batches.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No hallmarking batches found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Batch No.</TableCell>
+                      <TableCell sx={headCellSx}>Sent</TableCell>
+                      <TableCell sx={headCellSx}>Centre</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Pieces
+                      </TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }} align="right">
+                        Gross Wt
+                      </TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }} align="right">
+                        Hallmarked / Rejected
+                      </TableCell>
+                      <TableCell sx={headCellSx}>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedBatches.map((batch) => {
+                      const status = HALLMARK_BATCH_STATUSES.find((option) => option.value === batch.status);
+                      const hallmarked = batch.pieces.filter((piece) => piece.status === 'received').length;
+                      const rejected = batch.pieces.filter((piece) => piece.status === 'rejected').length;
+                      return (
+                        <TableRow
+                          key={batch.id}
+                          hover
+                          onClick={() => navigate(`/hallmark/batches/${batch.id}`)}
+                          sx={{ cursor: 'pointer' }}
+                        >
+                          <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{batch.batchNumber}</TableCell>
+                          <TableCell sx={bodyCellSx}>{new Date(batch.sentDate).toLocaleDateString()}</TableCell>
+                          <TableCell sx={bodyCellSx}>{batch.centreName}</TableCell>
+                          <TableCell sx={bodyCellSx} align="right">
+                            {batch.pieces.length}
+                          </TableCell>
+                          <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }} align="right">
+                            {formatWeight(batch.totalGrossWeight)}
+                          </TableCell>
+                          <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }} align="right">
+                            {hallmarked} / {rejected}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            <Chip
+                              label={status?.label ?? batch.status}
+                              color={status?.color ?? 'default'}
+                              size="small"
+                              variant="outlined"
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={batches.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
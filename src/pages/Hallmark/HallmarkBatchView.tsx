@@ -0,0 +1,280 @@
+import { useState, type ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { ArrowBack, AssignmentReturn, Print } from '@mui/icons-material';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { getApiErrorMessage } from '../../api/client';
+import { fetchItem } from '../../api/items';
+import {
+  HALLMARK_BATCH_STATUSES,
+  HALLMARK_PIECE_STATUSES,
+  fetchHallmarkBatch,
+  type HallmarkBatch,
+} from '../../api/hallmark';
+import { formatWeight } from '../../utils/format';
+import { ReceiveHallmarkDialog } from './ReceiveHallmarkDialog';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+function DetailField({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+      <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+        {label}
+      </Typography>
+      <Typography variant="body1" sx={{ color: '#000000' }}>
+        {value || '-'}
+      </Typography>
+    </Grid>
+  );
+}
+
+export function HallmarkBatchView() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const [receiveDialogOpen, setReceiveDialogOpen] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const { data: batch, isLoading, error } = useQuery<HallmarkBatch>({
+    queryKey: ['hallmark', 'batches', id],
+    queryFn: () => fetchHallmarkBatch(id as string),
+    enabled: !!id,
+  });
+
+  // Tags are reprinted once pieces come back so the HUID appears on them
+  const printTagsMutation = useMutation({
+    mutationFn: (itemIds: string[]) => Promise.all(itemIds.map((itemId) => fetchItem(itemId))),
+    onSuccess: (items) => navigate('/tags/print', { state: { items } }),
+    onError: (err) => setSnackbarMessage(getApiErrorMessage(err, 'Failed to load items for printing')),
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !batch) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Hallmarking batch not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const status = HALLMARK_BATCH_STATUSES.find((option) => option.value === batch.status);
+  const hallmarkedItemIds = batch.pieces.filter((piece) => piece.status === 'received').map((piece) => piece.itemId);
+  const rejectedCount = batch.pieces.filter((piece) => piece.status === 'rejected').length;
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 3,
+          }}
+        >
+          <Box>
+            <Button
+              startIcon={<ArrowBack />}
+              onClick={() => navigate('/hallmark/batches')}
+              sx={{ color: '#5e3b63', mb: 1 }}
+            >
+              Hallmarking Batches
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {batch.batchNumber}
+              </Typography>
+              <Chip
+                label={status?.label ?? batch.status}
+                color={status?.color ?? 'default'}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+            {hallmarkedItemIds.length > 0 && (
+              <Button
+                variant="outlined"
+                startIcon={<Print />}
+                disabled={printTagsMutation.isPending}
+                onClick={() => printTagsMutation.mutate(hallmarkedItemIds)}
+                sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+              >
+                Print Tags
+              </Button>
+            )}
+            {batch.status !== 'received' && (
+              <Button
+                variant="contained"
+                startIcon={<AssignmentReturn />}
+                onClick={() => setReceiveDialogOpen(true)}
+                sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+              >
+                Receive Results
+              </Button>
+            )}
+          </Box>
+        </Box>
+
+        {rejectedCount > 0 && (
+          <Alert severity="warning" sx={{ mb: 3 }}>
+            {rejectedCount} {rejectedCount === 1 ? 'piece was' : 'pieces were'} rejected by the centre and carry no
+            HUID.
+          </Alert>
+        )}
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Batch Details
+          </Typography>
+          <Grid container spacing={2}>
+            <DetailField label="Assaying Centre" value={batch.centreName} />
+            <DetailField label="Sent Date" value={new Date(batch.sentDate).toLocaleDateString()} />
+            <DetailField
+              label="Pieces"
+              value={`${batch.pieces.length} · ${formatWeight(batch.totalGrossWeight)}`}
+            />
+            <DetailField label="Created By" value={batch.createdByName} />
+            {batch.notes && (
+              <Grid size={12}>
+                <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+                  Notes
+                </Typography>
+                <Typography variant="body1" sx={{ color: '#000000' }}>
+                  {batch.notes}
+                </Typography>
+              </Grid>
+            )}
+          </Grid>
+        </Paper>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Pieces
+          </Typography>
+          <TableContainer sx={{ overflowX: 'auto' }}>
+            <Table sx={{ minWidth: 650 }}>
+              <TableHead>
+                <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                  <TableCell sx={headCellSx}>Tag</TableCell>
+                  <TableCell sx={headCellSx}>Item</TableCell>
+                  <TableCell sx={headCellSx} align="right">
+                    Gross Wt
+                  </TableCell>
+                  <TableCell sx={headCellSx}>Status</TableCell>
+                  <TableCell sx={headCellSx}>HUID</TableCell>
+                  <TableCell sx={headCellSx}>Received</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {batch.pieces.map((piece) => {
+                  const pieceStatus = HALLMARK_PIECE_STATUSES.find((option) => option.value === piece.status);
+                  return (
+                    <TableRow
+                      key={piece.id}
+                      hover
+                      onClick={() => navigate(`/items/${piece.itemId}`)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{piece.tagNumber}</TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        {piece.description}
+                        {piece.purity ? ` (${piece.purity})` : ''}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {formatWeight(piece.grossWeight)}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        <Chip
+                          label={pieceStatus?.label ?? piece.status}
+                          color={pieceStatus?.color ?? 'default'}
+                          size="small"
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+                        {piece.huid ?? (piece.rejectionReason ? (
+                          <Typography component="span" sx={{ color: '#d32f2f', fontSize: 'inherit' }}>
+                            {piece.rejectionReason}
+                          </Typography>
+                        ) : (
+                          '-'
+                        ))}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        {piece.receivedDate ? new Date(piece.receivedDate).toLocaleDateString() : '-'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      </Box>
+
+      {receiveDialogOpen && <ReceiveHallmarkDialog batch={batch} onClose={() => setReceiveDialogOpen(false)} />}
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
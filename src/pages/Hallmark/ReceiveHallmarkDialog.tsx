@@ -0,0 +1,201 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { receiveHallmarkBatch, type HallmarkBatch, type HallmarkPieceResult } from '../../api/hallmark';
+import { findDuplicateHuids, isValidHuid, normalizeHuid } from '../../utils/hallmark';
+import { formatWeight } from '../../utils/format';
+
+type Outcome = 'pending' | HallmarkPieceResult['status'];
+
+interface ResultRow {
+  outcome: Outcome;
+  huid: string;
+  rejectionReason: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface ReceiveHallmarkDialogProps {
+  batch: HallmarkBatch;
+  onClose: () => void;
+}
+
+/**
+ * Record pieces back from the assaying centre with the HUID each was given,
+ * or why it was rejected. Pieces left pending stay at the centre.
+ */
+export function ReceiveHallmarkDialog({ batch, onClose }: ReceiveHallmarkDialogProps) {
+  const queryClient = useQueryClient();
+  const pending = batch.pieces.filter((piece) => piece.status === 'sent');
+  const [receivedDate, setReceivedDate] = useState(today());
+  const [rows, setRows] = useState<Record<string, ResultRow>>(() =>
+    Object.fromEntries(pending.map((piece) => [piece.id, { outcome: 'received', huid: '', rejectionReason: '' }]))
+  );
+
+  const receiveMutation = useMutation({
+    mutationFn: (results: HallmarkPieceResult[]) => receiveHallmarkBatch(batch.id, { receivedDate, results }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hallmark'] });
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+      onClose();
+    },
+  });
+
+  const updateRow = (pieceId: string, changes: Partial<ResultRow>) => {
+    setRows((prev) => ({ ...prev, [pieceId]: { ...prev[pieceId], ...changes } }));
+  };
+
+  const duplicates = findDuplicateHuids(
+    pending.map((piece) => (rows[piece.id].outcome === 'received' ? normalizeHuid(rows[piece.id].huid) : ''))
+  );
+  const huidError = (row: ResultRow) => {
+    if (row.outcome !== 'received') return null;
+    const huid = normalizeHuid(row.huid);
+    if (!huid) return 'HUID is required';
+    if (!isValidHuid(huid)) return '6 letters or digits';
+    if (duplicates.has(huid)) return 'Entered twice';
+    return null;
+  };
+
+  const results: HallmarkPieceResult[] = pending.flatMap((piece) => {
+    const row = rows[piece.id];
+    if (row.outcome === 'pending') return [];
+    return [
+      {
+        pieceId: piece.id,
+        status: row.outcome,
+        huid: row.outcome === 'received' ? normalizeHuid(row.huid) : null,
+        rejectionReason: row.outcome === 'rejected' ? row.rejectionReason.trim() : null,
+      },
+    ];
+  });
+
+  const invalid =
+    !receivedDate ||
+    results.length === 0 ||
+    pending.some((piece) => {
+      const row = rows[piece.id];
+      return !!huidError(row) || (row.outcome === 'rejected' && !row.rejectionReason.trim());
+    });
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>
+        Receive from {batch.centreName} · {batch.batchNumber}
+      </DialogTitle>
+      <DialogContent>
+        <TextField
+          type="date"
+          size="small"
+          margin="dense"
+          label="Received Date"
+          value={receivedDate}
+          onChange={(e) => setReceivedDate(e.target.value)}
+          slotProps={{ inputLabel: { shrink: true } }}
+          sx={{ width: 200 }}
+        />
+        <Box sx={{ overflowX: 'auto', mt: 1 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Tag</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Item</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">
+                  Gross Wt
+                </TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Result</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>HUID / Reason</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {pending.map((piece) => {
+                const row = rows[piece.id];
+                const error = huidError(row);
+                return (
+                  <TableRow key={piece.id}>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{piece.tagNumber}</TableCell>
+                    <TableCell>
+                      {piece.description}
+                      {piece.purity ? ` (${piece.purity})` : ''}
+                    </TableCell>
+                    <TableCell align="right">{formatWeight(piece.grossWeight)}</TableCell>
+                    <TableCell>
+                      <TextField
+                        select
+                        size="small"
+                        value={row.outcome}
+                        onChange={(e) => updateRow(piece.id, { outcome: e.target.value as Outcome })}
+                        sx={{ minWidth: 140 }}
+                      >
+                        <MenuItem value="received">Hallmarked</MenuItem>
+                        <MenuItem value="rejected">Rejected</MenuItem>
+                        <MenuItem value="pending">Still at Centre</MenuItem>
+                      </TextField>
+                    </TableCell>
+                    <TableCell>
+                      {row.outcome === 'received' && (
+                        <TextField
+                          size="small"
+                          placeholder="HUID"
+                          value={row.huid}
+                          onChange={(e) => updateRow(piece.id, { huid: e.target.value.toUpperCase() })}
+                          error={!!row.huid && !!error}
+                          helperText={row.huid ? error : undefined}
+                          slotProps={{ htmlInput: { maxLength: 6, style: { fontFamily: 'monospace' } } }}
+                          sx={{ width: 150 }}
+                        />
+                      )}
+                      {row.outcome === 'rejected' && (
+                        <TextField
+                          size="small"
+                          placeholder="Reason, e.g. purity below declared"
+                          value={row.rejectionReason}
+                          onChange={(e) => updateRow(piece.id, { rejectionReason: e.target.value })}
+                          sx={{ minWidth: 240 }}
+                        />
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </Box>
+        {receiveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(receiveMutation.error, 'Failed to record results')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={invalid || receiveMutation.isPending}
+          onClick={() => receiveMutation.mutate(results)}
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Save Results
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
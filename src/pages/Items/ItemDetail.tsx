@@ -0,0 +1,415 @@
+import { useState, type ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  CircularProgress,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+  IconButton,
+} from '@mui/material';
+import { Edit, Delete, ArrowBack, Add, Description } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { PriceBreakup } from '../../components/PriceBreakup';
+import { useOrgConfig } from '../../hooks/useOrgConfig';
+import { useMetalRates } from '../../hooks/useMetalRates';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  ITEM_CATEGORIES,
+  MAKING_CHARGE_TYPES,
+  STONE_TYPES,
+  deleteItem,
+  fetchItem,
+  type Item,
+} from '../../api/items';
+import { CUT_GRADES, STONE_SHAPES, fetchCertificates, type Certificate } from '../../api/certificates';
+import { formatAmount, formatWeight } from '../../utils/format';
+import { CertificateDialog } from '../Certificates/CertificateDialog';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+function DetailField({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+      <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+        {label}
+      </Typography>
+      <Typography variant="body1" sx={{ color: '#000000' }}>
+        {value || '-'}
+      </Typography>
+    </Grid>
+  );
+}
+
+export function ItemDetail() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const { config } = useOrgConfig();
+  const { getRate } = useMetalRates();
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [dialogCertificate, setDialogCertificate] = useState<Certificate | null | undefined>(undefined);
+
+  const { data: item, isLoading, error } = useQuery<Item>({
+    queryKey: ['items', id],
+    queryFn: () => fetchItem(id as string),
+    enabled: !!id,
+  });
+
+  const { data: certificatesData } = useQuery({
+    queryKey: ['certificates', 'item', id],
+    queryFn: () => fetchCertificates({ itemId: id }),
+    enabled: !!id && !!config?.itemFields.showCertificate,
+  });
+  const certificates = certificatesData?.data ?? [];
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteItem(id as string),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+      navigate('/items');
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !item) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">
+          {error instanceof Error ? error.message : 'Item not found.'}
+        </Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const itemFields = config?.itemFields;
+  const rate = item.purity ? getRate(item.metal, item.purity) : undefined;
+  const makingLabel = MAKING_CHARGE_TYPES.find((type) => type.value === item.makingChargeType)?.label;
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 3,
+          }}
+        >
+          <Box>
+            <Button startIcon={<ArrowBack />} onClick={() => navigate('/items')} sx={{ color: '#5e3b63', mb: 1 }}>
+              Items
+            </Button>
+            <Typography
+              variant="h4"
+              sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+            >
+              {item.name}
+            </Typography>
+            <Typography sx={{ color: '#666666', fontFamily: 'monospace' }}>{item.tagNumber}</Typography>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1.5 }}>
+            <Button
+              variant="outlined"
+              startIcon={<Delete />}
+              onClick={() => setDeleteDialogOpen(true)}
+              sx={{ borderColor: '#d32f2f', color: '#d32f2f', fontWeight: 600 }}
+            >
+              Delete
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Edit />}
+              onClick={() => navigate(`/items/${item.id}/edit`)}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              Edit
+            </Button>
+          </Box>
+        </Box>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Item Details
+          </Typography>
+          <Grid container spacing={2}>
+            <DetailField
+              label="Category"
+              value={ITEM_CATEGORIES.find((category) => category.value === item.category)?.label ?? item.category}
+            />
+            <DetailField label="Metal" value={<span style={{ textTransform: 'capitalize' }}>{item.metal}</span>} />
+            {itemFields?.showPurity && <DetailField label="Purity" value={item.purity} />}
+            <DetailField label="Gross Weight" value={formatWeight(item.grossWeight)} />
+            <DetailField label="Net Weight" value={formatWeight(item.netWeight)} />
+            <DetailField label="Wastage" value={`${item.wastagePercent}%`} />
+            <DetailField
+              label={`Making Charge (${makingLabel})`}
+              value={
+                item.makingChargeType === 'percent'
+                  ? `${item.makingCharge}%`
+                  : formatAmount(item.makingCharge)
+              }
+            />
+            {itemFields?.showHallmark && (
+              <>
+                <DetailField label="HUID" value={item.huid} />
+                <DetailField label="Hallmarking Centre" value={item.hallmarkCentre} />
+              </>
+            )}
+            {itemFields?.showCertificate && (
+              <>
+                <DetailField label="Certificate Lab" value={item.certificateLab} />
+                <DetailField label="Certificate Number" value={item.certificateNumber} />
+              </>
+            )}
+            <Grid size={12}>
+              <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+                Description
+              </Typography>
+              <Typography variant="body1" sx={{ color: '#000000' }}>
+                {item.description || '-'}
+              </Typography>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {rate && (
+          <Box sx={{ mb: 3 }}>
+            <PriceBreakup
+              title={`Price at Today's Rate (${item.purity})`}
+              input={{
+                grossWeight: item.grossWeight,
+                netWeight: item.netWeight,
+                ratePerGram: rate.ratePerGram,
+                wastagePercent: item.wastagePercent,
+                makingChargeType: item.makingChargeType,
+                makingCharge: item.makingCharge,
+                stoneAmount: item.stones.reduce((total, stone) => total + stone.amount, 0),
+              }}
+            />
+          </Box>
+        )}
+
+        {itemFields?.showStoneDetails && (
+          <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+            <Typography variant="h6" sx={sectionTitleSx}>
+              Stones
+            </Typography>
+            {item.stones.length === 0 ? (
+              <Typography sx={{ color: '#000000' }}>No stones recorded.</Typography>
+            ) : (
+              <Box sx={{ overflowX: 'auto' }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontWeight: 600 }}>Stone</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Shape</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">
+                        Pieces
+                      </TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">
+                        Weight (ct)
+                      </TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">
+                        Rate / ct
+                      </TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">
+                        Amount
+                      </TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {item.stones.map((stone, index) => (
+                      <TableRow key={stone.id ?? index}>
+                        <TableCell>
+                          {STONE_TYPES.find((type) => type.value === stone.stoneType)?.label ?? stone.stoneType}
+                        </TableCell>
+                        <TableCell>{stone.shape || '-'}</TableCell>
+                        <TableCell align="right">{stone.pieces}</TableCell>
+                        <TableCell align="right">{stone.weightCarat.toFixed(3)}</TableCell>
+                        <TableCell align="right">{formatAmount(stone.ratePerCarat)}</TableCell>
+                        <TableCell align="right">{formatAmount(stone.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            )}
+          </Paper>
+        )}
+
+        {itemFields?.showCertificate && (
+          <Paper sx={{ p: { xs: 2, sm: 3 }, mt: 3, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+            <Box
+              sx={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                borderBottom: '2px solid #5e3b63',
+                pb: 1,
+                mb: 2,
+              }}
+            >
+              <Typography variant="h6" sx={{ color: '#000000', fontWeight: 600 }}>
+                Certificates
+              </Typography>
+              <Button
+                size="small"
+                startIcon={<Add />}
+                onClick={() => setDialogCertificate(null)}
+                sx={{ color: '#5e3b63', fontWeight: 600 }}
+              >
+                Add Certificate
+              </Button>
+            </Box>
+            {certificates.length === 0 ? (
+              <Typography sx={{ color: '#000000' }}>No certificates recorded.</Typography>
+            ) : (
+              <Box sx={{ overflowX: 'auto' }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontWeight: 600 }}>Certificate</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Stone</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }} align="right">
+                        Carat
+                      </TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Shape</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Colour / Clarity</TableCell>
+                      <TableCell sx={{ fontWeight: 600 }}>Cut</TableCell>
+                      <TableCell />
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {certificates.map((certificate) => (
+                      <TableRow key={certificate.id}>
+                        <TableCell>
+                          {certificate.lab}{' '}
+                          <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                            {certificate.certificateNumber}
+                          </Box>
+                        </TableCell>
+                        <TableCell>
+                          {STONE_TYPES.find((type) => type.value === certificate.stoneType)?.label ??
+                            certificate.stoneType}
+                        </TableCell>
+                        <TableCell align="right">{certificate.caratWeight.toFixed(3)}</TableCell>
+                        <TableCell>
+                          {STONE_SHAPES.find((shape) => shape.value === certificate.shape)?.label ??
+                            (certificate.shape || '-')}
+                        </TableCell>
+                        <TableCell>
+                          {[certificate.colour, certificate.clarity].filter(Boolean).join(' / ') || '-'}
+                        </TableCell>
+                        <TableCell>
+                          {CUT_GRADES.find((grade) => grade.value === certificate.cut)?.label ?? '-'}
+                        </TableCell>
+                        <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                          {certificate.attachmentUrl && (
+                            <IconButton
+                              size="small"
+                              aria-label="open certificate scan"
+                              href={certificate.attachmentUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              sx={{ color: '#5e3b63' }}
+                            >
+                              <Description fontSize="small" />
+                            </IconButton>
+                          )}
+                          <IconButton
+                            size="small"
+                            aria-label="edit certificate"
+                            onClick={() => setDialogCertificate(certificate)}
+                            sx={{ color: '#5e3b63' }}
+                          >
+                            <Edit fontSize="small" />
+                          </IconButton>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            )}
+          </Paper>
+        )}
+      </Box>
+
+      {dialogCertificate !== undefined && (
+        <CertificateDialog
+          certificate={dialogCertificate}
+          item={item}
+          onClose={() => setDialogCertificate(undefined)}
+        />
+      )}
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog
+        open={deleteDialogOpen}
+        onClose={() => setDeleteDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Delete Item</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000' }}>
+            Are you sure you want to delete {item.tagNumber}? This cannot be undone.
+          </DialogContentText>
+          {deleteMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(deleteMutation.error, 'Failed to delete item')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setDeleteDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => deleteMutation.mutate()}
+            variant="contained"
+            disabled={deleteMutation.isPending}
+            sx={{ backgroundColor: '#d32f2f', fontWeight: 600, '&:hover': { backgroundColor: '#b71c1c' } }}
+          >
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,789 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  CircularProgress,
+  Snackbar,
+  Alert,
+  MenuItem,
+  Divider,
+  IconButton,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import { useForm, useWatch, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { useOrgConfig } from '../../hooks/useOrgConfig';
+import { getApiErrorMessage } from '../../api/client';
+import type { OrgConfig } from '../../api/orgConfig';
+import { METALS, METAL_PURITIES, type Metal } from '../../api/metalRates';
+import {
+  ITEM_CATEGORIES,
+  MAKING_CHARGE_TYPES,
+  STONE_TYPES,
+  createItem,
+  fetchItem,
+  stoneWeightInGrams,
+  updateItem,
+  type Item,
+  type ItemInput,
+} from '../../api/items';
+import { checkHuidAvailability } from '../../api/hallmark';
+import { isValidHuid, normalizeHuid } from '../../utils/hallmark';
+
+const decimalString = (message: string) =>
+  z.string().refine(
+    (val) => {
+      if (!val || val === '') return true;
+      const num = parseFloat(val);
+      return !isNaN(num) && num >= 0;
+    },
+    { message }
+  );
+
+const stoneLineSchema = z.object({
+  stoneType: z.string().min(1, 'Stone type is required'),
+  shape: z.string(),
+  pieces: z.string().refine((val) => /^\d+$/.test(val) && parseInt(val, 10) > 0, {
+    message: 'Pieces must be at least 1',
+  }),
+  weightCarat: decimalString('Weight must be a positive number'),
+  ratePerCarat: decimalString('Rate must be a positive number'),
+});
+
+const baseItemSchema = z.object({
+  name: z.string().min(1, 'Item name is required'),
+  category: z.string().min(1, 'Category is required'),
+  metal: z.enum(['gold', 'silver', 'platinum']),
+  purity: z.string(),
+  grossWeight: z
+    .string()
+    .min(1, 'Gross weight is required')
+    .refine((val) => parseFloat(val) > 0, { message: 'Gross weight must be greater than 0' }),
+  netWeight: decimalString('Net weight must be a positive number'),
+  wastagePercent: decimalString('Wastage must be a positive number'),
+  makingChargeType: z.enum(['per_gram', 'flat', 'percent']),
+  makingCharge: decimalString('Making charge must be a positive number'),
+  huid: z.string(),
+  hallmarkCentre: z.string(),
+  certificateLab: z.string(),
+  certificateNumber: z.string(),
+  description: z.string(),
+  stones: z.array(stoneLineSchema),
+});
+
+type ItemFormData = z.infer<typeof baseItemSchema>;
+
+/**
+ * Build the item schema for the field groups the organization has enabled,
+ * so hidden groups are never required.
+ */
+const createItemSchema = (itemFields?: OrgConfig['itemFields']) =>
+  baseItemSchema.superRefine((data, ctx) => {
+    if (itemFields?.showPurity && !data.purity) {
+      ctx.addIssue({ code: 'custom', path: ['purity'], message: 'Purity is required' });
+    }
+    if (itemFields?.showHallmark && data.huid && !isValidHuid(normalizeHuid(data.huid))) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['huid'],
+        message: 'HUID must be 6 letters or digits',
+      });
+    }
+    if (itemFields?.showCertificate && data.certificateNumber && !data.certificateLab) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['certificateLab'],
+        message: 'Lab is required when a certificate number is entered',
+      });
+    }
+    const gross = parseFloat(data.grossWeight);
+    const net = parseFloat(data.netWeight);
+    if (!isNaN(gross) && !isNaN(net) && net > gross) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['netWeight'],
+        message: 'Net weight cannot exceed gross weight',
+      });
+    }
+  });
+
+const emptyStone = {
+  stoneType: 'diamond',
+  shape: '',
+  pieces: '1',
+  weightCarat: '',
+  ratePerCarat: '',
+};
+
+const defaultValues: ItemFormData = {
+  name: '',
+  category: '',
+  metal: 'gold',
+  purity: '',
+  grossWeight: '',
+  netWeight: '',
+  wastagePercent: '',
+  makingChargeType: 'per_gram',
+  makingCharge: '',
+  huid: '',
+  hallmarkCentre: '',
+  certificateLab: '',
+  certificateNumber: '',
+  description: '',
+  stones: [],
+};
+
+const toFormData = (item: Item): ItemFormData => ({
+  name: item.name,
+  category: item.category,
+  metal: item.metal,
+  purity: item.purity || '',
+  grossWeight: item.grossWeight.toString(),
+  netWeight: item.netWeight.toString(),
+  wastagePercent: item.wastagePercent?.toString() || '',
+  makingChargeType: item.makingChargeType,
+  makingCharge: item.makingCharge?.toString() || '',
+  huid: item.huid || '',
+  hallmarkCentre: item.hallmarkCentre || '',
+  certificateLab: item.certificateLab || '',
+  certificateNumber: item.certificateNumber || '',
+  description: item.description || '',
+  stones: item.stones.map((stone) => ({
+    stoneType: stone.stoneType,
+    shape: stone.shape || '',
+    pieces: stone.pieces.toString(),
+    weightCarat: stone.weightCarat.toString(),
+    ratePerCarat: stone.ratePerCarat.toString(),
+  })),
+});
+
+const parseNumber = (val: string) => (val ? parseFloat(val) : 0);
+
+const sectionTitleSx = {
+  color: '#0d0421',
+  fontWeight: 600,
+  mb: 1,
+  fontSize: { xs: '1rem', sm: '1.1rem' },
+};
+
+export function ItemForm() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const isEdit = !!id;
+  const { config, loading: configLoading } = useOrgConfig();
+  const itemFields = config?.itemFields;
+  const [snackbarOpen, setSnackbarOpen] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+
+  const { data: item, isLoading: itemLoading, error } = useQuery<Item>({
+    queryKey: ['items', id],
+    queryFn: () => fetchItem(id as string),
+    enabled: isEdit,
+  });
+
+  const schema = useMemo(() => createItemSchema(itemFields), [itemFields]);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    reset,
+    setValue,
+    setError,
+  } = useForm<ItemFormData>({
+    resolver: zodResolver(schema),
+    defaultValues,
+  });
+
+  const { fields: stoneFields, append, remove } = useFieldArray({ control, name: 'stones' });
+  const metal = useWatch({ control, name: 'metal' });
+  const stones = useWatch({ control, name: 'stones' });
+  const makingChargeType = useWatch({ control, name: 'makingChargeType' });
+
+  const stoneGrams = stoneWeightInGrams(
+    (stones || []).map((stone) => ({ weightCarat: parseNumber(stone.weightCarat) }))
+  );
+
+  useEffect(() => {
+    if (item) {
+      reset(toFormData(item));
+    }
+  }, [item, reset]);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: ItemInput) => (isEdit ? updateItem(id as string, data) : createItem(data)),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+      navigate(`/items/${saved.id}`);
+    },
+    onError: (error) => {
+      setSnackbarMessage(getApiErrorMessage(error, 'Failed to save item'));
+      setSnackbarOpen(true);
+    },
+  });
+
+  const onSubmit = async (data: ItemFormData) => {
+    const huid = itemFields?.showHallmark ? normalizeHuid(data.huid) : '';
+    // HUIDs are unique within the organization; check before saving so the error lands on the field
+    if (huid && huid !== item?.huid) {
+      try {
+        const availability = await checkHuidAvailability(huid, id);
+        if (!availability.available) {
+          setError('huid', {
+            message: `HUID is already on ${availability.tagNumber ?? 'another item'}`,
+          });
+          return;
+        }
+      } catch (error) {
+        setSnackbarMessage(getApiErrorMessage(error, 'Failed to check HUID'));
+        setSnackbarOpen(true);
+        return;
+      }
+    }
+
+    const grossWeight = parseFloat(data.grossWeight);
+    // Field groups switched off keep what the item already has; only new items start them empty
+    const stoneLines = itemFields?.showStoneDetails
+      ? data.stones.map((stone) => {
+          const weightCarat = parseNumber(stone.weightCarat);
+          const ratePerCarat = parseNumber(stone.ratePerCarat);
+          return {
+            stoneType: stone.stoneType,
+            shape: stone.shape || null,
+            pieces: parseInt(stone.pieces, 10),
+            weightCarat,
+            ratePerCarat,
+            amount: weightCarat * ratePerCarat,
+          };
+        })
+      : (item?.stones ?? []);
+
+    saveMutation.mutate({
+      name: data.name,
+      category: data.category,
+      metal: data.metal,
+      purity: itemFields?.showPurity ? data.purity || null : (item?.purity ?? null),
+      grossWeight,
+      // Net weight defaults to gross less stone weight when left blank
+      netWeight: data.netWeight
+        ? parseFloat(data.netWeight)
+        : Math.max(grossWeight - stoneWeightInGrams(stoneLines), 0),
+      wastagePercent: parseNumber(data.wastagePercent),
+      makingChargeType: data.makingChargeType,
+      makingCharge: parseNumber(data.makingCharge),
+      huid: itemFields?.showHallmark ? huid || null : (item?.huid ?? null),
+      hallmarkCentre: itemFields?.showHallmark ? data.hallmarkCentre || null : (item?.hallmarkCentre ?? null),
+      certificateLab: itemFields?.showCertificate ? data.certificateLab || null : (item?.certificateLab ?? null),
+      certificateNumber: itemFields?.showCertificate
+        ? data.certificateNumber || null
+        : (item?.certificateNumber ?? null),
+      description: data.description || null,
+      stones: stoneLines,
+    });
+  };
+
+  if (configLoading || (isEdit && itemLoading)) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 3,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          {isEdit ? `Edit Item ${item?.tagNumber ?? ''}` : 'New Item'}
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {error instanceof Error ? error.message : 'Failed to load item. Please try again.'}
+          </Alert>
+        )}
+
+        <Card elevation={0} sx={{ border: '1px solid #e0e0e0', borderRadius: 2 }}>
+          <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+            <form onSubmit={handleSubmit(onSubmit)}>
+              <Grid container spacing={3}>
+                {/* Basic Details */}
+                <Grid size={12}>
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    Basic Details
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6 }}>
+                  <Controller
+                    name="name"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        label="Item Name"
+                        fullWidth
+                        error={!!errors.name}
+                        helperText={errors.name?.message}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6 }}>
+                  <Controller
+                    name="category"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        select
+                        label="Category"
+                        fullWidth
+                        error={!!errors.category}
+                        helperText={errors.category?.message}
+                      >
+                        {ITEM_CATEGORIES.map((category) => (
+                          <MenuItem key={category.value} value={category.value}>
+                            {category.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6 }}>
+                  <Controller
+                    name="metal"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        select
+                        label="Metal"
+                        fullWidth
+                        onChange={(e) => {
+                          field.onChange(e.target.value);
+                          setValue('purity', '');
+                        }}
+                      >
+                        {METALS.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                {itemFields?.showPurity && (
+                  <Grid size={{ xs: 12, sm: 6 }}>
+                    <Controller
+                      name="purity"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          select
+                          label="Purity"
+                          fullWidth
+                          error={!!errors.purity}
+                          helperText={errors.purity?.message}
+                        >
+                          {METAL_PURITIES[metal as Metal].map((purity) => (
+                            <MenuItem key={purity.value} value={purity.value}>
+                              {purity.label}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                      )}
+                    />
+                  </Grid>
+                )}
+                <Grid size={12}>
+                  <Controller
+                    name="description"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField {...field} label="Description" fullWidth multiline rows={2} />
+                    )}
+                  />
+                </Grid>
+
+                {/* Weights & Charges */}
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    Weights & Charges
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="grossWeight"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        label="Gross Weight (g)"
+                        type="number"
+                        fullWidth
+                        error={!!errors.grossWeight}
+                        helperText={errors.grossWeight?.message}
+                        slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="netWeight"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        label="Net Weight (g)"
+                        type="number"
+                        fullWidth
+                        error={!!errors.netWeight}
+                        helperText={errors.netWeight?.message || 'Leave blank to use gross less stones'}
+                        slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+                  <Controller
+                    name="wastagePercent"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        label="Wastage %"
+                        type="number"
+                        fullWidth
+                        error={!!errors.wastagePercent}
+                        helperText={errors.wastagePercent?.message}
+                        slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+                  <Controller
+                    name="makingChargeType"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField {...field} select label="Making Charge Type" fullWidth>
+                        {MAKING_CHARGE_TYPES.map((type) => (
+                          <MenuItem key={type.value} value={type.value}>
+                            {type.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+                  <Controller
+                    name="makingCharge"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        label={makingChargeType === 'percent' ? 'Making Charge %' : 'Making Charge'}
+                        type="number"
+                        fullWidth
+                        error={!!errors.makingCharge}
+                        helperText={errors.makingCharge?.message}
+                        slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+                      />
+                    )}
+                  />
+                </Grid>
+
+                {/* Hallmark */}
+                {itemFields?.showHallmark && (
+                  <>
+                    <Grid size={12}>
+                      <Divider sx={{ my: 1 }} />
+                      <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                        Hallmark
+                      </Typography>
+                    </Grid>
+                    <Grid size={{ xs: 12, sm: 6 }}>
+                      <Controller
+                        name="huid"
+                        control={control}
+                        render={({ field }) => (
+                          <TextField
+                            {...field}
+                            onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                            label="HUID"
+                            fullWidth
+                            error={!!errors.huid}
+                            helperText={errors.huid?.message || '6-character hallmark unique ID'}
+                            slotProps={{ htmlInput: { maxLength: 6 } }}
+                          />
+                        )}
+                      />
+                    </Grid>
+                    <Grid size={{ xs: 12, sm: 6 }}>
+                      <Controller
+                        name="hallmarkCentre"
+                        control={control}
+                        render={({ field }) => (
+                          <TextField {...field} label="Hallmarking Centre" fullWidth />
+                        )}
+                      />
+                    </Grid>
+                  </>
+                )}
+
+                {/* Certificate */}
+                {itemFields?.showCertificate && (
+                  <>
+                    <Grid size={12}>
+                      <Divider sx={{ my: 1 }} />
+                      <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                        Certificate
+                      </Typography>
+                    </Grid>
+                    <Grid size={{ xs: 12, sm: 6 }}>
+                      <Controller
+                        name="certificateLab"
+                        control={control}
+                        render={({ field }) => (
+                          <TextField
+                            {...field}
+                            label="Lab"
+                            fullWidth
+                            placeholder="e.g., IGI, GIA, SGL"
+                            error={!!errors.certificateLab}
+                            helperText={errors.certificateLab?.message}
+                          />
+                        )}
+                      />
+                    </Grid>
+                    <Grid size={{ xs: 12, sm: 6 }}>
+                      <Controller
+                        name="certificateNumber"
+                        control={control}
+                        render={({ field }) => (
+                          <TextField {...field} label="Certificate Number" fullWidth />
+                        )}
+                      />
+                    </Grid>
+                  </>
+                )}
+
+                {/* Stone Details */}
+                {itemFields?.showStoneDetails && (
+                  <>
+                    <Grid size={12}>
+                      <Divider sx={{ my: 1 }} />
+                      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                          Stone Details
+                        </Typography>
+                        <Button
+                          startIcon={<Add />}
+                          onClick={() => append(emptyStone)}
+                          sx={{ color: '#5e3b63', fontWeight: 600 }}
+                        >
+                          Add Stone
+                        </Button>
+                      </Box>
+                      {stoneFields.length > 0 && (
+                        <Typography variant="body2" sx={{ color: '#666666' }}>
+                          Total stone weight: {stoneGrams.toFixed(3)} g
+                        </Typography>
+                      )}
+                    </Grid>
+                    {stoneFields.map((stoneField, index) => (
+                      <Grid key={stoneField.id} size={12}>
+                        <Grid container spacing={2} sx={{ alignItems: 'flex-start' }}>
+                          <Grid size={{ xs: 12, sm: 6, md: 2.5 }}>
+                            <Controller
+                              name={`stones.${index}.stoneType`}
+                              control={control}
+                              render={({ field }) => (
+                                <TextField {...field} select label="Stone" fullWidth size="small">
+                                  {STONE_TYPES.map((type) => (
+                                    <MenuItem key={type.value} value={type.value}>
+                                      {type.label}
+                                    </MenuItem>
+                                  ))}
+                                </TextField>
+                              )}
+                            />
+                          </Grid>
+                          <Grid size={{ xs: 12, sm: 6, md: 2.5 }}>
+                            <Controller
+                              name={`stones.${index}.shape`}
+                              control={control}
+                              render={({ field }) => (
+                                <TextField {...field} label="Shape" fullWidth size="small" />
+                              )}
+                            />
+                          </Grid>
+                          <Grid size={{ xs: 4, md: 2 }}>
+                            <Controller
+                              name={`stones.${index}.pieces`}
+                              control={control}
+                              render={({ field }) => (
+                                <TextField
+                                  {...field}
+                                  label="Pieces"
+                                  type="number"
+                                  fullWidth
+                                  size="small"
+                                  error={!!errors.stones?.[index]?.pieces}
+                                  helperText={errors.stones?.[index]?.pieces?.message}
+                                />
+                              )}
+                            />
+                          </Grid>
+                          <Grid size={{ xs: 4, md: 2 }}>
+                            <Controller
+                              name={`stones.${index}.weightCarat`}
+                              control={control}
+                              render={({ field }) => (
+                                <TextField
+                                  {...field}
+                                  label="Weight (ct)"
+                                  type="number"
+                                  fullWidth
+                                  size="small"
+                                  error={!!errors.stones?.[index]?.weightCarat}
+                                  helperText={errors.stones?.[index]?.weightCarat?.message}
+                                  slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                                />
+                              )}
+                            />
+                          </Grid>
+                          <Grid size={{ xs: 4, md: 2 }}>
+                            <Controller
+                              name={`stones.${index}.ratePerCarat`}
+                              control={control}
+                              render={({ field }) => (
+                                <TextField
+                                  {...field}
+                                  label="Rate / ct"
+                                  type="number"
+                                  fullWidth
+                                  size="small"
+                                  error={!!errors.stones?.[index]?.ratePerCarat}
+                                  helperText={errors.stones?.[index]?.ratePerCarat?.message}
+                                  slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+                                />
+                              )}
+                            />
+                          </Grid>
+                          <Grid size={{ xs: 12, md: 1 }} sx={{ textAlign: 'right' }}>
+                            <IconButton
+                              aria-label="remove stone"
+                              onClick={() => remove(index)}
+                              sx={{ color: '#d32f2f' }}
+                            >
+                              <Delete />
+                            </IconButton>
+                          </Grid>
+                        </Grid>
+                      </Grid>
+                    ))}
+                  </>
+                )}
+
+                {/* Action Buttons */}
+                <Grid size={12}>
+                  <Divider sx={{ my: 2 }} />
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      flexDirection: { xs: 'column', sm: 'row' },
+                      justifyContent: 'flex-end',
+                      gap: 2,
+                    }}
+                  >
+                    <Button
+                      type="button"
+                      variant="outlined"
+                      onClick={() => navigate(isEdit ? `/items/${id}` : '/items')}
+                      fullWidth={isMobile}
+                      sx={{
+                        borderColor: '#5e3b63',
+                        color: '#5e3b63',
+                        px: 3,
+                        fontWeight: 600,
+                        '&:hover': {
+                          borderColor: '#5e3b63',
+                          backgroundColor: 'rgba(94, 59, 99, 0.08)',
+                        },
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant="contained"
+                      disabled={isSubmitting || saveMutation.isPending}
+                      fullWidth={isMobile}
+                      sx={{
+                        backgroundColor: '#5e3b63',
+                        color: '#ffffff',
+                        px: 3,
+                        fontWeight: 600,
+                        '&:hover': {
+                          backgroundColor: '#4a2d4f',
+                        },
+                      }}
+                    >
+                      {isSubmitting || saveMutation.isPending ? (
+                        <CircularProgress size={20} sx={{ color: '#ffffff' }} />
+                      ) : (
+                        'Save'
+                      )}
+                    </Button>
+                  </Box>
+                </Grid>
+              </Grid>
+            </form>
+          </CardContent>
+        </Card>
+      </Box>
+
+      <Snackbar
+        open={snackbarOpen}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarOpen(false)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarOpen(false)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
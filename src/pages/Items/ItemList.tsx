@@ -0,0 +1,365 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  Checkbox,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Add, Search, FilterList, Clear, Print, Style } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { useOrgConfig } from '../../hooks/useOrgConfig';
+import { METALS } from '../../api/metalRates';
+import { ITEM_CATEGORIES, fetchItems, type ItemFilters } from '../../api/items';
+import { formatWeight } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+const categoryLabel = (value: string) =>
+  ITEM_CATEGORIES.find((category) => category.value === value)?.label ?? value;
+
+export function ItemList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const { config } = useOrgConfig();
+
+  const [filters, setFilters] = useState<ItemFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<ItemFilters>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['items', 'list', appliedFilters],
+    queryFn: () => fetchItems(appliedFilters),
+  });
+
+  const handleChangeFilter = (key: keyof ItemFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const items = data?.data || [];
+  const paginatedItems = items.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+  const showPurity = config?.itemFields.showPurity ?? false;
+  const showHallmark = config?.itemFields.showHallmark ?? false;
+  const selectedItems = items.filter((item) => selectedIds.has(item.id));
+  const allSelected = items.length > 0 && selectedItems.length === items.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  // The header checkbox selects every item matching the filters, not just the current page
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(items.map((item) => item.id)));
+  };
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            mb: 2,
+            gap: 2,
+          }}
+        >
+          <Typography
+            variant="h4"
+            sx={{
+              color: '#000000',
+              fontWeight: 600,
+              fontSize: { xs: '1.5rem', sm: '1.75rem' },
+            }}
+          >
+            Item Master
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+            <Button
+              variant="outlined"
+              startIcon={<Style />}
+              onClick={() => navigate('/tags/templates')}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              Tag Templates
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Print />}
+              disabled={selectedItems.length === 0}
+              onClick={() => navigate('/tags/print', { state: { items: selectedItems } })}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              Print Tags{selectedItems.length > 0 ? ` (${selectedItems.length})` : ''}
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={() => navigate('/items/new')}
+              sx={{
+                backgroundColor: '#5e3b63',
+                fontWeight: 600,
+                '&:hover': { backgroundColor: '#4a2d4f' },
+              }}
+            >
+              New Item
+            </Button>
+          </Box>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder="Search by tag number or name..."
+                value={filters.search || ''}
+                onChange={(e) => handleChangeFilter('search', e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Category"
+                fullWidth
+                value={filters.category || ''}
+                onChange={(e) => handleChangeFilter('category', e.target.value)}
+              >
+                <MenuItem value="">All Categories</MenuItem>
+                {ITEM_CATEGORIES.map((category) => (
+                  <MenuItem key={category.value} value={category.value}>
+                    {category.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Metal"
+                fullWidth
+                value={filters.metal || ''}
+                onChange={(e) => handleChangeFilter('metal', e.target.value)}
+              >
+                <MenuItem value="">All Metals</MenuItem>
+                {METALS.map((metal) => (
+                  <MenuItem key={metal.value} value={metal.value}>
+                    {metal.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading items. Please try again.'}
+              </Alert>
+            </Box>
+          ) : items.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No items found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx} padding="checkbox">
+                        <Checkbox
+                          checked={allSelected}
+                          indeterminate={selectedItems.length > 0 && !allSelected}
+                          onChange={toggleAll}
+                          slotProps={{ input: { 'aria-label': 'select all items' } }}
+                          sx={{ color: '#ffffff', '&.Mui-checked, &.MuiCheckbox-indeterminate': { color: '#ffffff' } }}
+                        />
+                      </TableCell>
+                      <TableCell sx={headCellSx}>Tag No.</TableCell>
+                      <TableCell sx={headCellSx}>Name</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        Category
+                      </TableCell>
+                      <TableCell sx={headCellSx}>Metal</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Gross Wt
+                      </TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Net Wt
+                      </TableCell>
+                      {showHallmark && (
+                        <TableCell sx={{ ...headCellSx, display: { xs: 'none', lg: 'table-cell' } }}>
+                          HUID
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedItems.map((item) => (
+                      <TableRow
+                        key={item.id}
+                        hover
+                        onClick={() => navigate(`/items/${item.id}`)}
+                        sx={{ cursor: 'pointer' }}
+                      >
+                        <TableCell padding="checkbox" onClick={(event) => event.stopPropagation()}>
+                          <Checkbox
+                            checked={selectedIds.has(item.id)}
+                            onChange={() => toggleSelected(item.id)}
+                            slotProps={{ input: { 'aria-label': `select ${item.tagNumber}` } }}
+                            sx={{ '&.Mui-checked': { color: '#5e3b63' } }}
+                          />
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+                          {item.tagNumber}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx}>{item.name}</TableCell>
+                        <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                          {categoryLabel(item.category)}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, textTransform: 'capitalize' }}>
+                          {item.metal}
+                          {showPurity && item.purity ? ` ${item.purity}` : ''}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {formatWeight(item.grossWeight)}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {formatWeight(item.netWeight)}
+                        </TableCell>
+                        {showHallmark && (
+                          <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', lg: 'table-cell' } }}>
+                            {item.huid || '-'}
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={items.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
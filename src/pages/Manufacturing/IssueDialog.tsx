@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { STONE_TYPES } from '../../api/items';
+import { METALS, METAL_PURITIES, type Metal } from '../../api/metalRates';
+import { issueToJobCard, type JobCard } from '../../api/jobCards';
+import { calculateFineWeight } from '../../utils/manufacturing';
+import { defaultTouchPercent } from '../../utils/purchase';
+import { formatWeight } from '../../utils/format';
+
+interface MetalRow {
+  metal: Metal;
+  purity: string;
+  weight: string;
+  touchPercent: string;
+}
+
+interface StoneRow {
+  stoneType: string;
+  pieces: string;
+  weightCarat: string;
+}
+
+const emptyMetalRow: MetalRow = { metal: 'gold', purity: '', weight: '', touchPercent: '' };
+const emptyStoneRow: StoneRow = { stoneType: 'diamond', pieces: '1', weightCarat: '' };
+
+interface IssueDialogProps {
+  jobCard: JobCard;
+  onClose: () => void;
+}
+
+/**
+ * Issue metal and stones from the vault to the job card's karigar
+ */
+export function IssueDialog({ jobCard, onClose }: IssueDialogProps) {
+  const queryClient = useQueryClient();
+  const [metals, setMetals] = useState<MetalRow[]>([emptyMetalRow]);
+  const [stones, setStones] = useState<StoneRow[]>([]);
+
+  const metalIssues = metals.map((row) => {
+    const weight = parseFloat(row.weight) || 0;
+    const touchPercent = parseFloat(row.touchPercent) || 0;
+    return {
+      metal: row.metal,
+      purity: row.purity || null,
+      weight,
+      touchPercent,
+      fineWeight: calculateFineWeight(weight, touchPercent),
+    };
+  });
+  const stoneIssues = stones.map((row) => ({
+    stoneType: row.stoneType,
+    pieces: parseInt(row.pieces, 10) || 0,
+    weightCarat: parseFloat(row.weightCarat) || 0,
+  }));
+  const totalFine = metalIssues.reduce((total, issue) => total + issue.fineWeight, 0);
+
+  const issueMutation = useMutation({
+    mutationFn: () => issueToJobCard(jobCard.id, { metalIssues, stoneIssues }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['jobCards'] });
+      queryClient.invalidateQueries({ queryKey: ['karigars'] });
+      onClose();
+    },
+  });
+
+  const updateMetal = (index: number, changes: Partial<MetalRow>) => {
+    setMetals((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const updateStone = (index: number, changes: Partial<StoneRow>) => {
+    setStones((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const invalid =
+    metalIssues.length + stoneIssues.length === 0 ||
+    metalIssues.some((issue) => !(issue.weight > 0) || !(issue.touchPercent > 0) || issue.touchPercent > 100) ||
+    stoneIssues.some((issue) => !(issue.pieces > 0) || !(issue.weightCarat > 0));
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>
+        Issue to {jobCard.karigar.name} · {jobCard.jobNumber}
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 1 }}>
+          <Typography sx={{ color: '#5e3b63', fontWeight: 600 }}>Metal</Typography>
+          <Button
+            size="small"
+            startIcon={<Add />}
+            onClick={() => setMetals((prev) => [...prev, emptyMetalRow])}
+            sx={{ color: '#5e3b63' }}
+          >
+            Add Metal
+          </Button>
+        </Box>
+        {metals.map((row, index) => (
+          <Box key={index} sx={{ display: 'flex', gap: 1.5, mt: 1.5, flexWrap: 'wrap', alignItems: 'center' }}>
+            <TextField
+              select
+              size="small"
+              label="Metal"
+              value={row.metal}
+              onChange={(e) => updateMetal(index, { metal: e.target.value as Metal, purity: '', touchPercent: '' })}
+              sx={{ width: 130 }}
+            >
+              {METALS.map((metal) => (
+                <MenuItem key={metal.value} value={metal.value}>
+                  {metal.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Purity"
+              value={row.purity}
+              onChange={(e) =>
+                updateMetal(index, {
+                  purity: e.target.value,
+                  touchPercent: defaultTouchPercent(row.metal, e.target.value),
+                })
+              }
+              sx={{ width: 150 }}
+            >
+              {METAL_PURITIES[row.metal].map((purity) => (
+                <MenuItem key={purity.value} value={purity.value}>
+                  {purity.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              type="number"
+              label="Weight (g)"
+              value={row.weight}
+              onChange={(e) => updateMetal(index, { weight: e.target.value })}
+              slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+              sx={{ width: 130 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Touch (%)"
+              value={row.touchPercent}
+              onChange={(e) => updateMetal(index, { touchPercent: e.target.value })}
+              slotProps={{ htmlInput: { min: 0, max: 100, step: '0.01' } }}
+              sx={{ width: 110 }}
+            />
+            <Typography variant="body2" sx={{ color: '#000000', minWidth: 110 }}>
+              Fine {formatWeight(metalIssues[index].fineWeight)}
+            </Typography>
+            <IconButton
+              size="small"
+              onClick={() => setMetals((prev) => prev.filter((_row, i) => i !== index))}
+              sx={{ color: '#d32f2f' }}
+            >
+              <Delete fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 3 }}>
+          <Typography sx={{ color: '#5e3b63', fontWeight: 600 }}>Stones</Typography>
+          <Button
+            size="small"
+            startIcon={<Add />}
+            onClick={() => setStones((prev) => [...prev, emptyStoneRow])}
+            sx={{ color: '#5e3b63' }}
+          >
+            Add Stones
+          </Button>
+        </Box>
+        {stones.map((row, index) => (
+          <Box key={index} sx={{ display: 'flex', gap: 1.5, mt: 1.5, flexWrap: 'wrap', alignItems: 'center' }}>
+            <TextField
+              select
+              size="small"
+              label="Stone"
+              value={row.stoneType}
+              onChange={(e) => updateStone(index, { stoneType: e.target.value })}
+              sx={{ width: 160 }}
+            >
+              {STONE_TYPES.map((stone) => (
+                <MenuItem key={stone.value} value={stone.value}>
+                  {stone.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              type="number"
+              label="Pieces"
+              value={row.pieces}
+              onChange={(e) => updateStone(index, { pieces: e.target.value })}
+              slotProps={{ htmlInput: { min: 1, step: 1 } }}
+              sx={{ width: 100 }}
+            />
+            <TextField
+              size="small"
+              type="number"
+              label="Weight (ct)"
+              value={row.weightCarat}
+              onChange={(e) => updateStone(index, { weightCarat: e.target.value })}
+              slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+              sx={{ width: 130 }}
+            />
+            <IconButton
+              size="small"
+              onClick={() => setStones((prev) => prev.filter((_row, i) => i !== index))}
+              sx={{ color: '#d32f2f' }}
+            >
+              <Delete fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+
+        <Typography sx={{ color: '#5e3b63', fontWeight: 600, mt: 3 }}>
+          Total fine issued: {formatWeight(totalFine)}
+        </Typography>
+        {issueMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(issueMutation.error, 'Failed to issue to job card')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button
+          onClick={onClose}
+          variant="outlined"
+          sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={() => issueMutation.mutate()}
+          variant="contained"
+          disabled={invalid || issueMutation.isPending}
+          sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Issue
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,265 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  Snackbar,
+  Alert,
+  Divider,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { useForm, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { useOrgConfig } from '../../hooks/useOrgConfig';
+import { getApiErrorMessage } from '../../api/client';
+import { createJobCard } from '../../api/jobCards';
+import { fetchKarigars } from '../../api/karigars';
+
+const jobCardSchema = z.object({
+  karigarId: z.string().min(1, 'Karigar is required'),
+  description: z.string().min(1, 'Description is required'),
+  dueDate: z.string(),
+  allowedWastagePercent: z
+    .string()
+    .min(1, 'Allowed wastage is required')
+    .refine((val) => parseFloat(val) >= 0 && parseFloat(val) <= 100, { message: 'Wastage must be 0-100%' }),
+  notes: z.string(),
+});
+
+type JobCardFormData = z.infer<typeof jobCardSchema>;
+
+/**
+ * Open a job card. Metal and stones are issued from the job card once it
+ * is in progress.
+ */
+export function JobCardForm() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { config } = useOrgConfig();
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const requiresApproval = !!config?.workflows.requireApprovalForManufacturing;
+
+  const { data: karigarsData } = useQuery({
+    queryKey: ['karigars', 'list', ''],
+    queryFn: () => fetchKarigars(),
+  });
+  const karigars = (karigarsData?.data ?? []).filter((karigar) => karigar.isActive);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+  } = useForm<JobCardFormData>({
+    resolver: zodResolver(jobCardSchema),
+    defaultValues: {
+      karigarId: '',
+      description: '',
+      dueDate: '',
+      allowedWastagePercent: '',
+      notes: '',
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: JobCardFormData) =>
+      createJobCard({
+        karigarId: data.karigarId,
+        description: data.description,
+        dueDate: data.dueDate || null,
+        allowedWastagePercent: parseFloat(data.allowedWastagePercent),
+        notes: data.notes || null,
+      }),
+    onSuccess: (jobCard) => {
+      queryClient.invalidateQueries({ queryKey: ['jobCards'] });
+      navigate(`/manufacturing/job-cards/${jobCard.id}`);
+    },
+    onError: (error) => setSnackbarMessage(getApiErrorMessage(error, 'Failed to create job card')),
+  });
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 3,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          New Job Card
+        </Typography>
+
+        {requiresApproval && (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            Job cards need approval from an organization admin before metal can be issued to the karigar.
+          </Alert>
+        )}
+
+        <Card elevation={0} sx={{ border: '1px solid #e0e0e0', borderRadius: 2 }}>
+          <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+            <form onSubmit={handleSubmit((data) => saveMutation.mutate(data))}>
+              <Grid container spacing={3}>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <Controller
+                    name="karigarId"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        select
+                        label="Karigar"
+                        fullWidth
+                        size="small"
+                        error={!!errors.karigarId}
+                        helperText={errors.karigarId?.message}
+                        onChange={(e) => {
+                          field.onChange(e.target.value);
+                          const karigar = karigars.find((option) => option.id === e.target.value);
+                          if (karigar) {
+                            setValue('allowedWastagePercent', karigar.wastagePercent.toString(), {
+                              shouldValidate: true,
+                            });
+                          }
+                        }}
+                      >
+                        {karigars.map((karigar) => (
+                          <MenuItem key={karigar.id} value={karigar.id}>
+                            {karigar.name} ({karigar.karigarNumber})
+                            {karigar.speciality ? ` · ${karigar.speciality}` : ''}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="dueDate"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="date"
+                        label="Due Date"
+                        fullWidth
+                        size="small"
+                        slotProps={{ inputLabel: { shrink: true } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="allowedWastagePercent"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="number"
+                        label="Allowed Wastage (%)"
+                        fullWidth
+                        size="small"
+                        error={!!errors.allowedWastagePercent}
+                        helperText={errors.allowedWastagePercent?.message}
+                        slotProps={{ htmlInput: { min: 0, max: 100, step: '0.01' } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={12}>
+                  <Controller
+                    name="description"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        label="Description"
+                        placeholder="Design, quantity and size to be made"
+                        fullWidth
+                        multiline
+                        rows={2}
+                        error={!!errors.description}
+                        helperText={errors.description?.message}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={12}>
+                  <Controller
+                    name="notes"
+                    control={control}
+                    render={({ field }) => <TextField {...field} label="Notes" fullWidth multiline rows={2} />}
+                  />
+                </Grid>
+
+                {/* Action Buttons */}
+                <Grid size={12}>
+                  <Divider sx={{ my: 2 }} />
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      flexDirection: { xs: 'column', sm: 'row' },
+                      justifyContent: 'flex-end',
+                      gap: 2,
+                    }}
+                  >
+                    <Button
+                      type="button"
+                      variant="outlined"
+                      onClick={() => navigate('/manufacturing/job-cards')}
+                      fullWidth={isMobile}
+                      sx={{ borderColor: '#5e3b63', color: '#5e3b63', px: 3, fontWeight: 600 }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant="contained"
+                      disabled={saveMutation.isPending}
+                      fullWidth={isMobile}
+                      sx={{
+                        backgroundColor: '#5e3b63',
+                        px: 3,
+                        fontWeight: 600,
+                        '&:hover': { backgroundColor: '#4a2d4f' },
+                      }}
+                    >
+                      {requiresApproval ? 'Submit for Approval' : 'Create Job Card'}
+                    </Button>
+                  </Box>
+                </Grid>
+              </Grid>
+            </form>
+          </CardContent>
+        </Card>
+      </Box>
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
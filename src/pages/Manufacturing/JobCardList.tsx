@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  Chip,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Add, Search, FilterList, Clear, Engineering } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { JOB_CARD_STATUSES, fetchJobCards, type JobCardFilters } from '../../api/jobCards';
+import { fetchKarigars } from '../../api/karigars';
+import { summarizeJobCard } from '../../utils/manufacturing';
+import { formatWeight } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+export function JobCardList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+
+  const [filters, setFilters] = useState<JobCardFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<JobCardFilters>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['jobCards', 'list', appliedFilters],
+    queryFn: () => fetchJobCards(appliedFilters),
+  });
+
+  const { data: karigarsData } = useQuery({
+    queryKey: ['karigars', 'list', ''],
+    queryFn: () => fetchKarigars(),
+  });
+
+  const jobCards = data?.data ?? [];
+  const karigars = karigarsData?.data ?? [];
+
+  const handleChangeFilter = (key: keyof JobCardFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const paginatedJobCards = jobCards.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Job Cards
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+            <Button
+              variant="outlined"
+              startIcon={<Engineering />}
+              onClick={() => navigate('/manufacturing/karigars')}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              Karigars
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={() => navigate('/manufacturing/job-cards/new')}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              New Job Card
+            </Button>
+          </Box>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 3 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder="Job number or description..."
+                value={filters.search || ''}
+                onChange={(e) => handleChangeFilter('search', e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2.25 }}>
+              <TextField
+                select
+                size="small"
+                label="Karigar"
+                fullWidth
+                value={filters.karigarId || ''}
+                onChange={(e) => handleChangeFilter('karigarId', e.target.value)}
+              >
+                <MenuItem value="">All Karigars</MenuItem>
+                {karigars.map((karigar) => (
+                  <MenuItem key={karigar.id} value={karigar.id}>
+                    {karigar.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2.25 }}>
+              <TextField
+                select
+                size="small"
+                label="Status"
+                fullWidth
+                value={filters.status || ''}
+                onChange={(e) => handleChangeFilter('status', e.target.value)}
+              >
+                <MenuItem value="">All Statuses</MenuItem>
+                {JOB_CARD_STATUSES.map((status) => (
+                  <MenuItem key={status.value} value={status.value}>
+                    {status.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2.25 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="Start Date"
+                value={filters.startDate || ''}
+                onChange={(e) => handleChangeFilter('startDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2.25 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="End Date"
+                value={filters.endDate || ''}
+                onChange={(e) => handleChangeFilter('endDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading job cards. Please try again.'}
+              </Alert>
+            </Box>
+          ) : jobCards.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No job cards found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Job No.</TableCell>
+                      <TableCell sx={headCellSx}>Date</TableCell>
+                      <TableCell sx={headCellSx}>Karigar</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        Description
+                      </TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Issued Fine
+                      </TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>Due</TableCell>
+                      <TableCell sx={headCellSx}>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedJobCards.map((jobCard) => {
+                      const status = JOB_CARD_STATUSES.find((option) => option.value === jobCard.status);
+                      const overdue =
+                        jobCard.status === 'in_progress' && !!jobCard.dueDate && new Date(jobCard.dueDate) < new Date();
+                      return (
+                        <TableRow
+                          key={jobCard.id}
+                          hover
+                          onClick={() => navigate(`/manufacturing/job-cards/${jobCard.id}`)}
+                          sx={{ cursor: 'pointer' }}
+                        >
+                          <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{jobCard.jobNumber}</TableCell>
+                          <TableCell sx={bodyCellSx}>{new Date(jobCard.createdAt).toLocaleDateString()}</TableCell>
+                          <TableCell sx={bodyCellSx}>{jobCard.karigar.name}</TableCell>
+                          <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                            {jobCard.description}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx} align="right">
+                            {formatWeight(summarizeJobCard(jobCard).issuedFineWeight)}
+                          </TableCell>
+                          <TableCell
+                            sx={{
+                              ...bodyCellSx,
+                              display: { xs: 'none', md: 'table-cell' },
+                              color: overdue ? '#d32f2f' : '#000000',
+                              fontWeight: overdue ? 600 : 400,
+                            }}
+                          >
+                            {jobCard.dueDate ? new Date(jobCard.dueDate).toLocaleDateString() : '-'}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            <Chip
+                              label={status?.label ?? jobCard.status}
+                              color={status?.color ?? 'default'}
+                              size="small"
+                              variant="outlined"
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={jobCards.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,622 @@
+import { useState, type ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, CheckCircle, Cancel, Output, MoveToInbox, TaskAlt } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { useIsOrgAdmin } from '../../hooks/useAuth';
+import { getApiErrorMessage } from '../../api/client';
+import { STONE_TYPES } from '../../api/items';
+import {
+  JOB_CARD_STATUSES,
+  approveJobCard,
+  completeJobCard,
+  fetchJobCard,
+  rejectJobCard,
+  type JobCard,
+} from '../../api/jobCards';
+import { summarizeJobCard } from '../../utils/manufacturing';
+import { formatWeight } from '../../utils/format';
+import { IssueDialog } from './IssueDialog';
+import { ReceivePiecesDialog } from './ReceivePiecesDialog';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+function DetailField({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+      <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+        {label}
+      </Typography>
+      <Typography variant="body1" sx={{ color: '#000000' }}>
+        {value || '-'}
+      </Typography>
+    </Grid>
+  );
+}
+
+interface SummaryCardProps {
+  label: string;
+  value: string;
+  caption?: string;
+  color: string;
+}
+
+function SummaryCard({ label, value, caption, color }: SummaryCardProps) {
+  return (
+    <Grid size={{ xs: 6, md: 3 }}>
+      <Paper elevation={0} sx={{ p: 2, border: '1px solid rgba(94, 59, 99, 0.2)', borderRadius: 2, height: '100%' }}>
+        <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600 }}>
+          {label}
+        </Typography>
+        <Typography sx={{ color, fontWeight: 700, fontSize: '1.5rem' }}>{value}</Typography>
+        {caption && (
+          <Typography variant="caption" sx={{ color: '#666666' }}>
+            {caption}
+          </Typography>
+        )}
+      </Paper>
+    </Grid>
+  );
+}
+
+const stoneLabel = (stoneType: string) => STONE_TYPES.find((type) => type.value === stoneType)?.label ?? stoneType;
+
+export function JobCardView() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isAdmin = useIsOrgAdmin();
+  const { id } = useParams<{ id: string }>();
+  const [issueOpen, setIssueOpen] = useState(false);
+  const [receiveOpen, setReceiveOpen] = useState(false);
+  const [completeDialogOpen, setCompleteDialogOpen] = useState(false);
+  const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const { data: jobCard, isLoading, error } = useQuery<JobCard>({
+    queryKey: ['jobCards', id],
+    queryFn: () => fetchJobCard(id as string),
+    enabled: !!id,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['jobCards'] });
+    queryClient.invalidateQueries({ queryKey: ['karigars'] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: () => approveJobCard(id as string),
+    onSuccess: invalidate,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: () => rejectJobCard(id as string, rejectReason.trim()),
+    onSuccess: () => {
+      invalidate();
+      setRejectDialogOpen(false);
+    },
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: () => completeJobCard(id as string),
+    onSuccess: () => {
+      invalidate();
+      setCompleteDialogOpen(false);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !jobCard) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Job card not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const status = JOB_CARD_STATUSES.find((option) => option.value === jobCard.status);
+  const summary = summarizeJobCard(jobCard);
+  const overAllowance = summary.excessLossFineWeight > 0;
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 3,
+          }}
+        >
+          <Box>
+            <Button
+              startIcon={<ArrowBack />}
+              onClick={() => navigate('/manufacturing/job-cards')}
+              sx={{ color: '#5e3b63', mb: 1 }}
+            >
+              Job Cards
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {jobCard.jobNumber}
+              </Typography>
+              <Chip
+                label={status?.label ?? jobCard.status}
+                color={status?.color ?? 'default'}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+            {jobCard.status === 'pending_approval' && isAdmin && (
+              <>
+                <Button
+                  variant="outlined"
+                  startIcon={<Cancel />}
+                  onClick={() => {
+                    setRejectReason('');
+                    rejectMutation.reset();
+                    setRejectDialogOpen(true);
+                  }}
+                  sx={{ borderColor: '#d32f2f', color: '#d32f2f', fontWeight: 600 }}
+                >
+                  Reject
+                </Button>
+                <Button
+                  variant="contained"
+                  startIcon={<CheckCircle />}
+                  disabled={approveMutation.isPending}
+                  onClick={() => approveMutation.mutate()}
+                  sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+                >
+                  Approve
+                </Button>
+              </>
+            )}
+            {jobCard.status === 'in_progress' && (
+              <>
+                <Button
+                  variant="outlined"
+                  startIcon={<Output />}
+                  onClick={() => setIssueOpen(true)}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Issue
+                </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<MoveToInbox />}
+                  disabled={jobCard.metalIssues.length === 0}
+                  onClick={() => setReceiveOpen(true)}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Receive
+                </Button>
+                <Button
+                  variant="contained"
+                  startIcon={<TaskAlt />}
+                  onClick={() => {
+                    completeMutation.reset();
+                    setCompleteDialogOpen(true);
+                  }}
+                  sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+                >
+                  Complete
+                </Button>
+              </>
+            )}
+          </Box>
+        </Box>
+
+        {jobCard.status === 'pending_approval' && !isAdmin && (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            Waiting for an organization admin to approve this job card before metal can be issued.
+          </Alert>
+        )}
+        {jobCard.status === 'rejected' && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            Rejected{jobCard.rejectionReason ? `: ${jobCard.rejectionReason}` : ''}
+          </Alert>
+        )}
+        {approveMutation.error && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {getApiErrorMessage(approveMutation.error, 'Failed to approve job card')}
+          </Alert>
+        )}
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Job Details
+          </Typography>
+          <Grid container spacing={2}>
+            <DetailField
+              label="Karigar"
+              value={
+                <Button
+                  size="small"
+                  onClick={() => navigate(`/manufacturing/karigars/${jobCard.karigarId}`)}
+                  sx={{ color: '#5e3b63', p: 0, minWidth: 0 }}
+                >
+                  {jobCard.karigar.name} ({jobCard.karigar.karigarNumber})
+                </Button>
+              }
+            />
+            <DetailField label="Opened" value={new Date(jobCard.createdAt).toLocaleDateString()} />
+            <DetailField
+              label="Due Date"
+              value={jobCard.dueDate ? new Date(jobCard.dueDate).toLocaleDateString() : null}
+            />
+            <DetailField label="Allowed Wastage" value={`${jobCard.allowedWastagePercent}%`} />
+            <DetailField label="Created By" value={jobCard.createdByName} />
+            <DetailField
+              label="Approved"
+              value={jobCard.approvedAt ? new Date(jobCard.approvedAt).toLocaleString() : null}
+            />
+            <DetailField label="Approved By" value={jobCard.approvedByName} />
+            <DetailField
+              label="Completed"
+              value={jobCard.completedAt ? new Date(jobCard.completedAt).toLocaleString() : null}
+            />
+            <Grid size={12}>
+              <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+                Description
+              </Typography>
+              <Typography variant="body1" sx={{ color: '#000000' }}>
+                {jobCard.description}
+              </Typography>
+            </Grid>
+            {jobCard.notes && (
+              <Grid size={12}>
+                <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+                  Notes
+                </Typography>
+                <Typography variant="body1" sx={{ color: '#000000' }}>
+                  {jobCard.notes}
+                </Typography>
+              </Grid>
+            )}
+          </Grid>
+        </Paper>
+
+        <Grid container spacing={2} sx={{ mb: 3 }}>
+          <SummaryCard label="Fine Issued" value={formatWeight(summary.issuedFineWeight)} color="#0d0421" />
+          <SummaryCard
+            label="Fine Received"
+            value={formatWeight(summary.receivedFineWeight + summary.scrapFineWeight)}
+            caption={`${summary.piecesReceived} pieces, ${formatWeight(summary.scrapFineWeight)} scrap`}
+            color="#2e7d32"
+          />
+          <SummaryCard
+            label="Loss"
+            value={formatWeight(summary.lossFineWeight)}
+            caption={`${summary.lossPercent}% of fine issued`}
+            color={overAllowance ? '#d32f2f' : '#0d0421'}
+          />
+          <SummaryCard
+            label="Allowed Wastage"
+            value={formatWeight(summary.allowedLossFineWeight)}
+            caption={
+              overAllowance
+                ? `${formatWeight(summary.excessLossFineWeight)} over allowance`
+                : `${jobCard.allowedWastagePercent}% of fine issued`
+            }
+            color={overAllowance ? '#d32f2f' : '#5e3b63'}
+          />
+        </Grid>
+
+        {summary.issuedStoneCarat > 0 && (
+          <Alert severity={summary.missingStoneCarat > 0 ? 'warning' : 'success'} sx={{ mb: 3 }}>
+            Stones: {summary.issuedStoneCarat} ct issued, {summary.setStoneCarat} ct set,{' '}
+            {summary.returnedStoneCarat} ct returned
+            {summary.missingStoneCarat > 0 ? `, ${summary.missingStoneCarat} ct unaccounted for` : ''}
+          </Alert>
+        )}
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Issued
+          </Typography>
+          {jobCard.metalIssues.length === 0 && jobCard.stoneIssues.length === 0 ? (
+            <Typography sx={{ color: '#666666' }}>Nothing has been issued yet.</Typography>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table size="small" sx={{ minWidth: 600 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Date</TableCell>
+                    <TableCell sx={headCellSx}>Material</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Weight
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Touch
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Fine Wt
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {jobCard.metalIssues.map((issue, index) => (
+                    <TableRow key={issue.id ?? `metal-${index}`}>
+                      <TableCell sx={bodyCellSx}>
+                        {issue.issuedAt ? new Date(issue.issuedAt).toLocaleDateString() : '-'}
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, textTransform: 'capitalize' }}>
+                        {issue.metal} {issue.purity ?? ''}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {formatWeight(issue.weight)}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {issue.touchPercent}%
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                        {formatWeight(issue.fineWeight)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {jobCard.stoneIssues.map((stone, index) => (
+                    <TableRow key={stone.id ?? `stone-${index}`}>
+                      <TableCell sx={bodyCellSx}>
+                        {stone.issuedAt ? new Date(stone.issuedAt).toLocaleDateString() : '-'}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        {stoneLabel(stone.stoneType)} × {stone.pieces}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {stone.weightCarat} ct
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        -
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        -
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Received
+          </Typography>
+          {jobCard.receipts.length === 0 ? (
+            <Typography sx={{ color: '#666666' }}>Nothing has been received yet.</Typography>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table size="small" sx={{ minWidth: 700 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Date</TableCell>
+                    <TableCell sx={headCellSx}>Tag</TableCell>
+                    <TableCell sx={headCellSx}>Piece</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Gross Wt
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Net Wt
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Stones
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Fine Wt
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {jobCard.receipts.flatMap((receipt) => [
+                    ...receipt.pieces.map((piece, index) => (
+                      <TableRow key={`${receipt.id}-${index}`}>
+                        <TableCell sx={bodyCellSx}>{new Date(receipt.receivedAt).toLocaleDateString()}</TableCell>
+                        <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+                          {piece.itemId ? (
+                            <Button
+                              size="small"
+                              onClick={() => navigate(`/stock/${piece.itemId}`)}
+                              sx={{ color: '#5e3b63', p: 0, minWidth: 0, fontFamily: 'monospace' }}
+                            >
+                              {piece.tagNumber}
+                            </Button>
+                          ) : (
+                            '-'
+                          )}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx}>
+                          {piece.name} {piece.purity ? `(${piece.purity})` : ''}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {formatWeight(piece.grossWeight)}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {formatWeight(piece.netWeight)}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {piece.stoneWeightCarat ? `${piece.stoneWeightCarat} ct` : '-'}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                          {formatWeight(piece.fineWeight)}
+                        </TableCell>
+                      </TableRow>
+                    )),
+                    ...(receipt.scrapWeight > 0
+                      ? [
+                          <TableRow key={`${receipt.id}-scrap`}>
+                            <TableCell sx={bodyCellSx}>{new Date(receipt.receivedAt).toLocaleDateString()}</TableCell>
+                            <TableCell sx={bodyCellSx}>-</TableCell>
+                            <TableCell sx={bodyCellSx}>Scrap @ {receipt.scrapTouchPercent}%</TableCell>
+                            <TableCell sx={bodyCellSx} align="right">
+                              {formatWeight(receipt.scrapWeight)}
+                            </TableCell>
+                            <TableCell sx={bodyCellSx} align="right">
+                              -
+                            </TableCell>
+                            <TableCell sx={bodyCellSx} align="right">
+                              {receipt.returnedStoneCarat ? `${receipt.returnedStoneCarat} ct returned` : '-'}
+                            </TableCell>
+                            <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                              {formatWeight(receipt.scrapFineWeight)}
+                            </TableCell>
+                          </TableRow>,
+                        ]
+                      : []),
+                  ])}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+
+      {issueOpen && <IssueDialog jobCard={jobCard} onClose={() => setIssueOpen(false)} />}
+      {receiveOpen && <ReceivePiecesDialog jobCard={jobCard} onClose={() => setReceiveOpen(false)} />}
+
+      {/* Complete Dialog */}
+      <Dialog open={completeDialogOpen} onClose={() => setCompleteDialogOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Complete {jobCard.jobNumber}</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000' }}>
+            Loss on this job is {formatWeight(summary.lossFineWeight)} ({summary.lossPercent}%) against an allowance
+            of {formatWeight(summary.allowedLossFineWeight)} ({jobCard.allowedWastagePercent}%).
+          </DialogContentText>
+          {overAllowance ? (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              {formatWeight(summary.excessLossFineWeight)} is over the allowance and will stay on{' '}
+              {jobCard.karigar.name}'s balance.
+            </Alert>
+          ) : (
+            <Alert severity="success" sx={{ mt: 2 }}>
+              The loss is within the allowance and will be written off {jobCard.karigar.name}'s balance.
+            </Alert>
+          )}
+          {summary.missingStoneCarat > 0 && (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              {summary.missingStoneCarat} ct of issued stones are unaccounted for.
+            </Alert>
+          )}
+          {completeMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(completeMutation.error, 'Failed to complete job card')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setCompleteDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => completeMutation.mutate()}
+            variant="contained"
+            disabled={completeMutation.isPending}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Complete
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Reject Dialog */}
+      <Dialog open={rejectDialogOpen} onClose={() => setRejectDialogOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Reject {jobCard.jobNumber}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            multiline
+            minRows={2}
+            margin="dense"
+            label="Reason"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+          />
+          {rejectMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(rejectMutation.error, 'Failed to reject job card')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setRejectDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => rejectMutation.mutate()}
+            variant="contained"
+            disabled={!rejectReason.trim() || rejectMutation.isPending}
+            sx={{ backgroundColor: '#d32f2f', fontWeight: 600, '&:hover': { backgroundColor: '#b71c1c' } }}
+          >
+            Reject
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
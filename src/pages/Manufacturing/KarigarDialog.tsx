@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Switch,
+  TextField,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { createKarigar, updateKarigar, type Karigar, type KarigarData } from '../../api/karigars';
+
+interface KarigarDialogProps {
+  /** Karigar to edit, or null to add a new one */
+  karigar: Karigar | null;
+  onClose: () => void;
+}
+
+export function KarigarDialog({ karigar, onClose }: KarigarDialogProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    name: karigar?.name ?? '',
+    phone: karigar?.phone ?? '',
+    speciality: karigar?.speciality ?? '',
+    wastagePercent: karigar ? karigar.wastagePercent.toString() : '',
+    isActive: karigar?.isActive ?? true,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: KarigarData) => (karigar ? updateKarigar(karigar.id, data) : createKarigar(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['karigars'] });
+      onClose();
+    },
+  });
+
+  const wastage = parseFloat(form.wastagePercent || '0');
+  const invalid = !form.name.trim() || isNaN(wastage) || wastage < 0 || wastage > 100;
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>{karigar ? 'Edit Karigar' : 'New Karigar'}</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          fullWidth
+          label="Name"
+          margin="dense"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          label="Phone"
+          margin="dense"
+          value={form.phone}
+          onChange={(e) => setForm({ ...form, phone: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          label="Speciality"
+          placeholder="e.g. Casting, Setting, Polishing"
+          margin="dense"
+          value={form.speciality}
+          onChange={(e) => setForm({ ...form, speciality: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          type="number"
+          label="Allowed Wastage (%)"
+          margin="dense"
+          value={form.wastagePercent}
+          onChange={(e) => setForm({ ...form, wastagePercent: e.target.value })}
+          helperText="Default for new job cards"
+          slotProps={{ htmlInput: { min: 0, max: 100, step: '0.01' } }}
+        />
+        {karigar && (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': { color: '#5e3b63' },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#5e3b63' },
+                }}
+              />
+            }
+            label="Active"
+          />
+        )}
+        {saveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(saveMutation.error, 'Failed to save karigar')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={invalid || saveMutation.isPending}
+          onClick={() =>
+            saveMutation.mutate({
+              name: form.name.trim(),
+              phone: form.phone.trim() || undefined,
+              speciality: form.speciality.trim() || undefined,
+              wastagePercent: wastage,
+              isActive: form.isActive,
+            })
+          }
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
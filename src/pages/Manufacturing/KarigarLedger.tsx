@@ -0,0 +1,219 @@
+import { useState, type ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  CircularProgress,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { ArrowBack, Edit } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import {
+  KARIGAR_LEDGER_ENTRY_TYPES,
+  fetchKarigar,
+  fetchKarigarLedger,
+  type Karigar,
+  type KarigarLedgerEntry,
+} from '../../api/karigars';
+import { formatWeight } from '../../utils/format';
+import { KarigarDialog } from './KarigarDialog';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+function DetailField({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+      <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+        {label}
+      </Typography>
+      <Typography variant="body1" sx={{ color: '#000000' }}>
+        {value || '-'}
+      </Typography>
+    </Grid>
+  );
+}
+
+/**
+ * A karigar's details and fine-metal ledger with running balance
+ */
+export function KarigarLedger() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const [editOpen, setEditOpen] = useState(false);
+
+  const { data: karigar, isLoading, error } = useQuery<Karigar>({
+    queryKey: ['karigars', id],
+    queryFn: () => fetchKarigar(id as string),
+    enabled: !!id,
+  });
+
+  const { data: ledger = [], isLoading: ledgerLoading } = useQuery<KarigarLedgerEntry[]>({
+    queryKey: ['karigars', id, 'ledger'],
+    queryFn: () => fetchKarigarLedger(id as string),
+    enabled: !!id,
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !karigar) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Karigar not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Button
+          startIcon={<ArrowBack />}
+          onClick={() => navigate('/manufacturing/karigars')}
+          sx={{ color: '#5e3b63', mb: 1 }}
+        >
+          Karigars
+        </Button>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            {karigar.name}
+          </Typography>
+          <Button
+            variant="outlined"
+            startIcon={<Edit />}
+            onClick={() => setEditOpen(true)}
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Edit
+          </Button>
+        </Box>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Details
+          </Typography>
+          <Grid container spacing={2}>
+            <DetailField label="Karigar No." value={karigar.karigarNumber} />
+            <DetailField label="Phone" value={karigar.phone} />
+            <DetailField label="Speciality" value={karigar.speciality} />
+            <DetailField label="Allowed Wastage" value={`${karigar.wastagePercent}%`} />
+            <DetailField
+              label="Fine Balance"
+              value={
+                <Typography component="span" sx={{ fontWeight: 700, color: '#5e3b63' }}>
+                  {formatWeight(karigar.fineBalance)}
+                </Typography>
+              }
+            />
+          </Grid>
+        </Paper>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Fine Metal Ledger
+          </Typography>
+          {ledgerLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+              <CircularProgress size={24} sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : ledger.length === 0 ? (
+            <Typography sx={{ color: '#666666' }}>No metal has been issued to this karigar yet.</Typography>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table size="small" sx={{ minWidth: 650 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Date</TableCell>
+                    <TableCell sx={headCellSx}>Type</TableCell>
+                    <TableCell sx={headCellSx}>Job Card</TableCell>
+                    <TableCell sx={headCellSx}>Description</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Fine Wt
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Balance
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {ledger.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell sx={bodyCellSx}>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        {KARIGAR_LEDGER_ENTRY_TYPES.find((type) => type.value === entry.type)?.label ?? entry.type}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        {entry.jobCardId ? (
+                          <Button
+                            size="small"
+                            onClick={() => navigate(`/manufacturing/job-cards/${entry.jobCardId}`)}
+                            sx={{ color: '#5e3b63', p: 0, minWidth: 0, fontFamily: 'monospace' }}
+                          >
+                            {entry.jobNumber}
+                          </Button>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>{entry.description || '-'}</TableCell>
+                      <TableCell
+                        sx={{ ...bodyCellSx, color: entry.fineWeight < 0 ? '#2e7d32' : '#000000' }}
+                        align="right"
+                      >
+                        {entry.fineWeight > 0 ? '+' : ''}
+                        {formatWeight(entry.fineWeight)}
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                        {formatWeight(entry.balance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+
+      {editOpen && <KarigarDialog karigar={karigar} onClose={() => setEditOpen(false)} />}
+    </DashboardLayout>
+  );
+}
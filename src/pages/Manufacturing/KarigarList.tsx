@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Alert,
+  Chip,
+  IconButton,
+} from '@mui/material';
+import { Add, ArrowBack, Edit, Search } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { fetchKarigars, type Karigar } from '../../api/karigars';
+import { formatWeight } from '../../utils/format';
+import { KarigarDialog } from './KarigarDialog';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+/**
+ * Karigars with the fine metal each currently holds
+ */
+export function KarigarList() {
+  const navigate = useNavigate();
+  const [search, setSearch] = useState('');
+  const [appliedSearch, setAppliedSearch] = useState('');
+  const [dialogKarigar, setDialogKarigar] = useState<Karigar | null | undefined>(undefined);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['karigars', 'list', appliedSearch],
+    queryFn: () => fetchKarigars(appliedSearch ? { search: appliedSearch } : undefined),
+  });
+  const karigars = data?.data ?? [];
+  const totalBalance = karigars.reduce((total, karigar) => total + karigar.fineBalance, 0);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Button
+          startIcon={<ArrowBack />}
+          onClick={() => navigate('/manufacturing/job-cards')}
+          sx={{ color: '#5e3b63', mb: 1 }}
+        >
+          Job Cards
+        </Button>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Karigars
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => setDialogKarigar(null)}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            New Karigar
+          </Button>
+        </Box>
+
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            gap: 2,
+          }}
+        >
+          <TextField
+            size="small"
+            label="Search"
+            placeholder="Name, phone or karigar no..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') setAppliedSearch(search.trim());
+            }}
+            slotProps={{
+              input: {
+                startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+              },
+            }}
+            sx={{ minWidth: { xs: '100%', sm: 320 } }}
+          />
+          <Typography sx={{ color: '#5e3b63', fontWeight: 600 }}>
+            Total fine with karigars: {formatWeight(totalBalance)}
+          </Typography>
+        </Paper>
+
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading karigars. Please try again.'}
+              </Alert>
+            </Box>
+          ) : karigars.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No karigars found.</Typography>
+            </Box>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table sx={{ minWidth: 650 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Karigar No.</TableCell>
+                    <TableCell sx={headCellSx}>Name</TableCell>
+                    <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>Phone</TableCell>
+                    <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>Speciality</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Wastage
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Fine Balance
+                    </TableCell>
+                    <TableCell sx={headCellSx}>Status</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Actions
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {karigars.map((karigar) => (
+                    <TableRow
+                      key={karigar.id}
+                      hover
+                      onClick={() => navigate(`/manufacturing/karigars/${karigar.id}`)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{karigar.karigarNumber}</TableCell>
+                      <TableCell sx={bodyCellSx}>{karigar.name}</TableCell>
+                      <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        {karigar.phone || '-'}
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        {karigar.speciality || '-'}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {karigar.wastagePercent}%
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                        {formatWeight(karigar.fineBalance)}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        <Chip
+                          label={karigar.isActive ? 'Active' : 'Inactive'}
+                          color={karigar.isActive ? 'success' : 'default'}
+                          size="small"
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDialogKarigar(karigar);
+                          }}
+                          sx={{ color: '#5e3b63' }}
+                        >
+                          <Edit fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+
+      {dialogKarigar !== undefined && (
+        <KarigarDialog karigar={dialogKarigar} onClose={() => setDialogKarigar(undefined)} />
+      )}
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,366 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { getApiErrorMessage } from '../../api/client';
+import { ITEM_CATEGORIES } from '../../api/items';
+import { METAL_PURITIES, type Metal } from '../../api/metalRates';
+import { fetchStockLocations } from '../../api/stock';
+import { receiveJobCardPieces, type JobCard } from '../../api/jobCards';
+import { calculateFineWeight } from '../../utils/manufacturing';
+import { defaultTouchPercent } from '../../utils/purchase';
+import { formatWeight } from '../../utils/format';
+
+interface PieceRow {
+  name: string;
+  category: string;
+  purity: string;
+  grossWeight: string;
+  netWeight: string;
+  touchPercent: string;
+  stoneWeightCarat: string;
+}
+
+const parseNumber = (val: string) => (val ? parseFloat(val) || 0 : 0);
+
+interface ReceivePiecesDialogProps {
+  jobCard: JobCard;
+  onClose: () => void;
+}
+
+/**
+ * Receive finished pieces and scrap back from the karigar. Pieces are tagged
+ * into stock and handed to tag printing.
+ */
+export function ReceivePiecesDialog({ jobCard, onClose }: ReceivePiecesDialogProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Pieces come back in the metal that was issued
+  const metal: Metal = jobCard.metalIssues[0]?.metal ?? 'gold';
+  const issuedPurity = jobCard.metalIssues[0]?.purity ?? '';
+  const newPiece = (): PieceRow => ({
+    name: jobCard.description,
+    category: '',
+    purity: issuedPurity,
+    grossWeight: '',
+    netWeight: '',
+    touchPercent: defaultTouchPercent(metal, issuedPurity),
+    stoneWeightCarat: '',
+  });
+
+  const [pieces, setPieces] = useState<PieceRow[]>(() => [newPiece()]);
+  const [scrapWeight, setScrapWeight] = useState('');
+  const [scrapTouchPercent, setScrapTouchPercent] = useState(() => defaultTouchPercent(metal, issuedPurity));
+  const [returnedStoneCarat, setReturnedStoneCarat] = useState('');
+  const [locationId, setLocationId] = useState('');
+  const [tray, setTray] = useState('');
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['stock', 'locations'],
+    queryFn: fetchStockLocations,
+  });
+
+  const receivedPieces = pieces.map((piece) => {
+    const grossWeight = parseNumber(piece.grossWeight);
+    const netWeight = piece.netWeight ? parseNumber(piece.netWeight) : grossWeight;
+    const touchPercent = parseNumber(piece.touchPercent);
+    return {
+      name: piece.name.trim(),
+      category: piece.category,
+      metal,
+      purity: piece.purity || null,
+      grossWeight,
+      netWeight,
+      touchPercent,
+      fineWeight: calculateFineWeight(netWeight, touchPercent),
+      stoneWeightCarat: parseNumber(piece.stoneWeightCarat),
+    };
+  });
+  const scrapFineWeight = calculateFineWeight(parseNumber(scrapWeight), parseNumber(scrapTouchPercent));
+  const totalFine = receivedPieces.reduce((total, piece) => total + piece.fineWeight, 0) + scrapFineWeight;
+
+  const receiveMutation = useMutation({
+    mutationFn: () =>
+      receiveJobCardPieces(jobCard.id, {
+        pieces: receivedPieces,
+        scrapWeight: parseNumber(scrapWeight),
+        scrapTouchPercent: parseNumber(scrapTouchPercent),
+        scrapFineWeight,
+        returnedStoneCarat: parseNumber(returnedStoneCarat),
+        locationId: locationId || null,
+        tray: tray.trim() || null,
+      }),
+    onSuccess: ({ items }) => {
+      queryClient.invalidateQueries({ queryKey: ['jobCards'] });
+      queryClient.invalidateQueries({ queryKey: ['karigars'] });
+      queryClient.invalidateQueries({ queryKey: ['stock'] });
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+      if (items.length > 0) {
+        navigate('/tags/print', { state: { items } });
+      } else {
+        onClose();
+      }
+    },
+  });
+
+  const updatePiece = (index: number, changes: Partial<PieceRow>) => {
+    setPieces((prev) => prev.map((piece, i) => (i === index ? { ...piece, ...changes } : piece)));
+  };
+
+  const invalid =
+    (receivedPieces.length === 0 && scrapFineWeight <= 0) ||
+    receivedPieces.some(
+      (piece) =>
+        !piece.name ||
+        !piece.category ||
+        !(piece.grossWeight > 0) ||
+        piece.netWeight > piece.grossWeight ||
+        !(piece.touchPercent > 0) ||
+        piece.touchPercent > 100
+    );
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="lg">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>
+        Receive from {jobCard.karigar.name} · {jobCard.jobNumber}
+      </DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 1 }}>
+          <Typography sx={{ color: '#5e3b63', fontWeight: 600 }}>Finished Pieces</Typography>
+          <Button
+            size="small"
+            startIcon={<Add />}
+            onClick={() => setPieces((prev) => [...prev, newPiece()])}
+            sx={{ color: '#5e3b63' }}
+          >
+            Add Piece
+          </Button>
+        </Box>
+        <Box sx={{ overflowX: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Name</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Category</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Purity</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Gross Wt (g)</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Net Wt (g)</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Touch (%)</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Stones (ct)</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">
+                  Fine Wt
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {pieces.map((piece, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      value={piece.name}
+                      onChange={(e) => updatePiece(index, { name: e.target.value })}
+                      sx={{ minWidth: 160 }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      value={piece.category}
+                      onChange={(e) => updatePiece(index, { category: e.target.value })}
+                      sx={{ minWidth: 130 }}
+                    >
+                      {ITEM_CATEGORIES.map((category) => (
+                        <MenuItem key={category.value} value={category.value}>
+                          {category.label}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      value={piece.purity}
+                      onChange={(e) =>
+                        updatePiece(index, {
+                          purity: e.target.value,
+                          touchPercent: defaultTouchPercent(metal, e.target.value),
+                        })
+                      }
+                      sx={{ minWidth: 110 }}
+                    >
+                      {METAL_PURITIES[metal].map((purity) => (
+                        <MenuItem key={purity.value} value={purity.value}>
+                          {purity.label}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={piece.grossWeight}
+                      onChange={(e) => updatePiece(index, { grossWeight: e.target.value })}
+                      slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                      sx={{ width: 110 }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={piece.netWeight}
+                      placeholder={piece.grossWeight}
+                      onChange={(e) => updatePiece(index, { netWeight: e.target.value })}
+                      slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                      sx={{ width: 110 }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={piece.touchPercent}
+                      onChange={(e) => updatePiece(index, { touchPercent: e.target.value })}
+                      slotProps={{ htmlInput: { min: 0, max: 100, step: '0.01' } }}
+                      sx={{ width: 90 }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={piece.stoneWeightCarat}
+                      onChange={(e) => updatePiece(index, { stoneWeightCarat: e.target.value })}
+                      slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                      sx={{ width: 90 }}
+                    />
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    {formatWeight(receivedPieces[index].fineWeight)}
+                  </TableCell>
+                  <TableCell>
+                    <IconButton
+                      size="small"
+                      onClick={() => setPieces((prev) => prev.filter((_piece, i) => i !== index))}
+                      sx={{ color: '#d32f2f' }}
+                    >
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+
+        <Typography sx={{ color: '#5e3b63', fontWeight: 600, mt: 3, mb: 1.5 }}>Scrap and Unused Stones</Typography>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}>
+          <TextField
+            size="small"
+            type="number"
+            label="Scrap Weight (g)"
+            value={scrapWeight}
+            onChange={(e) => setScrapWeight(e.target.value)}
+            slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+            sx={{ width: 160 }}
+          />
+          <TextField
+            size="small"
+            type="number"
+            label="Scrap Touch (%)"
+            value={scrapTouchPercent}
+            onChange={(e) => setScrapTouchPercent(e.target.value)}
+            slotProps={{ htmlInput: { min: 0, max: 100, step: '0.01' } }}
+            sx={{ width: 150 }}
+          />
+          <Typography variant="body2" sx={{ color: '#000000' }}>
+            Scrap fine {formatWeight(scrapFineWeight)}
+          </Typography>
+          <TextField
+            size="small"
+            type="number"
+            label="Stones Returned (ct)"
+            value={returnedStoneCarat}
+            onChange={(e) => setReturnedStoneCarat(e.target.value)}
+            slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+            sx={{ width: 180 }}
+          />
+        </Box>
+
+        {pieces.length > 0 && (
+          <>
+            <Typography sx={{ color: '#5e3b63', fontWeight: 600, mt: 3, mb: 1.5 }}>Stock Location</Typography>
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+              <TextField
+                select
+                size="small"
+                label="Location"
+                value={locationId}
+                onChange={(e) => setLocationId(e.target.value)}
+                sx={{ minWidth: 240 }}
+              >
+                <MenuItem value="">No location</MenuItem>
+                {locations.map((location) => (
+                  <MenuItem key={location.id} value={location.id}>
+                    {location.branch} / {location.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField size="small" label="Tray" value={tray} onChange={(e) => setTray(e.target.value)} />
+            </Box>
+          </>
+        )}
+
+        <Typography sx={{ color: '#5e3b63', fontWeight: 600, mt: 3 }}>
+          Total fine received: {formatWeight(totalFine)}
+        </Typography>
+        {receiveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(receiveMutation.error, 'Failed to receive pieces')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button
+          onClick={onClose}
+          variant="outlined"
+          sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={() => receiveMutation.mutate()}
+          variant="contained"
+          disabled={invalid || receiveMutation.isPending}
+          sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          {pieces.length > 0 ? `Receive and Tag ${pieces.length} Pieces` : 'Receive Scrap'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
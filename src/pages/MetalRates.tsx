@@ -0,0 +1,584 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Card,
+  CardContent,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Snackbar,
+  Alert,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { FilterList, Clear } from '@mui/icons-material';
+import { useForm, useWatch, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { DashboardLayout } from '../components/Layout/DashboardLayout';
+import { useIsOrgAdmin } from '../hooks/useAuth';
+import { useMetalRates } from '../hooks/useMetalRates';
+import { getApiErrorMessage } from '../api/client';
+import {
+  METALS,
+  METAL_PURITIES,
+  createMetalRate,
+  fetchMetalRateHistory,
+  type Metal,
+  type MetalRateFilters,
+} from '../api/metalRates';
+import { formatAmount } from '../utils/format';
+
+const metalRateSchema = z.object({
+  metal: z.enum(['gold', 'silver', 'platinum']),
+  purity: z.string().min(1, 'Purity is required'),
+  ratePerGram: z
+    .string()
+    .min(1, 'Rate is required')
+    .refine(
+      (val) => {
+        const num = parseFloat(val);
+        return !isNaN(num) && num > 0;
+      },
+      { message: 'Rate must be greater than 0' }
+    ),
+  effectiveFrom: z.string().min(1, 'Effective from is required'),
+});
+
+type MetalRateFormData = z.infer<typeof metalRateSchema>;
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+/**
+ * Current local time in the format expected by datetime-local inputs
+ */
+const nowForInput = () => {
+  const now = new Date();
+  now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
+  return now.toISOString().slice(0, 16);
+};
+
+const purityLabel = (metal: Metal, purity: string) =>
+  METAL_PURITIES[metal].find((option) => option.value === purity)?.label ?? purity;
+
+export function MetalRates() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const queryClient = useQueryClient();
+  const isAdmin = useIsOrgAdmin();
+  const { getRate, taxMode, loading: ratesLoading, error: ratesError } = useMetalRates();
+
+  const [filters, setFilters] = useState<MetalRateFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<MetalRateFilters>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [snackbarOpen, setSnackbarOpen] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState('');
+  const [snackbarSeverity, setSnackbarSeverity] = useState<'success' | 'error'>('success');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['metalRates', 'history', appliedFilters],
+    queryFn: () => fetchMetalRateHistory(appliedFilters),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createMetalRate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['metalRates'] });
+      setSnackbarMessage('Metal rate saved successfully!');
+      setSnackbarSeverity('success');
+      setSnackbarOpen(true);
+      reset({ ...getValues(), ratePerGram: '', effectiveFrom: nowForInput() });
+    },
+    onError: (error) => {
+      setSnackbarMessage(getApiErrorMessage(error, 'Failed to save metal rate'));
+      setSnackbarSeverity('error');
+      setSnackbarOpen(true);
+    },
+  });
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+    getValues,
+  } = useForm<MetalRateFormData>({
+    resolver: zodResolver(metalRateSchema),
+    defaultValues: {
+      metal: 'gold',
+      purity: '22K',
+      ratePerGram: '',
+      effectiveFrom: nowForInput(),
+    },
+  });
+
+  const selectedMetal = useWatch({ control, name: 'metal' });
+
+  const onSubmit = (formData: MetalRateFormData) => {
+    createMutation.mutate({
+      metal: formData.metal,
+      purity: formData.purity,
+      ratePerGram: parseFloat(formData.ratePerGram),
+      effectiveFrom: new Date(formData.effectiveFrom).toISOString(),
+    });
+  };
+
+  const handleChangeFilter = (key: keyof MetalRateFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+      // Purity options depend on the metal, so clear it when the metal changes
+      ...(key === 'metal' ? { purity: undefined } : {}),
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const history = data?.data || [];
+  const paginatedHistory = history.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 1,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          Metal Rates
+        </Typography>
+        <Typography variant="body2" sx={{ color: '#666666', mb: 3 }}>
+          Rates are per gram and {taxMode === 'include' ? 'include' : 'exclude'} tax, as set in
+          the organization pricing configuration.
+        </Typography>
+
+        {/* Current Rate Board */}
+        {ratesLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress sx={{ color: '#5e3b63' }} />
+          </Box>
+        ) : ratesError ? (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {ratesError.message || 'Failed to load current metal rates.'}
+          </Alert>
+        ) : (
+          <Grid container spacing={{ xs: 2, sm: 3 }} sx={{ mb: 3 }}>
+            {METALS.map((metal) => (
+              <Grid key={metal.value} size={{ xs: 12, md: 4 }}>
+                <Paper
+                  sx={{
+                    p: { xs: 2, sm: 3 },
+                    height: '100%',
+                    boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)',
+                  }}
+                >
+                  <Typography
+                    variant="h6"
+                    sx={{
+                      color: '#000000',
+                      fontWeight: 600,
+                      mb: 2,
+                      borderBottom: '2px solid #5e3b63',
+                      pb: 1,
+                    }}
+                  >
+                    {metal.label}
+                  </Typography>
+                  {METAL_PURITIES[metal.value].map((purity) => {
+                    const rate = getRate(metal.value, purity.value);
+                    return (
+                      <Box
+                        key={purity.value}
+                        sx={{ display: 'flex', justifyContent: 'space-between', mb: 1.5 }}
+                      >
+                        <Typography sx={{ color: '#5e3b63', fontWeight: 600 }}>
+                          {purity.label}
+                        </Typography>
+                        <Box sx={{ textAlign: 'right' }}>
+                          <Typography sx={{ color: '#000000', fontWeight: 600 }}>
+                            {rate ? `${formatAmount(rate.ratePerGram)}/g` : '-'}
+                          </Typography>
+                          {rate && (
+                            <Typography variant="caption" sx={{ color: '#666666' }}>
+                              since {new Date(rate.effectiveFrom).toLocaleString()}
+                            </Typography>
+                          )}
+                        </Box>
+                      </Box>
+                    );
+                  })}
+                </Paper>
+              </Grid>
+            ))}
+          </Grid>
+        )}
+
+        {/* Rate Entry (ORG_ADMIN only) */}
+        {isAdmin && (
+          <Card
+            elevation={0}
+            sx={{
+              border: '1px solid #e0e0e0',
+              borderRadius: 2,
+              mb: 3,
+            }}
+          >
+            <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+              <Typography
+                variant="h6"
+                component="h3"
+                sx={{
+                  color: '#0d0421',
+                  fontWeight: 600,
+                  mb: 2,
+                  fontSize: { xs: '1rem', sm: '1.1rem' },
+                }}
+              >
+                Enter New Rate
+              </Typography>
+              <form onSubmit={handleSubmit(onSubmit)}>
+                <Grid container spacing={2}>
+                  <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                    <Controller
+                      name="metal"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          select
+                          label="Metal"
+                          fullWidth
+                          onChange={(e) => {
+                            const metal = e.target.value as Metal;
+                            field.onChange(metal);
+                            setValue('purity', METAL_PURITIES[metal][0].value);
+                          }}
+                        >
+                          {METALS.map((metal) => (
+                            <MenuItem key={metal.value} value={metal.value}>
+                              {metal.label}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                      )}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                    <Controller
+                      name="purity"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          select
+                          label="Purity"
+                          fullWidth
+                          error={!!errors.purity}
+                          helperText={errors.purity?.message}
+                        >
+                          {METAL_PURITIES[selectedMetal].map((purity) => (
+                            <MenuItem key={purity.value} value={purity.value}>
+                              {purity.label}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                      )}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                    <Controller
+                      name="ratePerGram"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          label="Rate per Gram"
+                          type="number"
+                          fullWidth
+                          error={!!errors.ratePerGram}
+                          helperText={errors.ratePerGram?.message}
+                          slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+                        />
+                      )}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                    <Controller
+                      name="effectiveFrom"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          label="Effective From"
+                          type="datetime-local"
+                          fullWidth
+                          error={!!errors.effectiveFrom}
+                          helperText={errors.effectiveFrom?.message}
+                          slotProps={{ inputLabel: { shrink: true } }}
+                        />
+                      )}
+                    />
+                  </Grid>
+                  <Grid size={12}>
+                    <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                      <Button
+                        type="submit"
+                        variant="contained"
+                        disabled={createMutation.isPending}
+                        fullWidth={isMobile}
+                        sx={{
+                          backgroundColor: '#5e3b63',
+                          color: '#ffffff',
+                          px: 3,
+                          fontWeight: 600,
+                          '&:hover': {
+                            backgroundColor: '#4a2d4f',
+                          },
+                        }}
+                      >
+                        {createMutation.isPending ? (
+                          <CircularProgress size={20} sx={{ color: '#ffffff' }} />
+                        ) : (
+                          'Save Rate'
+                        )}
+                      </Button>
+                    </Box>
+                  </Grid>
+                </Grid>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* History Filters */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+            <FilterList sx={{ color: '#5e3b63', mr: 1, fontSize: 22 }} />
+            <Typography variant="h6" sx={{ color: '#0d0421', fontWeight: 600, fontSize: '1.1rem' }}>
+              Rate History
+            </Typography>
+          </Box>
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Metal"
+                fullWidth
+                value={filters.metal || ''}
+                onChange={(e) => handleChangeFilter('metal', e.target.value)}
+              >
+                <MenuItem value="">All Metals</MenuItem>
+                {METALS.map((metal) => (
+                  <MenuItem key={metal.value} value={metal.value}>
+                    {metal.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Purity"
+                fullWidth
+                disabled={!filters.metal}
+                value={filters.purity || ''}
+                onChange={(e) => handleChangeFilter('purity', e.target.value)}
+              >
+                <MenuItem value="">All Purities</MenuItem>
+                {filters.metal &&
+                  METAL_PURITIES[filters.metal].map((purity) => (
+                    <MenuItem key={purity.value} value={purity.value}>
+                      {purity.label}
+                    </MenuItem>
+                  ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                type="date"
+                size="small"
+                label="From Date"
+                fullWidth
+                value={filters.startDate || ''}
+                onChange={(e) => handleChangeFilter('startDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                type="date"
+                size="small"
+                label="To Date"
+                fullWidth
+                value={filters.endDate || ''}
+                onChange={(e) => handleChangeFilter('endDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* History Table */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading rate history. Please try again.'}
+              </Alert>
+            </Box>
+          ) : history.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No metal rates recorded yet.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Effective From</TableCell>
+                      <TableCell sx={headCellSx}>Metal</TableCell>
+                      <TableCell sx={headCellSx}>Purity</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Rate / g
+                      </TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        Entered By
+                      </TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        Entered At
+                      </TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedHistory.map((rate) => (
+                      <TableRow key={rate.id} hover>
+                        <TableCell sx={bodyCellSx}>
+                          {new Date(rate.effectiveFrom).toLocaleString()}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, textTransform: 'capitalize' }}>
+                          {rate.metal}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx}>{purityLabel(rate.metal, rate.purity)}</TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {formatAmount(rate.ratePerGram)}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                          {rate.createdByName || '-'}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                          {new Date(rate.createdAt).toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={history.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+
+      <Snackbar
+        open={snackbarOpen}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarOpen(false)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarOpen(false)} severity={snackbarSeverity} sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,547 @@
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  IconButton,
+  CircularProgress,
+  Snackbar,
+  Alert,
+  Divider,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import { useForm, useWatch, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { CustomerSelect } from '../../components/Customer/CustomerSelect';
+import { useMetalRates } from '../../hooks/useMetalRates';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import type { Customer } from '../../api/customers';
+import { METALS } from '../../api/metalRates';
+import { PURITY_TEST_METHODS, createOldGoldVoucher } from '../../api/oldGold';
+import {
+  buildOldGoldLine,
+  calculateOldGoldTotals,
+  deriveBuybackRate,
+  type OldGoldLineInput,
+} from '../../utils/oldGold';
+import { resolveWeightBasis } from '../../utils/pricing';
+import { formatAmount, formatWeight } from '../../utils/format';
+
+const decimalString = (message: string) =>
+  z.string().refine(
+    (val) => {
+      if (!val || val === '') return true;
+      const num = parseFloat(val);
+      return !isNaN(num) && num >= 0;
+    },
+    { message }
+  );
+
+const lineSchema = z
+  .object({
+    description: z.string().min(1, 'Description is required'),
+    grossWeight: z
+      .string()
+      .min(1, 'Gross weight is required')
+      .refine((val) => parseFloat(val) > 0, { message: 'Gross weight must be greater than 0' }),
+    stoneWeight: decimalString('Deduction must be a positive number'),
+    testMethod: z.enum(['touchstone', 'xrf', 'fire_assay']),
+    testedPurityPercent: z
+      .string()
+      .min(1, 'Tested purity is required')
+      .refine((val) => parseFloat(val) > 0 && parseFloat(val) <= 100, { message: 'Purity must be 0-100%' }),
+    meltingLossPercent: decimalString('Melting loss must be a positive number').refine(
+      (val) => !val || parseFloat(val) < 100,
+      { message: 'Melting loss must be under 100%' }
+    ),
+  })
+  .superRefine((line, ctx) => {
+    const gross = parseFloat(line.grossWeight);
+    const stone = parseFloat(line.stoneWeight);
+    if (!isNaN(gross) && !isNaN(stone) && stone > gross) {
+      ctx.addIssue({ code: 'custom', path: ['stoneWeight'], message: 'Deduction cannot exceed gross weight' });
+    }
+  });
+
+const voucherSchema = z.object({
+  customerId: z.string().min(1, 'Customer is required'),
+  voucherDate: z.string().min(1, 'Date is required'),
+  metal: z.enum(['gold', 'silver', 'platinum']),
+  ratePerGram: decimalString('Rate must be a positive number'),
+  notes: z.string(),
+  lines: z.array(lineSchema).min(1, 'Add at least one piece'),
+});
+
+type VoucherFormData = z.infer<typeof voucherSchema>;
+type LineFormData = VoucherFormData['lines'][number];
+
+const emptyLine: LineFormData = {
+  description: '',
+  grossWeight: '',
+  stoneWeight: '',
+  testMethod: 'touchstone',
+  testedPurityPercent: '',
+  meltingLossPercent: '',
+};
+
+const sectionTitleSx = {
+  color: '#0d0421',
+  fontWeight: 600,
+  mb: 1,
+  fontSize: { xs: '1rem', sm: '1.1rem' },
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const parseNumber = (val: string) => (val ? parseFloat(val) || 0 : 0);
+
+const toLineInput = (line: LineFormData): OldGoldLineInput => ({
+  description: line.description,
+  grossWeight: parseNumber(line.grossWeight),
+  stoneWeight: parseNumber(line.stoneWeight),
+  testMethod: line.testMethod,
+  testedPurityPercent: parseNumber(line.testedPurityPercent),
+  meltingLossPercent: parseNumber(line.meltingLossPercent),
+});
+
+/**
+ * Buy old gold from a customer. Each piece is weighed, its stones deducted
+ * and its purity tested; the resulting voucher is later exchanged against a
+ * sales invoice or paid out.
+ */
+export function OldGoldVoucherForm() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { getRate } = useMetalRates();
+  const { options: pricingOptions, loading: pricingLoading } = usePricingOptions();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+  } = useForm<VoucherFormData>({
+    resolver: zodResolver(voucherSchema),
+    defaultValues: {
+      customerId: '',
+      voucherDate: today(),
+      metal: 'gold',
+      ratePerGram: '',
+      notes: '',
+      lines: [emptyLine],
+    },
+  });
+
+  const { fields: lineFields, append, remove } = useFieldArray({ control, name: 'lines' });
+  const watchedLines = useWatch({ control, name: 'lines' });
+  const metal = useWatch({ control, name: 'metal' });
+  const enteredRate = useWatch({ control, name: 'ratePerGram' });
+
+  const derivedRate = pricingOptions ? deriveBuybackRate(metal, getRate, pricingOptions) : undefined;
+  const ratePerGram = parseNumber(enteredRate) || derivedRate || 0;
+  const weightBasis = pricingOptions ? resolveWeightBasis(pricingOptions.pricing) : 'net';
+
+  const lines = useMemo(
+    () =>
+      (watchedLines || []).map((line) => buildOldGoldLine(toLineInput(line), ratePerGram, weightBasis, decimals)),
+    [watchedLines, ratePerGram, weightBasis, decimals]
+  );
+  const totals = calculateOldGoldTotals(lines, decimals);
+
+  const saveMutation = useMutation({
+    mutationFn: (data: VoucherFormData) => {
+      const savedLines = data.lines.map((line) =>
+        buildOldGoldLine(toLineInput(line), ratePerGram, weightBasis, decimals)
+      );
+      return createOldGoldVoucher({
+        voucherDate: data.voucherDate,
+        customerId: data.customerId,
+        metal: data.metal,
+        ratePerGram,
+        weightBasis,
+        lines: savedLines,
+        ...calculateOldGoldTotals(savedLines, decimals),
+        notes: data.notes || null,
+      });
+    },
+    onSuccess: (voucher) => {
+      queryClient.invalidateQueries({ queryKey: ['oldGold'] });
+      navigate(`/old-gold/${voucher.id}`);
+    },
+    onError: (error) => setSnackbarMessage(getApiErrorMessage(error, 'Failed to save voucher')),
+  });
+
+  const handleSave = (data: VoucherFormData) => {
+    if (ratePerGram <= 0) {
+      setSnackbarMessage(`Enter a buyback rate; no ${metal} rate is entered for today`);
+      return;
+    }
+    saveMutation.mutate(data);
+  };
+
+  if (pricingLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 3,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          New Old Gold Voucher
+        </Typography>
+
+        <Card elevation={0} sx={{ border: '1px solid #e0e0e0', borderRadius: 2 }}>
+          <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+            <form onSubmit={handleSubmit(handleSave)}>
+              <Grid container spacing={3}>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <CustomerSelect
+                    value={customer}
+                    label="Customer"
+                    placeholder="Search by name, phone or customer no."
+                    onChange={(selected) => {
+                      setCustomer(selected);
+                      setValue('customerId', selected?.id ?? '', { shouldValidate: true });
+                    }}
+                    error={errors.customerId?.message}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="voucherDate"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="date"
+                        label="Voucher Date"
+                        fullWidth
+                        size="small"
+                        error={!!errors.voucherDate}
+                        helperText={errors.voucherDate?.message}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="metal"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField {...field} select label="Metal" fullWidth size="small">
+                        {METALS.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="ratePerGram"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="number"
+                        label="Buyback Rate / Fine g"
+                        placeholder={derivedRate?.toString()}
+                        fullWidth
+                        size="small"
+                        error={!!errors.ratePerGram}
+                        helperText={
+                          errors.ratePerGram?.message ??
+                          (derivedRate !== undefined
+                            ? `From today's rate: ${formatAmount(derivedRate, decimals)}`
+                            : `No ${metal} rate entered today`)
+                        }
+                        slotProps={{ inputLabel: { shrink: true }, htmlInput: { min: 0, step: '0.01' } }}
+                      />
+                    )}
+                  />
+                </Grid>
+
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                      Pieces
+                    </Typography>
+                    <Button
+                      startIcon={<Add />}
+                      onClick={() => append(emptyLine)}
+                      sx={{ color: '#5e3b63', fontWeight: 600 }}
+                    >
+                      Add Piece
+                    </Button>
+                  </Box>
+                  {weightBasis === 'gross' && (
+                    <Typography variant="body2" sx={{ color: '#666666' }}>
+                      Net weight pricing is off, so pieces are valued on gross weight.
+                    </Typography>
+                  )}
+                  {errors.lines?.root?.message && (
+                    <Typography variant="body2" sx={{ color: '#d32f2f' }}>
+                      {errors.lines.root.message}
+                    </Typography>
+                  )}
+                </Grid>
+                {lineFields.map((lineField, index) => {
+                  const lineErrors = errors.lines?.[index];
+                  const line = lines[index];
+                  return (
+                    <Grid key={lineField.id} size={12}>
+                      <Grid container spacing={1.5} sx={{ alignItems: 'flex-start' }}>
+                        <Grid size={{ xs: 12, md: 3 }}>
+                          <Controller
+                            name={`lines.${index}.description`}
+                            control={control}
+                            render={({ field }) => (
+                              <TextField
+                                {...field}
+                                label="Description"
+                                placeholder="e.g. Bangle pair"
+                                fullWidth
+                                size="small"
+                                error={!!lineErrors?.description}
+                                helperText={lineErrors?.description?.message}
+                              />
+                            )}
+                          />
+                        </Grid>
+                        <Grid size={{ xs: 6, sm: 4, md: 1.5 }}>
+                          <Controller
+                            name={`lines.${index}.grossWeight`}
+                            control={control}
+                            render={({ field }) => (
+                              <TextField
+                                {...field}
+                                type="number"
+                                label="Gross (g)"
+                                fullWidth
+                                size="small"
+                                error={!!lineErrors?.grossWeight}
+                                helperText={lineErrors?.grossWeight?.message}
+                                slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                              />
+                            )}
+                          />
+                        </Grid>
+                        <Grid size={{ xs: 6, sm: 4, md: 1.5 }}>
+                          <Controller
+                            name={`lines.${index}.stoneWeight`}
+                            control={control}
+                            render={({ field }) => (
+                              <TextField
+                                {...field}
+                                type="number"
+                                label="Less Stone (g)"
+                                fullWidth
+                                size="small"
+                                error={!!lineErrors?.stoneWeight}
+                                helperText={lineErrors?.stoneWeight?.message}
+                                slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                              />
+                            )}
+                          />
+                        </Grid>
+                        <Grid size={{ xs: 12, sm: 4, md: 2 }}>
+                          <Controller
+                            name={`lines.${index}.testMethod`}
+                            control={control}
+                            render={({ field }) => (
+                              <TextField {...field} select label="Tested By" fullWidth size="small">
+                                {PURITY_TEST_METHODS.map((method) => (
+                                  <MenuItem key={method.value} value={method.value}>
+                                    {method.label}
+                                  </MenuItem>
+                                ))}
+                              </TextField>
+                            )}
+                          />
+                        </Grid>
+                        <Grid size={{ xs: 6, sm: 4, md: 1.5 }}>
+                          <Controller
+                            name={`lines.${index}.testedPurityPercent`}
+                            control={control}
+                            render={({ field }) => (
+                              <TextField
+                                {...field}
+                                type="number"
+                                label="Purity (%)"
+                                fullWidth
+                                size="small"
+                                error={!!lineErrors?.testedPurityPercent}
+                                helperText={lineErrors?.testedPurityPercent?.message}
+                                slotProps={{ htmlInput: { min: 0, max: 100, step: '0.01' } }}
+                              />
+                            )}
+                          />
+                        </Grid>
+                        <Grid size={{ xs: 6, sm: 4, md: 1.5 }}>
+                          <Controller
+                            name={`lines.${index}.meltingLossPercent`}
+                            control={control}
+                            render={({ field }) => (
+                              <TextField
+                                {...field}
+                                type="number"
+                                label="Melt Loss (%)"
+                                fullWidth
+                                size="small"
+                                error={!!lineErrors?.meltingLossPercent}
+                                helperText={lineErrors?.meltingLossPercent?.message}
+                                slotProps={{ htmlInput: { min: 0, max: 100, step: '0.01' } }}
+                              />
+                            )}
+                          />
+                        </Grid>
+                        <Grid size={{ xs: 12, sm: 4, md: 1 }} sx={{ textAlign: 'right' }}>
+                          {lineFields.length > 1 && (
+                            <IconButton
+                              aria-label="remove piece"
+                              onClick={() => remove(index)}
+                              sx={{ color: '#d32f2f' }}
+                            >
+                              <Delete />
+                            </IconButton>
+                          )}
+                        </Grid>
+                        {line && (
+                          <Grid size={12}>
+                            <Typography variant="body2" sx={{ color: '#666666' }}>
+                              Net {formatWeight(line.netWeight)} · Fine {formatWeight(line.fineWeight)} ·{' '}
+                              <Box component="span" sx={{ color: '#5e3b63', fontWeight: 600 }}>
+                                {formatAmount(line.amount, decimals)}
+                              </Box>
+                            </Typography>
+                          </Grid>
+                        )}
+                      </Grid>
+                    </Grid>
+                  );
+                })}
+
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    Summary
+                  </Typography>
+                  {[
+                    ['Gross Weight', formatWeight(totals.totalGrossWeight)],
+                    ['Stone Deduction', formatWeight(totals.totalStoneWeight)],
+                    ['Net Weight', formatWeight(totals.totalNetWeight)],
+                    ['Fine Weight', formatWeight(totals.totalFineWeight)],
+                    ['Rate / Fine g', formatAmount(ratePerGram, decimals)],
+                  ].map(([label, value]) => (
+                    <Box key={label} sx={{ display: 'flex', justifyContent: 'space-between', maxWidth: 360, mb: 0.5 }}>
+                      <Typography variant="body2">{label}</Typography>
+                      <Typography variant="body2">{value}</Typography>
+                    </Box>
+                  ))}
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', maxWidth: 360, mt: 1 }}>
+                    <Typography sx={{ fontWeight: 700 }}>Voucher Amount</Typography>
+                    <Typography sx={{ fontWeight: 700, color: '#5e3b63' }}>
+                      {formatAmount(totals.amount, decimals)}
+                    </Typography>
+                  </Box>
+                </Grid>
+
+                <Grid size={12}>
+                  <Controller
+                    name="notes"
+                    control={control}
+                    render={({ field }) => <TextField {...field} label="Notes" fullWidth multiline rows={2} />}
+                  />
+                </Grid>
+
+                {/* Action Buttons */}
+                <Grid size={12}>
+                  <Divider sx={{ my: 2 }} />
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      flexDirection: { xs: 'column', sm: 'row' },
+                      justifyContent: 'flex-end',
+                      gap: 2,
+                    }}
+                  >
+                    <Button
+                      type="button"
+                      variant="outlined"
+                      onClick={() => navigate('/old-gold')}
+                      fullWidth={isMobile}
+                      sx={{ borderColor: '#5e3b63', color: '#5e3b63', px: 3, fontWeight: 600 }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant="contained"
+                      disabled={saveMutation.isPending}
+                      fullWidth={isMobile}
+                      sx={{
+                        backgroundColor: '#5e3b63',
+                        px: 3,
+                        fontWeight: 600,
+                        '&:hover': { backgroundColor: '#4a2d4f' },
+                      }}
+                    >
+                      Save Voucher
+                    </Button>
+                  </Box>
+                </Grid>
+              </Grid>
+            </form>
+          </CardContent>
+        </Card>
+      </Box>
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
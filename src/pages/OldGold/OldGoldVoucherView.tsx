@@ -0,0 +1,428 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  Link,
+  MenuItem,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, Block, Payments, Print } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { paymentModeLabel } from '../../components/Invoice/templates';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import { PAYMENT_MODES, getGeneralConfig, type GeneralConfig } from '../../api/config';
+import {
+  OLD_GOLD_VOUCHER_STATUSES,
+  PURITY_TEST_METHODS,
+  cancelOldGoldVoucher,
+  fetchOldGoldVoucher,
+  payOutOldGoldVoucher,
+  type OldGoldVoucher,
+} from '../../api/oldGold';
+import { amountInWords, formatAmount, formatWeight } from '../../utils/format';
+
+const cellSx = { color: '#000000', fontSize: '0.8rem', py: 0.75, px: 1 };
+const headSx = { ...cellSx, fontWeight: 600, borderBottom: '2px solid #000000' };
+
+export function OldGoldVoucherView() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [payDialogOpen, setPayDialogOpen] = useState(false);
+  const [payment, setPayment] = useState({ mode: 'cash', reference: '' });
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+
+  const { data: voucher, isLoading, error } = useQuery<OldGoldVoucher>({
+    queryKey: ['oldGold', 'vouchers', id],
+    queryFn: () => fetchOldGoldVoucher(id as string),
+    enabled: !!id,
+  });
+
+  const { data: generalConfig } = useQuery<GeneralConfig>({
+    queryKey: ['config', 'general'],
+    queryFn: getGeneralConfig,
+  });
+
+  const payMutation = useMutation({
+    mutationFn: () =>
+      payOutOldGoldVoucher(id as string, { mode: payment.mode, reference: payment.reference.trim() || null }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['oldGold'] });
+      setPayDialogOpen(false);
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelOldGoldVoucher(id as string),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['oldGold'] });
+      setCancelDialogOpen(false);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !voucher) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Voucher not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const status = OLD_GOLD_VOUCHER_STATUSES.find((option) => option.value === voucher.status);
+  const testMethodLabel = (value: string) =>
+    PURITY_TEST_METHODS.find((method) => method.value === value)?.label ?? value;
+  const totalRow = (label: string, value: string, bold = false) => (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', py: 0.25 }}>
+      <Typography sx={{ fontSize: '0.85rem', fontWeight: bold ? 700 : 400 }}>{label}</Typography>
+      <Typography sx={{ fontSize: '0.85rem', fontWeight: bold ? 700 : 400 }}>{value}</Typography>
+    </Box>
+  );
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1000, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 2,
+          }}
+        >
+          <Box>
+            <Button startIcon={<ArrowBack />} onClick={() => navigate('/old-gold')} sx={{ color: '#5e3b63', mb: 1 }}>
+              Old Gold Vouchers
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {voucher.voucherNumber}
+              </Typography>
+              <Chip
+                label={status?.label ?? voucher.status}
+                color={status?.color ?? 'default'}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+            {voucher.status === 'open' && (
+              <>
+                <Button
+                  variant="outlined"
+                  startIcon={<Block />}
+                  onClick={() => setCancelDialogOpen(true)}
+                  sx={{ borderColor: '#d32f2f', color: '#d32f2f', fontWeight: 600 }}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<Payments />}
+                  onClick={() => setPayDialogOpen(true)}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Pay Out
+                </Button>
+              </>
+            )}
+            <Button
+              variant="contained"
+              startIcon={<Print />}
+              onClick={() => window.print()}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              Print / PDF
+            </Button>
+          </Box>
+        </Box>
+
+        {voucher.status === 'open' && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Apply this voucher from the Old Gold Exchange section of a new sale, or pay it out to the customer.
+          </Alert>
+        )}
+        {voucher.status === 'applied' && voucher.invoiceId && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Exchanged against invoice{' '}
+            <Link component={RouterLink} to={`/sales/invoices/${voucher.invoiceId}`} sx={{ fontWeight: 600 }}>
+              {voucher.invoiceNumber}
+            </Link>
+            .
+          </Alert>
+        )}
+        {voucher.status === 'paid' && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            Paid out by {paymentModeLabel(voucher.paymentMode ?? '')}
+            {voucher.paymentReference ? ` (${voucher.paymentReference})` : ''}.
+          </Alert>
+        )}
+
+        <Paper className="print-area" sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)', overflowX: 'auto' }}>
+          <Box sx={{ color: '#000000', backgroundColor: '#ffffff', p: 3 }}>
+            {/* Header */}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
+              <Box>
+                <Typography sx={{ fontWeight: 700, fontSize: '1.25rem' }}>
+                  {generalConfig?.organizationName || ''}
+                </Typography>
+                {generalConfig?.address && (
+                  <Typography sx={{ fontSize: '0.8rem', whiteSpace: 'pre-line' }}>{generalConfig.address}</Typography>
+                )}
+                {generalConfig?.phone && (
+                  <Typography sx={{ fontSize: '0.8rem' }}>Phone: {generalConfig.phone}</Typography>
+                )}
+              </Box>
+              <Box sx={{ textAlign: 'right' }}>
+                <Typography sx={{ fontWeight: 700, fontSize: '1.1rem', letterSpacing: 1 }}>
+                  OLD GOLD PURCHASE VOUCHER
+                </Typography>
+                <Typography sx={{ fontSize: '0.85rem' }}>No: {voucher.voucherNumber}</Typography>
+                <Typography sx={{ fontSize: '0.85rem' }}>
+                  Date: {new Date(voucher.voucherDate).toLocaleDateString()}
+                </Typography>
+              </Box>
+            </Box>
+
+            {/* Customer */}
+            <Box sx={{ border: '1px solid #000000', p: 1.5, mb: 2 }}>
+              <Typography sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Purchased From</Typography>
+              <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>
+                {voucher.customer.name} ({voucher.customer.customerNumber})
+              </Typography>
+              {voucher.customer.phone && (
+                <Typography sx={{ fontSize: '0.8rem' }}>Phone: {voucher.customer.phone}</Typography>
+              )}
+              {voucher.customer.address && (
+                <Typography sx={{ fontSize: '0.8rem', whiteSpace: 'pre-line' }}>{voucher.customer.address}</Typography>
+              )}
+            </Box>
+
+            {/* Pieces */}
+            <Table size="small" sx={{ mb: 2 }}>
+              <TableHead>
+                <TableRow>
+                  <TableCell sx={headSx}>#</TableCell>
+                  <TableCell sx={headSx}>Description</TableCell>
+                  <TableCell sx={headSx} align="right">
+                    Gross
+                  </TableCell>
+                  <TableCell sx={headSx} align="right">
+                    Less Stone
+                  </TableCell>
+                  <TableCell sx={headSx} align="right">
+                    Net
+                  </TableCell>
+                  <TableCell sx={headSx}>Tested By</TableCell>
+                  <TableCell sx={headSx} align="right">
+                    Purity
+                  </TableCell>
+                  <TableCell sx={headSx} align="right">
+                    Melt Loss
+                  </TableCell>
+                  <TableCell sx={headSx} align="right">
+                    Fine
+                  </TableCell>
+                  <TableCell sx={headSx} align="right">
+                    Amount
+                  </TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {voucher.lines.map((line, index) => (
+                  <TableRow key={line.id ?? index}>
+                    <TableCell sx={cellSx}>{index + 1}</TableCell>
+                    <TableCell sx={cellSx}>{line.description}</TableCell>
+                    <TableCell sx={cellSx} align="right">
+                      {formatWeight(line.grossWeight)}
+                    </TableCell>
+                    <TableCell sx={cellSx} align="right">
+                      {formatWeight(line.stoneWeight)}
+                    </TableCell>
+                    <TableCell sx={cellSx} align="right">
+                      {formatWeight(line.netWeight)}
+                    </TableCell>
+                    <TableCell sx={cellSx}>{testMethodLabel(line.testMethod)}</TableCell>
+                    <TableCell sx={cellSx} align="right">
+                      {line.testedPurityPercent}%
+                    </TableCell>
+                    <TableCell sx={cellSx} align="right">
+                      {line.meltingLossPercent}%
+                    </TableCell>
+                    <TableCell sx={cellSx} align="right">
+                      {formatWeight(line.fineWeight)}
+                    </TableCell>
+                    <TableCell sx={cellSx} align="right">
+                      {formatAmount(line.amount, decimals)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {/* Totals */}
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mb: 2 }}>
+              <Box sx={{ width: 300 }}>
+                {totalRow('Gross Weight', formatWeight(voucher.totalGrossWeight))}
+                {totalRow('Net Weight', formatWeight(voucher.totalNetWeight))}
+                {totalRow('Fine Weight', formatWeight(voucher.totalFineWeight))}
+                {totalRow('Rate / Fine g', formatAmount(voucher.ratePerGram, decimals))}
+                {totalRow('Voucher Amount', formatAmount(voucher.amount, decimals), true)}
+              </Box>
+            </Box>
+            <Typography sx={{ fontSize: '0.85rem', mb: 1 }}>
+              <strong>Amount in words:</strong> {amountInWords(voucher.amount)}
+            </Typography>
+            <Typography sx={{ fontSize: '0.75rem', mb: 4 }}>
+              Valued on {voucher.weightBasis} weight. I confirm the metal above is my own and sold of my free will.
+            </Typography>
+            {voucher.notes && <Typography sx={{ fontSize: '0.8rem', mb: 2 }}>Notes: {voucher.notes}</Typography>}
+
+            {/* Signatures */}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 6 }}>
+              <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5, px: 2 }}>
+                Customer Signature
+              </Typography>
+              <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5, px: 2 }}>
+                Authorised Signatory
+              </Typography>
+            </Box>
+          </Box>
+        </Paper>
+      </Box>
+
+      {/* Pay Out Dialog */}
+      <Dialog
+        open={payDialogOpen}
+        onClose={() => setPayDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Pay Out Voucher</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000', mb: 2 }}>
+            Pay {formatAmount(voucher.amount, decimals)} to {voucher.customer.name}. The voucher can no longer be
+            exchanged afterwards.
+          </DialogContentText>
+          <TextField
+            select
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Mode"
+            value={payment.mode}
+            onChange={(e) => setPayment({ ...payment, mode: e.target.value })}
+          >
+            {PAYMENT_MODES.map((mode) => (
+              <MenuItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          {payment.mode !== 'cash' && (
+            <TextField
+              fullWidth
+              size="small"
+              margin="dense"
+              label="Reference"
+              value={payment.reference}
+              onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+            />
+          )}
+          {payMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(payMutation.error, 'Failed to pay out voucher')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setPayDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => payMutation.mutate()}
+            variant="contained"
+            disabled={payMutation.isPending}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Pay Out
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Cancel Confirmation Dialog */}
+      <Dialog
+        open={cancelDialogOpen}
+        onClose={() => setCancelDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Cancel Voucher</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000' }}>
+            Cancel {voucher.voucherNumber}? It can no longer be exchanged or paid out.
+          </DialogContentText>
+          {cancelMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(cancelMutation.error, 'Failed to cancel voucher')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setCancelDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Keep Voucher
+          </Button>
+          <Button
+            onClick={() => cancelMutation.mutate()}
+            variant="contained"
+            disabled={cancelMutation.isPending}
+            sx={{ backgroundColor: '#d32f2f', fontWeight: 600, '&:hover': { backgroundColor: '#b71c1c' } }}
+          >
+            Cancel Voucher
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
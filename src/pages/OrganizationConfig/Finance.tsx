@@ -23,7 +23,7 @@ import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getFinanceConfig, updateFinanceConfig, type FinanceConfig } from '../../api/config';
+import { getFinanceConfig, updateFinanceConfig, PAYMENT_MODES, type FinanceConfig } from '../../api/config';
 
 const financeConfigSchema = z.object({
   defaultPaymentMode: z.string().optional(),
@@ -44,15 +44,6 @@ const financeConfigSchema = z.object({
 
 type FinanceConfigFormData = z.infer<typeof financeConfigSchema>;
 
-const paymentModes = [
-  { value: 'cash', label: 'Cash' },
-  { value: 'card', label: 'Card' },
-  { value: 'bank_transfer', label: 'Bank Transfer' },
-  { value: 'cheque', label: 'Cheque' },
-  { value: 'upi', label: 'UPI' },
-  { value: 'online', label: 'Online Payment' },
-];
-
 const currencyFormats = [
   { value: 'symbol', label: 'Symbol (₹1,234.56)' },
   { value: 'code', label: 'Code (INR 1,234.56)' },
@@ -223,7 +214,7 @@ export function Finance() {
                         <MenuItem value="">
                           <em>None</em>
                         </MenuItem>
-                        {paymentModes.map((mode) => (
+                        {PAYMENT_MODES.map((mode) => (
                           <MenuItem key={mode.value} value={mode.value}>
                             {mode.label}
                           </MenuItem>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   Box,
   Typography,
@@ -13,14 +13,33 @@ import {
   Switch,
   FormControlLabel,
   Divider,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
   useMediaQuery,
   useTheme,
 } from '@mui/material';
-import { useForm, Controller } from 'react-hook-form';
+import { useForm, Controller, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getInvoiceConfig, updateInvoiceConfig, type InvoiceConfig } from '../../api/config';
+import {
+  getGeneralConfig,
+  getInvoiceConfig,
+  getTaxConfig,
+  updateInvoiceConfig,
+  type InvoiceConfig,
+} from '../../api/config';
+import { useOrgConfig } from '../../hooks/useOrgConfig';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { InvoicePrint } from '../../components/Invoice/InvoicePrint';
+import {
+  INVOICE_DOCUMENT_TYPES,
+  SAMPLE_INVOICE,
+  getAvailableTemplates,
+  resolveInvoiceTemplate,
+  type InvoiceDocumentType,
+} from '../../components/Invoice/templates';
 
 const invoiceConfigSchema = z.object({
   invoiceTitle: z.string().optional(),
@@ -38,6 +57,10 @@ const invoiceConfigSchema = z.object({
       },
       { message: 'Due days must be a positive number' }
     ),
+  defaultTemplates: z.object({
+    retailInvoice: z.string(),
+    taxInvoice: z.string(),
+  }),
 });
 
 type InvoiceConfigFormData = z.infer<typeof invoiceConfigSchema>;
@@ -49,6 +72,13 @@ export function Invoice() {
   const [snackbarOpen, setSnackbarOpen] = useState(false);
   const [snackbarMessage, setSnackbarMessage] = useState('');
   const [snackbarSeverity, setSnackbarSeverity] = useState<'success' | 'error'>('success');
+  const [previewType, setPreviewType] = useState<InvoiceDocumentType>('retailInvoice');
+  const { config: orgConfig } = useOrgConfig();
+  const { options: pricingOptions } = usePricingOptions();
+  const availableTemplates = useMemo(
+    () => getAvailableTemplates(orgConfig?.documents.invoiceTemplates),
+    [orgConfig?.documents.invoiceTemplates]
+  );
 
   // Fetch invoice config
   const { data: config, isLoading, error } = useQuery<InvoiceConfig>({
@@ -56,6 +86,17 @@ export function Invoice() {
     queryFn: getInvoiceConfig,
   });
 
+  // General and Tax config feed the organization details shown in the preview
+  const { data: generalConfig } = useQuery({
+    queryKey: ['config', 'general'],
+    queryFn: getGeneralConfig,
+  });
+
+  const { data: taxConfig } = useQuery({
+    queryKey: ['config', 'tax'],
+    queryFn: getTaxConfig,
+  });
+
   // Update invoice config mutation
   const updateMutation = useMutation({
     mutationFn: updateInvoiceConfig,
@@ -85,9 +126,16 @@ export function Invoice() {
       terms: '',
       showLogo: false,
       defaultDueDays: '',
+      defaultTemplates: {
+        retailInvoice: resolveInvoiceTemplate(undefined, 'retailInvoice').id,
+        taxInvoice: resolveInvoiceTemplate(undefined, 'taxInvoice').id,
+      },
     },
   });
 
+  // Watch the whole form for the live preview
+  const previewValues = useWatch({ control });
+
   // Reset form when config data is loaded
   useEffect(() => {
     if (config) {
@@ -97,9 +145,29 @@ export function Invoice() {
         terms: config.terms || '',
         showLogo: config.showLogo ?? false,
         defaultDueDays: config.defaultDueDays?.toString() || '',
+        defaultTemplates: {
+          retailInvoice: resolveInvoiceTemplate(config, 'retailInvoice', availableTemplates).id,
+          taxInvoice: resolveInvoiceTemplate(config, 'taxInvoice', availableTemplates).id,
+        },
       });
     }
-  }, [config, reset]);
+  }, [config, reset, availableTemplates]);
+
+  // Sample invoice rendered with the unsaved form values
+  const previewTemplate =
+    availableTemplates.find((template) => template.id === previewValues.defaultTemplates?.[previewType]) ??
+    resolveInvoiceTemplate(undefined, previewType, availableTemplates);
+  const previewInvoice =
+    previewType === 'taxInvoice' && SAMPLE_INVOICE.customer
+      ? {
+          ...SAMPLE_INVOICE,
+          customer: { ...SAMPLE_INVOICE.customer, name: 'Sharma Traders', gstin: '29ABCDE1234F1Z5' },
+        }
+      : SAMPLE_INVOICE;
+  const previewConfig = {
+    ...previewValues,
+    defaultDueDays: previewValues.defaultDueDays ? parseInt(previewValues.defaultDueDays, 10) : undefined,
+  };
 
   const onSubmit = (data: InvoiceConfigFormData) => {
     const submitData = {
@@ -160,297 +228,422 @@ export function Invoice() {
         Invoice Settings
       </Typography>
 
-      <Card
-        elevation={0}
-        sx={{
-          border: '1px solid #e0e0e0',
-          borderRadius: 2,
-        }}
-      >
-        <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
-          <form onSubmit={handleSubmit(onSubmit)}>
-            <Grid container spacing={3}>
-              {/* Basic Settings Section */}
-              <Grid item xs={12}>
-                <Typography
-                  variant="h6"
-                  component="h3"
-                  sx={{
-                    color: '#0d0421',
-                    fontWeight: 600,
-                    mb: 2,
-                    fontSize: { xs: '1rem', sm: '1.1rem' },
-                  }}
-                >
-                  Basic Settings
-                </Typography>
-              </Grid>
-
-              <Grid item xs={12} sm={6}>
-                <Controller
-                  name="invoiceTitle"
-                  control={control}
-                  render={({ field }) => (
-                    <TextField
-                      {...field}
-                      label="Invoice Title"
-                      fullWidth
-                      error={!!errors.invoiceTitle}
-                      helperText={errors.invoiceTitle?.message}
-                      placeholder="e.g., Invoice, Bill, Tax Invoice"
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12, xl: 6 }}>
+          <Card
+            elevation={0}
+            sx={{
+              border: '1px solid #e0e0e0',
+              borderRadius: 2,
+            }}
+          >
+            <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+              <form onSubmit={handleSubmit(onSubmit)}>
+                <Grid container spacing={3}>
+                  {/* Basic Settings Section */}
+                  <Grid item xs={12}>
+                    <Typography
+                      variant="h6"
+                      component="h3"
                       sx={{
-                        '& .MuiOutlinedInput-root': {
-                          '&:hover fieldset': {
-                            borderColor: '#5e3b63',
-                          },
-                          '&.Mui-focused fieldset': {
-                            borderColor: '#5e3b63',
-                          },
-                        },
-                        '& .MuiInputLabel-root.Mui-focused': {
-                          color: '#5e3b63',
-                        },
+                        color: '#0d0421',
+                        fontWeight: 600,
+                        mb: 2,
+                        fontSize: { xs: '1rem', sm: '1.1rem' },
                       }}
+                    >
+                      Basic Settings
+                    </Typography>
+                  </Grid>
+
+                  <Grid item xs={12} sm={6}>
+                    <Controller
+                      name="invoiceTitle"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          label="Invoice Title"
+                          fullWidth
+                          error={!!errors.invoiceTitle}
+                          helperText={errors.invoiceTitle?.message}
+                          placeholder="e.g., Invoice, Bill, Tax Invoice"
+                          sx={{
+                            '& .MuiOutlinedInput-root': {
+                              '&:hover fieldset': {
+                                borderColor: '#5e3b63',
+                              },
+                              '&.Mui-focused fieldset': {
+                                borderColor: '#5e3b63',
+                              },
+                            },
+                            '& .MuiInputLabel-root.Mui-focused': {
+                              color: '#5e3b63',
+                            },
+                          }}
+                        />
+                      )}
+                    />
+                  </Grid>
+
+                  <Grid item xs={12} sm={6}>
+                    <Controller
+                      name="defaultDueDays"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          label="Default Due Days"
+                          type="number"
+                          fullWidth
+                          error={!!errors.defaultDueDays}
+                          helperText={errors.defaultDueDays?.message || 'Number of days until payment is due'}
+                          InputProps={{
+                            inputProps: { min: 0 },
+                          }}
+                          sx={{
+                            '& .MuiOutlinedInput-root': {
+                              '&:hover fieldset': {
+                                borderColor: '#5e3b63',
+                              },
+                              '&.Mui-focused fieldset': {
+                                borderColor: '#5e3b63',
+                              },
+                            },
+                            '& .MuiInputLabel-root.Mui-focused': {
+                              color: '#5e3b63',
+                            },
+                          }}
+                        />
+                      )}
+                    />
+                  </Grid>
+
+                  <Grid item xs={12}>
+                    <Controller
+                      name="showLogo"
+                      control={control}
+                      render={({ field }) => (
+                        <FormControlLabel
+                          control={
+                            <Switch
+                              {...field}
+                              checked={field.value}
+                              sx={{
+                                '& .MuiSwitch-switchBase.Mui-checked': {
+                                  color: '#5e3b63',
+                                },
+                                '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': {
+                                  backgroundColor: '#5e3b63',
+                                },
+                              }}
+                            />
+                          }
+                          label={
+                            <Typography
+                              sx={{
+                                color: '#000000',
+                                fontWeight: 500,
+                                fontSize: '1rem',
+                              }}
+                            >
+                              Show Logo on Invoice
+                            </Typography>
+                          }
+                        />
+                      )}
                     />
-                  )}
-                />
-              </Grid>
+                  </Grid>
 
-              <Grid item xs={12} sm={6}>
-                <Controller
-                  name="defaultDueDays"
-                  control={control}
-                  render={({ field }) => (
-                    <TextField
-                      {...field}
-                      label="Default Due Days"
-                      type="number"
-                      fullWidth
-                      error={!!errors.defaultDueDays}
-                      helperText={errors.defaultDueDays?.message || 'Number of days until payment is due'}
-                      InputProps={{
-                        inputProps: { min: 0 },
+                  {/* Templates Section */}
+                  <Grid size={12}>
+                    <Divider sx={{ my: 2 }} />
+                    <Typography
+                      variant="h6"
+                      component="h3"
+                      sx={{
+                        color: '#0d0421',
+                        fontWeight: 600,
+                        mb: 2,
+                        fontSize: { xs: '1rem', sm: '1.1rem' },
                       }}
+                    >
+                      Default Templates
+                    </Typography>
+                  </Grid>
+
+                  {INVOICE_DOCUMENT_TYPES.map((documentType) => (
+                    <Grid size={{ xs: 12, sm: 6 }} key={documentType.value}>
+                      <Controller
+                        name={`defaultTemplates.${documentType.value}`}
+                        control={control}
+                        render={({ field }) => (
+                          <TextField
+                            {...field}
+                            select
+                            label={documentType.label}
+                            fullWidth
+                            onFocus={() => setPreviewType(documentType.value)}
+                            helperText={availableTemplates.find((template) => template.id === field.value)?.description}
+                            sx={{
+                              '& .MuiOutlinedInput-root': {
+                                '&:hover fieldset': {
+                                  borderColor: '#5e3b63',
+                                },
+                                '&.Mui-focused fieldset': {
+                                  borderColor: '#5e3b63',
+                                },
+                              },
+                              '& .MuiInputLabel-root.Mui-focused': {
+                                color: '#5e3b63',
+                              },
+                            }}
+                          >
+                            {availableTemplates.map((template) => (
+                              <MenuItem key={template.id} value={template.id}>
+                                {template.label}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        )}
+                      />
+                    </Grid>
+                  ))}
+
+                  {/* Footer Note Section */}
+                  <Grid item xs={12}>
+                    <Divider sx={{ my: 2 }} />
+                    <Typography
+                      variant="h6"
+                      component="h3"
                       sx={{
-                        '& .MuiOutlinedInput-root': {
-                          '&:hover fieldset': {
-                            borderColor: '#5e3b63',
-                          },
-                          '&.Mui-focused fieldset': {
-                            borderColor: '#5e3b63',
-                          },
-                        },
-                        '& .MuiInputLabel-root.Mui-focused': {
-                          color: '#5e3b63',
-                        },
+                        color: '#0d0421',
+                        fontWeight: 600,
+                        mb: 2,
+                        fontSize: { xs: '1rem', sm: '1.1rem' },
                       }}
-                    />
-                  )}
-                />
-              </Grid>
+                    >
+                      Footer Note
+                    </Typography>
+                  </Grid>
 
-              <Grid item xs={12}>
-                <Controller
-                  name="showLogo"
-                  control={control}
-                  render={({ field }) => (
-                    <FormControlLabel
-                      control={
-                        <Switch
+                  <Grid item xs={12}>
+                    <Controller
+                      name="footerNote"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
                           {...field}
-                          checked={field.value}
+                          label="Footer Note"
+                          fullWidth
+                          multiline
+                          rows={4}
+                          error={!!errors.footerNote}
+                          helperText={errors.footerNote?.message || 'Text displayed at the bottom of the invoice'}
+                          placeholder="e.g., Thank you for your business!"
                           sx={{
-                            '& .MuiSwitch-switchBase.Mui-checked': {
-                              color: '#5e3b63',
+                            '& .MuiOutlinedInput-root': {
+                              '&:hover fieldset': {
+                                borderColor: '#5e3b63',
+                              },
+                              '&.Mui-focused fieldset': {
+                                borderColor: '#5e3b63',
+                              },
                             },
-                            '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': {
-                              backgroundColor: '#5e3b63',
+                            '& .MuiInputLabel-root.Mui-focused': {
+                              color: '#5e3b63',
                             },
                           }}
                         />
-                      }
-                      label={
-                        <Typography
+                      )}
+                    />
+                  </Grid>
+
+                  {/* Terms & Conditions Section */}
+                  <Grid item xs={12}>
+                    <Divider sx={{ my: 2 }} />
+                    <Typography
+                      variant="h6"
+                      component="h3"
+                      sx={{
+                        color: '#0d0421',
+                        fontWeight: 600,
+                        mb: 2,
+                        fontSize: { xs: '1rem', sm: '1.1rem' },
+                      }}
+                    >
+                      Terms & Conditions
+                    </Typography>
+                  </Grid>
+
+                  <Grid item xs={12}>
+                    <Controller
+                      name="terms"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          label="Terms & Conditions"
+                          fullWidth
+                          multiline
+                          rows={6}
+                          error={!!errors.terms}
+                          helperText={errors.terms?.message || 'Terms and conditions displayed on the invoice'}
+                          placeholder="e.g., Payment is due within the specified number of days..."
                           sx={{
-                            color: '#000000',
-                            fontWeight: 500,
-                            fontSize: '1rem',
+                            '& .MuiOutlinedInput-root': {
+                              '&:hover fieldset': {
+                                borderColor: '#5e3b63',
+                              },
+                              '&.Mui-focused fieldset': {
+                                borderColor: '#5e3b63',
+                              },
+                            },
+                            '& .MuiInputLabel-root.Mui-focused': {
+                              color: '#5e3b63',
+                            },
                           }}
-                        >
-                          Show Logo on Invoice
-                        </Typography>
-                      }
+                        />
+                      )}
                     />
-                  )}
-                />
-              </Grid>
+                  </Grid>
 
-              {/* Footer Note Section */}
-              <Grid item xs={12}>
-                <Divider sx={{ my: 2 }} />
-                <Typography
-                  variant="h6"
-                  component="h3"
-                  sx={{
-                    color: '#0d0421',
-                    fontWeight: 600,
-                    mb: 2,
-                    fontSize: { xs: '1rem', sm: '1.1rem' },
-                  }}
-                >
-                  Footer Note
-                </Typography>
-              </Grid>
-
-              <Grid item xs={12}>
-                <Controller
-                  name="footerNote"
-                  control={control}
-                  render={({ field }) => (
-                    <TextField
-                      {...field}
-                      label="Footer Note"
-                      fullWidth
-                      multiline
-                      rows={4}
-                      error={!!errors.footerNote}
-                      helperText={errors.footerNote?.message || 'Text displayed at the bottom of the invoice'}
-                      placeholder="e.g., Thank you for your business!"
+                  {/* Action Buttons */}
+                  <Grid item xs={12}>
+                    <Divider sx={{ my: 2 }} />
+                    <Box
                       sx={{
-                        '& .MuiOutlinedInput-root': {
-                          '&:hover fieldset': {
+                        display: 'flex',
+                        flexDirection: { xs: 'column', sm: 'row' },
+                        justifyContent: 'flex-end',
+                        gap: 2,
+                        mt: 2,
+                      }}
+                    >
+                      <Button
+                        type="button"
+                        variant="outlined"
+                        onClick={() => reset()}
+                        disabled={!isDirty || updateMutation.isPending}
+                        fullWidth={isMobile}
+                        sx={{
+                          borderColor: '#5e3b63',
+                          color: '#5e3b63',
+                          textTransform: 'none',
+                          px: { xs: 2, sm: 3 },
+                          py: { xs: 1.25, sm: 1 },
+                          fontSize: { xs: '0.875rem', sm: '0.95rem' },
+                          fontWeight: 600,
+                          '&:hover': {
                             borderColor: '#5e3b63',
+                            backgroundColor: 'rgba(94, 59, 99, 0.08)',
                           },
-                          '&.Mui-focused fieldset': {
-                            borderColor: '#5e3b63',
+                        }}
+                      >
+                        Reset
+                      </Button>
+                      <Button
+                        type="submit"
+                        variant="contained"
+                        disabled={!isDirty || updateMutation.isPending}
+                        fullWidth={isMobile}
+                        sx={{
+                          backgroundColor: '#5e3b63',
+                          color: '#ffffff',
+                          textTransform: 'none',
+                          px: { xs: 2, sm: 3 },
+                          py: { xs: 1.25, sm: 1 },
+                          fontSize: { xs: '0.875rem', sm: '0.95rem' },
+                          fontWeight: 600,
+                          '&:hover': {
+                            backgroundColor: '#4a2d4f',
                           },
-                        },
-                        '& .MuiInputLabel-root.Mui-focused': {
-                          color: '#5e3b63',
-                        },
-                      }}
-                    />
-                  )}
-                />
-              </Grid>
-
-              {/* Terms & Conditions Section */}
-              <Grid item xs={12}>
-                <Divider sx={{ my: 2 }} />
+                          '&:disabled': {
+                            backgroundColor: '#cccccc',
+                            color: '#666666',
+                          },
+                        }}
+                      >
+                        {updateMutation.isPending ? (
+                          <CircularProgress size={20} sx={{ color: '#ffffff' }} />
+                        ) : (
+                          'Save'
+                        )}
+                      </Button>
+                    </Box>
+                  </Grid>
+                </Grid>
+              </form>
+            </CardContent>
+          </Card>
+        </Grid>
+        <Grid size={{ xs: 12, xl: 6 }}>
+          <Card
+            elevation={0}
+            sx={{
+              border: '1px solid #e0e0e0',
+              borderRadius: 2,
+            }}
+          >
+            <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+              <Box
+                sx={{
+                  display: 'flex',
+                  flexDirection: { xs: 'column', sm: 'row' },
+                  justifyContent: 'space-between',
+                  alignItems: { xs: 'flex-start', sm: 'center' },
+                  gap: 1.5,
+                  mb: 2,
+                }}
+              >
                 <Typography
                   variant="h6"
                   component="h3"
                   sx={{
                     color: '#0d0421',
                     fontWeight: 600,
-                    mb: 2,
                     fontSize: { xs: '1rem', sm: '1.1rem' },
                   }}
                 >
-                  Terms & Conditions
+                  Preview: {previewTemplate.label}
                 </Typography>
-              </Grid>
-
-              <Grid item xs={12}>
-                <Controller
-                  name="terms"
-                  control={control}
-                  render={({ field }) => (
-                    <TextField
-                      {...field}
-                      label="Terms & Conditions"
-                      fullWidth
-                      multiline
-                      rows={6}
-                      error={!!errors.terms}
-                      helperText={errors.terms?.message || 'Terms and conditions displayed on the invoice'}
-                      placeholder="e.g., Payment is due within the specified number of days..."
-                      sx={{
-                        '& .MuiOutlinedInput-root': {
-                          '&:hover fieldset': {
-                            borderColor: '#5e3b63',
-                          },
-                          '&.Mui-focused fieldset': {
-                            borderColor: '#5e3b63',
-                          },
-                        },
-                        '& .MuiInputLabel-root.Mui-focused': {
-                          color: '#5e3b63',
-                        },
-                      }}
-                    />
-                  )}
-                />
-              </Grid>
-
-              {/* Action Buttons */}
-              <Grid item xs={12}>
-                <Divider sx={{ my: 2 }} />
-                <Box
-                  sx={{
-                    display: 'flex',
-                    flexDirection: { xs: 'column', sm: 'row' },
-                    justifyContent: 'flex-end',
-                    gap: 2,
-                    mt: 2,
-                  }}
+                <ToggleButtonGroup
+                  exclusive
+                  size="small"
+                  value={previewType}
+                  onChange={(_event, value: InvoiceDocumentType | null) => value && setPreviewType(value)}
                 >
-                  <Button
-                    type="button"
-                    variant="outlined"
-                    onClick={() => reset()}
-                    disabled={!isDirty || updateMutation.isPending}
-                    fullWidth={isMobile}
-                    sx={{
-                      borderColor: '#5e3b63',
-                      color: '#5e3b63',
-                      textTransform: 'none',
-                      px: { xs: 2, sm: 3 },
-                      py: { xs: 1.25, sm: 1 },
-                      fontSize: { xs: '0.875rem', sm: '0.95rem' },
-                      fontWeight: 600,
-                      '&:hover': {
-                        borderColor: '#5e3b63',
-                        backgroundColor: 'rgba(94, 59, 99, 0.08)',
-                      },
-                    }}
-                  >
-                    Reset
-                  </Button>
-                  <Button
-                    type="submit"
-                    variant="contained"
-                    disabled={!isDirty || updateMutation.isPending}
-                    fullWidth={isMobile}
-                    sx={{
-                      backgroundColor: '#5e3b63',
-                      color: '#ffffff',
-                      textTransform: 'none',
-                      px: { xs: 2, sm: 3 },
-                      py: { xs: 1.25, sm: 1 },
-                      fontSize: { xs: '0.875rem', sm: '0.95rem' },
-                      fontWeight: 600,
-                      '&:hover': {
-                        backgroundColor: '#4a2d4f',
-                      },
-                      '&:disabled': {
-                        backgroundColor: '#cccccc',
-                        color: '#666666',
-                      },
-                    }}
-                  >
-                    {updateMutation.isPending ? (
-                      <CircularProgress size={20} sx={{ color: '#ffffff' }} />
-                    ) : (
-                      'Save'
-                    )}
-                  </Button>
+                  {INVOICE_DOCUMENT_TYPES.map((documentType) => (
+                    <ToggleButton key={documentType.value} value={documentType.value} sx={{ textTransform: 'none' }}>
+                      {documentType.label}
+                    </ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+              </Box>
+              <Box
+                sx={{
+                  backgroundColor: '#f5f5f5',
+                  p: 2,
+                  borderRadius: 1,
+                  overflow: 'auto',
+                  maxHeight: 900,
+                }}
+              >
+                <Box sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.15)', width: 'fit-content', mx: 'auto' }}>
+                  <InvoicePrint
+                    template={previewTemplate}
+                    invoice={previewInvoice}
+                    invoiceConfig={previewConfig}
+                    generalConfig={generalConfig}
+                    taxConfig={taxConfig}
+                    decimals={pricingOptions?.decimalPrecision}
+                  />
                 </Box>
-              </Grid>
-            </Grid>
-          </form>
-        </CardContent>
-      </Card>
+              </Box>
+            </CardContent>
+          </Card>
+        </Grid>
+      </Grid>
 
       {/* Success/Error Snackbar */}
       <Snackbar
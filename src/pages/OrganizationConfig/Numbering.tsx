@@ -19,25 +19,59 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { getNumberingConfig, updateNumberingConfig, type NumberingConfig } from '../../api/config';
+import { VOUCHER_TYPES, type VoucherType } from '../../api/accounting';
+import { formatDocumentNumber, DEFAULT_START_FROM } from '../../utils/numbering';
+
+const startNumberSchema = z
+  .string()
+  .optional()
+  .refine(
+    (val) => {
+      if (!val || val === '') return true;
+      const num = parseInt(val, 10);
+      return !isNaN(num) && num >= 0;
+    },
+    { message: 'Start number must be a positive number' }
+  );
 
 const numberingConfigSchema = z.object({
   invoicePrefix: z.string().optional(),
-  startFrom: z
-    .string()
-    .optional()
-    .refine(
-      (val) => {
-        if (!val || val === '') return true;
-        const num = parseInt(val, 10);
-        return !isNaN(num) && num >= 0;
-      },
-      { message: 'Start number must be a positive number' }
-    ),
+  startFrom: startNumberSchema,
   customerPrefix: z.string().optional(),
+  memoPrefix: z.string().optional(),
+  memoStartFrom: startNumberSchema,
+  journalVoucherPrefix: z.string().optional(),
+  journalVoucherStartFrom: startNumberSchema,
+  paymentVoucherPrefix: z.string().optional(),
+  paymentVoucherStartFrom: startNumberSchema,
+  receiptVoucherPrefix: z.string().optional(),
+  receiptVoucherStartFrom: startNumberSchema,
+  contraVoucherPrefix: z.string().optional(),
+  contraVoucherStartFrom: startNumberSchema,
 });
 
 type NumberingConfigFormData = z.infer<typeof numberingConfigSchema>;
 
+/** Form fields of a voucher type's series, e.g. journalVoucherPrefix and journalVoucherStartFrom */
+const voucherSeriesFields = (type: VoucherType) => ({
+  prefix: `${type}VoucherPrefix` as const,
+  startFrom: `${type}VoucherStartFrom` as const,
+});
+
+const textFieldSx = {
+  '& .MuiOutlinedInput-root': {
+    '&:hover fieldset': {
+      borderColor: '#5e3b63',
+    },
+    '&.Mui-focused fieldset': {
+      borderColor: '#5e3b63',
+    },
+  },
+  '& .MuiInputLabel-root.Mui-focused': {
+    color: '#5e3b63',
+  },
+};
+
 export function Numbering() {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
@@ -80,23 +114,43 @@ export function Numbering() {
       invoicePrefix: '',
       startFrom: '',
       customerPrefix: '',
+      memoPrefix: '',
+      memoStartFrom: '',
+      journalVoucherPrefix: '',
+      journalVoucherStartFrom: '',
+      paymentVoucherPrefix: '',
+      paymentVoucherStartFrom: '',
+      receiptVoucherPrefix: '',
+      receiptVoucherStartFrom: '',
+      contraVoucherPrefix: '',
+      contraVoucherStartFrom: '',
     },
   });
 
   // Watch fields for live preview
   const invoicePrefix = watch('invoicePrefix') || '';
   const startFrom = watch('startFrom') || '';
+  const memoPrefix = watch('memoPrefix') || '';
+  const memoStartFrom = watch('memoStartFrom') || '';
 
   // Generate preview
   const preview = useMemo(() => {
-    const prefix = invoicePrefix.trim() || 'INV';
-    const number = startFrom.trim() ? parseInt(startFrom, 10) : 10001;
-    if (isNaN(number)) {
-      return `${prefix}-10001`;
-    }
-    return `${prefix}-${number}`;
+    const number = startFrom.trim() ? parseInt(startFrom, 10) : DEFAULT_START_FROM;
+    return formatDocumentNumber(invoicePrefix, isNaN(number) ? DEFAULT_START_FROM : number, 'INV');
   }, [invoicePrefix, startFrom]);
 
+  const memoPreview = useMemo(() => {
+    const number = memoStartFrom.trim() ? parseInt(memoStartFrom, 10) : DEFAULT_START_FROM;
+    return formatDocumentNumber(memoPrefix, isNaN(number) ? DEFAULT_START_FROM : number, 'APM');
+  }, [memoPrefix, memoStartFrom]);
+
+  const voucherPreview = (type: VoucherType, fallbackPrefix: string) => {
+    const fields = voucherSeriesFields(type);
+    const start = watch(fields.startFrom) || '';
+    const number = start.trim() ? parseInt(start, 10) : DEFAULT_START_FROM;
+    return formatDocumentNumber(watch(fields.prefix), isNaN(number) ? DEFAULT_START_FROM : number, fallbackPrefix);
+  };
+
   // Reset form when config data is loaded
   useEffect(() => {
     if (config) {
@@ -104,6 +158,17 @@ export function Numbering() {
         invoicePrefix: config.invoicePrefix || '',
         startFrom: config.startFrom?.toString() || '',
         customerPrefix: config.customerPrefix || '',
+        memoPrefix: config.memoPrefix || '',
+        memoStartFrom: config.memoStartFrom?.toString() || '',
+        ...Object.fromEntries(
+          VOUCHER_TYPES.flatMap(({ value }) => {
+            const fields = voucherSeriesFields(value);
+            return [
+              [fields.prefix, config[fields.prefix] || ''],
+              [fields.startFrom, config[fields.startFrom]?.toString() || ''],
+            ];
+          })
+        ),
       });
     }
   }, [config, reset]);
@@ -112,6 +177,13 @@ export function Numbering() {
     const submitData = {
       ...data,
       startFrom: data.startFrom ? parseInt(data.startFrom, 10) : undefined,
+      memoStartFrom: data.memoStartFrom ? parseInt(data.memoStartFrom, 10) : undefined,
+      ...Object.fromEntries(
+        VOUCHER_TYPES.map(({ value }) => {
+          const { startFrom: field } = voucherSeriesFields(value);
+          return [field, data[field] ? parseInt(data[field], 10) : undefined];
+        })
+      ),
     };
     updateMutation.mutate(submitData);
   };
@@ -338,6 +410,201 @@ export function Numbering() {
                 />
               </Grid>
 
+              {/* Approval Memo Numbering Section */}
+              <Grid size={12}>
+                <Typography
+                  variant="h6"
+                  component="h3"
+                  sx={{
+                    color: '#0d0421',
+                    fontWeight: 600,
+                    mb: 2,
+                    mt: 2,
+                    fontSize: { xs: '1rem', sm: '1.1rem' },
+                  }}
+                >
+                  Approval Memo Numbering
+                </Typography>
+              </Grid>
+
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <Controller
+                  name="memoPrefix"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      label="Memo Prefix"
+                      fullWidth
+                      error={!!errors.memoPrefix}
+                      helperText={errors.memoPrefix?.message || 'Prefix for approval memo numbers (e.g., APM, MEMO)'}
+                      placeholder="APM"
+                      sx={{
+                        '& .MuiOutlinedInput-root': {
+                          '&:hover fieldset': {
+                            borderColor: '#5e3b63',
+                          },
+                          '&.Mui-focused fieldset': {
+                            borderColor: '#5e3b63',
+                          },
+                        },
+                        '& .MuiInputLabel-root.Mui-focused': {
+                          color: '#5e3b63',
+                        },
+                      }}
+                    />
+                  )}
+                />
+              </Grid>
+
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <Controller
+                  name="memoStartFrom"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      label="Start From"
+                      type="number"
+                      fullWidth
+                      error={!!errors.memoStartFrom}
+                      helperText={errors.memoStartFrom?.message || 'Starting number for approval memos'}
+                      InputProps={{
+                        inputProps: { min: 0 },
+                      }}
+                      sx={{
+                        '& .MuiOutlinedInput-root': {
+                          '&:hover fieldset': {
+                            borderColor: '#5e3b63',
+                          },
+                          '&.Mui-focused fieldset': {
+                            borderColor: '#5e3b63',
+                          },
+                        },
+                        '& .MuiInputLabel-root.Mui-focused': {
+                          color: '#5e3b63',
+                        },
+                      }}
+                    />
+                  )}
+                />
+              </Grid>
+
+              <Grid size={12}>
+                <Paper
+                  elevation={0}
+                  sx={{
+                    p: 2,
+                    backgroundColor: '#f5f5f5',
+                    border: '1px solid #e0e0e0',
+                    borderRadius: 1,
+                  }}
+                >
+                  <Typography
+                    variant="body2"
+                    sx={{
+                      color: '#666666',
+                      mb: 1,
+                      fontWeight: 500,
+                    }}
+                  >
+                    Preview:
+                  </Typography>
+                  <Typography
+                    variant="h6"
+                    sx={{
+                      color: '#5e3b63',
+                      fontWeight: 600,
+                      fontFamily: 'monospace',
+                      fontSize: { xs: '1.25rem', sm: '1.5rem' },
+                    }}
+                  >
+                    {memoPreview}
+                  </Typography>
+                </Paper>
+              </Grid>
+
+              {/* Voucher Numbering Section */}
+              <Grid size={12}>
+                <Typography
+                  variant="h6"
+                  component="h3"
+                  sx={{
+                    color: '#0d0421',
+                    fontWeight: 600,
+                    mt: 2,
+                    fontSize: { xs: '1rem', sm: '1.1rem' },
+                  }}
+                >
+                  Voucher Numbering
+                </Typography>
+                <Typography variant="body2" sx={{ color: '#666666' }}>
+                  Each voucher type has its own series. Vouchers posted from invoices and bills use the same series.
+                </Typography>
+              </Grid>
+
+              {VOUCHER_TYPES.map(({ value, label, fallbackPrefix }) => {
+                const fields = voucherSeriesFields(value);
+                return (
+                  <Grid key={value} size={12} container spacing={2} sx={{ alignItems: 'center' }}>
+                    <Grid size={{ xs: 12, sm: 4 }}>
+                      <Controller
+                        name={fields.prefix}
+                        control={control}
+                        render={({ field }) => (
+                          <TextField
+                            {...field}
+                            label={`${label} Prefix`}
+                            fullWidth
+                            error={!!errors[fields.prefix]}
+                            helperText={errors[fields.prefix]?.message}
+                            placeholder={fallbackPrefix}
+                            sx={textFieldSx}
+                          />
+                        )}
+                      />
+                    </Grid>
+                    <Grid size={{ xs: 12, sm: 4 }}>
+                      <Controller
+                        name={fields.startFrom}
+                        control={control}
+                        render={({ field }) => (
+                          <TextField
+                            {...field}
+                            label="Start From"
+                            type="number"
+                            fullWidth
+                            error={!!errors[fields.startFrom]}
+                            helperText={errors[fields.startFrom]?.message}
+                            slotProps={{ htmlInput: { min: 0 } }}
+                            sx={textFieldSx}
+                          />
+                        )}
+                      />
+                    </Grid>
+                    <Grid size={{ xs: 12, sm: 4 }}>
+                      <Paper
+                        elevation={0}
+                        sx={{
+                          px: 2,
+                          py: 1,
+                          backgroundColor: '#f5f5f5',
+                          border: '1px solid #e0e0e0',
+                          borderRadius: 1,
+                        }}
+                      >
+                        <Typography variant="body2" sx={{ color: '#666666', fontWeight: 500 }}>
+                          Preview:
+                        </Typography>
+                        <Typography sx={{ color: '#5e3b63', fontWeight: 600, fontFamily: 'monospace' }}>
+                          {voucherPreview(value, fallbackPrefix)}
+                        </Typography>
+                      </Paper>
+                    </Grid>
+                  </Grid>
+                );
+              })}
+
               {/* Action Buttons */}
               <Grid item xs={12}>
                 <Box
@@ -12,38 +12,164 @@ import {
   Alert,
   Switch,
   FormControlLabel,
-  RadioGroup,
-  Radio,
-  FormControl,
-  FormLabel,
+  IconButton,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
   useMediaQuery,
   useTheme,
 } from '@mui/material';
-import { useForm, Controller } from 'react-hook-form';
+import { Add, Delete } from '@mui/icons-material';
+import { useForm, Controller, useFieldArray, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getTaxConfig, updateTaxConfig, type TaxConfig } from '../../api/config';
-
-const taxConfigSchema = z.object({
-  taxEnabled: z.boolean(),
-  defaultTaxPercent: z
-    .string()
-    .optional()
-    .refine(
-      (val) => {
-        if (!val || val === '') return true;
-        const num = parseFloat(val);
-        return !isNaN(num) && num >= 0 && num <= 100;
-      },
-      { message: 'Tax percentage must be between 0 and 100' }
-    ),
-  taxNumber: z.string().optional(),
-  taxType: z.enum(['inclusive', 'exclusive']).optional(),
+import { WITHHOLDING_BASES, getTaxConfig, updateTaxConfig, type TaxConfig } from '../../api/config';
+import { EINVOICE_ADAPTERS, getEInvoiceAdapter } from '../../api/eInvoice';
+import { DEFAULT_GST_RATES, GST_STATES, getGstinStateCode, isValidGstin, resolveHomeState } from '../../utils/gst';
+import {
+  DEFAULT_CASH_RECEIPT_LIMIT,
+  DEFAULT_WITHHOLDING_SECTIONS,
+  getWithholdingKind,
+} from '../../utils/withholding';
+
+const percentField = z.string().refine(
+  (val) => {
+    const num = parseFloat(val);
+    return !isNaN(num) && num >= 0 && num <= 100;
+  },
+  { message: 'Rate must be between 0 and 100' }
+);
+
+const amountField = z.string().refine(
+  (val) => {
+    const num = parseFloat(val);
+    return !isNaN(num) && num >= 0;
+  },
+  { message: 'Enter an amount' }
+);
+
+const taxRateSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required'),
+  description: z.string(),
+  ratePercent: percentField,
 });
 
+const withholdingSectionSchema = z.object({
+  section: z.string().trim().min(1, 'Section is required'),
+  description: z.string(),
+  basis: z.enum(['cash_sale', 'sale', 'purchase']),
+  threshold: amountField,
+  ratePercent: percentField,
+  ratePercentWithoutPan: percentField,
+});
+
+const taxConfigSchema = z
+  .object({
+    taxEnabled: z.boolean(),
+    taxNumber: z
+      .string()
+      .refine((val) => !val || isValidGstin(val), { message: 'Enter a 15-character GSTIN' }),
+    stateCode: z.string(),
+    rates: z.array(taxRateSchema),
+    goodsTaxCode: z.string(),
+    makingTaxCode: z.string(),
+    eInvoiceEnabled: z.boolean(),
+    eInvoiceAdapter: z.enum(['irp', 'stub']),
+    withholdingSections: z.array(withholdingSectionSchema),
+    cashReceiptLimit: amountField,
+  })
+  .superRefine((data, ctx) => {
+    const seen = new Set<string>();
+    data.rates.forEach((rate, index) => {
+      const code = rate.code.trim();
+      if (code && seen.has(code)) {
+        ctx.addIssue({ code: 'custom', path: ['rates', index, 'code'], message: 'Code is already in the table' });
+      }
+      seen.add(code);
+    });
+    if (!data.taxEnabled) return;
+    if (!data.stateCode) {
+      ctx.addIssue({ code: 'custom', path: ['stateCode'], message: 'Select the state you are registered in' });
+    }
+    const gstinState = getGstinStateCode(data.taxNumber);
+    if (gstinState && data.stateCode && gstinState !== data.stateCode) {
+      ctx.addIssue({ code: 'custom', path: ['stateCode'], message: `GSTIN is registered in state ${gstinState}` });
+    }
+    if (!seen.has(data.goodsTaxCode)) {
+      ctx.addIssue({ code: 'custom', path: ['goodsTaxCode'], message: 'Pick a code from the rate table' });
+    }
+    if (data.eInvoiceEnabled && !data.taxNumber) {
+      ctx.addIssue({ code: 'custom', path: ['taxNumber'], message: 'E-invoicing needs the GSTIN' });
+    }
+  });
+
 type TaxConfigFormData = z.infer<typeof taxConfigSchema>;
 
+const fieldSx = {
+  '& .MuiOutlinedInput-root': {
+    '&:hover fieldset': {
+      borderColor: '#5e3b63',
+    },
+    '&.Mui-focused fieldset': {
+      borderColor: '#5e3b63',
+    },
+    '&.Mui-disabled': {
+      backgroundColor: '#f5f5f5',
+    },
+  },
+  '& .MuiInputLabel-root.Mui-focused': {
+    color: '#5e3b63',
+  },
+};
+
+const sectionTitleSx = {
+  color: '#0d0421',
+  fontWeight: 600,
+  fontSize: { xs: '1rem', sm: '1.1rem' },
+};
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const toFormData = (config: TaxConfig | undefined): TaxConfigFormData => {
+  const rates = config?.rates?.length ? config.rates : DEFAULT_GST_RATES;
+  return {
+    taxEnabled: config?.taxEnabled ?? false,
+    taxNumber: config?.taxNumber || '',
+    stateCode: resolveHomeState(config, config?.taxNumber) ?? '',
+    rates: rates.map((rate) => ({
+      code: rate.code,
+      description: rate.description,
+      ratePercent: rate.ratePercent.toString(),
+    })),
+    goodsTaxCode: config?.goodsTaxCode || '7113',
+    makingTaxCode: config?.makingTaxCode ?? (config?.rates?.length ? '' : '9988'),
+    eInvoiceEnabled: config?.eInvoiceEnabled ?? false,
+    eInvoiceAdapter: getEInvoiceAdapter(config?.eInvoiceAdapter).id,
+    withholdingSections: (config?.withholdingSections ?? DEFAULT_WITHHOLDING_SECTIONS).map((section) => ({
+      ...section,
+      threshold: section.threshold.toString(),
+      ratePercent: section.ratePercent.toString(),
+      ratePercentWithoutPan: section.ratePercentWithoutPan.toString(),
+    })),
+    cashReceiptLimit: (config?.cashReceiptLimit ?? DEFAULT_CASH_RECEIPT_LIMIT).toString(),
+  };
+};
+
+/**
+ * GST settings: registration, the HSN/SAC rate table and which codes
+ * jewellery and making charges are billed under. Also the TCS/TDS sections
+ * and the daily cash receipt limit.
+ */
 export function Tax() {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
@@ -62,7 +188,7 @@ export function Tax() {
   const updateMutation = useMutation({
     mutationFn: updateTaxConfig,
     onSuccess: () => {
-      queryClient.invalidateQueries(['config', 'tax']);
+      queryClient.invalidateQueries({ queryKey: ['config', 'tax'] });
       setSnackbarMessage('Tax configuration saved successfully!');
       setSnackbarSeverity('success');
       setSnackbarOpen(true);
@@ -79,39 +205,72 @@ export function Tax() {
     handleSubmit,
     formState: { errors, isDirty },
     reset,
-    watch,
   } = useForm<TaxConfigFormData>({
     resolver: zodResolver(taxConfigSchema),
-    defaultValues: {
-      taxEnabled: false,
-      defaultTaxPercent: '',
-      taxNumber: '',
-      taxType: 'inclusive',
-    },
+    defaultValues: toFormData(undefined),
   });
 
-  const taxEnabled = watch('taxEnabled');
+  const { fields, append, remove } = useFieldArray({ control, name: 'rates' });
+  const {
+    fields: sectionFields,
+    append: appendSection,
+    remove: removeSection,
+  } = useFieldArray({ control, name: 'withholdingSections' });
+  const taxEnabled = useWatch({ control, name: 'taxEnabled' });
+  const rates = useWatch({ control, name: 'rates' });
+  const codes = rates.map((rate) => rate.code.trim()).filter(Boolean);
 
   // Reset form when config data is loaded
   useEffect(() => {
     if (config) {
-      reset({
-        taxEnabled: config.taxEnabled ?? false,
-        defaultTaxPercent: config.defaultTaxPercent?.toString() || '',
-        taxNumber: config.taxNumber || '',
-        taxType: config.taxType || 'inclusive',
-      });
+      reset(toFormData(config));
     }
   }, [config, reset]);
 
   const onSubmit = (data: TaxConfigFormData) => {
-    const submitData = {
+    updateMutation.mutate({
       ...data,
-      defaultTaxPercent: data.defaultTaxPercent ? parseFloat(data.defaultTaxPercent) : undefined,
-    };
-    updateMutation.mutate(submitData);
+      rates: data.rates.map((rate) => ({
+        code: rate.code.trim(),
+        description: rate.description.trim(),
+        ratePercent: parseFloat(rate.ratePercent),
+      })),
+      withholdingSections: data.withholdingSections.map((section) => ({
+        section: section.section.trim(),
+        description: section.description.trim(),
+        basis: section.basis,
+        threshold: parseFloat(section.threshold),
+        ratePercent: parseFloat(section.ratePercent),
+        ratePercentWithoutPan: parseFloat(section.ratePercentWithoutPan),
+      })),
+      cashReceiptLimit: parseFloat(data.cashReceiptLimit),
+    });
   };
 
+  const sectionCell = (
+    index: number,
+    name: 'section' | 'description' | 'threshold' | 'ratePercent' | 'ratePercentWithoutPan',
+    width?: number
+  ) => (
+    <TableCell sx={width ? { width } : undefined}>
+      <Controller
+        name={`withholdingSections.${index}.${name}`}
+        control={control}
+        render={({ field }) => (
+          <TextField
+            {...field}
+            size="small"
+            fullWidth
+            type={name === 'section' || name === 'description' ? 'text' : 'number'}
+            error={!!errors.withholdingSections?.[index]?.[name]}
+            helperText={errors.withholdingSections?.[index]?.[name]?.message}
+            sx={fieldSx}
+          />
+        )}
+      />
+    </TableCell>
+  );
+
   const handleCloseSnackbar = () => {
     setSnackbarOpen(false);
   };
@@ -135,9 +294,9 @@ export function Tax() {
     <Box>
       {/* Error Alert */}
       {error && (
-        <Alert 
-          severity="error" 
-          sx={{ 
+        <Alert
+          severity="error"
+          sx={{
             mb: 3,
             '& .MuiAlert-message': {
               fontSize: { xs: '0.875rem', sm: '0.95rem' },
@@ -145,9 +304,7 @@ export function Tax() {
           }}
           onClose={() => {}}
         >
-          {error instanceof Error 
-            ? error.message 
-            : 'Failed to load tax configuration. Please try again.'}
+          {error instanceof Error ? error.message : 'Failed to load tax configuration. Please try again.'}
         </Alert>
       )}
       <Typography
@@ -174,7 +331,7 @@ export function Tax() {
           <form onSubmit={handleSubmit(onSubmit)}>
             <Grid container spacing={3}>
               {/* Tax Enabled Switch */}
-              <Grid item xs={12}>
+              <Grid size={12}>
                 <Controller
                   name="taxEnabled"
                   control={control}
@@ -202,7 +359,7 @@ export function Tax() {
                             fontSize: '1rem',
                           }}
                         >
-                          Enable Tax
+                          Charge GST
                         </Typography>
                       }
                     />
@@ -210,157 +367,369 @@ export function Tax() {
                 />
               </Grid>
 
-              {/* Default Tax Percent */}
-              <Grid item xs={12} sm={6}>
+              {/* Registration */}
+              <Grid size={{ xs: 12, sm: 6 }}>
                 <Controller
-                  name="defaultTaxPercent"
+                  name="taxNumber"
                   control={control}
                   render={({ field }) => (
                     <TextField
                       {...field}
-                      label="Default Tax Percentage"
-                      type="number"
+                      onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      label="GSTIN"
                       fullWidth
                       disabled={!taxEnabled}
-                      error={!!errors.defaultTaxPercent}
-                      helperText={errors.defaultTaxPercent?.message || 'Enter percentage (0-100)'}
-                      InputProps={{
-                        endAdornment: <Typography sx={{ color: '#666666' }}>%</Typography>,
-                      }}
-                      sx={{
-                        '& .MuiOutlinedInput-root': {
-                          '&:hover fieldset': {
-                            borderColor: '#5e3b63',
-                          },
-                          '&.Mui-focused fieldset': {
-                            borderColor: '#5e3b63',
-                          },
-                          '&.Mui-disabled': {
-                            backgroundColor: '#f5f5f5',
-                          },
-                        },
-                        '& .MuiInputLabel-root.Mui-focused': {
-                          color: '#5e3b63',
-                        },
-                      }}
+                      error={!!errors.taxNumber}
+                      helperText={errors.taxNumber?.message || 'Printed on every tax invoice'}
+                      placeholder="29ABCDE1234F1Z5"
+                      sx={fieldSx}
                     />
                   )}
                 />
               </Grid>
 
-              {/* Tax Number */}
-              <Grid item xs={12} sm={6}>
+              <Grid size={{ xs: 12, sm: 6 }}>
                 <Controller
-                  name="taxNumber"
+                  name="stateCode"
                   control={control}
                   render={({ field }) => (
                     <TextField
                       {...field}
-                      label="Tax Number"
+                      select
+                      label="Registered State"
                       fullWidth
                       disabled={!taxEnabled}
-                      error={!!errors.taxNumber}
-                      helperText={errors.taxNumber?.message}
-                      placeholder="e.g., GSTIN, VAT Number"
-                      sx={{
-                        '& .MuiOutlinedInput-root': {
-                          '&:hover fieldset': {
-                            borderColor: '#5e3b63',
-                          },
-                          '&.Mui-focused fieldset': {
-                            borderColor: '#5e3b63',
-                          },
-                          '&.Mui-disabled': {
-                            backgroundColor: '#f5f5f5',
-                          },
-                        },
-                        '& .MuiInputLabel-root.Mui-focused': {
-                          color: '#5e3b63',
-                        },
-                      }}
-                    />
+                      error={!!errors.stateCode}
+                      helperText={
+                        errors.stateCode?.message ||
+                        'Sales with a place of supply in this state carry CGST + SGST, others IGST'
+                      }
+                      sx={fieldSx}
+                    >
+                      {GST_STATES.map((state) => (
+                        <MenuItem key={state.code} value={state.code}>
+                          {state.code} - {state.name}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  )}
+                />
+              </Grid>
+
+              {/* Rate table */}
+              <Grid size={12}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    GST Rates
+                  </Typography>
+                  <Button
+                    size="small"
+                    startIcon={<Add />}
+                    disabled={!taxEnabled}
+                    onClick={() => append({ code: '', description: '', ratePercent: '' })}
+                    sx={{ color: '#5e3b63', textTransform: 'none', fontWeight: 600 }}
+                  >
+                    Add Rate
+                  </Button>
+                </Box>
+                <TableContainer sx={{ overflowX: 'auto', border: '1px solid #e0e0e0', borderRadius: 1 }}>
+                  <Table size="small" sx={{ minWidth: 560 }}>
+                    <TableHead>
+                      <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                        <TableCell sx={headCellSx}>HSN/SAC Code</TableCell>
+                        <TableCell sx={headCellSx}>Description</TableCell>
+                        <TableCell sx={headCellSx}>Rate (%)</TableCell>
+                        <TableCell sx={headCellSx} />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {fields.map((rateField, index) => (
+                        <TableRow key={rateField.id}>
+                          <TableCell sx={{ width: 160 }}>
+                            <Controller
+                              name={`rates.${index}.code`}
+                              control={control}
+                              render={({ field }) => (
+                                <TextField
+                                  {...field}
+                                  size="small"
+                                  fullWidth
+                                  disabled={!taxEnabled}
+                                  error={!!errors.rates?.[index]?.code}
+                                  helperText={errors.rates?.[index]?.code?.message}
+                                  sx={fieldSx}
+                                />
+                              )}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Controller
+                              name={`rates.${index}.description`}
+                              control={control}
+                              render={({ field }) => (
+                                <TextField {...field} size="small" fullWidth disabled={!taxEnabled} sx={fieldSx} />
+                              )}
+                            />
+                          </TableCell>
+                          <TableCell sx={{ width: 130 }}>
+                            <Controller
+                              name={`rates.${index}.ratePercent`}
+                              control={control}
+                              render={({ field }) => (
+                                <TextField
+                                  {...field}
+                                  size="small"
+                                  type="number"
+                                  fullWidth
+                                  disabled={!taxEnabled}
+                                  error={!!errors.rates?.[index]?.ratePercent}
+                                  helperText={errors.rates?.[index]?.ratePercent?.message}
+                                  slotProps={{ htmlInput: { min: 0, max: 100, step: '0.01' } }}
+                                  sx={fieldSx}
+                                />
+                              )}
+                            />
+                          </TableCell>
+                          <TableCell align="right" sx={{ width: 56 }}>
+                            <IconButton
+                              size="small"
+                              aria-label="Remove rate"
+                              disabled={!taxEnabled}
+                              onClick={() => remove(index)}
+                              sx={{ color: '#d32f2f' }}
+                            >
+                              <Delete fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Grid>
+
+              {/* Codes used at billing */}
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <Controller
+                  name="goodsTaxCode"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      select
+                      label="Jewellery Code"
+                      fullWidth
+                      disabled={!taxEnabled}
+                      error={!!errors.goodsTaxCode}
+                      helperText={
+                        errors.goodsTaxCode?.message || 'Metal, wastage and stone value are taxed at this rate'
+                      }
+                      sx={fieldSx}
+                    >
+                      {codes.map((code) => (
+                        <MenuItem key={code} value={code}>
+                          {code}
+                        </MenuItem>
+                      ))}
+                    </TextField>
                   )}
                 />
               </Grid>
 
-              {/* Tax Type Radio Buttons */}
-              <Grid item xs={12}>
+              <Grid size={{ xs: 12, sm: 6 }}>
                 <Controller
-                  name="taxType"
+                  name="makingTaxCode"
                   control={control}
                   render={({ field }) => (
-                    <FormControl
-                      component="fieldset"
+                    <TextField
+                      {...field}
+                      select
+                      label="Making Charges Code"
+                      fullWidth
                       disabled={!taxEnabled}
-                      error={!!errors.taxType}
+                      helperText="Making charges are taxed at this rate; leave blank to tax them with the jewellery"
+                      sx={fieldSx}
                     >
-                      <FormLabel
-                        component="legend"
-                        sx={{
-                          color: taxEnabled ? '#000000' : '#999999',
-                          fontWeight: 500,
-                          mb: 1,
-                        }}
-                      >
-                        Tax Type
-                      </FormLabel>
-                      <RadioGroup
-                        {...field}
-                        row
-                        sx={{
-                          '& .MuiRadio-root': {
-                            color: '#5e3b63',
-                            '&.Mui-checked': {
+                      <MenuItem value="">Same as jewellery</MenuItem>
+                      {codes.map((code) => (
+                        <MenuItem key={code} value={code}>
+                          {code}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  )}
+                />
+              </Grid>
+
+              {/* E-invoicing */}
+              <Grid size={12}>
+                <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                  E-Invoicing
+                </Typography>
+              </Grid>
+
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <Controller
+                  name="eInvoiceEnabled"
+                  control={control}
+                  render={({ field }) => (
+                    <FormControlLabel
+                      control={
+                        <Switch
+                          {...field}
+                          checked={field.value}
+                          disabled={!taxEnabled}
+                          sx={{
+                            '& .MuiSwitch-switchBase.Mui-checked': {
                               color: '#5e3b63',
                             },
-                            '&.Mui-disabled': {
-                              color: '#cccccc',
+                            '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': {
+                              backgroundColor: '#5e3b63',
                             },
-                          },
-                        }}
-                      >
-                        <FormControlLabel
-                          value="inclusive"
-                          control={<Radio />}
-                          label={
-                            <Typography
-                              sx={{
-                                color: taxEnabled ? '#000000' : '#999999',
-                              }}
-                            >
-                              Inclusive (Tax included in price)
-                            </Typography>
-                          }
+                          }}
                         />
-                        <FormControlLabel
-                          value="exclusive"
-                          control={<Radio />}
-                          label={
-                            <Typography
-                              sx={{
-                                color: taxEnabled ? '#000000' : '#999999',
-                              }}
+                      }
+                      label="Generate IRN for invoices to GST-registered customers"
+                    />
+                  )}
+                />
+              </Grid>
+
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <Controller
+                  name="eInvoiceAdapter"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      select
+                      label="Submit Through"
+                      fullWidth
+                      disabled={!taxEnabled || EINVOICE_ADAPTERS.length < 2}
+                      helperText={
+                        EINVOICE_ADAPTERS.length > 1
+                          ? 'Use the local stub to try e-invoicing without registering invoices on the portal'
+                          : undefined
+                      }
+                      sx={fieldSx}
+                    >
+                      {EINVOICE_ADAPTERS.map((adapter) => (
+                        <MenuItem key={adapter.id} value={adapter.id}>
+                          {adapter.label}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  )}
+                />
+              </Grid>
+
+              {/* TCS / TDS */}
+              <Grid size={12}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    TCS / TDS
+                  </Typography>
+                  <Button
+                    size="small"
+                    startIcon={<Add />}
+                    onClick={() =>
+                      appendSection({
+                        section: '',
+                        description: '',
+                        basis: 'sale',
+                        threshold: '',
+                        ratePercent: '',
+                        ratePercentWithoutPan: '',
+                      })
+                    }
+                    sx={{ color: '#5e3b63', textTransform: 'none', fontWeight: 600 }}
+                  >
+                    Add Section
+                  </Button>
+                </Box>
+                <Typography variant="body2" sx={{ color: '#666666', mb: 1.5 }}>
+                  TCS is collected on invoices and TDS held back on purchase bills once a threshold is crossed. Cash
+                  sale sections tax the whole cash receipt; the others tax the part of the party's financial-year
+                  total above the threshold. Only the first section that applies is charged. No TCS section is
+                  set up by default, as 206C(1H) no longer applies to sales from 1 April 2025; add one only if it
+                  applies to you.
+                </Typography>
+                <TableContainer sx={{ overflowX: 'auto', border: '1px solid #e0e0e0', borderRadius: 1 }}>
+                  <Table size="small" sx={{ minWidth: 900 }}>
+                    <TableHead>
+                      <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                        <TableCell sx={headCellSx}>Section</TableCell>
+                        <TableCell sx={headCellSx}>Description</TableCell>
+                        <TableCell sx={headCellSx}>Threshold On</TableCell>
+                        <TableCell sx={headCellSx}>Threshold</TableCell>
+                        <TableCell sx={headCellSx}>Rate (%)</TableCell>
+                        <TableCell sx={headCellSx}>Without PAN (%)</TableCell>
+                        <TableCell sx={headCellSx} />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {sectionFields.map((sectionField, index) => (
+                        <TableRow key={sectionField.id}>
+                          {sectionCell(index, 'section', 120)}
+                          {sectionCell(index, 'description')}
+                          <TableCell sx={{ width: 190 }}>
+                            <Controller
+                              name={`withholdingSections.${index}.basis`}
+                              control={control}
+                              render={({ field }) => (
+                                <TextField {...field} select size="small" fullWidth sx={fieldSx}>
+                                  {WITHHOLDING_BASES.map((basis) => (
+                                    <MenuItem key={basis.value} value={basis.value}>
+                                      {getWithholdingKind(basis.value)}: {basis.description}
+                                    </MenuItem>
+                                  ))}
+                                </TextField>
+                              )}
+                            />
+                          </TableCell>
+                          {sectionCell(index, 'threshold', 140)}
+                          {sectionCell(index, 'ratePercent', 100)}
+                          {sectionCell(index, 'ratePercentWithoutPan', 100)}
+                          <TableCell align="right" sx={{ width: 56 }}>
+                            <IconButton
+                              size="small"
+                              aria-label="Remove section"
+                              onClick={() => removeSection(index)}
+                              sx={{ color: '#d32f2f' }}
                             >
-                              Exclusive (Tax added to price)
-                            </Typography>
-                          }
-                        />
-                      </RadioGroup>
-                      {errors.taxType && (
-                        <Typography
-                          variant="caption"
-                          sx={{ color: '#d32f2f', mt: 0.5, display: 'block' }}
-                        >
-                          {errors.taxType.message}
-                        </Typography>
-                      )}
-                    </FormControl>
+                              <Delete fontSize="small" />
+                            </IconButton>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+              </Grid>
+
+              <Grid size={{ xs: 12, sm: 6 }}>
+                <Controller
+                  name="cashReceiptLimit"
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      type="number"
+                      label="Daily Cash Receipt Limit"
+                      fullWidth
+                      error={!!errors.cashReceiptLimit}
+                      helperText={
+                        errors.cashReceiptLimit?.message ||
+                        "Billing stops once a customer's cash for the day reaches this (section 269ST); 0 turns it off"
+                      }
+                      sx={fieldSx}
+                    />
                   )}
                 />
               </Grid>
 
               {/* Action Buttons */}
-              <Grid item xs={12}>
+              <Grid size={12}>
                 <Box
                   sx={{
                     display: 'flex',
@@ -0,0 +1,287 @@
+import { useState, type ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, CheckCircle, Cancel, Inventory } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { PurchaseLinesTable } from '../../components/Purchase/PurchaseLinesTable';
+import { useIsOrgAdmin } from '../../hooks/useAuth';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  PURCHASE_BILL_STATUSES,
+  approvePurchaseBill,
+  fetchPurchaseBill,
+  rejectPurchaseBill,
+  type PurchaseBill,
+} from '../../api/purchases';
+import { ReceiveStockDialog } from './ReceiveStockDialog';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+function DetailField({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+      <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+        {label}
+      </Typography>
+      <Typography variant="body1" sx={{ color: '#000000' }}>
+        {value || '-'}
+      </Typography>
+    </Grid>
+  );
+}
+
+export function PurchaseBillView() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isAdmin = useIsOrgAdmin();
+  const { id } = useParams<{ id: string }>();
+  const [rejectDialogOpen, setRejectDialogOpen] = useState(false);
+  const [rejectReason, setRejectReason] = useState('');
+  const [receiveOpen, setReceiveOpen] = useState(false);
+
+  const { data: bill, isLoading, error } = useQuery<PurchaseBill>({
+    queryKey: ['purchase', 'bills', id],
+    queryFn: () => fetchPurchaseBill(id as string),
+    enabled: !!id,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: () => approvePurchaseBill(id as string),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchase'] });
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: () => rejectPurchaseBill(id as string, rejectReason.trim()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchase'] });
+      setRejectDialogOpen(false);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !bill) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Purchase bill not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const status = PURCHASE_BILL_STATUSES.find((option) => option.value === bill.status);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 3,
+          }}
+        >
+          <Box>
+            <Button
+              startIcon={<ArrowBack />}
+              onClick={() => navigate('/purchase/bills')}
+              sx={{ color: '#5e3b63', mb: 1 }}
+            >
+              Purchase Bills
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {bill.billNumber}
+              </Typography>
+              <Chip
+                label={status?.label ?? bill.status}
+                color={status?.color ?? 'default'}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1.5 }}>
+            {bill.status === 'pending_approval' && isAdmin && (
+              <>
+                <Button
+                  variant="outlined"
+                  startIcon={<Cancel />}
+                  onClick={() => {
+                    setRejectReason('');
+                    rejectMutation.reset();
+                    setRejectDialogOpen(true);
+                  }}
+                  sx={{ borderColor: '#d32f2f', color: '#d32f2f', fontWeight: 600 }}
+                >
+                  Reject
+                </Button>
+                <Button
+                  variant="contained"
+                  startIcon={<CheckCircle />}
+                  disabled={approveMutation.isPending}
+                  onClick={() => approveMutation.mutate()}
+                  sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+                >
+                  Approve
+                </Button>
+              </>
+            )}
+            {bill.status === 'approved' && (
+              <Button
+                variant="contained"
+                startIcon={<Inventory />}
+                onClick={() => setReceiveOpen(true)}
+                sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+              >
+                Receive into Stock
+              </Button>
+            )}
+          </Box>
+        </Box>
+
+        {bill.status === 'pending_approval' && !isAdmin && (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            Waiting for an organization admin to approve this bill before it can be received into stock.
+          </Alert>
+        )}
+        {bill.status === 'rejected' && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            Rejected{bill.rejectionReason ? `: ${bill.rejectionReason}` : ''}
+          </Alert>
+        )}
+        {approveMutation.error && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            {getApiErrorMessage(approveMutation.error, 'Failed to approve bill')}
+          </Alert>
+        )}
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Bill Details
+          </Typography>
+          <Grid container spacing={2}>
+            <DetailField label="Supplier" value={`${bill.supplier.name} (${bill.supplier.supplierNumber})`} />
+            <DetailField label="Bill Date" value={new Date(bill.billDate).toLocaleDateString()} />
+            <DetailField label="Supplier Bill No." value={bill.supplierBillNumber} />
+            <DetailField
+              label="Purchase Order"
+              value={
+                bill.purchaseOrderId ? (
+                  <Button
+                    size="small"
+                    onClick={() => navigate(`/purchase/orders/${bill.purchaseOrderId}`)}
+                    sx={{ color: '#5e3b63', p: 0, minWidth: 0 }}
+                  >
+                    {bill.orderNumber}
+                  </Button>
+                ) : null
+              }
+            />
+            <DetailField label="Created By" value={bill.createdByName} />
+            <DetailField
+              label="Approved"
+              value={bill.approvedAt ? new Date(bill.approvedAt).toLocaleString() : null}
+            />
+            <DetailField label="Approved By" value={bill.approvedByName} />
+            {bill.notes && (
+              <Grid size={12}>
+                <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+                  Notes
+                </Typography>
+                <Typography variant="body1" sx={{ color: '#000000' }}>
+                  {bill.notes}
+                </Typography>
+              </Grid>
+            )}
+          </Grid>
+        </Paper>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Lines
+          </Typography>
+          <PurchaseLinesTable lines={bill.lines} totals={bill} tds={bill.tds} />
+        </Paper>
+      </Box>
+
+      {receiveOpen && <ReceiveStockDialog bill={bill} onClose={() => setReceiveOpen(false)} />}
+
+      {/* Reject Dialog */}
+      <Dialog open={rejectDialogOpen} onClose={() => setRejectDialogOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Reject {bill.billNumber}</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            multiline
+            minRows={2}
+            margin="dense"
+            label="Reason"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+          />
+          {rejectMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(rejectMutation.error, 'Failed to reject bill')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setRejectDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => rejectMutation.mutate()}
+            variant="contained"
+            disabled={!rejectReason.trim() || rejectMutation.isPending}
+            sx={{ backgroundColor: '#d32f2f', fontWeight: 600, '&:hover': { backgroundColor: '#b71c1c' } }}
+          >
+            Reject
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
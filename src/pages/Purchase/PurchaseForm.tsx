@@ -0,0 +1,398 @@
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  CircularProgress,
+  Snackbar,
+  Alert,
+  Divider,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { Add } from '@mui/icons-material';
+import { useForm, useWatch, useFieldArray, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { SupplierSelect } from '../../components/Purchase/SupplierSelect';
+import { PurchaseLinesTable } from '../../components/Purchase/PurchaseLinesTable';
+import { SupplierBalances } from '../../components/Purchase/SupplierBalances';
+import { useOrgConfig } from '../../hooks/useOrgConfig';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import { getTaxConfig, type TaxConfig } from '../../api/config';
+import { fetchSupplier, type Supplier } from '../../api/suppliers';
+import {
+  createPurchaseBill,
+  createPurchaseOrder,
+  fetchPurchaseBills,
+  fetchPurchaseOrder,
+  type PurchaseOrder,
+} from '../../api/purchases';
+import { buildPurchaseLine, calculatePurchaseTotals, calculateSupplierPostings } from '../../utils/purchase';
+import { calculateWithholding, financialYearStart } from '../../utils/withholding';
+import {
+  emptyLine,
+  purchaseFormSchema,
+  toPurchaseLineFormData,
+  toPurchaseLineInput,
+  type PurchaseFormData,
+} from './purchaseFormSchema';
+import { PurchaseLineFields } from './PurchaseLineFields';
+
+const sectionTitleSx = {
+  color: '#0d0421',
+  fontWeight: 600,
+  mb: 1,
+  fontSize: { xs: '1rem', sm: '1.1rem' },
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface PurchaseFormProps {
+  kind: 'order' | 'bill';
+}
+
+/**
+ * New purchase order or purchase bill. A bill opened with ?orderId= starts
+ * from that order's supplier and lines.
+ */
+export function PurchaseForm({ kind }: PurchaseFormProps) {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  const orderId = kind === 'bill' ? searchParams.get('orderId') : null;
+  const { config } = useOrgConfig();
+  const { options: pricingOptions, loading: pricingLoading } = usePricingOptions();
+  const [pickedSupplier, setPickedSupplier] = useState<Supplier | null>(null);
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const requiresApproval = kind === 'bill' && !!config?.workflows.requireApprovalForPurchase;
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const taxPercent = pricingOptions?.taxPercent ?? 0;
+
+  const { data: order, isLoading: orderLoading } = useQuery<PurchaseOrder>({
+    queryKey: ['purchase', 'orders', orderId],
+    queryFn: () => fetchPurchaseOrder(orderId as string),
+    enabled: !!orderId,
+  });
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    reset,
+    setValue,
+  } = useForm<PurchaseFormData>({
+    resolver: zodResolver(purchaseFormSchema),
+    defaultValues: {
+      supplierId: '',
+      date: today(),
+      expectedDate: '',
+      supplierBillNumber: '',
+      notes: '',
+      lines: [emptyLine],
+    },
+  });
+
+  const { fields: lineFields, append, remove } = useFieldArray({ control, name: 'lines' });
+  const watchedLines = useWatch({ control, name: 'lines' });
+  const billDate = useWatch({ control, name: 'date' });
+
+  useEffect(() => {
+    if (order) {
+      reset({
+        supplierId: order.supplierId,
+        date: today(),
+        expectedDate: '',
+        supplierBillNumber: '',
+        notes: '',
+        lines: order.lines.map(toPurchaseLineFormData),
+      });
+    }
+  }, [order, reset]);
+
+  const supplier = pickedSupplier ?? order?.supplier ?? null;
+
+  // Balances move with every bill and payment, so read them fresh rather than from the search result
+  const { data: supplierBalances } = useQuery<Supplier>({
+    queryKey: ['suppliers', supplier?.id],
+    queryFn: () => fetchSupplier(supplier?.id as string),
+    enabled: kind === 'bill' && !!supplier,
+  });
+
+  const { data: taxConfig } = useQuery<TaxConfig>({
+    queryKey: ['config', 'tax'],
+    queryFn: getTaxConfig,
+    enabled: kind === 'bill',
+  });
+
+  // The supplier's bills this financial year, for the TDS threshold
+  const yearStart = financialYearStart(billDate ? new Date(billDate) : new Date());
+  const { data: supplierBills } = useQuery({
+    queryKey: ['purchase', 'bills', { supplierId: supplier?.id, startDate: yearStart }],
+    queryFn: () => fetchPurchaseBills({ supplierId: supplier?.id, startDate: yearStart }),
+    enabled: kind === 'bill' && !!supplier,
+  });
+
+  const lines = useMemo(
+    () => (watchedLines || []).map((line) => buildPurchaseLine(toPurchaseLineInput(line), decimals)),
+    [watchedLines, decimals]
+  );
+  const totals = calculatePurchaseTotals(lines, taxPercent, decimals);
+  const tds =
+    kind === 'bill'
+      ? calculateWithholding(
+          taxConfig?.withholdingSections ?? [],
+          ['purchase'],
+          {
+            amount: totals.subtotal,
+            yearToDate: (supplierBills?.data ?? [])
+              .filter((bill) => bill.status !== 'rejected')
+              .reduce((total, bill) => total + bill.subtotal, 0),
+            hasPan: !!supplier?.panNumber,
+          },
+          decimals
+        )
+      : null;
+  const postings = calculateSupplierPostings(lines, totals.total, decimals, tds?.amount);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PurchaseFormData) => {
+      const savedLines = data.lines.map((line) => buildPurchaseLine(toPurchaseLineInput(line), decimals));
+      if (kind === 'order') {
+        const saved = await createPurchaseOrder({
+          orderDate: data.date,
+          expectedDate: data.expectedDate || null,
+          supplierId: data.supplierId,
+          lines: savedLines,
+          notes: data.notes || null,
+        });
+        return `/purchase/orders/${saved.id}`;
+      }
+      const saved = await createPurchaseBill({
+        billDate: data.date,
+        supplierBillNumber: data.supplierBillNumber || null,
+        supplierId: data.supplierId,
+        purchaseOrderId: orderId,
+        lines: savedLines,
+        tds,
+        notes: data.notes || null,
+      });
+      return `/purchase/bills/${saved.id}`;
+    },
+    onSuccess: (path) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase'] });
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      navigate(path);
+    },
+    onError: (error) => setSnackbarMessage(getApiErrorMessage(error, `Failed to save purchase ${kind}`)),
+  });
+
+  if (pricingLoading || (orderId && orderLoading)) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 3,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          {kind === 'order' ? 'New Purchase Order' : order ? `Bill for ${order.orderNumber}` : 'New Purchase Bill'}
+        </Typography>
+
+        {requiresApproval && (
+          <Alert severity="info" sx={{ mb: 3 }}>
+            Purchase bills need approval from an organization admin before the goods can be received into stock.
+          </Alert>
+        )}
+
+        <Card elevation={0} sx={{ border: '1px solid #e0e0e0', borderRadius: 2 }}>
+          <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+            <form onSubmit={handleSubmit((data) => saveMutation.mutate(data))}>
+              <Grid container spacing={3}>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <SupplierSelect
+                    value={supplier}
+                    onChange={(selected) => {
+                      setPickedSupplier(selected);
+                      setValue('supplierId', selected?.id ?? '', { shouldValidate: true });
+                    }}
+                    error={errors.supplierId?.message}
+                  />
+                  {supplierBalances && (
+                    <Box sx={{ mt: 1.5 }}>
+                      <SupplierBalances supplier={supplierBalances} decimals={decimals} postings={postings} />
+                    </Box>
+                  )}
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="date"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="date"
+                        label={kind === 'order' ? 'Order Date' : 'Bill Date'}
+                        fullWidth
+                        size="small"
+                        error={!!errors.date}
+                        helperText={errors.date?.message}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  {kind === 'order' ? (
+                    <Controller
+                      name="expectedDate"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          type="date"
+                          label="Expected By"
+                          fullWidth
+                          size="small"
+                          slotProps={{ inputLabel: { shrink: true } }}
+                        />
+                      )}
+                    />
+                  ) : (
+                    <Controller
+                      name="supplierBillNumber"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField {...field} label="Supplier Bill No." fullWidth size="small" />
+                      )}
+                    />
+                  )}
+                </Grid>
+
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                      Lines
+                    </Typography>
+                    <Button
+                      startIcon={<Add />}
+                      onClick={() => append(emptyLine)}
+                      sx={{ color: '#5e3b63', fontWeight: 600 }}
+                    >
+                      Add Line
+                    </Button>
+                  </Box>
+                  {errors.lines?.root?.message && (
+                    <Typography variant="body2" sx={{ color: '#d32f2f' }}>
+                      {errors.lines.root.message}
+                    </Typography>
+                  )}
+                </Grid>
+                {lineFields.map((lineField, index) => (
+                  <Grid key={lineField.id} size={12}>
+                    <PurchaseLineFields
+                      control={control}
+                      setValue={setValue}
+                      index={index}
+                      errors={errors.lines}
+                      line={lines[index]}
+                      onRemove={lineFields.length > 1 ? () => remove(index) : undefined}
+                    />
+                  </Grid>
+                ))}
+
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    Summary
+                  </Typography>
+                  <PurchaseLinesTable lines={lines} totals={totals} tds={tds} />
+                </Grid>
+
+                <Grid size={12}>
+                  <Controller
+                    name="notes"
+                    control={control}
+                    render={({ field }) => <TextField {...field} label="Notes" fullWidth multiline rows={2} />}
+                  />
+                </Grid>
+
+                {/* Action Buttons */}
+                <Grid size={12}>
+                  <Divider sx={{ my: 2 }} />
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      flexDirection: { xs: 'column', sm: 'row' },
+                      justifyContent: 'flex-end',
+                      gap: 2,
+                    }}
+                  >
+                    <Button
+                      type="button"
+                      variant="outlined"
+                      onClick={() => navigate(kind === 'order' ? '/purchase/orders' : '/purchase/bills')}
+                      fullWidth={isMobile}
+                      sx={{ borderColor: '#5e3b63', color: '#5e3b63', px: 3, fontWeight: 600 }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant="contained"
+                      disabled={saveMutation.isPending}
+                      fullWidth={isMobile}
+                      sx={{
+                        backgroundColor: '#5e3b63',
+                        px: 3,
+                        fontWeight: 600,
+                        '&:hover': { backgroundColor: '#4a2d4f' },
+                      }}
+                    >
+                      {kind === 'order' ? 'Save Order' : requiresApproval ? 'Submit for Approval' : 'Save Bill'}
+                    </Button>
+                  </Box>
+                </Grid>
+              </Grid>
+            </form>
+          </CardContent>
+        </Card>
+      </Box>
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,366 @@
+import { Box, Button, Grid, IconButton, MenuItem, TextField, Typography } from '@mui/material';
+import { Add, Delete } from '@mui/icons-material';
+import {
+  Controller,
+  useFieldArray,
+  useWatch,
+  type Control,
+  type FieldErrors,
+  type UseFormSetValue,
+} from 'react-hook-form';
+import { ITEM_CATEGORIES, STONE_TYPES } from '../../api/items';
+import { METALS, METAL_PURITIES } from '../../api/metalRates';
+import { PURCHASE_LABOUR_TYPES, type PurchaseLine } from '../../api/purchases';
+import { defaultTouchPercent } from '../../utils/purchase';
+import { formatAmount, formatWeight } from '../../utils/format';
+import { emptyStone, type PurchaseFormData } from './purchaseFormSchema';
+
+interface PurchaseLineFieldsProps {
+  control: Control<PurchaseFormData>;
+  setValue: UseFormSetValue<PurchaseFormData>;
+  index: number;
+  errors?: FieldErrors<PurchaseFormData>['lines'];
+  /** The line as calculated from the current values */
+  line?: PurchaseLine;
+  onRemove?: () => void;
+}
+
+/**
+ * Inputs for one purchase line and its stones
+ */
+export function PurchaseLineFields({ control, setValue, index, errors, line, onRemove }: PurchaseLineFieldsProps) {
+  const { fields: stoneFields, append, remove } = useFieldArray({ control, name: `lines.${index}.stones` });
+  const metal = useWatch({ control, name: `lines.${index}.metal` });
+  const lineErrors = errors?.[index];
+
+  return (
+    <Box sx={{ border: '1px solid rgba(94, 59, 99, 0.2)', borderRadius: 2, p: 2 }}>
+      <Grid container spacing={2}>
+        <Grid size={{ xs: 12, md: 4 }}>
+          <Controller
+            name={`lines.${index}.description`}
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Description"
+                fullWidth
+                size="small"
+                error={!!lineErrors?.description}
+                helperText={lineErrors?.description?.message}
+              />
+            )}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, md: 2 }}>
+          <Controller
+            name={`lines.${index}.category`}
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                select
+                label="Category"
+                fullWidth
+                size="small"
+                error={!!lineErrors?.category}
+                helperText={lineErrors?.category?.message}
+              >
+                {ITEM_CATEGORIES.map((category) => (
+                  <MenuItem key={category.value} value={category.value}>
+                    {category.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, md: 2 }}>
+          <Controller
+            name={`lines.${index}.metal`}
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                select
+                label="Metal"
+                fullWidth
+                size="small"
+                onChange={(e) => {
+                  field.onChange(e.target.value);
+                  setValue(`lines.${index}.purity`, '');
+                }}
+              >
+                {METALS.map((option) => (
+                  <MenuItem key={option.value} value={option.value}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, md: 2 }}>
+          <Controller
+            name={`lines.${index}.purity`}
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                select
+                label="Purity"
+                fullWidth
+                size="small"
+                onChange={(e) => {
+                  field.onChange(e.target.value);
+                  setValue(`lines.${index}.touchPercent`, defaultTouchPercent(metal, e.target.value), {
+                    shouldValidate: true,
+                  });
+                }}
+              >
+                {METAL_PURITIES[metal].map((purity) => (
+                  <MenuItem key={purity.value} value={purity.value}>
+                    {purity.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, md: 2 }}>
+          <Controller
+            name={`lines.${index}.pieces`}
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Pieces"
+                type="number"
+                fullWidth
+                size="small"
+                error={!!lineErrors?.pieces}
+                helperText={lineErrors?.pieces?.message}
+                slotProps={{ htmlInput: { min: 1 } }}
+              />
+            )}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, md: 2 }}>
+          <Controller
+            name={`lines.${index}.grossWeight`}
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Gross Wt (g)"
+                type="number"
+                fullWidth
+                size="small"
+                error={!!lineErrors?.grossWeight}
+                helperText={lineErrors?.grossWeight?.message}
+                slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+              />
+            )}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, md: 2 }}>
+          <Controller
+            name={`lines.${index}.netWeight`}
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Net Wt (g)"
+                type="number"
+                fullWidth
+                size="small"
+                placeholder="Same as gross"
+                error={!!lineErrors?.netWeight}
+                helperText={lineErrors?.netWeight?.message}
+                slotProps={{ htmlInput: { min: 0, step: '0.001' }, inputLabel: { shrink: true } }}
+              />
+            )}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, md: 2 }}>
+          <Controller
+            name={`lines.${index}.touchPercent`}
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Touch %"
+                type="number"
+                fullWidth
+                size="small"
+                error={!!lineErrors?.touchPercent}
+                helperText={lineErrors?.touchPercent?.message}
+                slotProps={{ htmlInput: { min: 0, max: 100, step: '0.01' } }}
+              />
+            )}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, md: 2 }}>
+          <Controller
+            name={`lines.${index}.ratePerGram`}
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Fine Rate / g"
+                type="number"
+                fullWidth
+                size="small"
+                placeholder="Settled in metal"
+                error={!!lineErrors?.ratePerGram}
+                helperText={lineErrors?.ratePerGram?.message}
+                slotProps={{ htmlInput: { min: 0, step: '0.01' }, inputLabel: { shrink: true } }}
+              />
+            )}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, md: 2 }}>
+          <Controller
+            name={`lines.${index}.labourType`}
+            control={control}
+            render={({ field }) => (
+              <TextField {...field} select label="Labour" fullWidth size="small">
+                {PURCHASE_LABOUR_TYPES.map((type) => (
+                  <MenuItem key={type.value} value={type.value}>
+                    {type.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            )}
+          />
+        </Grid>
+        <Grid size={{ xs: 6, md: 2 }}>
+          <Controller
+            name={`lines.${index}.labourRate`}
+            control={control}
+            render={({ field }) => (
+              <TextField
+                {...field}
+                label="Labour Rate"
+                type="number"
+                fullWidth
+                size="small"
+                error={!!lineErrors?.labourRate}
+                helperText={lineErrors?.labourRate?.message}
+                slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+              />
+            )}
+          />
+        </Grid>
+
+        {stoneFields.map((stoneField, stoneIndex) => (
+          <Grid key={stoneField.id} size={12}>
+            <Grid container spacing={2} sx={{ alignItems: 'flex-start' }}>
+              <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                <Controller
+                  name={`lines.${index}.stones.${stoneIndex}.stoneType`}
+                  control={control}
+                  render={({ field }) => (
+                    <TextField {...field} select label="Stone" fullWidth size="small">
+                      {STONE_TYPES.map((type) => (
+                        <MenuItem key={type.value} value={type.value}>
+                          {type.label}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  )}
+                />
+              </Grid>
+              <Grid size={{ xs: 4, md: 2 }}>
+                <Controller
+                  name={`lines.${index}.stones.${stoneIndex}.pieces`}
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      label="Pieces"
+                      type="number"
+                      fullWidth
+                      size="small"
+                      error={!!lineErrors?.stones?.[stoneIndex]?.pieces}
+                      helperText={lineErrors?.stones?.[stoneIndex]?.pieces?.message}
+                    />
+                  )}
+                />
+              </Grid>
+              <Grid size={{ xs: 4, md: 2 }}>
+                <Controller
+                  name={`lines.${index}.stones.${stoneIndex}.weightCarat`}
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      label="Weight (ct)"
+                      type="number"
+                      fullWidth
+                      size="small"
+                      error={!!lineErrors?.stones?.[stoneIndex]?.weightCarat}
+                      helperText={lineErrors?.stones?.[stoneIndex]?.weightCarat?.message}
+                      slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                    />
+                  )}
+                />
+              </Grid>
+              <Grid size={{ xs: 4, md: 2 }}>
+                <Controller
+                  name={`lines.${index}.stones.${stoneIndex}.ratePerCarat`}
+                  control={control}
+                  render={({ field }) => (
+                    <TextField
+                      {...field}
+                      label="Rate / ct"
+                      type="number"
+                      fullWidth
+                      size="small"
+                      error={!!lineErrors?.stones?.[stoneIndex]?.ratePerCarat}
+                      helperText={lineErrors?.stones?.[stoneIndex]?.ratePerCarat?.message}
+                      slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+                    />
+                  )}
+                />
+              </Grid>
+              <Grid size={{ xs: 12, md: 3 }} sx={{ textAlign: 'right' }}>
+                <IconButton aria-label="remove stone" onClick={() => remove(stoneIndex)} sx={{ color: '#d32f2f' }}>
+                  <Delete />
+                </IconButton>
+              </Grid>
+            </Grid>
+          </Grid>
+        ))}
+
+        <Grid size={12}>
+          <Box
+            sx={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: 2,
+              flexWrap: 'wrap',
+            }}
+          >
+            <Button startIcon={<Add />} onClick={() => append(emptyStone)} sx={{ color: '#5e3b63', fontWeight: 600 }}>
+              Add Stone
+            </Button>
+            {line && (
+              <Typography variant="body2" sx={{ color: '#000000' }}>
+                Fine {formatWeight(line.fineWeight)} · Metal {formatAmount(line.metalAmount)} · Labour{' '}
+                {formatAmount(line.labourAmount)} · Stones {formatAmount(line.stoneAmount)} ·{' '}
+                <strong>{formatAmount(line.total)}</strong>
+              </Typography>
+            )}
+            {onRemove && (
+              <IconButton aria-label="remove line" onClick={onRemove} sx={{ color: '#d32f2f' }}>
+                <Delete />
+              </IconButton>
+            )}
+          </Box>
+        </Grid>
+      </Grid>
+    </Box>
+  );
+}
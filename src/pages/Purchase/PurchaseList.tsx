@@ -0,0 +1,366 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  Chip,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Add, Search, FilterList, Clear, SwapHoriz, Store } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import {
+  PURCHASE_BILL_STATUSES,
+  PURCHASE_ORDER_STATUSES,
+  fetchPurchaseBills,
+  fetchPurchaseOrders,
+  type PurchaseFilters,
+} from '../../api/purchases';
+import { formatAmount, formatWeight } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+interface PurchaseRow {
+  id: string;
+  number: string;
+  date: string;
+  supplierName: string;
+  totalFineWeight: number;
+  total: number;
+  status: string;
+}
+
+interface PurchaseListProps {
+  kind: 'order' | 'bill';
+}
+
+/**
+ * Purchase orders or purchase bills, which share filters and columns
+ */
+export function PurchaseList({ kind }: PurchaseListProps) {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+
+  const [filters, setFilters] = useState<PurchaseFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<PurchaseFilters>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const basePath = kind === 'order' ? '/purchase/orders' : '/purchase/bills';
+  const statuses = kind === 'order' ? PURCHASE_ORDER_STATUSES : PURCHASE_BILL_STATUSES;
+
+  const { data: rows = [], isLoading, error } = useQuery<PurchaseRow[]>({
+    queryKey: ['purchase', kind === 'order' ? 'orders' : 'bills', appliedFilters],
+    queryFn: async () => {
+      if (kind === 'order') {
+        const response = await fetchPurchaseOrders(appliedFilters);
+        return response.data.map((order) => ({
+          id: order.id,
+          number: order.orderNumber,
+          date: order.orderDate,
+          supplierName: order.supplier.name,
+          totalFineWeight: order.totalFineWeight,
+          total: order.total,
+          status: order.status,
+        }));
+      }
+      const response = await fetchPurchaseBills(appliedFilters);
+      return response.data.map((bill) => ({
+        id: bill.id,
+        number: bill.billNumber,
+        date: bill.billDate,
+        supplierName: bill.supplier.name,
+        totalFineWeight: bill.totalFineWeight,
+        total: bill.total,
+        status: bill.status,
+      }));
+    },
+  });
+
+  const handleChangeFilter = (key: keyof PurchaseFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const paginatedRows = rows.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            mb: 2,
+            gap: 2,
+          }}
+        >
+          <Typography
+            variant="h4"
+            sx={{
+              color: '#000000',
+              fontWeight: 600,
+              fontSize: { xs: '1.5rem', sm: '1.75rem' },
+            }}
+          >
+            {kind === 'order' ? 'Purchase Orders' : 'Purchase Bills'}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+            <Button
+              variant="outlined"
+              startIcon={<Store />}
+              onClick={() => navigate('/purchase/suppliers')}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              Suppliers
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<SwapHoriz />}
+              onClick={() => navigate(kind === 'order' ? '/purchase/bills' : '/purchase/orders')}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              {kind === 'order' ? 'Bills' : 'Orders'}
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={() => navigate(`${basePath}/new`)}
+              sx={{
+                backgroundColor: '#5e3b63',
+                fontWeight: 600,
+                '&:hover': { backgroundColor: '#4a2d4f' },
+              }}
+            >
+              {kind === 'order' ? 'New Order' : 'New Bill'}
+            </Button>
+          </Box>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder={kind === 'order' ? 'Order number or supplier...' : 'Bill number or supplier...'}
+                value={filters.search || ''}
+                onChange={(e) => handleChangeFilter('search', e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 4, md: 2.5 }}>
+              <TextField
+                select
+                size="small"
+                label="Status"
+                fullWidth
+                value={filters.status || ''}
+                onChange={(e) => handleChangeFilter('status', e.target.value)}
+              >
+                <MenuItem value="">All Statuses</MenuItem>
+                {statuses.map((status) => (
+                  <MenuItem key={status.value} value={status.value}>
+                    {status.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 4, md: 2.75 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="Start Date"
+                value={filters.startDate || ''}
+                onChange={(e) => handleChangeFilter('startDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 4, md: 2.75 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="End Date"
+                value={filters.endDate || ''}
+                onChange={(e) => handleChangeFilter('endDate', e.target.value)}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : `Error loading purchase ${kind}s. Please try again.`}
+              </Alert>
+            </Box>
+          ) : rows.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No purchase {kind}s found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>{kind === 'order' ? 'Order No.' : 'Bill No.'}</TableCell>
+                      <TableCell sx={headCellSx}>Date</TableCell>
+                      <TableCell sx={headCellSx}>Supplier</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }} align="right">
+                        Fine Wt
+                      </TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Total
+                      </TableCell>
+                      <TableCell sx={headCellSx}>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedRows.map((row) => {
+                      const status = statuses.find((option) => option.value === row.status);
+                      return (
+                        <TableRow
+                          key={row.id}
+                          hover
+                          onClick={() => navigate(`${basePath}/${row.id}`)}
+                          sx={{ cursor: 'pointer' }}
+                        >
+                          <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{row.number}</TableCell>
+                          <TableCell sx={bodyCellSx}>{new Date(row.date).toLocaleDateString()}</TableCell>
+                          <TableCell sx={bodyCellSx}>{row.supplierName}</TableCell>
+                          <TableCell
+                            sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}
+                            align="right"
+                          >
+                            {formatWeight(row.totalFineWeight)}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx} align="right">
+                            {formatAmount(row.total)}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            <Chip
+                              label={status?.label ?? row.status}
+                              color={status?.color ?? 'default'}
+                              size="small"
+                              variant="outlined"
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={rows.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
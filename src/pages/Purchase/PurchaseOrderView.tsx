@@ -0,0 +1,219 @@
+import { useState, type ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, Block, ReceiptLong } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { PurchaseLinesTable } from '../../components/Purchase/PurchaseLinesTable';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  PURCHASE_ORDER_STATUSES,
+  cancelPurchaseOrder,
+  fetchPurchaseOrder,
+  type PurchaseOrder,
+} from '../../api/purchases';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+function DetailField({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+      <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+        {label}
+      </Typography>
+      <Typography variant="body1" sx={{ color: '#000000' }}>
+        {value || '-'}
+      </Typography>
+    </Grid>
+  );
+}
+
+export function PurchaseOrderView() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+
+  const { data: order, isLoading, error } = useQuery<PurchaseOrder>({
+    queryKey: ['purchase', 'orders', id],
+    queryFn: () => fetchPurchaseOrder(id as string),
+    enabled: !!id,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelPurchaseOrder(id as string),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['purchase'] });
+      setCancelDialogOpen(false);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Purchase order not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const status = PURCHASE_ORDER_STATUSES.find((option) => option.value === order.status);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 3,
+          }}
+        >
+          <Box>
+            <Button
+              startIcon={<ArrowBack />}
+              onClick={() => navigate('/purchase/orders')}
+              sx={{ color: '#5e3b63', mb: 1 }}
+            >
+              Purchase Orders
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {order.orderNumber}
+              </Typography>
+              <Chip
+                label={status?.label ?? order.status}
+                color={status?.color ?? 'default'}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+          </Box>
+          {order.status === 'open' && (
+            <Box sx={{ display: 'flex', gap: 1.5 }}>
+              <Button
+                variant="outlined"
+                startIcon={<Block />}
+                onClick={() => setCancelDialogOpen(true)}
+                sx={{ borderColor: '#d32f2f', color: '#d32f2f', fontWeight: 600 }}
+              >
+                Cancel Order
+              </Button>
+              <Button
+                variant="contained"
+                startIcon={<ReceiptLong />}
+                onClick={() => navigate(`/purchase/bills/new?orderId=${order.id}`)}
+                sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+              >
+                Create Bill
+              </Button>
+            </Box>
+          )}
+        </Box>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Order Details
+          </Typography>
+          <Grid container spacing={2}>
+            <DetailField label="Supplier" value={`${order.supplier.name} (${order.supplier.supplierNumber})`} />
+            <DetailField label="Order Date" value={new Date(order.orderDate).toLocaleDateString()} />
+            <DetailField
+              label="Expected By"
+              value={order.expectedDate ? new Date(order.expectedDate).toLocaleDateString() : null}
+            />
+            <DetailField label="Created By" value={order.createdByName} />
+            {order.notes && (
+              <Grid size={12}>
+                <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+                  Notes
+                </Typography>
+                <Typography variant="body1" sx={{ color: '#000000' }}>
+                  {order.notes}
+                </Typography>
+              </Grid>
+            )}
+          </Grid>
+        </Paper>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Lines
+          </Typography>
+          <PurchaseLinesTable lines={order.lines} totals={order} />
+        </Paper>
+      </Box>
+
+      {/* Cancel Confirmation Dialog */}
+      <Dialog
+        open={cancelDialogOpen}
+        onClose={() => setCancelDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Cancel Order</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000' }}>
+            Cancel {order.orderNumber}? No bill can be raised against it afterwards.
+          </DialogContentText>
+          {cancelMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(cancelMutation.error, 'Failed to cancel order')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setCancelDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Keep Order
+          </Button>
+          <Button
+            onClick={() => cancelMutation.mutate()}
+            variant="contained"
+            disabled={cancelMutation.isPending}
+            sx={{ backgroundColor: '#d32f2f', fontWeight: 600, '&:hover': { backgroundColor: '#b71c1c' } }}
+          >
+            Cancel Order
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,213 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { getApiErrorMessage } from '../../api/client';
+import { ITEM_CATEGORIES } from '../../api/items';
+import { fetchStockLocations } from '../../api/stock';
+import { receivePurchaseBillStock, type PurchaseBill } from '../../api/purchases';
+import { roundTo } from '../../utils/rounding';
+
+interface PieceRow {
+  lineId: string;
+  name: string;
+  category: string;
+  grossWeight: string;
+  netWeight: string;
+}
+
+/**
+ * One row per piece, with the line's weight split evenly as a starting
+ * point; each piece is normally re-weighed before tagging.
+ */
+const buildPieceRows = (bill: PurchaseBill): PieceRow[] =>
+  bill.lines.flatMap((line) =>
+    Array.from({ length: line.pieces }, () => ({
+      lineId: line.id ?? '',
+      name: line.description,
+      category: line.category,
+      grossWeight: roundTo(line.grossWeight / line.pieces, 3).toString(),
+      netWeight: roundTo(line.netWeight / line.pieces, 3).toString(),
+    }))
+  );
+
+interface ReceiveStockDialogProps {
+  bill: PurchaseBill;
+  onClose: () => void;
+}
+
+/**
+ * Tags the goods on an approved bill into stock, then hands the new items
+ * to tag printing
+ */
+export function ReceiveStockDialog({ bill, onClose }: ReceiveStockDialogProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [pieces, setPieces] = useState<PieceRow[]>(() => buildPieceRows(bill));
+  const [locationId, setLocationId] = useState('');
+  const [tray, setTray] = useState('');
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['stock', 'locations'],
+    queryFn: fetchStockLocations,
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: () =>
+      receivePurchaseBillStock(bill.id, {
+        locationId: locationId || null,
+        tray: tray.trim() || null,
+        pieces: pieces.map((piece) => ({
+          lineId: piece.lineId,
+          name: piece.name.trim(),
+          category: piece.category,
+          grossWeight: parseFloat(piece.grossWeight),
+          netWeight: parseFloat(piece.netWeight),
+        })),
+      }),
+    onSuccess: (items) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase'] });
+      queryClient.invalidateQueries({ queryKey: ['stock'] });
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+      navigate('/tags/print', { state: { items } });
+    },
+  });
+
+  const updatePiece = (index: number, changes: Partial<PieceRow>) => {
+    setPieces((prev) => prev.map((piece, i) => (i === index ? { ...piece, ...changes } : piece)));
+  };
+
+  const invalid = pieces.some((piece) => {
+    const gross = parseFloat(piece.grossWeight);
+    const net = parseFloat(piece.netWeight);
+    return !piece.name.trim() || !(gross > 0) || !(net > 0) || net > gross;
+  });
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="md">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Receive {bill.billNumber} into Stock</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', gap: 2, pt: 1, mb: 2, flexWrap: 'wrap' }}>
+          <TextField
+            select
+            size="small"
+            label="Location"
+            value={locationId}
+            onChange={(e) => setLocationId(e.target.value)}
+            sx={{ minWidth: 240 }}
+          >
+            <MenuItem value="">No location</MenuItem>
+            {locations.map((location) => (
+              <MenuItem key={location.id} value={location.id}>
+                {location.branch} / {location.name}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField size="small" label="Tray" value={tray} onChange={(e) => setTray(e.target.value)} />
+        </Box>
+        <Typography variant="body2" sx={{ color: '#666666', mb: 1 }}>
+          Each piece gets its own tag number. Adjust the weights to what each piece weighs.
+        </Typography>
+        <Box sx={{ overflowX: 'auto' }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Name</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Category</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Gross Wt (g)</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Net Wt (g)</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {pieces.map((piece, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      fullWidth
+                      value={piece.name}
+                      onChange={(e) => updatePiece(index, { name: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      select
+                      size="small"
+                      value={piece.category}
+                      onChange={(e) => updatePiece(index, { category: e.target.value })}
+                      sx={{ minWidth: 140 }}
+                    >
+                      {ITEM_CATEGORIES.map((category) => (
+                        <MenuItem key={category.value} value={category.value}>
+                          {category.label}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={piece.grossWeight}
+                      onChange={(e) => updatePiece(index, { grossWeight: e.target.value })}
+                      slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                      sx={{ width: 120 }}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={piece.netWeight}
+                      onChange={(e) => updatePiece(index, { netWeight: e.target.value })}
+                      slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                      sx={{ width: 120 }}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+        {receiveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(receiveMutation.error, 'Failed to receive stock')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button
+          onClick={onClose}
+          variant="outlined"
+          sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+        >
+          Cancel
+        </Button>
+        <Button
+          onClick={() => receiveMutation.mutate()}
+          variant="contained"
+          disabled={invalid || receiveMutation.isPending}
+          sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Tag {pieces.length} Pieces
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Switch,
+  TextField,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { createSupplier, updateSupplier, type CreateSupplierData, type Supplier } from '../../api/suppliers';
+
+interface SupplierDialogProps {
+  /** Supplier to edit, or null to add a new one */
+  supplier: Supplier | null;
+  onClose: () => void;
+}
+
+export function SupplierDialog({ supplier, onClose }: SupplierDialogProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    name: supplier?.name ?? '',
+    contactPerson: supplier?.contactPerson ?? '',
+    phone: supplier?.phone ?? '',
+    email: supplier?.email ?? '',
+    address: supplier?.address ?? '',
+    gstin: supplier?.gstin ?? '',
+    panNumber: supplier?.panNumber ?? '',
+    isActive: supplier?.isActive ?? true,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: CreateSupplierData) => (supplier ? updateSupplier(supplier.id, data) : createSupplier(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      onClose();
+    },
+  });
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>
+        {supplier ? 'Edit Supplier' : 'New Supplier'}
+      </DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          fullWidth
+          label="Name"
+          margin="dense"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          label="Contact Person"
+          margin="dense"
+          value={form.contactPerson}
+          onChange={(e) => setForm({ ...form, contactPerson: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          label="Phone"
+          margin="dense"
+          value={form.phone}
+          onChange={(e) => setForm({ ...form, phone: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          type="email"
+          label="Email"
+          margin="dense"
+          value={form.email}
+          onChange={(e) => setForm({ ...form, email: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          label="Address"
+          margin="dense"
+          multiline
+          rows={2}
+          value={form.address}
+          onChange={(e) => setForm({ ...form, address: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          label="GSTIN"
+          margin="dense"
+          value={form.gstin}
+          onChange={(e) => setForm({ ...form, gstin: e.target.value.toUpperCase() })}
+        />
+        <TextField
+          fullWidth
+          label="PAN"
+          margin="dense"
+          value={form.panNumber}
+          onChange={(e) => setForm({ ...form, panNumber: e.target.value.toUpperCase() })}
+        />
+        {supplier && (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': { color: '#5e3b63' },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#5e3b63' },
+                }}
+              />
+            }
+            label="Active"
+          />
+        )}
+        {saveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(saveMutation.error, 'Failed to save supplier')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!form.name.trim() || saveMutation.isPending}
+          onClick={() =>
+            saveMutation.mutate({
+              name: form.name.trim(),
+              contactPerson: form.contactPerson.trim() || undefined,
+              phone: form.phone.trim() || undefined,
+              email: form.email.trim() || undefined,
+              address: form.address.trim() || undefined,
+              gstin: form.gstin.trim() || undefined,
+              panNumber: form.panNumber.trim() || undefined,
+              isActive: form.isActive,
+            })
+          }
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState, type ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  CircularProgress,
+  Alert,
+  Tabs,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { ArrowBack, Edit, Payments, Undo } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { SupplierBalances } from '../../components/Purchase/SupplierBalances';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { METALS } from '../../api/metalRates';
+import {
+  SUPPLIER_LEDGER_ENTRY_TYPES,
+  fetchSupplier,
+  fetchSupplierLedger,
+  type Supplier,
+  type SupplierAccount,
+  type SupplierLedgerEntry,
+} from '../../api/suppliers';
+import { formatAmount, formatWeight } from '../../utils/format';
+import { SupplierDialog } from './SupplierDialog';
+import { SupplierPaymentDialog } from './SupplierPaymentDialog';
+import { SupplierMetalReturnDialog } from './SupplierMetalReturnDialog';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+function DetailField({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+      <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+        {label}
+      </Typography>
+      <Typography variant="body1" sx={{ color: '#000000' }}>
+        {value || '-'}
+      </Typography>
+    </Grid>
+  );
+}
+
+type SupplierDialogKind = 'edit' | 'payment' | 'metalReturn';
+
+/**
+ * A supplier's details with their money ledger and a fine-metal ledger per metal
+ */
+export function SupplierLedger() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [account, setAccount] = useState<SupplierAccount>('money');
+  const [dialog, setDialog] = useState<SupplierDialogKind | null>(null);
+
+  const { data: supplier, isLoading, error } = useQuery<Supplier>({
+    queryKey: ['suppliers', id],
+    queryFn: () => fetchSupplier(id as string),
+    enabled: !!id,
+  });
+
+  const { data: ledger = [], isLoading: ledgerLoading } = useQuery<SupplierLedgerEntry[]>({
+    queryKey: ['suppliers', id, 'ledger', account],
+    queryFn: () => fetchSupplierLedger(id as string, account),
+    enabled: !!id,
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !supplier) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Supplier not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const formatEntry = (value: number) => (account === 'money' ? formatAmount(value, decimals) : formatWeight(value));
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Button
+          startIcon={<ArrowBack />}
+          onClick={() => navigate('/purchase/suppliers')}
+          sx={{ color: '#5e3b63', mb: 1 }}
+        >
+          Suppliers
+        </Button>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            mb: 3,
+            gap: 2,
+          }}
+        >
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            {supplier.name}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+            <Button
+              variant="outlined"
+              startIcon={<Edit />}
+              onClick={() => setDialog('edit')}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              Edit
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Undo />}
+              onClick={() => setDialog('metalReturn')}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              Return Metal
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<Payments />}
+              onClick={() => setDialog('payment')}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              Record Payment
+            </Button>
+          </Box>
+        </Box>
+
+        <Grid container spacing={3} sx={{ mb: 3 }}>
+          <Grid size={{ xs: 12, md: 8 }}>
+            <Paper sx={{ p: { xs: 2, sm: 3 }, height: '100%', boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+              <Typography variant="h6" sx={sectionTitleSx}>
+                Details
+              </Typography>
+              <Grid container spacing={2}>
+                <DetailField label="Supplier No." value={supplier.supplierNumber} />
+                <DetailField label="Contact Person" value={supplier.contactPerson} />
+                <DetailField label="Phone" value={supplier.phone} />
+                <DetailField label="Email" value={supplier.email} />
+                <DetailField label="GSTIN" value={supplier.gstin} />
+                <DetailField label="PAN" value={supplier.panNumber} />
+                <Grid size={12}>
+                  <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+                    Address
+                  </Typography>
+                  <Typography variant="body1" sx={{ color: '#000000', whiteSpace: 'pre-line' }}>
+                    {supplier.address || '-'}
+                  </Typography>
+                </Grid>
+              </Grid>
+            </Paper>
+          </Grid>
+          <Grid size={{ xs: 12, md: 4 }}>
+            <Paper sx={{ p: { xs: 2, sm: 3 }, height: '100%', boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+              <Typography variant="h6" sx={sectionTitleSx}>
+                Balances
+              </Typography>
+              <SupplierBalances supplier={supplier} decimals={decimals} />
+            </Paper>
+          </Grid>
+        </Grid>
+
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Tabs
+            value={account}
+            onChange={(_event, value: SupplierAccount) => setAccount(value)}
+            variant="scrollable"
+            allowScrollButtonsMobile
+            sx={{
+              borderBottom: '1px solid #e0e0e0',
+              '& .MuiTab-root.Mui-selected': { color: '#5e3b63' },
+              '& .MuiTabs-indicator': { backgroundColor: '#5e3b63' },
+            }}
+          >
+            <Tab value="money" label="Money" />
+            {METALS.map((metal) => (
+              <Tab key={metal.value} value={metal.value} label={`Fine ${metal.label}`} />
+            ))}
+          </Tabs>
+
+          {ledgerLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress size={24} sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : ledger.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#666666' }}>No entries on this account yet.</Typography>
+            </Box>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table size="small" sx={{ minWidth: 650 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Date</TableCell>
+                    <TableCell sx={headCellSx}>Type</TableCell>
+                    <TableCell sx={headCellSx}>Bill</TableCell>
+                    <TableCell sx={headCellSx}>Reference</TableCell>
+                    <TableCell sx={headCellSx}>Description</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      {account === 'money' ? 'Amount' : 'Fine Wt'}
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Balance
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {ledger.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell sx={bodyCellSx}>{new Date(entry.date).toLocaleDateString()}</TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        {SUPPLIER_LEDGER_ENTRY_TYPES.find((type) => type.value === entry.type)?.label ?? entry.type}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        {entry.purchaseBillId ? (
+                          <Button
+                            size="small"
+                            onClick={() => navigate(`/purchase/bills/${entry.purchaseBillId}`)}
+                            sx={{ color: '#5e3b63', p: 0, minWidth: 0, fontFamily: 'monospace' }}
+                          >
+                            {entry.billNumber}
+                          </Button>
+                        ) : (
+                          '-'
+                        )}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>{entry.reference || '-'}</TableCell>
+                      <TableCell sx={bodyCellSx}>{entry.description || '-'}</TableCell>
+                      <TableCell
+                        sx={{ ...bodyCellSx, color: entry.amount < 0 ? '#2e7d32' : '#000000' }}
+                        align="right"
+                      >
+                        {entry.amount > 0 ? '+' : ''}
+                        {formatEntry(entry.amount)}
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                        {formatEntry(entry.balance)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+
+      {dialog === 'edit' && <SupplierDialog supplier={supplier} onClose={() => setDialog(null)} />}
+      {dialog === 'payment' && (
+        <SupplierPaymentDialog supplier={supplier} decimals={decimals} onClose={() => setDialog(null)} />
+      )}
+      {dialog === 'metalReturn' && <SupplierMetalReturnDialog supplier={supplier} onClose={() => setDialog(null)} />}
+    </DashboardLayout>
+  );
+}
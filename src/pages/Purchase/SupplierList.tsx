@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Alert,
+  Chip,
+  IconButton,
+  FormControlLabel,
+  Checkbox,
+} from '@mui/material';
+import { Add, ArrowBack, Edit, Search } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { fetchSuppliers, type Supplier, type SupplierFilters } from '../../api/suppliers';
+import { formatAmount, formatWeight } from '../../utils/format';
+import { SupplierDialog } from './SupplierDialog';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+const balanceSx = (value: number) => ({
+  ...bodyCellSx,
+  fontWeight: 600,
+  color: value > 0 ? '#d32f2f' : value < 0 ? '#2e7d32' : '#000000',
+});
+
+/**
+ * Suppliers with what we owe each in money and fine metal
+ */
+export function SupplierList() {
+  const navigate = useNavigate();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<SupplierFilters>({});
+  const [dialogSupplier, setDialogSupplier] = useState<Supplier | null | undefined>(undefined);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['suppliers', 'list', filters],
+    queryFn: () => fetchSuppliers(filters),
+  });
+  const suppliers = data?.data ?? [];
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Button startIcon={<ArrowBack />} onClick={() => navigate('/purchase/bills')} sx={{ color: '#5e3b63', mb: 1 }}>
+          Purchase Bills
+        </Button>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Suppliers
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => setDialogSupplier(null)}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            New Supplier
+          </Button>
+        </Box>
+
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            flexWrap: 'wrap',
+            gap: 2,
+          }}
+        >
+          <TextField
+            size="small"
+            label="Search"
+            placeholder="Name, phone, GSTIN or supplier no..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') setFilters((prev) => ({ ...prev, search: search.trim() || undefined }));
+            }}
+            slotProps={{
+              input: {
+                startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+              },
+            }}
+            sx={{ minWidth: { xs: '100%', sm: 320 } }}
+          />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={!!filters.hasBalance}
+                onChange={(e) => setFilters((prev) => ({ ...prev, hasBalance: e.target.checked || undefined }))}
+                sx={{ '&.Mui-checked': { color: '#5e3b63' } }}
+              />
+            }
+            label="With balance only"
+          />
+        </Paper>
+
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading suppliers. Please try again.'}
+              </Alert>
+            </Box>
+          ) : suppliers.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No suppliers found.</Typography>
+            </Box>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table sx={{ minWidth: 650 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Supplier No.</TableCell>
+                    <TableCell sx={headCellSx}>Name</TableCell>
+                    <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>Phone</TableCell>
+                    <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>GSTIN</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Money Balance
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Fine Gold
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Fine Silver
+                    </TableCell>
+                    <TableCell sx={headCellSx}>Status</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Actions
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {suppliers.map((supplier) => (
+                    <TableRow
+                      key={supplier.id}
+                      hover
+                      onClick={() => navigate(`/purchase/suppliers/${supplier.id}`)}
+                      sx={{ cursor: 'pointer' }}
+                    >
+                      <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{supplier.supplierNumber}</TableCell>
+                      <TableCell sx={bodyCellSx}>{supplier.name}</TableCell>
+                      <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        {supplier.phone || '-'}
+                      </TableCell>
+                      <TableCell
+                        sx={{ ...bodyCellSx, fontFamily: 'monospace', display: { xs: 'none', md: 'table-cell' } }}
+                      >
+                        {supplier.gstin || '-'}
+                      </TableCell>
+                      <TableCell sx={balanceSx(supplier.balance)} align="right">
+                        {formatAmount(supplier.balance, decimals)}
+                      </TableCell>
+                      <TableCell sx={balanceSx(supplier.fineBalances.gold)} align="right">
+                        {formatWeight(supplier.fineBalances.gold)}
+                      </TableCell>
+                      <TableCell sx={balanceSx(supplier.fineBalances.silver)} align="right">
+                        {formatWeight(supplier.fineBalances.silver)}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        <Chip
+                          label={supplier.isActive ? 'Active' : 'Inactive'}
+                          color={supplier.isActive ? 'success' : 'default'}
+                          size="small"
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        <IconButton
+                          size="small"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDialogSupplier(supplier);
+                          }}
+                          sx={{ color: '#5e3b63' }}
+                        >
+                          <Edit fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+
+      {dialogSupplier !== undefined && (
+        <SupplierDialog supplier={dialogSupplier} onClose={() => setDialogSupplier(undefined)} />
+      )}
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { METALS, type Metal } from '../../api/metalRates';
+import { recordSupplierMetalReturn, type Supplier } from '../../api/suppliers';
+import { roundTo } from '../../utils/rounding';
+import { formatWeight } from '../../utils/format';
+
+interface SupplierMetalReturnDialogProps {
+  supplier: Supplier;
+  onClose: () => void;
+}
+
+/**
+ * Record fine metal handed to a supplier to settle their metal account.
+ * Fine weight is the gross weight at the touch agreed with the supplier.
+ */
+export function SupplierMetalReturnDialog({ supplier, onClose }: SupplierMetalReturnDialogProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    date: new Date().toISOString().slice(0, 10),
+    metal: 'gold' as Metal,
+    grossWeight: '',
+    touchPercent: '99.5',
+    notes: '',
+  });
+
+  const grossWeight = parseFloat(form.grossWeight);
+  const touchPercent = parseFloat(form.touchPercent);
+  const fineWeight = grossWeight > 0 && touchPercent > 0 ? roundTo((grossWeight * touchPercent) / 100, 3) : 0;
+  const invalid = !form.date || fineWeight <= 0 || touchPercent > 100;
+
+  const returnMutation = useMutation({
+    mutationFn: () =>
+      recordSupplierMetalReturn(supplier.id, {
+        date: form.date,
+        metal: form.metal,
+        grossWeight,
+        touchPercent,
+        fineWeight,
+        notes: form.notes.trim() || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      onClose();
+    },
+  });
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Return Metal</DialogTitle>
+      <DialogContent>
+        <TextField
+          fullWidth
+          type="date"
+          label="Date"
+          margin="dense"
+          value={form.date}
+          onChange={(e) => setForm({ ...form, date: e.target.value })}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <TextField
+          select
+          fullWidth
+          label="Metal"
+          margin="dense"
+          value={form.metal}
+          onChange={(e) => setForm({ ...form, metal: e.target.value as Metal })}
+          helperText={`Currently owed: ${formatWeight(supplier.fineBalances[form.metal])} fine`}
+        >
+          {METALS.map((metal) => (
+            <MenuItem key={metal.value} value={metal.value}>
+              {metal.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          autoFocus
+          fullWidth
+          type="number"
+          label="Gross Weight (g)"
+          margin="dense"
+          value={form.grossWeight}
+          onChange={(e) => setForm({ ...form, grossWeight: e.target.value })}
+          slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+        />
+        <TextField
+          fullWidth
+          type="number"
+          label="Touch (%)"
+          margin="dense"
+          value={form.touchPercent}
+          onChange={(e) => setForm({ ...form, touchPercent: e.target.value })}
+          slotProps={{ htmlInput: { min: 0, max: 100, step: '0.01' } }}
+        />
+        <Typography sx={{ color: '#5e3b63', fontWeight: 600, mt: 1 }}>
+          Fine weight: {formatWeight(fineWeight)}
+        </Typography>
+        <TextField
+          fullWidth
+          label="Notes"
+          margin="dense"
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+        />
+        {returnMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(returnMutation.error, 'Failed to record metal return')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={invalid || returnMutation.isPending}
+          onClick={() => returnMutation.mutate()}
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { PAYMENT_MODES } from '../../api/config';
+import { recordSupplierPayment, type Supplier } from '../../api/suppliers';
+import { formatAmount } from '../../utils/format';
+
+interface SupplierPaymentDialogProps {
+  supplier: Supplier;
+  decimals: number;
+  onClose: () => void;
+}
+
+/**
+ * Record money paid to a supplier against their money account
+ */
+export function SupplierPaymentDialog({ supplier, decimals, onClose }: SupplierPaymentDialogProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    date: new Date().toISOString().slice(0, 10),
+    amount: supplier.balance > 0 ? supplier.balance.toString() : '',
+    mode: 'bank_transfer',
+    reference: '',
+    notes: '',
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: () =>
+      recordSupplierPayment(supplier.id, {
+        date: form.date,
+        amount: parseFloat(form.amount),
+        mode: form.mode,
+        reference: form.reference.trim() || undefined,
+        notes: form.notes.trim() || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['suppliers'] });
+      onClose();
+    },
+  });
+
+  const amount = parseFloat(form.amount);
+  const invalid = !form.date || isNaN(amount) || amount <= 0;
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Record Payment</DialogTitle>
+      <DialogContent>
+        <TextField
+          fullWidth
+          type="date"
+          label="Date"
+          margin="dense"
+          value={form.date}
+          onChange={(e) => setForm({ ...form, date: e.target.value })}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <TextField
+          autoFocus
+          fullWidth
+          type="number"
+          label="Amount"
+          margin="dense"
+          value={form.amount}
+          onChange={(e) => setForm({ ...form, amount: e.target.value })}
+          helperText={`Currently owed: ${formatAmount(supplier.balance, decimals)}`}
+          slotProps={{ htmlInput: { min: 0, step: 'any' } }}
+        />
+        <TextField
+          select
+          fullWidth
+          label="Mode"
+          margin="dense"
+          value={form.mode}
+          onChange={(e) => setForm({ ...form, mode: e.target.value })}
+        >
+          {PAYMENT_MODES.map((mode) => (
+            <MenuItem key={mode.value} value={mode.value}>
+              {mode.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          fullWidth
+          label="Reference"
+          placeholder="Cheque no., UTR or UPI ref"
+          margin="dense"
+          value={form.reference}
+          onChange={(e) => setForm({ ...form, reference: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          label="Notes"
+          margin="dense"
+          value={form.notes}
+          onChange={(e) => setForm({ ...form, notes: e.target.value })}
+        />
+        {paymentMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(paymentMutation.error, 'Failed to record payment')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={invalid || paymentMutation.isPending}
+          onClick={() => paymentMutation.mutate()}
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import type { PurchaseLine } from '../../api/purchases';
+import type { PurchaseLineInput } from '../../utils/purchase';
+
+const decimalString = (message: string) =>
+  z.string().refine(
+    (val) => {
+      if (!val || val === '') return true;
+      const num = parseFloat(val);
+      return !isNaN(num) && num >= 0;
+    },
+    { message }
+  );
+
+const stoneLineSchema = z.object({
+  stoneType: z.string().min(1, 'Stone type is required'),
+  pieces: z.string().refine((val) => /^\d+$/.test(val) && parseInt(val, 10) > 0, {
+    message: 'Pieces must be at least 1',
+  }),
+  weightCarat: decimalString('Weight must be a positive number'),
+  ratePerCarat: decimalString('Rate must be a positive number'),
+});
+
+const purchaseLineSchema = z
+  .object({
+    description: z.string().min(1, 'Description is required'),
+    category: z.string().min(1, 'Category is required'),
+    metal: z.enum(['gold', 'silver', 'platinum']),
+    purity: z.string(),
+    pieces: z.string().refine((val) => /^\d+$/.test(val) && parseInt(val, 10) > 0, {
+      message: 'Pieces must be at least 1',
+    }),
+    grossWeight: z
+      .string()
+      .min(1, 'Gross weight is required')
+      .refine((val) => parseFloat(val) > 0, { message: 'Gross weight must be greater than 0' }),
+    netWeight: decimalString('Net weight must be a positive number'),
+    touchPercent: z
+      .string()
+      .min(1, 'Touch is required')
+      .refine((val) => parseFloat(val) > 0 && parseFloat(val) <= 100, { message: 'Touch must be 0-100%' }),
+    ratePerGram: decimalString('Rate must be a positive number'),
+    labourType: z.enum(['per_gram', 'per_piece', 'flat']),
+    labourRate: decimalString('Labour must be a positive number'),
+    stones: z.array(stoneLineSchema),
+  })
+  .superRefine((line, ctx) => {
+    const gross = parseFloat(line.grossWeight);
+    const net = parseFloat(line.netWeight);
+    if (!isNaN(gross) && !isNaN(net) && net > gross) {
+      ctx.addIssue({ code: 'custom', path: ['netWeight'], message: 'Net weight cannot exceed gross weight' });
+    }
+  });
+
+export const purchaseFormSchema = z.object({
+  supplierId: z.string().min(1, 'Supplier is required'),
+  date: z.string().min(1, 'Date is required'),
+  expectedDate: z.string(),
+  supplierBillNumber: z.string(),
+  notes: z.string(),
+  lines: z.array(purchaseLineSchema).min(1, 'Add at least one line'),
+});
+
+export type PurchaseFormData = z.infer<typeof purchaseFormSchema>;
+export type PurchaseLineFormData = PurchaseFormData['lines'][number];
+
+export const emptyStone: PurchaseLineFormData['stones'][number] = {
+  stoneType: 'diamond',
+  pieces: '1',
+  weightCarat: '',
+  ratePerCarat: '',
+};
+
+export const emptyLine: PurchaseLineFormData = {
+  description: '',
+  category: '',
+  metal: 'gold',
+  purity: '',
+  pieces: '1',
+  grossWeight: '',
+  netWeight: '',
+  touchPercent: '',
+  ratePerGram: '',
+  labourType: 'per_gram',
+  labourRate: '',
+  stones: [],
+};
+
+const parseNumber = (val: string) => (val ? parseFloat(val) || 0 : 0);
+
+/**
+ * Parse a form line into calculator input. Net weight defaults to gross when left blank.
+ */
+export function toPurchaseLineInput(line: PurchaseLineFormData): PurchaseLineInput {
+  const grossWeight = parseNumber(line.grossWeight);
+  return {
+    description: line.description,
+    category: line.category,
+    metal: line.metal,
+    purity: line.purity || null,
+    pieces: parseInt(line.pieces, 10) || 0,
+    grossWeight,
+    netWeight: line.netWeight ? parseNumber(line.netWeight) : grossWeight,
+    touchPercent: parseNumber(line.touchPercent),
+    ratePerGram: parseNumber(line.ratePerGram),
+    labourType: line.labourType,
+    labourRate: parseNumber(line.labourRate),
+    stones: line.stones.map((stone) => ({
+      stoneType: stone.stoneType,
+      shape: null,
+      pieces: parseInt(stone.pieces, 10) || 0,
+      weightCarat: parseNumber(stone.weightCarat),
+      ratePerCarat: parseNumber(stone.ratePerCarat),
+      amount: 0,
+    })),
+  };
+}
+
+/**
+ * Turn a saved line (e.g. from a purchase order) back into form values
+ */
+export function toPurchaseLineFormData(line: PurchaseLine): PurchaseLineFormData {
+  return {
+    description: line.description,
+    category: line.category,
+    metal: line.metal,
+    purity: line.purity || '',
+    pieces: line.pieces.toString(),
+    grossWeight: line.grossWeight.toString(),
+    netWeight: line.netWeight.toString(),
+    touchPercent: line.touchPercent.toString(),
+    ratePerGram: line.ratePerGram ? line.ratePerGram.toString() : '',
+    labourType: line.labourType,
+    labourRate: line.labourRate ? line.labourRate.toString() : '',
+    stones: line.stones.map((stone) => ({
+      stoneType: stone.stoneType,
+      pieces: stone.pieces.toString(),
+      weightCarat: stone.weightCarat.toString(),
+      ratePerCarat: stone.ratePerCarat.toString(),
+    })),
+  };
+}
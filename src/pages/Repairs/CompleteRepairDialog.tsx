@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grid,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { completeRepairOrder, type RepairOrder } from '../../api/repairs';
+import { compareRepairWeights } from '../../utils/repairs';
+import { formatWeight } from '../../utils/format';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface CompleteRepairDialogProps {
+  order: RepairOrder;
+  onClose: () => void;
+}
+
+/**
+ * Record the piece back from the karigar. The weight out is compared with
+ * the weight in as it is typed so a difference is caught at the counter.
+ */
+export function CompleteRepairDialog({ order, onClose }: CompleteRepairDialogProps) {
+  const queryClient = useQueryClient();
+  const [completedDate, setCompletedDate] = useState(today());
+  const [weightOut, setWeightOut] = useState('');
+  const [finalCharges, setFinalCharges] = useState(order.estimatedCharges.toString());
+  const [completionNotes, setCompletionNotes] = useState('');
+
+  const completeMutation = useMutation({
+    mutationFn: () =>
+      completeRepairOrder(order.id, {
+        completedDate,
+        weightOut: parseFloat(weightOut),
+        finalCharges: parseFloat(finalCharges) || 0,
+        completionNotes: completionNotes.trim() || null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['repairs'] });
+      onClose();
+    },
+  });
+
+  const weightOutValue = parseFloat(weightOut);
+  const check = weightOutValue > 0 ? compareRepairWeights(order.weightIn, weightOutValue) : null;
+  const invalid = !completedDate || !(weightOutValue > 0) || (check?.flagged && !completionNotes.trim());
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Receive from Karigar · {order.orderNumber}</DialogTitle>
+      <DialogContent>
+        <Grid container spacing={2} sx={{ mt: 0.5 }}>
+          <Grid size={{ xs: 12, sm: 6 }}>
+            <TextField
+              type="date"
+              fullWidth
+              size="small"
+              label="Received On"
+              value={completedDate}
+              onChange={(e) => setCompletedDate(e.target.value)}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 6 }}>
+            <TextField
+              type="number"
+              fullWidth
+              size="small"
+              label="Weight Out (g)"
+              value={weightOut}
+              onChange={(e) => setWeightOut(e.target.value)}
+              helperText={`Weight in was ${formatWeight(order.weightIn)}`}
+              slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+            />
+          </Grid>
+          <Grid size={{ xs: 12, sm: 6 }}>
+            <TextField
+              type="number"
+              fullWidth
+              size="small"
+              label="Final Charges"
+              value={finalCharges}
+              onChange={(e) => setFinalCharges(e.target.value)}
+              slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+            />
+          </Grid>
+          <Grid size={12}>
+            <TextField
+              fullWidth
+              size="small"
+              label="Work Done"
+              multiline
+              rows={2}
+              value={completionNotes}
+              onChange={(e) => setCompletionNotes(e.target.value)}
+              error={!!check?.flagged && !completionNotes.trim()}
+              helperText={
+                check?.flagged ? 'Explain the weight difference, e.g. metal added for resizing' : undefined
+              }
+            />
+          </Grid>
+        </Grid>
+        {check &&
+          (check.flagged ? (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              The piece is {formatWeight(Math.abs(check.difference))}{' '}
+              {check.difference < 0 ? 'lighter' : 'heavier'} than when it came in (
+              {check.differencePercent > 0 ? '+' : ''}
+              {check.differencePercent}%). Show the customer before delivery.
+            </Alert>
+          ) : (
+            <Typography variant="body2" sx={{ color: '#2e7d32', mt: 2 }}>
+              Weight matches intake.
+            </Typography>
+          ))}
+        {completeMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(completeMutation.error, 'Failed to record completion')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={invalid || completeMutation.isPending}
+          onClick={() => completeMutation.mutate()}
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Mark Ready
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,466 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Card,
+  CardContent,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  IconButton,
+  Snackbar,
+  Alert,
+  Divider,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { AddAPhoto, Close } from '@mui/icons-material';
+import { useForm, useWatch, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { CustomerSelect } from '../../components/Customer/CustomerSelect';
+import { getApiErrorMessage } from '../../api/client';
+import type { Customer } from '../../api/customers';
+import { METALS, METAL_PURITIES } from '../../api/metalRates';
+import { REPAIR_SERVICE_TYPES, createRepairOrder, uploadRepairPhotos } from '../../api/repairs';
+
+const repairSchema = z.object({
+  customerId: z.string().min(1, 'Customer is required'),
+  intakeDate: z.string().min(1, 'Date is required'),
+  promisedDate: z.string(),
+  serviceType: z.enum(['repair', 'resizing', 'polishing', 'rhodium', 'stone_setting', 'other']),
+  description: z.string().min(1, 'Describe the piece and the work needed'),
+  metal: z.enum(['gold', 'silver', 'platinum']),
+  purity: z.string(),
+  pieces: z
+    .string()
+    .min(1, 'Pieces is required')
+    .refine((val) => Number.isInteger(Number(val)) && Number(val) > 0, { message: 'Pieces must be a whole number' }),
+  weightIn: z
+    .string()
+    .min(1, 'Weight in is required')
+    .refine((val) => parseFloat(val) > 0, { message: 'Weight must be greater than 0' }),
+  estimatedCharges: z.string().refine((val) => !val || parseFloat(val) >= 0, {
+    message: 'Charges must be a positive number',
+  }),
+  notes: z.string(),
+});
+
+type RepairFormData = z.infer<typeof repairSchema>;
+
+interface PhotoPreview {
+  file: File;
+  url: string;
+}
+
+const sectionTitleSx = {
+  color: '#0d0421',
+  fontWeight: 600,
+  mb: 1,
+  fontSize: { xs: '1rem', sm: '1.1rem' },
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Take in a customer's piece for repair, resizing or polishing. The piece is
+ * weighed and photographed at the counter so its condition on intake is on
+ * record.
+ */
+export function RepairOrderForm() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [photos, setPhotos] = useState<PhotoPreview[]>([]);
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const {
+    control,
+    handleSubmit,
+    formState: { errors },
+    setValue,
+  } = useForm<RepairFormData>({
+    resolver: zodResolver(repairSchema),
+    defaultValues: {
+      customerId: '',
+      intakeDate: today(),
+      promisedDate: '',
+      serviceType: 'repair',
+      description: '',
+      metal: 'gold',
+      purity: '22K',
+      pieces: '1',
+      weightIn: '',
+      estimatedCharges: '',
+      notes: '',
+    },
+  });
+
+  const metal = useWatch({ control, name: 'metal' });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: RepairFormData) => {
+      const order = await createRepairOrder({
+        intakeDate: data.intakeDate,
+        promisedDate: data.promisedDate || null,
+        customerId: data.customerId,
+        serviceType: data.serviceType,
+        description: data.description,
+        metal: data.metal,
+        purity: data.purity || null,
+        pieces: parseInt(data.pieces, 10),
+        weightIn: parseFloat(data.weightIn),
+        estimatedCharges: data.estimatedCharges ? parseFloat(data.estimatedCharges) : 0,
+        notes: data.notes || null,
+      });
+      return photos.length > 0 ? uploadRepairPhotos(order.id, photos.map((photo) => photo.file)) : order;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ['repairs'] });
+      navigate(`/repairs/${order.id}`);
+    },
+    onError: (error) => setSnackbarMessage(getApiErrorMessage(error, 'Failed to save repair order')),
+  });
+
+  const handleAddPhotos = (files: FileList | null) => {
+    if (!files) return;
+    const added = Array.from(files).map((file) => ({ file, url: URL.createObjectURL(file) }));
+    setPhotos((prev) => [...prev, ...added]);
+  };
+
+  const handleRemovePhoto = (index: number) => {
+    URL.revokeObjectURL(photos[index].url);
+    setPhotos((prev) => prev.filter((_photo, i) => i !== index));
+  };
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{
+            color: '#000000',
+            fontWeight: 600,
+            mb: 3,
+            fontSize: { xs: '1.5rem', sm: '1.75rem' },
+          }}
+        >
+          New Repair Order
+        </Typography>
+
+        <Card elevation={0} sx={{ border: '1px solid #e0e0e0', borderRadius: 2 }}>
+          <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+            <form onSubmit={handleSubmit((data) => saveMutation.mutate(data))}>
+              <Grid container spacing={3}>
+                <Grid size={{ xs: 12, md: 6 }}>
+                  <CustomerSelect
+                    value={customer}
+                    label="Customer"
+                    placeholder="Search by name, phone or customer no."
+                    onChange={(selected) => {
+                      setCustomer(selected);
+                      setValue('customerId', selected?.id ?? '', { shouldValidate: true });
+                    }}
+                    error={errors.customerId?.message}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="intakeDate"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="date"
+                        label="Received On"
+                        fullWidth
+                        size="small"
+                        error={!!errors.intakeDate}
+                        helperText={errors.intakeDate?.message}
+                        slotProps={{ inputLabel: { shrink: true } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="promisedDate"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="date"
+                        label="Promised By"
+                        fullWidth
+                        size="small"
+                        slotProps={{ inputLabel: { shrink: true } }}
+                      />
+                    )}
+                  />
+                </Grid>
+
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                    Piece
+                  </Typography>
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="serviceType"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField {...field} select label="Service" fullWidth size="small">
+                        {REPAIR_SERVICE_TYPES.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 6, sm: 3, md: 3 }}>
+                  <Controller
+                    name="metal"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        select
+                        label="Metal"
+                        fullWidth
+                        size="small"
+                        onChange={(e) => {
+                          field.onChange(e);
+                          setValue('purity', '');
+                        }}
+                      >
+                        {METALS.map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 6, sm: 3, md: 2 }}>
+                  <Controller
+                    name="purity"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField {...field} select label="Purity" fullWidth size="small">
+                        <MenuItem value="">Not known</MenuItem>
+                        {METAL_PURITIES[metal].map((option) => (
+                          <MenuItem key={option.value} value={option.value}>
+                            {option.label}
+                          </MenuItem>
+                        ))}
+                      </TextField>
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 4, md: 1 }}>
+                  <Controller
+                    name="pieces"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="number"
+                        label="Pcs"
+                        fullWidth
+                        size="small"
+                        error={!!errors.pieces}
+                        helperText={errors.pieces?.message}
+                        slotProps={{ htmlInput: { min: 1, step: 1 } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 8, sm: 6, md: 3 }}>
+                  <Controller
+                    name="weightIn"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="number"
+                        label="Weight In (g)"
+                        fullWidth
+                        size="small"
+                        error={!!errors.weightIn}
+                        helperText={errors.weightIn?.message ?? 'Weigh in front of the customer'}
+                        slotProps={{ htmlInput: { min: 0, step: '0.001' } }}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, md: 9 }}>
+                  <Controller
+                    name="description"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        label="Description"
+                        placeholder="e.g. Ladies ring, size 12 to 14, one prong loose"
+                        fullWidth
+                        multiline
+                        rows={2}
+                        error={!!errors.description}
+                        helperText={errors.description?.message}
+                      />
+                    )}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+                  <Controller
+                    name="estimatedCharges"
+                    control={control}
+                    render={({ field }) => (
+                      <TextField
+                        {...field}
+                        type="number"
+                        label="Estimated Charges"
+                        fullWidth
+                        size="small"
+                        error={!!errors.estimatedCharges}
+                        helperText={errors.estimatedCharges?.message}
+                        slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+                      />
+                    )}
+                  />
+                </Grid>
+
+                <Grid size={12}>
+                  <Divider sx={{ my: 1 }} />
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                    <Typography variant="h6" component="h3" sx={sectionTitleSx}>
+                      Photos
+                    </Typography>
+                    <Button component="label" startIcon={<AddAPhoto />} sx={{ color: '#5e3b63', fontWeight: 600 }}>
+                      Add Photos
+                      <input
+                        hidden
+                        multiple
+                        type="file"
+                        accept="image/*"
+                        capture="environment"
+                        onChange={(e) => {
+                          handleAddPhotos(e.target.files);
+                          e.target.value = '';
+                        }}
+                      />
+                    </Button>
+                  </Box>
+                  {photos.length === 0 ? (
+                    <Typography variant="body2" sx={{ color: '#666666' }}>
+                      Photograph the piece from each side, showing any existing damage.
+                    </Typography>
+                  ) : (
+                    <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+                      {photos.map((photo, index) => (
+                        <Box key={photo.url} sx={{ position: 'relative' }}>
+                          <Box
+                            component="img"
+                            src={photo.url}
+                            alt={photo.file.name}
+                            sx={{
+                              width: 120,
+                              height: 120,
+                              objectFit: 'cover',
+                              borderRadius: 1,
+                              border: '1px solid #e0e0e0',
+                            }}
+                          />
+                          <IconButton
+                            size="small"
+                            aria-label="remove photo"
+                            onClick={() => handleRemovePhoto(index)}
+                            sx={{
+                              position: 'absolute',
+                              top: 4,
+                              right: 4,
+                              backgroundColor: 'rgba(255, 255, 255, 0.85)',
+                              '&:hover': { backgroundColor: '#ffffff' },
+                            }}
+                          >
+                            <Close fontSize="small" />
+                          </IconButton>
+                        </Box>
+                      ))}
+                    </Box>
+                  )}
+                </Grid>
+
+                <Grid size={12}>
+                  <Controller
+                    name="notes"
+                    control={control}
+                    render={({ field }) => <TextField {...field} label="Notes" fullWidth multiline rows={2} />}
+                  />
+                </Grid>
+
+                {/* Action Buttons */}
+                <Grid size={12}>
+                  <Divider sx={{ my: 2 }} />
+                  <Box
+                    sx={{
+                      display: 'flex',
+                      flexDirection: { xs: 'column', sm: 'row' },
+                      justifyContent: 'flex-end',
+                      gap: 2,
+                    }}
+                  >
+                    <Button
+                      type="button"
+                      variant="outlined"
+                      onClick={() => navigate('/repairs')}
+                      fullWidth={isMobile}
+                      sx={{ borderColor: '#5e3b63', color: '#5e3b63', px: 3, fontWeight: 600 }}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant="contained"
+                      disabled={saveMutation.isPending}
+                      fullWidth={isMobile}
+                      sx={{
+                        backgroundColor: '#5e3b63',
+                        px: 3,
+                        fontWeight: 600,
+                        '&:hover': { backgroundColor: '#4a2d4f' },
+                      }}
+                    >
+                      Save Order
+                    </Button>
+                  </Box>
+                </Grid>
+              </Grid>
+            </form>
+          </CardContent>
+        </Card>
+      </Box>
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,573 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  MenuItem,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, Block, Engineering, AssignmentReturn, LocalShipping, Print } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { paymentModeLabel } from '../../components/Invoice/templates';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import { PAYMENT_MODES, getGeneralConfig, type GeneralConfig } from '../../api/config';
+import { fetchKarigars } from '../../api/karigars';
+import {
+  REPAIR_ORDER_STATUSES,
+  REPAIR_SERVICE_TYPES,
+  assignRepairOrder,
+  cancelRepairOrder,
+  deliverRepairOrder,
+  fetchRepairOrder,
+  type RepairOrder,
+} from '../../api/repairs';
+import { compareRepairWeights } from '../../utils/repairs';
+import { formatAmount, formatWeight } from '../../utils/format';
+import { CompleteRepairDialog } from './CompleteRepairDialog';
+
+const cellSx = { color: '#000000', fontSize: '0.85rem', py: 0.75, px: 1 };
+const labelCellSx = { ...cellSx, fontWeight: 600, width: 180 };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export function RepairOrderView() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [assignDialogOpen, setAssignDialogOpen] = useState(false);
+  const [karigarId, setKarigarId] = useState('');
+  const [completeDialogOpen, setCompleteDialogOpen] = useState(false);
+  const [deliverDialogOpen, setDeliverDialogOpen] = useState(false);
+  const [delivery, setDelivery] = useState({ deliveredDate: today(), mode: 'cash', reference: '' });
+  const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+
+  const { data: order, isLoading, error } = useQuery<RepairOrder>({
+    queryKey: ['repairs', id],
+    queryFn: () => fetchRepairOrder(id as string),
+    enabled: !!id,
+  });
+
+  const { data: generalConfig } = useQuery<GeneralConfig>({
+    queryKey: ['config', 'general'],
+    queryFn: getGeneralConfig,
+  });
+
+  const { data: karigarsData } = useQuery({
+    queryKey: ['karigars', 'list', ''],
+    queryFn: () => fetchKarigars(),
+    enabled: assignDialogOpen,
+  });
+  const karigars = (karigarsData?.data ?? []).filter((karigar) => karigar.isActive);
+
+  const assignMutation = useMutation({
+    mutationFn: () => assignRepairOrder(id as string, karigarId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['repairs'] });
+      setAssignDialogOpen(false);
+    },
+  });
+
+  const deliverMutation = useMutation({
+    mutationFn: (charges: number) =>
+      deliverRepairOrder(id as string, {
+        deliveredDate: delivery.deliveredDate,
+        paymentMode: charges > 0 ? delivery.mode : null,
+        paymentReference: charges > 0 ? delivery.reference.trim() || null : null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['repairs'] });
+      setDeliverDialogOpen(false);
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => cancelRepairOrder(id as string),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['repairs'] });
+      setCancelDialogOpen(false);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !order) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Repair order not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const status = REPAIR_ORDER_STATUSES.find((option) => option.value === order.status);
+  const serviceLabel =
+    REPAIR_SERVICE_TYPES.find((option) => option.value === order.serviceType)?.label ?? order.serviceType;
+  const weightCheck = order.weightOut !== null ? compareRepairWeights(order.weightIn, order.weightOut) : null;
+  const charges = order.finalCharges ?? order.estimatedCharges;
+  const isDelivered = order.status === 'delivered';
+  const canCancel = order.status === 'received' || order.status === 'with_karigar';
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1000, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 2,
+          }}
+        >
+          <Box>
+            <Button startIcon={<ArrowBack />} onClick={() => navigate('/repairs')} sx={{ color: '#5e3b63', mb: 1 }}>
+              Repair Orders
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {order.orderNumber}
+              </Typography>
+              <Chip
+                label={status?.label ?? order.status}
+                color={status?.color ?? 'default'}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+            {canCancel && (
+              <Button
+                variant="outlined"
+                startIcon={<Block />}
+                onClick={() => setCancelDialogOpen(true)}
+                sx={{ borderColor: '#d32f2f', color: '#d32f2f', fontWeight: 600 }}
+              >
+                Cancel
+              </Button>
+            )}
+            {order.status === 'received' && (
+              <Button
+                variant="outlined"
+                startIcon={<Engineering />}
+                onClick={() => {
+                  setKarigarId(order.karigarId ?? '');
+                  setAssignDialogOpen(true);
+                }}
+                sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+              >
+                Assign Karigar
+              </Button>
+            )}
+            {order.status === 'with_karigar' && (
+              <Button
+                variant="outlined"
+                startIcon={<AssignmentReturn />}
+                onClick={() => setCompleteDialogOpen(true)}
+                sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+              >
+                Receive from Karigar
+              </Button>
+            )}
+            {order.status === 'ready' && (
+              <Button
+                variant="outlined"
+                startIcon={<LocalShipping />}
+                onClick={() => setDeliverDialogOpen(true)}
+                sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+              >
+                Deliver
+              </Button>
+            )}
+            <Button
+              variant="contained"
+              startIcon={<Print />}
+              onClick={() => window.print()}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              {isDelivered ? 'Print Receipt' : 'Print Slip'}
+            </Button>
+          </Box>
+        </Box>
+
+        {weightCheck?.flagged && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            Weight out differs from weight in by {weightCheck.difference > 0 ? '+' : '-'}
+            {formatWeight(Math.abs(weightCheck.difference))} ({weightCheck.differencePercent}%).
+            {order.completionNotes ? ` Karigar note: ${order.completionNotes}` : ''}
+          </Alert>
+        )}
+
+        <Paper className="print-area" sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)', overflowX: 'auto', mb: 3 }}>
+          <Box sx={{ color: '#000000', backgroundColor: '#ffffff', p: 3 }}>
+            {/* Header */}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
+              <Box>
+                <Typography sx={{ fontWeight: 700, fontSize: '1.25rem' }}>
+                  {generalConfig?.organizationName || ''}
+                </Typography>
+                {generalConfig?.address && (
+                  <Typography sx={{ fontSize: '0.8rem', whiteSpace: 'pre-line' }}>{generalConfig.address}</Typography>
+                )}
+                {generalConfig?.phone && (
+                  <Typography sx={{ fontSize: '0.8rem' }}>Phone: {generalConfig.phone}</Typography>
+                )}
+              </Box>
+              <Box sx={{ textAlign: 'right' }}>
+                <Typography sx={{ fontWeight: 700, fontSize: '1.1rem', letterSpacing: 1 }}>
+                  {isDelivered ? 'REPAIR DELIVERY RECEIPT' : 'REPAIR INTAKE SLIP'}
+                </Typography>
+                <Typography sx={{ fontSize: '0.85rem' }}>No: {order.orderNumber}</Typography>
+                <Typography sx={{ fontSize: '0.85rem' }}>
+                  Received: {new Date(order.intakeDate).toLocaleDateString()}
+                </Typography>
+                {isDelivered && order.deliveredDate ? (
+                  <Typography sx={{ fontSize: '0.85rem' }}>
+                    Delivered: {new Date(order.deliveredDate).toLocaleDateString()}
+                  </Typography>
+                ) : (
+                  order.promisedDate && (
+                    <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>
+                      Promised: {new Date(order.promisedDate).toLocaleDateString()}
+                    </Typography>
+                  )
+                )}
+              </Box>
+            </Box>
+
+            {/* Customer */}
+            <Box sx={{ border: '1px solid #000000', p: 1.5, mb: 2 }}>
+              <Typography sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Customer</Typography>
+              <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>
+                {order.customer.name} ({order.customer.customerNumber})
+              </Typography>
+              {order.customer.phone && (
+                <Typography sx={{ fontSize: '0.8rem' }}>Phone: {order.customer.phone}</Typography>
+              )}
+            </Box>
+
+            {/* Piece */}
+            <Table size="small" sx={{ mb: 2 }}>
+              <TableBody>
+                <TableRow>
+                  <TableCell sx={labelCellSx}>Service</TableCell>
+                  <TableCell sx={cellSx}>{serviceLabel}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell sx={labelCellSx}>Piece</TableCell>
+                  <TableCell sx={{ ...cellSx, whiteSpace: 'pre-line' }}>{order.description}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell sx={labelCellSx}>Metal</TableCell>
+                  <TableCell sx={{ ...cellSx, textTransform: 'capitalize' }}>
+                    {order.metal}
+                    {order.purity ? ` ${order.purity}` : ''} · {order.pieces} {order.pieces === 1 ? 'pc' : 'pcs'}
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell sx={labelCellSx}>Weight In</TableCell>
+                  <TableCell sx={cellSx}>{formatWeight(order.weightIn)}</TableCell>
+                </TableRow>
+                {order.weightOut !== null && weightCheck && (
+                  <>
+                    <TableRow>
+                      <TableCell sx={labelCellSx}>Weight Out</TableCell>
+                      <TableCell sx={cellSx}>{formatWeight(order.weightOut)}</TableCell>
+                    </TableRow>
+                    <TableRow>
+                      <TableCell sx={labelCellSx}>Difference</TableCell>
+                      <TableCell
+                        sx={{
+                          ...cellSx,
+                          fontWeight: weightCheck.flagged ? 700 : 400,
+                          color: weightCheck.flagged ? '#d32f2f' : '#000000',
+                        }}
+                      >
+                        {weightCheck.difference > 0 ? '+' : ''}
+                        {formatWeight(weightCheck.difference)} ({weightCheck.differencePercent}%)
+                      </TableCell>
+                    </TableRow>
+                  </>
+                )}
+                <TableRow>
+                  <TableCell sx={labelCellSx}>
+                    {order.finalCharges !== null ? 'Charges' : 'Estimated Charges'}
+                  </TableCell>
+                  <TableCell sx={{ ...cellSx, fontWeight: 600 }}>{formatAmount(charges, decimals)}</TableCell>
+                </TableRow>
+                {isDelivered && order.paymentMode && (
+                  <TableRow>
+                    <TableCell sx={labelCellSx}>Paid By</TableCell>
+                    <TableCell sx={cellSx}>
+                      {paymentModeLabel(order.paymentMode)}
+                      {order.paymentReference ? ` (${order.paymentReference})` : ''}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {order.completionNotes && (
+                  <TableRow>
+                    <TableCell sx={labelCellSx}>Work Done</TableCell>
+                    <TableCell sx={cellSx}>{order.completionNotes}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            <Typography sx={{ fontSize: '0.75rem', mb: 4 }}>
+              {isDelivered
+                ? 'I have received the above piece back and checked its weight and condition.'
+                : 'Please bring this slip when collecting. The piece was weighed and photographed in your presence.'}
+            </Typography>
+            {order.notes && <Typography sx={{ fontSize: '0.8rem', mb: 2 }}>Notes: {order.notes}</Typography>}
+
+            {/* Signatures */}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 6 }}>
+              <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5, px: 2 }}>
+                Customer Signature
+              </Typography>
+              <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5, px: 2 }}>
+                Authorised Signatory
+              </Typography>
+            </Box>
+          </Box>
+        </Paper>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography
+            variant="h6"
+            sx={{ color: '#000000', fontWeight: 600, mb: 2, borderBottom: '2px solid #5e3b63', pb: 1 }}
+          >
+            Intake Photos
+          </Typography>
+          {order.photos.length === 0 ? (
+            <Typography sx={{ color: '#000000' }}>No photos were taken at intake.</Typography>
+          ) : (
+            <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+              {order.photos.map((photo) => (
+                <Box key={photo.id} component="a" href={photo.url} target="_blank" rel="noopener noreferrer">
+                  <Box
+                    component="img"
+                    src={photo.url}
+                    alt={photo.name}
+                    sx={{
+                      width: 160,
+                      height: 160,
+                      objectFit: 'cover',
+                      borderRadius: 1,
+                      border: '1px solid #e0e0e0',
+                    }}
+                  />
+                </Box>
+              ))}
+            </Box>
+          )}
+          {order.karigarName && (
+            <Typography variant="body2" sx={{ color: '#666666', mt: 2 }}>
+              Karigar: {order.karigarName}
+              {order.assignedDate ? ` · assigned ${new Date(order.assignedDate).toLocaleDateString()}` : ''}
+            </Typography>
+          )}
+        </Paper>
+      </Box>
+
+      {completeDialogOpen && <CompleteRepairDialog order={order} onClose={() => setCompleteDialogOpen(false)} />}
+
+      {/* Assign Dialog */}
+      <Dialog
+        open={assignDialogOpen}
+        onClose={() => setAssignDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Assign Karigar</DialogTitle>
+        <DialogContent>
+          <TextField
+            select
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Karigar"
+            value={karigarId}
+            onChange={(e) => setKarigarId(e.target.value)}
+          >
+            {karigars.map((karigar) => (
+              <MenuItem key={karigar.id} value={karigar.id}>
+                {karigar.name} ({karigar.karigarNumber})
+                {karigar.speciality ? ` · ${karigar.speciality}` : ''}
+              </MenuItem>
+            ))}
+          </TextField>
+          {assignMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(assignMutation.error, 'Failed to assign karigar')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setAssignDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => assignMutation.mutate()}
+            variant="contained"
+            disabled={!karigarId || assignMutation.isPending}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Assign
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Deliver Dialog */}
+      <Dialog
+        open={deliverDialogOpen}
+        onClose={() => setDeliverDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Deliver to Customer</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000', mb: 2 }}>
+            {charges > 0
+              ? `Collect ${formatAmount(charges, decimals)} from ${order.customer.name}.`
+              : `Hand the piece back to ${order.customer.name}; there is nothing to collect.`}
+          </DialogContentText>
+          {weightCheck?.flagged && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              Show the customer the {formatWeight(Math.abs(weightCheck.difference))} weight difference before
+              handing over.
+            </Alert>
+          )}
+          <TextField
+            type="date"
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Delivered On"
+            value={delivery.deliveredDate}
+            onChange={(e) => setDelivery({ ...delivery, deliveredDate: e.target.value })}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          {charges > 0 && (
+            <>
+              <TextField
+                select
+                fullWidth
+                size="small"
+                margin="dense"
+                label="Mode"
+                value={delivery.mode}
+                onChange={(e) => setDelivery({ ...delivery, mode: e.target.value })}
+              >
+                {PAYMENT_MODES.map((mode) => (
+                  <MenuItem key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+              {delivery.mode !== 'cash' && (
+                <TextField
+                  fullWidth
+                  size="small"
+                  margin="dense"
+                  label="Reference"
+                  value={delivery.reference}
+                  onChange={(e) => setDelivery({ ...delivery, reference: e.target.value })}
+                />
+              )}
+            </>
+          )}
+          {deliverMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(deliverMutation.error, 'Failed to record delivery')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setDeliverDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => deliverMutation.mutate(charges)}
+            variant="contained"
+            disabled={!delivery.deliveredDate || deliverMutation.isPending}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Deliver
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Cancel Confirmation Dialog */}
+      <Dialog
+        open={cancelDialogOpen}
+        onClose={() => setCancelDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Cancel Repair Order</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000' }}>
+            Cancel {order.orderNumber}? Return the piece to the customer against the intake slip.
+          </DialogContentText>
+          {cancelMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(cancelMutation.error, 'Failed to cancel repair order')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setCancelDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Keep Order
+          </Button>
+          <Button
+            onClick={() => cancelMutation.mutate()}
+            variant="contained"
+            disabled={cancelMutation.isPending}
+            sx={{ backgroundColor: '#d32f2f', fontWeight: 600, '&:hover': { backgroundColor: '#b71c1c' } }}
+          >
+            Cancel Order
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { fetchOldGoldVouchers, type OldGoldVoucher } from '../../api/oldGold';
+import { formatAmount, formatWeight } from '../../utils/format';
+
+interface ApplyVoucherDialogProps {
+  /** Limit the list to this customer's vouchers */
+  customerId: string | null;
+  /** Vouchers already on the invoice */
+  appliedIds: string[];
+  decimals: number;
+  onApply: (voucher: OldGoldVoucher) => void;
+  onClose: () => void;
+}
+
+/**
+ * Pick an open old gold voucher to credit against the invoice
+ */
+export function ApplyVoucherDialog({ customerId, appliedIds, decimals, onApply, onClose }: ApplyVoucherDialogProps) {
+  const [search, setSearch] = useState('');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['oldGold', 'vouchers', 'open', customerId, search],
+    queryFn: () =>
+      fetchOldGoldVouchers({
+        status: 'open',
+        customerId: customerId ?? undefined,
+        search: search.trim() || undefined,
+      }),
+  });
+  const vouchers = (data?.data ?? []).filter((voucher) => !appliedIds.includes(voucher.id));
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Apply Old Gold Voucher</DialogTitle>
+      <DialogContent>
+        <TextField
+          fullWidth
+          size="small"
+          margin="dense"
+          label="Search by voucher no. or customer"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            Failed to load vouchers
+          </Alert>
+        )}
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={28} sx={{ color: '#5e3b63' }} />
+          </Box>
+        ) : vouchers.length === 0 ? (
+          <Typography sx={{ color: '#666666', py: 3, textAlign: 'center' }}>
+            {customerId ? 'No open vouchers for this customer.' : 'No open vouchers found.'}
+          </Typography>
+        ) : (
+          <Table size="small" sx={{ mt: 1 }}>
+            <TableHead>
+              <TableRow>
+                <TableCell sx={{ fontWeight: 600 }}>Voucher</TableCell>
+                <TableCell sx={{ fontWeight: 600 }}>Customer</TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">
+                  Fine Wt
+                </TableCell>
+                <TableCell sx={{ fontWeight: 600 }} align="right">
+                  Amount
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {vouchers.map((voucher) => (
+                <TableRow key={voucher.id}>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{voucher.voucherNumber}</TableCell>
+                  <TableCell>{voucher.customer.name}</TableCell>
+                  <TableCell align="right">{formatWeight(voucher.totalFineWeight)}</TableCell>
+                  <TableCell align="right">{formatAmount(voucher.amount, decimals)}</TableCell>
+                  <TableCell align="right">
+                    <Button size="small" onClick={() => onApply(voucher)} sx={{ color: '#5e3b63' }}>
+                      Apply
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { Alert, Box, Button, Paper, Typography } from '@mui/material';
+import { AssignmentReturn, Block } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import {
+  SALES_CREDIT_NOTE_REASONS,
+  fetchSalesCreditNotes,
+  type SalesCreditNoteReason,
+  type SalesInvoice,
+} from '../../api/sales';
+import { formatAmount } from '../../utils/format';
+import { SalesCreditNoteDialog } from './SalesCreditNoteDialog';
+
+interface CreditNotesPanelProps {
+  invoice: SalesInvoice;
+  decimals: number;
+}
+
+/**
+ * Credit notes issued against an invoice, with sales return and cancellation
+ * for the pieces not yet credited
+ */
+export function CreditNotesPanel({ invoice, decimals }: CreditNotesPanelProps) {
+  const [dialogReason, setDialogReason] = useState<SalesCreditNoteReason | null>(null);
+
+  const { data: creditNotes = [], error } = useQuery({
+    queryKey: ['sales', 'credit-notes', { invoiceId: invoice.id }],
+    queryFn: () => fetchSalesCreditNotes({ invoiceId: invoice.id }),
+  });
+
+  const creditedItemIds = new Set(creditNotes.flatMap((note) => note.lines.map((line) => line.itemId)));
+  const openLines = invoice.lines.filter((line) => !creditedItemIds.has(line.itemId));
+
+  return (
+    <Paper elevation={0} sx={{ p: 2, mb: 2, border: '1px solid rgba(94, 59, 99, 0.2)', borderRadius: 2 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <Typography sx={{ color: '#0d0421', fontWeight: 600 }}>Returns &amp; Credit Notes</Typography>
+        {openLines.length > 0 && (
+          <Box sx={{ display: 'flex', gap: 1.5 }}>
+            <Button
+              variant="outlined"
+              startIcon={<AssignmentReturn />}
+              onClick={() => setDialogReason('return')}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              Sales Return
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Block />}
+              onClick={() => setDialogReason('cancellation')}
+              sx={{ borderColor: '#d32f2f', color: '#d32f2f', fontWeight: 600 }}
+            >
+              Cancel Invoice
+            </Button>
+          </Box>
+        )}
+      </Box>
+
+      {creditNotes.length === 0 ? (
+        <Typography variant="body2" sx={{ color: '#666666', mt: 0.5 }}>
+          No credit notes against this invoice.
+        </Typography>
+      ) : (
+        <Box sx={{ mt: 1 }}>
+          {creditNotes.map((note) => (
+            <Typography key={note.id} variant="body2">
+              <Box component="span" sx={{ fontFamily: 'monospace' }}>
+                {note.creditNoteNumber}
+              </Box>{' '}
+              dated {new Date(note.creditNoteDate).toLocaleDateString()}:{' '}
+              {SALES_CREDIT_NOTE_REASONS.find((option) => option.value === note.reason)?.label ?? note.reason} of{' '}
+              {note.lines.length} piece{note.lines.length === 1 ? '' : 's'}, {formatAmount(note.total, decimals)}
+              {note.remarks ? ` (${note.remarks})` : ''}
+            </Typography>
+          ))}
+          {openLines.length === 0 && (
+            <Typography variant="body2" sx={{ color: '#d32f2f', fontWeight: 600, mt: 0.5 }}>
+              Every piece on this invoice has been credited.
+            </Typography>
+          )}
+        </Box>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 1.5 }}>
+          Failed to load credit notes
+        </Alert>
+      )}
+
+      {dialogReason && (
+        <SalesCreditNoteDialog
+          invoice={invoice}
+          lines={openLines}
+          reason={dialogReason}
+          decimals={decimals}
+          onClose={() => setDialogReason(null)}
+        />
+      )}
+    </Paper>
+  );
+}
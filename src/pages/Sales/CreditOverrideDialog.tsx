@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import type { Customer } from '../../api/customers';
+import { fetchCreditOverride, requestCreditOverride, type CreditOverride } from '../../api/sales';
+import type { CreditCheck } from '../../utils/receivables';
+import { formatAmount } from '../../utils/format';
+
+/** How often the counter checks whether the admin has decided */
+const POLL_INTERVAL_MS = 5000;
+
+interface CreditOverrideDialogProps {
+  customer: Customer;
+  creditCheck: CreditCheck;
+  decimals: number;
+  onApproved: (override: CreditOverride) => void;
+  onClose: () => void;
+}
+
+/**
+ * Ask an ORG_ADMIN to let a customer be billed past their credit limit. The
+ * request shows up under Credit Overrides for the admin to approve from their
+ * own session; the counter waits here until it has been decided.
+ */
+export function CreditOverrideDialog({
+  customer,
+  creditCheck,
+  decimals,
+  onApproved,
+  onClose,
+}: CreditOverrideDialogProps) {
+  const [reason, setReason] = useState('');
+
+  const requestMutation = useMutation({
+    mutationFn: () =>
+      requestCreditOverride({
+        customerId: customer.id,
+        exposure: creditCheck.exposure,
+        creditLimit: creditCheck.creditLimit,
+        reason: reason.trim(),
+      }),
+  });
+  const requestId = requestMutation.data?.id;
+
+  const { data: override, error: pollError } = useQuery({
+    queryKey: ['sales', 'credit-overrides', requestId],
+    queryFn: () => fetchCreditOverride(requestId as string),
+    enabled: !!requestId,
+    initialData: requestMutation.data,
+    refetchInterval: (query) => (query.state.data?.status === 'pending' ? POLL_INTERVAL_MS : false),
+  });
+
+  const summaryRow = (label: string, value: number, color = '#000000') => (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+      <Typography variant="body2">{label}</Typography>
+      <Typography variant="body2" sx={{ color, fontWeight: 600 }}>
+        {formatAmount(value, decimals)}
+      </Typography>
+    </Box>
+  );
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Credit Limit Override</DialogTitle>
+      <DialogContent>
+        <Box sx={{ mb: 2 }}>
+          <Typography sx={{ color: '#000000', fontWeight: 600, mb: 1 }}>{customer.name}</Typography>
+          {summaryRow('Credit limit', creditCheck.creditLimit)}
+          {summaryRow('Already outstanding', creditCheck.outstanding)}
+          {summaryRow('Owed after this sale', creditCheck.exposure, '#d32f2f')}
+        </Box>
+        <TextField
+          autoFocus
+          fullWidth
+          label="Reason"
+          margin="dense"
+          multiline
+          rows={2}
+          value={reason}
+          disabled={!!override}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        {!override ? (
+          <Typography variant="body2" sx={{ color: '#666666', mt: 1 }}>
+            The request goes to the organization admins, who approve it from their own login.
+          </Typography>
+        ) : override.status === 'pending' ? (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5, mt: 2 }}>
+            <CircularProgress size={20} sx={{ color: '#5e3b63' }} />
+            <Typography variant="body2" sx={{ color: '#666666' }}>
+              Waiting for an admin to approve the request under Credit Overrides.
+            </Typography>
+          </Box>
+        ) : override.status === 'approved' ? (
+          <Alert severity="success" sx={{ mt: 2 }}>
+            Approved by {override.approvedByName}.
+          </Alert>
+        ) : (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            Rejected{override.rejectionReason ? `: ${override.rejectionReason}` : ''}.
+          </Alert>
+        )}
+        {(requestMutation.error || pollError) && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(requestMutation.error ?? pollError, 'Could not reach the override request')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          {override?.status === 'rejected' ? 'Close' : 'Cancel'}
+        </Button>
+        {override?.status === 'approved' ? (
+          <Button
+            variant="contained"
+            onClick={() => onApproved(override)}
+            sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Continue Billing
+          </Button>
+        ) : (
+          <Button
+            variant="contained"
+            disabled={!reason.trim() || !!override || requestMutation.isPending}
+            onClick={() => requestMutation.mutate()}
+            sx={{ backgroundColor: '#d32f2f', '&:hover': { backgroundColor: '#b71c1c' } }}
+          >
+            Request Override
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
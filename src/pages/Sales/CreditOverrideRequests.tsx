@@ -0,0 +1,275 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  MenuItem,
+  Button,
+  Chip,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  CREDIT_OVERRIDE_STATUSES,
+  approveCreditOverride,
+  fetchCreditOverrides,
+  rejectCreditOverride,
+  type CreditOverride,
+  type CreditOverrideStatus,
+} from '../../api/sales';
+import { formatAmount } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+/** Pending requests are refreshed this often so new ones from the counter show up */
+const REFRESH_INTERVAL_MS = 15000;
+
+/**
+ * Requests from the counter to bill customers past their credit limit.
+ * Admins approve or reject them here, from their own session.
+ */
+export function CreditOverrideRequests() {
+  const queryClient = useQueryClient();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [status, setStatus] = useState<CreditOverrideStatus | ''>('pending');
+  const [rejecting, setRejecting] = useState<CreditOverride | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const { data: overrides = [], isLoading, error } = useQuery({
+    queryKey: ['sales', 'credit-overrides', { status }],
+    queryFn: () => fetchCreditOverrides(status ? { status } : undefined),
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: approveCreditOverride,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['sales', 'credit-overrides'] }),
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: (override: CreditOverride) => rejectCreditOverride(override.id, rejectReason.trim()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sales', 'credit-overrides'] });
+      setRejecting(null);
+    },
+  });
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Typography
+          variant="h4"
+          sx={{ color: '#000000', fontWeight: 600, mb: 2, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+        >
+          Credit Overrides
+        </Typography>
+
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <TextField
+            select
+            size="small"
+            label="Status"
+            value={status}
+            onChange={(e) => setStatus(e.target.value as CreditOverrideStatus | '')}
+            sx={{ minWidth: 200 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            {CREDIT_OVERRIDE_STATUSES.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Paper>
+
+        {approveMutation.error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {getApiErrorMessage(approveMutation.error, 'Failed to approve override')}
+          </Alert>
+        )}
+
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading override requests. Please try again.'}
+              </Alert>
+            </Box>
+          ) : overrides.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No override requests.</Typography>
+            </Box>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table sx={{ minWidth: 900 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Requested</TableCell>
+                    <TableCell sx={headCellSx}>Customer</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Credit Limit
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Owed After Sale
+                    </TableCell>
+                    <TableCell sx={headCellSx}>Reason</TableCell>
+                    <TableCell sx={headCellSx}>Status</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Actions
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {overrides.map((override) => {
+                    const statusOption = CREDIT_OVERRIDE_STATUSES.find((option) => option.value === override.status);
+                    return (
+                      <TableRow key={override.id}>
+                        <TableCell sx={bodyCellSx}>
+                          {new Date(override.createdAt).toLocaleString()}
+                          <Typography variant="caption" sx={{ display: 'block', color: '#666666' }}>
+                            {override.requestedByName}
+                          </Typography>
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }}>{override.customerName}</TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {formatAmount(override.creditLimit, decimals)}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, color: '#d32f2f', fontWeight: 600 }} align="right">
+                          {formatAmount(override.exposure, decimals)}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx}>{override.reason}</TableCell>
+                        <TableCell sx={bodyCellSx}>
+                          <Chip
+                            label={statusOption?.label ?? override.status}
+                            color={statusOption?.color ?? 'default'}
+                            size="small"
+                            variant="outlined"
+                          />
+                          {override.status === 'approved' && override.approvedByName && (
+                            <Typography variant="caption" sx={{ display: 'block', color: '#666666' }}>
+                              {override.approvedByName}
+                            </Typography>
+                          )}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {override.status === 'pending' && (
+                            <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1 }}>
+                              <Button
+                                size="small"
+                                variant="outlined"
+                                onClick={() => {
+                                  setRejectReason('');
+                                  rejectMutation.reset();
+                                  setRejecting(override);
+                                }}
+                                sx={{ borderColor: '#d32f2f', color: '#d32f2f', fontWeight: 600 }}
+                              >
+                                Reject
+                              </Button>
+                              <Button
+                                size="small"
+                                variant="contained"
+                                disabled={approveMutation.isPending}
+                                onClick={() => approveMutation.mutate(override.id)}
+                                sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+                              >
+                                Approve
+                              </Button>
+                            </Box>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+
+      {/* Reject Dialog */}
+      <Dialog
+        open={!!rejecting}
+        onClose={() => setRejecting(null)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Reject Override</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000' }}>
+            Refuse to bill {rejecting?.customerName} past their credit limit? The counter is told why.
+          </DialogContentText>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Reason"
+            margin="dense"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+          />
+          {rejectMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(rejectMutation.error, 'Failed to reject override')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setRejecting(null)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => rejecting && rejectMutation.mutate(rejecting)}
+            variant="contained"
+            disabled={!rejectReason.trim() || rejectMutation.isPending}
+            sx={{ backgroundColor: '#d32f2f', fontWeight: 600, '&:hover': { backgroundColor: '#b71c1c' } }}
+          >
+            Reject
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,108 @@
+import { Alert, Box, Button, Paper, Typography } from '@mui/material';
+import { Verified } from '@mui/icons-material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import type { GeneralConfig, TaxConfig } from '../../api/config';
+import { getEInvoiceAdapter, saveEInvoice } from '../../api/eInvoice';
+import type { SalesInvoice } from '../../api/sales';
+import { buildEInvoicePayload, validateEInvoicePayload } from '../../utils/eInvoice';
+
+interface EInvoicePanelProps {
+  invoice: SalesInvoice;
+  generalConfig: GeneralConfig | undefined;
+  taxConfig: TaxConfig | undefined;
+}
+
+/**
+ * IRN status of a B2B invoice, with the checks that must pass before it can
+ * be registered through the adapter chosen in the Tax config
+ */
+export function EInvoicePanel({ invoice, generalConfig, taxConfig }: EInvoicePanelProps) {
+  const queryClient = useQueryClient();
+  const adapter = getEInvoiceAdapter(taxConfig?.eInvoiceAdapter);
+  const payload = buildEInvoicePayload(invoice, generalConfig, taxConfig);
+  const issues = invoice.eInvoice ? [] : validateEInvoicePayload(payload);
+
+  const isStub = adapter.id === 'stub';
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const details = await adapter.generateIrn(payload);
+      // Stub IRNs are not registered with the portal, so they are shown here and never stored on the invoice
+      return { details, updated: isStub ? null : await saveEInvoice(invoice.id, details) };
+    },
+    onSuccess: ({ updated }) => {
+      if (!updated) return;
+      queryClient.setQueryData(['sales', 'invoices', invoice.id], updated);
+      queryClient.invalidateQueries({ queryKey: ['sales'] });
+    },
+  });
+  const testIrn = isStub ? generateMutation.data?.details : undefined;
+
+  return (
+    <Paper
+      elevation={0}
+      sx={{ p: 2, mb: 2, border: '1px solid rgba(94, 59, 99, 0.2)', borderRadius: 2 }}
+    >
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+        <Typography sx={{ color: '#0d0421', fontWeight: 600 }}>E-Invoice</Typography>
+        {!invoice.eInvoice && (
+          <Button
+            variant="contained"
+            startIcon={<Verified />}
+            disabled={issues.length > 0 || generateMutation.isPending}
+            onClick={() => generateMutation.mutate()}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Generate IRN
+          </Button>
+        )}
+      </Box>
+
+      {invoice.eInvoice ? (
+        <Box sx={{ mt: 1 }}>
+          <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+            IRN: {invoice.eInvoice.irn}
+          </Typography>
+          <Typography variant="body2">
+            Ack No. {invoice.eInvoice.ackNumber} dated {new Date(invoice.eInvoice.ackDate).toLocaleString()}
+          </Typography>
+        </Box>
+      ) : (
+        <Typography variant="body2" sx={{ color: '#666666', mt: 0.5 }}>
+          Not registered yet. Submitting through: {adapter.label}.
+        </Typography>
+      )}
+
+      {issues.length > 0 && (
+        <Alert severity="warning" sx={{ mt: 1.5 }}>
+          Fix these before generating the IRN:
+          <Box component="ul" sx={{ m: 0, pl: 2.5 }}>
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </Box>
+        </Alert>
+      )}
+      {isStub && !invoice.eInvoice && (
+        <Alert severity="info" sx={{ mt: 1.5 }}>
+          The local stub is selected in the Tax config; its IRNs are not registered with the GST portal and are not
+          saved on the invoice.
+        </Alert>
+      )}
+      {testIrn && !invoice.eInvoice && (
+        <Alert severity="warning" sx={{ mt: 1.5 }}>
+          Test IRN from the local stub, not valid for the GST portal:
+          <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+            {testIrn.irn}
+          </Typography>
+        </Alert>
+      )}
+      {generateMutation.error && (
+        <Alert severity="error" sx={{ mt: 1.5 }}>
+          {getApiErrorMessage(generateMutation.error, 'Failed to generate IRN')}
+        </Alert>
+      )}
+    </Paper>
+  );
+}
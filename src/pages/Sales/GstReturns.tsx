@@ -0,0 +1,452 @@
+import { useState, type ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+  Tabs,
+  Tab,
+} from '@mui/material';
+import { Download } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getTaxConfig, type TaxConfig } from '../../api/config';
+import { fetchSalesCreditNotes, fetchSalesInvoices } from '../../api/sales';
+import { fetchPurchaseBills } from '../../api/purchases';
+import { formatGstState, type GstSplit } from '../../utils/gst';
+import {
+  buildGstr1,
+  buildGstr3b,
+  formatReturnPeriod,
+  gstr1ToJson,
+  gstr3bToJson,
+  returnPeriodRange,
+  type GstReturnPeriod,
+  type Gstr1CreditNote,
+  type Gstr1Invoice,
+} from '../../utils/gstReturns';
+import { downloadFile } from '../../utils/export';
+import { formatAmount, formatWeight } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+type ReturnSection = 'b2b' | 'b2cl' | 'b2cs' | 'cdnr' | 'cdnur' | 'hsn' | 'gstr3b';
+
+/** Returns are filed for the month just gone */
+const previousMonth = (): string => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+function ReturnTable({ headers, children }: { headers: string[]; children: ReactNode }) {
+  return (
+    <TableContainer sx={{ overflowX: 'auto' }}>
+      <Table size="small" sx={{ minWidth: 800 }}>
+        <TableHead>
+          <TableRow sx={{ backgroundColor: '#0d0421' }}>
+            {headers.map((header, index) => (
+              <TableCell key={header} sx={headCellSx} align={index < 2 ? 'left' : 'right'}>
+                {header}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>{children}</TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
+
+/**
+ * A month's GSTR-1 sections and GSTR-3B summary, built from sales invoices,
+ * credit notes and purchase bills, with JSON export for the GST offline utility
+ */
+export function GstReturns() {
+  const navigate = useNavigate();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [month, setMonth] = useState(previousMonth);
+  const [section, setSection] = useState<ReturnSection>('b2b');
+
+  const [year, monthNumber] = month.split('-').map(Number);
+  const period: GstReturnPeriod = { month: monthNumber, year };
+  const range = returnPeriodRange(period);
+
+  const { data: taxConfig } = useQuery<TaxConfig>({
+    queryKey: ['config', 'tax'],
+    queryFn: getTaxConfig,
+  });
+
+  const invoicesQuery = useQuery({
+    queryKey: ['sales', 'invoices', range],
+    queryFn: () => fetchSalesInvoices(range),
+  });
+
+  const creditNotesQuery = useQuery({
+    queryKey: ['sales', 'credit-notes', range],
+    queryFn: () => fetchSalesCreditNotes(range),
+  });
+
+  const billsQuery = useQuery({
+    queryKey: ['purchase', 'bills', range],
+    queryFn: () => fetchPurchaseBills(range),
+  });
+
+  const gstin = taxConfig?.taxNumber?.trim().toUpperCase() ?? '';
+  const options = { gstin, stateCode: taxConfig?.stateCode, rates: taxConfig?.rates ?? [], decimals };
+  const gstr1 = buildGstr1(invoicesQuery.data?.data ?? [], creditNotesQuery.data ?? [], period, options);
+  const gstr3b = buildGstr3b(gstr1, billsQuery.data?.data ?? [], options);
+  const isLoading = invoicesQuery.isLoading || creditNotesQuery.isLoading || billsQuery.isLoading;
+  const error = invoicesQuery.error || creditNotesQuery.error || billsQuery.error;
+
+  const handleExport = (kind: 'GSTR1' | 'GSTR3B') => {
+    const json = kind === 'GSTR1' ? gstr1ToJson(gstr1) : gstr3bToJson(gstr3b);
+    downloadFile(
+      JSON.stringify(json, null, 2),
+      `${kind}_${gstin}_${formatReturnPeriod(period)}.json`,
+      'application/json'
+    );
+  };
+
+  const amountCells = (amounts: GstSplit & { taxableValue?: number }) => (
+    <>
+      <TableCell sx={bodyCellSx} align="right">
+        {amounts.taxableValue !== undefined ? formatAmount(amounts.taxableValue, decimals) : '-'}
+      </TableCell>
+      <TableCell sx={bodyCellSx} align="right">
+        {formatAmount(amounts.igst, decimals)}
+      </TableCell>
+      <TableCell sx={bodyCellSx} align="right">
+        {formatAmount(amounts.cgst, decimals)}
+      </TableCell>
+      <TableCell sx={bodyCellSx} align="right">
+        {formatAmount(amounts.sgst, decimals)}
+      </TableCell>
+    </>
+  );
+
+  const invoiceRows = (invoices: Gstr1Invoice[]) =>
+    invoices.map((invoice) => (
+      <TableRow
+        key={invoice.invoiceId}
+        hover
+        onClick={() => navigate(`/sales/invoices/${invoice.invoiceId}`)}
+        sx={{ cursor: 'pointer' }}
+      >
+        <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+          {invoice.invoiceNumber}
+          <Typography variant="caption" component="div" sx={{ color: '#666666' }}>
+            {new Date(invoice.invoiceDate).toLocaleDateString()}
+          </Typography>
+        </TableCell>
+        <TableCell sx={bodyCellSx}>
+          {invoice.customerName}
+          {invoice.gstin && (
+            <Typography variant="caption" component="div" sx={{ color: '#666666', fontFamily: 'monospace' }}>
+              {invoice.gstin}
+            </Typography>
+          )}
+        </TableCell>
+        <TableCell sx={bodyCellSx} align="right">
+          {formatGstState(invoice.placeOfSupply)}
+        </TableCell>
+        <TableCell sx={bodyCellSx} align="right">
+          {formatAmount(invoice.value, decimals)}
+        </TableCell>
+        {amountCells(invoice)}
+      </TableRow>
+    ));
+
+  const creditNoteRows = (notes: Gstr1CreditNote[]) =>
+    notes.map((note) => (
+      <TableRow
+        key={note.creditNoteId}
+        hover
+        onClick={() => navigate(`/sales/invoices/${note.invoiceId}`)}
+        sx={{ cursor: 'pointer' }}
+      >
+        <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+          {note.creditNoteNumber}
+          <Typography variant="caption" component="div" sx={{ color: '#666666' }}>
+            {new Date(note.creditNoteDate).toLocaleDateString()} against {note.invoiceNumber}
+          </Typography>
+        </TableCell>
+        <TableCell sx={bodyCellSx}>
+          {note.customerName}
+          {note.gstin && (
+            <Typography variant="caption" component="div" sx={{ color: '#666666', fontFamily: 'monospace' }}>
+              {note.gstin}
+            </Typography>
+          )}
+        </TableCell>
+        <TableCell sx={bodyCellSx} align="right">
+          {formatGstState(note.placeOfSupply)}
+        </TableCell>
+        <TableCell sx={bodyCellSx} align="right">
+          {formatAmount(note.value, decimals)}
+        </TableCell>
+        {amountCells(note)}
+      </TableRow>
+    ));
+
+  const emptySection = (
+    <Box sx={{ p: 4, textAlign: 'center' }}>
+      <Typography sx={{ color: '#666666' }}>Nothing to report in this section for the period.</Typography>
+    </Box>
+  );
+
+  const taxHeaders = ['Taxable Value', 'IGST', 'CGST', 'SGST'];
+  const summaryCards: { label: string; value: string }[] = [
+    {
+      label: 'Invoices / Credit Notes',
+      value: `${gstr1.totals.invoiceCount} / ${gstr1.totals.creditNoteCount}`,
+    },
+    { label: 'Taxable Value', value: formatAmount(gstr1.totals.taxableValue, decimals) },
+    {
+      label: 'Output Tax',
+      value: formatAmount(gstr1.totals.igst + gstr1.totals.cgst + gstr1.totals.sgst, decimals),
+    },
+    {
+      label: 'Tax Payable in Cash',
+      value: formatAmount(gstr3b.cashPayable.igst + gstr3b.cashPayable.cgst + gstr3b.cashPayable.sgst, decimals),
+    },
+  ];
+
+  const gstr3bRows: { label: string; amounts: GstSplit & { taxableValue?: number } }[] = [
+    { label: '3.1(a) Outward taxable supplies', amounts: gstr3b.outward },
+    { label: '4(A)(5) ITC on purchase bills', amounts: gstr3b.itc },
+    { label: 'Tax payable in cash', amounts: gstr3b.cashPayable },
+    { label: 'ITC carried forward', amounts: gstr3b.itcCarriedForward },
+  ];
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            mb: 2,
+            gap: 2,
+          }}
+        >
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            GST Returns
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+            <Button
+              variant="outlined"
+              startIcon={<Download />}
+              disabled={!gstin || isLoading}
+              onClick={() => handleExport('GSTR1')}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              GSTR-1 JSON
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<Download />}
+              disabled={!gstin || isLoading}
+              onClick={() => handleExport('GSTR3B')}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              GSTR-3B JSON
+            </Button>
+          </Box>
+        </Box>
+
+        {!gstin && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Set the organization's GSTIN in Organization Config → Tax before exporting returns.
+          </Alert>
+        )}
+
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <TextField
+            type="month"
+            size="small"
+            label="Return Period"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            slotProps={{ inputLabel: { shrink: true } }}
+            sx={{ minWidth: 200 }}
+          />
+        </Paper>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          {summaryCards.map((card) => (
+            <Grid key={card.label} size={{ xs: 6, md: 3 }}>
+              <Paper sx={{ p: 2, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+                <Typography sx={{ color: '#666666', fontSize: '0.8rem' }}>{card.label}</Typography>
+                <Typography variant="h6" sx={{ color: '#000000', fontWeight: 600 }}>
+                  {card.value}
+                </Typography>
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Tabs
+            value={section}
+            onChange={(_event, value: ReturnSection) => setSection(value)}
+            variant="scrollable"
+            allowScrollButtonsMobile
+            sx={{
+              borderBottom: '1px solid #e0e0e0',
+              '& .MuiTab-root.Mui-selected': { color: '#5e3b63' },
+              '& .MuiTabs-indicator': { backgroundColor: '#5e3b63' },
+            }}
+          >
+            <Tab value="b2b" label={`B2B (${gstr1.b2b.length})`} />
+            <Tab value="b2cl" label={`B2CL (${gstr1.b2cl.length})`} />
+            <Tab value="b2cs" label={`B2CS (${gstr1.b2cs.length})`} />
+            <Tab value="cdnr" label={`CDNR (${gstr1.cdnr.length})`} />
+            <Tab value="cdnur" label={`CDNUR (${gstr1.cdnur.length})`} />
+            <Tab value="hsn" label="HSN Summary" />
+            <Tab value="gstr3b" label="GSTR-3B" />
+          </Tabs>
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading invoices and credit notes. Please try again.'}
+              </Alert>
+            </Box>
+          ) : section === 'b2b' || section === 'b2cl' ? (
+            gstr1[section].length === 0 ? (
+              emptySection
+            ) : (
+              <ReturnTable headers={['Invoice', 'Customer', 'Place of Supply', 'Invoice Value', ...taxHeaders]}>
+                {invoiceRows(gstr1[section])}
+              </ReturnTable>
+            )
+          ) : section === 'cdnr' || section === 'cdnur' ? (
+            gstr1[section].length === 0 ? (
+              emptySection
+            ) : (
+              <ReturnTable headers={['Credit Note', 'Customer', 'Place of Supply', 'Note Value', ...taxHeaders]}>
+                {creditNoteRows(gstr1[section])}
+              </ReturnTable>
+            )
+          ) : section === 'b2cs' ? (
+            gstr1.b2cs.length === 0 ? (
+              emptySection
+            ) : (
+              <ReturnTable headers={['Place of Supply', 'Supply Type', 'Rate', ...taxHeaders]}>
+                {gstr1.b2cs.map((row) => (
+                  <TableRow key={`${row.placeOfSupply}@${row.ratePercent}`}>
+                    <TableCell sx={bodyCellSx}>{formatGstState(row.placeOfSupply)}</TableCell>
+                    <TableCell sx={bodyCellSx}>{row.interState ? 'Inter-state' : 'Intra-state'}</TableCell>
+                    <TableCell sx={bodyCellSx} align="right">
+                      {row.ratePercent}%
+                    </TableCell>
+                    {amountCells(row)}
+                  </TableRow>
+                ))}
+              </ReturnTable>
+            )
+          ) : section === 'hsn' ? (
+            gstr1.hsnB2b.length + gstr1.hsnB2c.length === 0 ? (
+              emptySection
+            ) : (
+              <ReturnTable headers={['HSN/SAC', 'Buyers', 'Rate', 'Quantity', 'Total Value', ...taxHeaders]}>
+                {[
+                  ...gstr1.hsnB2b.map((row) => ({ row, buyers: 'Registered' })),
+                  ...gstr1.hsnB2c.map((row) => ({ row, buyers: 'Unregistered' })),
+                ].map(({ row, buyers }) => (
+                  <TableRow key={`${buyers}-${row.code}@${row.ratePercent}`}>
+                    <TableCell sx={bodyCellSx}>
+                      <Typography sx={{ fontSize: 'inherit', fontFamily: 'monospace' }}>{row.code || '-'}</Typography>
+                      <Typography variant="caption" sx={{ color: '#666666' }}>
+                        {row.description}
+                      </Typography>
+                    </TableCell>
+                    <TableCell sx={bodyCellSx}>{buyers}</TableCell>
+                    <TableCell sx={bodyCellSx} align="right">
+                      {row.ratePercent}%
+                    </TableCell>
+                    <TableCell sx={bodyCellSx} align="right">
+                      {row.uqc === 'GMS' ? formatWeight(row.quantity) : '-'}
+                    </TableCell>
+                    <TableCell sx={bodyCellSx} align="right">
+                      {formatAmount(row.value, decimals)}
+                    </TableCell>
+                    {amountCells(row)}
+                  </TableRow>
+                ))}
+              </ReturnTable>
+            )
+          ) : (
+            <>
+              <ReturnTable headers={['Nature of Supply', '', ...taxHeaders]}>
+                {gstr3bRows.map(({ label, amounts }) => (
+                  <TableRow key={label}>
+                    <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} colSpan={2}>
+                      {label}
+                    </TableCell>
+                    {amountCells(amounts)}
+                  </TableRow>
+                ))}
+              </ReturnTable>
+              {gstr3b.interStateUnregistered.length > 0 && (
+                <Box sx={{ p: 2 }}>
+                  <Typography sx={{ fontWeight: 600, mb: 1 }}>
+                    3.2 Inter-state supplies to unregistered persons
+                  </Typography>
+                  {gstr3b.interStateUnregistered.map((row) => (
+                    <Typography key={row.placeOfSupply} variant="body2">
+                      {formatGstState(row.placeOfSupply)}: {formatAmount(row.taxableValue, decimals)} taxable,{' '}
+                      {formatAmount(row.igst, decimals)} IGST
+                    </Typography>
+                  ))}
+                </Box>
+              )}
+            </>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,845 @@
+import { Fragment, useState, type FormEvent } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  TextField,
+  Button,
+  IconButton,
+  MenuItem,
+  CircularProgress,
+  Alert,
+  Snackbar,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Collapse,
+  Divider,
+} from '@mui/material';
+import { Add, Delete, QrCodeScanner, ExpandMore, ExpandLess, Receipt } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { CustomerSelect } from '../../components/Customer/CustomerSelect';
+import { PriceBreakup } from '../../components/PriceBreakup';
+import { useMetalRates } from '../../hooks/useMetalRates';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  PAYMENT_MODES,
+  getFinanceConfig,
+  getInvoiceConfig,
+  getTaxConfig,
+  type FinanceConfig,
+  type InvoiceConfig,
+  type TaxConfig,
+} from '../../api/config';
+import { METAL_PURITIES } from '../../api/metalRates';
+import { fetchItemByTag, type Item } from '../../api/items';
+import type { Customer } from '../../api/customers';
+import type { CustomOrder } from '../../api/customOrders';
+import type { SchemeEnrolment } from '../../api/schemes';
+import {
+  createSalesInvoice,
+  fetchNextInvoiceNumber,
+  fetchSalesInvoices,
+  type CreditOverride,
+  type OldGoldExchange,
+  type SalesInvoiceLine,
+} from '../../api/sales';
+import { buildInvoiceLine, calculateInvoiceTotals } from '../../utils/invoice';
+import { voucherToOldGoldExchange } from '../../utils/oldGold';
+import { calculateAdvanceCredit } from '../../utils/customOrders';
+import { calculateSchemeRedemption } from '../../utils/schemes';
+import { PAN_REQUIRED_ABOVE, isPanMissingForSale } from '../../utils/customers';
+import { calculateDueDate, checkCreditLimit } from '../../utils/receivables';
+import {
+  GST_STATES,
+  isInterStateSupply,
+  resolveHomeState,
+  resolvePlaceOfSupply,
+  summarizeGst,
+} from '../../utils/gst';
+import {
+  DEFAULT_CASH_RECEIPT_LIMIT,
+  calculateWithholding,
+  checkCashReceipt,
+  financialYearStart,
+  sumCashPayments,
+  summarizeCustomerSales,
+} from '../../utils/withholding';
+import { roundTo } from '../../utils/rounding';
+import { formatAmount, formatWeight } from '../../utils/format';
+import { ApplyVoucherDialog } from './ApplyVoucherDialog';
+import { CreditOverrideDialog } from './CreditOverrideDialog';
+
+interface PaymentRow {
+  mode: string;
+  amount: string;
+  reference: string;
+}
+
+interface OldGoldRow {
+  description: string;
+  grossWeight: string;
+  purity: string;
+  ratePerGram: string;
+}
+
+/**
+ * Sale started from another module: pieces kept from an approval memo, a
+ * custom order being delivered against its advances, or a matured savings
+ * scheme being redeemed
+ */
+interface SaleHandoff {
+  approvalMemo?: { id: string; memoNumber: string };
+  customOrder?: Pick<CustomOrder, 'id' | 'orderNumber' | 'metal' | 'purity' | 'advances'>;
+  schemeEnrolment?: Pick<SchemeEnrolment, 'id' | 'enrolmentNumber' | 'paidCount' | 'totalPaid' | 'totalGrams' | 'plan'>;
+  customer: Customer | null;
+  lines?: SalesInvoiceLine[];
+}
+
+const emptyOldGold: OldGoldRow = { description: 'Old gold', grossWeight: '', purity: '22K', ratePerGram: '' };
+
+const sectionTitleSx = {
+  color: '#0d0421',
+  fontWeight: 600,
+  mb: 1.5,
+  fontSize: { xs: '1rem', sm: '1.1rem' },
+};
+
+const paperSx = {
+  p: { xs: 2, sm: 2.5 },
+  mb: 2,
+  boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)',
+};
+
+const parseAmount = (value: string) => (value ? parseFloat(value) || 0 : 0);
+
+export function PointOfSale() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const handoff = location.state as SaleHandoff | null;
+  const queryClient = useQueryClient();
+  const { getRate } = useMetalRates();
+  const { options: pricingOptions, loading: pricingLoading } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+
+  const [customer, setCustomer] = useState<Customer | null>(handoff?.customer ?? null);
+  // Place of supply picked by hand; null follows the customer's GSTIN or the home state
+  const [placeOfSupplyOverride, setPlaceOfSupplyOverride] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [lines, setLines] = useState<SalesInvoiceLine[]>(handoff?.lines ?? []);
+  const [expandedLine, setExpandedLine] = useState<string | null>(null);
+  const [oldGoldRow, setOldGoldRow] = useState<OldGoldRow>(emptyOldGold);
+  const [oldGold, setOldGold] = useState<OldGoldExchange[]>([]);
+  const [voucherDialogOpen, setVoucherDialogOpen] = useState(false);
+  const [payments, setPayments] = useState<PaymentRow[]>([]);
+  const [creditOverride, setCreditOverride] = useState<CreditOverride | null>(null);
+  const [overrideDialogOpen, setOverrideDialogOpen] = useState(false);
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  const { data: nextInvoiceNumber } = useQuery({
+    queryKey: ['sales', 'nextInvoiceNumber'],
+    queryFn: fetchNextInvoiceNumber,
+  });
+
+  const { data: financeConfig } = useQuery<FinanceConfig>({
+    queryKey: ['config', 'finance'],
+    queryFn: getFinanceConfig,
+  });
+
+  const { data: invoiceConfig } = useQuery<InvoiceConfig>({
+    queryKey: ['config', 'invoice'],
+    queryFn: getInvoiceConfig,
+  });
+
+  const { data: taxConfig } = useQuery<TaxConfig>({
+    queryKey: ['config', 'tax'],
+    queryFn: getTaxConfig,
+  });
+
+  // The customer's sales this financial year and cash paid today, for the TCS thresholds and cash limit
+  const yearStart = financialYearStart();
+  const { data: customerSales } = useQuery({
+    queryKey: ['sales', 'invoices', { customerId: customer?.id, startDate: yearStart }],
+    queryFn: () => fetchSalesInvoices({ customerId: customer?.id, startDate: yearStart }),
+    enabled: !!customer,
+  });
+
+  const addLine = (item: Item) => {
+    if (lines.some((line) => line.itemId === item.id)) {
+      setScanError(`${item.tagNumber} is already on this invoice`);
+      return;
+    }
+    if (!pricingOptions) {
+      setScanError('Pricing configuration is not loaded yet');
+      return;
+    }
+    const rate = item.purity ? getRate(item.metal, item.purity) : undefined;
+    if (!rate) {
+      setScanError(`No ${item.metal} rate entered for ${item.purity || 'this purity'} today`);
+      return;
+    }
+    setLines((prev) => [...prev, buildInvoiceLine(item, rate.ratePerGram, pricingOptions)]);
+    setScanError(null);
+  };
+
+  const lookupMutation = useMutation({
+    mutationFn: fetchItemByTag,
+    onSuccess: (item) => {
+      addLine(item);
+      setTagInput('');
+    },
+    onError: (error) => setScanError(getApiErrorMessage(error, 'Item not found')),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: createSalesInvoice,
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: ['sales'] });
+      queryClient.invalidateQueries({ queryKey: ['oldGold'] });
+      queryClient.invalidateQueries({ queryKey: ['approvals'] });
+      queryClient.invalidateQueries({ queryKey: ['customOrders'] });
+      queryClient.invalidateQueries({ queryKey: ['schemes'] });
+      queryClient.invalidateQueries({ queryKey: ['customers'] });
+      navigate(`/sales/invoices/${invoice.id}?print=1`);
+    },
+    onError: (error) => setSnackbarMessage(getApiErrorMessage(error, 'Failed to save invoice')),
+  });
+
+  const handleScan = (event: FormEvent) => {
+    event.preventDefault();
+    const tag = tagInput.trim();
+    if (tag) {
+      lookupMutation.mutate(tag);
+    }
+  };
+
+  const handleAddOldGold = () => {
+    const grossWeight = parseAmount(oldGoldRow.grossWeight);
+    const ratePerGram = parseAmount(oldGoldRow.ratePerGram) || getRate('gold', oldGoldRow.purity)?.ratePerGram || 0;
+    if (grossWeight <= 0 || ratePerGram <= 0) {
+      setSnackbarMessage('Enter the old gold weight and rate');
+      return;
+    }
+    setOldGold((prev) => [
+      ...prev,
+      {
+        description: oldGoldRow.description || 'Old gold',
+        grossWeight,
+        purity: oldGoldRow.purity,
+        ratePerGram,
+        amount: roundTo(grossWeight * ratePerGram, decimals),
+      },
+    ]);
+    setOldGoldRow(emptyOldGold);
+  };
+
+  const invoicePayments = payments
+    .filter((payment) => parseAmount(payment.amount) > 0)
+    .map((payment) => ({
+      mode: payment.mode,
+      amount: parseAmount(payment.amount),
+      reference: payment.reference || null,
+    }));
+  const priorSales = summarizeCustomerSales(customer ? (customerSales?.data ?? []) : []);
+  const cashAmount = sumCashPayments(invoicePayments);
+  const invoiceAmount = roundTo(lines.reduce((total, line) => total + line.total, 0), decimals);
+  const tcs = calculateWithholding(
+    taxConfig?.withholdingSections ?? [],
+    ['cash_sale', 'sale'],
+    {
+      amount: invoiceAmount,
+      cashAmount,
+      yearToDate: priorSales.yearToDate,
+      hasPan: !!customer?.panNumber,
+    },
+    decimals
+  );
+  // Cash tendered beyond the invoice amount goes back as change, so it is not received
+  const cashCheck = checkCashReceipt(
+    priorSales.cashToday + Math.min(cashAmount, invoiceAmount),
+    taxConfig?.cashReceiptLimit ?? DEFAULT_CASH_RECEIPT_LIMIT
+  );
+  const cashBlocked = !!cashCheck?.exceeded;
+  const schemeEnrolment = handoff?.schemeEnrolment;
+  // Like advances, the scheme only goes as far as the invoice; the rest stays on the enrolment
+  const schemeRedemption = schemeEnrolment
+    ? calculateSchemeRedemption(
+        schemeEnrolment,
+        schemeEnrolment.plan.purity ? getRate('gold', schemeEnrolment.plan.purity)?.ratePerGram : undefined,
+        decimals,
+        calculateInvoiceTotals(lines, oldGold, invoicePayments, decimals, { tcsAmount: tcs?.amount }).netPayable
+      )
+    : null;
+  const customOrder = handoff?.customOrder;
+  // Advances only go as far as the invoice; the rest stays with the customer as an advance
+  const advanceCredit = customOrder
+    ? calculateAdvanceCredit(
+        customOrder.advances,
+        getRate(customOrder.metal, customOrder.purity)?.ratePerGram,
+        decimals,
+        calculateInvoiceTotals(lines, oldGold, invoicePayments, decimals, {
+          schemeAmount: schemeRedemption?.credit,
+          tcsAmount: tcs?.amount,
+        }).netPayable
+      )
+    : null;
+  const totals = calculateInvoiceTotals(lines, oldGold, invoicePayments, decimals, {
+    advanceAmount: advanceCredit?.credit,
+    schemeAmount: schemeRedemption?.credit,
+    tcsAmount: tcs?.amount,
+  });
+  const homeState = resolveHomeState(taxConfig, taxConfig?.taxNumber);
+  const placeOfSupply = placeOfSupplyOverride ?? resolvePlaceOfSupply(homeState, customer?.gstin);
+  const interState = isInterStateSupply(homeState, placeOfSupply);
+  const gst = summarizeGst(lines, interState, decimals);
+  const creditCheck = financeConfig?.enableCreditLimit ? checkCreditLimit(customer, totals.balanceDue) : null;
+  // An override covers this customer up to the amount the admin approved
+  const overrideApplies =
+    creditOverride?.status === 'approved' &&
+    !!creditCheck &&
+    creditOverride.customerId === customer?.id &&
+    creditCheck.exposure <= creditOverride.exposure;
+  const creditBlocked = !!creditCheck?.exceeded && !overrideApplies;
+
+  const handleAddPayment = () => {
+    setPayments((prev) => [
+      ...prev,
+      {
+        mode: financeConfig?.defaultPaymentMode || 'cash',
+        amount: totals.balanceDue > 0 ? totals.balanceDue.toFixed(decimals) : '',
+        reference: '',
+      },
+    ]);
+  };
+
+  const updatePayment = (index: number, changes: Partial<PaymentRow>) => {
+    setPayments((prev) => prev.map((payment, i) => (i === index ? { ...payment, ...changes } : payment)));
+  };
+
+  const handleSave = () => {
+    const invoiceDate = new Date().toISOString();
+    saveMutation.mutate({
+      invoiceDate,
+      customerId: customer?.id ?? null,
+      lines,
+      oldGold,
+      payments: invoicePayments,
+      placeOfSupply,
+      approvalMemoId: handoff?.approvalMemo?.id ?? null,
+      customOrderId: customOrder?.id ?? null,
+      advanceAmount: totals.advanceAmount,
+      remainingAdvance: advanceCredit?.remaining,
+      schemeEnrolmentId: schemeEnrolment?.id ?? null,
+      schemeAmount: totals.schemeAmount,
+      remainingSchemeAmount: schemeRedemption?.remaining,
+      tcs,
+      dueDate: totals.balanceDue > 0 ? calculateDueDate(invoiceDate, invoiceConfig?.defaultDueDays) : null,
+      creditOverrideId: overrideApplies ? creditOverride?.id : null,
+    });
+  };
+
+  if (pricingLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', mb: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            New Sale
+          </Typography>
+          {nextInvoiceNumber && (
+            <Typography sx={{ color: '#5e3b63', fontFamily: 'monospace', fontWeight: 600 }}>
+              {nextInvoiceNumber}
+            </Typography>
+          )}
+        </Box>
+
+        {handoff?.approvalMemo && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Billing pieces kept from approval memo {handoff.approvalMemo.memoNumber}. They are marked sold on the memo
+            when this invoice is saved.
+          </Alert>
+        )}
+        {customOrder && advanceCredit && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Delivering custom order {customOrder.orderNumber}. Scan the finished piece; advances of{' '}
+            {formatAmount(advanceCredit.credit, decimals)} are adjusted below
+            {advanceCredit.lockedWeight > 0
+              ? `, including ${formatWeight(advanceCredit.lockedWeight)} of ${customOrder.purity} locked at booking`
+              : ''}
+            .
+            {advanceCredit.remaining > 0 &&
+              ` ${formatAmount(advanceCredit.remaining, decimals)} is more than the invoice and is carried forward ` +
+                'as an advance.'}
+          </Alert>
+        )}
+        {schemeEnrolment && schemeRedemption && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            Redeeming scheme {schemeEnrolment.enrolmentNumber} ({schemeEnrolment.plan.name}):{' '}
+            {formatAmount(schemeRedemption.accumulatedValue, decimals)}
+            {schemeRedemption.bonusAmount > 0
+              ? ` plus ${formatAmount(schemeRedemption.bonusAmount, decimals)} bonus`
+              : ''}{' '}
+            is taken off this invoice.
+            {schemeRedemption.remaining > 0 &&
+              ` ${formatAmount(schemeRedemption.remaining, decimals)} is more than the invoice and stays on the ` +
+                'enrolment.'}
+          </Alert>
+        )}
+
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, md: 8 }}>
+            {/* Customer */}
+            <Paper sx={paperSx}>
+              <Typography sx={sectionTitleSx}>Customer</Typography>
+              <CustomerSelect
+                value={customer}
+                onChange={(value) => {
+                  setCustomer(value);
+                  setPlaceOfSupplyOverride(null);
+                }}
+                placeholder="Walk-in"
+              />
+              {taxConfig?.taxEnabled && (
+                <TextField
+                  select
+                  fullWidth
+                  size="small"
+                  label="Place of Supply"
+                  value={placeOfSupply ?? ''}
+                  onChange={(e) => setPlaceOfSupplyOverride(e.target.value)}
+                  helperText={interState ? 'Inter-state supply: IGST applies' : 'Intra-state supply: CGST + SGST apply'}
+                  sx={{ mt: 1.5 }}
+                >
+                  {GST_STATES.map((state) => (
+                    <MenuItem key={state.code} value={state.code}>
+                      {state.code} - {state.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+              )}
+              {isPanMissingForSale(totals.total, customer) && (
+                <Alert severity="warning" sx={{ mt: 1.5 }}>
+                  Sales above {formatAmount(PAN_REQUIRED_ABOVE, 0)} need the buyer's PAN on file.{' '}
+                  {customer ? "Record it on the customer's KYC before billing." : 'Select or add the customer.'}
+                </Alert>
+              )}
+            </Paper>
+
+            {/* Items */}
+            <Paper sx={paperSx}>
+              <Typography sx={sectionTitleSx}>Items</Typography>
+              <Box component="form" onSubmit={handleScan} sx={{ display: 'flex', gap: 1, mb: 1 }}>
+                <TextField
+                  autoFocus
+                  fullWidth
+                  size="small"
+                  label="Scan barcode or enter tag number"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  slotProps={{
+                    input: { startAdornment: <QrCodeScanner sx={{ color: '#5e3b63', mr: 1 }} /> },
+                  }}
+                />
+                <Button
+                  type="submit"
+                  variant="contained"
+                  disabled={lookupMutation.isPending}
+                  sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+                >
+                  Add
+                </Button>
+              </Box>
+              {scanError && (
+                <Alert severity="warning" onClose={() => setScanError(null)} sx={{ mb: 1 }}>
+                  {scanError}
+                </Alert>
+              )}
+              {lines.length === 0 ? (
+                <Typography sx={{ color: '#666666', py: 2, textAlign: 'center' }}>No items added yet.</Typography>
+              ) : (
+                <Box sx={{ overflowX: 'auto' }}>
+                  <Table size="small">
+                    <TableHead>
+                      <TableRow>
+                        <TableCell sx={{ fontWeight: 600 }}>Tag</TableCell>
+                        <TableCell sx={{ fontWeight: 600 }}>Item</TableCell>
+                        <TableCell sx={{ fontWeight: 600 }} align="right">
+                          Net Wt
+                        </TableCell>
+                        <TableCell sx={{ fontWeight: 600 }} align="right">
+                          Rate
+                        </TableCell>
+                        <TableCell sx={{ fontWeight: 600 }} align="right">
+                          Amount
+                        </TableCell>
+                        <TableCell />
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {lines.map((line) => (
+                        <Fragment key={line.itemId}>
+                          <TableRow>
+                            <TableCell sx={{ fontFamily: 'monospace' }}>{line.tagNumber}</TableCell>
+                            <TableCell>
+                              {line.description}
+                              {line.purity ? ` (${line.purity})` : ''}
+                            </TableCell>
+                            <TableCell align="right">{formatWeight(line.netWeight)}</TableCell>
+                            <TableCell align="right">{formatAmount(line.ratePerGram, decimals)}</TableCell>
+                            <TableCell align="right" sx={{ fontWeight: 600 }}>
+                              {formatAmount(line.total, decimals)}
+                            </TableCell>
+                            <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                              <IconButton
+                                size="small"
+                                aria-label="show price breakup"
+                                onClick={() => setExpandedLine(expandedLine === line.itemId ? null : line.itemId)}
+                              >
+                                {expandedLine === line.itemId ? <ExpandLess /> : <ExpandMore />}
+                              </IconButton>
+                              <IconButton
+                                size="small"
+                                aria-label="remove item"
+                                onClick={() => setLines((prev) => prev.filter((l) => l.itemId !== line.itemId))}
+                                sx={{ color: '#d32f2f' }}
+                              >
+                                <Delete fontSize="small" />
+                              </IconButton>
+                            </TableCell>
+                          </TableRow>
+                          <TableRow>
+                            <TableCell colSpan={6} sx={{ py: 0, border: expandedLine === line.itemId ? undefined : 'none' }}>
+                              <Collapse in={expandedLine === line.itemId} unmountOnExit>
+                                <Box sx={{ py: 1 }}>
+                                  <PriceBreakup
+                                    input={{
+                                      grossWeight: line.grossWeight,
+                                      netWeight: line.netWeight,
+                                      ratePerGram: line.ratePerGram,
+                                      wastagePercent: line.wastagePercent,
+                                      makingChargeType: line.makingChargeType,
+                                      makingCharge: line.makingCharge,
+                                      stoneAmount: line.stoneValue,
+                                    }}
+                                  />
+                                </Box>
+                              </Collapse>
+                            </TableCell>
+                          </TableRow>
+                        </Fragment>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </Box>
+              )}
+            </Paper>
+
+            {/* Old Gold Exchange */}
+            <Paper sx={paperSx}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography sx={sectionTitleSx}>Old Gold Exchange</Typography>
+                <Button
+                  size="small"
+                  startIcon={<Receipt />}
+                  onClick={() => setVoucherDialogOpen(true)}
+                  sx={{ color: '#5e3b63', mb: 1.5 }}
+                >
+                  Apply Voucher
+                </Button>
+              </Box>
+              <Grid container spacing={1.5} sx={{ alignItems: 'center' }}>
+                <Grid size={{ xs: 12, sm: 4 }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    label="Description"
+                    value={oldGoldRow.description}
+                    onChange={(e) => setOldGoldRow({ ...oldGoldRow, description: e.target.value })}
+                  />
+                </Grid>
+                <Grid size={{ xs: 6, sm: 2 }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    label="Weight (g)"
+                    type="number"
+                    value={oldGoldRow.grossWeight}
+                    onChange={(e) => setOldGoldRow({ ...oldGoldRow, grossWeight: e.target.value })}
+                  />
+                </Grid>
+                <Grid size={{ xs: 6, sm: 2 }}>
+                  <TextField
+                    select
+                    size="small"
+                    fullWidth
+                    label="Purity"
+                    value={oldGoldRow.purity}
+                    onChange={(e) => setOldGoldRow({ ...oldGoldRow, purity: e.target.value })}
+                  >
+                    {METAL_PURITIES.gold.map((purity) => (
+                      <MenuItem key={purity.value} value={purity.value}>
+                        {purity.value}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </Grid>
+                <Grid size={{ xs: 8, sm: 3 }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    label="Rate / g"
+                    type="number"
+                    placeholder={getRate('gold', oldGoldRow.purity)?.ratePerGram.toString()}
+                    value={oldGoldRow.ratePerGram}
+                    onChange={(e) => setOldGoldRow({ ...oldGoldRow, ratePerGram: e.target.value })}
+                  />
+                </Grid>
+                <Grid size={{ xs: 4, sm: 1 }}>
+                  <IconButton aria-label="add old gold" onClick={handleAddOldGold} sx={{ color: '#5e3b63' }}>
+                    <Add />
+                  </IconButton>
+                </Grid>
+              </Grid>
+              {oldGold.map((entry, index) => (
+                <Box
+                  key={index}
+                  sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mt: 1 }}
+                >
+                  <Typography variant="body2">
+                    {entry.description} — {formatWeight(entry.grossWeight)} {entry.purity} @{' '}
+                    {formatAmount(entry.ratePerGram, decimals)}
+                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                    <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                      −{formatAmount(entry.amount, decimals)}
+                    </Typography>
+                    <IconButton
+                      size="small"
+                      aria-label="remove old gold"
+                      onClick={() => setOldGold((prev) => prev.filter((_, i) => i !== index))}
+                      sx={{ color: '#d32f2f' }}
+                    >
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  </Box>
+                </Box>
+              ))}
+            </Paper>
+          </Grid>
+
+          <Grid size={{ xs: 12, md: 4 }}>
+            {/* Summary */}
+            <Paper sx={paperSx}>
+              <Typography sx={sectionTitleSx}>Summary</Typography>
+              {[
+                ['Taxable Value', totals.subtotal],
+                ...(interState
+                  ? [['IGST', gst.igst]]
+                  : [
+                      ['CGST', gst.cgst],
+                      ['SGST', gst.sgst],
+                    ]),
+                ['Invoice Total', totals.total],
+                ['Less: Old Gold', -totals.oldGoldAmount],
+                ...(customOrder ? [[`Less: Advance ${customOrder.orderNumber}`, -totals.advanceAmount]] : []),
+                ...(schemeEnrolment ? [[`Less: Scheme ${schemeEnrolment.enrolmentNumber}`, -totals.schemeAmount]] : []),
+                ...(tcs ? [[`Add: TCS ${tcs.section} @ ${tcs.ratePercent}%`, tcs.amount]] : []),
+              ].map(([label, value]) => (
+                <Box key={label} sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.75 }}>
+                  <Typography variant="body2">{label}</Typography>
+                  <Typography variant="body2">{formatAmount(value as number, decimals)}</Typography>
+                </Box>
+              ))}
+              <Divider sx={{ my: 1 }} />
+              <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                <Typography sx={{ fontWeight: 700 }}>Net Payable</Typography>
+                <Typography sx={{ fontWeight: 700, color: '#5e3b63' }}>
+                  {formatAmount(totals.netPayable, decimals)}
+                </Typography>
+              </Box>
+            </Paper>
+
+            {/* Payments */}
+            <Paper sx={paperSx}>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography sx={sectionTitleSx}>Payments</Typography>
+                <Button size="small" startIcon={<Add />} onClick={handleAddPayment} sx={{ color: '#5e3b63' }}>
+                  Add
+                </Button>
+              </Box>
+              {payments.map((payment, index) => (
+                <Grid container spacing={1} key={index} sx={{ mb: 1, alignItems: 'center' }}>
+                  <Grid size={5}>
+                    <TextField
+                      select
+                      size="small"
+                      fullWidth
+                      label="Mode"
+                      value={payment.mode}
+                      onChange={(e) => updatePayment(index, { mode: e.target.value })}
+                    >
+                      {PAYMENT_MODES.map((mode) => (
+                        <MenuItem key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  </Grid>
+                  <Grid size={5}>
+                    <TextField
+                      size="small"
+                      fullWidth
+                      label="Amount"
+                      type="number"
+                      value={payment.amount}
+                      onChange={(e) => updatePayment(index, { amount: e.target.value })}
+                    />
+                  </Grid>
+                  <Grid size={2}>
+                    <IconButton
+                      size="small"
+                      aria-label="remove payment"
+                      onClick={() => setPayments((prev) => prev.filter((_, i) => i !== index))}
+                      sx={{ color: '#d32f2f' }}
+                    >
+                      <Delete fontSize="small" />
+                    </IconButton>
+                  </Grid>
+                  {payment.mode !== 'cash' && (
+                    <Grid size={10}>
+                      <TextField
+                        size="small"
+                        fullWidth
+                        label="Reference"
+                        value={payment.reference}
+                        onChange={(e) => updatePayment(index, { reference: e.target.value })}
+                      />
+                    </Grid>
+                  )}
+                </Grid>
+              ))}
+              <Divider sx={{ my: 1 }} />
+              <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                <Typography variant="body2">Paid</Typography>
+                <Typography variant="body2">{formatAmount(totals.amountPaid, decimals)}</Typography>
+              </Box>
+              <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                <Typography sx={{ fontWeight: 600 }}>
+                  {totals.balanceDue < 0 ? 'Change to Return' : 'Balance Due'}
+                </Typography>
+                <Typography sx={{ fontWeight: 600, color: totals.balanceDue > 0 ? '#d32f2f' : '#2e7d32' }}>
+                  {formatAmount(Math.abs(totals.balanceDue), decimals)}
+                </Typography>
+              </Box>
+              {totals.balanceDue > 0 && invoiceConfig?.defaultDueDays && (
+                <Typography variant="caption" sx={{ color: '#666666' }}>
+                  Due in {invoiceConfig.defaultDueDays} days
+                </Typography>
+              )}
+              {creditCheck?.exceeded && (
+                <Alert
+                  severity={overrideApplies ? 'info' : 'error'}
+                  sx={{ mt: 1.5 }}
+                  action={
+                    !overrideApplies && (
+                      <Button color="inherit" size="small" onClick={() => setOverrideDialogOpen(true)}>
+                        Override
+                      </Button>
+                    )
+                  }
+                >
+                  {overrideApplies
+                    ? `Credit limit override approved by ${creditOverride?.approvedByName}.`
+                    : `This leaves ${formatAmount(creditCheck.exposure, decimals)} owing against a credit limit of ` +
+                      `${formatAmount(creditCheck.creditLimit, decimals)}. Collect more or get an admin override.`}
+                </Alert>
+              )}
+              {cashCheck?.exceeded && (
+                <Alert severity="error" sx={{ mt: 1.5 }}>
+                  {priorSales.cashToday > 0
+                    ? `With ${formatAmount(priorSales.cashToday, decimals)} paid in cash earlier today, the customer's `
+                    : "The customer's "}
+                  cash receipts reach {formatAmount(cashCheck.received, decimals)}. Cash of{' '}
+                  {formatAmount(cashCheck.limit, decimals)} or more in a day cannot be accepted (section 269ST); take
+                  the rest by card, UPI or bank transfer.
+                </Alert>
+              )}
+            </Paper>
+
+            <Button
+              fullWidth
+              variant="contained"
+              size="large"
+              disabled={lines.length === 0 || creditBlocked || cashBlocked || saveMutation.isPending}
+              onClick={handleSave}
+              sx={{
+                backgroundColor: '#5e3b63',
+                fontWeight: 600,
+                py: 1.5,
+                '&:hover': { backgroundColor: '#4a2d4f' },
+              }}
+            >
+              {saveMutation.isPending ? <CircularProgress size={22} sx={{ color: '#ffffff' }} /> : 'Save & Print'}
+            </Button>
+          </Grid>
+        </Grid>
+      </Box>
+
+      {voucherDialogOpen && (
+        <ApplyVoucherDialog
+          customerId={customer?.id ?? null}
+          appliedIds={oldGold.flatMap((entry) => (entry.voucherId ? [entry.voucherId] : []))}
+          decimals={decimals}
+          onApply={(voucher) => {
+            setOldGold((prev) => [...prev, voucherToOldGoldExchange(voucher)]);
+            setVoucherDialogOpen(false);
+          }}
+          onClose={() => setVoucherDialogOpen(false)}
+        />
+      )}
+
+      {overrideDialogOpen && customer && creditCheck && (
+        <CreditOverrideDialog
+          customer={customer}
+          creditCheck={creditCheck}
+          decimals={decimals}
+          onApproved={(override) => {
+            setCreditOverride(override);
+            setOverrideDialogOpen(false);
+          }}
+          onClose={() => setOverrideDialogOpen(false)}
+        />
+      )}
+
+      <Snackbar
+        open={!!snackbarMessage}
+        autoHideDuration={6000}
+        onClose={() => setSnackbarMessage(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbarMessage(null)} severity="error" sx={{ width: '100%' }}>
+          {snackbarMessage}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
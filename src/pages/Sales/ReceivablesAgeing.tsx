@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableFooter,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+} from '@mui/material';
+import { Download, Search } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { fetchSalesInvoices } from '../../api/sales';
+import { AGEING_BUCKETS, buildReceivablesAgeing, receivablesAgeingToCsv } from '../../utils/receivables';
+import { downloadFile } from '../../utils/export';
+import { formatAmount } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+const footCellSx = { ...bodyCellSx, fontWeight: 700 };
+
+/** Buckets past this age are shown in red */
+const OVERDUE_BUCKETS = new Set(['upTo90', 'over90']);
+
+/**
+ * Unpaid invoice balances per customer, aged 0-30, 31-60, 61-90 and 90+ days
+ */
+export function ReceivablesAgeing() {
+  const navigate = useNavigate();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [search, setSearch] = useState('');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['sales', 'invoices', { outstanding: true }],
+    queryFn: () => fetchSalesInvoices({ outstanding: true }),
+  });
+
+  const ageing = buildReceivablesAgeing(data?.data ?? [], decimals);
+  const searchText = search.trim().toLowerCase();
+  const rows = searchText
+    ? ageing.rows.filter((row) =>
+        [row.customerName, row.customerNumber, row.phone].some((value) => value?.toLowerCase().includes(searchText))
+      )
+    : ageing.rows;
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(receivablesAgeingToCsv(ageing), `receivables-ageing-${date}.csv`, 'text/csv');
+  };
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Receivables Ageing
+          </Typography>
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            disabled={ageing.rows.length === 0}
+            onClick={handleExport}
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Export CSV
+          </Button>
+        </Box>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          {AGEING_BUCKETS.map((bucket) => (
+            <Grid key={bucket.key} size={{ xs: 6, md: 3 }}>
+              <Paper sx={{ p: 2, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+                <Typography sx={{ color: '#666666', fontSize: '0.8rem' }}>{bucket.label}</Typography>
+                <Typography
+                  variant="h6"
+                  sx={{
+                    color: OVERDUE_BUCKETS.has(bucket.key) && ageing.totals[bucket.key] > 0 ? '#d32f2f' : '#000000',
+                    fontWeight: 600,
+                  }}
+                >
+                  {formatAmount(ageing.totals[bucket.key], decimals)}
+                </Typography>
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <TextField
+            fullWidth
+            size="small"
+            label="Search"
+            placeholder="Customer name, number or phone..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            slotProps={{
+              input: {
+                startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+              },
+            }}
+          />
+        </Paper>
+
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading receivables. Please try again.'}
+              </Alert>
+            </Box>
+          ) : rows.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No outstanding balances.</Typography>
+            </Box>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table sx={{ minWidth: 900 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Customer</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Invoices
+                    </TableCell>
+                    {AGEING_BUCKETS.map((bucket) => (
+                      <TableCell key={bucket.key} sx={headCellSx} align="right">
+                        {bucket.label}
+                      </TableCell>
+                    ))}
+                    <TableCell sx={headCellSx} align="right">
+                      Total
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Credit Limit
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Oldest
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {rows.map((row) => {
+                    const overLimit = row.creditLimit !== null && row.total > row.creditLimit;
+                    return (
+                      <TableRow
+                        key={row.customerId ?? 'walk-in'}
+                        hover={!!row.customerId}
+                        onClick={() => row.customerId && navigate(`/customers/${row.customerId}`)}
+                        sx={{ cursor: row.customerId ? 'pointer' : 'default' }}
+                      >
+                        <TableCell sx={bodyCellSx}>
+                          <Typography sx={{ fontSize: 'inherit', fontWeight: 600 }}>{row.customerName}</Typography>
+                          <Typography variant="caption" sx={{ color: '#666666', fontFamily: 'monospace' }}>
+                            {[row.customerNumber, row.phone].filter(Boolean).join(' · ')}
+                          </Typography>
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {row.invoiceCount}
+                        </TableCell>
+                        {AGEING_BUCKETS.map((bucket) => (
+                          <TableCell
+                            key={bucket.key}
+                            sx={{
+                              ...bodyCellSx,
+                              ...(OVERDUE_BUCKETS.has(bucket.key) &&
+                                row.buckets[bucket.key] > 0 && { color: '#d32f2f' }),
+                            }}
+                            align="right"
+                          >
+                            {row.buckets[bucket.key] > 0 ? formatAmount(row.buckets[bucket.key], decimals) : '-'}
+                          </TableCell>
+                        ))}
+                        <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                          {formatAmount(row.total, decimals)}
+                        </TableCell>
+                        <TableCell
+                          sx={{ ...bodyCellSx, ...(overLimit && { color: '#d32f2f', fontWeight: 600 }) }}
+                          align="right"
+                        >
+                          {row.creditLimit !== null ? formatAmount(row.creditLimit, decimals) : '-'}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {row.oldestDays}d
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+                {!searchText && (
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell sx={footCellSx}>Total</TableCell>
+                      <TableCell sx={footCellSx} />
+                      {AGEING_BUCKETS.map((bucket) => (
+                        <TableCell key={bucket.key} sx={footCellSx} align="right">
+                          {formatAmount(ageing.totals[bucket.key], decimals)}
+                        </TableCell>
+                      ))}
+                      <TableCell sx={footCellSx} align="right">
+                        {formatAmount(ageing.totals.total, decimals)}
+                      </TableCell>
+                      <TableCell sx={footCellSx} colSpan={2} />
+                    </TableRow>
+                  </TableFooter>
+                )}
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
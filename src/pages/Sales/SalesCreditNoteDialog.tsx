@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  createSalesCreditNote,
+  type SalesCreditNoteReason,
+  type SalesInvoice,
+  type SalesInvoiceLine,
+} from '../../api/sales';
+import { roundTo } from '../../utils/rounding';
+import { formatAmount, formatWeight } from '../../utils/format';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface SalesCreditNoteDialogProps {
+  invoice: SalesInvoice;
+  /** Lines not yet credited by an earlier note */
+  lines: SalesInvoiceLine[];
+  reason: SalesCreditNoteReason;
+  decimals: number;
+  onClose: () => void;
+}
+
+/**
+ * Take pieces back on a credit note, or cancel the invoice by crediting
+ * every piece still on it
+ */
+export function SalesCreditNoteDialog({ invoice, lines, reason, decimals, onClose }: SalesCreditNoteDialogProps) {
+  const queryClient = useQueryClient();
+  const isCancellation = reason === 'cancellation';
+  const [creditNoteDate, setCreditNoteDate] = useState(today());
+  const [remarks, setRemarks] = useState('');
+  const [selected, setSelected] = useState<string[]>(() => (isCancellation ? lines.map((line) => line.itemId) : []));
+
+  const credited = lines.filter((line) => selected.includes(line.itemId));
+  const total = roundTo(credited.reduce((sum, line) => sum + line.total, 0), decimals);
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      createSalesCreditNote(invoice.id, {
+        creditNoteDate,
+        reason,
+        itemIds: selected,
+        remarks: remarks.trim() || null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['sales'] });
+      onClose();
+    },
+  });
+
+  const toggle = (itemId: string) =>
+    setSelected((prev) => (prev.includes(itemId) ? prev.filter((id) => id !== itemId) : [...prev, itemId]));
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>
+        {isCancellation ? `Cancel ${invoice.invoiceNumber}` : `Sales Return on ${invoice.invoiceNumber}`}
+      </DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" sx={{ color: '#666666', mb: 1 }}>
+          {isCancellation
+            ? 'Every piece still on the invoice is credited and returned to stock. The invoice number stays used.'
+            : 'Pick the pieces coming back. They are credited at the value they were billed at and returned to stock.'}
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              {!isCancellation && <TableCell padding="checkbox" />}
+              <TableCell sx={{ fontWeight: 600 }}>Piece</TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">
+                Gross Wt
+              </TableCell>
+              <TableCell sx={{ fontWeight: 600 }} align="right">
+                Amount
+              </TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {lines.map((line) => (
+              <TableRow
+                key={line.itemId}
+                hover={!isCancellation}
+                onClick={() => !isCancellation && toggle(line.itemId)}
+                sx={{ cursor: isCancellation ? 'default' : 'pointer' }}
+              >
+                {!isCancellation && (
+                  <TableCell padding="checkbox">
+                    <Checkbox
+                      size="small"
+                      checked={selected.includes(line.itemId)}
+                      sx={{ '&.Mui-checked': { color: '#5e3b63' } }}
+                    />
+                  </TableCell>
+                )}
+                <TableCell>
+                  {line.description}
+                  <Typography variant="caption" component="div" sx={{ color: '#666666', fontFamily: 'monospace' }}>
+                    {line.tagNumber}
+                  </Typography>
+                </TableCell>
+                <TableCell align="right">{formatWeight(line.grossWeight)}</TableCell>
+                <TableCell align="right">{formatAmount(line.total, decimals)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 1.5 }}>
+          <Typography sx={{ fontWeight: 600 }}>Credit Note Value</Typography>
+          <Typography sx={{ fontWeight: 600 }}>{formatAmount(total, decimals)}</Typography>
+        </Box>
+        <TextField
+          type="date"
+          fullWidth
+          label="Credit Note Date"
+          margin="dense"
+          value={creditNoteDate}
+          onChange={(e) => setCreditNoteDate(e.target.value)}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <TextField
+          fullWidth
+          label={isCancellation ? 'Reason' : 'Remarks'}
+          margin="dense"
+          value={remarks}
+          onChange={(e) => setRemarks(e.target.value)}
+        />
+        {saveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(saveMutation.error, 'Failed to save credit note')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Close
+        </Button>
+        <Button
+          variant="contained"
+          disabled={
+            selected.length === 0 ||
+            !creditNoteDate ||
+            (isCancellation && !remarks.trim()) ||
+            saveMutation.isPending
+          }
+          onClick={() => saveMutation.mutate()}
+          sx={{ backgroundColor: '#d32f2f', '&:hover': { backgroundColor: '#b71c1c' } }}
+        >
+          {isCancellation ? 'Cancel Invoice' : 'Issue Credit Note'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
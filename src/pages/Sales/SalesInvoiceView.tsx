@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { Box, Button, CircularProgress, Alert, Paper, TextField, MenuItem } from '@mui/material';
+import { ArrowBack, Print } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { InvoicePrint } from '../../components/Invoice/InvoicePrint';
+import { getInvoiceDocumentType, type InvoiceTemplateId } from '../../components/Invoice/templates';
+import { useInvoiceTemplates } from '../../hooks/useInvoiceTemplates';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { fetchSalesInvoice, type SalesInvoice } from '../../api/sales';
+import { isEInvoiceApplicable } from '../../utils/eInvoice';
+import { CreditNotesPanel } from './CreditNotesPanel';
+import { EInvoicePanel } from './EInvoicePanel';
+
+export function SalesInvoiceView() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const autoPrint = searchParams.get('print') === '1';
+  const [templateId, setTemplateId] = useState<InvoiceTemplateId | null>(null);
+
+  const { data: invoice, isLoading, error } = useQuery<SalesInvoice>({
+    queryKey: ['sales', 'invoices', id],
+    queryFn: () => fetchSalesInvoice(id as string),
+    enabled: !!id,
+  });
+
+  const {
+    invoiceConfig,
+    generalConfig,
+    taxConfig,
+    available,
+    getDefaultTemplate,
+    loading: templatesLoading,
+  } = useInvoiceTemplates();
+  const { options: pricingOptions } = usePricingOptions();
+
+  const ready = !!invoice && !templatesLoading;
+
+  // Invoices saved from the POS open with ?print=1 to go straight to the print dialog; the
+  // parameter is dropped afterwards so a reload or back navigation does not print again
+  useEffect(() => {
+    if (autoPrint && ready) {
+      window.print();
+      setSearchParams(
+        (params) => {
+          params.delete('print');
+          return params;
+        },
+        { replace: true }
+      );
+    }
+  }, [autoPrint, ready, setSearchParams]);
+
+  if (isLoading || templatesLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !invoice) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Invoice not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const template =
+    available.find((option) => option.id === templateId) ??
+    getDefaultTemplate(getInvoiceDocumentType(invoice));
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1000, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, mb: 2 }}>
+          <Button
+            startIcon={<ArrowBack />}
+            onClick={() => navigate('/sales/invoices')}
+            sx={{ color: '#5e3b63' }}
+          >
+            Sales Invoices
+          </Button>
+          <Box sx={{ display: 'flex', gap: 1.5 }}>
+            <TextField
+              select
+              size="small"
+              label="Template"
+              value={template.id}
+              onChange={(e) => setTemplateId(e.target.value as InvoiceTemplateId)}
+              sx={{ minWidth: 220 }}
+            >
+              {available.map((option) => (
+                <MenuItem key={option.id} value={option.id}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Button
+              variant="contained"
+              startIcon={<Print />}
+              onClick={() => window.print()}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              Print / PDF
+            </Button>
+          </Box>
+        </Box>
+        {(invoice.eInvoice || isEInvoiceApplicable(invoice, taxConfig)) && (
+          <EInvoicePanel invoice={invoice} generalConfig={generalConfig} taxConfig={taxConfig} />
+        )}
+        <CreditNotesPanel invoice={invoice} decimals={pricingOptions?.decimalPrecision ?? 2} />
+        <Paper className="print-area" sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)', overflowX: 'auto' }}>
+          <InvoicePrint
+            template={template}
+            invoice={invoice}
+            invoiceConfig={invoiceConfig}
+            generalConfig={generalConfig}
+            taxConfig={taxConfig}
+            decimals={pricingOptions?.decimalPrecision}
+          />
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
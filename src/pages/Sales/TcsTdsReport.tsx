@@ -0,0 +1,354 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  Alert,
+  MenuItem,
+  Tabs,
+  Tab,
+} from '@mui/material';
+import { Download } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { fetchSalesInvoices } from '../../api/sales';
+import { fetchPurchaseBills } from '../../api/purchases';
+import {
+  buildWithholdingReport,
+  formatWithholdingQuarter,
+  getWithholdingQuarter,
+  withholdingQuarterRange,
+  withholdingReportToCsv,
+  type WithholdingEntry,
+  type WithholdingQuarter,
+} from '../../utils/withholding';
+import { downloadFile } from '../../utils/export';
+import { formatAmount } from '../../utils/format';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+type ReportTab = 'summary' | 'tcs' | 'tds';
+
+const QUARTERS: { value: WithholdingQuarter['quarter']; label: string }[] = [
+  { value: 1, label: 'Q1 (Apr - Jun)' },
+  { value: 2, label: 'Q2 (Jul - Sep)' },
+  { value: 3, label: 'Q3 (Oct - Dec)' },
+  { value: 4, label: 'Q4 (Jan - Mar)' },
+];
+
+/** Quarterly statements are filed for the quarter just gone */
+const previousQuarter = (): WithholdingQuarter => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 3);
+  return getWithholdingQuarter(date);
+};
+
+/**
+ * TCS collected on sales invoices and TDS deducted on purchase bills over a
+ * quarter, by section and by document, with CSV export for the quarterly
+ * statements (27EQ and 26Q)
+ */
+export function TcsTdsReport() {
+  const navigate = useNavigate();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [quarter, setQuarter] = useState<WithholdingQuarter>(previousQuarter);
+  const [tab, setTab] = useState<ReportTab>('summary');
+
+  const range = withholdingQuarterRange(quarter);
+  const currentYear = getWithholdingQuarter().financialYear;
+  const financialYears = Array.from({ length: 5 }, (_, index) => currentYear - index);
+
+  const invoicesQuery = useQuery({
+    queryKey: ['sales', 'invoices', range],
+    queryFn: () => fetchSalesInvoices(range),
+  });
+
+  const billsQuery = useQuery({
+    queryKey: ['purchase', 'bills', range],
+    queryFn: () => fetchPurchaseBills(range),
+  });
+
+  const report = buildWithholdingReport(invoicesQuery.data?.data ?? [], billsQuery.data?.data ?? [], decimals);
+  const isLoading = invoicesQuery.isLoading || billsQuery.isLoading;
+  const error = invoicesQuery.error || billsQuery.error;
+
+  const handleExport = () => {
+    downloadFile(
+      withholdingReportToCsv(report),
+      `tcs-tds-${formatWithholdingQuarter(quarter).replace(' ', '-')}.csv`,
+      'text/csv'
+    );
+  };
+
+  const summaryCards: { label: string; value: string }[] = [
+    { label: 'TCS Collected', value: formatAmount(report.totals.tcs, decimals) },
+    { label: 'Invoices with TCS', value: report.tcs.length.toString() },
+    { label: 'TDS Deducted', value: formatAmount(report.totals.tds, decimals) },
+    { label: 'Bills with TDS', value: report.tds.length.toString() },
+  ];
+
+  const entryTable = (entries: WithholdingEntry[]) =>
+    entries.length === 0 ? (
+      <Box sx={{ p: 4, textAlign: 'center' }}>
+        <Typography sx={{ color: '#666666' }}>Nothing to report for the quarter.</Typography>
+      </Box>
+    ) : (
+      <TableContainer sx={{ overflowX: 'auto' }}>
+        <Table size="small" sx={{ minWidth: 800 }}>
+          <TableHead>
+            <TableRow sx={{ backgroundColor: '#0d0421' }}>
+              <TableCell sx={headCellSx}>Document</TableCell>
+              <TableCell sx={headCellSx}>Party</TableCell>
+              <TableCell sx={headCellSx}>Section</TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Taxable Amount
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Rate
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Amount
+              </TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow
+                key={entry.documentId}
+                hover
+                onClick={() =>
+                  navigate(
+                    entry.kind === 'TCS' ? `/sales/invoices/${entry.documentId}` : `/purchase/bills/${entry.documentId}`
+                  )
+                }
+                sx={{ cursor: 'pointer' }}
+              >
+                <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+                  {entry.documentNumber}
+                  <Typography variant="caption" component="div" sx={{ color: '#666666' }}>
+                    {new Date(entry.date).toLocaleDateString()}
+                  </Typography>
+                </TableCell>
+                <TableCell sx={bodyCellSx}>
+                  {entry.partyName}
+                  <Typography
+                    variant="caption"
+                    component="div"
+                    sx={{ color: entry.pan ? '#666666' : '#d32f2f', fontFamily: 'monospace' }}
+                  >
+                    {entry.pan || 'No PAN'}
+                  </Typography>
+                </TableCell>
+                <TableCell sx={bodyCellSx}>{entry.section}</TableCell>
+                <TableCell sx={bodyCellSx} align="right">
+                  {formatAmount(entry.taxableAmount, decimals)}
+                </TableCell>
+                <TableCell sx={bodyCellSx} align="right">
+                  {entry.ratePercent}%
+                </TableCell>
+                <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                  {formatAmount(entry.amount, decimals)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    );
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            mb: 2,
+            gap: 2,
+          }}
+        >
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            TCS / TDS
+          </Typography>
+          <Button
+            variant="outlined"
+            startIcon={<Download />}
+            disabled={isLoading || report.tcs.length + report.tds.length === 0}
+            onClick={handleExport}
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Export CSV
+          </Button>
+        </Box>
+
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+            <TextField
+              select
+              size="small"
+              label="Financial Year"
+              value={quarter.financialYear}
+              onChange={(e) => setQuarter({ ...quarter, financialYear: Number(e.target.value) })}
+              sx={{ minWidth: 160 }}
+            >
+              {financialYears.map((year) => (
+                <MenuItem key={year} value={year}>
+                  {year}-{String(year + 1).slice(2)}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Quarter"
+              value={quarter.quarter}
+              onChange={(e) =>
+                setQuarter({ ...quarter, quarter: Number(e.target.value) as WithholdingQuarter['quarter'] })
+              }
+              sx={{ minWidth: 180 }}
+            >
+              {QUARTERS.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+        </Paper>
+
+        <Grid container spacing={2} sx={{ mb: 2 }}>
+          {summaryCards.map((card) => (
+            <Grid key={card.label} size={{ xs: 6, md: 3 }}>
+              <Paper sx={{ p: 2, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+                <Typography sx={{ color: '#666666', fontSize: '0.8rem' }}>{card.label}</Typography>
+                <Typography variant="h6" sx={{ color: '#000000', fontWeight: 600 }}>
+                  {card.value}
+                </Typography>
+              </Paper>
+            </Grid>
+          ))}
+        </Grid>
+
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Tabs
+            value={tab}
+            onChange={(_event, value: ReportTab) => setTab(value)}
+            variant="scrollable"
+            allowScrollButtonsMobile
+            sx={{
+              borderBottom: '1px solid #e0e0e0',
+              '& .MuiTab-root.Mui-selected': { color: '#5e3b63' },
+              '& .MuiTabs-indicator': { backgroundColor: '#5e3b63' },
+            }}
+          >
+            <Tab value="summary" label="By Section" />
+            <Tab value="tcs" label={`TCS Collected (${report.tcs.length})`} />
+            <Tab value="tds" label={`TDS Deducted (${report.tds.length})`} />
+          </Tabs>
+
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading invoices and bills. Please try again.'}
+              </Alert>
+            </Box>
+          ) : tab === 'tcs' ? (
+            entryTable(report.tcs)
+          ) : tab === 'tds' ? (
+            entryTable(report.tds)
+          ) : report.sections.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#666666' }}>
+                No TCS or TDS in {formatWithholdingQuarter(quarter)}.
+              </Typography>
+            </Box>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table size="small" sx={{ minWidth: 640 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Type</TableCell>
+                    <TableCell sx={headCellSx}>Section</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Documents
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Without PAN
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Taxable Amount
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Amount
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.sections.map((row) => (
+                    <TableRow key={`${row.kind}-${row.section}`}>
+                      <TableCell sx={bodyCellSx}>{row.kind}</TableCell>
+                      <TableCell sx={bodyCellSx}>{row.section}</TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {row.count}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {row.withoutPanCount}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {formatAmount(row.taxableAmount, decimals)}
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }} align="right">
+                        {formatAmount(row.amount, decimals)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+    </DashboardLayout>
+  );
+}
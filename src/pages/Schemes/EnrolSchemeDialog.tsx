@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  TextField,
+} from '@mui/material';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { CustomerSelect } from '../../components/Customer/CustomerSelect';
+import { getApiErrorMessage } from '../../api/client';
+import type { Customer } from '../../api/customers';
+import { enrolSchemeCustomer, fetchSchemePlans } from '../../api/schemes';
+import { formatAmount } from '../../utils/format';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface EnrolSchemeDialogProps {
+  decimals: number;
+  onClose: () => void;
+}
+
+/**
+ * Enrol a customer on an open plan and go to the new passbook
+ */
+export function EnrolSchemeDialog({ decimals, onClose }: EnrolSchemeDialogProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [planId, setPlanId] = useState('');
+  const [startDate, setStartDate] = useState(today());
+  const [notes, setNotes] = useState('');
+
+  const { data: plans = [] } = useQuery({
+    queryKey: ['schemes', 'plans', { isActive: true }],
+    queryFn: () => fetchSchemePlans({ isActive: true }),
+  });
+
+  const enrolMutation = useMutation({
+    mutationFn: () =>
+      enrolSchemeCustomer({
+        planId,
+        customerId: customer?.id ?? '',
+        startDate,
+        notes: notes.trim() || null,
+      }),
+    onSuccess: (enrolment) => {
+      queryClient.invalidateQueries({ queryKey: ['schemes'] });
+      navigate(`/schemes/${enrolment.id}`);
+    },
+  });
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Enrol Customer</DialogTitle>
+      <DialogContent>
+        <Box sx={{ mt: 1, mb: 1 }}>
+          <CustomerSelect
+            value={customer}
+            label="Customer"
+            placeholder="Search by name, phone or customer no."
+            onChange={setCustomer}
+          />
+        </Box>
+        <TextField
+          select
+          fullWidth
+          size="small"
+          margin="dense"
+          label="Plan"
+          value={planId}
+          onChange={(e) => setPlanId(e.target.value)}
+          helperText={plans.length === 0 ? 'No plans are open for enrolment' : undefined}
+        >
+          {plans.map((plan) => (
+            <MenuItem key={plan.id} value={plan.id}>
+              {plan.name} · {formatAmount(plan.instalmentAmount, decimals)} × {plan.tenureMonths}
+              {plan.bonusInstalments > 0 ? ` + ${plan.bonusInstalments} bonus` : ''}
+            </MenuItem>
+          ))}
+        </TextField>
+        <TextField
+          type="date"
+          fullWidth
+          size="small"
+          margin="dense"
+          label="Start Date"
+          value={startDate}
+          onChange={(e) => setStartDate(e.target.value)}
+          helperText="Instalments fall due on this day each month"
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <TextField
+          fullWidth
+          size="small"
+          margin="dense"
+          label="Notes"
+          multiline
+          rows={2}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+        {enrolMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(enrolMutation.error, 'Failed to enrol customer')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={!customer || !planId || !startDate || enrolMutation.isPending}
+          onClick={() => enrolMutation.mutate()}
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Enrol
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
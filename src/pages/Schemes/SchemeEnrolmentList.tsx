@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  Chip,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Add, Search, FilterList, Clear, Tune } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { useIsOrgAdmin } from '../../hooks/useAuth';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import {
+  SCHEME_ENROLMENT_STATUSES,
+  fetchSchemeEnrolments,
+  fetchSchemePlans,
+  type SchemeEnrolmentFilters,
+} from '../../api/schemes';
+import { getSchemeProgress } from '../../utils/schemes';
+import { formatAmount, formatWeight } from '../../utils/format';
+import { EnrolSchemeDialog } from './EnrolSchemeDialog';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+export function SchemeEnrolmentList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const isAdmin = useIsOrgAdmin();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [enrolDialogOpen, setEnrolDialogOpen] = useState(false);
+
+  const [filters, setFilters] = useState<SchemeEnrolmentFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<SchemeEnrolmentFilters>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['schemes', 'enrolments', appliedFilters],
+    queryFn: () => fetchSchemeEnrolments(appliedFilters),
+  });
+
+  const { data: plans = [] } = useQuery({
+    queryKey: ['schemes', 'plans'],
+    queryFn: () => fetchSchemePlans(),
+  });
+
+  const enrolments = data?.data ?? [];
+
+  const handleChangeFilter = (key: keyof SchemeEnrolmentFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const paginatedEnrolments = enrolments.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Gold Savings Schemes
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1.5 }}>
+            {isAdmin && (
+              <Button
+                variant="outlined"
+                startIcon={<Tune />}
+                onClick={() => navigate('/schemes/plans')}
+                sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+              >
+                Plans
+              </Button>
+            )}
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={() => setEnrolDialogOpen(true)}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              Enrol Customer
+            </Button>
+          </Box>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 6 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder="Enrolment number or customer..."
+                value={filters.search || ''}
+                onChange={(e) => handleChangeFilter('search', e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Status"
+                fullWidth
+                value={filters.status || ''}
+                onChange={(e) => handleChangeFilter('status', e.target.value)}
+              >
+                <MenuItem value="">All Statuses</MenuItem>
+                {SCHEME_ENROLMENT_STATUSES.map((status) => (
+                  <MenuItem key={status.value} value={status.value}>
+                    {status.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Plan"
+                fullWidth
+                value={filters.planId || ''}
+                onChange={(e) => handleChangeFilter('planId', e.target.value)}
+              >
+                <MenuItem value="">All Plans</MenuItem>
+                {plans.map((plan) => (
+                  <MenuItem key={plan.id} value={plan.id}>
+                    {plan.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading enrolments. Please try again.'}
+              </Alert>
+            </Box>
+          ) : enrolments.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No enrolments found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Enrolment No.</TableCell>
+                      <TableCell sx={headCellSx}>Customer</TableCell>
+                      <TableCell sx={headCellSx}>Plan</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>Started</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Paid
+                      </TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Collected
+                      </TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>Matures</TableCell>
+                      <TableCell sx={headCellSx}>Status</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedEnrolments.map((enrolment) => {
+                      const status = SCHEME_ENROLMENT_STATUSES.find((option) => option.value === enrolment.status);
+                      const progress = getSchemeProgress(enrolment);
+                      return (
+                        <TableRow
+                          key={enrolment.id}
+                          hover
+                          onClick={() => navigate(`/schemes/${enrolment.id}`)}
+                          sx={{ cursor: 'pointer' }}
+                        >
+                          <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>
+                            {enrolment.enrolmentNumber}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>{enrolment.customer.name}</TableCell>
+                          <TableCell sx={bodyCellSx}>{enrolment.plan.name}</TableCell>
+                          <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                            {new Date(enrolment.startDate).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx} align="right">
+                            {progress.paidCount}/{progress.tenureMonths}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx} align="right">
+                            {formatAmount(enrolment.totalPaid, decimals)}
+                            {enrolment.plan.mode === 'grams' && (
+                              <Box component="span" sx={{ display: 'block', color: '#666666' }}>
+                                {formatWeight(enrolment.totalGrams)}
+                              </Box>
+                            )}
+                          </TableCell>
+                          <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                            {new Date(enrolment.maturityDate).toLocaleDateString()}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                              <Chip
+                                label={status?.label ?? enrolment.status}
+                                color={status?.color ?? 'default'}
+                                size="small"
+                                variant="outlined"
+                              />
+                              {enrolment.status === 'active' && progress.missedCount > 0 && (
+                                <Chip label={`${progress.missedCount} due`} color="error" size="small" />
+                              )}
+                            </Box>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={enrolments.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+
+      {enrolDialogOpen && <EnrolSchemeDialog decimals={decimals} onClose={() => setEnrolDialogOpen(false)} />}
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,546 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  LinearProgress,
+  MenuItem,
+  TextField,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, Payments, PointOfSale, Print } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { paymentModeLabel } from '../../components/Invoice/templates';
+import { useMetalRates } from '../../hooks/useMetalRates';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  PAYMENT_MODES,
+  getFinanceConfig,
+  getGeneralConfig,
+  type FinanceConfig,
+  type GeneralConfig,
+} from '../../api/config';
+import {
+  SCHEME_ENROLMENT_STATUSES,
+  SCHEME_MODES,
+  collectSchemeInstalment,
+  fetchSchemeEnrolment,
+  type SchemeEnrolment,
+} from '../../api/schemes';
+import { calculateSchemeRedemption, convertInstalmentToGrams, getSchemeProgress } from '../../utils/schemes';
+import { formatAmount, formatWeight } from '../../utils/format';
+
+const cellSx = { color: '#000000', fontSize: '0.85rem', py: 0.75, px: 1 };
+const headSx = { ...cellSx, fontWeight: 700, borderBottom: '1px solid #000000' };
+const labelCellSx = { ...cellSx, fontWeight: 600, width: 180 };
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Scheme passbook: plan terms, instalments collected and what the
+ * enrolment is worth on redemption
+ */
+export function SchemeEnrolmentView() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const { getRate } = useMetalRates();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [collectDialogOpen, setCollectDialogOpen] = useState(false);
+  const [instalment, setInstalment] = useState({
+    paidDate: today(),
+    amount: '',
+    mode: 'cash',
+    reference: '',
+    rate: '',
+  });
+
+  const { data: enrolment, isLoading, error } = useQuery<SchemeEnrolment>({
+    queryKey: ['schemes', 'enrolments', id],
+    queryFn: () => fetchSchemeEnrolment(id as string),
+    enabled: !!id,
+  });
+
+  const { data: generalConfig } = useQuery<GeneralConfig>({
+    queryKey: ['config', 'general'],
+    queryFn: getGeneralConfig,
+  });
+
+  const { data: financeConfig } = useQuery<FinanceConfig>({
+    queryKey: ['config', 'finance'],
+    queryFn: getFinanceConfig,
+  });
+
+  const todayRate = enrolment?.plan.purity ? getRate('gold', enrolment.plan.purity)?.ratePerGram : undefined;
+  const isGrams = enrolment?.plan.mode === 'grams';
+  const instalmentAmount = parseFloat(instalment.amount) || 0;
+  const instalmentRate = parseFloat(instalment.rate) || todayRate || 0;
+  const instalmentGrams = isGrams ? convertInstalmentToGrams(instalmentAmount, instalmentRate) : 0;
+
+  const collectMutation = useMutation({
+    mutationFn: () =>
+      collectSchemeInstalment(id as string, {
+        paidDate: instalment.paidDate,
+        amount: instalmentAmount,
+        mode: instalment.mode,
+        reference: instalment.mode !== 'cash' ? instalment.reference.trim() || null : null,
+        ratePerGram: isGrams ? instalmentRate : null,
+        grams: isGrams ? instalmentGrams : null,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schemes'] });
+      queryClient.invalidateQueries({ queryKey: ['activityLogs'] });
+      setCollectDialogOpen(false);
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !enrolment) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Enrolment not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const { plan } = enrolment;
+  const status = SCHEME_ENROLMENT_STATUSES.find((option) => option.value === enrolment.status);
+  const progress = getSchemeProgress(enrolment);
+  const redemption = calculateSchemeRedemption(enrolment, todayRate, decimals);
+  const canCollect = enrolment.status === 'active' && !progress.isMatured;
+  const canRedeem = progress.isMatured && (enrolment.status === 'active' || enrolment.status === 'matured');
+
+  const handleRedeem = () => {
+    navigate('/sales/pos', {
+      state: {
+        schemeEnrolment: {
+          id: enrolment.id,
+          enrolmentNumber: enrolment.enrolmentNumber,
+          paidCount: enrolment.paidCount,
+          totalPaid: enrolment.totalPaid,
+          totalGrams: enrolment.totalGrams,
+          plan,
+        },
+        customer: enrolment.customer,
+      },
+    });
+  };
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1000, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 2,
+          }}
+        >
+          <Box>
+            <Button startIcon={<ArrowBack />} onClick={() => navigate('/schemes')} sx={{ color: '#5e3b63', mb: 1 }}>
+              Schemes
+            </Button>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1.5 }}>
+              <Typography
+                variant="h4"
+                sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+              >
+                {enrolment.enrolmentNumber}
+              </Typography>
+              <Chip
+                label={status?.label ?? enrolment.status}
+                color={status?.color ?? 'default'}
+                size="small"
+                variant="outlined"
+              />
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}>
+            {canCollect && (
+              <Button
+                variant="outlined"
+                startIcon={<Payments />}
+                onClick={() => {
+                  setInstalment({
+                    paidDate: today(),
+                    amount: plan.instalmentAmount.toString(),
+                    mode: financeConfig?.defaultPaymentMode || 'cash',
+                    reference: '',
+                    rate: '',
+                  });
+                  setCollectDialogOpen(true);
+                }}
+                sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+              >
+                Collect Instalment
+              </Button>
+            )}
+            {canRedeem && (
+              <Button
+                variant="outlined"
+                startIcon={<PointOfSale />}
+                onClick={handleRedeem}
+                sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+              >
+                Redeem on Invoice
+              </Button>
+            )}
+            <Button
+              variant="contained"
+              startIcon={<Print />}
+              onClick={() => window.print()}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              Print Passbook
+            </Button>
+          </Box>
+        </Box>
+
+        <Paper sx={{ p: 2, mb: 2, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
+            <Typography sx={{ color: '#000000', fontWeight: 600 }}>
+              {progress.paidCount} of {progress.tenureMonths} instalments paid
+            </Typography>
+            <Typography sx={{ color: '#5e3b63', fontWeight: 600 }}>
+              {progress.isMatured
+                ? 'Matured'
+                : `Matures ${new Date(enrolment.maturityDate).toLocaleDateString()}`}
+            </Typography>
+          </Box>
+          <LinearProgress
+            variant="determinate"
+            value={Math.min((progress.paidCount / progress.tenureMonths) * 100, 100)}
+            sx={{
+              height: 8,
+              borderRadius: 4,
+              backgroundColor: 'rgba(94, 59, 99, 0.15)',
+              '& .MuiLinearProgress-bar': { backgroundColor: '#5e3b63' },
+            }}
+          />
+          {enrolment.status === 'active' && progress.missedCount > 0 && (
+            <Alert severity="warning" sx={{ mt: 2 }}>
+              {progress.missedCount} {progress.missedCount === 1 ? 'instalment is' : 'instalments are'} overdue
+              {progress.nextDueDate ? `; the oldest fell due on ${progress.nextDueDate.toLocaleDateString()}` : ''}.
+            </Alert>
+          )}
+          {enrolment.invoiceId && (
+            <Alert severity="success" sx={{ mt: 2 }}>
+              Redeemed for {formatAmount(enrolment.redeemedAmount ?? 0, decimals)} on invoice{' '}
+              <RouterLink to={`/sales/invoices/${enrolment.invoiceId}`} style={{ color: '#5e3b63', fontWeight: 600 }}>
+                {enrolment.invoiceNumber}
+              </RouterLink>
+              .
+            </Alert>
+          )}
+        </Paper>
+
+        <Paper className="print-area" sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)', overflowX: 'auto' }}>
+          <Box sx={{ color: '#000000', backgroundColor: '#ffffff', p: 3 }}>
+            {/* Header */}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', mb: 2 }}>
+              <Box>
+                <Typography sx={{ fontWeight: 700, fontSize: '1.25rem' }}>
+                  {generalConfig?.organizationName || ''}
+                </Typography>
+                {generalConfig?.address && (
+                  <Typography sx={{ fontSize: '0.8rem', whiteSpace: 'pre-line' }}>{generalConfig.address}</Typography>
+                )}
+                {generalConfig?.phone && (
+                  <Typography sx={{ fontSize: '0.8rem' }}>Phone: {generalConfig.phone}</Typography>
+                )}
+              </Box>
+              <Box sx={{ textAlign: 'right' }}>
+                <Typography sx={{ fontWeight: 700, fontSize: '1.1rem', letterSpacing: 1 }}>SCHEME PASSBOOK</Typography>
+                <Typography sx={{ fontSize: '0.85rem' }}>No: {enrolment.enrolmentNumber}</Typography>
+                <Typography sx={{ fontSize: '0.85rem' }}>{plan.name}</Typography>
+              </Box>
+            </Box>
+
+            {/* Customer */}
+            <Box sx={{ border: '1px solid #000000', p: 1.5, mb: 2 }}>
+              <Typography sx={{ fontSize: '0.75rem', fontWeight: 600 }}>Member</Typography>
+              <Typography sx={{ fontSize: '0.85rem', fontWeight: 600 }}>
+                {enrolment.customer.name} ({enrolment.customer.customerNumber})
+              </Typography>
+              {enrolment.customer.phone && (
+                <Typography sx={{ fontSize: '0.8rem' }}>Phone: {enrolment.customer.phone}</Typography>
+              )}
+            </Box>
+
+            {/* Plan */}
+            <Table size="small" sx={{ mb: 2 }}>
+              <TableBody>
+                <TableRow>
+                  <TableCell sx={labelCellSx}>Scheme</TableCell>
+                  <TableCell sx={cellSx}>
+                    {SCHEME_MODES.find((mode) => mode.value === plan.mode)?.label ?? plan.mode}
+                    {plan.purity ? ` · ${plan.purity}` : ''}
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell sx={labelCellSx}>Instalment</TableCell>
+                  <TableCell sx={cellSx}>
+                    {formatAmount(plan.instalmentAmount, decimals)} × {plan.tenureMonths} months
+                    {plan.bonusInstalments > 0 ? ` + ${plan.bonusInstalments} bonus` : ''}
+                  </TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell sx={labelCellSx}>Period</TableCell>
+                  <TableCell sx={cellSx}>
+                    {new Date(enrolment.startDate).toLocaleDateString()} to{' '}
+                    {new Date(enrolment.maturityDate).toLocaleDateString()}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+
+            {/* Instalments */}
+            {enrolment.instalments.length === 0 ? (
+              <Typography sx={{ fontSize: '0.85rem', mb: 2 }}>No instalments paid yet.</Typography>
+            ) : (
+              <Table size="small" sx={{ mb: 2 }}>
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={headSx}>#</TableCell>
+                    <TableCell sx={headSx}>Date</TableCell>
+                    <TableCell sx={headSx}>Mode</TableCell>
+                    <TableCell sx={headSx} align="right">
+                      Amount
+                    </TableCell>
+                    {plan.mode === 'grams' && (
+                      <>
+                        <TableCell sx={headSx} align="right">
+                          Rate / g
+                        </TableCell>
+                        <TableCell sx={headSx} align="right">
+                          Gold
+                        </TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {enrolment.instalments.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell sx={cellSx}>{entry.instalmentNumber}</TableCell>
+                      <TableCell sx={cellSx}>{new Date(entry.paidDate).toLocaleDateString()}</TableCell>
+                      <TableCell sx={cellSx}>
+                        {paymentModeLabel(entry.mode)}
+                        {entry.reference ? ` (${entry.reference})` : ''}
+                      </TableCell>
+                      <TableCell sx={cellSx} align="right">
+                        {formatAmount(entry.amount, decimals)}
+                      </TableCell>
+                      {plan.mode === 'grams' && (
+                        <>
+                          <TableCell sx={cellSx} align="right">
+                            {entry.ratePerGram ? formatAmount(entry.ratePerGram, decimals) : '-'}
+                          </TableCell>
+                          <TableCell sx={cellSx} align="right">
+                            {entry.grams ? formatWeight(entry.grams) : '-'}
+                          </TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell sx={{ ...cellSx, fontWeight: 700 }} colSpan={3}>
+                      Total
+                    </TableCell>
+                    <TableCell sx={{ ...cellSx, fontWeight: 700 }} align="right">
+                      {formatAmount(enrolment.totalPaid, decimals)}
+                    </TableCell>
+                    {plan.mode === 'grams' && (
+                      <>
+                        <TableCell sx={cellSx} />
+                        <TableCell sx={{ ...cellSx, fontWeight: 700 }} align="right">
+                          {formatWeight(enrolment.totalGrams)}
+                        </TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            )}
+
+            {enrolment.status !== 'redeemed' && enrolment.status !== 'closed' && (
+              <Box sx={{ ml: 'auto', width: { xs: '100%', sm: 320 }, mb: 2 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                  <Typography sx={{ fontSize: '0.85rem' }}>
+                    {plan.mode === 'grams' ? 'Gold value today' : 'Paid to date'}
+                  </Typography>
+                  <Typography sx={{ fontSize: '0.85rem' }}>
+                    {formatAmount(redemption.accumulatedValue, decimals)}
+                  </Typography>
+                </Box>
+                {redemption.bonusAmount > 0 && (
+                  <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                    <Typography sx={{ fontSize: '0.85rem' }}>Bonus</Typography>
+                    <Typography sx={{ fontSize: '0.85rem' }}>
+                      {formatAmount(redemption.bonusAmount, decimals)}
+                    </Typography>
+                  </Box>
+                )}
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', borderTop: '1px solid #000000', mt: 0.5 }}>
+                  <Typography sx={{ fontSize: '0.9rem', fontWeight: 700 }}>Redeemable</Typography>
+                  <Typography sx={{ fontSize: '0.9rem', fontWeight: 700 }}>
+                    {formatAmount(redemption.total, decimals)}
+                  </Typography>
+                </Box>
+              </Box>
+            )}
+
+            <Typography sx={{ fontSize: '0.75rem', mb: 4 }}>
+              The balance is redeemable against jewellery purchases only, after the last instalment is paid. Bonus
+              applies only when every instalment has been paid.
+            </Typography>
+
+            {/* Signatures */}
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', mt: 6 }}>
+              <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5, px: 2 }}>
+                Member Signature
+              </Typography>
+              <Typography sx={{ fontSize: '0.8rem', borderTop: '1px solid #000000', pt: 0.5, px: 2 }}>
+                Authorised Signatory
+              </Typography>
+            </Box>
+          </Box>
+        </Paper>
+      </Box>
+
+      {/* Collect Instalment Dialog */}
+      <Dialog
+        open={collectDialogOpen}
+        onClose={() => setCollectDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 420 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>
+          Collect Instalment {progress.paidCount + 1} of {progress.tenureMonths}
+        </DialogTitle>
+        <DialogContent>
+          <TextField
+            type="date"
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Paid On"
+            value={instalment.paidDate}
+            onChange={(e) => setInstalment({ ...instalment, paidDate: e.target.value })}
+            slotProps={{ inputLabel: { shrink: true } }}
+          />
+          <TextField
+            type="number"
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Amount"
+            value={instalment.amount}
+            onChange={(e) => setInstalment({ ...instalment, amount: e.target.value })}
+            slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+          />
+          <TextField
+            select
+            fullWidth
+            size="small"
+            margin="dense"
+            label="Mode"
+            value={instalment.mode}
+            onChange={(e) => setInstalment({ ...instalment, mode: e.target.value })}
+          >
+            {PAYMENT_MODES.map((mode) => (
+              <MenuItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </MenuItem>
+            ))}
+          </TextField>
+          {instalment.mode !== 'cash' && (
+            <TextField
+              fullWidth
+              size="small"
+              margin="dense"
+              label="Reference"
+              value={instalment.reference}
+              onChange={(e) => setInstalment({ ...instalment, reference: e.target.value })}
+            />
+          )}
+          {isGrams && (
+            <>
+              <TextField
+                type="number"
+                fullWidth
+                size="small"
+                margin="dense"
+                label={`Gold Rate / g (${plan.purity})`}
+                placeholder={todayRate?.toString()}
+                value={instalment.rate}
+                onChange={(e) => setInstalment({ ...instalment, rate: e.target.value })}
+                helperText={todayRate ? undefined : `No gold ${plan.purity} rate entered today`}
+                slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+              />
+              {instalmentGrams > 0 && (
+                <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mt: 1 }}>
+                  Credits {formatWeight(instalmentGrams)} of {plan.purity} gold
+                </Typography>
+              )}
+            </>
+          )}
+          {collectMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(collectMutation.error, 'Failed to collect instalment')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setCollectDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => collectMutation.mutate()}
+            variant="contained"
+            disabled={
+              !instalment.paidDate ||
+              instalmentAmount <= 0 ||
+              (isGrams && instalmentGrams <= 0) ||
+              collectMutation.isPending
+            }
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Collect
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
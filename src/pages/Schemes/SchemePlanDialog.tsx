@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { METAL_PURITIES } from '../../api/metalRates';
+import {
+  SCHEME_MODES,
+  createSchemePlan,
+  updateSchemePlan,
+  type SchemeMode,
+  type SchemePlan,
+  type SchemePlanData,
+} from '../../api/schemes';
+import { formatAmount } from '../../utils/format';
+
+interface SchemePlanDialogProps {
+  /** Plan to edit, or null to add a new one */
+  plan: SchemePlan | null;
+  decimals: number;
+  onClose: () => void;
+}
+
+export function SchemePlanDialog({ plan, decimals, onClose }: SchemePlanDialogProps) {
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState({
+    name: plan?.name ?? '',
+    instalmentAmount: plan ? plan.instalmentAmount.toString() : '',
+    tenureMonths: plan ? plan.tenureMonths.toString() : '11',
+    bonusInstalments: plan ? plan.bonusInstalments.toString() : '1',
+    mode: plan?.mode ?? ('amount' as SchemeMode),
+    purity: plan?.purity ?? '22K',
+    description: plan?.description ?? '',
+    isActive: plan?.isActive ?? true,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (data: SchemePlanData) => (plan ? updateSchemePlan(plan.id, data) : createSchemePlan(data)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['schemes'] });
+      onClose();
+    },
+  });
+
+  const instalmentAmount = parseFloat(form.instalmentAmount) || 0;
+  const tenureMonths = parseInt(form.tenureMonths, 10) || 0;
+  const bonusInstalments = parseFloat(form.bonusInstalments || '0');
+  const invalid =
+    !form.name.trim() ||
+    instalmentAmount <= 0 ||
+    tenureMonths <= 0 ||
+    isNaN(bonusInstalments) ||
+    bonusInstalments < 0 ||
+    (form.mode === 'grams' && !form.purity);
+
+  return (
+    <Dialog open onClose={onClose} fullWidth maxWidth="xs">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>{plan ? 'Edit Plan' : 'New Plan'}</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          fullWidth
+          label="Name"
+          placeholder="e.g. Swarna 11+1"
+          margin="dense"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+        />
+        <TextField
+          fullWidth
+          type="number"
+          label="Monthly Instalment"
+          margin="dense"
+          value={form.instalmentAmount}
+          onChange={(e) => setForm({ ...form, instalmentAmount: e.target.value })}
+          slotProps={{ htmlInput: { min: 0, step: '0.01' } }}
+        />
+        <TextField
+          fullWidth
+          type="number"
+          label="Tenure (months)"
+          margin="dense"
+          value={form.tenureMonths}
+          onChange={(e) => setForm({ ...form, tenureMonths: e.target.value })}
+          slotProps={{ htmlInput: { min: 1, step: 1 } }}
+        />
+        <TextField
+          fullWidth
+          type="number"
+          label="Bonus Instalments"
+          margin="dense"
+          value={form.bonusInstalments}
+          onChange={(e) => setForm({ ...form, bonusInstalments: e.target.value })}
+          helperText="Added by the firm once every instalment is paid"
+          slotProps={{ htmlInput: { min: 0, step: '0.5' } }}
+        />
+        <TextField
+          select
+          fullWidth
+          label="Mode"
+          margin="dense"
+          value={form.mode}
+          onChange={(e) => setForm({ ...form, mode: e.target.value as SchemeMode })}
+          helperText={
+            form.mode === 'grams' ? "Each instalment buys gold at that day's rate" : 'Instalments accumulate as money'
+          }
+        >
+          {SCHEME_MODES.map((mode) => (
+            <MenuItem key={mode.value} value={mode.value}>
+              {mode.label}
+            </MenuItem>
+          ))}
+        </TextField>
+        {form.mode === 'grams' && (
+          <TextField
+            select
+            fullWidth
+            label="Purity"
+            margin="dense"
+            value={form.purity}
+            onChange={(e) => setForm({ ...form, purity: e.target.value })}
+          >
+            {METAL_PURITIES.gold.map((option) => (
+              <MenuItem key={option.value} value={option.value}>
+                {option.label}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+        <TextField
+          fullWidth
+          label="Description"
+          margin="dense"
+          multiline
+          rows={2}
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+        />
+        {plan && (
+          <FormControlLabel
+            control={
+              <Switch
+                checked={form.isActive}
+                onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                sx={{
+                  '& .MuiSwitch-switchBase.Mui-checked': { color: '#5e3b63' },
+                  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#5e3b63' },
+                }}
+              />
+            }
+            label="Open for enrolment"
+          />
+        )}
+        {instalmentAmount > 0 && tenureMonths > 0 && (
+          <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mt: 1 }}>
+            Customer pays {formatAmount(instalmentAmount * tenureMonths, decimals)}
+            {bonusInstalments > 0
+              ? ` and gets ${formatAmount(instalmentAmount * bonusInstalments, decimals)} bonus on maturity`
+              : ''}
+          </Typography>
+        )}
+        {plan && plan.activeEnrolments > 0 && (
+          <Alert severity="info" sx={{ mt: 2 }}>
+            {plan.activeEnrolments} active enrolments keep the terms they joined on.
+          </Alert>
+        )}
+        {saveMutation.error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {getApiErrorMessage(saveMutation.error, 'Failed to save plan')}
+          </Alert>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Cancel
+        </Button>
+        <Button
+          variant="contained"
+          disabled={invalid || saveMutation.isPending}
+          onClick={() =>
+            saveMutation.mutate({
+              name: form.name.trim(),
+              instalmentAmount,
+              tenureMonths,
+              bonusInstalments,
+              mode: form.mode,
+              purity: form.mode === 'grams' ? form.purity : null,
+              description: form.description.trim() || null,
+              isActive: form.isActive,
+            })
+          }
+          sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
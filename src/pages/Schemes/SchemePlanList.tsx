@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Button,
+  Alert,
+  Chip,
+  IconButton,
+} from '@mui/material';
+import { Add, ArrowBack, Edit } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { usePricingOptions } from '../../hooks/usePricingOptions';
+import { SCHEME_MODES, fetchSchemePlans, type SchemePlan } from '../../api/schemes';
+import { formatAmount } from '../../utils/format';
+import { SchemePlanDialog } from './SchemePlanDialog';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+/**
+ * Savings scheme plans customers can be enrolled on
+ */
+export function SchemePlanList() {
+  const navigate = useNavigate();
+  const { options: pricingOptions } = usePricingOptions();
+  const decimals = pricingOptions?.decimalPrecision ?? 2;
+  const [dialogPlan, setDialogPlan] = useState<SchemePlan | null | undefined>(undefined);
+
+  const { data: plans = [], isLoading, error } = useQuery({
+    queryKey: ['schemes', 'plans'],
+    queryFn: () => fetchSchemePlans(),
+  });
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Button startIcon={<ArrowBack />} onClick={() => navigate('/schemes')} sx={{ color: '#5e3b63', mb: 1 }}>
+          Enrolments
+        </Button>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Scheme Plans
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={() => setDialogPlan(null)}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            New Plan
+          </Button>
+        </Box>
+
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading plans. Please try again.'}
+              </Alert>
+            </Box>
+          ) : plans.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No scheme plans yet.</Typography>
+            </Box>
+          ) : (
+            <TableContainer sx={{ overflowX: 'auto' }}>
+              <Table sx={{ minWidth: 650 }}>
+                <TableHead>
+                  <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                    <TableCell sx={headCellSx}>Plan</TableCell>
+                    <TableCell sx={headCellSx}>Mode</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Instalment
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Tenure
+                    </TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Bonus
+                    </TableCell>
+                    <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }} align="right">
+                      Active Members
+                    </TableCell>
+                    <TableCell sx={headCellSx}>Status</TableCell>
+                    <TableCell sx={headCellSx} align="right">
+                      Actions
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {plans.map((plan) => (
+                    <TableRow key={plan.id} hover>
+                      <TableCell sx={{ ...bodyCellSx, fontWeight: 600 }}>{plan.name}</TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        {SCHEME_MODES.find((mode) => mode.value === plan.mode)?.label ?? plan.mode}
+                        {plan.purity ? ` · ${plan.purity}` : ''}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {formatAmount(plan.instalmentAmount, decimals)}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {plan.tenureMonths} months
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        {plan.bonusInstalments > 0 ? `${plan.bonusInstalments} inst.` : '-'}
+                      </TableCell>
+                      <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }} align="right">
+                        {plan.activeEnrolments}
+                      </TableCell>
+                      <TableCell sx={bodyCellSx}>
+                        <Chip
+                          label={plan.isActive ? 'Open' : 'Closed'}
+                          color={plan.isActive ? 'success' : 'default'}
+                          size="small"
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell sx={bodyCellSx} align="right">
+                        <IconButton size="small" onClick={() => setDialogPlan(plan)} sx={{ color: '#5e3b63' }}>
+                          <Edit fontSize="small" />
+                        </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Paper>
+      </Box>
+
+      {dialogPlan !== undefined && (
+        <SchemePlanDialog plan={dialogPlan} decimals={decimals} onClose={() => setDialogPlan(undefined)} />
+      )}
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,364 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Add, ArrowBack, FilterList, Clear } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { getApiErrorMessage } from '../../api/client';
+import { fetchStockLocations } from '../../api/stock';
+import { createStockAudit, fetchStockAudits, type StockAuditFilters } from '../../api/stockAudits';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+export function StockAuditList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const [filters, setFilters] = useState<StockAuditFilters>({});
+  const [appliedFilters, setAppliedFilters] = useState<StockAuditFilters>({});
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [newAuditOpen, setNewAuditOpen] = useState(false);
+  const [newLocationId, setNewLocationId] = useState('');
+  const [newNotes, setNewNotes] = useState('');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['stock', 'audits', appliedFilters],
+    queryFn: () => fetchStockAudits(appliedFilters),
+  });
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['stock', 'locations'],
+    queryFn: fetchStockLocations,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: () => createStockAudit({ locationId: newLocationId, notes: newNotes.trim() || undefined }),
+    onSuccess: (audit) => {
+      queryClient.invalidateQueries({ queryKey: ['stock', 'audits'] });
+      queryClient.invalidateQueries({ queryKey: ['activityLogs'] });
+      navigate(`/stock/audits/${audit.id}`);
+    },
+  });
+
+  const handleChangeFilter = (key: keyof StockAuditFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const openNewAudit = () => {
+    setNewLocationId('');
+    setNewNotes('');
+    createMutation.reset();
+    setNewAuditOpen(true);
+  };
+
+  const audits = data?.data || [];
+  const paginatedAudits = audits.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Button startIcon={<ArrowBack />} onClick={() => navigate('/stock')} sx={{ color: '#5e3b63', mb: 1 }}>
+          Stock
+        </Button>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            mb: 2,
+            gap: 2,
+          }}
+        >
+          <Typography
+            variant="h4"
+            sx={{
+              color: '#000000',
+              fontWeight: 600,
+              fontSize: { xs: '1.5rem', sm: '1.75rem' },
+            }}
+          >
+            Stock Audits
+          </Typography>
+          <Button
+            variant="contained"
+            startIcon={<Add />}
+            onClick={openNewAudit}
+            sx={{
+              backgroundColor: '#5e3b63',
+              fontWeight: 600,
+              '&:hover': { backgroundColor: '#4a2d4f' },
+            }}
+          >
+            New Audit
+          </Button>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+              <TextField
+                select
+                size="small"
+                label="Location"
+                fullWidth
+                value={filters.locationId || ''}
+                onChange={(e) => handleChangeFilter('locationId', e.target.value)}
+              >
+                <MenuItem value="">All Locations</MenuItem>
+                {locations.map((location) => (
+                  <MenuItem key={location.id} value={location.id}>
+                    {location.branch} / {location.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 3 }}>
+              <TextField
+                select
+                size="small"
+                label="Status"
+                fullWidth
+                value={filters.status || ''}
+                onChange={(e) => handleChangeFilter('status', e.target.value)}
+              >
+                <MenuItem value="">All Statuses</MenuItem>
+                <MenuItem value="open">Open</MenuItem>
+                <MenuItem value="closed">Closed</MenuItem>
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, md: 5 }}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading audits. Please try again.'}
+              </Alert>
+            </Box>
+          ) : audits.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No audits found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Started</TableCell>
+                      <TableCell sx={headCellSx}>Location</TableCell>
+                      <TableCell sx={headCellSx}>Status</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Expected
+                      </TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Scanned
+                      </TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        Started By
+                      </TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        Closed
+                      </TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedAudits.map((audit) => (
+                      <TableRow
+                        key={audit.id}
+                        hover
+                        onClick={() => navigate(`/stock/audits/${audit.id}`)}
+                        sx={{ cursor: 'pointer' }}
+                      >
+                        <TableCell sx={bodyCellSx}>{new Date(audit.createdAt).toLocaleString()}</TableCell>
+                        <TableCell sx={bodyCellSx}>
+                          {audit.branch} / {audit.locationName}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx}>
+                          <Chip
+                            label={audit.status === 'open' ? 'Open' : 'Closed'}
+                            color={audit.status === 'open' ? 'warning' : 'default'}
+                            size="small"
+                            variant="outlined"
+                          />
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {audit.expectedCount}
+                        </TableCell>
+                        <TableCell sx={bodyCellSx} align="right">
+                          {audit.scannedCount}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                          {audit.startedByName || '-'}
+                        </TableCell>
+                        <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                          {audit.closedAt ? new Date(audit.closedAt).toLocaleString() : '-'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={audits.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+
+      {/* New Audit Dialog */}
+      <Dialog open={newAuditOpen} onClose={() => setNewAuditOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>New Stock Audit</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              select
+              size="small"
+              label="Location"
+              value={newLocationId}
+              onChange={(e) => setNewLocationId(e.target.value)}
+              helperText="Pieces in stock at this location become the expected list"
+            >
+              {locations.map((location) => (
+                <MenuItem key={location.id} value={location.id}>
+                  {location.branch} / {location.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              label="Notes"
+              multiline
+              minRows={2}
+              value={newNotes}
+              onChange={(e) => setNewNotes(e.target.value)}
+            />
+            {createMutation.error && (
+              <Alert severity="error">{getApiErrorMessage(createMutation.error, 'Failed to start audit')}</Alert>
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setNewAuditOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => createMutation.mutate()}
+            variant="contained"
+            disabled={!newLocationId || createMutation.isPending}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Start Audit
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,431 @@
+import { useRef, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  IconButton,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, CameraAlt, Delete, Lock } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { CameraScanner } from '../../components/Scanner/CameraScanner';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  addStockAuditScan,
+  closeStockAudit,
+  deleteStockAuditScan,
+  fetchStockAudit,
+  type StockAuditDetail,
+  type StockAuditScan,
+} from '../../api/stockAudits';
+import { buildStockAuditVariance, getStockAuditCounts } from '../../utils/stockAudit';
+import { formatWeight } from '../../utils/format';
+import { StockAuditVarianceReport } from './StockAuditVarianceReport';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+const headCellSx = { fontWeight: 600 };
+
+interface ScanFeedback {
+  severity: 'success' | 'warning' | 'info' | 'error';
+  message: string;
+}
+
+function CountCard({ label, value, color }: { label: string; value: number; color: string }) {
+  return (
+    <Grid size={{ xs: 6, md: 3 }}>
+      <Paper elevation={0} sx={{ p: 2, border: '1px solid rgba(94, 59, 99, 0.2)', borderRadius: 2 }}>
+        <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600 }}>
+          {label}
+        </Typography>
+        <Typography sx={{ color, fontWeight: 700, fontSize: '1.75rem' }}>{value}</Typography>
+      </Paper>
+    </Grid>
+  );
+}
+
+export function StockAuditSession() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { id } = useParams<{ id: string }>();
+  const tagInputRef = useRef<HTMLInputElement>(null);
+  const [tagNumber, setTagNumber] = useState('');
+  const [weighedWeight, setWeighedWeight] = useState('');
+  const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [closeDialogOpen, setCloseDialogOpen] = useState(false);
+
+  const queryKey = ['stock', 'audits', id];
+
+  const { data: audit, isLoading, error } = useQuery<StockAuditDetail>({
+    queryKey,
+    queryFn: () => fetchStockAudit(id as string),
+    enabled: !!id,
+  });
+
+  // Scans are appended to the cached session rather than refetching the whole expected list on every beep
+  const updateScans = (update: (scans: StockAuditScan[]) => StockAuditScan[]) => {
+    queryClient.setQueryData<StockAuditDetail>(queryKey, (previous) =>
+      previous ? { ...previous, scans: update(previous.scans) } : previous
+    );
+  };
+
+  const scanMutation = useMutation({
+    mutationFn: (data: { tagNumber: string; weighedGrossWeight?: number }) => addStockAuditScan(id as string, data),
+    onSuccess: (scan) => {
+      updateScans((scans) => [scan, ...scans.filter((existing) => existing.id !== scan.id)]);
+      const expected = audit?.expected.some((tag) => tag.tagNumber === scan.tagNumber);
+      setFeedback(
+        expected
+          ? { severity: 'success', message: `${scan.tagNumber} · ${scan.name}` }
+          : {
+              severity: 'warning',
+              message: `${scan.tagNumber} is not expected here${scan.name ? ` (${scan.name})` : ''}`,
+            }
+      );
+    },
+    onError: (err, data) =>
+      setFeedback({ severity: 'error', message: `${data.tagNumber}: ${getApiErrorMessage(err, 'Scan failed')}` }),
+  });
+
+  const deleteScanMutation = useMutation({
+    mutationFn: (scanId: string) => deleteStockAuditScan(id as string, scanId),
+    onSuccess: (_data, scanId) => updateScans((scans) => scans.filter((scan) => scan.id !== scanId)),
+    onError: (err) => setFeedback({ severity: 'error', message: getApiErrorMessage(err, 'Failed to remove scan') }),
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: () => closeStockAudit(id as string),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock', 'audits'] });
+      queryClient.invalidateQueries({ queryKey: ['activityLogs'] });
+      setCloseDialogOpen(false);
+    },
+  });
+
+  const handleScan = (code: string) => {
+    const tag = code.trim();
+    if (!tag || !audit) return;
+
+    if (audit.scans.some((scan) => scan.tagNumber === tag)) {
+      setFeedback({ severity: 'info', message: `${tag} is already scanned` });
+    } else {
+      const weight = parseFloat(weighedWeight);
+      scanMutation.mutate({ tagNumber: tag, weighedGrossWeight: weight > 0 ? weight : undefined });
+    }
+    setTagNumber('');
+    setWeighedWeight('');
+    tagInputRef.current?.focus();
+  };
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !audit) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Audit not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const isOpen = audit.status === 'open';
+  const counts = getStockAuditCounts(audit);
+  const expectedTags = new Set(audit.expected.map((tag) => tag.tagNumber));
+  const scannedTags = new Set(audit.scans.map((scan) => scan.tagNumber));
+  const pending = audit.expected.filter((tag) => !scannedTags.has(tag.tagNumber));
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 3,
+          }}
+        >
+          <Box>
+            <Button
+              startIcon={<ArrowBack />}
+              onClick={() => navigate('/stock/audits')}
+              sx={{ color: '#5e3b63', mb: 1 }}
+            >
+              Stock Audits
+            </Button>
+            <Typography
+              variant="h4"
+              sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+            >
+              {audit.branch} / {audit.locationName}
+            </Typography>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+              <Chip
+                label={isOpen ? 'Open' : 'Closed'}
+                color={isOpen ? 'warning' : 'default'}
+                size="small"
+                variant="outlined"
+              />
+              <Typography variant="body2" sx={{ color: '#666666' }}>
+                Started {new Date(audit.createdAt).toLocaleString()}
+                {audit.startedByName ? ` by ${audit.startedByName}` : ''}
+                {audit.closedAt ? ` · Closed ${new Date(audit.closedAt).toLocaleString()}` : ''}
+              </Typography>
+            </Box>
+          </Box>
+          {isOpen && (
+            <Button
+              variant="contained"
+              startIcon={<Lock />}
+              onClick={() => setCloseDialogOpen(true)}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              Close Audit
+            </Button>
+          )}
+        </Box>
+
+        <Grid container spacing={2} sx={{ mb: 1 }}>
+          <CountCard label="Expected" value={counts.expected} color="#000000" />
+          <CountCard label="Scanned" value={counts.found} color="#2e7d32" />
+          <CountCard label="Missing" value={counts.missing} color="#d32f2f" />
+          <CountCard label="Unexpected" value={counts.unexpected} color="#ed6c02" />
+        </Grid>
+        <LinearProgress
+          variant="determinate"
+          value={counts.expected > 0 ? (counts.found / counts.expected) * 100 : 0}
+          sx={{
+            mb: 3,
+            height: 8,
+            borderRadius: 4,
+            backgroundColor: 'rgba(94, 59, 99, 0.15)',
+            '& .MuiLinearProgress-bar': { backgroundColor: '#5e3b63' },
+          }}
+        />
+
+        {isOpen ? (
+          <>
+            <Paper
+              elevation={0}
+              sx={{ p: 2.5, mb: 3, border: '1px solid rgba(94, 59, 99, 0.2)', borderRadius: 2 }}
+            >
+              <Box
+                component="form"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleScan(tagNumber);
+                }}
+                sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap' }}
+              >
+                <TextField
+                  inputRef={tagInputRef}
+                  autoFocus
+                  size="small"
+                  label="Scan tag"
+                  placeholder="Scan or type a tag number and press Enter"
+                  value={tagNumber}
+                  onChange={(e) => setTagNumber(e.target.value)}
+                  sx={{ flex: 1, minWidth: 240 }}
+                  slotProps={{ htmlInput: { autoComplete: 'off', style: { fontFamily: 'monospace' } } }}
+                />
+                <TextField
+                  size="small"
+                  type="number"
+                  label="Weighed (g)"
+                  value={weighedWeight}
+                  onChange={(e) => setWeighedWeight(e.target.value)}
+                  sx={{ width: 140 }}
+                  slotProps={{ htmlInput: { min: 0, step: 0.001 } }}
+                />
+                <Button
+                  type="submit"
+                  variant="contained"
+                  disabled={!tagNumber.trim()}
+                  sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+                >
+                  Add
+                </Button>
+                <Button
+                  variant="outlined"
+                  startIcon={<CameraAlt />}
+                  onClick={() => setCameraOpen(true)}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Camera
+                </Button>
+              </Box>
+              {feedback && (
+                <Alert severity={feedback.severity} sx={{ mt: 2 }} onClose={() => setFeedback(null)}>
+                  {feedback.message}
+                </Alert>
+              )}
+            </Paper>
+
+            <Grid container spacing={3}>
+              <Grid size={{ xs: 12, lg: 7 }}>
+                <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+                  <Typography variant="h6" sx={sectionTitleSx}>
+                    Scanned ({audit.scans.length})
+                  </Typography>
+                  {audit.scans.length === 0 ? (
+                    <Typography sx={{ color: '#000000' }}>Nothing scanned yet.</Typography>
+                  ) : (
+                    <Box sx={{ overflowX: 'auto', maxHeight: 480 }}>
+                      <Table size="small" stickyHeader>
+                        <TableHead>
+                          <TableRow>
+                            <TableCell sx={headCellSx}>Tag No.</TableCell>
+                            <TableCell sx={headCellSx}>Name</TableCell>
+                            <TableCell sx={headCellSx} align="right">
+                              Weighed
+                            </TableCell>
+                            <TableCell sx={headCellSx} />
+                            <TableCell sx={headCellSx} />
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {audit.scans.map((scan) => (
+                            <TableRow key={scan.id}>
+                              <TableCell sx={{ fontFamily: 'monospace' }}>{scan.tagNumber}</TableCell>
+                              <TableCell>{scan.name || '-'}</TableCell>
+                              <TableCell align="right">
+                                {scan.weighedGrossWeight !== null ? formatWeight(scan.weighedGrossWeight) : '-'}
+                              </TableCell>
+                              <TableCell>
+                                {!expectedTags.has(scan.tagNumber) && (
+                                  <Chip label="Unexpected" color="warning" size="small" variant="outlined" />
+                                )}
+                              </TableCell>
+                              <TableCell align="right">
+                                <IconButton
+                                  size="small"
+                                  aria-label="remove scan"
+                                  onClick={() => deleteScanMutation.mutate(scan.id)}
+                                  sx={{ color: '#d32f2f' }}
+                                >
+                                  <Delete fontSize="small" />
+                                </IconButton>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </Box>
+                  )}
+                </Paper>
+              </Grid>
+              <Grid size={{ xs: 12, lg: 5 }}>
+                <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+                  <Typography variant="h6" sx={sectionTitleSx}>
+                    Not Yet Scanned ({pending.length})
+                  </Typography>
+                  {pending.length === 0 ? (
+                    <Typography sx={{ color: '#000000' }}>Every expected piece has been scanned.</Typography>
+                  ) : (
+                    <Box sx={{ overflowX: 'auto', maxHeight: 480 }}>
+                      <Table size="small" stickyHeader>
+                        <TableHead>
+                          <TableRow>
+                            <TableCell sx={headCellSx}>Tag No.</TableCell>
+                            <TableCell sx={headCellSx}>Name</TableCell>
+                            <TableCell sx={headCellSx}>Tray</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {pending.map((tag) => (
+                            <TableRow key={tag.itemId}>
+                              <TableCell sx={{ fontFamily: 'monospace' }}>{tag.tagNumber}</TableCell>
+                              <TableCell>{tag.name}</TableCell>
+                              <TableCell>{tag.tray || '-'}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </Box>
+                  )}
+                </Paper>
+              </Grid>
+            </Grid>
+          </>
+        ) : (
+          <StockAuditVarianceReport audit={audit} variance={buildStockAuditVariance(audit)} />
+        )}
+      </Box>
+
+      <CameraScanner open={cameraOpen} onClose={() => setCameraOpen(false)} onDetected={handleScan} />
+
+      {/* Close Audit Dialog */}
+      <Dialog
+        open={closeDialogOpen}
+        onClose={() => setCloseDialogOpen(false)}
+        PaperProps={{ sx: { borderRadius: 2, minWidth: { xs: '90%', sm: 400 } } }}
+      >
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Close Audit</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ color: '#000000' }}>
+            {counts.missing > 0
+              ? `${counts.missing} expected pieces have not been scanned. `
+              : 'Every expected piece has been scanned. '}
+            No more scans can be added once the audit is closed.
+          </DialogContentText>
+          {closeMutation.error && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {getApiErrorMessage(closeMutation.error, 'Failed to close audit')}
+            </Alert>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setCloseDialogOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => closeMutation.mutate()}
+            variant="contained"
+            disabled={closeMutation.isPending}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Close Audit
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,142 @@
+import type { ReactNode } from 'react';
+import { Box, Button, Paper, Table, TableBody, TableCell, TableHead, TableRow, Typography } from '@mui/material';
+import { Download } from '@mui/icons-material';
+import type { StockAudit } from '../../api/stockAudits';
+import { downloadFile } from '../../utils/export';
+import { stockAuditVarianceToCsv, type StockAuditVariance } from '../../utils/stockAudit';
+import { formatWeight } from '../../utils/format';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+const headCellSx = { fontWeight: 600 };
+
+function VarianceSection({ title, count, children }: { title: string; count: number; children: ReactNode }) {
+  return (
+    <Box sx={{ mb: 3 }}>
+      <Typography sx={{ color: '#5e3b63', fontWeight: 600, mb: 1 }}>
+        {title} ({count})
+      </Typography>
+      {count === 0 ? <Typography sx={{ color: '#666666' }}>None.</Typography> : children}
+    </Box>
+  );
+}
+
+interface StockAuditVarianceReportProps {
+  audit: StockAudit;
+  variance: StockAuditVariance;
+}
+
+export function StockAuditVarianceReport({ audit, variance }: StockAuditVarianceReportProps) {
+  const handleExport = () => {
+    const date = new Date(audit.closedAt ?? audit.createdAt).toISOString().slice(0, 10);
+    const location = `${audit.branch}-${audit.locationName}`.replace(/\s+/g, '-');
+    downloadFile(stockAuditVarianceToCsv(variance), `stock-audit-${location}-${date}.csv`, 'text/csv');
+  };
+
+  return (
+    <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: 2 }}>
+        <Typography variant="h6" sx={{ ...sectionTitleSx, flex: 1 }}>
+          Variance Report
+        </Typography>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<Download />}
+          onClick={handleExport}
+          sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+        >
+          Export CSV
+        </Button>
+      </Box>
+
+      <VarianceSection title="Missing Pieces" count={variance.missing.length}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={headCellSx}>Tag No.</TableCell>
+              <TableCell sx={headCellSx}>Name</TableCell>
+              <TableCell sx={headCellSx}>Tray</TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Gross Wt
+              </TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {variance.missing.map((tag) => (
+              <TableRow key={tag.itemId}>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{tag.tagNumber}</TableCell>
+                <TableCell>{tag.name}</TableCell>
+                <TableCell>{tag.tray || '-'}</TableCell>
+                <TableCell align="right">{formatWeight(tag.grossWeight)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </VarianceSection>
+
+      <VarianceSection title="Extra Pieces" count={variance.extra.length}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={headCellSx}>Tag No.</TableCell>
+              <TableCell sx={headCellSx}>Name</TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Gross Wt
+              </TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {variance.extra.map((scan) => (
+              <TableRow key={scan.id}>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{scan.tagNumber}</TableCell>
+                <TableCell>{scan.name || 'Not in item master'}</TableCell>
+                <TableCell align="right">{scan.grossWeight !== null ? formatWeight(scan.grossWeight) : '-'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </VarianceSection>
+
+      <VarianceSection title="Weight Mismatches" count={variance.weightMismatches.length}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={headCellSx}>Tag No.</TableCell>
+              <TableCell sx={headCellSx}>Name</TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Recorded
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Weighed
+              </TableCell>
+              <TableCell sx={headCellSx} align="right">
+                Difference
+              </TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {variance.weightMismatches.map((mismatch) => (
+              <TableRow key={mismatch.scan.id}>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{mismatch.scan.tagNumber}</TableCell>
+                <TableCell>{mismatch.scan.name || '-'}</TableCell>
+                <TableCell align="right">{formatWeight(mismatch.recordedWeight)}</TableCell>
+                <TableCell align="right">{formatWeight(mismatch.weighedWeight)}</TableCell>
+                <TableCell align="right" sx={{ color: mismatch.difference < 0 ? '#d32f2f' : '#2e7d32' }}>
+                  {mismatch.difference > 0 ? '+' : ''}
+                  {formatWeight(mismatch.difference)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </VarianceSection>
+    </Paper>
+  );
+}
@@ -0,0 +1,328 @@
+import { useState, type ReactNode } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  Button,
+  CircularProgress,
+  Alert,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import { ArrowBack, SwapHoriz } from '@mui/icons-material';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate, useParams } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  STOCK_STATUSES,
+  fetchStockEntry,
+  fetchStockLocations,
+  fetchStockMovements,
+  moveStock,
+  type StockEntry,
+  type StockStatus,
+} from '../../api/stock';
+import { formatWeight } from '../../utils/format';
+
+const sectionTitleSx = {
+  color: '#000000',
+  fontWeight: 600,
+  mb: 2,
+  borderBottom: '2px solid #5e3b63',
+  pb: 1,
+};
+
+const statusLabel = (value: StockStatus | null) =>
+  value ? (STOCK_STATUSES.find((status) => status.value === value)?.label ?? value) : '-';
+
+function DetailField({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <Grid size={{ xs: 12, sm: 6, md: 4 }}>
+      <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+        {label}
+      </Typography>
+      <Typography variant="body1" sx={{ color: '#000000' }}>
+        {value || '-'}
+      </Typography>
+    </Grid>
+  );
+}
+
+export function StockDetail() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { itemId } = useParams<{ itemId: string }>();
+  const [moveOpen, setMoveOpen] = useState(false);
+  const [moveStatus, setMoveStatus] = useState<StockStatus>('in_stock');
+  const [moveLocationId, setMoveLocationId] = useState('');
+  const [moveTray, setMoveTray] = useState('');
+  const [moveNotes, setMoveNotes] = useState('');
+
+  const { data: entry, isLoading, error } = useQuery<StockEntry>({
+    queryKey: ['stock', itemId],
+    queryFn: () => fetchStockEntry(itemId as string),
+    enabled: !!itemId,
+  });
+
+  const { data: movements = [], isLoading: movementsLoading } = useQuery({
+    queryKey: ['stock', itemId, 'movements'],
+    queryFn: () => fetchStockMovements(itemId as string),
+    enabled: !!itemId,
+  });
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['stock', 'locations'],
+    queryFn: fetchStockLocations,
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: () =>
+      moveStock(itemId as string, {
+        status: moveStatus,
+        locationId: moveLocationId || null,
+        tray: moveTray.trim() || null,
+        notes: moveNotes.trim() || undefined,
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock'] });
+      queryClient.invalidateQueries({ queryKey: ['activityLogs'] });
+      setMoveOpen(false);
+    },
+  });
+
+  const openMoveDialog = () => {
+    if (!entry) return;
+    setMoveStatus(entry.status);
+    setMoveLocationId(entry.locationId ?? '');
+    setMoveTray(entry.tray ?? '');
+    setMoveNotes('');
+    moveMutation.reset();
+    setMoveOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '50vh' }}>
+          <CircularProgress sx={{ color: '#5e3b63' }} />
+        </Box>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !entry) {
+    return (
+      <DashboardLayout>
+        <Alert severity="error">{error instanceof Error ? error.message : 'Stock entry not found.'}</Alert>
+      </DashboardLayout>
+    );
+  }
+
+  const status = STOCK_STATUSES.find((option) => option.value === entry.status);
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1200, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            flexDirection: { xs: 'column', sm: 'row' },
+            justifyContent: 'space-between',
+            alignItems: { xs: 'flex-start', sm: 'center' },
+            gap: 2,
+            mb: 3,
+          }}
+        >
+          <Box>
+            <Button startIcon={<ArrowBack />} onClick={() => navigate('/stock')} sx={{ color: '#5e3b63', mb: 1 }}>
+              Stock
+            </Button>
+            <Typography
+              variant="h4"
+              sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+            >
+              {entry.name}
+            </Typography>
+            <Typography sx={{ color: '#666666', fontFamily: 'monospace' }}>{entry.tagNumber}</Typography>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1.5 }}>
+            <Button
+              variant="outlined"
+              onClick={() => navigate(`/items/${entry.itemId}`)}
+              sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+            >
+              View Item
+            </Button>
+            <Button
+              variant="contained"
+              startIcon={<SwapHoriz />}
+              onClick={openMoveDialog}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              Move
+            </Button>
+          </Box>
+        </Box>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Current Position
+          </Typography>
+          <Grid container spacing={2}>
+            <DetailField
+              label="Status"
+              value={
+                <Chip
+                  label={status?.label ?? entry.status}
+                  color={status?.color ?? 'default'}
+                  size="small"
+                  variant="outlined"
+                />
+              }
+            />
+            <DetailField label="Branch" value={entry.branch} />
+            <DetailField label="Location" value={entry.locationName} />
+            <DetailField label="Tray" value={entry.tray} />
+            <DetailField
+              label="Metal"
+              value={
+                <span style={{ textTransform: 'capitalize' }}>
+                  {entry.metal}
+                  {entry.purity ? ` ${entry.purity}` : ''}
+                </span>
+              }
+            />
+            <DetailField
+              label="Gross / Net Weight"
+              value={`${formatWeight(entry.grossWeight)} / ${formatWeight(entry.netWeight)}`}
+            />
+          </Grid>
+        </Paper>
+
+        <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          <Typography variant="h6" sx={sectionTitleSx}>
+            Movement History
+          </Typography>
+          {movementsLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 2 }}>
+              <CircularProgress size={24} sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : movements.length === 0 ? (
+            <Typography sx={{ color: '#000000' }}>No movements recorded.</Typography>
+          ) : (
+            <Box sx={{ overflowX: 'auto' }}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 600 }}>Date</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Status</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Location</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Reference</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>Notes</TableCell>
+                    <TableCell sx={{ fontWeight: 600 }}>By</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {movements.map((movement) => (
+                    <TableRow key={movement.id}>
+                      <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                        {new Date(movement.createdAt).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        {statusLabel(movement.fromStatus)} → {statusLabel(movement.toStatus)}
+                      </TableCell>
+                      <TableCell>
+                        {[movement.fromLocationName, movement.fromTray].filter(Boolean).join(' / ') || '-'} →{' '}
+                        {[movement.toLocationName, movement.toTray].filter(Boolean).join(' / ') || '-'}
+                      </TableCell>
+                      <TableCell>{movement.reference || '-'}</TableCell>
+                      <TableCell>{movement.notes || '-'}</TableCell>
+                      <TableCell>{movement.createdByName || '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Box>
+          )}
+        </Paper>
+      </Box>
+
+      {/* Move Dialog */}
+      <Dialog open={moveOpen} onClose={() => setMoveOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Move {entry.tagNumber}</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, pt: 1 }}>
+            <TextField
+              select
+              size="small"
+              label="Status"
+              value={moveStatus}
+              onChange={(e) => setMoveStatus(e.target.value as StockStatus)}
+            >
+              {STOCK_STATUSES.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Location"
+              value={moveLocationId}
+              onChange={(e) => setMoveLocationId(e.target.value)}
+            >
+              <MenuItem value="">No location</MenuItem>
+              {locations.map((location) => (
+                <MenuItem key={location.id} value={location.id}>
+                  {location.branch} / {location.name}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField size="small" label="Tray" value={moveTray} onChange={(e) => setMoveTray(e.target.value)} />
+            <TextField
+              size="small"
+              label="Notes"
+              multiline
+              minRows={2}
+              value={moveNotes}
+              onChange={(e) => setMoveNotes(e.target.value)}
+            />
+            {moveMutation.error && (
+              <Alert severity="error">{getApiErrorMessage(moveMutation.error, 'Failed to move stock')}</Alert>
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <Button
+            onClick={() => setMoveOpen(false)}
+            variant="outlined"
+            sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => moveMutation.mutate()}
+            variant="contained"
+            disabled={moveMutation.isPending}
+            sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Move
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
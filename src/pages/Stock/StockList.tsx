@@ -0,0 +1,377 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  CircularProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Button,
+  Grid,
+  MenuItem,
+  TablePagination,
+  Alert,
+  Chip,
+  useTheme,
+  useMediaQuery,
+} from '@mui/material';
+import { Search, FilterList, Clear, Place, FactCheck } from '@mui/icons-material';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { useIsOrgAdmin } from '../../hooks/useAuth';
+import { METALS } from '../../api/metalRates';
+import { STOCK_STATUSES, fetchStock, fetchStockLocations, type StockFilters } from '../../api/stock';
+import { formatWeight } from '../../utils/format';
+import { StockLocationsDialog } from './StockLocationsDialog';
+
+const headCellSx = {
+  color: '#ffffff',
+  fontWeight: 600,
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+  whiteSpace: 'nowrap',
+};
+
+const bodyCellSx = {
+  color: '#000000',
+  fontSize: { xs: '0.75rem', sm: '0.875rem' },
+};
+
+export function StockList() {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const navigate = useNavigate();
+  const isAdmin = useIsOrgAdmin();
+
+  const [filters, setFilters] = useState<StockFilters>({ status: 'in_stock' });
+  const [appliedFilters, setAppliedFilters] = useState<StockFilters>({ status: 'in_stock' });
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [locationsOpen, setLocationsOpen] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['stock', 'list', appliedFilters],
+    queryFn: () => fetchStock(appliedFilters),
+  });
+
+  const { data: locations = [] } = useQuery({
+    queryKey: ['stock', 'locations'],
+    queryFn: fetchStockLocations,
+  });
+
+  const handleChangeFilter = (key: keyof StockFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value || undefined,
+    }));
+  };
+
+  const handleApplyFilters = () => {
+    setAppliedFilters({ ...filters });
+    setPage(0);
+  };
+
+  const handleResetFilters = () => {
+    setFilters({});
+    setAppliedFilters({});
+    setPage(0);
+  };
+
+  const entries = data?.data || [];
+  const paginatedEntries = entries.slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage);
+  const totalGross = entries.reduce((total, entry) => total + entry.grossWeight, 0);
+  const totalNet = entries.reduce((total, entry) => total + entry.netWeight, 0);
+  const branches = [...new Set(locations.map((location) => location.branch))].sort();
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Box
+          sx={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            mb: 2,
+            gap: 2,
+          }}
+        >
+          <Typography
+            variant="h4"
+            sx={{
+              color: '#000000',
+              fontWeight: 600,
+              fontSize: { xs: '1.5rem', sm: '1.75rem' },
+            }}
+          >
+            Stock
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1.5, flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+            {isAdmin && (
+              <Button
+                variant="outlined"
+                startIcon={<Place />}
+                onClick={() => setLocationsOpen(true)}
+                sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+              >
+                Locations
+              </Button>
+            )}
+            <Button
+              variant="contained"
+              startIcon={<FactCheck />}
+              onClick={() => navigate('/stock/audits')}
+              sx={{
+                backgroundColor: '#5e3b63',
+                fontWeight: 600,
+                '&:hover': { backgroundColor: '#4a2d4f' },
+              }}
+            >
+              Audits
+            </Button>
+          </Box>
+        </Box>
+
+        {/* Filters Section */}
+        <Paper
+          elevation={0}
+          sx={{
+            p: 2.5,
+            mb: 2,
+            border: '1px solid rgba(94, 59, 99, 0.2)',
+            borderRadius: 2,
+          }}
+        >
+          <Grid container spacing={2}>
+            <Grid size={{ xs: 12, md: 4 }}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Search"
+                placeholder="Tag number, name or tray..."
+                value={filters.search || ''}
+                onChange={(e) => handleChangeFilter('search', e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleApplyFilters();
+                }}
+                slotProps={{
+                  input: {
+                    startAdornment: <Search sx={{ color: '#5e3b63', mr: 0.5, fontSize: 20 }} />,
+                  },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+              <TextField
+                select
+                size="small"
+                label="Status"
+                fullWidth
+                value={filters.status || ''}
+                onChange={(e) => handleChangeFilter('status', e.target.value)}
+              >
+                <MenuItem value="">All Statuses</MenuItem>
+                {STOCK_STATUSES.map((status) => (
+                  <MenuItem key={status.value} value={status.value}>
+                    {status.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+              <TextField
+                select
+                size="small"
+                label="Branch"
+                fullWidth
+                value={filters.branch || ''}
+                onChange={(e) => handleChangeFilter('branch', e.target.value)}
+              >
+                <MenuItem value="">All Branches</MenuItem>
+                {branches.map((branch) => (
+                  <MenuItem key={branch} value={branch}>
+                    {branch}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+              <TextField
+                select
+                size="small"
+                label="Location"
+                fullWidth
+                value={filters.locationId || ''}
+                onChange={(e) => handleChangeFilter('locationId', e.target.value)}
+              >
+                <MenuItem value="">All Locations</MenuItem>
+                {locations
+                  .filter((location) => !filters.branch || location.branch === filters.branch)
+                  .map((location) => (
+                    <MenuItem key={location.id} value={location.id}>
+                      {location.branch} / {location.name}
+                    </MenuItem>
+                  ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+              <TextField
+                select
+                size="small"
+                label="Metal"
+                fullWidth
+                value={filters.metal || ''}
+                onChange={(e) => handleChangeFilter('metal', e.target.value)}
+              >
+                <MenuItem value="">All Metals</MenuItem>
+                {METALS.map((metal) => (
+                  <MenuItem key={metal.value} value={metal.value}>
+                    {metal.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={12}>
+              <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<Clear sx={{ fontSize: 18 }} />}
+                  onClick={handleResetFilters}
+                  sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                >
+                  Reset
+                </Button>
+                <Button
+                  variant="contained"
+                  size="small"
+                  startIcon={<FilterList sx={{ fontSize: 18 }} />}
+                  onClick={handleApplyFilters}
+                  sx={{
+                    backgroundColor: '#5e3b63',
+                    fontWeight: 600,
+                    '&:hover': { backgroundColor: '#4a2d4f' },
+                  }}
+                >
+                  Apply Filters
+                </Button>
+              </Box>
+            </Grid>
+          </Grid>
+        </Paper>
+
+        {/* Table Section */}
+        <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+          {isLoading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+              <CircularProgress sx={{ color: '#5e3b63' }} />
+            </Box>
+          ) : error ? (
+            <Box sx={{ p: 4 }}>
+              <Alert severity="error">
+                {error instanceof Error ? error.message : 'Error loading stock. Please try again.'}
+              </Alert>
+            </Box>
+          ) : entries.length === 0 ? (
+            <Box sx={{ p: 4, textAlign: 'center' }}>
+              <Typography sx={{ color: '#000000' }}>No stock found.</Typography>
+            </Box>
+          ) : (
+            <>
+              <Box sx={{ display: 'flex', gap: 3, px: 2, py: 1.5, flexWrap: 'wrap' }}>
+                <Typography variant="body2" sx={{ color: '#000000' }}>
+                  <strong>{entries.length}</strong> pieces
+                </Typography>
+                <Typography variant="body2" sx={{ color: '#000000' }}>
+                  Gross <strong>{formatWeight(totalGross)}</strong>
+                </Typography>
+                <Typography variant="body2" sx={{ color: '#000000' }}>
+                  Net <strong>{formatWeight(totalNet)}</strong>
+                </Typography>
+              </Box>
+              <TableContainer sx={{ overflowX: 'auto' }}>
+                <Table sx={{ minWidth: 650 }}>
+                  <TableHead>
+                    <TableRow sx={{ backgroundColor: '#0d0421' }}>
+                      <TableCell sx={headCellSx}>Tag No.</TableCell>
+                      <TableCell sx={headCellSx}>Name</TableCell>
+                      <TableCell sx={headCellSx}>Metal</TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Gross Wt
+                      </TableCell>
+                      <TableCell sx={headCellSx} align="right">
+                        Net Wt
+                      </TableCell>
+                      <TableCell sx={headCellSx}>Status</TableCell>
+                      <TableCell sx={{ ...headCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                        Location
+                      </TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {paginatedEntries.map((entry) => {
+                      const status = STOCK_STATUSES.find((option) => option.value === entry.status);
+                      return (
+                        <TableRow
+                          key={entry.itemId}
+                          hover
+                          onClick={() => navigate(`/stock/${entry.itemId}`)}
+                          sx={{ cursor: 'pointer' }}
+                        >
+                          <TableCell sx={{ ...bodyCellSx, fontFamily: 'monospace' }}>{entry.tagNumber}</TableCell>
+                          <TableCell sx={bodyCellSx}>{entry.name}</TableCell>
+                          <TableCell sx={{ ...bodyCellSx, textTransform: 'capitalize' }}>
+                            {entry.metal}
+                            {entry.purity ? ` ${entry.purity}` : ''}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx} align="right">
+                            {formatWeight(entry.grossWeight)}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx} align="right">
+                            {formatWeight(entry.netWeight)}
+                          </TableCell>
+                          <TableCell sx={bodyCellSx}>
+                            <Chip
+                              label={status?.label ?? entry.status}
+                              color={status?.color ?? 'default'}
+                              size="small"
+                              variant="outlined"
+                            />
+                          </TableCell>
+                          <TableCell sx={{ ...bodyCellSx, display: { xs: 'none', md: 'table-cell' } }}>
+                            {entry.locationName
+                              ? `${entry.branch} / ${entry.locationName}${entry.tray ? ` / ${entry.tray}` : ''}`
+                              : '-'}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+              <TablePagination
+                component="div"
+                count={entries.length}
+                page={page}
+                onPageChange={(_event, newPage) => setPage(newPage)}
+                rowsPerPage={rowsPerPage}
+                onRowsPerPageChange={(event) => {
+                  setRowsPerPage(parseInt(event.target.value, 10));
+                  setPage(0);
+                }}
+                rowsPerPageOptions={isMobile ? [10, 25] : [10, 25, 50, 100]}
+                labelRowsPerPage={isMobile ? 'Rows:' : 'Rows per page:'}
+              />
+            </>
+          )}
+        </Paper>
+      </Box>
+
+      <StockLocationsDialog open={locationsOpen} onClose={() => setLocationsOpen(false)} locations={locations} />
+    </DashboardLayout>
+  );
+}
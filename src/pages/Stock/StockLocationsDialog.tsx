@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+  Alert,
+} from '@mui/material';
+import { Delete } from '@mui/icons-material';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { getApiErrorMessage } from '../../api/client';
+import { createStockLocation, deleteStockLocation, type StockLocation } from '../../api/stock';
+
+interface StockLocationsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  locations: StockLocation[];
+}
+
+/**
+ * Admin dialog for the branches and locations (counters, lockers, vaults) stock is kept in
+ */
+export function StockLocationsDialog({ open, onClose, locations }: StockLocationsDialogProps) {
+  const queryClient = useQueryClient();
+  const [branch, setBranch] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const createMutation = useMutation({
+    mutationFn: createStockLocation,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock', 'locations'] });
+      setName('');
+      setError(null);
+    },
+    onError: (err) => setError(getApiErrorMessage(err, 'Failed to add location')),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteStockLocation,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['stock', 'locations'] });
+      setError(null);
+    },
+    onError: (err) => setError(getApiErrorMessage(err, 'Failed to delete location')),
+  });
+
+  const branches = [...new Set(locations.map((location) => location.branch))].sort();
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle sx={{ color: '#0d0421', fontWeight: 600 }}>Stock Locations</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {branches.length === 0 && (
+          <Typography sx={{ color: '#666666', mb: 2 }}>No locations yet.</Typography>
+        )}
+        {branches.map((branchName) => (
+          <Box key={branchName} sx={{ mb: 1 }}>
+            <Typography sx={{ color: '#5e3b63', fontWeight: 600 }}>{branchName}</Typography>
+            <List dense disablePadding>
+              {locations
+                .filter((location) => location.branch === branchName)
+                .map((location) => (
+                  <ListItem
+                    key={location.id}
+                    secondaryAction={
+                      <IconButton
+                        edge="end"
+                        size="small"
+                        aria-label="delete location"
+                        onClick={() => deleteMutation.mutate(location.id)}
+                        sx={{ color: '#d32f2f' }}
+                      >
+                        <Delete fontSize="small" />
+                      </IconButton>
+                    }
+                  >
+                    <ListItemText primary={location.name} />
+                  </ListItem>
+                ))}
+            </List>
+          </Box>
+        ))}
+        <Box sx={{ display: 'flex', gap: 1, mt: 2 }}>
+          <TextField
+            size="small"
+            label="Branch"
+            value={branch}
+            onChange={(e) => setBranch(e.target.value)}
+            slotProps={{ htmlInput: { list: 'stock-branches' } }}
+          />
+          <datalist id="stock-branches">
+            {branches.map((branchName) => (
+              <option key={branchName} value={branchName} />
+            ))}
+          </datalist>
+          <TextField
+            size="small"
+            label="Location"
+            placeholder="e.g. Counter 1, Locker A"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            sx={{ flex: 1 }}
+          />
+          <Button
+            variant="contained"
+            disabled={!branch.trim() || !name.trim() || createMutation.isPending}
+            onClick={() => createMutation.mutate({ branch: branch.trim(), name: name.trim() })}
+            sx={{ backgroundColor: '#5e3b63', '&:hover': { backgroundColor: '#4a2d4f' } }}
+          >
+            Add
+          </Button>
+        </Box>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} sx={{ color: '#5e3b63' }}>
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { Box, Typography, Paper, Grid, TextField, Button, MenuItem, Alert, CircularProgress } from '@mui/material';
+import { ArrowBack, Print, Style } from '@mui/icons-material';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { TagLabel } from '../../components/Tags/TagLabel';
+import { getTagStock } from '../../components/Tags/tagTemplates';
+import { useTagTemplates } from '../../hooks/useTagTemplates';
+import type { Item } from '../../api/items';
+
+/**
+ * Batch tag printing. The item list passes the selected items in the
+ * navigation state; each tag prints on its own label-sized page, which is
+ * how roll-fed label printers expect them.
+ */
+export function PrintTags() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const items: Item[] = (location.state as { items?: Item[] } | null)?.items ?? [];
+  const { templates, loading } = useTagTemplates();
+  const [templateId, setTemplateId] = useState('');
+  const [copies, setCopies] = useState('1');
+
+  const template = templates.find((option) => option.id === templateId) ?? templates[0];
+  const copyCount = Math.max(1, Math.min(10, parseInt(copies, 10) || 1));
+  const stock = template ? getTagStock(template.stock) : undefined;
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Button startIcon={<ArrowBack />} onClick={() => navigate('/items')} sx={{ color: '#5e3b63', mb: 1 }}>
+          Items
+        </Button>
+        <Typography
+          variant="h4"
+          sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' }, mb: 2 }}
+        >
+          Print Tags
+        </Typography>
+
+        {items.length === 0 ? (
+          <Alert severity="info">Select the items to tag from the item list, then choose Print Tags.</Alert>
+        ) : loading || !template || !stock ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress sx={{ color: '#5e3b63' }} />
+          </Box>
+        ) : (
+          <>
+            <Paper
+              elevation={0}
+              sx={{ p: 2.5, mb: 2, border: '1px solid rgba(94, 59, 99, 0.2)', borderRadius: 2 }}
+            >
+              <Grid container spacing={2} sx={{ alignItems: 'center' }}>
+                <Grid size={{ xs: 12, md: 5 }}>
+                  <TextField
+                    select
+                    size="small"
+                    fullWidth
+                    label="Template"
+                    value={template.id}
+                    onChange={(e) => setTemplateId(e.target.value)}
+                  >
+                    {templates.map((option) => (
+                      <MenuItem key={option.id} value={option.id}>
+                        {option.name}
+                      </MenuItem>
+                    ))}
+                  </TextField>
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 2 }}>
+                  <TextField
+                    size="small"
+                    fullWidth
+                    type="number"
+                    label="Copies per item"
+                    value={copies}
+                    onChange={(e) => setCopies(e.target.value)}
+                    slotProps={{ htmlInput: { min: 1, max: 10 } }}
+                  />
+                </Grid>
+                <Grid size={{ xs: 12, sm: 6, md: 5 }}>
+                  <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1.5 }}>
+                    <Button
+                      variant="outlined"
+                      startIcon={<Style />}
+                      onClick={() => navigate('/tags/templates')}
+                      sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                    >
+                      Templates
+                    </Button>
+                    <Button
+                      variant="contained"
+                      startIcon={<Print />}
+                      onClick={() => window.print()}
+                      sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+                    >
+                      Print {items.length * copyCount} Tags
+                    </Button>
+                  </Box>
+                </Grid>
+              </Grid>
+            </Paper>
+
+            <Paper sx={{ p: 2, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+              <Typography variant="body2" sx={{ color: '#666666', mb: 2 }}>
+                {stock.label} · one tag per page. Set the printer's paper size to the label size and margins to none.
+              </Typography>
+              <style>{`@media print { @page { size: ${stock.widthMm}mm ${stock.heightMm}mm; margin: 0; } .print-area { display: block !important; } .print-area .tag-label { break-after: page; } }`}</style>
+              <Box className="print-area" sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+                {items.flatMap((item) =>
+                  Array.from({ length: copyCount }, (_, copy) => (
+                    <TagLabel key={`${item.id}-${copy}`} item={item} template={template} />
+                  ))
+                )}
+              </Box>
+            </Paper>
+          </>
+        )}
+      </Box>
+    </DashboardLayout>
+  );
+}
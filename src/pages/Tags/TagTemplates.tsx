@@ -0,0 +1,419 @@
+import { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Grid,
+  TextField,
+  Button,
+  MenuItem,
+  List,
+  ListItemButton,
+  ListItemText,
+  Chip,
+  Checkbox,
+  FormControlLabel,
+  FormGroup,
+  FormHelperText,
+  CircularProgress,
+  Alert,
+  Snackbar,
+  IconButton,
+} from '@mui/material';
+import { Add, ContentCopy, Delete, ArrowBack } from '@mui/icons-material';
+import { useForm, useWatch, Controller } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { DashboardLayout } from '../../components/Layout/DashboardLayout';
+import { TagLabel } from '../../components/Tags/TagLabel';
+import { SAMPLE_TAG_ITEM, TAG_CODE_TYPES, TAG_FIELDS, TAG_STOCKS } from '../../components/Tags/tagTemplates';
+import { useTagTemplates } from '../../hooks/useTagTemplates';
+import { useIsOrgAdmin } from '../../hooks/useAuth';
+import { getApiErrorMessage } from '../../api/client';
+import {
+  createTagTemplate,
+  deleteTagTemplate,
+  updateTagTemplate,
+  type TagTemplate,
+  type TagTemplateInput,
+} from '../../api/tagTemplates';
+
+const tagTemplateSchema = z.object({
+  name: z.string().min(1, 'Template name is required'),
+  stock: z.string().min(1, 'Tag stock is required'),
+  codeType: z.enum(['code128', 'qr']),
+  fields: z.array(z.string()).min(1, 'Select at least one field'),
+  fontSize: z.string().refine(
+    (val) => {
+      const num = parseFloat(val);
+      return !isNaN(num) && num >= 4 && num <= 14;
+    },
+    { message: 'Text size must be between 4 and 14 pt' }
+  ),
+});
+
+type TagTemplateFormData = z.infer<typeof tagTemplateSchema>;
+
+const toFormData = (template: Omit<TagTemplate, 'id'>): TagTemplateFormData => ({
+  name: template.name,
+  stock: template.stock,
+  codeType: template.codeType,
+  fields: template.fields,
+  fontSize: template.fontSize.toString(),
+});
+
+const toInput = (data: TagTemplateFormData): TagTemplateInput => ({
+  name: data.name.trim(),
+  stock: data.stock,
+  codeType: data.codeType,
+  // Keep the fields in display order whatever order they were ticked in
+  fields: TAG_FIELDS.map((field) => field.value).filter((field) => data.fields.includes(field)),
+  fontSize: parseFloat(data.fontSize),
+});
+
+const newTemplate: TagTemplateFormData = {
+  name: '',
+  stock: TAG_STOCKS[0].id,
+  codeType: 'code128',
+  fields: ['tagNumber', 'grossWeight', 'netWeight', 'purity'],
+  fontSize: '5',
+};
+
+export function TagTemplates() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const isAdmin = useIsOrgAdmin();
+  const { templates, loading, error } = useTagTemplates();
+  // null while creating a new template
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [snackbar, setSnackbar] = useState<{ message: string; severity: 'success' | 'error' } | null>(null);
+
+  const selected = templates.find((template) => template.id === selectedId);
+  const readOnly = !isAdmin || !!selected?.builtIn;
+
+  const {
+    control,
+    handleSubmit,
+    reset,
+    formState: { errors, isDirty },
+  } = useForm<TagTemplateFormData>({
+    resolver: zodResolver(tagTemplateSchema),
+    defaultValues: newTemplate,
+  });
+  const values = useWatch({ control });
+
+  const handleSelect = (template: TagTemplate) => {
+    setSelectedId(template.id);
+    reset(toFormData(template));
+  };
+
+  const handleNew = () => {
+    setSelectedId(null);
+    reset(newTemplate);
+  };
+
+  const handleDuplicate = (template: TagTemplate) => {
+    setSelectedId(null);
+    reset({ ...toFormData(template), name: `${template.name} (copy)` }, { keepDefaultValues: true });
+  };
+
+  const onSaved = (template: TagTemplate, message: string) => {
+    queryClient.invalidateQueries({ queryKey: ['tagTemplates'] });
+    setSelectedId(template.id);
+    reset(toFormData(template));
+    setSnackbar({ message, severity: 'success' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createTagTemplate,
+    onSuccess: (template) => onSaved(template, 'Tag template created'),
+    onError: (err) =>
+      setSnackbar({ message: getApiErrorMessage(err, 'Failed to create tag template'), severity: 'error' }),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, data }: { id: string; data: TagTemplateInput }) => updateTagTemplate(id, data),
+    onSuccess: (template) => onSaved(template, 'Tag template saved'),
+    onError: (err) =>
+      setSnackbar({ message: getApiErrorMessage(err, 'Failed to save tag template'), severity: 'error' }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteTagTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tagTemplates'] });
+      handleNew();
+      setSnackbar({ message: 'Tag template deleted', severity: 'success' });
+    },
+    onError: (err) =>
+      setSnackbar({ message: getApiErrorMessage(err, 'Failed to delete tag template'), severity: 'error' }),
+  });
+
+  const onSubmit = (data: TagTemplateFormData) => {
+    if (selected && !selected.builtIn) {
+      updateMutation.mutate({ id: selected.id, data: toInput(data) });
+    } else {
+      createMutation.mutate(toInput(data));
+    }
+  };
+
+  const previewFontSize = parseFloat(values.fontSize ?? '');
+  const previewTemplate: TagTemplate = {
+    id: 'preview',
+    name: values.name ?? '',
+    stock: values.stock ?? TAG_STOCKS[0].id,
+    codeType: values.codeType ?? 'code128',
+    fields: TAG_FIELDS.map((field) => field.value).filter((field) => values.fields?.includes(field)),
+    fontSize: isNaN(previewFontSize) ? 5 : previewFontSize,
+  };
+  const saving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <DashboardLayout>
+      <Box sx={{ maxWidth: 1400, mx: 'auto', p: { xs: 1, sm: 2 }, width: '100%' }}>
+        <Button startIcon={<ArrowBack />} onClick={() => navigate('/items')} sx={{ color: '#5e3b63', mb: 1 }}>
+          Items
+        </Button>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, gap: 2 }}>
+          <Typography
+            variant="h4"
+            sx={{ color: '#000000', fontWeight: 600, fontSize: { xs: '1.5rem', sm: '1.75rem' } }}
+          >
+            Tag Templates
+          </Typography>
+          {isAdmin && (
+            <Button
+              variant="contained"
+              startIcon={<Add />}
+              onClick={handleNew}
+              sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+            >
+              New Template
+            </Button>
+          )}
+        </Box>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error.message || 'Failed to load tag templates.'}
+          </Alert>
+        )}
+
+        <Grid container spacing={2}>
+          {/* Template list */}
+          <Grid size={{ xs: 12, md: 4 }}>
+            <Paper sx={{ boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+              {loading ? (
+                <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+                  <CircularProgress sx={{ color: '#5e3b63' }} />
+                </Box>
+              ) : (
+                <List disablePadding>
+                  {templates.map((template) => (
+                    <ListItemButton
+                      key={template.id}
+                      selected={template.id === selectedId}
+                      onClick={() => handleSelect(template)}
+                    >
+                      <ListItemText
+                        primary={template.name}
+                        secondary={TAG_STOCKS.find((stock) => stock.id === template.stock)?.label}
+                      />
+                      {template.builtIn && <Chip label="Built-in" size="small" sx={{ mr: 1 }} />}
+                      {isAdmin && (
+                        <IconButton
+                          size="small"
+                          aria-label="duplicate template"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            handleDuplicate(template);
+                          }}
+                        >
+                          <ContentCopy fontSize="small" />
+                        </IconButton>
+                      )}
+                      {isAdmin && !template.builtIn && (
+                        <IconButton
+                          size="small"
+                          aria-label="delete template"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            deleteMutation.mutate(template.id);
+                          }}
+                          sx={{ color: '#d32f2f' }}
+                        >
+                          <Delete fontSize="small" />
+                        </IconButton>
+                      )}
+                    </ListItemButton>
+                  ))}
+                </List>
+              )}
+            </Paper>
+          </Grid>
+
+          {/* Editor */}
+          <Grid size={{ xs: 12, md: 8 }}>
+            <Paper sx={{ p: { xs: 2, sm: 3 }, boxShadow: '0px 2px 8px rgba(0, 0, 0, 0.1)' }}>
+              {selected?.builtIn && isAdmin && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  Built-in templates cannot be changed. Duplicate this template to customize it.
+                </Alert>
+              )}
+              <form onSubmit={handleSubmit(onSubmit)}>
+                <Grid container spacing={2}>
+                  <Grid size={{ xs: 12, sm: 6 }}>
+                    <Controller
+                      name="name"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          label="Template Name"
+                          fullWidth
+                          disabled={readOnly}
+                          error={!!errors.name}
+                          helperText={errors.name?.message}
+                        />
+                      )}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 12, sm: 6 }}>
+                    <Controller
+                      name="stock"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField {...field} select label="Tag Stock" fullWidth disabled={readOnly}>
+                          {TAG_STOCKS.map((stock) => (
+                            <MenuItem key={stock.id} value={stock.id}>
+                              {stock.label}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                      )}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 12, sm: 6 }}>
+                    <Controller
+                      name="codeType"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField {...field} select label="Code" fullWidth disabled={readOnly}>
+                          {TAG_CODE_TYPES.map((codeType) => (
+                            <MenuItem key={codeType.value} value={codeType.value}>
+                              {codeType.label}
+                            </MenuItem>
+                          ))}
+                        </TextField>
+                      )}
+                    />
+                  </Grid>
+                  <Grid size={{ xs: 12, sm: 6 }}>
+                    <Controller
+                      name="fontSize"
+                      control={control}
+                      render={({ field }) => (
+                        <TextField
+                          {...field}
+                          label="Text Size (pt)"
+                          type="number"
+                          fullWidth
+                          disabled={readOnly}
+                          error={!!errors.fontSize}
+                          helperText={errors.fontSize?.message}
+                          slotProps={{ htmlInput: { min: 4, max: 14, step: 0.5 } }}
+                        />
+                      )}
+                    />
+                  </Grid>
+                  <Grid size={12}>
+                    <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 0.5 }}>
+                      Printed Fields
+                    </Typography>
+                    <Controller
+                      name="fields"
+                      control={control}
+                      render={({ field }) => (
+                        <FormGroup row>
+                          {TAG_FIELDS.map((tagField) => (
+                            <FormControlLabel
+                              key={tagField.value}
+                              label={tagField.label}
+                              disabled={readOnly}
+                              control={
+                                <Checkbox
+                                  checked={field.value.includes(tagField.value)}
+                                  onChange={(event) =>
+                                    field.onChange(
+                                      event.target.checked
+                                        ? [...field.value, tagField.value]
+                                        : field.value.filter((value: string) => value !== tagField.value)
+                                    )
+                                  }
+                                  sx={{ '&.Mui-checked': { color: '#5e3b63' } }}
+                                />
+                              }
+                            />
+                          ))}
+                        </FormGroup>
+                      )}
+                    />
+                    {errors.fields && <FormHelperText error>{errors.fields.message}</FormHelperText>}
+                  </Grid>
+
+                  {/* Preview */}
+                  <Grid size={12}>
+                    <Typography variant="body2" sx={{ color: '#5e3b63', fontWeight: 600, mb: 1 }}>
+                      Preview (2× actual size)
+                    </Typography>
+                    <Box sx={{ backgroundColor: '#f5f5f5', p: 2, borderRadius: 1, overflowX: 'auto' }}>
+                      <Box sx={{ zoom: 2, width: 'fit-content' }}>
+                        <TagLabel item={SAMPLE_TAG_ITEM} template={previewTemplate} />
+                      </Box>
+                    </Box>
+                  </Grid>
+
+                  {!readOnly && (
+                    <Grid size={12}>
+                      <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 2 }}>
+                        <Button
+                          variant="outlined"
+                          onClick={() => reset()}
+                          disabled={!isDirty || saving}
+                          sx={{ borderColor: '#5e3b63', color: '#5e3b63', fontWeight: 600 }}
+                        >
+                          Reset
+                        </Button>
+                        <Button
+                          type="submit"
+                          variant="contained"
+                          disabled={saving}
+                          sx={{ backgroundColor: '#5e3b63', fontWeight: 600, '&:hover': { backgroundColor: '#4a2d4f' } }}
+                        >
+                          {saving ? <CircularProgress size={20} sx={{ color: '#ffffff' }} /> : 'Save Template'}
+                        </Button>
+                      </Box>
+                    </Grid>
+                  )}
+                </Grid>
+              </form>
+            </Paper>
+          </Grid>
+        </Grid>
+      </Box>
+
+      <Snackbar
+        open={!!snackbar}
+        autoHideDuration={6000}
+        onClose={() => setSnackbar(null)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+      >
+        <Alert onClose={() => setSnackbar(null)} severity={snackbar?.severity} sx={{ width: '100%' }}>
+          {snackbar?.message}
+        </Alert>
+      </Snackbar>
+    </DashboardLayout>
+  );
+}
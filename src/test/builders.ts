@@ -0,0 +1,248 @@
+import type { AccountGroup, Ledger } from '../api/accounting';
+import type { PurchaseBill } from '../api/purchases';
+import type { SalesCreditNote, SalesInvoice, SalesInvoiceLine } from '../api/sales';
+import type { Supplier } from '../api/suppliers';
+
+/**
+ * Test data builders
+ *
+ * One builder per model, returning a complete, fully typed record that each
+ * test overrides only where it matters. Amounts follow gold jewellery taxed
+ * at 3% under HSN 7113 unless overridden.
+ */
+
+const CREATED_AT = '2026-04-10T10:00:00.000Z';
+
+/**
+ * Invoice line for a piece, taxed at 3% under HSN 7113
+ * @param itemId - Item the line bills
+ * @param taxableValue - Value before tax
+ * @param overrides - Fields to set directly
+ */
+export function buildSalesInvoiceLine(
+  itemId: string,
+  taxableValue: number,
+  overrides: Partial<SalesInvoiceLine> = {}
+): SalesInvoiceLine {
+  const taxAmount = taxableValue * 0.03;
+  return {
+    itemId,
+    tagNumber: `TAG-${itemId}`,
+    description: 'Gold ring',
+    metal: 'gold',
+    purity: '22K',
+    grossWeight: 10,
+    netWeight: 10,
+    ratePerGram: taxableValue / 10,
+    wastagePercent: 0,
+    makingChargeType: 'flat',
+    makingCharge: 0,
+    metalValue: taxableValue,
+    wastageValue: 0,
+    makingValue: 0,
+    stoneValue: 0,
+    taxableValue,
+    taxAmount,
+    taxLines: [{ code: '7113', ratePercent: 3, taxableValue, taxAmount }],
+    total: taxableValue + taxAmount,
+    ...overrides,
+  };
+}
+
+/**
+ * Buyer as stored on an invoice
+ * @param gstin - Buyer's GSTIN, null for an unregistered buyer
+ * @param overrides - Fields to set directly
+ */
+export function buildInvoiceCustomer(
+  gstin: string | null,
+  overrides: Partial<NonNullable<SalesInvoice['customer']>> = {}
+): NonNullable<SalesInvoice['customer']> {
+  return {
+    id: 'customer-1',
+    customerNumber: 'CUST-0001',
+    name: 'Buyer Traders',
+    phone: null,
+    address: null,
+    gstin,
+    panNumber: null,
+    creditLimit: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Sales invoice whose totals add up from its lines, paid in full with no
+ * adjustments
+ * @param overrides - Fields to set directly; totals are taken from `lines` when given
+ */
+export function buildSalesInvoice(overrides: Partial<SalesInvoice> = {}): SalesInvoice {
+  const lines = overrides.lines ?? [buildSalesInvoiceLine('item-1', 10000)];
+  const subtotal = lines.reduce((total, line) => total + line.taxableValue, 0);
+  const taxAmount = lines.reduce((total, line) => total + line.taxAmount, 0);
+  const total = lines.reduce((sum, line) => sum + line.total, 0);
+  return {
+    id: 'invoice-1',
+    organizationId: 'org-1',
+    invoiceNumber: 'INV-1',
+    invoiceDate: '2026-04-10',
+    customerId: null,
+    customer: null,
+    lines,
+    oldGold: [],
+    payments: [],
+    subtotal,
+    taxAmount,
+    placeOfSupply: null,
+    cgstAmount: 0,
+    sgstAmount: 0,
+    igstAmount: 0,
+    oldGoldAmount: 0,
+    advanceAmount: 0,
+    customOrderNumber: null,
+    schemeAmount: 0,
+    schemeEnrolmentNumber: null,
+    total,
+    tcs: null,
+    amountPaid: total,
+    balanceDue: 0,
+    dueDate: null,
+    eInvoice: null,
+    status: 'paid',
+    createdByName: null,
+    createdAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+/**
+ * Credit note taking back every line of an invoice
+ * @param invoice - Invoice being credited
+ * @param overrides - Fields to set directly
+ */
+export function buildSalesCreditNote(
+  invoice: SalesInvoice,
+  overrides: Partial<SalesCreditNote> = {}
+): SalesCreditNote {
+  return {
+    id: `cn-${invoice.id}`,
+    creditNoteNumber: `CN-${invoice.invoiceNumber}`,
+    creditNoteDate: '2026-04-20',
+    reason: 'return',
+    remarks: null,
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    invoiceDate: invoice.invoiceDate,
+    invoiceTotal: invoice.total,
+    customer: invoice.customer,
+    placeOfSupply: invoice.placeOfSupply,
+    lines: invoice.lines,
+    subtotal: invoice.subtotal,
+    taxAmount: invoice.taxAmount,
+    cgstAmount: invoice.cgstAmount,
+    sgstAmount: invoice.sgstAmount,
+    igstAmount: invoice.igstAmount,
+    total: invoice.total,
+    createdByName: null,
+    createdAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+/**
+ * Chart of accounts group, named after its ID
+ * @param id - Group ID and name
+ * @param nature - Nature of the group
+ * @param overrides - Fields to set directly
+ */
+export function buildAccountGroup(
+  id: string,
+  nature: AccountGroup['nature'],
+  overrides: Partial<AccountGroup> = {}
+): AccountGroup {
+  return { id, name: id, parentId: null, nature, affectsGrossProfit: false, systemKey: null, ...overrides };
+}
+
+/**
+ * Ledger with no opening balance, named after its ID
+ * @param id - Ledger ID and name
+ * @param groupId - Group the ledger sits under
+ * @param overrides - Fields to set directly
+ */
+export function buildLedger(id: string, groupId: string, overrides: Partial<Ledger> = {}): Ledger {
+  return {
+    id,
+    name: id,
+    groupId,
+    groupName: groupId,
+    openingBalance: 0,
+    balance: 0,
+    systemKey: null,
+    customerId: null,
+    supplierId: null,
+    isActive: true,
+    createdAt: CREATED_AT,
+    ...overrides,
+  };
+}
+
+/**
+ * Supplier with nothing owed either way
+ * @param gstin - Supplier's GSTIN, null for an unregistered supplier
+ */
+export function buildSupplier(gstin: string | null): Supplier {
+  return {
+    id: 'supplier-1',
+    organizationId: 'org-1',
+    supplierNumber: 'SUP-0001',
+    name: 'Bullion Supplier',
+    contactPerson: null,
+    phone: null,
+    email: null,
+    address: null,
+    gstin,
+    panNumber: null,
+    balance: 0,
+    fineBalances: { gold: 0, silver: 0, platinum: 0 },
+    isActive: true,
+    createdAt: CREATED_AT,
+  };
+}
+
+/**
+ * Approved purchase bill with no lines, carrying only its totals
+ * @param supplier - Supplier billed by
+ * @param subtotal - Value before GST
+ * @param taxAmount - GST on the bill
+ */
+export function buildPurchaseBill(supplier: Supplier, subtotal: number, taxAmount: number): PurchaseBill {
+  return {
+    id: 'bill-1',
+    organizationId: 'org-1',
+    billNumber: 'PB-1',
+    supplierBillNumber: null,
+    billDate: '2026-04-10',
+    supplierId: supplier.id,
+    supplier,
+    purchaseOrderId: null,
+    orderNumber: null,
+    lines: [],
+    tds: null,
+    notes: null,
+    status: 'approved',
+    approvedByName: null,
+    approvedAt: null,
+    rejectionReason: null,
+    createdByName: null,
+    createdAt: CREATED_AT,
+    totalGrossWeight: 0,
+    totalNetWeight: 0,
+    totalFineWeight: 0,
+    metalAmount: subtotal,
+    labourAmount: 0,
+    stoneAmount: 0,
+    subtotal,
+    taxAmount,
+    total: subtotal + taxAmount,
+  };
+}
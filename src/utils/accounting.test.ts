@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { LedgerBalance } from '../api/accounting';
+import { buildAccountGroup, buildLedger } from '../test/builders';
+import { buildBalanceSheet, buildProfitAndLoss } from './accounting';
+
+const groups = [
+  buildAccountGroup('Capital Account', 'liabilities'),
+  buildAccountGroup('Current Assets', 'assets'),
+  buildAccountGroup('Cash-in-Hand', 'assets', { parentId: 'Current Assets', systemKey: 'cash' }),
+  buildAccountGroup('Stock-in-Hand', 'assets', { parentId: 'Current Assets', systemKey: 'stock' }),
+  buildAccountGroup('Sales Accounts', 'income', { affectsGrossProfit: true }),
+  buildAccountGroup('Purchase Accounts', 'expenses', { affectsGrossProfit: true }),
+];
+
+const ledgers = [
+  buildLedger('Capital', 'Capital Account', { openingBalance: -50000 }),
+  buildLedger('Cash', 'Cash-in-Hand'),
+  buildLedger('Stock', 'Stock-in-Hand', { openingBalance: 50000 }),
+  buildLedger('Sales', 'Sales Accounts'),
+  buildLedger('Purchases', 'Purchase Accounts'),
+];
+
+// Capital brings in 20000 of stock by journal; sales of 100000 and purchases of 60000 go through cash
+const balances: LedgerBalance[] = [
+  { ledgerId: 'Capital', opening: -50000, debit: 0, credit: 20000 },
+  { ledgerId: 'Cash', opening: 0, debit: 100000, credit: 60000 },
+  { ledgerId: 'Stock', opening: 50000, debit: 20000, credit: 0 },
+  { ledgerId: 'Sales', opening: 0, debit: 0, credit: 100000 },
+  { ledgerId: 'Purchases', opening: 0, debit: 60000, credit: 0 },
+];
+
+describe('buildProfitAndLoss', () => {
+  it('takes opening stock from the balance brought into the period and charges stock vouchers separately', () => {
+    const profitAndLoss = buildProfitAndLoss(ledgers, groups, balances, 40000, 2);
+
+    expect(profitAndLoss.openingStock).toBe(50000);
+    expect(profitAndLoss.stockMovement).toBe(20000);
+    expect(profitAndLoss.closingStock).toBe(40000);
+    expect(profitAndLoss.grossProfit).toBe(100000 + 40000 - 50000 - 20000 - 60000);
+  });
+});
+
+describe('buildBalanceSheet', () => {
+  it('balances when vouchers are posted to a stock ledger', () => {
+    const balanceSheet = buildBalanceSheet(ledgers, groups, balances, 40000, 2);
+
+    expect(balanceSheet.netProfit).toBe(10000);
+    expect(balanceSheet.openingDifference).toBe(0);
+    expect(balanceSheet.totals).toEqual({ liabilities: 80000, assets: 80000 });
+  });
+});
@@ -0,0 +1,476 @@
+import type {
+  AccountGroup,
+  AccountNature,
+  Ledger,
+  LedgerBalance,
+  Voucher,
+  VoucherEntry,
+  VoucherType,
+} from '../api/accounting';
+import { toCsv } from './export';
+import { formatAmount } from './format';
+import { roundTo } from './rounding';
+
+/**
+ * Voucher checks and the financial statements
+ *
+ * Pure functions only. Balances are signed with debit positive and credit
+ * negative throughout; statements flip the sign for liabilities and income so
+ * each side reads in its normal balance. Purchases are charged to profit and
+ * loss as they are made, so stock appears only as the opening stock ledger
+ * and the closing stock valued for the period.
+ */
+
+/** systemKey of the seeded Cash-in-Hand and Bank Accounts groups */
+const CASH_BANK_GROUP_KEYS = ['cash', 'bank'];
+/** systemKey of the seeded Stock-in-Hand group */
+const STOCK_GROUP_KEY = 'stock';
+
+const NATURE_ORDER: AccountNature[] = ['liabilities', 'assets', 'income', 'expenses'];
+
+export interface TrialBalanceRow {
+  ledgerId: string;
+  ledgerName: string;
+  groupName: string;
+  nature: AccountNature;
+  opening: number;
+  debit: number;
+  credit: number;
+  closing: number;
+}
+
+export interface TrialBalance {
+  rows: TrialBalanceRow[];
+  totals: { debit: number; credit: number; closingDebit: number; closingCredit: number };
+}
+
+export interface StatementLedger {
+  ledgerId: string;
+  name: string;
+  amount: number;
+}
+
+/** A primary group on a statement with the ledgers under it and its sub-groups */
+export interface StatementGroup {
+  groupId: string;
+  name: string;
+  amount: number;
+  ledgers: StatementLedger[];
+}
+
+export interface ProfitAndLoss {
+  openingStock: number;
+  /** Vouchers posted to stock ledgers in the period, debit positive; charged to the trading account */
+  stockMovement: number;
+  closingStock: number;
+  /** Purchases and direct expenses */
+  tradingExpenses: StatementGroup[];
+  /** Sales and direct income */
+  tradingIncome: StatementGroup[];
+  grossProfit: number;
+  indirectExpenses: StatementGroup[];
+  indirectIncome: StatementGroup[];
+  netProfit: number;
+}
+
+export interface BalanceSheet {
+  liabilities: StatementGroup[];
+  assets: StatementGroup[];
+  /** Profit carried from earlier periods */
+  previousProfit: number;
+  netProfit: number;
+  closingStock: number;
+  /** Debit opening balances less credit ones; zero when the books were opened correctly */
+  openingDifference: number;
+  totals: { liabilities: number; assets: number };
+}
+
+/**
+ * A group followed by its parents up to the primary group
+ * @param groupId - Group ID
+ * @param groups - Chart of accounts groups
+ * @returns Groups from the one given to its primary group
+ */
+export function getGroupAncestry(groupId: string, groups: AccountGroup[]): AccountGroup[] {
+  const byId = new Map(groups.map((group) => [group.id, group]));
+  const ancestry: AccountGroup[] = [];
+  let group = byId.get(groupId);
+  while (group && !ancestry.includes(group)) {
+    ancestry.push(group);
+    group = group.parentId ? byId.get(group.parentId) : undefined;
+  }
+  return ancestry;
+}
+
+/**
+ * Name of a group with its parents, for pickers
+ * @param group - Group
+ * @param groups - Chart of accounts groups
+ * @returns e.g. Current Assets / Bank Accounts
+ */
+export function formatGroupPath(group: AccountGroup, groups: AccountGroup[]): string {
+  return getGroupAncestry(group.id, groups)
+    .reverse()
+    .map((ancestor) => ancestor.name)
+    .join(' / ');
+}
+
+const isUnderGroup = (groupId: string, groups: AccountGroup[], systemKeys: string[]) =>
+  getGroupAncestry(groupId, groups).some((group) => !!group.systemKey && systemKeys.includes(group.systemKey));
+
+/**
+ * Whether a ledger sits under Cash-in-Hand or Bank Accounts
+ * @param ledger - Ledger
+ * @param groups - Chart of accounts groups
+ * @returns True for cash and bank ledgers
+ */
+export function isCashOrBankLedger(ledger: Pick<Ledger, 'groupId'>, groups: AccountGroup[]): boolean {
+  return isUnderGroup(ledger.groupId, groups, CASH_BANK_GROUP_KEYS);
+}
+
+/**
+ * Format a signed balance with its side
+ * @param amount - Balance, debit positive
+ * @param decimals - Decimal places
+ * @returns e.g. ₹1,200.00 Dr, or ₹0.00 when nil
+ */
+export function formatBalance(amount: number, decimals = 2): string {
+  const value = roundTo(amount, decimals);
+  if (value === 0) return formatAmount(0, decimals);
+  return `${formatAmount(Math.abs(value), decimals)} ${value > 0 ? 'Dr' : 'Cr'}`;
+}
+
+/**
+ * Total debits and credits of a voucher
+ * @param entries - Voucher entries
+ * @param decimals - Decimal places to round to
+ * @returns Debit and credit totals
+ */
+export function sumVoucherEntries(
+  entries: Pick<VoucherEntry, 'debit' | 'credit'>[],
+  decimals: number
+): { debit: number; credit: number } {
+  return {
+    debit: roundTo(entries.reduce((total, entry) => total + (entry.debit || 0), 0), decimals),
+    credit: roundTo(entries.reduce((total, entry) => total + (entry.credit || 0), 0), decimals),
+  };
+}
+
+/**
+ * Page of the document a voucher was posted from
+ * @param voucher - Voucher
+ * @returns Route of the invoice or bill, or null for manual vouchers and supplier payments
+ */
+export function getVoucherSourcePath(voucher: Pick<Voucher, 'source' | 'sourceId'>): string | null {
+  if (!voucher.sourceId) return null;
+  if (voucher.source === 'sales_invoice') return `/sales/invoices/${voucher.sourceId}`;
+  if (voucher.source === 'purchase_bill') return `/purchase/bills/${voucher.sourceId}`;
+  return null;
+}
+
+/**
+ * Check a voucher before it is posted. Payments must be paid out of cash or
+ * bank and receipts paid into them; contras move money only between cash and
+ * bank, and journals leave cash and bank alone.
+ * @param voucherType - Voucher type
+ * @param entries - Voucher entries
+ * @param ledgers - Ledgers, for the group of each entry
+ * @param groups - Chart of accounts groups
+ * @param decimals - Decimal places to compare totals at
+ * @returns Problems to fix; empty when the voucher can be posted
+ */
+export function validateVoucher(
+  voucherType: VoucherType,
+  entries: VoucherEntry[],
+  ledgers: Ledger[],
+  groups: AccountGroup[],
+  decimals: number
+): string[] {
+  const issues: string[] = [];
+  const byId = new Map(ledgers.map((ledger) => [ledger.id, ledger]));
+
+  entries.forEach((entry, index) => {
+    const label = `Line ${index + 1}`;
+    if (!byId.has(entry.ledgerId)) issues.push(`${label} needs a ledger`);
+    if (entry.debit < 0 || entry.credit < 0) issues.push(`${label} cannot have a negative amount`);
+    if ((entry.debit > 0) === (entry.credit > 0)) issues.push(`${label} needs either a debit or a credit amount`);
+  });
+
+  const debits = entries.filter((entry) => entry.debit > 0);
+  const credits = entries.filter((entry) => entry.credit > 0);
+  if (debits.length === 0 || credits.length === 0) issues.push('A voucher needs at least one debit and one credit');
+
+  const totals = sumVoucherEntries(entries, decimals);
+  if (totals.debit !== totals.credit) {
+    issues.push(
+      `Debits (${formatAmount(totals.debit, decimals)}) and credits (${formatAmount(totals.credit, decimals)}) ` +
+        'do not match'
+    );
+  }
+
+  const cashOrBank = (entry: VoucherEntry) => {
+    const ledger = byId.get(entry.ledgerId);
+    return !!ledger && isCashOrBankLedger(ledger, groups);
+  };
+  if (voucherType === 'payment' && !credits.every(cashOrBank)) {
+    issues.push('A payment can only credit cash or bank ledgers');
+  }
+  if (voucherType === 'receipt' && !debits.every(cashOrBank)) {
+    issues.push('A receipt can only debit cash or bank ledgers');
+  }
+  if (voucherType === 'contra' && !entries.every(cashOrBank)) {
+    issues.push('A contra can only move money between cash and bank ledgers');
+  }
+  if (voucherType === 'journal' && entries.some(cashOrBank)) {
+    issues.push('Use a payment, receipt or contra for cash and bank; a journal cannot touch them');
+  }
+  return issues;
+}
+
+const primaryGroupOf = (groupId: string, groups: AccountGroup[]) => {
+  const ancestry = getGroupAncestry(groupId, groups);
+  return ancestry[ancestry.length - 1];
+};
+
+/**
+ * Opening balance, movement and closing balance of every ledger over a
+ * period, ordered by nature and group
+ * @param ledgers - Ledgers
+ * @param groups - Chart of accounts groups
+ * @param balances - Ledger balances for the period
+ * @param decimals - Decimal places to round to
+ * @returns Rows with any balance or movement, and the column totals
+ */
+export function buildTrialBalance(
+  ledgers: Ledger[],
+  groups: AccountGroup[],
+  balances: LedgerBalance[],
+  decimals: number
+): TrialBalance {
+  const balanceById = new Map(balances.map((balance) => [balance.ledgerId, balance]));
+  const rows: TrialBalanceRow[] = ledgers
+    .map((ledger) => {
+      const balance = balanceById.get(ledger.id);
+      const opening = balance?.opening ?? 0;
+      const debit = balance?.debit ?? 0;
+      const credit = balance?.credit ?? 0;
+      const primary = primaryGroupOf(ledger.groupId, groups);
+      return {
+        ledgerId: ledger.id,
+        ledgerName: ledger.name,
+        groupName: primary?.name ?? ledger.groupName,
+        nature: primary?.nature ?? 'assets',
+        opening: roundTo(opening, decimals),
+        debit: roundTo(debit, decimals),
+        credit: roundTo(credit, decimals),
+        closing: roundTo(opening + debit - credit, decimals),
+      };
+    })
+    .filter((row) => row.opening !== 0 || row.debit !== 0 || row.credit !== 0)
+    .sort(
+      (a, b) =>
+        NATURE_ORDER.indexOf(a.nature) - NATURE_ORDER.indexOf(b.nature) ||
+        a.groupName.localeCompare(b.groupName) ||
+        a.ledgerName.localeCompare(b.ledgerName)
+    );
+
+  const sum = (pick: (row: TrialBalanceRow) => number) =>
+    roundTo(rows.reduce((total, row) => total + pick(row), 0), decimals);
+  return {
+    rows,
+    totals: {
+      debit: sum((row) => row.debit),
+      credit: sum((row) => row.credit),
+      closingDebit: sum((row) => Math.max(row.closing, 0)),
+      closingCredit: sum((row) => Math.max(-row.closing, 0)),
+    },
+  };
+}
+
+interface LedgerPosition {
+  ledger: Ledger;
+  primary: AccountGroup | undefined;
+  isStock: boolean;
+  opening: number;
+  /** Debits less credits over the period */
+  movement: number;
+}
+
+const ledgerPositions = (ledgers: Ledger[], groups: AccountGroup[], balances: LedgerBalance[]): LedgerPosition[] => {
+  const balanceById = new Map(balances.map((balance) => [balance.ledgerId, balance]));
+  return ledgers.map((ledger) => {
+    const balance = balanceById.get(ledger.id);
+    return {
+      ledger,
+      primary: primaryGroupOf(ledger.groupId, groups),
+      isStock: isUnderGroup(ledger.groupId, groups, [STOCK_GROUP_KEY]),
+      opening: balance?.opening ?? 0,
+      movement: (balance?.debit ?? 0) - (balance?.credit ?? 0),
+    };
+  });
+};
+
+/**
+ * Group ledger amounts under their primary groups, leaving out nil ledgers
+ * @param positions - Ledgers to group
+ * @param amountOf - Amount to show for a ledger, in the side's normal balance
+ * @param decimals - Decimal places to round to
+ * @returns Groups by name, each with its ledgers by name
+ */
+const groupStatement = (
+  positions: LedgerPosition[],
+  amountOf: (position: LedgerPosition) => number,
+  decimals: number
+): StatementGroup[] => {
+  const byGroup = new Map<string, StatementGroup>();
+  positions.forEach((position) => {
+    const amount = roundTo(amountOf(position), decimals);
+    if (amount === 0 || !position.primary) return;
+    const group = byGroup.get(position.primary.id) ?? {
+      groupId: position.primary.id,
+      name: position.primary.name,
+      amount: 0,
+      ledgers: [],
+    };
+    group.amount = roundTo(group.amount + amount, decimals);
+    group.ledgers.push({ ledgerId: position.ledger.id, name: position.ledger.name, amount });
+    byGroup.set(group.groupId, group);
+  });
+  return Array.from(byGroup.values())
+    .map((group) => ({ ...group, ledgers: group.ledgers.sort((a, b) => a.name.localeCompare(b.name)) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+const sumGroups = (groups: StatementGroup[]) => groups.reduce((total, group) => total + group.amount, 0);
+
+/**
+ * Trading and profit and loss account for a period. Gross profit comes from
+ * the groups marked as affecting it; the rest of income and expenses make up
+ * net profit.
+ * @param ledgers - Ledgers
+ * @param groups - Chart of accounts groups
+ * @param balances - Ledger balances for the period
+ * @param closingStock - Value of stock on hand at the end of the period
+ * @param decimals - Decimal places to round to
+ * @returns Trading and profit and loss figures
+ */
+export function buildProfitAndLoss(
+  ledgers: Ledger[],
+  groups: AccountGroup[],
+  balances: LedgerBalance[],
+  closingStock: number,
+  decimals: number
+): ProfitAndLoss {
+  const positions = ledgerPositions(ledgers, groups, balances);
+  const nominal = (nature: AccountNature, trading: boolean) =>
+    positions.filter(
+      (position) => position.primary?.nature === nature && !!position.primary.affectsGrossProfit === trading
+    );
+  const debitSide = (position: LedgerPosition) => position.movement;
+  const creditSide = (position: LedgerPosition) => -position.movement;
+
+  const stockPositions = positions.filter((position) => position.isStock);
+  const openingStock = roundTo(stockPositions.reduce((total, position) => total + position.opening, 0), decimals);
+  // Stock ledgers only carry the opening stock; closing stock replaces them on the balance sheet, so
+  // anything posted to them during the period goes through the trading account like a purchase
+  const stockMovement = roundTo(stockPositions.reduce((total, position) => total + position.movement, 0), decimals);
+  const tradingExpenses = groupStatement(nominal('expenses', true), debitSide, decimals);
+  const tradingIncome = groupStatement(nominal('income', true), creditSide, decimals);
+  const indirectExpenses = groupStatement(nominal('expenses', false), debitSide, decimals);
+  const indirectIncome = groupStatement(nominal('income', false), creditSide, decimals);
+
+  const grossProfit = roundTo(
+    sumGroups(tradingIncome) + closingStock - openingStock - stockMovement - sumGroups(tradingExpenses),
+    decimals
+  );
+  return {
+    openingStock,
+    stockMovement,
+    closingStock: roundTo(closingStock, decimals),
+    tradingExpenses,
+    tradingIncome,
+    grossProfit,
+    indirectExpenses,
+    indirectIncome,
+    netProfit: roundTo(grossProfit + sumGroups(indirectIncome) - sumGroups(indirectExpenses), decimals),
+  };
+}
+
+/**
+ * Balance sheet at the end of a period. Stock-in-Hand is replaced by the
+ * closing stock, and the profit and loss account carries earlier profit plus
+ * the period's net profit.
+ * @param ledgers - Ledgers
+ * @param groups - Chart of accounts groups
+ * @param balances - Ledger balances for the period
+ * @param closingStock - Value of stock on hand at the end of the period
+ * @param decimals - Decimal places to round to
+ * @returns Liabilities and assets with their totals
+ */
+export function buildBalanceSheet(
+  ledgers: Ledger[],
+  groups: AccountGroup[],
+  balances: LedgerBalance[],
+  closingStock: number,
+  decimals: number
+): BalanceSheet {
+  const positions = ledgerPositions(ledgers, groups, balances);
+  const { netProfit } = buildProfitAndLoss(ledgers, groups, balances, closingStock, decimals);
+  const closing = (position: LedgerPosition) => position.opening + position.movement;
+
+  const liabilities = groupStatement(
+    positions.filter((position) => position.primary?.nature === 'liabilities'),
+    (position) => -closing(position),
+    decimals
+  );
+  const assets = groupStatement(
+    positions.filter((position) => position.primary?.nature === 'assets' && !position.isStock),
+    closing,
+    decimals
+  );
+  // Income and expenses brought into the period are profit of earlier periods not yet moved to capital
+  const previousProfit = roundTo(
+    -positions
+      .filter((position) => position.primary?.nature === 'income' || position.primary?.nature === 'expenses')
+      .reduce((total, position) => total + position.opening, 0),
+    decimals
+  );
+  const openingDifference = roundTo(
+    ledgers.reduce((total, ledger) => total + ledger.openingBalance, 0),
+    decimals
+  );
+
+  const profitAndLoss = previousProfit + netProfit;
+  return {
+    liabilities,
+    assets,
+    previousProfit,
+    netProfit,
+    closingStock: roundTo(closingStock, decimals),
+    openingDifference,
+    totals: {
+      liabilities: roundTo(sumGroups(liabilities) + profitAndLoss + Math.max(openingDifference, 0), decimals),
+      assets: roundTo(sumGroups(assets) + closingStock + Math.max(-openingDifference, 0), decimals),
+    },
+  };
+}
+
+/**
+ * Flatten a trial balance into CSV, one row per ledger
+ * @param trialBalance - Trial balance
+ * @returns CSV text
+ */
+export function trialBalanceToCsv(trialBalance: TrialBalance): string {
+  return toCsv(
+    ['Ledger', 'Group', 'Opening', 'Debit', 'Credit', 'Closing Debit', 'Closing Credit'],
+    trialBalance.rows.map((row) => [
+      row.ledgerName,
+      row.groupName,
+      row.opening,
+      row.debit,
+      row.credit,
+      row.closing > 0 ? row.closing : 0,
+      row.closing < 0 ? -row.closing : 0,
+    ])
+  );
+}
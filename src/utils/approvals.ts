@@ -0,0 +1,24 @@
+import type { ApprovalMemo } from '../api/approvals';
+
+/**
+ * Name of the customer or dealer holding the pieces
+ * @param memo - Approval memo
+ * @returns Party name
+ */
+export function getApprovalPartyName(memo: Pick<ApprovalMemo, 'customer' | 'supplier'>): string {
+  return memo.customer?.name ?? memo.supplier?.name ?? '-';
+}
+
+/**
+ * Whole days a memo is past its expected return date
+ * @param expectedReturnDate - Expected return date (ISO date)
+ * @param today - Date to measure from (defaults to now)
+ * @returns Days overdue, or 0 when not yet due
+ */
+export function getDaysOverdue(expectedReturnDate: string, today: Date = new Date()): number {
+  const due = new Date(expectedReturnDate);
+  due.setHours(0, 0, 0, 0);
+  const start = new Date(today);
+  start.setHours(0, 0, 0, 0);
+  return Math.max(0, Math.round((start.getTime() - due.getTime()) / (24 * 60 * 60 * 1000)));
+}
@@ -0,0 +1,21 @@
+import { CUT_GRADES, STONE_SHAPES, type CertificateSummary } from '../api/certificates';
+
+/**
+ * One-line description of a certificate for invoices and lists
+ * @param certificate - Certificate details
+ * @returns e.g. "IGI 512345678 · 1.010 ct Round · G VS1 · Excellent cut"
+ */
+export function describeCertificate(certificate: CertificateSummary): string {
+  const shape = STONE_SHAPES.find((option) => option.value === certificate.shape)?.label ?? certificate.shape;
+  const cut = CUT_GRADES.find((option) => option.value === certificate.cut)?.label ?? certificate.cut;
+  const grades = [certificate.colour, certificate.clarity].filter(Boolean).join(' ');
+
+  return [
+    `${certificate.lab} ${certificate.certificateNumber}`,
+    [`${certificate.caratWeight.toFixed(3)} ct`, shape].filter(Boolean).join(' '),
+    grades,
+    cut ? `${cut} cut` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
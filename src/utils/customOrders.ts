@@ -0,0 +1,120 @@
+import type { CustomOrderAdvance, CustomOrderAdvanceData } from '../api/customOrders';
+import { roundTo } from './rounding';
+
+/** Weights are kept to the milligram */
+const WEIGHT_DECIMALS = 3;
+
+/** Advance as typed into the form */
+export interface AdvanceInput {
+  amount: string;
+  mode: string;
+  reference: string;
+  rateLocked: boolean;
+  /** Blank means today's rate */
+  ratePerGram: string;
+}
+
+export const emptyAdvance: AdvanceInput = {
+  amount: '',
+  mode: 'cash',
+  reference: '',
+  rateLocked: true,
+  ratePerGram: '',
+};
+
+export interface AdvanceCredit {
+  /** Advances kept as money, credited at face value */
+  cashAmount: number;
+  /** Metal weight in grams bought by rate-locked advances */
+  lockedWeight: number;
+  /** What the locked weight is credited at on the final invoice */
+  lockedValue: number;
+  /** What the advances are worth in all */
+  value: number;
+  /** Total to take off the final invoice, never more than it comes to */
+  credit: number;
+  /** Value left over once the invoice is settled, carried forward as an advance */
+  remaining: number;
+}
+
+/**
+ * Metal weight an advance buys at the day's rate
+ * @param amount - Advance amount
+ * @param ratePerGram - Rate per gram of the order's purity
+ * @returns Weight in grams, or 0 when there is no rate
+ */
+export function convertAdvanceToWeight(amount: number, ratePerGram: number): number {
+  return ratePerGram > 0 ? roundTo(amount / ratePerGram, WEIGHT_DECIMALS) : 0;
+}
+
+/**
+ * Value a custom order's advances for the final invoice
+ *
+ * Rate-locked advances are credited as metal: the locked weight at today's
+ * rate, but never less than the booking rate, so the customer is protected
+ * from a rise without losing out on a fall. Other advances count at face value.
+ * The credit stops at the amount payable; whatever is left stays an advance.
+ *
+ * @param advances - Advances received against the order
+ * @param currentRatePerGram - Today's rate for the order's metal and purity, if entered
+ * @param decimals - Decimal places amounts are rounded to
+ * @param payable - Amount due on the final invoice before the advances; no cap when omitted
+ * @returns Breakdown of the credit
+ */
+export function calculateAdvanceCredit(
+  advances: Pick<CustomOrderAdvance, 'amount' | 'rateLocked' | 'ratePerGram' | 'lockedWeight'>[],
+  currentRatePerGram: number | undefined,
+  decimals: number,
+  payable?: number
+): AdvanceCredit {
+  let cashAmount = 0;
+  let lockedWeight = 0;
+  let lockedValue = 0;
+  for (const advance of advances) {
+    if (advance.rateLocked && advance.lockedWeight && advance.ratePerGram) {
+      const rate = Math.max(currentRatePerGram ?? 0, advance.ratePerGram);
+      lockedWeight += advance.lockedWeight;
+      lockedValue += advance.lockedWeight * rate;
+    } else {
+      cashAmount += advance.amount;
+    }
+  }
+  cashAmount = roundTo(cashAmount, decimals);
+  lockedValue = roundTo(lockedValue, decimals);
+  const value = roundTo(cashAmount + lockedValue, decimals);
+  const credit = payable === undefined ? value : Math.min(value, Math.max(roundTo(payable, decimals), 0));
+  return {
+    cashAmount,
+    lockedWeight: roundTo(lockedWeight, WEIGHT_DECIMALS),
+    lockedValue,
+    value,
+    credit,
+    remaining: roundTo(value - credit, decimals),
+  };
+}
+
+/**
+ * Turn the entered advance into the payload for the API
+ * @param input - Advance as entered
+ * @param receivedDate - Date the advance was received
+ * @param todayRate - Today's rate for the order's purity, used when no rate was typed
+ * @returns Advance data, or null when no amount was entered
+ */
+export function toAdvanceData(
+  input: AdvanceInput,
+  receivedDate: string,
+  todayRate: number | undefined
+): CustomOrderAdvanceData | null {
+  const amount = parseFloat(input.amount) || 0;
+  if (amount <= 0) return null;
+  const ratePerGram = input.rateLocked ? parseFloat(input.ratePerGram) || todayRate || 0 : 0;
+  return {
+    receivedDate,
+    amount,
+    mode: input.mode,
+    reference: input.mode !== 'cash' ? input.reference.trim() || null : null,
+    rateLocked: input.rateLocked && ratePerGram > 0,
+    ratePerGram: input.rateLocked && ratePerGram > 0 ? ratePerGram : null,
+    lockedWeight: input.rateLocked && ratePerGram > 0 ? convertAdvanceToWeight(amount, ratePerGram) : null,
+  };
+}
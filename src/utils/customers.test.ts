@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { PAN_REQUIRED_ABOVE, isPanMissingForSale } from './customers';
+
+describe('isPanMissingForSale', () => {
+  it('does not ask for a PAN on a sale of exactly the limit', () => {
+    expect(isPanMissingForSale(PAN_REQUIRED_ABOVE, { panNumber: null })).toBe(false);
+  });
+
+  it('asks for a PAN on a sale above the limit', () => {
+    expect(isPanMissingForSale(PAN_REQUIRED_ABOVE + 0.01, { panNumber: null })).toBe(true);
+    expect(isPanMissingForSale(PAN_REQUIRED_ABOVE + 0.01, null)).toBe(true);
+  });
+
+  it('passes a sale above the limit once the PAN is on file', () => {
+    expect(isPanMissingForSale(PAN_REQUIRED_ABOVE + 0.01, { panNumber: 'ABCDE1234F' })).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import type { Customer } from '../api/customers';
+
+/** Sales above this amount need the buyer's PAN on file (Rule 114B) */
+export const PAN_REQUIRED_ABOVE = 200000;
+
+const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+
+export type OccasionType = 'birthday' | 'anniversary';
+
+export interface UpcomingOccasion {
+  type: OccasionType;
+  /** Next date the occasion falls on */
+  date: Date;
+  /** Whole days from today; 0 when it is today */
+  daysAway: number;
+}
+
+/**
+ * Normalize a PAN for storage: uppercase, spaces removed
+ * @param value - PAN as typed
+ * @returns Normalized PAN
+ */
+export function normalizePan(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase();
+}
+
+/**
+ * Check a PAN has the AAAAA9999A shape
+ * @param value - Normalized PAN
+ * @returns Whether the PAN is well formed
+ */
+export function isValidPan(value: string): boolean {
+  return PAN_PATTERN.test(value);
+}
+
+/**
+ * Whether a sale needs the customer's PAN before it is billed
+ * @param amount - Invoice total
+ * @param customer - Customer on the invoice, if any
+ * @returns True when the amount exceeds the limit and no PAN is on file
+ */
+export function isPanMissingForSale(amount: number, customer: Pick<Customer, 'panNumber'> | null): boolean {
+  return amount > PAN_REQUIRED_ABOVE && !customer?.panNumber;
+}
+
+const nextOccurrence = (isoDate: string, today: Date): Date => {
+  const [, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+  const next = new Date(today.getFullYear(), month - 1, day);
+  if (next < today) {
+    next.setFullYear(today.getFullYear() + 1);
+  }
+  return next;
+};
+
+/**
+ * Birthdays and anniversaries falling within the next few days, soonest first
+ * @param customer - Customer with their dates
+ * @param withinDays - How far ahead to look
+ * @param asOf - Date to measure from (defaults to now)
+ * @returns Upcoming occasions
+ */
+export function getUpcomingOccasions(
+  customer: Pick<Customer, 'dateOfBirth' | 'anniversaryDate'>,
+  withinDays: number,
+  asOf: Date = new Date()
+): UpcomingOccasion[] {
+  const today = new Date(asOf);
+  today.setHours(0, 0, 0, 0);
+  const dates: [OccasionType, string | null][] = [
+    ['birthday', customer.dateOfBirth],
+    ['anniversary', customer.anniversaryDate],
+  ];
+
+  return dates
+    .filter((entry): entry is [OccasionType, string] => !!entry[1])
+    .map(([type, isoDate]) => {
+      const date = nextOccurrence(isoDate, today);
+      return { type, date, daysAway: Math.round((date.getTime() - today.getTime()) / (24 * 60 * 60 * 1000)) };
+    })
+    .filter((occasion) => occasion.daysAway <= withinDays)
+    .sort((a, b) => a.daysAway - b.daysAway);
+}
+
+/**
+ * Short label for an upcoming occasion
+ * @param occasion - Upcoming occasion
+ * @returns Label, e.g. "Birthday in 5d" or "Anniversary today"
+ */
+export function formatOccasion(occasion: UpcomingOccasion): string {
+  const name = occasion.type === 'birthday' ? 'Birthday' : 'Anniversary';
+  return `${name} ${occasion.daysAway === 0 ? 'today' : `in ${occasion.daysAway}d`}`;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { GeneralConfig, TaxConfig } from '../api/config';
+import type { SalesInvoice } from '../api/sales';
+import { buildInvoiceCustomer, buildSalesInvoice, buildSalesInvoiceLine } from '../test/builders';
+import { buildEInvoicePayload } from './eInvoice';
+
+const generalConfig: GeneralConfig = { organizationName: 'Seller Jewellers', address: 'Main Road, Mumbai 400001' };
+const taxConfig: TaxConfig = { taxNumber: '27AAAAA0000A1Z5', stateCode: '27', eInvoiceEnabled: true };
+
+/** B2B invoice of one piece to a buyer in Karnataka */
+const invoice = (overrides: Partial<SalesInvoice>) =>
+  buildSalesInvoice({
+    customer: buildInvoiceCustomer('29BBBBB1111B1Z5', { address: 'MG Road, Bengaluru 560001' }),
+    placeOfSupply: '29',
+    lines: [buildSalesInvoiceLine('item-1', 100000)],
+    igstAmount: 3000,
+    ...overrides,
+  });
+
+describe('buildEInvoicePayload', () => {
+  it('charges IGST when the place of supply is in another state', () => {
+    const payload = buildEInvoicePayload(invoice({}), generalConfig, taxConfig);
+
+    expect(payload.BuyerDtls.Pos).toBe('29');
+    expect(payload.ValDtls).toMatchObject({ AssVal: 100000, IgstVal: 3000, CgstVal: 0, SgstVal: 0 });
+  });
+
+  it('splits CGST and SGST when the place of supply is the home state, whatever the buyer GSTIN', () => {
+    const payload = buildEInvoicePayload(invoice({ placeOfSupply: '27', igstAmount: 0 }), generalConfig, taxConfig);
+
+    expect(payload.BuyerDtls.Pos).toBe('27');
+    expect(payload.ValDtls).toMatchObject({ CgstVal: 1500, SgstVal: 1500, IgstVal: 0 });
+  });
+
+  it('takes the home state from the seller GSTIN when the Tax config has no state code', () => {
+    const payload = buildEInvoicePayload(invoice({ placeOfSupply: '27' }), generalConfig, {
+      ...taxConfig,
+      stateCode: undefined,
+    });
+
+    expect(payload.ValDtls).toMatchObject({ CgstVal: 1500, SgstVal: 1500, IgstVal: 0 });
+  });
+
+  it('reports TCS as other charges in the invoice value', () => {
+    const tcs = { section: '206C(1H)', taxableAmount: 103000, ratePercent: 0.1, amount: 103 };
+    const payload = buildEInvoicePayload(invoice({ tcs }), generalConfig, taxConfig);
+    const { ValDtls } = payload;
+
+    expect(ValDtls).toMatchObject({ OthChrg: 103, RndOffAmt: 0, TotInvVal: 103103 });
+    expect(ValDtls.AssVal + ValDtls.CgstVal + ValDtls.SgstVal + ValDtls.IgstVal + ValDtls.OthChrg).toBe(
+      ValDtls.TotInvVal
+    );
+  });
+});
@@ -0,0 +1,227 @@
+import type { GeneralConfig, TaxConfig } from '../api/config';
+import type { EInvoiceItem, EInvoiceParty, EInvoicePayload } from '../api/eInvoice';
+import type { SalesInvoice } from '../api/sales';
+import { getGstinStateCode, isInterStateSupply, isValidGstin, resolveHomeState, splitGst } from './gst';
+import { roundTo } from './rounding';
+
+/**
+ * E-invoice payload builder and validator
+ *
+ * Pure functions only. Each invoice line becomes one e-invoice item per tax
+ * line, so goods (e.g. HSN 7113 at 3%) and making charges (e.g. SAC 9988 at
+ * 5%) are reported under their own codes and rates. TCS collected on the
+ * invoice is reported as other charges.
+ */
+
+export const EINVOICE_SCHEMA_VERSION = '1.1';
+
+const PINCODE_PATTERN = /\b([1-9][0-9]{5})\b/;
+const DOCUMENT_NUMBER_PATTERN = /^[a-zA-Z1-9][a-zA-Z0-9/-]{0,15}$/;
+const HSN_PATTERN = /^[0-9]{4,8}$/;
+
+/**
+ * Split a free-text address into the lines, locality and PIN code the
+ * e-invoice schema asks for. The locality is the part holding the PIN code,
+ * or the last part when there is none.
+ * @param address - Address as entered, lines or commas separating its parts
+ * @returns Address parts; missing parts are empty
+ */
+export function parseAddress(address: string | null | undefined): {
+  line1: string;
+  line2: string;
+  location: string;
+  pincode: string;
+} {
+  const parts = (address ?? '')
+    .split(/[\n,]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const pinIndex = parts.findIndex((part) => PINCODE_PATTERN.test(part));
+  const pincode = pinIndex >= 0 ? (parts[pinIndex].match(PINCODE_PATTERN)?.[1] ?? '') : '';
+  const localityIndex = pinIndex >= 0 ? pinIndex : parts.length - 1;
+  const locality = (parts[localityIndex] ?? '').replace(PINCODE_PATTERN, '').replace(/[\s-]+$/, '').trim();
+  // A part holding only the PIN code leaves the locality to the part before it
+  const location = locality || (localityIndex > 0 ? parts[localityIndex - 1] : '');
+  const rest = parts.filter((part, index) => index !== localityIndex && part !== location);
+  return {
+    line1: rest[0] ?? location,
+    line2: rest.slice(1).join(', '),
+    location,
+    pincode,
+  };
+}
+
+/** dd/mm/yyyy, the date format of the e-invoice schema */
+const formatDocumentDate = (value: string) => {
+  const date = new Date(value);
+  return [date.getDate(), date.getMonth() + 1]
+    .map((part) => String(part).padStart(2, '0'))
+    .concat(String(date.getFullYear()))
+    .join('/');
+};
+
+const party = (
+  gstin: string,
+  name: string,
+  address: string | null | undefined,
+  contact: { phone?: string | null; email?: string | null }
+): EInvoiceParty => {
+  const parsed = parseAddress(address);
+  const phone = contact.phone?.replace(/\D/g, '') ?? '';
+  return {
+    Gstin: gstin,
+    LglNm: name.trim(),
+    Addr1: parsed.line1,
+    ...(parsed.line2 && { Addr2: parsed.line2 }),
+    Loc: parsed.location,
+    Pin: Number(parsed.pincode) || 0,
+    Stcd: getGstinStateCode(gstin) ?? '',
+    ...(phone && { Ph: phone }),
+    ...(contact.email && { Em: contact.email }),
+  };
+};
+
+/**
+ * Whether an invoice must be e-invoiced: e-invoicing is switched on and the
+ * buyer is GST-registered
+ * @param invoice - Sales invoice
+ * @param taxConfig - Tax config
+ * @returns True for a B2B invoice of an e-invoicing organization
+ */
+export function isEInvoiceApplicable(
+  invoice: Pick<SalesInvoice, 'customer'>,
+  taxConfig: TaxConfig | undefined
+): boolean {
+  return !!taxConfig?.eInvoiceEnabled && !!getGstinStateCode(invoice.customer?.gstin);
+}
+
+/**
+ * Build the e-invoice JSON for a B2B sales invoice
+ * @param invoice - Sales invoice
+ * @param generalConfig - General config, for the seller's name, address and contact
+ * @param taxConfig - Tax config, for the seller's GSTIN
+ * @returns E-invoice payload; run validateEInvoicePayload before submitting it
+ */
+export function buildEInvoicePayload(
+  invoice: SalesInvoice,
+  generalConfig: GeneralConfig | undefined,
+  taxConfig: TaxConfig | undefined
+): EInvoicePayload {
+  const round = (value: number) => roundTo(value, 2);
+  const sellerGstin = taxConfig?.taxNumber?.trim().toUpperCase() ?? '';
+  const buyerGstin = invoice.customer?.gstin?.trim().toUpperCase() ?? '';
+  const placeOfSupply = invoice.placeOfSupply ?? getGstinStateCode(buyerGstin) ?? '';
+  const interState = isInterStateSupply(resolveHomeState(taxConfig, sellerGstin), placeOfSupply);
+
+  const lineItems = invoice.lines.flatMap((line) => {
+    const taxLines = line.taxLines ?? [
+      { code: null, ratePercent: 0, taxableValue: line.taxableValue, taxAmount: line.taxAmount },
+    ];
+    return taxLines.map((taxLine): Omit<EInvoiceItem, 'SlNo'> => {
+      const service = !!taxLine.code?.startsWith('99');
+      const quantity = service ? 1 : line.grossWeight;
+      const split = splitGst(taxLine.taxAmount, interState, 2);
+      return {
+        PrdDesc: service ? `${line.description} - making charges` : `${line.description} (${line.tagNumber})`,
+        IsServc: service ? 'Y' : 'N',
+        HsnCd: taxLine.code ?? '',
+        Qty: quantity,
+        Unit: service ? 'OTH' : 'GMS',
+        UnitPrice: quantity ? roundTo(taxLine.taxableValue / quantity, 3) : 0,
+        TotAmt: round(taxLine.taxableValue),
+        Discount: 0,
+        AssAmt: round(taxLine.taxableValue),
+        GstRt: taxLine.ratePercent,
+        IgstAmt: split.igst,
+        CgstAmt: split.cgst,
+        SgstAmt: split.sgst,
+        TotItemVal: round(taxLine.taxableValue + taxLine.taxAmount),
+      };
+    });
+  });
+  const items: EInvoiceItem[] = lineItems.map((item, index) => ({ SlNo: String(index + 1), ...item }));
+
+  const sum = (pick: (item: EInvoiceItem) => number) => round(items.reduce((total, item) => total + pick(item), 0));
+  const assessable = sum((item) => item.AssAmt);
+  const cgst = sum((item) => item.CgstAmt);
+  const sgst = sum((item) => item.SgstAmt);
+  const igst = sum((item) => item.IgstAmt);
+  const otherCharges = invoice.tcs?.amount ?? 0;
+
+  return {
+    Version: EINVOICE_SCHEMA_VERSION,
+    TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N', IgstOnIntra: 'N' },
+    DocDtls: { Typ: 'INV', No: invoice.invoiceNumber, Dt: formatDocumentDate(invoice.invoiceDate) },
+    SellerDtls: party(sellerGstin, generalConfig?.organizationName ?? '', generalConfig?.address, {
+      phone: generalConfig?.phone,
+      email: generalConfig?.supportEmail,
+    }),
+    BuyerDtls: {
+      ...party(buyerGstin, invoice.customer?.name ?? '', invoice.customer?.address, {
+        phone: invoice.customer?.phone,
+      }),
+      Pos: placeOfSupply,
+    },
+    ItemList: items,
+    ValDtls: {
+      AssVal: assessable,
+      CgstVal: cgst,
+      SgstVal: sgst,
+      IgstVal: igst,
+      OthChrg: otherCharges,
+      RndOffAmt: round(invoice.total - (assessable + cgst + sgst + igst)),
+      TotInvVal: round(invoice.total + otherCharges),
+    },
+  };
+}
+
+const partyIssues = (label: string, details: EInvoiceParty): string[] => {
+  const issues: string[] = [];
+  if (!isValidGstin(details.Gstin)) issues.push(`${label} GSTIN is missing or malformed`);
+  if (details.LglNm.length < 3 || details.LglNm.length > 100) {
+    issues.push(`${label} legal name must be 3-100 characters`);
+  }
+  if (details.Addr1.length < 1 || details.Addr1.length > 100) {
+    issues.push(`${label} address line 1 must be 1-100 characters`);
+  }
+  if (details.Loc.length < 3 || details.Loc.length > 50) {
+    issues.push(`${label} address needs a locality (3-50 characters)`);
+  }
+  if (details.Pin < 100000 || details.Pin > 999999) issues.push(`${label} address needs a 6-digit PIN code`);
+  if (!details.Stcd) issues.push(`${label} state code is missing`);
+  return issues;
+};
+
+/**
+ * Check a payload for the mandatory fields and value rules the IRP enforces,
+ * so problems surface before submission
+ * @param payload - E-invoice payload
+ * @returns Problems to fix; empty when the payload can be submitted
+ */
+export function validateEInvoicePayload(payload: EInvoicePayload): string[] {
+  const issues = [...partyIssues('Seller', payload.SellerDtls), ...partyIssues('Buyer', payload.BuyerDtls)];
+  if (payload.SellerDtls.Gstin && payload.SellerDtls.Gstin === payload.BuyerDtls.Gstin) {
+    issues.push('Seller and buyer GSTIN cannot be the same');
+  }
+  if (!payload.BuyerDtls.Pos) issues.push('Place of supply is missing');
+  if (!DOCUMENT_NUMBER_PATTERN.test(payload.DocDtls.No)) {
+    issues.push('Invoice number must be 1-16 letters, digits, / or -, not starting with 0, / or -');
+  }
+  if (payload.ItemList.length === 0) issues.push('Invoice has no items');
+
+  payload.ItemList.forEach((item) => {
+    const label = `Item ${item.SlNo} (${item.PrdDesc})`;
+    if (!HSN_PATTERN.test(item.HsnCd)) issues.push(`${label} needs a 4-8 digit HSN/SAC code`);
+    if (item.IsServc === 'N' && item.Qty <= 0) issues.push(`${label} needs a quantity`);
+    const tax = item.IgstAmt + item.CgstAmt + item.SgstAmt;
+    if (Math.abs(item.AssAmt + tax - item.TotItemVal) > 1) {
+      issues.push(`${label} total does not match its value and tax`);
+    }
+  });
+
+  const { ValDtls } = payload;
+  if (Math.abs(ValDtls.RndOffAmt) > 10) {
+    issues.push('Invoice total differs from its items by more than the ±10 round-off the IRP allows');
+  }
+  return issues;
+}
@@ -0,0 +1,34 @@
+/**
+ * Quote a CSV cell when it contains a delimiter, quote or line break
+ * @param value - Cell value
+ * @returns Escaped cell
+ */
+function csvCell(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from a header row and data rows
+ * @param headers - Column headings
+ * @param rows - Data rows, one array of cells per row
+ * @returns CSV text with CRLF line endings, as spreadsheets expect
+ */
+export function toCsv(headers: string[], rows: (string | number | null | undefined)[][]): string {
+  return [headers, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Save text content as a file through a temporary download link
+ * @param content - File content
+ * @param filename - Suggested file name
+ * @param mimeType - Content type, e.g. text/csv
+ */
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,88 @@
+/**
+ * Format a money amount in Indian digit grouping with the rupee symbol
+ * @param value - Amount to format
+ * @param decimals - Decimal places (defaults to 2)
+ * @returns Formatted amount, e.g. ₹1,23,456.00
+ */
+export function formatAmount(value: number, decimals = 2): string {
+  return `₹${value.toLocaleString('en-IN', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  })}`;
+}
+
+/**
+ * Format a weight in grams to three decimals, the usual jewellery precision
+ * @param grams - Weight in grams
+ * @returns Formatted weight, e.g. 10.250 g
+ */
+export function formatWeight(grams: number): string {
+  return `${grams.toFixed(3)} g`;
+}
+
+const ONES = [
+  '',
+  'One',
+  'Two',
+  'Three',
+  'Four',
+  'Five',
+  'Six',
+  'Seven',
+  'Eight',
+  'Nine',
+  'Ten',
+  'Eleven',
+  'Twelve',
+  'Thirteen',
+  'Fourteen',
+  'Fifteen',
+  'Sixteen',
+  'Seventeen',
+  'Eighteen',
+  'Nineteen',
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+function belowHundredInWords(value: number): string {
+  if (value < 20) return ONES[value];
+  return [TENS[Math.floor(value / 10)], ONES[value % 10]].filter(Boolean).join(' ');
+}
+
+function belowThousandInWords(value: number): string {
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+  return [hundreds ? `${ONES[hundreds]} Hundred` : '', rest ? belowHundredInWords(rest) : '']
+    .filter(Boolean)
+    .join(' ');
+}
+
+function rupeesInWords(value: number): string {
+  const crores = Math.floor(value / 10000000);
+  const lakhs = Math.floor((value % 10000000) / 100000);
+  const thousands = Math.floor((value % 100000) / 1000);
+  const rest = value % 1000;
+
+  return [
+    crores ? `${rupeesInWords(crores)} Crore` : '',
+    lakhs ? `${belowHundredInWords(lakhs)} Lakh` : '',
+    thousands ? `${belowHundredInWords(thousands)} Thousand` : '',
+    rest ? belowThousandInWords(rest) : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/**
+ * Spell out a rupee amount using the Indian crore/lakh grouping, as printed on tax invoices
+ * @param value - Amount in rupees
+ * @returns Amount in words, e.g. Rupees One Lakh Twenty Thousand and Fifty Paise Only
+ */
+export function amountInWords(value: number): string {
+  // Round the whole amount to paise first, so 99.999 reads as 100 rupees rather than 99 and 100 paise
+  const totalPaise = Math.round((Math.abs(value) + Number.EPSILON) * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+  const paiseWords = paise ? ` and ${belowHundredInWords(paise)} Paise` : '';
+  return `Rupees ${rupeesInWords(rupees) || 'Zero'}${paiseWords} Only`;
+}
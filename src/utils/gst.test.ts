@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { buildTaxLines, calculateTax, resolveHomeState, splitGst, summarizeGst } from './gst';
+
+describe('calculateTax', () => {
+  it('adds tax on top in exclusive mode', () => {
+    expect(calculateTax(10000, 3, false, 2)).toEqual({ taxableValue: 10000, taxAmount: 300 });
+  });
+
+  it('carves the tax out of the amount in inclusive mode', () => {
+    expect(calculateTax(10300, 3, true, 2)).toEqual({ taxableValue: 10000, taxAmount: 300 });
+  });
+
+  it('leaves the rounding difference in the tax so an inclusive amount still adds up', () => {
+    const tax = calculateTax(1000, 3, true, 2);
+
+    expect(tax).toEqual({ taxableValue: 970.87, taxAmount: 29.13 });
+    expect(tax.taxableValue + tax.taxAmount).toBe(1000);
+  });
+
+  it('rounds half away from zero', () => {
+    expect(calculateTax(1234.5, 5, false, 2)).toEqual({ taxableValue: 1234.5, taxAmount: 61.73 });
+    expect(calculateTax(-1234.5, 5, false, 2)).toEqual({ taxableValue: -1234.5, taxAmount: -61.73 });
+  });
+});
+
+describe('buildTaxLines', () => {
+  it('adds up components sharing a code and rate before taxing them', () => {
+    const lines = buildTaxLines(
+      [
+        { code: '7113', ratePercent: 3, amount: 1000.25 },
+        { code: '7113', ratePercent: 3, amount: 500.25 },
+        { code: '9988', ratePercent: 5, amount: 200 },
+      ],
+      false,
+      2
+    );
+
+    expect(lines).toEqual([
+      { code: '7113', ratePercent: 3, taxableValue: 1500.5, taxAmount: 45.02 },
+      { code: '9988', ratePercent: 5, taxableValue: 200, taxAmount: 10 },
+    ]);
+  });
+
+  it('keeps the same code at different rates apart', () => {
+    const lines = buildTaxLines(
+      [
+        { code: '7113', ratePercent: 3, amount: 1000 },
+        { code: '7113', ratePercent: 5, amount: 1000 },
+      ],
+      false,
+      2
+    );
+
+    expect(lines.map((line) => line.taxAmount)).toEqual([30, 50]);
+  });
+
+  it('skips codes with nothing to tax', () => {
+    const lines = buildTaxLines(
+      [
+        { code: '7113', ratePercent: 3, amount: 1000 },
+        { code: '9988', ratePercent: 5, amount: 0 },
+      ],
+      false,
+      2
+    );
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].code).toBe('7113');
+  });
+
+  it('taxes inclusive amounts per code', () => {
+    const lines = buildTaxLines(
+      [
+        { code: '7113', ratePercent: 3, amount: 1030 },
+        { code: '9988', ratePercent: 5, amount: 105 },
+      ],
+      true,
+      2
+    );
+
+    expect(lines).toEqual([
+      { code: '7113', ratePercent: 3, taxableValue: 1000, taxAmount: 30 },
+      { code: '9988', ratePercent: 5, taxableValue: 100, taxAmount: 5 },
+    ]);
+  });
+});
+
+describe('splitGst', () => {
+  it('splits tax within a state into CGST and SGST halves', () => {
+    expect(splitGst(300, false, 2)).toEqual({ cgst: 150, sgst: 150, igst: 0 });
+  });
+
+  it('rounds CGST half up and gives SGST the remainder when the tax does not halve evenly', () => {
+    expect(splitGst(45.55, false, 2)).toEqual({ cgst: 22.78, sgst: 22.77, igst: 0 });
+    expect(splitGst(0.05, false, 2)).toEqual({ cgst: 0.03, sgst: 0.02, igst: 0 });
+  });
+
+  it('keeps CGST + SGST equal to the tax', () => {
+    [0.01, 0.99, 45.55, 1234.57].forEach((taxAmount) => {
+      const split = splitGst(taxAmount, false, 2);
+      expect(split.cgst + split.sgst).toBeCloseTo(taxAmount, 10);
+    });
+  });
+
+  it('charges the whole tax as IGST across states', () => {
+    expect(splitGst(45.55, true, 2)).toEqual({ cgst: 0, sgst: 0, igst: 45.55 });
+  });
+
+  it('rounds to the configured precision', () => {
+    expect(splitGst(45.5, false, 0)).toEqual({ cgst: 23, sgst: 23, igst: 0 });
+    expect(splitGst(45.5, true, 0)).toEqual({ cgst: 0, sgst: 0, igst: 46 });
+  });
+});
+
+describe('summarizeGst', () => {
+  const lines = [
+    {
+      taxableValue: 1001.5,
+      taxAmount: 30.05,
+      taxLines: [{ code: '7113', ratePercent: 3, taxableValue: 1001.5, taxAmount: 30.05 }],
+    },
+    {
+      taxableValue: 700,
+      taxAmount: 25,
+      taxLines: [
+        { code: '7113', ratePercent: 3, taxableValue: 500, taxAmount: 15 },
+        { code: '9988', ratePercent: 5, taxableValue: 200, taxAmount: 10 },
+      ],
+    },
+  ];
+
+  it('adds tax up by code and rate and splits each row within a state', () => {
+    const summary = summarizeGst(lines, false, 2);
+
+    expect(summary.rows).toEqual([
+      { code: '7113', ratePercent: 3, taxableValue: 1501.5, taxAmount: 45.05, cgst: 22.53, sgst: 22.52, igst: 0 },
+      { code: '9988', ratePercent: 5, taxableValue: 200, taxAmount: 10, cgst: 5, sgst: 5, igst: 0 },
+    ]);
+    expect(summary).toMatchObject({ taxableValue: 1701.5, taxAmount: 55.05, cgst: 27.53, sgst: 27.52, igst: 0 });
+  });
+
+  it('charges every row as IGST across states', () => {
+    const summary = summarizeGst(lines, true, 2);
+
+    expect(summary.rows.map((row) => row.igst)).toEqual([45.05, 10]);
+    expect(summary).toMatchObject({ taxAmount: 55.05, cgst: 0, sgst: 0, igst: 55.05 });
+  });
+
+  it('treats lines saved before the rate table as one line at their effective rate', () => {
+    const summary = summarizeGst([{ taxableValue: 1000, taxAmount: 30 }], false, 2);
+
+    expect(summary.rows).toEqual([
+      { code: null, ratePercent: 3, taxableValue: 1000, taxAmount: 30, cgst: 15, sgst: 15, igst: 0 },
+    ]);
+  });
+});
+
+describe('resolveHomeState', () => {
+  it('uses the state code of the Tax config', () => {
+    expect(resolveHomeState({ stateCode: '27' }, '29BBBBB1111B1Z5')).toBe('27');
+  });
+
+  it("falls back to the organization's GSTIN", () => {
+    expect(resolveHomeState({ stateCode: '' }, '29BBBBB1111B1Z5')).toBe('29');
+    expect(resolveHomeState(undefined, '29BBBBB1111B1Z5')).toBe('29');
+  });
+
+  it('is null when neither is set', () => {
+    expect(resolveHomeState({}, null)).toBeNull();
+  });
+});
@@ -0,0 +1,327 @@
+import type { TaxConfig, TaxRate } from '../api/config';
+import type { GstTaxLine } from '../api/sales';
+import { roundTo } from './rounding';
+
+/**
+ * GST engine
+ *
+ * Pure functions only. Lines are taxed per HSN/SAC code when they are priced;
+ * whether that tax is charged as CGST + SGST or as IGST depends on the place
+ * of supply and is only decided when the invoice is totalled, so changing the
+ * place of supply never reprices a line.
+ *
+ * Rounding rules:
+ * - Taxable value and tax are rounded per code on each line, half away from zero.
+ * - In inclusive mode the taxable value is carved out of the amount and the tax
+ *   is the remainder, so the line still adds up to the price on the tag.
+ * - Within a state, CGST is half the tax rounded and SGST takes the remainder,
+ *   so CGST + SGST always equals the IGST the same supply would carry.
+ */
+
+export const GST_STATES: { code: string; name: string }[] = [
+  { code: '01', name: 'Jammu and Kashmir' },
+  { code: '02', name: 'Himachal Pradesh' },
+  { code: '03', name: 'Punjab' },
+  { code: '04', name: 'Chandigarh' },
+  { code: '05', name: 'Uttarakhand' },
+  { code: '06', name: 'Haryana' },
+  { code: '07', name: 'Delhi' },
+  { code: '08', name: 'Rajasthan' },
+  { code: '09', name: 'Uttar Pradesh' },
+  { code: '10', name: 'Bihar' },
+  { code: '11', name: 'Sikkim' },
+  { code: '12', name: 'Arunachal Pradesh' },
+  { code: '13', name: 'Nagaland' },
+  { code: '14', name: 'Manipur' },
+  { code: '15', name: 'Mizoram' },
+  { code: '16', name: 'Tripura' },
+  { code: '17', name: 'Meghalaya' },
+  { code: '18', name: 'Assam' },
+  { code: '19', name: 'West Bengal' },
+  { code: '20', name: 'Jharkhand' },
+  { code: '21', name: 'Odisha' },
+  { code: '22', name: 'Chhattisgarh' },
+  { code: '23', name: 'Madhya Pradesh' },
+  { code: '24', name: 'Gujarat' },
+  { code: '26', name: 'Dadra and Nagar Haveli and Daman and Diu' },
+  { code: '27', name: 'Maharashtra' },
+  { code: '29', name: 'Karnataka' },
+  { code: '30', name: 'Goa' },
+  { code: '31', name: 'Lakshadweep' },
+  { code: '32', name: 'Kerala' },
+  { code: '33', name: 'Tamil Nadu' },
+  { code: '34', name: 'Puducherry' },
+  { code: '35', name: 'Andaman and Nicobar Islands' },
+  { code: '36', name: 'Telangana' },
+  { code: '37', name: 'Andhra Pradesh' },
+  { code: '38', name: 'Ladakh' },
+  { code: '97', name: 'Other Territory' },
+];
+
+/** Rate table offered when the organization has not set one up */
+export const DEFAULT_GST_RATES: TaxRate[] = [
+  { code: '7113', description: 'Articles of jewellery of precious metal', ratePercent: 3 },
+  { code: '7108', description: 'Gold bullion', ratePercent: 3 },
+  { code: '7106', description: 'Silver bullion', ratePercent: 3 },
+  { code: '9988', description: 'Job work on jewellery (making charges)', ratePercent: 5 },
+];
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+/** One part of a line's value, taxed at the rate of its code */
+export interface GstComponent {
+  code: string | null;
+  ratePercent: number;
+  amount: number;
+}
+
+export interface GstSplit {
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+/** Tax on all lines at one code and rate, as printed in the HSN summary */
+export interface GstSummaryRow extends GstTaxLine, GstSplit {}
+
+export interface GstSummary {
+  rows: GstSummaryRow[];
+  taxableValue: number;
+  taxAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+/**
+ * Check a GSTIN has the 15-character 22AAAAA0000A1Z5 shape
+ * @param gstin - GSTIN, uppercase
+ * @returns Whether the GSTIN is well formed
+ */
+export function isValidGstin(gstin: string): boolean {
+  return GSTIN_PATTERN.test(gstin);
+}
+
+/**
+ * State a GSTIN is registered in
+ * @param gstin - GSTIN, if any
+ * @returns Two-digit state code, or null for a missing or malformed GSTIN
+ */
+export function getGstinStateCode(gstin: string | null | undefined): string | null {
+  const normalized = gstin?.trim().toUpperCase() ?? '';
+  return isValidGstin(normalized) ? normalized.slice(0, 2) : null;
+}
+
+/**
+ * Display name for a GST state code
+ * @param code - Two-digit state code
+ * @returns "29 - Karnataka", or the code itself when unknown
+ */
+export function formatGstState(code: string | null | undefined): string {
+  if (!code) return '-';
+  const state = GST_STATES.find((entry) => entry.code === code);
+  return state ? `${state.code} - ${state.name}` : code;
+}
+
+/**
+ * State the organization supplies from: the state code in the Tax config, or
+ * the state of its GSTIN when none is set. Billing, returns and e-invoices all
+ * decide intra- or inter-state supply against this.
+ * @param taxConfig - Tax config, or anything carrying its state code
+ * @param gstin - Organization GSTIN
+ * @returns Two-digit state code, or null when neither is set
+ */
+export function resolveHomeState(
+  taxConfig: { stateCode?: string | null } | null | undefined,
+  gstin: string | null | undefined
+): string | null {
+  return taxConfig?.stateCode || getGstinStateCode(gstin);
+}
+
+/**
+ * Default place of supply for a sale: the buyer's GSTIN state for a
+ * registered buyer, otherwise the state the sale is made in
+ * @param organizationState - State code the organization is registered in
+ * @param customerGstin - Buyer's GSTIN, if any
+ * @returns Place of supply state code, or null when neither is known
+ */
+export function resolvePlaceOfSupply(
+  organizationState: string | null | undefined,
+  customerGstin: string | null | undefined
+): string | null {
+  return getGstinStateCode(customerGstin) ?? organizationState ?? null;
+}
+
+/**
+ * Whether a supply crosses state lines and so carries IGST
+ * @param organizationState - State code the organization is registered in
+ * @param placeOfSupply - Place of supply state code
+ * @returns True when both are known and differ
+ */
+export function isInterStateSupply(
+  organizationState: string | null | undefined,
+  placeOfSupply: string | null | undefined
+): boolean {
+  return !!organizationState && !!placeOfSupply && organizationState !== placeOfSupply;
+}
+
+/**
+ * Look up a code in the rate table
+ * @param rates - Rate table
+ * @param code - HSN or SAC code
+ * @returns Rate table row, or undefined when the code is not in the table
+ */
+export function findTaxRate(rates: TaxRate[], code: string | null | undefined): TaxRate | undefined {
+  return code ? rates.find((rate) => rate.code === code) : undefined;
+}
+
+/**
+ * Goods and making-charge rates for pricing, from the Tax config. Without a
+ * rate table the legacy single defaultTaxPercent applies to everything.
+ * @param taxConfig - Tax config
+ * @returns Codes and rates for goods and making charges; all zero when tax is disabled
+ */
+export function resolveGstRates(taxConfig: TaxConfig | undefined): {
+  goodsTaxCode: string | null;
+  taxPercent: number;
+  makingTaxCode: string | null;
+  makingTaxPercent: number;
+} {
+  if (!taxConfig?.taxEnabled) {
+    return { goodsTaxCode: null, taxPercent: 0, makingTaxCode: null, makingTaxPercent: 0 };
+  }
+  const rates = taxConfig.rates ?? [];
+  const goods = findTaxRate(rates, taxConfig.goodsTaxCode);
+  const making = findTaxRate(rates, taxConfig.makingTaxCode) ?? goods;
+  const fallback = Number(taxConfig.defaultTaxPercent) || 0;
+  return {
+    goodsTaxCode: goods?.code ?? null,
+    taxPercent: goods ? goods.ratePercent : fallback,
+    makingTaxCode: making?.code ?? null,
+    makingTaxPercent: making ? making.ratePercent : fallback,
+  };
+}
+
+/**
+ * Tax one amount at one rate
+ * @param amount - Amount, tax-inclusive when inclusive is set
+ * @param ratePercent - GST rate
+ * @param inclusive - Whether the amount already includes tax
+ * @param decimals - Decimal places to round to
+ * @returns Rounded taxable value and tax
+ */
+export function calculateTax(
+  amount: number,
+  ratePercent: number,
+  inclusive: boolean,
+  decimals: number
+): { taxableValue: number; taxAmount: number } {
+  if (inclusive) {
+    const taxableValue = roundTo(amount / (1 + ratePercent / 100), decimals);
+    return { taxableValue, taxAmount: roundTo(amount - taxableValue, decimals) };
+  }
+  const taxableValue = roundTo(amount, decimals);
+  return { taxableValue, taxAmount: roundTo((amount * ratePercent) / 100, decimals) };
+}
+
+/**
+ * Tax a line's components, one tax line per code and rate. Components sharing
+ * a code and rate are added together before tax is worked out.
+ * @param components - Parts of the line value with their code and rate
+ * @param inclusive - Whether the amounts already include tax
+ * @param decimals - Decimal places to round to
+ * @returns Tax lines, skipping codes with nothing to tax
+ */
+export function buildTaxLines(components: GstComponent[], inclusive: boolean, decimals: number): GstTaxLine[] {
+  const grouped = new Map<string, GstComponent>();
+  components.forEach((component) => {
+    const key = `${component.code ?? ''}@${component.ratePercent}`;
+    const existing = grouped.get(key);
+    grouped.set(key, existing ? { ...existing, amount: existing.amount + component.amount } : { ...component });
+  });
+
+  return Array.from(grouped.values())
+    .filter((component) => component.amount !== 0)
+    .map((component) => ({
+      code: component.code,
+      ratePercent: component.ratePercent,
+      ...calculateTax(component.amount, component.ratePercent, inclusive, decimals),
+    }));
+}
+
+/**
+ * Split tax into central, state and integrated GST
+ * @param taxAmount - Total tax
+ * @param interState - Whether the supply crosses state lines
+ * @param decimals - Decimal places to round to
+ * @returns CGST and SGST within a state, IGST across states
+ */
+export function splitGst(taxAmount: number, interState: boolean, decimals: number): GstSplit {
+  if (interState) {
+    return { cgst: 0, sgst: 0, igst: roundTo(taxAmount, decimals) };
+  }
+  const cgst = roundTo(taxAmount / 2, decimals);
+  return { cgst, sgst: roundTo(taxAmount - cgst, decimals), igst: 0 };
+}
+
+/**
+ * Tax lines of an invoice line, treating lines saved before the rate table as
+ * a single line at their effective rate
+ */
+const lineTaxLines = (line: { taxLines?: GstTaxLine[]; taxableValue: number; taxAmount: number }): GstTaxLine[] =>
+  line.taxLines ??
+  (line.taxAmount !== 0
+    ? [
+        {
+          code: null,
+          ratePercent: line.taxableValue ? roundTo((line.taxAmount / line.taxableValue) * 100, 2) : 0,
+          taxableValue: line.taxableValue,
+          taxAmount: line.taxAmount,
+        },
+      ]
+    : []);
+
+/**
+ * Add up an invoice's tax by code and rate and split it for the place of supply
+ * @param lines - Invoice lines
+ * @param interState - Whether the supply crosses state lines
+ * @param decimals - Decimal places to round to
+ * @returns HSN summary rows and totals
+ */
+export function summarizeGst(
+  lines: { taxLines?: GstTaxLine[]; taxableValue: number; taxAmount: number }[],
+  interState: boolean,
+  decimals: number
+): GstSummary {
+  const grouped = new Map<string, GstTaxLine>();
+  lines.flatMap(lineTaxLines).forEach((taxLine) => {
+    const key = `${taxLine.code ?? ''}@${taxLine.ratePercent}`;
+    const existing = grouped.get(key);
+    grouped.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            taxableValue: roundTo(existing.taxableValue + taxLine.taxableValue, decimals),
+            taxAmount: roundTo(existing.taxAmount + taxLine.taxAmount, decimals),
+          }
+        : { ...taxLine }
+    );
+  });
+
+  const rows = Array.from(grouped.values()).map((row) => ({
+    ...row,
+    ...splitGst(row.taxAmount, interState, decimals),
+  }));
+  const sum = (pick: (row: GstSummaryRow) => number) =>
+    roundTo(rows.reduce((total, row) => total + pick(row), 0), decimals);
+
+  return {
+    rows,
+    taxableValue: sum((row) => row.taxableValue),
+    taxAmount: sum((row) => row.taxAmount),
+    cgst: sum((row) => row.cgst),
+    sgst: sum((row) => row.sgst),
+    igst: sum((row) => row.igst),
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildInvoiceCustomer,
+  buildPurchaseBill,
+  buildSalesCreditNote,
+  buildSalesInvoice,
+  buildSalesInvoiceLine,
+  buildSupplier,
+} from '../test/builders';
+import { buildGstr1, buildGstr3b, type GstReturnOptions } from './gstReturns';
+
+const options: GstReturnOptions = { gstin: '27AAAAA0000A1Z5', stateCode: '27', rates: [], decimals: 2 };
+const period = { month: 4, year: 2026 };
+
+/** Invoice of one piece, to a registered buyer when a GSTIN is given */
+const invoice = (id: string, gstin: string | null, placeOfSupply: string | null, taxableValue: number) =>
+  buildSalesInvoice({
+    id,
+    invoiceNumber: id,
+    customer: buildInvoiceCustomer(gstin),
+    placeOfSupply,
+    lines: [buildSalesInvoiceLine(`${id}-1`, taxableValue)],
+  });
+
+describe('buildGstr1', () => {
+  it('reports credit notes to registered buyers in CDNR', () => {
+    const sale = invoice('INV-1', '29BBBBB1111B1Z5', '29', 10000);
+    const report = buildGstr1([sale], [buildSalesCreditNote(sale)], period, options);
+
+    expect(report.cdnr).toHaveLength(1);
+    expect(report.cdnr[0]).toMatchObject({
+      gstin: '29BBBBB1111B1Z5',
+      interState: true,
+      taxableValue: 10000,
+      igst: 300,
+    });
+    expect(report.cdnur).toHaveLength(0);
+  });
+
+  it('reports credit notes against large inter-state B2C invoices in CDNUR', () => {
+    const sale = invoice('INV-2', null, '29', 200000);
+    const report = buildGstr1([sale], [buildSalesCreditNote(sale)], period, options);
+
+    expect(report.b2cl).toHaveLength(1);
+    expect(report.cdnur).toHaveLength(1);
+    expect(report.cdnur[0]).toMatchObject({ invoiceNumber: 'INV-2', placeOfSupply: '29', igst: 6000 });
+  });
+
+  it('takes other B2C credit notes off the B2CS rows and nets the totals', () => {
+    const sales = [invoice('INV-3', null, '27', 10000), invoice('INV-4', null, '27', 5000)];
+    const report = buildGstr1(sales, [buildSalesCreditNote(sales[1])], period, options);
+
+    expect(report.cdnr).toHaveLength(0);
+    expect(report.cdnur).toHaveLength(0);
+    expect(report.b2cs).toEqual([
+      { placeOfSupply: '27', interState: false, ratePercent: 3, taxableValue: 10000, cgst: 150, sgst: 150, igst: 0 },
+    ]);
+    expect(report.totals).toMatchObject({ invoiceCount: 2, creditNoteCount: 1, taxableValue: 10000, value: 10300 });
+    expect(report.hsnB2c[0]).toMatchObject({ code: '7113', quantity: 10, taxableValue: 10000 });
+  });
+
+  it('decides inter-state supply from the place of supply', () => {
+    const report = buildGstr1([invoice('INV-5', null, '29', 10000)], [], period, options);
+
+    expect(report.b2cs[0]).toMatchObject({ placeOfSupply: '29', interState: true, igst: 300, cgst: 0 });
+  });
+
+  it("falls back to the buyer's state when the place of supply was not recorded", () => {
+    const report = buildGstr1([invoice('INV-6', '27CCCCC2222C1Z5', null, 10000)], [], period, options);
+
+    expect(report.b2b[0]).toMatchObject({ placeOfSupply: '27', interState: false, cgst: 150, sgst: 150 });
+  });
+});
+
+describe('buildGstr3b', () => {
+  const bills = [
+    buildPurchaseBill(buildSupplier('27CCCCC2222C1Z5'), 10000, 300),
+    buildPurchaseBill(buildSupplier('29BBBBB1111B1Z5'), 10000, 300),
+  ];
+
+  it('splits credit on bills from the home state and takes the rest as IGST', () => {
+    const summary = buildGstr3b(buildGstr1([], [], period, options), bills, options);
+
+    expect(summary.itc).toEqual({ cgst: 150, sgst: 150, igst: 300 });
+  });
+
+  it('takes the home state from the GSTIN when the Tax config has no state code', () => {
+    const withoutState = { ...options, stateCode: undefined };
+    const summary = buildGstr3b(buildGstr1([], [], period, withoutState), bills, withoutState);
+
+    expect(summary.itc).toEqual({ cgst: 150, sgst: 150, igst: 300 });
+  });
+});
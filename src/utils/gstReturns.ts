@@ -0,0 +1,648 @@
+import type { TaxRate } from '../api/config';
+import type { PurchaseBill } from '../api/purchases';
+import type { SalesCreditNote, SalesInvoice, SalesInvoiceLine } from '../api/sales';
+import {
+  getGstinStateCode,
+  isInterStateSupply,
+  resolveHomeState,
+  resolvePlaceOfSupply,
+  splitGst,
+  summarizeGst,
+  type GstSplit,
+  type GstSummaryRow,
+} from './gst';
+import { roundTo } from './rounding';
+
+/**
+ * GST return builders
+ *
+ * Aggregate a month's sales invoices and credit notes into GSTR-1 sections
+ * and a GSTR-3B summary, and shape both as the JSON the GST offline utility
+ * imports. Tax per document comes from summarizeGst, so the return matches
+ * the CGST/SGST/IGST printed on each invoice. Whether a supply is inter-state
+ * follows its place of supply against the organization's state.
+ */
+
+/** Inter-state invoices to unregistered buyers above this value are reported invoice-wise in B2CL */
+export const B2CL_INVOICE_LIMIT = 100000;
+
+/** Offline utility schema version the GSTR-1 file is written against */
+export const GSTR1_JSON_VERSION = 'GST3.2.1';
+
+export interface GstReturnPeriod {
+  /** 1-12 */
+  month: number;
+  year: number;
+}
+
+/** Tax heads of a return row */
+export interface GstAmounts extends GstSplit {
+  taxableValue: number;
+}
+
+/** One rate on a GSTR-1 invoice */
+export interface Gstr1InvoiceItem extends GstAmounts {
+  ratePercent: number;
+}
+
+export interface Gstr1Invoice extends GstAmounts {
+  invoiceId: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  customerName: string;
+  /** Buyer's GSTIN, null for unregistered buyers */
+  gstin: string | null;
+  placeOfSupply: string;
+  interState: boolean;
+  /** Invoice value including tax */
+  value: number;
+  items: Gstr1InvoiceItem[];
+}
+
+/** Credit note reported in CDNR (registered buyers) or CDNUR (large inter-state B2C invoices) */
+export interface Gstr1CreditNote extends GstAmounts {
+  creditNoteId: string;
+  creditNoteNumber: string;
+  creditNoteDate: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  customerName: string;
+  /** Buyer's GSTIN, null for unregistered buyers */
+  gstin: string | null;
+  placeOfSupply: string;
+  interState: boolean;
+  /** Credit note value including tax */
+  value: number;
+  items: Gstr1InvoiceItem[];
+}
+
+/** B2CS rows are consolidated per place of supply and rate, net of credit notes */
+export interface Gstr1B2csRow extends GstAmounts {
+  placeOfSupply: string;
+  interState: boolean;
+  ratePercent: number;
+}
+
+export interface Gstr1HsnRow extends GstAmounts {
+  code: string;
+  description: string;
+  /** Unit quantity code: GMS for goods sold by weight, NA for services */
+  uqc: 'GMS' | 'NA';
+  quantity: number;
+  ratePercent: number;
+  /** Value including tax */
+  value: number;
+}
+
+export interface Gstr1Report {
+  gstin: string;
+  period: GstReturnPeriod;
+  b2b: Gstr1Invoice[];
+  b2cl: Gstr1Invoice[];
+  b2cs: Gstr1B2csRow[];
+  cdnr: Gstr1CreditNote[];
+  cdnur: Gstr1CreditNote[];
+  /** HSN summary of supplies to registered buyers, net of credit notes */
+  hsnB2b: Gstr1HsnRow[];
+  /** HSN summary of supplies to unregistered buyers, net of credit notes */
+  hsnB2c: Gstr1HsnRow[];
+  /** Invoices less credit notes */
+  totals: GstAmounts & { invoiceCount: number; creditNoteCount: number; value: number };
+}
+
+export interface Gstr3bSummary {
+  gstin: string;
+  period: GstReturnPeriod;
+  /** 3.1(a) Outward taxable supplies */
+  outward: GstAmounts;
+  /** 3.2 Inter-state supplies to unregistered persons, per place of supply */
+  interStateUnregistered: { placeOfSupply: string; taxableValue: number; igst: number }[];
+  /** 4(A)(5) ITC on purchase bills from registered suppliers */
+  itc: GstSplit;
+  /** Tax left to pay in cash after setting ITC off against output tax */
+  cashPayable: GstSplit;
+  /** ITC left over after set-off, carried to the next period */
+  itcCarriedForward: GstSplit;
+}
+
+export interface GstReturnOptions {
+  /** Organization GSTIN, the taxNumber of the Tax config */
+  gstin: string;
+  /** State code the organization is registered in */
+  stateCode: string | null | undefined;
+  /** Rate table, for HSN descriptions */
+  rates: TaxRate[];
+  decimals: number;
+}
+
+const emptyAmounts = (): GstAmounts => ({ taxableValue: 0, cgst: 0, sgst: 0, igst: 0 });
+
+const addAmounts = <T extends GstAmounts>(target: T, source: GstAmounts, decimals: number): T => {
+  target.taxableValue = roundTo(target.taxableValue + source.taxableValue, decimals);
+  target.cgst = roundTo(target.cgst + source.cgst, decimals);
+  target.sgst = roundTo(target.sgst + source.sgst, decimals);
+  target.igst = roundTo(target.igst + source.igst, decimals);
+  return target;
+};
+
+const negate = (amounts: GstAmounts): GstAmounts => ({
+  taxableValue: -amounts.taxableValue,
+  cgst: -amounts.cgst,
+  sgst: -amounts.sgst,
+  igst: -amounts.igst,
+});
+
+const taxOf = (amounts: GstSplit) => amounts.cgst + amounts.sgst + amounts.igst;
+
+/** SAC codes, unlike HSN codes, all start with 99 */
+const isServiceCode = (code: string) => code.startsWith('99');
+
+/**
+ * Return period as the MMYYYY the GST portal expects
+ * @param period - Month and year
+ * @returns e.g. "042025"
+ */
+export function formatReturnPeriod(period: GstReturnPeriod): string {
+  return `${String(period.month).padStart(2, '0')}${period.year}`;
+}
+
+/**
+ * First and last day of a return period, as API date filters
+ * @param period - Month and year
+ * @returns ISO dates (YYYY-MM-DD)
+ */
+export function returnPeriodRange(period: GstReturnPeriod): { startDate: string; endDate: string } {
+  const month = String(period.month).padStart(2, '0');
+  const lastDay = new Date(period.year, period.month, 0).getDate();
+  return { startDate: `${period.year}-${month}-01`, endDate: `${period.year}-${month}-${lastDay}` };
+}
+
+/** dd-mm-yyyy, the date format of the offline utility */
+const formatReturnDate = (value: string) => {
+  const date = new Date(value);
+  return [date.getDate(), date.getMonth() + 1]
+    .map((part) => String(part).padStart(2, '0'))
+    .concat(String(date.getFullYear()))
+    .join('-');
+};
+
+/** An invoice or credit note as the return sees it: who it is to, where it is supplied and its tax per rate */
+interface ReturnDocument {
+  gstin: string | null;
+  placeOfSupply: string;
+  interState: boolean;
+  rows: GstSummaryRow[];
+  amounts: GstAmounts;
+  items: Gstr1InvoiceItem[];
+}
+
+const describeDocument = (
+  document: Pick<SalesInvoice, 'customer' | 'placeOfSupply' | 'lines'>,
+  options: GstReturnOptions
+): ReturnDocument => {
+  const { decimals } = options;
+  const homeState = resolveHomeState(options, options.gstin);
+  const buyerGstin = document.customer?.gstin?.trim().toUpperCase() ?? null;
+  const gstin = getGstinStateCode(buyerGstin) ? buyerGstin : null;
+  // Documents saved before the place of supply was recorded fall back to the buyer's state
+  const placeOfSupply = document.placeOfSupply ?? resolvePlaceOfSupply(homeState, gstin) ?? '';
+  const interState = isInterStateSupply(homeState, placeOfSupply);
+  const gst = summarizeGst(document.lines, interState, decimals);
+
+  // Tax is reported per rate on invoices, per code and rate in the HSN summary
+  const items = new Map<number, Gstr1InvoiceItem>();
+  gst.rows.forEach((row) => {
+    const item = items.get(row.ratePercent) ?? { ...emptyAmounts(), ratePercent: row.ratePercent };
+    items.set(row.ratePercent, addAmounts(item, row, decimals));
+  });
+
+  return {
+    gstin,
+    placeOfSupply,
+    interState,
+    rows: gst.rows,
+    amounts: { taxableValue: gst.taxableValue, cgst: gst.cgst, sgst: gst.sgst, igst: gst.igst },
+    items: Array.from(items.values()),
+  };
+};
+
+/**
+ * Add a document's tax to the HSN summary; credit notes are taken off
+ * @param hsn - HSN rows by code and rate
+ * @param lines - Document lines, for the weight of goods
+ * @param rows - Document tax per code and rate
+ * @param sign - 1 for an invoice, -1 for a credit note
+ * @param options - Rate table and rounding
+ */
+const addToHsnSummary = (
+  hsn: Map<string, Gstr1HsnRow>,
+  lines: SalesInvoiceLine[],
+  rows: GstSummaryRow[],
+  sign: 1 | -1,
+  options: GstReturnOptions
+) => {
+  const { decimals } = options;
+  // Goods are counted by the gross weight of the lines billed under them
+  const weights = new Map<string, number>();
+  lines.forEach((line) => {
+    line.taxLines?.forEach((taxLine) => {
+      if (taxLine.code && !isServiceCode(taxLine.code)) {
+        weights.set(taxLine.code, (weights.get(taxLine.code) ?? 0) + line.grossWeight);
+      }
+    });
+  });
+  rows.forEach((row) => {
+    const code = row.code ?? '';
+    const key = `${code}@${row.ratePercent}`;
+    const existing = hsn.get(key) ?? {
+      ...emptyAmounts(),
+      code,
+      description: options.rates.find((rate) => rate.code === code)?.description ?? '',
+      uqc: code && isServiceCode(code) ? 'NA' : 'GMS',
+      quantity: 0,
+      ratePercent: row.ratePercent,
+      value: 0,
+    };
+    existing.quantity = roundTo(existing.quantity + sign * (weights.get(code) ?? 0), 3);
+    existing.value = roundTo(existing.value + sign * (row.taxableValue + taxOf(row)), decimals);
+    hsn.set(key, addAmounts(existing, sign === 1 ? row : negate(row), decimals));
+  });
+};
+
+/**
+ * Sort a month's invoices and credit notes into GSTR-1 sections
+ *
+ * Credit notes to registered buyers go in CDNR, and those against inter-state
+ * invoices to unregistered buyers above the B2CL limit in CDNUR. The rest are
+ * taken off the B2CS rows they reduce, as the return expects.
+ *
+ * @param invoices - Sales invoices dated in the period
+ * @param creditNotes - Credit notes dated in the period
+ * @param period - Return period
+ * @param options - GSTIN, home state, rate table and rounding
+ * @returns B2B, B2CL, B2CS, CDNR and CDNUR sections with the HSN summary
+ */
+export function buildGstr1(
+  invoices: SalesInvoice[],
+  creditNotes: SalesCreditNote[],
+  period: GstReturnPeriod,
+  options: GstReturnOptions
+): Gstr1Report {
+  const { decimals } = options;
+  const b2b: Gstr1Invoice[] = [];
+  const b2cl: Gstr1Invoice[] = [];
+  const b2cs = new Map<string, Gstr1B2csRow>();
+  const cdnr: Gstr1CreditNote[] = [];
+  const cdnur: Gstr1CreditNote[] = [];
+  const hsnB2b = new Map<string, Gstr1HsnRow>();
+  const hsnB2c = new Map<string, Gstr1HsnRow>();
+  const totals = { ...emptyAmounts(), invoiceCount: 0, creditNoteCount: 0, value: 0 };
+
+  const addToB2cs = (document: ReturnDocument, sign: 1 | -1) => {
+    const { placeOfSupply, interState } = document;
+    document.items.forEach((item) => {
+      const key = `${placeOfSupply}@${item.ratePercent}`;
+      const row = b2cs.get(key) ?? { ...emptyAmounts(), placeOfSupply, interState, ratePercent: item.ratePercent };
+      b2cs.set(key, addAmounts(row, sign === 1 ? item : negate(item), decimals));
+    });
+  };
+
+  invoices.forEach((invoice) => {
+    const document = describeDocument(invoice, options);
+    if (document.rows.length === 0) return;
+
+    const entry: Gstr1Invoice = {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      invoiceDate: invoice.invoiceDate,
+      customerName: invoice.customer?.name ?? 'Walk-in Customer',
+      gstin: document.gstin,
+      placeOfSupply: document.placeOfSupply,
+      interState: document.interState,
+      value: invoice.total,
+      items: document.items,
+      ...document.amounts,
+    };
+
+    if (document.gstin) {
+      b2b.push(entry);
+    } else if (document.interState && invoice.total > B2CL_INVOICE_LIMIT) {
+      b2cl.push(entry);
+    } else {
+      addToB2cs(document, 1);
+    }
+
+    addToHsnSummary(document.gstin ? hsnB2b : hsnB2c, invoice.lines, document.rows, 1, options);
+    addAmounts(totals, entry, decimals);
+    totals.invoiceCount += 1;
+    totals.value = roundTo(totals.value + invoice.total, decimals);
+  });
+
+  creditNotes.forEach((note) => {
+    const document = describeDocument(note, options);
+    if (document.rows.length === 0) return;
+
+    const entry: Gstr1CreditNote = {
+      creditNoteId: note.id,
+      creditNoteNumber: note.creditNoteNumber,
+      creditNoteDate: note.creditNoteDate,
+      invoiceId: note.invoiceId,
+      invoiceNumber: note.invoiceNumber,
+      customerName: note.customer?.name ?? 'Walk-in Customer',
+      gstin: document.gstin,
+      placeOfSupply: document.placeOfSupply,
+      interState: document.interState,
+      value: note.total,
+      items: document.items,
+      ...document.amounts,
+    };
+
+    if (document.gstin) {
+      cdnr.push(entry);
+    } else if (document.interState && note.invoiceTotal > B2CL_INVOICE_LIMIT) {
+      cdnur.push(entry);
+    } else {
+      addToB2cs(document, -1);
+    }
+
+    addToHsnSummary(document.gstin ? hsnB2b : hsnB2c, note.lines, document.rows, -1, options);
+    addAmounts(totals, negate(entry), decimals);
+    totals.creditNoteCount += 1;
+    totals.value = roundTo(totals.value - note.total, decimals);
+  });
+
+  return {
+    gstin: options.gstin,
+    period,
+    b2b,
+    b2cl,
+    b2cs: Array.from(b2cs.values()),
+    cdnr,
+    cdnur,
+    hsnB2b: Array.from(hsnB2b.values()),
+    hsnB2c: Array.from(hsnB2c.values()),
+    totals,
+  };
+}
+
+/**
+ * Set ITC off against output tax in the order the CGST Act prescribes: IGST
+ * credit against IGST, then CGST, then SGST; CGST and SGST credit against
+ * their own head, then IGST. CGST credit is never used against SGST or the
+ * other way round.
+ * @param output - Output tax
+ * @param itc - Input tax credit
+ * @param decimals - Decimal places to round to
+ * @returns Tax payable in cash and credit carried forward
+ */
+export function setOffItc(
+  output: GstSplit,
+  itc: GstSplit,
+  decimals: number
+): { cashPayable: GstSplit; itcCarriedForward: GstSplit } {
+  const payable: GstSplit = { cgst: output.cgst, sgst: output.sgst, igst: output.igst };
+  const credit: GstSplit = { cgst: itc.cgst, sgst: itc.sgst, igst: itc.igst };
+  const apply = (from: keyof GstSplit, against: keyof GstSplit) => {
+    const amount = Math.min(credit[from], payable[against]);
+    credit[from] = roundTo(credit[from] - amount, decimals);
+    payable[against] = roundTo(payable[against] - amount, decimals);
+  };
+
+  apply('igst', 'igst');
+  apply('igst', 'cgst');
+  apply('igst', 'sgst');
+  apply('cgst', 'cgst');
+  apply('cgst', 'igst');
+  apply('sgst', 'sgst');
+  apply('sgst', 'igst');
+  return { cashPayable: payable, itcCarriedForward: credit };
+}
+
+/**
+ * Summarize a month for GSTR-3B
+ * @param gstr1 - The same month's GSTR-1
+ * @param purchaseBills - Purchase bills dated in the period
+ * @param options - GSTIN, home state, rate table and rounding
+ * @returns Outward supplies, inter-state B2C supplies, ITC and tax payable
+ */
+export function buildGstr3b(
+  gstr1: Gstr1Report,
+  purchaseBills: PurchaseBill[],
+  options: GstReturnOptions
+): Gstr3bSummary {
+  const { decimals } = options;
+
+  const interStateUnregistered = new Map<string, { placeOfSupply: string; taxableValue: number; igst: number }>();
+  const addInterState = (row: { placeOfSupply: string; taxableValue: number; igst: number }, sign: 1 | -1) => {
+    const existing = interStateUnregistered.get(row.placeOfSupply) ?? {
+      placeOfSupply: row.placeOfSupply,
+      taxableValue: 0,
+      igst: 0,
+    };
+    existing.taxableValue = roundTo(existing.taxableValue + sign * row.taxableValue, decimals);
+    existing.igst = roundTo(existing.igst + sign * row.igst, decimals);
+    interStateUnregistered.set(row.placeOfSupply, existing);
+  };
+  // B2CS rows are already net of their credit notes; CDNUR notes reduce the B2CL supplies
+  [...gstr1.b2cl, ...gstr1.b2cs].filter((row) => row.interState).forEach((row) => addInterState(row, 1));
+  gstr1.cdnur.forEach((note) => addInterState(note, -1));
+
+  // Only bills from registered suppliers that have been approved carry credit
+  const itc: GstSplit = { cgst: 0, sgst: 0, igst: 0 };
+  const homeState = resolveHomeState(options, options.gstin);
+  purchaseBills
+    .filter((bill) => bill.status === 'approved' || bill.status === 'stocked')
+    .forEach((bill) => {
+      const supplierState = getGstinStateCode(bill.supplier?.gstin);
+      if (!supplierState || bill.taxAmount === 0) return;
+      const split = splitGst(bill.taxAmount, isInterStateSupply(homeState, supplierState), decimals);
+      itc.cgst = roundTo(itc.cgst + split.cgst, decimals);
+      itc.sgst = roundTo(itc.sgst + split.sgst, decimals);
+      itc.igst = roundTo(itc.igst + split.igst, decimals);
+    });
+
+  const outward: GstAmounts = {
+    taxableValue: gstr1.totals.taxableValue,
+    cgst: gstr1.totals.cgst,
+    sgst: gstr1.totals.sgst,
+    igst: gstr1.totals.igst,
+  };
+
+  return {
+    gstin: gstr1.gstin,
+    period: gstr1.period,
+    outward,
+    interStateUnregistered: Array.from(interStateUnregistered.values()),
+    itc,
+    ...setOffItc(outward, itc, decimals),
+  };
+}
+
+const itemDetail = (item: Gstr1InvoiceItem, interState: boolean) => ({
+  txval: item.taxableValue,
+  rt: item.ratePercent,
+  ...(interState ? { iamt: item.igst } : { camt: item.cgst, samt: item.sgst }),
+  csamt: 0,
+});
+
+const hsnJson = (rows: Gstr1HsnRow[]) =>
+  rows.map((row, index) => ({
+    num: index + 1,
+    hsn_sc: row.code,
+    desc: row.description,
+    uqc: row.uqc,
+    qty: row.quantity,
+    rt: row.ratePercent,
+    txval: row.taxableValue,
+    iamt: row.igst,
+    camt: row.cgst,
+    samt: row.sgst,
+    csamt: 0,
+  }));
+
+/**
+ * GSTR-1 in the offline utility's JSON format. Empty sections are left out.
+ * @param report - GSTR-1 report
+ * @returns JSON-ready object
+ */
+export function gstr1ToJson(report: Gstr1Report): Record<string, unknown> {
+  const b2bByBuyer = new Map<string, Gstr1Invoice[]>();
+  report.b2b.forEach((invoice) => {
+    const gstin = invoice.gstin as string;
+    b2bByBuyer.set(gstin, [...(b2bByBuyer.get(gstin) ?? []), invoice]);
+  });
+  const b2clByState = new Map<string, Gstr1Invoice[]>();
+  report.b2cl.forEach((invoice) => {
+    b2clByState.set(invoice.placeOfSupply, [...(b2clByState.get(invoice.placeOfSupply) ?? []), invoice]);
+  });
+  const cdnrByBuyer = new Map<string, Gstr1CreditNote[]>();
+  report.cdnr.forEach((note) => {
+    const gstin = note.gstin as string;
+    cdnrByBuyer.set(gstin, [...(cdnrByBuyer.get(gstin) ?? []), note]);
+  });
+
+  const json: Record<string, unknown> = {
+    gstin: report.gstin,
+    fp: formatReturnPeriod(report.period),
+    version: GSTR1_JSON_VERSION,
+    hash: 'hash',
+  };
+  if (b2bByBuyer.size > 0) {
+    json.b2b = Array.from(b2bByBuyer.entries()).map(([ctin, invoices]) => ({
+      ctin,
+      inv: invoices.map((invoice) => ({
+        inum: invoice.invoiceNumber,
+        idt: formatReturnDate(invoice.invoiceDate),
+        val: invoice.value,
+        pos: invoice.placeOfSupply,
+        rchrg: 'N',
+        inv_typ: 'R',
+        itms: invoice.items.map((item, index) => ({
+          num: index + 1,
+          itm_det: itemDetail(item, invoice.interState),
+        })),
+      })),
+    }));
+  }
+  if (b2clByState.size > 0) {
+    json.b2cl = Array.from(b2clByState.entries()).map(([pos, invoices]) => ({
+      pos,
+      inv: invoices.map((invoice) => ({
+        inum: invoice.invoiceNumber,
+        idt: formatReturnDate(invoice.invoiceDate),
+        val: invoice.value,
+        itms: invoice.items.map((item, index) => ({ num: index + 1, itm_det: itemDetail(item, true) })),
+      })),
+    }));
+  }
+  if (report.b2cs.length > 0) {
+    json.b2cs = report.b2cs.map((row) => ({
+      sply_ty: row.interState ? 'INTER' : 'INTRA',
+      pos: row.placeOfSupply,
+      typ: 'OE',
+      ...itemDetail(row, row.interState),
+    }));
+  }
+  if (cdnrByBuyer.size > 0) {
+    json.cdnr = Array.from(cdnrByBuyer.entries()).map(([ctin, notes]) => ({
+      ctin,
+      nt: notes.map((note) => ({
+        ntty: 'C',
+        nt_num: note.creditNoteNumber,
+        nt_dt: formatReturnDate(note.creditNoteDate),
+        pos: note.placeOfSupply,
+        rchrg: 'N',
+        inv_typ: 'R',
+        val: note.value,
+        itms: note.items.map((item, index) => ({
+          num: index + 1,
+          itm_det: itemDetail(item, note.interState),
+        })),
+      })),
+    }));
+  }
+  if (report.cdnur.length > 0) {
+    json.cdnur = report.cdnur.map((note) => ({
+      typ: 'B2CL',
+      ntty: 'C',
+      nt_num: note.creditNoteNumber,
+      nt_dt: formatReturnDate(note.creditNoteDate),
+      pos: note.placeOfSupply,
+      val: note.value,
+      itms: note.items.map((item, index) => ({ num: index + 1, itm_det: itemDetail(item, true) })),
+    }));
+  }
+  if (report.hsnB2b.length > 0 || report.hsnB2c.length > 0) {
+    json.hsn = { hsn_b2b: hsnJson(report.hsnB2b), hsn_b2c: hsnJson(report.hsnB2c) };
+  }
+  return json;
+}
+
+const zeroItc = (ty: string) => ({ ty, iamt: 0, camt: 0, samt: 0, csamt: 0 });
+
+/**
+ * GSTR-3B in the offline utility's JSON format
+ * @param summary - GSTR-3B summary
+ * @returns JSON-ready object
+ */
+export function gstr3bToJson(summary: Gstr3bSummary): Record<string, unknown> {
+  const { outward, itc } = summary;
+  return {
+    gstin: summary.gstin,
+    ret_period: formatReturnPeriod(summary.period),
+    sup_details: {
+      osup_det: {
+        txval: outward.taxableValue,
+        iamt: outward.igst,
+        camt: outward.cgst,
+        samt: outward.sgst,
+        csamt: 0,
+      },
+      osup_zero: { txval: 0, iamt: 0, csamt: 0 },
+      osup_nil_exmp: { txval: 0 },
+      isup_rev: { txval: 0, iamt: 0, camt: 0, samt: 0, csamt: 0 },
+      osup_nongst: { txval: 0 },
+    },
+    inter_sup: {
+      unreg_details: summary.interStateUnregistered.map((row) => ({
+        pos: row.placeOfSupply,
+        txval: row.taxableValue,
+        iamt: row.igst,
+      })),
+      comp_details: [],
+      uin_details: [],
+    },
+    itc_elg: {
+      itc_avl: [
+        zeroItc('IMPG'),
+        zeroItc('IMPS'),
+        zeroItc('ISRC'),
+        zeroItc('ISD'),
+        { ty: 'OTH', iamt: itc.igst, camt: itc.cgst, samt: itc.sgst, csamt: 0 },
+      ],
+      itc_rev: [zeroItc('RUL'), zeroItc('OTH')],
+      itc_net: { iamt: itc.igst, camt: itc.cgst, samt: itc.sgst, csamt: 0 },
+      itc_inelg: [zeroItc('RUL'), zeroItc('OTH')],
+    },
+  };
+}
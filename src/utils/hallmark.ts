@@ -0,0 +1,38 @@
+/** HUIDs are six letters or digits, assigned by the assaying centre */
+const HUID_PATTERN = /^[A-Z0-9]{6}$/;
+
+/**
+ * Tidy a typed or scanned HUID for comparison and storage
+ * @param value - HUID as entered
+ * @returns Upper-case HUID without surrounding spaces
+ */
+export function normalizeHuid(value: string): string {
+  return value.trim().toUpperCase();
+}
+
+/**
+ * Check a HUID has the hallmark format
+ * @param value - HUID, already normalized
+ * @returns True for six letters or digits
+ */
+export function isValidHuid(value: string): boolean {
+  return HUID_PATTERN.test(value);
+}
+
+/**
+ * Find HUIDs entered more than once, e.g. across the pieces of one batch
+ * @param values - HUIDs, already normalized; blanks are ignored
+ * @returns HUIDs that appear more than once
+ */
+export function findDuplicateHuids(values: string[]): Set<string> {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const value of values) {
+    if (!value) continue;
+    if (seen.has(value)) {
+      duplicates.add(value);
+    }
+    seen.add(value);
+  }
+  return duplicates;
+}
@@ -0,0 +1,115 @@
+import type { Item } from '../api/items';
+import type { InvoicePayment, OldGoldExchange, SalesInvoiceLine } from '../api/sales';
+import { calculatePrice, type PricingOptions } from './pricing';
+import { roundTo } from './rounding';
+
+export interface InvoiceTotals {
+  /** Sum of taxable values */
+  subtotal: number;
+  taxAmount: number;
+  /** Sum of line totals, before deductions */
+  total: number;
+  oldGoldAmount: number;
+  advanceAmount: number;
+  schemeAmount: number;
+  /** TCS collected on top */
+  tcsAmount: number;
+  netPayable: number;
+  amountPaid: number;
+  balanceDue: number;
+}
+
+/**
+ * Price an item at the given metal rate and turn it into an invoice line
+ * @param item - Item being sold
+ * @param ratePerGram - Current rate for the item's metal and purity
+ * @param options - Pricing options from the organization config
+ * @returns Invoice line carrying the full price breakup
+ */
+export function buildInvoiceLine(item: Item, ratePerGram: number, options: PricingOptions): SalesInvoiceLine {
+  const breakup = calculatePrice(
+    {
+      grossWeight: item.grossWeight,
+      netWeight: item.netWeight,
+      ratePerGram,
+      wastagePercent: item.wastagePercent,
+      makingChargeType: item.makingChargeType,
+      makingCharge: item.makingCharge,
+      stoneAmount: item.stones.reduce((total, stone) => total + stone.amount, 0),
+    },
+    options
+  );
+
+  return {
+    itemId: item.id,
+    tagNumber: item.tagNumber,
+    huid: item.huid,
+    certificates: item.certificates ?? [],
+    description: item.name,
+    metal: item.metal,
+    purity: item.purity,
+    grossWeight: item.grossWeight,
+    netWeight: item.netWeight,
+    ratePerGram,
+    wastagePercent: item.wastagePercent,
+    makingChargeType: item.makingChargeType,
+    makingCharge: item.makingCharge,
+    metalValue: breakup.metalValue,
+    wastageValue: breakup.wastageValue,
+    makingValue: breakup.makingValue,
+    stoneValue: breakup.stoneValue,
+    taxableValue: breakup.taxableValue,
+    taxAmount: breakup.taxAmount,
+    taxLines: breakup.taxLines,
+    total: breakup.total,
+  };
+}
+
+/** Amounts brought to an invoice from other modules, on top of its lines */
+export interface InvoiceAdjustments {
+  /** Custom order advance being adjusted */
+  advanceAmount?: number;
+  /** Savings scheme balance being redeemed */
+  schemeAmount?: number;
+  /** TCS being collected */
+  tcsAmount?: number;
+}
+
+/**
+ * Total an invoice: line totals less old gold exchange and other credits, plus TCS, against payments received
+ * @param lines - Invoice lines
+ * @param oldGold - Old gold taken in exchange
+ * @param payments - Payments received
+ * @param decimals - Decimal places to round to
+ * @param adjustments - Order advance and scheme balance being adjusted, and TCS collected
+ * @returns Invoice totals
+ */
+export function calculateInvoiceTotals(
+  lines: Pick<SalesInvoiceLine, 'taxableValue' | 'taxAmount' | 'total'>[],
+  oldGold: Pick<OldGoldExchange, 'amount'>[],
+  payments: Pick<InvoicePayment, 'amount'>[],
+  decimals: number,
+  { advanceAmount = 0, schemeAmount = 0, tcsAmount = 0 }: InvoiceAdjustments = {}
+): InvoiceTotals {
+  const sum = (values: number[]) => roundTo(values.reduce((total, value) => total + value, 0), decimals);
+
+  const subtotal = sum(lines.map((line) => line.taxableValue));
+  const taxAmount = sum(lines.map((line) => line.taxAmount));
+  const total = sum(lines.map((line) => line.total));
+  const oldGoldAmount = sum(oldGold.map((entry) => entry.amount));
+  const netPayable = roundTo(total - oldGoldAmount - advanceAmount - schemeAmount + tcsAmount, decimals);
+  const amountPaid = sum(payments.map((payment) => payment.amount));
+
+  return {
+    subtotal,
+    taxAmount,
+    total,
+    oldGoldAmount,
+    advanceAmount,
+    schemeAmount,
+    tcsAmount,
+    netPayable,
+    amountPaid,
+    balanceDue: roundTo(netPayable - amountPaid, decimals),
+  };
+}
@@ -0,0 +1,71 @@
+import type { JobCard } from '../api/jobCards';
+import { roundTo } from './rounding';
+
+/** Weights are kept to the milligram */
+const WEIGHT_DECIMALS = 3;
+
+export interface JobCardSummary {
+  issuedFineWeight: number;
+  receivedFineWeight: number;
+  scrapFineWeight: number;
+  /** Fine metal issued but neither received in pieces nor returned as scrap */
+  lossFineWeight: number;
+  /** Loss as a percentage of fine metal issued */
+  lossPercent: number;
+  allowedLossFineWeight: number;
+  /** Loss beyond the allowance, which stays on the karigar's balance */
+  excessLossFineWeight: number;
+  piecesReceived: number;
+  issuedStoneCarat: number;
+  setStoneCarat: number;
+  returnedStoneCarat: number;
+  /** Issued carats not accounted for by set or returned stones */
+  missingStoneCarat: number;
+}
+
+/**
+ * Fine weight of metal at a touch percentage
+ * @param weight - Weight in grams
+ * @param touchPercent - Percentage of pure metal
+ * @returns Fine weight in grams
+ */
+export function calculateFineWeight(weight: number, touchPercent: number): number {
+  return roundTo((weight * touchPercent) / 100, WEIGHT_DECIMALS);
+}
+
+/**
+ * Reconcile what was issued on a job card against what came back
+ * @param jobCard - Job card with issues and receipts
+ * @returns Fine-metal and stone reconciliation
+ */
+export function summarizeJobCard(jobCard: JobCard): JobCardSummary {
+  const weight = (value: number) => roundTo(value, WEIGHT_DECIMALS);
+  const pieces = jobCard.receipts.flatMap((receipt) => receipt.pieces);
+
+  const issuedFineWeight = weight(jobCard.metalIssues.reduce((total, issue) => total + issue.fineWeight, 0));
+  const receivedFineWeight = weight(pieces.reduce((total, piece) => total + piece.fineWeight, 0));
+  const scrapFineWeight = weight(jobCard.receipts.reduce((total, receipt) => total + receipt.scrapFineWeight, 0));
+  const lossFineWeight = weight(issuedFineWeight - receivedFineWeight - scrapFineWeight);
+  const allowedLossFineWeight = weight((issuedFineWeight * jobCard.allowedWastagePercent) / 100);
+
+  const issuedStoneCarat = weight(jobCard.stoneIssues.reduce((total, stone) => total + stone.weightCarat, 0));
+  const setStoneCarat = weight(pieces.reduce((total, piece) => total + piece.stoneWeightCarat, 0));
+  const returnedStoneCarat = weight(
+    jobCard.receipts.reduce((total, receipt) => total + receipt.returnedStoneCarat, 0)
+  );
+
+  return {
+    issuedFineWeight,
+    receivedFineWeight,
+    scrapFineWeight,
+    lossFineWeight,
+    lossPercent: issuedFineWeight > 0 ? roundTo((lossFineWeight / issuedFineWeight) * 100, 2) : 0,
+    allowedLossFineWeight,
+    excessLossFineWeight: Math.max(0, weight(lossFineWeight - allowedLossFineWeight)),
+    piecesReceived: pieces.length,
+    issuedStoneCarat,
+    setStoneCarat,
+    returnedStoneCarat,
+    missingStoneCarat: Math.max(0, weight(issuedStoneCarat - setStoneCarat - returnedStoneCarat)),
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Format a document number the way the backend issues it: PREFIX-NUMBER
+ * @param prefix - Series prefix from the Numbering config (falls back when blank)
+ * @param number - Sequence number
+ * @param fallbackPrefix - Prefix used when none is configured
+ * @returns Document number, e.g. INV-10001
+ */
+export function formatDocumentNumber(prefix: string | undefined, number: number, fallbackPrefix: string): string {
+  return `${prefix?.trim() || fallbackPrefix}-${number}`;
+}
+
+/** Sequence a series starts at when no start number is configured */
+export const DEFAULT_START_FROM = 10001;
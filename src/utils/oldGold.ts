@@ -0,0 +1,106 @@
+import { METAL_PURITIES, type Metal, type MetalRate } from '../api/metalRates';
+import type { OldGoldLine, OldGoldTotals, OldGoldVoucher } from '../api/oldGold';
+import type { OldGoldExchange } from '../api/sales';
+import { splitInclusiveTax, type PricingOptions, type WeightBasis } from './pricing';
+import { roundTo } from './rounding';
+
+/** Weights are kept to the milligram */
+const WEIGHT_DECIMALS = 3;
+
+export type OldGoldLineInput = Omit<OldGoldLine, 'netWeight' | 'fineWeight' | 'amount'>;
+
+/**
+ * Buyback rate per gram of fine metal, derived from today's rate for the
+ * purest purity that has one. Rates entered tax-inclusive have the tax taken
+ * out, since nothing is charged on metal bought back.
+ * @param metal - Metal being bought back
+ * @param getRate - Current rate lookup
+ * @param options - Pricing options from the organization config
+ * @returns Rate per fine gram, or undefined when no rate is entered for the metal
+ */
+export function deriveBuybackRate(
+  metal: Metal,
+  getRate: (metal: Metal, purity: string) => MetalRate | undefined,
+  options: PricingOptions
+): number | undefined {
+  for (const purity of METAL_PURITIES[metal]) {
+    const rate = getRate(metal, purity.value);
+    if (rate) {
+      const perFineGram = (rate.ratePerGram * 1000) / purity.fineness;
+      const exclusive =
+        options.pricing.taxMode === 'include'
+          ? splitInclusiveTax(perFineGram, options.taxPercent).taxable
+          : perFineGram;
+      return roundTo(exclusive, options.decimalPrecision);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Value one piece of old metal
+ *
+ * The weight valued follows the pricing config: net of stones when net
+ * weight is allowed, gross otherwise. Fine weight is that weight at the
+ * tested purity less melting loss.
+ *
+ * @param input - Weights, tested purity and melting loss
+ * @param ratePerGram - Buyback rate per fine gram
+ * @param weightBasis - Weight the metal is valued on
+ * @param decimals - Decimal places amounts are rounded to
+ * @returns Complete old gold line
+ */
+export function buildOldGoldLine(
+  input: OldGoldLineInput,
+  ratePerGram: number,
+  weightBasis: WeightBasis,
+  decimals: number
+): OldGoldLine {
+  const netWeight = roundTo(Math.max(0, input.grossWeight - input.stoneWeight), WEIGHT_DECIMALS);
+  const valuedWeight = weightBasis === 'net' ? netWeight : input.grossWeight;
+  const fineWeight = roundTo(
+    ((valuedWeight * input.testedPurityPercent) / 100) * (1 - input.meltingLossPercent / 100),
+    WEIGHT_DECIMALS
+  );
+
+  return {
+    ...input,
+    netWeight,
+    fineWeight,
+    amount: roundTo(fineWeight * ratePerGram, decimals),
+  };
+}
+
+/**
+ * Add up old gold lines
+ * @param lines - Valued lines
+ * @param decimals - Decimal places amounts are rounded to
+ * @returns Weight totals and voucher amount
+ */
+export function calculateOldGoldTotals(lines: OldGoldLine[], decimals: number): OldGoldTotals {
+  const sum = (pick: (line: OldGoldLine) => number) => lines.reduce((total, line) => total + pick(line), 0);
+
+  return {
+    totalGrossWeight: roundTo(sum((line) => line.grossWeight), WEIGHT_DECIMALS),
+    totalStoneWeight: roundTo(sum((line) => line.stoneWeight), WEIGHT_DECIMALS),
+    totalNetWeight: roundTo(sum((line) => line.netWeight), WEIGHT_DECIMALS),
+    totalFineWeight: roundTo(sum((line) => line.fineWeight), WEIGHT_DECIMALS),
+    amount: roundTo(sum((line) => line.amount), decimals),
+  };
+}
+
+/**
+ * Turn an open voucher into an old gold credit on a sales invoice
+ * @param voucher - Voucher being applied
+ * @returns Old gold exchange entry, valued at the voucher's fine weight and rate
+ */
+export function voucherToOldGoldExchange(voucher: OldGoldVoucher): OldGoldExchange {
+  return {
+    voucherId: voucher.id,
+    description: `Voucher ${voucher.voucherNumber}`,
+    grossWeight: voucher.totalFineWeight,
+    purity: 'Fine',
+    ratePerGram: voucher.ratePerGram,
+    amount: voucher.amount,
+  };
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePrice, type PriceInput, type PricingOptions } from './pricing';
+import { roundTo } from './rounding';
+
+const options: PricingOptions = {
+  pricing: {
+    allowGrossWeight: true,
+    allowNetWeight: true,
+    allowStonePrice: true,
+    allowMakingCharges: true,
+    taxMode: 'exclude',
+  },
+  taxPercent: 0,
+  decimalPrecision: 2,
+};
+
+const input: PriceInput = {
+  grossWeight: 12,
+  netWeight: 10,
+  ratePerGram: 6000,
+  wastagePercent: 0,
+  makingChargeType: 'flat',
+  makingCharge: 0,
+  stoneAmount: 0,
+};
+
+describe('calculatePrice', () => {
+  it('prices the metal at rate × net weight', () => {
+    const price = calculatePrice(input, options);
+
+    expect(price.weightBasis).toBe('net');
+    expect(price.chargeableWeight).toBe(10);
+    expect(price.metalValue).toBe(60000);
+    expect(price.total).toBe(60000);
+  });
+
+  it('prices on gross weight when net weight is not allowed', () => {
+    const price = calculatePrice(input, {
+      ...options,
+      pricing: { ...options.pricing, allowNetWeight: false },
+    });
+
+    expect(price.weightBasis).toBe('gross');
+    expect(price.metalValue).toBe(72000);
+  });
+
+  it('charges making per gram of chargeable weight', () => {
+    const price = calculatePrice({ ...input, makingChargeType: 'per_gram', makingCharge: 450 }, options);
+
+    expect(price.makingValue).toBe(4500);
+    expect(price.total).toBe(64500);
+  });
+
+  it('charges making as a percentage of the metal value', () => {
+    const price = calculatePrice({ ...input, makingChargeType: 'percent', makingCharge: 12 }, options);
+
+    expect(price.makingValue).toBe(7200);
+    expect(price.total).toBe(67200);
+  });
+
+  it('charges a flat making charge whatever the weight', () => {
+    const price = calculatePrice({ ...input, makingChargeType: 'flat', makingCharge: 1500 }, options);
+
+    expect(price.makingValue).toBe(1500);
+    expect(price.total).toBe(61500);
+  });
+
+  it('leaves making charges out when they are not allowed', () => {
+    const price = calculatePrice(
+      { ...input, makingChargeType: 'flat', makingCharge: 1500 },
+      { ...options, pricing: { ...options.pricing, allowMakingCharges: false } }
+    );
+
+    expect(price.makingValue).toBe(0);
+    expect(price.lines.some((line) => line.key === 'making')).toBe(false);
+  });
+
+  it('adds wastage as a percentage of the chargeable weight at the metal rate', () => {
+    const price = calculatePrice({ ...input, wastagePercent: 8 }, options);
+
+    expect(price.wastageValue).toBe(4800);
+    expect(price.total).toBe(64800);
+  });
+
+  it('adds the stone value', () => {
+    const price = calculatePrice({ ...input, stoneAmount: 2500 }, options);
+
+    expect(price.stoneValue).toBe(2500);
+    expect(price.total).toBe(62500);
+  });
+
+  it('leaves the stone value out when stone pricing is off', () => {
+    const price = calculatePrice(
+      { ...input, stoneAmount: 2500 },
+      { ...options, pricing: { ...options.pricing, allowStonePrice: false } }
+    );
+
+    expect(price.stoneValue).toBe(0);
+    expect(price.total).toBe(60000);
+  });
+
+  it('rounds each component before summing so the lines add up to the total', () => {
+    const price = calculatePrice(
+      {
+        ...input,
+        netWeight: 3.333,
+        ratePerGram: 6123.45,
+        wastagePercent: 7.5,
+        makingChargeType: 'per_gram',
+        makingCharge: 333.33,
+        stoneAmount: 1234.565,
+      },
+      { ...options, taxPercent: 3 }
+    );
+
+    expect(price.metalValue).toBe(20409.46);
+    expect(price.wastageValue).toBe(1530.71);
+    expect(price.makingValue).toBe(1110.99);
+    expect(price.stoneValue).toBe(1234.57);
+    expect(price.taxableValue).toBe(24285.73);
+    expect(price.taxAmount).toBe(728.57);
+    expect(price.total).toBe(roundTo(price.taxableValue + price.taxAmount, 2));
+  });
+
+  it('rounds to the configured precision', () => {
+    const price = calculatePrice(
+      { ...input, netWeight: 1.2345, ratePerGram: 100 },
+      { ...options, decimalPrecision: 0 }
+    );
+
+    expect(price.metalValue).toBe(123);
+    expect(price.total).toBe(123);
+  });
+});
@@ -0,0 +1,233 @@
+import type { MakingChargeType } from '../api/items';
+import type { OrgConfig } from '../api/orgConfig';
+import type { GstTaxLine } from '../api/sales';
+import { buildTaxLines } from './gst';
+import { roundTo } from './rounding';
+
+/**
+ * Jewellery pricing engine
+ *
+ * Pure functions only: every sales and estimate screen prices items through
+ * calculatePrice so the same rules apply everywhere.
+ */
+
+export type WeightBasis = 'gross' | 'net';
+
+export interface PriceInput {
+  grossWeight: number;
+  netWeight: number;
+  /** Metal rate per gram for the item's purity */
+  ratePerGram: number;
+  wastagePercent: number;
+  makingChargeType: MakingChargeType;
+  /** Per gram amount, flat amount or percentage depending on makingChargeType */
+  makingCharge: number;
+  /** Total value of stones set in the item */
+  stoneAmount: number;
+  /** Overrides the weight basis derived from the pricing config */
+  weightBasis?: WeightBasis;
+}
+
+export interface PricingOptions {
+  pricing: OrgConfig['pricing'];
+  /** GST rate on metal, wastage and stone value, 0 when tax is disabled */
+  taxPercent: number;
+  /** HSN code metal, wastage and stone value are taxed under */
+  goodsTaxCode?: string | null;
+  /** GST rate on making charges; defaults to taxPercent */
+  makingTaxPercent?: number;
+  /** SAC code making charges are taxed under; defaults to goodsTaxCode */
+  makingTaxCode?: string | null;
+  /** Decimal places every amount is rounded to */
+  decimalPrecision: number;
+}
+
+export type PriceLineKey = 'metal' | 'wastage' | 'making' | 'stone' | 'taxable' | 'tax' | 'total';
+
+export interface PriceLine {
+  key: PriceLineKey;
+  label: string;
+  amount: number;
+  /** Human-readable working, e.g. "10.000 g × 6,000.00" */
+  detail?: string;
+}
+
+export interface PriceBreakup {
+  weightBasis: WeightBasis;
+  chargeableWeight: number;
+  metalValue: number;
+  wastageValue: number;
+  makingValue: number;
+  stoneValue: number;
+  taxableValue: number;
+  taxAmount: number;
+  /** Taxable value and tax per HSN/SAC code */
+  taxLines: GstTaxLine[];
+  total: number;
+  lines: PriceLine[];
+}
+
+export const DEFAULT_DECIMAL_PRECISION = 2;
+
+/**
+ * Decide which weight the metal is priced on. Net weight wins when allowed,
+ * since stones are priced separately; gross weight is used otherwise.
+ */
+export function resolveWeightBasis(pricing: OrgConfig['pricing'], requested?: WeightBasis): WeightBasis {
+  if (requested === 'gross' && pricing.allowGrossWeight) return 'gross';
+  if (requested === 'net' && pricing.allowNetWeight) return 'net';
+  if (pricing.allowNetWeight) return 'net';
+  return 'gross';
+}
+
+/**
+ * Making charge for one item
+ * @param type - How the making charge is expressed
+ * @param charge - Charge per gram, flat amount or percentage
+ * @param weight - Chargeable weight in grams
+ * @param metalValue - Metal value the percentage applies to
+ * @returns Making charge amount
+ */
+export function calculateMakingCharge(
+  type: MakingChargeType,
+  charge: number,
+  weight: number,
+  metalValue: number
+): number {
+  switch (type) {
+    case 'per_gram':
+      return weight * charge;
+    case 'flat':
+      return charge;
+    case 'percent':
+      return (metalValue * charge) / 100;
+  }
+}
+
+/**
+ * Split a tax-inclusive amount into taxable value and tax
+ * @param amount - Amount including tax
+ * @param taxPercent - Tax percentage
+ * @returns Taxable value and tax, before rounding
+ */
+export function splitInclusiveTax(amount: number, taxPercent: number): { taxable: number; tax: number } {
+  const taxable = amount / (1 + taxPercent / 100);
+  return { taxable, tax: amount - taxable };
+}
+
+const formatNumber = (value: number, decimals: number) =>
+  value.toLocaleString('en-IN', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+/**
+ * Price a jewellery item and return a line-by-line breakup
+ *
+ * Each component is rounded to the configured precision before it is summed,
+ * so the lines always add up to the total shown. Metal, wastage and stone are
+ * taxed at the goods rate and making charges at the making rate (see gst.ts).
+ * In 'include' tax mode those values are treated as tax-inclusive and the tax
+ * is carved out of them; in 'exclude' mode tax is added on top.
+ *
+ * @param input - Weights, rate and charges for the item
+ * @param options - Pricing rules, GST rates and rounding
+ * @returns Price breakup
+ */
+export function calculatePrice(input: PriceInput, options: PricingOptions): PriceBreakup {
+  const { pricing, taxPercent } = options;
+  const decimals = options.decimalPrecision;
+  const round = (value: number) => roundTo(value, decimals);
+
+  const weightBasis = resolveWeightBasis(pricing, input.weightBasis);
+  const chargeableWeight = weightBasis === 'net' ? input.netWeight : input.grossWeight;
+
+  const rawMetal = chargeableWeight * input.ratePerGram;
+  const wastageWeight = (chargeableWeight * input.wastagePercent) / 100;
+  const metalValue = round(rawMetal);
+  const wastageValue = round(wastageWeight * input.ratePerGram);
+  const makingValue = pricing.allowMakingCharges
+    ? round(calculateMakingCharge(input.makingChargeType, input.makingCharge, chargeableWeight, rawMetal))
+    : 0;
+  const stoneValue = pricing.allowStonePrice ? round(input.stoneAmount) : 0;
+
+  const goodsCode = options.goodsTaxCode ?? null;
+  const taxLines = buildTaxLines(
+    [
+      { code: goodsCode, ratePercent: taxPercent, amount: metalValue + wastageValue + stoneValue },
+      {
+        code: options.makingTaxCode ?? goodsCode,
+        ratePercent: options.makingTaxPercent ?? taxPercent,
+        amount: makingValue,
+      },
+    ],
+    pricing.taxMode === 'include',
+    decimals
+  );
+  const taxableValue = round(taxLines.reduce((sum, line) => sum + line.taxableValue, 0));
+  const taxAmount = round(taxLines.reduce((sum, line) => sum + line.taxAmount, 0));
+  const total = round(taxableValue + taxAmount);
+
+  const lines: PriceLine[] = [
+    {
+      key: 'metal',
+      label: `Metal (${weightBasis} weight)`,
+      amount: metalValue,
+      detail: `${chargeableWeight.toFixed(3)} g × ${formatNumber(input.ratePerGram, decimals)}`,
+    },
+  ];
+  if (wastageValue !== 0) {
+    lines.push({
+      key: 'wastage',
+      label: `Wastage (${input.wastagePercent}%)`,
+      amount: wastageValue,
+      detail: `${wastageWeight.toFixed(3)} g`,
+    });
+  }
+  if (pricing.allowMakingCharges) {
+    lines.push({
+      key: 'making',
+      label: 'Making Charges',
+      amount: makingValue,
+      detail:
+        input.makingChargeType === 'per_gram'
+          ? `${chargeableWeight.toFixed(3)} g × ${formatNumber(input.makingCharge, decimals)}`
+          : input.makingChargeType === 'percent'
+            ? `${input.makingCharge}% of metal value`
+            : 'Flat',
+    });
+  }
+  if (pricing.allowStonePrice) {
+    lines.push({ key: 'stone', label: 'Stone Value', amount: stoneValue });
+  }
+  lines.push(
+    {
+      key: 'taxable',
+      label: pricing.taxMode === 'include' ? 'Taxable Value (tax included)' : 'Taxable Value',
+      amount: taxableValue,
+    },
+    {
+      key: 'tax',
+      label: taxLines.length > 1 ? 'GST' : `GST (${taxLines[0]?.ratePercent ?? taxPercent}%)`,
+      amount: taxAmount,
+      detail:
+        taxLines.length > 1
+          ? taxLines
+              .map((line) => `${line.ratePercent}% on ${formatNumber(line.taxableValue, decimals)}`)
+              .join(' + ')
+          : undefined,
+    },
+    { key: 'total', label: 'Total', amount: total }
+  );
+
+  return {
+    weightBasis,
+    chargeableWeight,
+    metalValue,
+    wastageValue,
+    makingValue,
+    stoneValue,
+    taxableValue,
+    taxAmount,
+    taxLines,
+    total,
+    lines,
+  };
+}
@@ -0,0 +1,130 @@
+import type { StoneLine } from '../api/items';
+import { getPurityFineness, type Metal } from '../api/metalRates';
+import type { PurchaseLabourType, PurchaseLine, PurchaseTotals } from '../api/purchases';
+import { roundTo } from './rounding';
+
+/** Weights are kept to the milligram */
+const WEIGHT_DECIMALS = 3;
+
+export type PurchaseLineInput = Omit<
+  PurchaseLine,
+  'fineWeight' | 'labourAmount' | 'stoneAmount' | 'metalAmount' | 'total'
+>;
+
+/**
+ * Touch a line defaults to: the purity's fineness as a percentage
+ * @param metal - Metal
+ * @param purity - Purity value
+ * @returns Touch percentage, or an empty string for an unknown purity
+ */
+export function defaultTouchPercent(metal: Metal, purity: string | null): string {
+  const fineness = getPurityFineness(metal, purity);
+  return fineness ? (fineness / 10).toString() : '';
+}
+
+/**
+ * Labour charged by the supplier for a line
+ * @param type - How labour is charged
+ * @param rate - Rate per gram, per piece or flat amount
+ * @param netWeight - Net weight in grams
+ * @param pieces - Number of pieces
+ * @returns Labour amount
+ */
+export function calculateLabour(type: PurchaseLabourType, rate: number, netWeight: number, pieces: number): number {
+  switch (type) {
+    case 'per_gram':
+      return netWeight * rate;
+    case 'per_piece':
+      return pieces * rate;
+    case 'flat':
+      return rate;
+  }
+}
+
+/**
+ * Work out fine weight and amounts for a purchase line
+ *
+ * Fine weight is net weight at the line's touch. The metal amount is fine
+ * weight at the fine rate, so a line settled in metal (rate 0) only carries
+ * labour and stones in money.
+ *
+ * @param input - Weights, touch, rate, labour and stones
+ * @param decimals - Decimal places amounts are rounded to
+ * @returns Complete purchase line
+ */
+export function buildPurchaseLine(input: PurchaseLineInput, decimals: number): PurchaseLine {
+  const round = (value: number) => roundTo(value, decimals);
+
+  const fineWeight = roundTo((input.netWeight * input.touchPercent) / 100, WEIGHT_DECIMALS);
+  const metalAmount = round(fineWeight * input.ratePerGram);
+  const labourAmount = round(calculateLabour(input.labourType, input.labourRate, input.netWeight, input.pieces));
+  const stones: StoneLine[] = input.stones.map((stone) => ({
+    ...stone,
+    amount: round(stone.weightCarat * stone.ratePerCarat),
+  }));
+  const stoneAmount = round(stones.reduce((total, stone) => total + stone.amount, 0));
+
+  return {
+    ...input,
+    stones,
+    fineWeight,
+    metalAmount,
+    labourAmount,
+    stoneAmount,
+    total: round(metalAmount + labourAmount + stoneAmount),
+  };
+}
+
+/**
+ * Add up purchase lines and apply tax on top
+ * @param lines - Purchase lines
+ * @param taxPercent - Tax percentage, 0 when tax is disabled
+ * @param decimals - Decimal places amounts are rounded to
+ * @returns Weight and amount totals
+ */
+export function calculatePurchaseTotals(lines: PurchaseLine[], taxPercent: number, decimals: number): PurchaseTotals {
+  const round = (value: number) => roundTo(value, decimals);
+  const sum = (pick: (line: PurchaseLine) => number) => lines.reduce((total, line) => total + pick(line), 0);
+  const sumWeight = (pick: (line: PurchaseLine) => number) => roundTo(sum(pick), WEIGHT_DECIMALS);
+  const sumAmount = (pick: (line: PurchaseLine) => number) => round(sum(pick));
+
+  const subtotal = sumAmount((line) => line.total);
+  const taxAmount = round((subtotal * taxPercent) / 100);
+
+  return {
+    totalGrossWeight: sumWeight((line) => line.grossWeight),
+    totalNetWeight: sumWeight((line) => line.netWeight),
+    totalFineWeight: sumWeight((line) => line.fineWeight),
+    metalAmount: sumAmount((line) => line.metalAmount),
+    labourAmount: sumAmount((line) => line.labourAmount),
+    stoneAmount: sumAmount((line) => line.stoneAmount),
+    subtotal,
+    taxAmount,
+    total: round(subtotal + taxAmount),
+  };
+}
+
+/**
+ * What a bill adds to the supplier's accounts once approved: the bill total
+ * less TDS in money, and the fine weight of lines settled in metal (rate 0)
+ * per metal
+ * @param lines - Purchase lines
+ * @param total - Bill total including tax
+ * @param decimals - Decimal places to round the amount to
+ * @param tdsAmount - TDS held back from the supplier
+ * @returns Amount and fine weights owed on the bill
+ */
+export function calculateSupplierPostings(
+  lines: PurchaseLine[],
+  total: number,
+  decimals: number,
+  tdsAmount = 0
+): { amount: number; fineWeights: Partial<Record<Metal, number>> } {
+  const fineWeights: Partial<Record<Metal, number>> = {};
+  lines
+    .filter((line) => line.ratePerGram === 0 && line.fineWeight > 0)
+    .forEach((line) => {
+      fineWeights[line.metal] = roundTo((fineWeights[line.metal] ?? 0) + line.fineWeight, WEIGHT_DECIMALS);
+    });
+  return { amount: roundTo(total - tdsAmount, decimals), fineWeights };
+}
@@ -0,0 +1,183 @@
+import type { Customer } from '../api/customers';
+import type { SalesInvoice } from '../api/sales';
+import { toCsv } from './export';
+import { roundTo } from './rounding';
+
+export type AgeingBucketKey = 'upTo30' | 'upTo60' | 'upTo90' | 'over90';
+
+/** Receivables are aged from the invoice date */
+export const AGEING_BUCKETS: { key: AgeingBucketKey; label: string; maxDays: number }[] = [
+  { key: 'upTo30', label: '0-30 days', maxDays: 30 },
+  { key: 'upTo60', label: '31-60 days', maxDays: 60 },
+  { key: 'upTo90', label: '61-90 days', maxDays: 90 },
+  { key: 'over90', label: '90+ days', maxDays: Infinity },
+];
+
+export type AgeingBuckets = Record<AgeingBucketKey, number>;
+
+export interface CustomerAgeing {
+  customerId: string | null;
+  customerName: string;
+  customerNumber: string | null;
+  phone: string | null;
+  creditLimit: number | null;
+  buckets: AgeingBuckets;
+  total: number;
+  invoiceCount: number;
+  /** Age in days of the customer's oldest unpaid invoice */
+  oldestDays: number;
+}
+
+export interface ReceivablesAgeing {
+  /** One row per customer, largest balance first */
+  rows: CustomerAgeing[];
+  totals: AgeingBuckets & { total: number };
+}
+
+export interface CreditCheck {
+  creditLimit: number;
+  outstanding: number;
+  /** What the customer will owe once this sale is billed */
+  exposure: number;
+  /** Credit left before this sale; negative when already over the limit */
+  available: number;
+  exceeded: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyBuckets = (): AgeingBuckets => ({ upTo30: 0, upTo60: 0, upTo90: 0, over90: 0 });
+
+/**
+ * Whole days since an invoice was raised
+ * @param invoiceDate - Invoice date (ISO)
+ * @param asOf - Date to measure to (defaults to now)
+ * @returns Days outstanding, never negative
+ */
+export function getDaysOutstanding(invoiceDate: string, asOf: Date = new Date()): number {
+  const start = new Date(invoiceDate);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(asOf);
+  end.setHours(0, 0, 0, 0);
+  return Math.max(0, Math.round((end.getTime() - start.getTime()) / DAY_MS));
+}
+
+/**
+ * Ageing bucket a balance of this age falls in
+ * @param days - Days outstanding
+ * @returns Bucket key
+ */
+export function getAgeingBucket(days: number): AgeingBucketKey {
+  return AGEING_BUCKETS.find((bucket) => days <= bucket.maxDays)?.key ?? 'over90';
+}
+
+/**
+ * Group unpaid invoice balances by customer and age
+ * @param invoices - Invoices with a balance due
+ * @param decimals - Decimal places amounts are rounded to
+ * @param asOf - Date to age to (defaults to now)
+ * @returns Ageing rows per customer and overall totals
+ */
+export function buildReceivablesAgeing(
+  invoices: Pick<SalesInvoice, 'customerId' | 'customer' | 'invoiceDate' | 'balanceDue'>[],
+  decimals: number,
+  asOf: Date = new Date()
+): ReceivablesAgeing {
+  const byCustomer = new Map<string, CustomerAgeing>();
+  const totals = { ...emptyBuckets(), total: 0 };
+
+  invoices
+    .filter((invoice) => invoice.balanceDue > 0)
+    .forEach((invoice) => {
+      const key = invoice.customerId ?? 'walk-in';
+      const row = byCustomer.get(key) ?? {
+        customerId: invoice.customerId,
+        customerName: invoice.customer?.name ?? 'Walk-in',
+        customerNumber: invoice.customer?.customerNumber ?? null,
+        phone: invoice.customer?.phone ?? null,
+        creditLimit: invoice.customer?.creditLimit ?? null,
+        buckets: emptyBuckets(),
+        total: 0,
+        invoiceCount: 0,
+        oldestDays: 0,
+      };
+      const days = getDaysOutstanding(invoice.invoiceDate, asOf);
+      const bucket = getAgeingBucket(days);
+      row.buckets[bucket] = roundTo(row.buckets[bucket] + invoice.balanceDue, decimals);
+      row.total = roundTo(row.total + invoice.balanceDue, decimals);
+      row.invoiceCount += 1;
+      row.oldestDays = Math.max(row.oldestDays, days);
+      byCustomer.set(key, row);
+
+      totals[bucket] = roundTo(totals[bucket] + invoice.balanceDue, decimals);
+      totals.total = roundTo(totals.total + invoice.balanceDue, decimals);
+    });
+
+  return {
+    rows: Array.from(byCustomer.values()).sort((a, b) => b.total - a.total),
+    totals,
+  };
+}
+
+/**
+ * Due date for an invoice billed on credit
+ * @param invoiceDate - Invoice date (ISO)
+ * @param dueDays - Days allowed, from the Invoice config
+ * @returns Due date (ISO date), or null when no due days are configured
+ */
+export function calculateDueDate(invoiceDate: string, dueDays: number | undefined): string | null {
+  if (!dueDays) return null;
+  return new Date(new Date(invoiceDate).getTime() + dueDays * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Check a sale against the customer's credit limit
+ * @param customer - Customer on the invoice
+ * @param saleBalance - Balance this sale leaves unpaid
+ * @returns Credit position, or null when the customer has no limit or nothing is left unpaid
+ */
+export function checkCreditLimit(
+  customer: Pick<Customer, 'creditLimit' | 'outstandingBalance'> | null,
+  saleBalance: number
+): CreditCheck | null {
+  if (!customer || customer.creditLimit === null || saleBalance <= 0) return null;
+  const exposure = customer.outstandingBalance + saleBalance;
+  return {
+    creditLimit: customer.creditLimit,
+    outstanding: customer.outstandingBalance,
+    exposure,
+    available: customer.creditLimit - customer.outstandingBalance,
+    exceeded: exposure > customer.creditLimit,
+  };
+}
+
+/**
+ * Flatten a receivables ageing into CSV, one row per customer
+ * @param ageing - Receivables ageing
+ * @returns CSV text
+ */
+export function receivablesAgeingToCsv(ageing: ReceivablesAgeing): string {
+  return toCsv(
+    [
+      'Customer No.',
+      'Customer',
+      'Phone',
+      'Invoices',
+      ...AGEING_BUCKETS.map((bucket) => bucket.label),
+      'Total',
+      'Credit Limit',
+    ],
+    [
+      ...ageing.rows.map((row) => [
+        row.customerNumber,
+        row.customerName,
+        row.phone,
+        row.invoiceCount,
+        ...AGEING_BUCKETS.map((bucket) => row.buckets[bucket.key]),
+        row.total,
+        row.creditLimit,
+      ]),
+      ['', 'Total', '', '', ...AGEING_BUCKETS.map((bucket) => ageing.totals[bucket.key]), ageing.totals.total, ''],
+    ]
+  );
+}
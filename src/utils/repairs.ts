@@ -0,0 +1,31 @@
+import { roundTo } from './rounding';
+
+/** Weights are kept to the milligram */
+const WEIGHT_DECIMALS = 3;
+
+/** Differences within this many grams are scale noise and not flagged */
+export const REPAIR_WEIGHT_TOLERANCE = 0.005;
+
+export interface RepairWeightCheck {
+  /** Weight out less weight in; negative when metal was lost */
+  difference: number;
+  /** Difference as a percentage of the weight in */
+  differencePercent: number;
+  /** The piece came back lighter or heavier beyond the tolerance */
+  flagged: boolean;
+}
+
+/**
+ * Compare the weight a piece came in at with the weight it goes back at
+ * @param weightIn - Weight in grams at intake
+ * @param weightOut - Weight in grams after the work
+ * @returns Difference and whether it needs the customer's attention
+ */
+export function compareRepairWeights(weightIn: number, weightOut: number): RepairWeightCheck {
+  const difference = roundTo(weightOut - weightIn, WEIGHT_DECIMALS);
+  return {
+    difference,
+    differencePercent: weightIn > 0 ? roundTo((difference / weightIn) * 100, 2) : 0,
+    flagged: Math.abs(difference) > REPAIR_WEIGHT_TOLERANCE,
+  };
+}
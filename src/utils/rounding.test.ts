@@ -0,0 +1,10 @@
+import { describe, expect, it } from 'vitest';
+import { roundTo } from './rounding';
+
+describe('roundTo', () => {
+  it('rounds half away from zero', () => {
+    expect(roundTo(1.005, 2)).toBe(1.01);
+    expect(roundTo(-1.005, 2)).toBe(-1.01);
+    expect(roundTo(2.5, 0)).toBe(3);
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Round half away from zero to a fixed number of decimals
+ * @param value - Value to round
+ * @param decimals - Decimal places
+ * @returns Rounded value
+ */
+export function roundTo(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  const rounded = Math.round((Math.abs(value) + Number.EPSILON) * factor) / factor;
+  return Math.sign(value) * rounded || 0;
+}
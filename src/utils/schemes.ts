@@ -0,0 +1,112 @@
+import type { SchemeEnrolment } from '../api/schemes';
+import { roundTo } from './rounding';
+
+/** Weights are kept to the milligram */
+const WEIGHT_DECIMALS = 3;
+
+export interface SchemeProgress {
+  paidCount: number;
+  tenureMonths: number;
+  /** Instalments that should have been paid by today */
+  dueCount: number;
+  /** Due instalments not yet paid */
+  missedCount: number;
+  /** Date the next instalment falls due, or null when all are paid */
+  nextDueDate: Date | null;
+  /** Every instalment is paid and the bonus is earned */
+  isMatured: boolean;
+}
+
+export interface SchemeRedemption {
+  /** Instalments paid, or the gold accumulated at today's rate */
+  accumulatedValue: number;
+  bonusAmount: number;
+  total: number;
+  /** Part of the total taken off the invoice */
+  credit: number;
+  /** Part of the total left on the enrolment */
+  remaining: number;
+}
+
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+/**
+ * Where an enrolment stands against its monthly schedule. The first
+ * instalment falls due on the start date and one more each month after.
+ * @param enrolment - Enrolment with its plan
+ * @param asOf - Date to measure against
+ * @returns Paid, due and missed instalments
+ */
+export function getSchemeProgress(
+  enrolment: Pick<SchemeEnrolment, 'startDate' | 'paidCount' | 'plan'>,
+  asOf: Date = new Date()
+): SchemeProgress {
+  const start = new Date(enrolment.startDate);
+  const tenureMonths = enrolment.plan.tenureMonths;
+  const monthsElapsed = (asOf.getFullYear() - start.getFullYear()) * 12 + asOf.getMonth() - start.getMonth();
+  const startedThisMonth = asOf.getDate() >= start.getDate() ? 1 : 0;
+  const dueCount = Math.min(Math.max(monthsElapsed + startedThisMonth, 0), tenureMonths);
+  const isMatured = enrolment.paidCount >= tenureMonths;
+
+  return {
+    paidCount: enrolment.paidCount,
+    tenureMonths,
+    dueCount,
+    missedCount: Math.max(dueCount - enrolment.paidCount, 0),
+    nextDueDate: isMatured ? null : addMonths(start, enrolment.paidCount),
+    isMatured,
+  };
+}
+
+/**
+ * Gold an instalment buys at the day's rate
+ * @param amount - Instalment amount
+ * @param ratePerGram - Gold rate per gram of the plan's purity
+ * @returns Weight in grams, or 0 when there is no rate
+ */
+export function convertInstalmentToGrams(amount: number, ratePerGram: number): number {
+  return ratePerGram > 0 ? roundTo(amount / ratePerGram, WEIGHT_DECIMALS) : 0;
+}
+
+/**
+ * Value an enrolment for redemption on a sales invoice
+ *
+ * Amount plans are worth what was paid; grams plans are worth the gold
+ * accumulated at today's rate. The bonus instalments are added only once
+ * every instalment has been paid. The credit stops at the amount payable;
+ * whatever is left stays on the enrolment.
+ *
+ * @param enrolment - Enrolment with its plan
+ * @param currentRatePerGram - Today's rate for the plan's purity, if entered
+ * @param decimals - Decimal places amounts are rounded to
+ * @param payable - Amount due on the invoice before the redemption; no cap when omitted
+ * @returns Redemption value
+ */
+export function calculateSchemeRedemption(
+  enrolment: Pick<SchemeEnrolment, 'paidCount' | 'totalPaid' | 'totalGrams' | 'plan'>,
+  currentRatePerGram: number | undefined,
+  decimals: number,
+  payable?: number
+): SchemeRedemption {
+  const { plan } = enrolment;
+  const accumulatedValue =
+    plan.mode === 'grams' && currentRatePerGram
+      ? roundTo(enrolment.totalGrams * currentRatePerGram, decimals)
+      : enrolment.totalPaid;
+  const bonusAmount =
+    enrolment.paidCount >= plan.tenureMonths ? roundTo(plan.bonusInstalments * plan.instalmentAmount, decimals) : 0;
+  const total = roundTo(accumulatedValue + bonusAmount, decimals);
+  const credit = payable === undefined ? total : Math.min(total, Math.max(roundTo(payable, decimals), 0));
+
+  return {
+    accumulatedValue,
+    bonusAmount,
+    total,
+    credit,
+    remaining: roundTo(total - credit, decimals),
+  };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { StockAuditDetail, StockAuditExpectedTag, StockAuditScan } from '../api/stockAudits';
+import { buildStockAuditVariance, getStockAuditCounts } from './stockAudit';
+
+const expectedTag = (tagNumber: string): StockAuditExpectedTag => ({
+  itemId: `item-${tagNumber}`,
+  tagNumber,
+  name: 'Ring',
+  tray: null,
+  grossWeight: 5,
+});
+
+const scan = (id: string, tagNumber: string): StockAuditScan => ({
+  id,
+  tagNumber,
+  itemId: null,
+  name: null,
+  grossWeight: null,
+  weighedGrossWeight: null,
+  scannedByName: null,
+  createdAt: '2026-04-10T10:00:00.000Z',
+});
+
+const audit = (expected: StockAuditExpectedTag[], scans: StockAuditScan[]): StockAuditDetail => ({
+  id: 'audit-1',
+  organizationId: 'org-1',
+  locationId: 'location-1',
+  locationName: 'Showcase 1',
+  branch: 'Main',
+  status: 'open',
+  expectedCount: expected.length,
+  scannedCount: scans.length,
+  notes: null,
+  startedByName: null,
+  closedByName: null,
+  createdAt: '2026-04-10T09:00:00.000Z',
+  closedAt: null,
+  expected,
+  scans,
+});
+
+describe('getStockAuditCounts', () => {
+  it('counts expected pieces as found or missing', () => {
+    const counts = getStockAuditCounts(audit([expectedTag('T1'), expectedTag('T2')], [scan('s1', 'T1')]));
+
+    expect(counts).toEqual({ expected: 2, found: 1, missing: 1, unexpected: 0 });
+  });
+
+  it('counts an unexpected tag once however often it is scanned', () => {
+    const counts = getStockAuditCounts(
+      audit([expectedTag('T1')], [scan('s1', 'T1'), scan('s2', 'X9'), scan('s3', 'X9'), scan('s4', 'T1')])
+    );
+
+    expect(counts).toEqual({ expected: 1, found: 1, missing: 0, unexpected: 1 });
+  });
+});
+
+describe('buildStockAuditVariance', () => {
+  it('lists an unexpected tag scanned twice as one extra piece', () => {
+    const variance = buildStockAuditVariance(audit([expectedTag('T1')], [scan('s1', 'X9'), scan('s2', 'X9')]));
+
+    expect(variance.extra.map((extra) => extra.id)).toEqual(['s1']);
+    expect(variance.missing.map((tag) => tag.tagNumber)).toEqual(['T1']);
+  });
+});
@@ -0,0 +1,111 @@
+import type { StockAuditDetail, StockAuditExpectedTag, StockAuditScan } from '../api/stockAudits';
+import { toCsv } from './export';
+import { roundTo } from './rounding';
+
+/** Scale readings within this many grams of the recorded weight count as a match */
+export const WEIGHT_TOLERANCE_GRAMS = 0.01;
+
+export interface StockAuditCounts {
+  expected: number;
+  /** Expected pieces that have been scanned */
+  found: number;
+  missing: number;
+  /** Scanned tags that were not on the expected list */
+  unexpected: number;
+}
+
+export interface WeightMismatch {
+  scan: StockAuditScan;
+  recordedWeight: number;
+  weighedWeight: number;
+  /** Weighed minus recorded, negative when the piece is lighter */
+  difference: number;
+}
+
+export interface StockAuditVariance {
+  missing: StockAuditExpectedTag[];
+  extra: StockAuditScan[];
+  weightMismatches: WeightMismatch[];
+}
+
+/**
+ * Live counts of an audit session
+ * @param audit - Audit session with expected tags and scans
+ * @returns Expected, found, missing and unexpected counts
+ */
+export function getStockAuditCounts(audit: StockAuditDetail): StockAuditCounts {
+  const expectedTags = new Set(audit.expected.map((tag) => tag.tagNumber));
+  const scannedTags = new Set(audit.scans.map((scan) => scan.tagNumber));
+  const found = audit.expected.filter((tag) => scannedTags.has(tag.tagNumber)).length;
+
+  return {
+    expected: audit.expected.length,
+    found,
+    missing: audit.expected.length - found,
+    unexpected: new Set([...scannedTags].filter((tagNumber) => !expectedTags.has(tagNumber))).size,
+  };
+}
+
+/**
+ * Compare what was scanned with what was expected
+ * @param audit - Audit session with expected tags and scans
+ * @returns Missing pieces, extra pieces and weight mismatches
+ */
+export function buildStockAuditVariance(audit: StockAuditDetail): StockAuditVariance {
+  const expectedByTag = new Map(audit.expected.map((tag) => [tag.tagNumber, tag]));
+  const scannedTags = new Set(audit.scans.map((scan) => scan.tagNumber));
+
+  const weightMismatches: WeightMismatch[] = [];
+  audit.scans.forEach((scan) => {
+    const recordedWeight = expectedByTag.get(scan.tagNumber)?.grossWeight ?? scan.grossWeight;
+    if (scan.weighedGrossWeight === null || recordedWeight === null) return;
+
+    const difference = roundTo(scan.weighedGrossWeight - recordedWeight, 3);
+    if (Math.abs(difference) > WEIGHT_TOLERANCE_GRAMS) {
+      weightMismatches.push({ scan, recordedWeight, weighedWeight: scan.weighedGrossWeight, difference });
+    }
+  });
+
+  return {
+    missing: audit.expected.filter((tag) => !scannedTags.has(tag.tagNumber)),
+    // A tag scanned more than once is still one extra piece
+    extra: audit.scans.filter(
+      (scan, index) =>
+        !expectedByTag.has(scan.tagNumber) &&
+        audit.scans.findIndex((other) => other.tagNumber === scan.tagNumber) === index
+    ),
+    weightMismatches,
+  };
+}
+
+/**
+ * Flatten a variance report into CSV, one row per discrepancy
+ * @param variance - Variance report
+ * @returns CSV text
+ */
+export function stockAuditVarianceToCsv(variance: StockAuditVariance): string {
+  return toCsv(
+    ['Type', 'Tag No.', 'Name', 'Tray', 'Recorded Wt (g)', 'Weighed Wt (g)', 'Difference (g)'],
+    [
+      ...variance.missing.map((tag) => ['Missing', tag.tagNumber, tag.name, tag.tray, tag.grossWeight, null, null]),
+      ...variance.extra.map((scan) => [
+        'Extra',
+        scan.tagNumber,
+        scan.name,
+        null,
+        scan.grossWeight,
+        scan.weighedGrossWeight,
+        null,
+      ]),
+      ...variance.weightMismatches.map((mismatch) => [
+        'Weight Mismatch',
+        mismatch.scan.tagNumber,
+        mismatch.scan.name,
+        null,
+        mismatch.recordedWeight,
+        mismatch.weighedWeight,
+        mismatch.difference,
+      ]),
+    ]
+  );
+}
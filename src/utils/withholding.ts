@@ -0,0 +1,319 @@
+import type { WithholdingBasis, WithholdingCharge, WithholdingSection } from '../api/config';
+import type { InvoicePayment, SalesInvoice } from '../api/sales';
+import type { PurchaseBill } from '../api/purchases';
+import { toCsv } from './export';
+import { roundTo } from './rounding';
+
+/**
+ * TCS/TDS calculations and the quarterly summary
+ *
+ * Pure functions only. TCS is collected from customers on top of the
+ * invoice; TDS is held back from what is paid to suppliers. Each section in
+ * the Tax config says what its threshold is tested against; the first
+ * section that applies to a document is the one charged.
+ */
+
+/**
+ * Sections a new Tax config starts with. No TCS section is set up: 206C(1H)
+ * no longer applies to sales from 1 April 2025, and the 206C(1D) cash sale
+ * threshold of five lakh can never be reached under the 269ST cash limit.
+ * Organizations that still need a TCS section add it in the Tax config.
+ */
+export const DEFAULT_WITHHOLDING_SECTIONS: WithholdingSection[] = [
+  {
+    section: '194Q',
+    description: 'Purchase of goods',
+    basis: 'purchase',
+    threshold: 5000000,
+    ratePercent: 0.1,
+    ratePercentWithoutPan: 5,
+  },
+];
+
+/** Cash receipts of two lakh or more from one person in a day are barred (section 269ST) */
+export const DEFAULT_CASH_RECEIPT_LIMIT = 200000;
+
+export type WithholdingKind = 'TCS' | 'TDS';
+
+export interface WithholdingInput {
+  /** Document value the threshold counts: invoice total for sales, bill value before GST for purchases */
+  amount: number;
+  /** Cash received on the invoice */
+  cashAmount?: number;
+  /** The party's total for the financial year before this document */
+  yearToDate?: number;
+  hasPan: boolean;
+}
+
+export interface CashReceiptCheck {
+  limit: number;
+  /** Cash taken from the customer today, including this invoice */
+  received: number;
+  exceeded: boolean;
+}
+
+export interface WithholdingQuarter {
+  /** Year the financial year starts in, e.g. 2025 for 2025-26 */
+  financialYear: number;
+  quarter: 1 | 2 | 3 | 4;
+}
+
+export interface WithholdingEntry extends WithholdingCharge {
+  kind: WithholdingKind;
+  documentId: string;
+  documentNumber: string;
+  date: string;
+  partyName: string;
+  pan: string | null;
+}
+
+export interface WithholdingSectionTotal {
+  kind: WithholdingKind;
+  section: string;
+  count: number;
+  taxableAmount: number;
+  amount: number;
+  /** Entries where the party had no PAN on file */
+  withoutPanCount: number;
+}
+
+export interface WithholdingReport {
+  tcs: WithholdingEntry[];
+  tds: WithholdingEntry[];
+  sections: WithholdingSectionTotal[];
+  totals: { tcs: number; tds: number };
+}
+
+/**
+ * Whether a section collects tax on sales or deducts it on purchases
+ * @param basis - Section basis
+ * @returns TCS or TDS
+ */
+export function getWithholdingKind(basis: WithholdingBasis): WithholdingKind {
+  return basis === 'purchase' ? 'TDS' : 'TCS';
+}
+
+/**
+ * First day of the financial year (April to March) a date falls in
+ * @param date - Any date
+ * @returns ISO date (YYYY-MM-DD)
+ */
+export function financialYearStart(date: Date = new Date()): string {
+  const year = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${year}-04-01`;
+}
+
+/**
+ * Work out the TCS or TDS due on a document
+ * @param sections - Sections from the Tax config
+ * @param bases - Bases that apply to the document: cash_sale and sale for invoices, purchase for bills
+ * @param input - Document value, cash received, the party's year to date and whether they have a PAN
+ * @param decimals - Decimal places to round to
+ * @returns Charge under the first section that applies, or null when none does
+ */
+export function calculateWithholding(
+  sections: WithholdingSection[],
+  bases: WithholdingBasis[],
+  input: WithholdingInput,
+  decimals: number
+): WithholdingCharge | null {
+  const { amount, cashAmount = 0, yearToDate = 0, hasPan } = input;
+  for (const section of sections) {
+    if (!bases.includes(section.basis)) continue;
+    let taxableAmount = 0;
+    if (section.basis === 'cash_sale') {
+      // Cash beyond the invoice value is change returned, not consideration
+      const cash = Math.min(cashAmount, amount);
+      taxableAmount = cash > section.threshold ? cash : 0;
+    } else {
+      taxableAmount = Math.max(0, Math.min(amount, yearToDate + amount - section.threshold));
+    }
+    if (taxableAmount <= 0) continue;
+    const ratePercent = hasPan ? section.ratePercent : section.ratePercentWithoutPan;
+    return {
+      section: section.section,
+      taxableAmount: roundTo(taxableAmount, decimals),
+      ratePercent,
+      amount: roundTo((taxableAmount * ratePercent) / 100, decimals),
+    };
+  }
+  return null;
+}
+
+/**
+ * Cash paid on a set of payments
+ * @param payments - Invoice payments
+ * @returns Total of the cash-mode payments
+ */
+export function sumCashPayments(payments: Pick<InvoicePayment, 'mode' | 'amount'>[]): number {
+  return payments.filter((payment) => payment.mode === 'cash').reduce((total, payment) => total + payment.amount, 0);
+}
+
+/**
+ * A customer's sales so far this financial year, and the cash they paid today
+ * @param invoices - The customer's invoices for the financial year
+ * @param asOf - Day to count cash for (defaults to today)
+ * @returns Year-to-date invoice total and today's cash receipts
+ */
+export function summarizeCustomerSales(
+  invoices: Pick<SalesInvoice, 'invoiceDate' | 'total' | 'payments'>[],
+  asOf: Date = new Date()
+): { yearToDate: number; cashToday: number } {
+  const today = asOf.toDateString();
+  return invoices.reduce(
+    (summary, invoice) => ({
+      yearToDate: summary.yearToDate + invoice.total,
+      cashToday:
+        summary.cashToday +
+        (new Date(invoice.invoiceDate).toDateString() === today ? sumCashPayments(invoice.payments) : 0),
+    }),
+    { yearToDate: 0, cashToday: 0 }
+  );
+}
+
+/**
+ * Check a customer's cash receipts against the daily limit
+ * @param received - Cash taken today, including the invoice being billed
+ * @param limit - cashReceiptLimit from the Tax config
+ * @returns Cash position, or null when there is no limit or no cash
+ */
+export function checkCashReceipt(received: number, limit: number | undefined): CashReceiptCheck | null {
+  if (!limit || received <= 0) return null;
+  return { limit, received, exceeded: received >= limit };
+}
+
+/**
+ * Label of a quarter, as used on the quarterly returns
+ * @param quarter - Financial year and quarter
+ * @returns e.g. "Q1 2025-26"
+ */
+export function formatWithholdingQuarter({ financialYear, quarter }: WithholdingQuarter): string {
+  return `Q${quarter} ${financialYear}-${String(financialYear + 1).slice(2)}`;
+}
+
+/**
+ * First and last day of a quarter, as API date filters. Q1 is April to June.
+ * @param quarter - Financial year and quarter
+ * @returns ISO dates (YYYY-MM-DD)
+ */
+export function withholdingQuarterRange({ financialYear, quarter }: WithholdingQuarter): {
+  startDate: string;
+  endDate: string;
+} {
+  const startMonth = (quarter * 3) % 12; // 0-based: 3 for Q1 (April), 0 for Q4 (January)
+  const year = quarter === 4 ? financialYear + 1 : financialYear;
+  const lastDay = new Date(year, startMonth + 3, 0).getDate();
+  const month = (offset: number) => String(startMonth + offset + 1).padStart(2, '0');
+  return { startDate: `${year}-${month(0)}-01`, endDate: `${year}-${month(2)}-${lastDay}` };
+}
+
+/**
+ * Quarter a date falls in
+ * @param date - Any date
+ * @returns Financial year and quarter
+ */
+export function getWithholdingQuarter(date: Date = new Date()): WithholdingQuarter {
+  const month = date.getMonth();
+  return {
+    financialYear: month >= 3 ? date.getFullYear() : date.getFullYear() - 1,
+    quarter: (month >= 3 ? Math.floor((month - 3) / 3) + 1 : 4) as WithholdingQuarter['quarter'],
+  };
+}
+
+/**
+ * TCS collected and TDS deducted over a quarter, by document and by section
+ * @param invoices - Sales invoices dated in the quarter
+ * @param bills - Purchase bills dated in the quarter
+ * @param decimals - Decimal places to round to
+ * @returns Entries, section totals and grand totals
+ */
+export function buildWithholdingReport(
+  invoices: SalesInvoice[],
+  bills: PurchaseBill[],
+  decimals: number
+): WithholdingReport {
+  const tcs: WithholdingEntry[] = invoices.flatMap((invoice) =>
+    invoice.tcs
+      ? [
+          {
+            ...invoice.tcs,
+            kind: 'TCS' as const,
+            documentId: invoice.id,
+            documentNumber: invoice.invoiceNumber,
+            date: invoice.invoiceDate,
+            partyName: invoice.customer?.name ?? 'Walk-in',
+            pan: invoice.customer?.panNumber ?? null,
+          },
+        ]
+      : []
+  );
+  const tds: WithholdingEntry[] = bills
+    .filter((bill) => bill.status !== 'rejected')
+    .flatMap((bill) =>
+      bill.tds
+        ? [
+            {
+              ...bill.tds,
+              kind: 'TDS' as const,
+              documentId: bill.id,
+              documentNumber: bill.billNumber,
+              date: bill.billDate,
+              partyName: bill.supplier.name,
+              pan: bill.supplier.panNumber,
+            },
+          ]
+        : []
+    );
+
+  const byKey = new Map<string, WithholdingSectionTotal>();
+  [...tcs, ...tds].forEach((entry) => {
+    const key = `${entry.kind}-${entry.section}`;
+    const row = byKey.get(key) ?? {
+      kind: entry.kind,
+      section: entry.section,
+      count: 0,
+      taxableAmount: 0,
+      amount: 0,
+      withoutPanCount: 0,
+    };
+    row.count += 1;
+    row.taxableAmount = roundTo(row.taxableAmount + entry.taxableAmount, decimals);
+    row.amount = roundTo(row.amount + entry.amount, decimals);
+    if (!entry.pan) row.withoutPanCount += 1;
+    byKey.set(key, row);
+  });
+
+  const total = (entries: WithholdingEntry[]) =>
+    roundTo(entries.reduce((sum, entry) => sum + entry.amount, 0), decimals);
+
+  return {
+    tcs,
+    tds,
+    sections: Array.from(byKey.values()).sort(
+      (a, b) => a.kind.localeCompare(b.kind) || a.section.localeCompare(b.section)
+    ),
+    totals: { tcs: total(tcs), tds: total(tds) },
+  };
+}
+
+/**
+ * Flatten a quarter's TCS/TDS entries into CSV, one row per document
+ * @param report - Quarterly report
+ * @returns CSV text
+ */
+export function withholdingReportToCsv(report: WithholdingReport): string {
+  return toCsv(
+    ['Type', 'Section', 'Date', 'Document No.', 'Party', 'PAN', 'Taxable Amount', 'Rate (%)', 'Amount'],
+    [...report.tcs, ...report.tds].map((entry) => [
+      entry.kind,
+      entry.section,
+      entry.date.slice(0, 10),
+      entry.documentNumber,
+      entry.partyName,
+      entry.pan,
+      entry.taxableAmount,
+      entry.ratePercent,
+      entry.amount,
+    ])
+  );
+}